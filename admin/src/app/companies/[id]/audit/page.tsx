@@ -0,0 +1,250 @@
+'use client'
+
+import { useCallback, useEffect, useState, use } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { useAuth } from '@/lib/auth-context'
+import { companiesApi, auditApi, Company, AuditEvent } from '@/lib/api'
+
+const PAGE_SIZE = 50
+
+const ACTION_LABELS: Record<string, string> = {
+  'department.create': '部署を作成',
+  'department.update': '部署を変更',
+  'department.delete': '部署を完全に削除',
+  'department.move': '部署を移動',
+  'department.archive': '部署をアーカイブ',
+  'department.restore': '部署を復元',
+  'department.assign': '部署にメンバーを割り当て',
+  'department.unassign': '部署からメンバーを外す',
+  'member.add': 'メンバーを追加',
+  'member.remove': 'メンバーを削除',
+  'member.role': 'メンバーの役割を変更',
+  'member.leave': 'メンバーが退出',
+  'role.create': 'ロールを作成',
+  'role.update': 'ロールを変更',
+  'role.delete': 'ロールを削除',
+  'invitation.create': '招待リンクを作成',
+  'invitation.accept': '招待を承諾',
+  'password_reset.create': 'パスワード再設定リンクを発行',
+  'password_reset.complete': 'パスワードを再設定',
+  'permission.grant': 'フォルダ権限を付与',
+  'permission.update': 'フォルダ権限を変更',
+  'permission.revoke': 'フォルダ権限を削除',
+  'company.settings': '会社設定を変更',
+  'company.transfer': 'オーナー権限を移譲',
+  'git.push': 'プッシュ',
+  'file.upload': 'ファイルをアップロード',
+}
+
+const ACTION_FILTERS = [
+  { value: '', label: 'すべての操作' },
+  { value: 'department', label: '部署' },
+  { value: 'member', label: 'メンバー' },
+  { value: 'role', label: 'ロール' },
+  { value: 'invitation', label: '招待' },
+  { value: 'permission', label: 'フォルダ権限' },
+  { value: 'company', label: '会社設定' },
+  { value: 'git', label: 'プッシュ' },
+  { value: 'file', label: 'アップロード' },
+]
+
+export default function AuditPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params)
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const [company, setCompany] = useState<Company | null>(null)
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Filters (dates are yyyy-mm-dd from <input type="date">)
+  const [action, setAction] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [offset, setOffset] = useState(0)
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login')
+    }
+  }, [authLoading, user, router])
+
+  const loadData = useCallback(async () => {
+    try {
+      const [companyRes, auditRes] = await Promise.all([
+        companiesApi.get(id),
+        auditApi.list(id, {
+          action,
+          from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+          to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+          limit: PAGE_SIZE,
+          offset,
+        }),
+      ])
+      setCompany(companyRes.data)
+      setEvents(auditRes.data.events)
+      setTotal(auditRes.data.total)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log')
+    } finally {
+      setLoading(false)
+    }
+  }, [id, action, from, to, offset])
+
+  useEffect(() => {
+    if (user) {
+      // eslint-disable-next-line react-hooks/set-state-in-effect
+      loadData()
+    }
+  }, [user, loadData])
+
+  // Changing a filter starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value)
+    setOffset(0)
+  }
+
+  const describeTarget = (event: AuditEvent): string => {
+    const details = event.details ?? {}
+    if (typeof details.path === 'string') return details.path
+    if (typeof details.name === 'string') return details.name
+    if (event.action === 'git.push' && Array.isArray(details.refs)) {
+      return (details.refs as Array<{ ref: string }>).map(r => r.ref.replace('refs/heads/', '')).join(', ')
+    }
+    return event.targetId ?? ''
+  }
+
+  if (authLoading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950">
+        <div className="text-zinc-400">読み込み中...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-950">
+      {/* Header */}
+      <header className="border-b border-zinc-800 bg-zinc-900/50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 gap-4">
+            <Link href={`/companies/${id}`} className="text-zinc-400 hover:text-white transition-colors">
+              ← 会社詳細に戻る
+            </Link>
+            <h1 className="text-xl font-bold text-white">
+              {company?.name} - 監査ログ
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400">
+            {error}
+            <button onClick={() => setError(null)} className="ml-2 underline">閉じる</button>
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-end gap-4 mb-6">
+          <div>
+            <label className="block text-sm text-zinc-400 mb-1">操作</label>
+            <select
+              value={action}
+              onChange={(e) => updateFilter(setAction)(e.target.value)}
+              className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {ACTION_FILTERS.map((filter) => (
+                <option key={filter.value} value={filter.value}>{filter.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm text-zinc-400 mb-1">開始日</label>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => updateFilter(setFrom)(e.target.value)}
+              className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-zinc-400 mb-1">終了日</label>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => updateFilter(setTo)(e.target.value)}
+              className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="ml-auto text-sm text-zinc-500">{total}件</div>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12 text-zinc-400">読み込み中...</div>
+        ) : (
+          <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl overflow-hidden">
+            {events.length === 0 ? (
+              <div className="p-8 text-center text-zinc-500">該当する記録はありません</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-zinc-800/50 text-zinc-400">
+                  <tr>
+                    <th className="text-left font-medium px-4 py-3">日時</th>
+                    <th className="text-left font-medium px-4 py-3">実行者</th>
+                    <th className="text-left font-medium px-4 py-3">操作</th>
+                    <th className="text-left font-medium px-4 py-3">対象</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-800">
+                  {events.map((event) => (
+                    <tr key={event.id}>
+                      <td className="px-4 py-3 text-zinc-400 whitespace-nowrap">
+                        {new Date(event.createdAt).toLocaleString('ja-JP')}
+                      </td>
+                      <td className="px-4 py-3 text-white">
+                        {event.actorName || event.actorEmail || event.actorId || 'システム'}
+                      </td>
+                      <td className="px-4 py-3 text-zinc-300">
+                        {ACTION_LABELS[event.action] ?? event.action}
+                      </td>
+                      <td className="px-4 py-3 text-zinc-300 font-mono" title={event.details ? JSON.stringify(event.details, null, 2) : undefined}>
+                        {describeTarget(event)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-between mt-4 text-sm">
+            <button
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={offset === 0}
+              className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-zinc-300 rounded-lg transition-colors"
+            >
+              ← 前へ
+            </button>
+            <span className="text-zinc-500">
+              {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} / {total}
+            </span>
+            <button
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= total}
+              className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-zinc-300 rounded-lg transition-colors"
+            >
+              次へ →
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
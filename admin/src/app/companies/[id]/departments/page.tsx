@@ -4,7 +4,7 @@ import { useEffect, useState, use } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { useAuth } from '@/lib/auth-context'
-import { companiesApi, departmentsApi, Company, Department, CreateDepartmentInput, UpdateDepartmentInput } from '@/lib/api'
+import { companiesApi, departmentsApi, Company, Department, DepartmentMove, Member, CreateDepartmentInput, UpdateDepartmentInput } from '@/lib/api'
 import {
   Buildings,
   Storefront,
@@ -59,6 +59,7 @@ export default function DepartmentsPage({ params }: { params: Promise<{ id: stri
   const { user, loading: authLoading } = useAuth()
   const [company, setCompany] = useState<Company | null>(null)
   const [departments, setDepartments] = useState<Department[]>([])
+  const [members, setMembers] = useState<Member[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -66,6 +67,7 @@ export default function DepartmentsPage({ params }: { params: Promise<{ id: stri
   const [showModal, setShowModal] = useState(false)
   const [editingDept, setEditingDept] = useState<Department | null>(null)
   const [formData, setFormData] = useState<CreateDepartmentInput>({
+    parentId: null,
     name: '',
     nameEn: '',
     folder: '',
@@ -76,11 +78,24 @@ export default function DepartmentsPage({ params }: { params: Promise<{ id: stri
   const [saving, setSaving] = useState(false)
   const [syncing, setSyncing] = useState(false)
 
+  // Last folder move, shown while SKILL.md files still refer to the old path
+  const [movedFolder, setMovedFolder] = useState<DepartmentMove | null>(null)
+
   // Delete confirmation modal state
   const [deleteTarget, setDeleteTarget] = useState<Department | null>(null)
   const [deleteStats, setDeleteStats] = useState<{ files: number; folders: number } | null>(null)
   const [deleting, setDeleting] = useState(false)
 
+  // Archived (deleted) departments and how long they are kept
+  const [archived, setArchived] = useState<Department[]>([])
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const [retentionDays, setRetentionDays] = useState('')
+  const [savingRetention, setSavingRetention] = useState(false)
+
+  // Member assignment panel (one department at a time)
+  const [assigningDeptId, setAssigningDeptId] = useState<string | null>(null)
+  const [assignUserId, setAssignUserId] = useState('')
+
   useEffect(() => {
     if (!authLoading && !user) {
       router.push('/login')
@@ -95,12 +110,17 @@ export default function DepartmentsPage({ params }: { params: Promise<{ id: stri
 
   const loadData = async () => {
     try {
-      const [companyRes, departmentsRes] = await Promise.all([
+      const [companyRes, departmentsRes, membersRes, archivedRes] = await Promise.all([
         companiesApi.get(id),
         departmentsApi.list(id, true),
+        companiesApi.getMembers(id),
+        departmentsApi.archived(id).catch(() => ({ success: false, data: [] as Department[] })),
       ])
       setCompany(companyRes.data)
       setDepartments(departmentsRes.data as Department[])
+      setMembers(membersRes.data)
+      setArchived(archivedRes.data)
+      setRetentionDays(companyRes.data.departmentRetentionDays?.toString() ?? '')
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load data')
     } finally {
@@ -111,6 +131,7 @@ export default function DepartmentsPage({ params }: { params: Promise<{ id: stri
   const openCreateModal = () => {
     setEditingDept(null)
     setFormData({
+      parentId: null,
       name: '',
       nameEn: '',
       folder: '',
@@ -124,6 +145,7 @@ export default function DepartmentsPage({ params }: { params: Promise<{ id: stri
   const openEditModal = (dept: Department) => {
     setEditingDept(dept)
     setFormData({
+      parentId: dept.parentId,
       name: dept.name,
       nameEn: dept.nameEn || '',
       folder: dept.folder,
@@ -141,10 +163,21 @@ export default function DepartmentsPage({ params }: { params: Promise<{ id: stri
 
     try {
       if (editingDept) {
+        // Folder and parent changes go through a move so the repository,
+        // permissions and members' checkouts follow the new path
+        const parentId = formData.parentId ?? null
+        if (formData.folder !== editingDept.folder || parentId !== editingDept.parentId) {
+          const moved = await departmentsApi.move(id, editingDept.id, {
+            folder: formData.folder !== editingDept.folder ? formData.folder : undefined,
+            parentId: parentId !== editingDept.parentId ? parentId : undefined,
+          })
+          if (moved.data.move && moved.data.move.skillReferences.length > 0) {
+            setMovedFolder(moved.data.move)
+          }
+        }
         const updateData: UpdateDepartmentInput = {
           name: formData.name,
           nameEn: formData.nameEn || null,
-          folder: formData.folder,
           icon: formData.icon,
           color: formData.color,
           description: formData.description || null,
@@ -196,6 +229,41 @@ export default function DepartmentsPage({ params }: { params: Promise<{ id: stri
     }
   }
 
+  const handleRestore = async (dept: Department) => {
+    setRestoringId(dept.id)
+    try {
+      await departmentsApi.restore(id, dept.id)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore department')
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  const handleSaveRetention = async () => {
+    const days = retentionDays.trim() === '' ? null : Number(retentionDays)
+    if (days !== null && (!Number.isInteger(days) || days < 1)) {
+      setError('保持期間は1以上の整数で入力してください（空欄で無期限）')
+      return
+    }
+    setSavingRetention(true)
+    try {
+      const res = await companiesApi.updateSettings(id, { departmentRetentionDays: days })
+      setCompany(res.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update settings')
+    } finally {
+      setSavingRetention(false)
+    }
+  }
+
+  // Subdepartments archived together with a department
+  const countDescendants = (deptId: string): number =>
+    departments
+      .filter(d => d.parentId === deptId)
+      .reduce((total, child) => total + 1 + countDescendants(child.id), 0)
+
   const handleSync = async () => {
     setSyncing(true)
     try {
@@ -251,6 +319,39 @@ export default function DepartmentsPage({ params }: { params: Promise<{ id: stri
     }
   }
 
+  const memberLabel = (userId: string) => {
+    const member = members.find(m => m.userId === userId)
+    return member?.name || member?.email || userId
+  }
+
+  const handleAssign = async (dept: Department, userId: string, isLead: boolean) => {
+    try {
+      await departmentsApi.assignMember(id, dept.id, userId, isLead)
+      setAssignUserId('')
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to assign member')
+    }
+  }
+
+  const handleUnassign = async (dept: Department, userId: string) => {
+    try {
+      await departmentsApi.unassignMember(id, dept.id, userId)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unassign member')
+    }
+  }
+
+  // Departments that can be the parent of the one being edited (not itself or below it)
+  const parentOptions = departments.filter((dept) => {
+    if (!editingDept) return true
+    for (let current: Department | undefined = dept; current; current = departments.find(d => d.id === current?.parentId)) {
+      if (current.id === editingDept.id) return false
+    }
+    return true
+  })
+
   // Validate folder name (ASCII + Japanese allowed)
   const isValidFolder = (folder: string) => /^[\w\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FFF][\w\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FFF._-]*$/.test(folder)
 
@@ -323,68 +424,185 @@ export default function DepartmentsPage({ params }: { params: Promise<{ id: stri
                   {departments
                     .sort((a, b) => a.sortOrder - b.sortOrder)
                     .map((dept, index) => (
-                    <div
-                      key={dept.id}
-                      className="flex items-center gap-4 p-4 hover:bg-zinc-800/30 transition-colors"
-                    >
-                      {/* Reorder buttons */}
-                      <div className="flex flex-col gap-1">
-                        <button
-                          onClick={() => handleMoveUp(index)}
-                          disabled={index === 0}
-                          className="text-zinc-500 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-500"
-                        >
-                          ▲
-                        </button>
-                        <button
-                          onClick={() => handleMoveDown(index)}
-                          disabled={index === departments.length - 1}
-                          className="text-zinc-500 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-500"
+                    <div key={dept.id}>
+                      <div className="flex items-center gap-4 p-4 hover:bg-zinc-800/30 transition-colors">
+                        {/* Reorder buttons */}
+                        <div className="flex flex-col gap-1">
+                          <button
+                            onClick={() => handleMoveUp(index)}
+                            disabled={index === 0}
+                            className="text-zinc-500 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-500"
+                          >
+                            ▲
+                          </button>
+                          <button
+                            onClick={() => handleMoveDown(index)}
+                            disabled={index === departments.length - 1}
+                            className="text-zinc-500 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-500"
+                          >
+                            ▼
+                          </button>
+                        </div>
+
+                        {/* Icon */}
+                        <div
+                          className="w-10 h-10 rounded-lg flex items-center justify-center text-white font-medium"
+                          style={{ backgroundColor: dept.color }}
                         >
-                          ▼
-                        </button>
-                      </div>
+                          {(() => {
+                            const IconComponent = IconMap[dept.icon]
+                            return IconComponent ? <IconComponent size={20} /> : dept.name.charAt(0)
+                          })()}
+                        </div>
 
-                      {/* Icon */}
-                      <div
-                        className="w-10 h-10 rounded-lg flex items-center justify-center text-white font-medium"
-                        style={{ backgroundColor: dept.color }}
-                      >
-                        {(() => {
-                          const IconComponent = IconMap[dept.icon]
-                          return IconComponent ? <IconComponent size={20} /> : dept.name.charAt(0)
-                        })()}
-                      </div>
+                        {/* Info */}
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="text-white font-medium">{dept.name}</span>
+                            {!dept.isActive && (
+                              <span className="text-xs bg-zinc-700 text-zinc-400 px-2 py-0.5 rounded">無効</span>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-3 text-sm text-zinc-500">
+                            {dept.nameEn && dept.nameEn !== dept.folder && <span>{dept.nameEn}</span>}
+                            <span className="font-mono">{dept.folder}</span>
+                            <span>{dept.members?.length ?? 0}人</span>
+                          </div>
+                        </div>
 
-                      {/* Info */}
-                      <div className="flex-1 min-w-0">
+                        {/* Actions */}
                         <div className="flex items-center gap-2">
-                          <span className="text-white font-medium">{dept.name}</span>
-                          {!dept.isActive && (
-                            <span className="text-xs bg-zinc-700 text-zinc-400 px-2 py-0.5 rounded">無効</span>
+                          <button
+                            onClick={() => {
+                              setAssigningDeptId(assigningDeptId === dept.id ? null : dept.id)
+                              setAssignUserId('')
+                            }}
+                            className="px-3 py-1.5 bg-zinc-700 hover:bg-zinc-600 text-white text-sm rounded-lg transition-colors"
+                          >
+                            メンバー
+                          </button>
+                          <button
+                            onClick={() => openEditModal(dept)}
+                            className="px-3 py-1.5 bg-zinc-700 hover:bg-zinc-600 text-white text-sm rounded-lg transition-colors"
+                          >
+                            編集
+                          </button>
+                          <button
+                            onClick={() => handleDeleteClick(dept)}
+                            className="px-3 py-1.5 text-red-400 hover:text-red-300 text-sm transition-colors"
+                          >
+                            削除
+                          </button>
+                        </div>
+                      </div>
+
+                      {/* Member assignments */}
+                      {assigningDeptId === dept.id && (
+                        <div className="px-4 pb-4 pl-16 space-y-2">
+                          {(dept.members ?? []).length === 0 ? (
+                            <p className="text-sm text-zinc-500">所属メンバーはいません</p>
+                          ) : (
+                            (dept.members ?? []).map((assignment) => (
+                              <div key={assignment.userId} className="flex items-center gap-3 text-sm">
+                                <span className="text-white">{memberLabel(assignment.userId)}</span>
+                                <label className="flex items-center gap-1.5 text-zinc-400">
+                                  <input
+                                    type="checkbox"
+                                    checked={assignment.isLead}
+                                    onChange={(e) => handleAssign(dept, assignment.userId, e.target.checked)}
+                                  />
+                                  リーダー
+                                </label>
+                                <button
+                                  onClick={() => handleUnassign(dept, assignment.userId)}
+                                  className="text-red-400 hover:text-red-300 transition-colors"
+                                >
+                                  外す
+                                </button>
+                              </div>
+                            ))
                           )}
+                          <div className="flex items-center gap-2 pt-1">
+                            <select
+                              value={assignUserId}
+                              onChange={(e) => setAssignUserId(e.target.value)}
+                              className="px-3 py-1.5 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              <option value="">メンバーを選択</option>
+                              {members
+                                .filter(m => !dept.members?.some(a => a.userId === m.userId))
+                                .map((m) => (
+                                  <option key={m.userId} value={m.userId}>{m.name || m.email || m.userId}</option>
+                                ))}
+                            </select>
+                            <button
+                              onClick={() => handleAssign(dept, assignUserId, false)}
+                              disabled={!assignUserId}
+                              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:bg-blue-600/50 text-white text-sm font-medium rounded-lg transition-colors"
+                            >
+                              追加
+                            </button>
+                          </div>
                         </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Archived departments */}
+            <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-6 space-y-4">
+              <div className="flex items-start justify-between gap-6">
+                <div>
+                  <h2 className="text-lg font-semibold text-white mb-1">アーカイブ済みの部署</h2>
+                  <p className="text-zinc-400 text-sm">
+                    削除した部署はフォルダごとアーカイブされ、履歴を残したまま復元できます。
+                    保持期間を過ぎたアーカイブは完全に削除されます。
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <input
+                    type="number"
+                    min={1}
+                    value={retentionDays}
+                    onChange={(e) => setRetentionDays(e.target.value)}
+                    placeholder="無期限"
+                    className="w-24 px-3 py-1.5 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-zinc-400">日</span>
+                  <button
+                    onClick={handleSaveRetention}
+                    disabled={savingRetention || retentionDays === (company?.departmentRetentionDays?.toString() ?? '')}
+                    className="px-3 py-1.5 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+                  >
+                    {savingRetention ? '保存中...' : '保存'}
+                  </button>
+                </div>
+              </div>
+
+              {archived.length === 0 ? (
+                <p className="text-sm text-zinc-500">アーカイブ済みの部署はありません</p>
+              ) : (
+                <div className="divide-y divide-zinc-800">
+                  {archived.map((dept) => (
+                    <div key={dept.id} className="flex items-center gap-4 py-3">
+                      <div className="flex-1 min-w-0">
+                        <span className="text-white">{dept.name}</span>
                         <div className="flex items-center gap-3 text-sm text-zinc-500">
-                          {dept.nameEn && dept.nameEn !== dept.folder && <span>{dept.nameEn}</span>}
-                          <span className="font-mono">{dept.folder}</span>
+                          <span className="font-mono">{dept.archivedFrom}</span>
+                          {dept.archivedAt && (
+                            <span>{new Date(dept.archivedAt).toLocaleString('ja-JP')} にアーカイブ</span>
+                          )}
                         </div>
                       </div>
-
-                      {/* Actions */}
-                      <div className="flex items-center gap-2">
-                        <button
-                          onClick={() => openEditModal(dept)}
-                          className="px-3 py-1.5 bg-zinc-700 hover:bg-zinc-600 text-white text-sm rounded-lg transition-colors"
-                        >
-                          編集
-                        </button>
-                        <button
-                          onClick={() => handleDeleteClick(dept)}
-                          className="px-3 py-1.5 text-red-400 hover:text-red-300 text-sm transition-colors"
-                        >
-                          削除
-                        </button>
-                      </div>
+                      <button
+                        onClick={() => handleRestore(dept)}
+                        disabled={restoringId === dept.id}
+                        className="px-3 py-1.5 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+                      >
+                        {restoringId === dept.id ? '復元中...' : '復元'}
+                      </button>
                     </div>
                   ))}
                 </div>
@@ -425,6 +643,22 @@ export default function DepartmentsPage({ params }: { params: Promise<{ id: stri
                   />
                 </div>
 
+                {editingDept && (
+                  <div>
+                    <label className="block text-sm text-zinc-400 mb-1">親部署</label>
+                    <select
+                      value={formData.parentId ?? ''}
+                      onChange={(e) => setFormData({ ...formData, parentId: e.target.value || null })}
+                      className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">なし</option>
+                      {parentOptions.map((dept) => (
+                        <option key={dept.id} value={dept.id}>{dept.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm text-zinc-400 mb-1">フォルダ名 * (日本語・英数字)</label>
                   <input
@@ -441,6 +675,9 @@ export default function DepartmentsPage({ params }: { params: Promise<{ id: stri
                   {formData.folder && !isValidFolder(formData.folder) && (
                     <p className="text-red-400 text-xs mt-1">日本語・英数字で始まり、日本語・英数字・ドット・アンダースコア・ハイフンのみ使用可能</p>
                   )}
+                  {editingDept && formData.folder !== editingDept.folder && (
+                    <p className="text-zinc-500 text-xs mt-1">フォルダは履歴を保ったまま移動され、メンバーのPCでも次回の同期で移動します</p>
+                  )}
                 </div>
 
                 <div>
@@ -514,6 +751,41 @@ export default function DepartmentsPage({ params }: { params: Promise<{ id: stri
           </div>
         )}
 
+        {/* Skill references to the old folder after a move */}
+        {movedFolder && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-zinc-900 border border-zinc-700 rounded-xl p-6 w-full max-w-lg mx-4">
+              <h3 className="text-lg font-semibold text-white mb-4">
+                フォルダを移動しました
+              </h3>
+
+              <div className="mb-6 p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+                <p className="text-yellow-400 font-medium mb-2">
+                  次のスキルが旧パス「<span className="font-mono">{movedFolder.fromPath}/</span>」を参照しています
+                </p>
+                <p className="text-yellow-300 text-sm mb-2">
+                  「<span className="font-mono">{movedFolder.toPath}/</span>」に書き換えてください。
+                </p>
+                <ul className="text-sm space-y-1 max-h-64 overflow-y-auto">
+                  {movedFolder.skillReferences.map((reference) => (
+                    <li key={`${reference.path}:${reference.line}`} className="text-zinc-300">
+                      <span className="font-mono text-zinc-400">{reference.path}:{reference.line}</span>
+                      <span className="block truncate">{reference.text}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <button
+                onClick={() => setMovedFolder(null)}
+                className="w-full px-4 py-2 bg-zinc-700 hover:bg-zinc-600 text-white font-medium rounded-lg transition-colors"
+              >
+                閉じる
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Delete Confirmation Modal */}
         {deleteTarget && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -527,15 +799,15 @@ export default function DepartmentsPage({ params }: { params: Promise<{ id: stri
                   「<span className="font-medium text-white">{deleteTarget.name}</span>」を削除しますか？
                 </p>
 
-                {deleteStats && (deleteStats.files > 0 || deleteStats.folders > 0) ? (
-                  <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-lg">
-                    <p className="text-red-400 font-medium mb-2">
-                      ⚠️ 警告: この操作は取り消せません
-                    </p>
-                    <p className="text-red-300 text-sm">
-                      以下が完全に削除されます:
-                    </p>
-                    <ul className="text-red-300 text-sm mt-2 list-disc list-inside">
+                <div className="p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm">
+                  <p className="text-yellow-300">
+                    フォルダはアーカイブされ、「アーカイブ済みの部署」から復元できます。
+                    {company?.departmentRetentionDays
+                      ? `${company.departmentRetentionDays}日後に完全に削除されます。`
+                      : ''}
+                  </p>
+                  {deleteStats && (deleteStats.files > 0 || deleteStats.folders > 0) && (
+                    <ul className="text-yellow-300 mt-2 list-disc list-inside">
                       {deleteStats.files > 0 && (
                         <li>{deleteStats.files} 個のファイル</li>
                       )}
@@ -543,12 +815,13 @@ export default function DepartmentsPage({ params }: { params: Promise<{ id: stri
                         <li>{deleteStats.folders} 個のサブフォルダ</li>
                       )}
                     </ul>
-                  </div>
-                ) : (
-                  <p className="text-zinc-500 text-sm">
-                    フォルダは空です。安全に削除できます。
-                  </p>
-                )}
+                  )}
+                  {countDescendants(deleteTarget.id) > 0 && (
+                    <p className="text-yellow-400 mt-2">
+                      配下の {countDescendants(deleteTarget.id)} 部署も一緒にアーカイブされます。
+                    </p>
+                  )}
+                </div>
               </div>
 
               <div className="flex gap-3">
@@ -557,7 +830,7 @@ export default function DepartmentsPage({ params }: { params: Promise<{ id: stri
                   disabled={deleting}
                   className="flex-1 px-4 py-2 bg-red-600 hover:bg-red-500 disabled:bg-red-600/50 text-white font-medium rounded-lg transition-colors"
                 >
-                  {deleting ? '削除中...' : '削除する'}
+                  {deleting ? 'アーカイブ中...' : 'アーカイブする'}
                 </button>
                 <button
                   onClick={() => {
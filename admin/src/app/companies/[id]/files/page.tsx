@@ -0,0 +1,395 @@
+'use client'
+
+import { useEffect, useState, use } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { useAuth } from '@/lib/auth-context'
+import { companiesApi, repoApi, Company, LargeFileUsage, RepoTreeEntry, RepoCommit, RepoCommitDiff } from '@/lib/api'
+
+const TEXT_PREVIEW_LIMIT = 1024 * 1024
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg']
+
+type Preview =
+  | { kind: 'text'; path: string; text: string }
+  | { kind: 'image'; path: string }
+  | { kind: 'download'; path: string; size: number | null }
+
+function formatSize(size: number | null): string {
+  if (size === null) return ''
+  if (size < 1024) return `${size} B`
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`
+  if (size < 1024 * 1024 * 1024) return `${(size / 1024 / 1024).toFixed(1)} MB`
+  return `${(size / 1024 / 1024 / 1024).toFixed(2)} GB`
+}
+
+export default function FilesPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params)
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const [company, setCompany] = useState<Company | null>(null)
+  const [path, setPath] = useState('')
+  const [entries, setEntries] = useState<RepoTreeEntry[]>([])
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // History of the current folder or previewed file
+  const [showHistory, setShowHistory] = useState(false)
+  const [commits, setCommits] = useState<RepoCommit[]>([])
+  const [nextSkip, setNextSkip] = useState<number | null>(null)
+  const [selectedCommit, setSelectedCommit] = useState<RepoCommitDiff | null>(null)
+
+  // Large file store (files over 100MB are uploaded there by the desktop app)
+  const [largeFiles, setLargeFiles] = useState<LargeFileUsage | null>(null)
+  const [quotaGb, setQuotaGb] = useState('')
+  const [savingQuota, setSavingQuota] = useState(false)
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login')
+    }
+  }, [authLoading, user, router])
+
+  useEffect(() => {
+    if (user) {
+      companiesApi.get(id).then(res => setCompany(res.data)).catch(() => {})
+      companiesApi.getLargeFiles(id)
+        .then(res => {
+          setLargeFiles(res.data)
+          setQuotaGb(res.data.quotaGb?.toString() ?? '')
+        })
+        .catch(() => {})
+    }
+  }, [user, id])
+
+  useEffect(() => {
+    if (!user) return
+    let cancelled = false
+    repoApi.tree(id, path)
+      .then(res => {
+        if (!cancelled) setEntries(res.data.entries)
+      })
+      .catch(err => {
+        if (cancelled) return
+        setEntries([])
+        setError(err instanceof Error ? err.message : 'Failed to load files')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => { cancelled = true }
+  }, [user, id, path])
+
+  const openFolder = (folder: string) => {
+    if (folder !== path) {
+      setLoading(true)
+      setError(null)
+      setPath(folder)
+    }
+    setPreview(null)
+    setShowHistory(false)
+    setSelectedCommit(null)
+  }
+
+  const openFile = async (entry: RepoTreeEntry) => {
+    setShowHistory(false)
+    setSelectedCommit(null)
+    const extension = entry.name.includes('.') ? entry.name.slice(entry.name.lastIndexOf('.')).toLowerCase() : ''
+    if (IMAGE_EXTENSIONS.includes(extension)) {
+      setPreview({ kind: 'image', path: entry.path })
+      return
+    }
+    if (entry.size !== null && entry.size > TEXT_PREVIEW_LIMIT) {
+      setPreview({ kind: 'download', path: entry.path, size: entry.size })
+      return
+    }
+    try {
+      const { text, contentType } = await repoApi.blobText(id, entry.path)
+      const isText = contentType.startsWith('text/') || contentType.startsWith('application/json')
+      setPreview(isText ? { kind: 'text', path: entry.path, text } : { kind: 'download', path: entry.path, size: entry.size })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load file')
+    }
+  }
+
+  const loadHistory = async (skip = 0) => {
+    try {
+      const res = await repoApi.commits(id, { path: preview?.path ?? path, skip })
+      setCommits(skip === 0 ? res.data.commits : [...commits, ...res.data.commits])
+      setNextSkip(res.data.nextSkip)
+      setShowHistory(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history')
+    }
+  }
+
+  const openCommit = async (sha: string) => {
+    try {
+      const res = await repoApi.commit(id, sha)
+      setSelectedCommit(res.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load commit')
+    }
+  }
+
+  const handleSaveQuota = async () => {
+    if (!largeFiles) return
+    const gb = quotaGb.trim() === '' ? null : Number(quotaGb)
+    if (gb !== null && (!Number.isInteger(gb) || gb < 1 || gb > largeFiles.maxQuotaGb)) {
+      setError(`上限は1〜${largeFiles.maxQuotaGb}の整数で入力してください（空欄でサーバーの既定値）`)
+      return
+    }
+    setSavingQuota(true)
+    try {
+      const res = await companiesApi.updateSettings(id, { largeFileQuotaGb: gb })
+      setCompany(res.data)
+      const usage = await companiesApi.getLargeFiles(id)
+      setLargeFiles(usage.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update settings')
+    } finally {
+      setSavingQuota(false)
+    }
+  }
+
+  const canManageSettings = company?.role === 'owner' || company?.role === 'admin'
+  const segments = path ? path.split('/') : []
+
+  if (authLoading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950">
+        <div className="text-zinc-400">読み込み中...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-950">
+      {/* Header */}
+      <header className="border-b border-zinc-800 bg-zinc-900/50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 gap-4">
+            <Link href={`/companies/${id}`} className="text-zinc-400 hover:text-white transition-colors">
+              ← 会社詳細に戻る
+            </Link>
+            <h1 className="text-xl font-bold text-white">
+              {company?.name} - ファイル
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400">
+            {error}
+            <button onClick={() => setError(null)} className="ml-2 underline">閉じる</button>
+          </div>
+        )}
+
+        {/* Large file store */}
+        {largeFiles && (
+          <div className="mb-6 bg-zinc-900/50 border border-zinc-800 rounded-xl p-4">
+            <div className="flex items-center justify-between gap-6">
+              <div className="min-w-0 flex-1">
+                <div className="flex items-baseline justify-between gap-4 mb-2">
+                  <h2 className="text-sm font-semibold text-white">大容量ファイル（100MB超）</h2>
+                  <span className="text-xs text-zinc-400">
+                    {formatSize(largeFiles.usedBytes)} / {formatSize(largeFiles.quotaBytes)}（{largeFiles.objectCount}件）
+                  </span>
+                </div>
+                <div className="h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+                  <div
+                    className={`h-full ${largeFiles.usedBytes >= largeFiles.quotaBytes * 0.9 ? 'bg-amber-500' : 'bg-blue-500'}`}
+                    style={{ width: `${Math.min(100, (largeFiles.usedBytes / largeFiles.quotaBytes) * 100)}%` }}
+                  />
+                </div>
+              </div>
+              {canManageSettings && (
+                <div className="flex items-center gap-2 shrink-0">
+                  <input
+                    type="number"
+                    min={1}
+                    max={largeFiles.maxQuotaGb}
+                    value={quotaGb}
+                    onChange={(e) => setQuotaGb(e.target.value)}
+                    placeholder={`既定 ${largeFiles.defaultQuotaGb}`}
+                    className="w-24 px-3 py-1.5 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-zinc-400">GB</span>
+                  <button
+                    onClick={handleSaveQuota}
+                    disabled={savingQuota || quotaGb === (largeFiles.quotaGb?.toString() ?? '')}
+                    className="px-3 py-1.5 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+                  >
+                    {savingQuota ? '保存中...' : '保存'}
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Breadcrumbs */}
+        <div className="flex items-center justify-between mb-4">
+          <nav className="flex flex-wrap items-center gap-1 text-sm">
+            <button onClick={() => openFolder('')} className="text-blue-400 hover:text-blue-300">ルート</button>
+            {segments.map((segment, index) => (
+              <span key={index} className="flex items-center gap-1">
+                <span className="text-zinc-600">/</span>
+                <button
+                  onClick={() => openFolder(segments.slice(0, index + 1).join('/'))}
+                  className="text-blue-400 hover:text-blue-300"
+                >
+                  {segment}
+                </button>
+              </span>
+            ))}
+            {preview && (
+              <span className="flex items-center gap-1">
+                <span className="text-zinc-600">/</span>
+                <span className="text-white">{preview.path.split('/').pop()}</span>
+              </span>
+            )}
+          </nav>
+          <button
+            onClick={() => showHistory ? setShowHistory(false) : loadHistory()}
+            className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 text-sm font-medium rounded-lg transition-colors"
+          >
+            {showHistory ? '履歴を閉じる' : '変更履歴'}
+          </button>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-[280px_1fr]">
+          {/* Folder listing */}
+          <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl overflow-hidden self-start">
+            {loading ? (
+              <div className="p-4 text-sm text-zinc-400">読み込み中...</div>
+            ) : entries.length === 0 ? (
+              <div className="p-4 text-sm text-zinc-500">ファイルはありません</div>
+            ) : (
+              <ul className="divide-y divide-zinc-800">
+                {entries.map((entry) => (
+                  <li key={entry.path}>
+                    <button
+                      onClick={() => entry.type === 'tree' ? openFolder(entry.path) : openFile(entry)}
+                      className={`w-full flex items-center justify-between gap-2 px-4 py-2 text-left text-sm hover:bg-zinc-800/50 ${
+                        preview?.path === entry.path ? 'bg-zinc-800/50' : ''
+                      }`}
+                    >
+                      <span className={`truncate ${entry.type === 'tree' ? 'text-white' : 'text-zinc-300'}`}>
+                        {entry.type === 'tree' ? '📁 ' : ''}{entry.name}
+                      </span>
+                      <span className="text-xs text-zinc-500 shrink-0">{formatSize(entry.size)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Preview, history or commit */}
+          <div className="min-w-0">
+            {selectedCommit ? (
+              <CommitView diff={selectedCommit} onClose={() => setSelectedCommit(null)} />
+            ) : showHistory ? (
+              <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl overflow-hidden">
+                {commits.length === 0 ? (
+                  <div className="p-4 text-sm text-zinc-500">変更履歴はありません</div>
+                ) : (
+                  <ul className="divide-y divide-zinc-800">
+                    {commits.map((commit) => (
+                      <li key={commit.sha}>
+                        <button onClick={() => openCommit(commit.sha)} className="w-full px-4 py-3 text-left hover:bg-zinc-800/50">
+                          <div className="text-sm text-white truncate">{commit.subject}</div>
+                          <div className="text-xs text-zinc-500 mt-1">
+                            {commit.authorName} / {new Date(commit.authoredAt).toLocaleString('ja-JP')} /{' '}
+                            <span className="font-mono">{commit.sha.slice(0, 8)}</span>
+                          </div>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {nextSkip !== null && (
+                  <button
+                    onClick={() => loadHistory(nextSkip)}
+                    className="w-full px-4 py-2 text-sm text-blue-400 hover:text-blue-300 border-t border-zinc-800"
+                  >
+                    さらに読み込む
+                  </button>
+                )}
+              </div>
+            ) : preview?.kind === 'text' ? (
+              <pre className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-4 text-sm text-zinc-200 overflow-auto whitespace-pre-wrap break-words">
+                {preview.text}
+              </pre>
+            ) : preview?.kind === 'image' ? (
+              <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-4">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={repoApi.blobUrl(id, preview.path)} alt={preview.path} className="max-w-full" />
+              </div>
+            ) : preview?.kind === 'download' ? (
+              <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-8 text-center">
+                <p className="text-sm text-zinc-400 mb-4">
+                  このファイルはプレビューできません{preview.size !== null && `（${formatSize(preview.size)}）`}
+                </p>
+                <a
+                  href={repoApi.blobUrl(id, preview.path)}
+                  download={preview.path.split('/').pop()}
+                  className="inline-block px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium rounded-lg transition-colors"
+                >
+                  ダウンロード
+                </a>
+              </div>
+            ) : (
+              <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-8 text-center text-sm text-zinc-500">
+                ファイルを選択するとここに表示されます
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
+
+function CommitView({ diff, onClose }: { diff: RepoCommitDiff; onClose: () => void }) {
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl overflow-hidden">
+      <div className="p-4 border-b border-zinc-800">
+        <div className="flex items-start justify-between gap-4">
+          <pre className="text-sm text-white whitespace-pre-wrap break-words font-sans">{diff.commit.message}</pre>
+          <button onClick={onClose} className="text-zinc-400 hover:text-white text-sm shrink-0">閉じる</button>
+        </div>
+        <div className="text-xs text-zinc-500 mt-2">
+          {diff.commit.authorName} &lt;{diff.commit.authorEmail}&gt; / {new Date(diff.commit.authoredAt).toLocaleString('ja-JP')} /{' '}
+          <span className="font-mono">{diff.commit.sha.slice(0, 8)}</span>
+        </div>
+      </div>
+      <ul className="px-4 py-2 border-b border-zinc-800 text-xs font-mono text-zinc-400">
+        {diff.files.map((file) => (
+          <li key={file.path}>{file.status} {file.path}</li>
+        ))}
+      </ul>
+      <pre className="p-4 text-xs overflow-auto">
+        {diff.patch.split('\n').map((line, index) => (
+          <div
+            key={index}
+            className={
+              line.startsWith('+') && !line.startsWith('+++') ? 'text-green-400'
+                : line.startsWith('-') && !line.startsWith('---') ? 'text-red-400'
+                  : line.startsWith('@@') ? 'text-blue-400'
+                    : 'text-zinc-400'
+            }
+          >
+            {line || ' '}
+          </div>
+        ))}
+      </pre>
+      {diff.truncated && (
+        <p className="px-4 pb-4 text-xs text-amber-400">差分が大きいため一部のみ表示しています</p>
+      )}
+    </div>
+  )
+}
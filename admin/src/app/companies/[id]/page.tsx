@@ -4,7 +4,7 @@ import { useEffect, useState, use } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { useAuth } from '@/lib/auth-context'
-import { companiesApi, invitationsApi, departmentsApi, Company, Member, Invitation, Department } from '@/lib/api'
+import { companiesApi, invitationsApi, passwordResetsApi, departmentsApi, rolesApi, Company, Member, Invitation, InvitationImportResult, Department, Role } from '@/lib/api'
 
 export default function CompanyDetailPage({ params }: { params: Promise<{ id: string }> }) {
   const { id } = use(params)
@@ -14,16 +14,40 @@ export default function CompanyDetailPage({ params }: { params: Promise<{ id: st
   const [members, setMembers] = useState<Member[]>([])
   const [invitations, setInvitations] = useState<Invitation[]>([])
   const [departments, setDepartments] = useState<Department[]>([])
+  const [roles, setRoles] = useState<Role[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   // Invite link state
   const [showCreateInvite, setShowCreateInvite] = useState(false)
-  const [inviteRole, setInviteRole] = useState<'admin' | 'member'>('member')
+  const [inviteRole, setInviteRole] = useState('member')
   const [inviteExpireDays, setInviteExpireDays] = useState(7)
+  const [inviteRestriction, setInviteRestriction] = useState<'none' | 'email' | 'domain'>('none')
+  const [inviteTarget, setInviteTarget] = useState('')
+  const [inviteMaxUses, setInviteMaxUses] = useState(1)
+  const [inviteDepartmentIds, setInviteDepartmentIds] = useState<string[]>([])
+  const [inviteFolders, setInviteFolders] = useState('')
   const [creating, setCreating] = useState(false)
   const [copiedToken, setCopiedToken] = useState<string | null>(null)
 
+  // CSV import result, shown until dismissed
+  const [importing, setImporting] = useState(false)
+  const [importResult, setImportResult] = useState<InvitationImportResult | null>(null)
+
+  // Role change state (one member at a time)
+  const [editingMemberId, setEditingMemberId] = useState<string | null>(null)
+  const [editRole, setEditRole] = useState('')
+  const [editDepartmentId, setEditDepartmentId] = useState('')
+
+  // Password reset link, shown once right after it is issued
+  const [resetLink, setResetLink] = useState<{ email: string; link: string; emailed: boolean; expiresAt: string } | null>(null)
+  const [resetCopied, setResetCopied] = useState(false)
+
+  // Ownership transfer state
+  const [transferUserId, setTransferUserId] = useState('')
+  const [transferConfirm, setTransferConfirm] = useState('')
+  const [transferring, setTransferring] = useState(false)
+
   useEffect(() => {
     if (!authLoading && !user) {
       router.push('/login')
@@ -38,16 +62,18 @@ export default function CompanyDetailPage({ params }: { params: Promise<{ id: st
 
   const loadData = async () => {
     try {
-      const [companyRes, membersRes, invitationsRes, departmentsRes] = await Promise.all([
+      const [companyRes, membersRes, invitationsRes, departmentsRes, rolesRes] = await Promise.all([
         companiesApi.get(id),
         companiesApi.getMembers(id),
         invitationsApi.list(id),
         departmentsApi.list(id, true), // flat=true
+        rolesApi.list(id),
       ])
       setCompany(companyRes.data)
       setMembers(membersRes.data)
       setInvitations(invitationsRes.data)
       setDepartments(departmentsRes.data as Department[])
+      setRoles(rolesRes.data)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load company')
     } finally {
@@ -59,10 +85,23 @@ export default function CompanyDetailPage({ params }: { params: Promise<{ id: st
     e.preventDefault()
     setCreating(true)
     try {
-      await invitationsApi.create(id, inviteRole, inviteExpireDays)
+      await invitationsApi.create(id, {
+        role: inviteRole,
+        expiresInDays: inviteExpireDays,
+        email: inviteRestriction === 'email' ? inviteTarget : null,
+        emailDomain: inviteRestriction === 'domain' ? inviteTarget : null,
+        maxUses: inviteRestriction === 'email' ? 1 : inviteMaxUses,
+        departmentIds: inviteDepartmentIds,
+        checkoutFolders: inviteFolders.split(/[\s,、]+/).filter(Boolean),
+      })
       setShowCreateInvite(false)
       setInviteRole('member')
       setInviteExpireDays(7)
+      setInviteRestriction('none')
+      setInviteTarget('')
+      setInviteMaxUses(1)
+      setInviteDepartmentIds([])
+      setInviteFolders('')
       loadData()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create invitation')
@@ -71,6 +110,22 @@ export default function CompanyDetailPage({ params }: { params: Promise<{ id: st
     }
   }
 
+  const handleImportCsv = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setImporting(true)
+    try {
+      const res = await invitationsApi.import(id, await file.text())
+      setImportResult(res.data)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import CSV')
+    } finally {
+      setImporting(false)
+    }
+  }
+
   const handleDeleteInvitation = async (invitationId: string) => {
     if (!confirm('この招待リンクを削除しますか？')) return
     try {
@@ -110,6 +165,24 @@ export default function CompanyDetailPage({ params }: { params: Promise<{ id: st
     }
   }
 
+  const startEditRole = (member: Member) => {
+    setEditingMemberId(member.userId)
+    setEditRole(member.role)
+    setEditDepartmentId(member.scopeDepartmentId ?? '')
+  }
+
+  const handleUpdateRole = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editingMemberId) return
+    try {
+      await companiesApi.updateMemberRole(id, editingMemberId, editRole, editDepartmentId || undefined)
+      setEditingMemberId(null)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change role')
+    }
+  }
+
   const handleRemoveMember = async (userId: string) => {
     if (!confirm('このメンバーを削除しますか？')) return
     try {
@@ -120,6 +193,72 @@ export default function CompanyDetailPage({ params }: { params: Promise<{ id: st
     }
   }
 
+  const handleCreatePasswordReset = async (member: Member) => {
+    if (!confirm(`${member.name || member.email} のパスワード再設定リンクを発行しますか？以前に発行したリンクは使えなくなります。`)) return
+    try {
+      const res = await passwordResetsApi.create(id, member.userId)
+      setResetLink({
+        email: res.data.email,
+        link: `${window.location.origin}/reset-password/${res.data.token}`,
+        emailed: res.data.emailed,
+        expiresAt: res.data.expiresAt,
+      })
+      setResetCopied(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create password reset link')
+    }
+  }
+
+  const copyResetLink = async () => {
+    if (!resetLink) return
+    try {
+      await navigator.clipboard.writeText(resetLink.link)
+      setResetCopied(true)
+    } catch {
+      window.prompt('リンクをコピーしてください:', resetLink.link)
+    }
+  }
+
+  const handleTransferOwnership = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!transferUserId) return
+    setTransferring(true)
+    try {
+      await companiesApi.transferOwnership(id, transferUserId, transferConfirm)
+      setTransferUserId('')
+      setTransferConfirm('')
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to transfer ownership')
+    } finally {
+      setTransferring(false)
+    }
+  }
+
+  const handleLeave = async () => {
+    if (!confirm('この会社から退出しますか？再度参加するには招待が必要です。')) return
+    try {
+      await companiesApi.leave(id)
+      router.push('/dashboard')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to leave company')
+    }
+  }
+
+  const roleName = (roleId: string) => roles.find(r => r.id === roleId)?.name ?? roleId
+  const departmentName = (departmentId: string | null) =>
+    departments.find(d => d.id === departmentId)?.name ?? null
+  // Department-scoped roles need a department to manage, so they are assigned
+  // after joining; ownership is never handed out by link
+  const invitableRoles = roles.filter(r => r.id !== 'owner' && r.scope === 'company')
+  const assignableRoles = roles.filter(r => r.id !== 'owner')
+  const toggleInviteDepartment = (departmentId: string) => {
+    setInviteDepartmentIds(ids => ids.includes(departmentId)
+      ? ids.filter(d => d !== departmentId)
+      : [...ids, departmentId])
+  }
+  const editRoleIsScoped = roles.find(r => r.id === editRole)?.scope === 'department'
+
   if (authLoading || !user) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-zinc-950">
@@ -182,27 +321,85 @@ export default function CompanyDetailPage({ params }: { params: Promise<{ id: st
             <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-6">
               <div className="flex justify-between items-center mb-4">
                 <h2 className="text-lg font-semibold text-white">招待リンク</h2>
-                <button
-                  onClick={() => setShowCreateInvite(true)}
-                  className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium rounded-lg transition-colors"
-                >
-                  招待リンクを作成
-                </button>
+                <div className="flex gap-2">
+                  <label
+                    className={`px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 text-sm font-medium rounded-lg transition-colors ${
+                      importing ? 'opacity-50 pointer-events-none' : 'cursor-pointer'
+                    }`}
+                    title="email, name, role, departments 列のCSV（部署は ; 区切り）"
+                  >
+                    {importing ? '読み込み中...' : 'CSVで一括招待'}
+                    <input type="file" accept=".csv,text/csv" onChange={handleImportCsv} className="hidden" />
+                  </label>
+                  <button
+                    onClick={() => setShowCreateInvite(true)}
+                    className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium rounded-lg transition-colors"
+                  >
+                    招待リンクを作成
+                  </button>
+                </div>
               </div>
 
+              {/* CSV import result */}
+              {importResult && (
+                <div className="mb-6 p-4 bg-zinc-800/50 rounded-lg">
+                  <div className="flex justify-between items-center mb-2">
+                    <p className="text-sm text-white">
+                      {importResult.created.length}件の招待リンクを作成しました
+                      {importResult.errors.length > 0 && (
+                        <span className="text-red-400">（{importResult.errors.length}件は処理できませんでした）</span>
+                      )}
+                    </p>
+                    <button
+                      onClick={() => setImportResult(null)}
+                      className="text-zinc-400 hover:text-white text-sm transition-colors"
+                    >
+                      閉じる
+                    </button>
+                  </div>
+                  {importResult.created.length > 0 && (
+                    <div className="space-y-1 mb-3">
+                      {importResult.created.map((created) => (
+                        <div key={created.token} className="flex items-center justify-between text-sm">
+                          <span className="text-zinc-300">
+                            {created.name ? `${created.name} <${created.email}>` : created.email}
+                          </span>
+                          <button
+                            onClick={() => copyInviteLink(created.token)}
+                            className="text-blue-400 hover:text-blue-300 text-xs transition-colors"
+                          >
+                            {copiedToken === created.token ? 'コピー済み' : 'リンクをコピー'}
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {importResult.errors.length > 0 && (
+                    <div className="space-y-1">
+                      {importResult.errors.map((failed) => (
+                        <div key={failed.row} className="text-xs text-red-400">
+                          {failed.row}行目{failed.email ? ` (${failed.email})` : ''}: {failed.error}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Create Invitation Form */}
               {showCreateInvite && (
                 <form onSubmit={handleCreateInvitation} className="mb-6 p-4 bg-zinc-800/50 rounded-lg">
-                  <div className="flex gap-4 items-end">
+                  <div className="flex flex-wrap gap-4 items-end">
                     <div>
                       <label className="block text-sm text-zinc-400 mb-1">役割</label>
                       <select
                         value={inviteRole}
-                        onChange={(e) => setInviteRole(e.target.value as 'admin' | 'member')}
+                        onChange={(e) => setInviteRole(e.target.value)}
                         className="px-3 py-2 bg-zinc-700 border border-zinc-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                       >
-                        <option value="member">メンバー</option>
-                        <option value="admin">管理者</option>
+                        {invitableRoles.map((role) => (
+                          <option key={role.id} value={role.id}>{role.name}</option>
+                        ))}
                       </select>
                     </div>
                     <div>
@@ -217,6 +414,80 @@ export default function CompanyDetailPage({ params }: { params: Promise<{ id: st
                         <option value={30}>30日</option>
                       </select>
                     </div>
+                    <div>
+                      <label className="block text-sm text-zinc-400 mb-1">宛先</label>
+                      <select
+                        value={inviteRestriction}
+                        onChange={(e) => setInviteRestriction(e.target.value as 'none' | 'email' | 'domain')}
+                        className="px-3 py-2 bg-zinc-700 border border-zinc-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="none">なし</option>
+                        <option value="email">メールアドレス</option>
+                        <option value="domain">ドメイン</option>
+                      </select>
+                    </div>
+                    {inviteRestriction !== 'none' && (
+                      <div className="flex-1">
+                        <label className="block text-sm text-zinc-400 mb-1">
+                          {inviteRestriction === 'email' ? 'メールアドレス' : 'ドメイン'}
+                        </label>
+                        <input
+                          type={inviteRestriction === 'email' ? 'email' : 'text'}
+                          value={inviteTarget}
+                          onChange={(e) => setInviteTarget(e.target.value)}
+                          placeholder={inviteRestriction === 'email' ? 'name@example.com' : 'example.com'}
+                          className="w-full px-3 py-2 bg-zinc-700 border border-zinc-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          required
+                        />
+                      </div>
+                    )}
+                    {inviteRestriction !== 'email' && (
+                      <div>
+                        <label className="block text-sm text-zinc-400 mb-1">利用回数の上限</label>
+                        <input
+                          type="number"
+                          min={1}
+                          max={1000}
+                          value={inviteMaxUses}
+                          onChange={(e) => setInviteMaxUses(Number(e.target.value))}
+                          className="w-24 px-3 py-2 bg-zinc-700 border border-zinc-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  {inviteRestriction !== 'none' && (
+                    <p className="text-xs text-zinc-500 mt-2">
+                      宛先は登録時の入力ミスを防ぐためのものです。メールアドレスの所有は確認されないため、リンクは宛先の相手にだけ共有してください。
+                    </p>
+                  )}
+                  {departments.length > 0 && (
+                    <div className="mt-4">
+                      <label className="block text-sm text-zinc-400 mb-1">参加する部署</label>
+                      <div className="flex flex-wrap gap-2">
+                        {departments.map((department) => (
+                          <label key={department.id} className="flex items-center gap-1.5 text-sm text-zinc-300">
+                            <input
+                              type="checkbox"
+                              checked={inviteDepartmentIds.includes(department.id)}
+                              onChange={() => toggleInviteDepartment(department.id)}
+                            />
+                            {department.name}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  <div className="mt-4">
+                    <label className="block text-sm text-zinc-400 mb-1">最初に同期するフォルダ（空欄なら参加部署のフォルダ）</label>
+                    <input
+                      type="text"
+                      value={inviteFolders}
+                      onChange={(e) => setInviteFolders(e.target.value)}
+                      placeholder="sales, shared"
+                      className="w-full px-3 py-2 bg-zinc-700 border border-zinc-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div className="flex gap-4 items-end mt-4">
                     <button
                       type="submit"
                       disabled={creating}
@@ -256,7 +527,7 @@ export default function CompanyDetailPage({ params }: { params: Promise<{ id: st
                               ? 'bg-purple-500/10 text-purple-400'
                               : 'bg-zinc-700/50 text-zinc-400'
                           }`}>
-                            {invitation.role === 'admin' ? '管理者' : 'メンバー'}
+                            {roleName(invitation.role)}
                           </span>
                           {invitation.isUsed && (
                             <span className="text-xs bg-green-500/10 text-green-400 px-2 py-0.5 rounded">使用済み</span>
@@ -264,12 +535,22 @@ export default function CompanyDetailPage({ params }: { params: Promise<{ id: st
                           {invitation.isExpired && !invitation.isUsed && (
                             <span className="text-xs bg-red-500/10 text-red-400 px-2 py-0.5 rounded">期限切れ</span>
                           )}
-                          {invitation.isUsed && (invitation.usedByName || invitation.usedByEmail) && (
+                          {invitation.useCount > 0 && (invitation.usedByName || invitation.usedByEmail) && (
                             <span className="text-xs text-zinc-300">
                               → {invitation.usedByName || invitation.usedByEmail}
                             </span>
                           )}
                         </div>
+                        {(invitation.email || invitation.emailDomain || invitation.maxUses > 1 || invitation.departmentIds.length > 0) && (
+                          <div className="text-xs text-zinc-400 mt-1">
+                            {invitation.email && <>宛先: {invitation.email} / </>}
+                            {invitation.emailDomain && <>宛先: @{invitation.emailDomain} / </>}
+                            利用: {invitation.useCount}/{invitation.maxUses}
+                            {invitation.departmentIds.length > 0 && (
+                              <> / 部署: {invitation.departmentIds.map(d => departmentName(d) ?? d).join('、')}</>
+                            )}
+                          </div>
+                        )}
                         <div className="text-xs text-zinc-500 mt-1">
                           作成: {invitation.createdByName || invitation.createdByEmail || '不明'} / {new Date(invitation.createdAt).toLocaleDateString('ja-JP')} /
                           期限: {new Date(invitation.expiresAt).toLocaleDateString('ja-JP')}
@@ -303,7 +584,76 @@ export default function CompanyDetailPage({ params }: { params: Promise<{ id: st
 
             {/* Members */}
             <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-6">
-              <h2 className="text-lg font-semibold text-white mb-4">メンバー</h2>
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-semibold text-white">メンバー</h2>
+                <div className="flex gap-2">
+                  <a
+                    href={`/api/companies/${id}/members?format=csv`}
+                    download
+                    className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 text-sm font-medium rounded-lg transition-colors"
+                  >
+                    CSVエクスポート
+                  </a>
+                  <Link
+                    href={`/companies/${id}/files`}
+                    className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 text-sm font-medium rounded-lg transition-colors"
+                  >
+                    ファイル
+                  </Link>
+                  <Link
+                    href={`/companies/${id}/skills`}
+                    className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 text-sm font-medium rounded-lg transition-colors"
+                  >
+                    スキル一覧
+                  </Link>
+                  <Link
+                    href={`/companies/${id}/roles`}
+                    className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 text-sm font-medium rounded-lg transition-colors"
+                  >
+                    ロール
+                  </Link>
+                  <Link
+                    href={`/companies/${id}/audit`}
+                    className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 text-sm font-medium rounded-lg transition-colors"
+                  >
+                    監査ログ
+                  </Link>
+                  <Link
+                    href={`/companies/${id}/permissions`}
+                    className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium rounded-lg transition-colors"
+                  >
+                    フォルダ権限を管理
+                  </Link>
+                </div>
+              </div>
+
+              {/* Password reset link */}
+              {resetLink && (
+                <div className="mb-4 p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
+                  <p className="text-sm text-green-400 mb-2">
+                    {resetLink.email} のパスワード再設定リンクを発行しました
+                    {resetLink.emailed ? '（本人にもメールで送信済み）' : ''}。
+                    一度だけ使え、{new Date(resetLink.expiresAt).toLocaleString('ja-JP')} まで有効です。この画面を離れると再表示できません。
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 px-3 py-2 bg-zinc-900 rounded-lg text-white text-sm font-mono break-all">{resetLink.link}</code>
+                    <button
+                      onClick={copyResetLink}
+                      className={`px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
+                        resetCopied ? 'bg-green-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600 text-white'
+                      }`}
+                    >
+                      {resetCopied ? 'コピー済み' : 'コピー'}
+                    </button>
+                    <button
+                      onClick={() => setResetLink(null)}
+                      className="text-zinc-400 hover:text-white text-sm transition-colors"
+                    >
+                      閉じる
+                    </button>
+                  </div>
+                </div>
+              )}
 
               {/* Members List */}
               <div className="space-y-2">
@@ -318,25 +668,80 @@ export default function CompanyDetailPage({ params }: { params: Promise<{ id: st
                         <div className="text-sm text-zinc-500">{member.email}</div>
                       )}
                     </div>
-                    <div className="flex items-center gap-3">
-                      <span className={`text-xs px-2 py-1 rounded-full ${
-                        member.role === 'owner'
-                          ? 'bg-amber-500/10 text-amber-400'
-                          : member.role === 'admin'
-                          ? 'bg-purple-500/10 text-purple-400'
-                          : 'bg-zinc-700/50 text-zinc-400'
-                      }`}>
-                        {member.role === 'owner' ? 'オーナー' : member.role === 'admin' ? '管理者' : 'メンバー'}
-                      </span>
-                      {member.role !== 'owner' && member.userId !== user.id && (
+                    {editingMemberId === member.userId ? (
+                      <form onSubmit={handleUpdateRole} className="flex items-center gap-2">
+                        <select
+                          value={editRole}
+                          onChange={(e) => setEditRole(e.target.value)}
+                          className="px-2 py-1 bg-zinc-700 border border-zinc-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          {assignableRoles.map((role) => (
+                            <option key={role.id} value={role.id}>{role.name}</option>
+                          ))}
+                        </select>
+                        {editRoleIsScoped && (
+                          <select
+                            value={editDepartmentId}
+                            onChange={(e) => setEditDepartmentId(e.target.value)}
+                            required
+                            className="px-2 py-1 bg-zinc-700 border border-zinc-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            <option value="">担当部署を選択</option>
+                            {departments.map((dept) => (
+                              <option key={dept.id} value={dept.id}>{dept.name}</option>
+                            ))}
+                          </select>
+                        )}
                         <button
-                          onClick={() => handleRemoveMember(member.userId)}
-                          className="text-red-400 hover:text-red-300 text-sm transition-colors"
+                          type="submit"
+                          className="px-3 py-1 bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium rounded-lg transition-colors"
                         >
-                          削除
+                          保存
                         </button>
-                      )}
-                    </div>
+                        <button
+                          type="button"
+                          onClick={() => setEditingMemberId(null)}
+                          className="px-3 py-1 bg-zinc-700 hover:bg-zinc-600 text-white text-sm font-medium rounded-lg transition-colors"
+                        >
+                          キャンセル
+                        </button>
+                      </form>
+                    ) : (
+                      <div className="flex items-center gap-3">
+                        <span className={`text-xs px-2 py-1 rounded-full ${
+                          member.role === 'owner'
+                            ? 'bg-amber-500/10 text-amber-400'
+                            : member.role === 'member'
+                            ? 'bg-zinc-700/50 text-zinc-400'
+                            : 'bg-purple-500/10 text-purple-400'
+                        }`}>
+                          {roleName(member.role)}
+                          {departmentName(member.scopeDepartmentId) && `（${departmentName(member.scopeDepartmentId)}）`}
+                        </span>
+                        {member.role !== 'owner' && member.userId !== user.id && (
+                          <>
+                            <button
+                              onClick={() => startEditRole(member)}
+                              className="text-zinc-400 hover:text-white text-sm transition-colors"
+                            >
+                              役割を変更
+                            </button>
+                            <button
+                              onClick={() => handleCreatePasswordReset(member)}
+                              className="text-zinc-400 hover:text-white text-sm transition-colors"
+                            >
+                              パスワード再設定
+                            </button>
+                            <button
+                              onClick={() => handleRemoveMember(member.userId)}
+                              className="text-red-400 hover:text-red-300 text-sm transition-colors"
+                            >
+                              削除
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -391,6 +796,58 @@ export default function CompanyDetailPage({ params }: { params: Promise<{ id: st
                 )}
               </div>
             </div>
+
+            {/* Ownership / Leave */}
+            <div className="bg-zinc-900/50 border border-red-500/20 rounded-xl p-6">
+              {company.role === 'owner' ? (
+                <>
+                  <h2 className="text-lg font-semibold text-white mb-2">オーナー権限の移譲</h2>
+                  <p className="text-sm text-zinc-400 mb-4">
+                    移譲すると、あなたは管理者になります。確認のため会社名「{company.name}」を入力してください。
+                  </p>
+                  <form onSubmit={handleTransferOwnership} className="flex flex-wrap gap-2 items-center">
+                    <select
+                      value={transferUserId}
+                      onChange={(e) => setTransferUserId(e.target.value)}
+                      required
+                      className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">新しいオーナーを選択</option>
+                      {members.filter(m => m.userId !== user.id).map((member) => (
+                        <option key={member.userId} value={member.userId}>{member.name || member.email}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={transferConfirm}
+                      onChange={(e) => setTransferConfirm(e.target.value)}
+                      placeholder={company.name}
+                      className="flex-1 min-w-40 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button
+                      type="submit"
+                      disabled={transferring || !transferUserId || transferConfirm !== company.name}
+                      className="px-4 py-2 bg-red-600 hover:bg-red-500 disabled:bg-red-600/50 text-white text-sm font-medium rounded-lg transition-colors"
+                    >
+                      {transferring ? '移譲中...' : '移譲'}
+                    </button>
+                  </form>
+                </>
+              ) : (
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-white">会社から退出</h2>
+                    <p className="text-sm text-zinc-400">フォルダ権限と部署の割り当ても削除されます。</p>
+                  </div>
+                  <button
+                    onClick={handleLeave}
+                    className="shrink-0 px-4 py-2 bg-red-600 hover:bg-red-500 text-white text-sm font-medium rounded-lg transition-colors"
+                  >
+                    退出
+                  </button>
+                </div>
+              )}
+            </div>
           </div>
         ) : null}
       </main>
@@ -0,0 +1,331 @@
+'use client'
+
+import { useCallback, useEffect, useState, use } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { useAuth } from '@/lib/auth-context'
+import { companiesApi, departmentsApi, permissionsApi, rolesApi, Company, Department, Member, Permission, Role, CreatePermissionInput } from '@/lib/api'
+
+export default function PermissionsPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params)
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const [company, setCompany] = useState<Company | null>(null)
+  const [members, setMembers] = useState<Member[]>([])
+  const [roles, setRoles] = useState<Role[]>([])
+  const [departments, setDepartments] = useState<Department[]>([])
+  const [permissions, setPermissions] = useState<Permission[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Grant form state
+  const [formData, setFormData] = useState<CreatePermissionInput>({
+    userId: '',
+    path: '',
+    canRead: true,
+    canWrite: false,
+  })
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login')
+    }
+  }, [authLoading, user, router])
+
+  const loadData = useCallback(async () => {
+    try {
+      const [companyRes, membersRes, departmentsRes, permissionsRes, rolesRes] = await Promise.all([
+        companiesApi.get(id),
+        companiesApi.getMembers(id),
+        departmentsApi.list(id, true),
+        permissionsApi.list(id),
+        rolesApi.list(id),
+      ])
+      setCompany(companyRes.data)
+      setMembers(membersRes.data)
+      setRoles(rolesRes.data)
+      setDepartments(departmentsRes.data as Department[])
+      setPermissions(permissionsRes.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load permissions')
+    } finally {
+      setLoading(false)
+    }
+  }, [id])
+
+  useEffect(() => {
+    if (user) {
+      // eslint-disable-next-line react-hooks/set-state-in-effect
+      loadData()
+    }
+  }, [user, loadData])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+
+    try {
+      await permissionsApi.create(id, formData)
+      setFormData({ ...formData, path: '' })
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to grant permission')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (permission: Permission, field: 'canRead' | 'canWrite') => {
+    // Write implies read: turning read off also turns write off, and vice versa
+    const next = field === 'canWrite'
+      ? { canWrite: !permission.canWrite }
+      : { canRead: !permission.canRead, canWrite: permission.canRead ? false : permission.canWrite }
+
+    try {
+      await permissionsApi.update(id, permission.id, next)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update permission')
+    }
+  }
+
+  const handleToggleIsolation = async () => {
+    if (!company) return
+    const enable = !company.readIsolation
+    const message = enable
+      ? '閲覧制限を有効にすると、メンバーには閲覧できるフォルダだけがダウンロードされます。\nメンバーは会社フォルダのセットアップをやり直す必要があります。有効にしますか？'
+      : '閲覧制限を無効にすると、全メンバーが全フォルダをダウンロードできるようになります。\nメンバーは会社フォルダのセットアップをやり直す必要があります。無効にしますか？'
+    if (!confirm(message)) return
+
+    try {
+      const res = await companiesApi.updateSettings(id, { readIsolation: enable })
+      setCompany(res.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update settings')
+    }
+  }
+
+  const handleDelete = async (permission: Permission) => {
+    if (!confirm(`「${permission.path}」の権限を削除しますか？`)) return
+    try {
+      await permissionsApi.delete(id, permission.id)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete permission')
+    }
+  }
+
+  // Group rules by folder so each restricted folder shows who can access it
+  const permissionsByPath = permissions.reduce<Record<string, Permission[]>>((groups, permission) => {
+    (groups[permission.path] ||= []).push(permission)
+    return groups
+  }, {})
+
+  // Roles that manage folder permissions company-wide (owners, admins) always
+  // have full access, so only the other members need rules
+  const fullAccessRoles = new Set(
+    roles.filter(r => r.scope === 'company' && r.capabilities.includes('manage_permissions')).map(r => r.id)
+  )
+  const grantableMembers = members.filter(m => !fullAccessRoles.has(m.role))
+
+  if (authLoading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950">
+        <div className="text-zinc-400">読み込み中...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-950">
+      {/* Header */}
+      <header className="border-b border-zinc-800 bg-zinc-900/50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 gap-4">
+            <Link href={`/companies/${id}`} className="text-zinc-400 hover:text-white transition-colors">
+              ← 会社詳細に戻る
+            </Link>
+            <h1 className="text-xl font-bold text-white">
+              {company?.name} - フォルダ権限
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400">
+            {error}
+            <button onClick={() => setError(null)} className="ml-2 underline">閉じる</button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-12 text-zinc-400">読み込み中...</div>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-zinc-400 text-sm">
+              権限を1件でも設定したフォルダは、権限を付与されたメンバーだけが閲覧・編集できます。
+              権限のないフォルダは全メンバーに公開されます。オーナーと管理者は常にすべてのフォルダにアクセスできます。
+            </p>
+
+            {/* Read Isolation */}
+            <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-6 flex items-start justify-between gap-6">
+              <div>
+                <h2 className="text-lg font-semibold text-white mb-1">サーバー側の閲覧制限</h2>
+                <p className="text-zinc-400 text-sm">
+                  有効にすると、閲覧権限のないフォルダのファイルはメンバーのPCに一切ダウンロードされません。
+                  切り替えるとメンバーは会社フォルダのセットアップをやり直す必要があります。
+                </p>
+              </div>
+              <button
+                onClick={handleToggleIsolation}
+                className={`shrink-0 px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                  company?.readIsolation
+                    ? 'bg-emerald-600 hover:bg-emerald-500 text-white'
+                    : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-300'
+                }`}
+              >
+                {company?.readIsolation ? '有効' : '無効'}
+              </button>
+            </div>
+
+            {/* Grant Form */}
+            <form onSubmit={handleSubmit} className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-6">
+              <h2 className="text-lg font-semibold text-white mb-4">権限を付与</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-zinc-400 mb-1">メンバー *</label>
+                  <select
+                    value={formData.userId}
+                    onChange={(e) => setFormData({ ...formData, userId: e.target.value })}
+                    required
+                    className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">選択してください</option>
+                    {grantableMembers.map((member) => (
+                      <option key={member.userId} value={member.userId}>
+                        {member.name || member.email}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-zinc-400 mb-1">フォルダ *</label>
+                  <input
+                    type="text"
+                    list="permission-folders"
+                    value={formData.path}
+                    onChange={(e) => setFormData({ ...formData, path: e.target.value })}
+                    required
+                    className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="人事部/給与"
+                  />
+                  <datalist id="permission-folders">
+                    {departments.map((dept) => (
+                      <option key={dept.id} value={dept.folder}>{dept.name}</option>
+                    ))}
+                  </datalist>
+                </div>
+              </div>
+              <div className="flex items-center gap-6 mt-4">
+                <label className="flex items-center gap-2 text-sm text-zinc-300">
+                  <input
+                    type="checkbox"
+                    checked={formData.canRead}
+                    onChange={(e) => setFormData({
+                      ...formData,
+                      canRead: e.target.checked,
+                      canWrite: e.target.checked ? formData.canWrite : false,
+                    })}
+                  />
+                  閲覧
+                </label>
+                <label className="flex items-center gap-2 text-sm text-zinc-300">
+                  <input
+                    type="checkbox"
+                    checked={formData.canWrite}
+                    onChange={(e) => setFormData({
+                      ...formData,
+                      canWrite: e.target.checked,
+                      canRead: e.target.checked ? true : formData.canRead,
+                    })}
+                  />
+                  編集
+                </label>
+                <button
+                  type="submit"
+                  disabled={saving || !formData.userId || !formData.path.trim()}
+                  className="ml-auto px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-blue-600/50 text-white text-sm font-medium rounded-lg transition-colors"
+                >
+                  {saving ? '付与中...' : '付与'}
+                </button>
+              </div>
+            </form>
+
+            {/* Permission List */}
+            <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl overflow-hidden">
+              {permissions.length === 0 ? (
+                <div className="p-8 text-center text-zinc-500">
+                  権限はまだ設定されていません。すべてのフォルダが全メンバーに公開されています。
+                </div>
+              ) : (
+                <div className="divide-y divide-zinc-800">
+                  {Object.entries(permissionsByPath).map(([path, rules]) => (
+                    <div key={path} className="p-4">
+                      <div className="flex items-center gap-2 mb-3">
+                        <span className="text-white font-mono">{path}</span>
+                        <span className="text-xs bg-amber-500/10 text-amber-400 px-2 py-0.5 rounded">制限中</span>
+                      </div>
+                      <div className="space-y-2">
+                        {rules.map((permission) => (
+                          <div
+                            key={permission.id}
+                            className="flex items-center justify-between p-3 bg-zinc-800/30 rounded-lg"
+                          >
+                            <div>
+                              <div className="text-white">{permission.name || permission.email || permission.userId}</div>
+                              {permission.name && permission.email && (
+                                <div className="text-sm text-zinc-500">{permission.email}</div>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-4">
+                              <label className="flex items-center gap-2 text-sm text-zinc-300">
+                                <input
+                                  type="checkbox"
+                                  checked={permission.canRead}
+                                  onChange={() => handleToggle(permission, 'canRead')}
+                                />
+                                閲覧
+                              </label>
+                              <label className="flex items-center gap-2 text-sm text-zinc-300">
+                                <input
+                                  type="checkbox"
+                                  checked={permission.canWrite}
+                                  onChange={() => handleToggle(permission, 'canWrite')}
+                                />
+                                編集
+                              </label>
+                              <button
+                                onClick={() => handleDelete(permission)}
+                                className="text-red-400 hover:text-red-300 text-sm transition-colors"
+                              >
+                                削除
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,296 @@
+'use client'
+
+import { useCallback, useEffect, useState, use } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { useAuth } from '@/lib/auth-context'
+import { companiesApi, rolesApi, Company, Capability, Role, RoleInput } from '@/lib/api'
+
+const CAPABILITY_LABELS: Record<Capability, string> = {
+  manage_settings: '会社設定の変更',
+  manage_members: 'メンバーの追加・削除・役割変更',
+  manage_roles: 'ロールの編集',
+  invite: '招待リンクの管理',
+  manage_departments: '部署の管理',
+  manage_permissions: 'フォルダ権限の管理',
+  view_audit: '監査ログの閲覧',
+  push: '変更のプッシュ',
+  delete_repo: 'リポジトリの削除',
+}
+
+const CAPABILITIES = Object.keys(CAPABILITY_LABELS) as Capability[]
+
+const EMPTY_FORM: RoleInput = { name: '', description: '', capabilities: ['push'], scope: 'company' }
+
+export default function RolesPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params)
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const [company, setCompany] = useState<Company | null>(null)
+  const [roles, setRoles] = useState<Role[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Form state (create when editingId is null)
+  const [showForm, setShowForm] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [formData, setFormData] = useState<RoleInput>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login')
+    }
+  }, [authLoading, user, router])
+
+  const loadData = useCallback(async () => {
+    try {
+      const [companyRes, rolesRes] = await Promise.all([
+        companiesApi.get(id),
+        rolesApi.list(id),
+      ])
+      setCompany(companyRes.data)
+      setRoles(rolesRes.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load roles')
+    } finally {
+      setLoading(false)
+    }
+  }, [id])
+
+  useEffect(() => {
+    if (user) {
+      // eslint-disable-next-line react-hooks/set-state-in-effect
+      loadData()
+    }
+  }, [user, loadData])
+
+  const openCreate = () => {
+    setEditingId(null)
+    setFormData(EMPTY_FORM)
+    setShowForm(true)
+  }
+
+  const openEdit = (role: Role) => {
+    setEditingId(role.id)
+    setFormData({
+      name: role.name,
+      description: role.description ?? '',
+      capabilities: role.capabilities,
+      scope: role.scope,
+    })
+    setShowForm(true)
+  }
+
+  const toggleCapability = (capability: Capability) => {
+    const capabilities = formData.capabilities.includes(capability)
+      ? formData.capabilities.filter(c => c !== capability)
+      : [...formData.capabilities, capability]
+    setFormData({ ...formData, capabilities })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+
+    try {
+      if (editingId) {
+        await rolesApi.update(id, editingId, formData)
+      } else {
+        await rolesApi.create(id, formData)
+      }
+      setShowForm(false)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save role')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (role: Role) => {
+    if (!confirm(`ロール「${role.name}」を削除しますか？`)) return
+    try {
+      await rolesApi.delete(id, role.id)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete role')
+    }
+  }
+
+  if (authLoading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950">
+        <div className="text-zinc-400">読み込み中...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-950">
+      {/* Header */}
+      <header className="border-b border-zinc-800 bg-zinc-900/50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 gap-4">
+            <Link href={`/companies/${id}`} className="text-zinc-400 hover:text-white transition-colors">
+              ← 会社詳細に戻る
+            </Link>
+            <h1 className="text-xl font-bold text-white">
+              {company?.name} - ロール
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400">
+            {error}
+            <button onClick={() => setError(null)} className="ml-2 underline">閉じる</button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-12 text-zinc-400">読み込み中...</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-start justify-between gap-6">
+              <p className="text-zinc-400 text-sm">
+                ロールごとに操作できる範囲を設定します。部署単位のロールは、メンバーに割り当てた担当部署とその配下だけで
+                部署とフォルダ権限を管理できます。組み込みロールは変更できません。
+              </p>
+              <button
+                onClick={openCreate}
+                className="shrink-0 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                ロールを作成
+              </button>
+            </div>
+
+            {/* Create / Edit Form */}
+            {showForm && (
+              <form onSubmit={handleSubmit} className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-6">
+                <h2 className="text-lg font-semibold text-white mb-4">
+                  {editingId ? 'ロールを編集' : 'ロールを作成'}
+                </h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm text-zinc-400 mb-1">名前 *</label>
+                    <input
+                      type="text"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      required
+                      maxLength={50}
+                      className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="閲覧のみ"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm text-zinc-400 mb-1">適用範囲</label>
+                    <select
+                      value={formData.scope}
+                      onChange={(e) => setFormData({ ...formData, scope: e.target.value as RoleInput['scope'] })}
+                      className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="company">会社全体</option>
+                      <option value="department">担当部署のみ</option>
+                    </select>
+                  </div>
+                  <div className="sm:col-span-2">
+                    <label className="block text-sm text-zinc-400 mb-1">説明</label>
+                    <input
+                      type="text"
+                      value={formData.description ?? ''}
+                      onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                      className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-4">
+                  {CAPABILITIES.map((capability) => (
+                    <label key={capability} className="flex items-center gap-2 text-sm text-zinc-300">
+                      <input
+                        type="checkbox"
+                        checked={formData.capabilities.includes(capability)}
+                        onChange={() => toggleCapability(capability)}
+                      />
+                      {CAPABILITY_LABELS[capability]}
+                    </label>
+                  ))}
+                </div>
+                <div className="flex justify-end gap-2 mt-4">
+                  <button
+                    type="button"
+                    onClick={() => setShowForm(false)}
+                    className="px-4 py-2 bg-zinc-700 hover:bg-zinc-600 text-white text-sm font-medium rounded-lg transition-colors"
+                  >
+                    キャンセル
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saving || !formData.name.trim()}
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-blue-600/50 text-white text-sm font-medium rounded-lg transition-colors"
+                  >
+                    {saving ? '保存中...' : '保存'}
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {/* Role List */}
+            <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl divide-y divide-zinc-800">
+              {roles.map((role) => (
+                <div key={role.id} className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <span className="text-white font-medium">{role.name}</span>
+                      {role.builtin && (
+                        <span className="text-xs bg-zinc-700/50 text-zinc-400 px-2 py-0.5 rounded">組み込み</span>
+                      )}
+                      {role.scope === 'department' && (
+                        <span className="text-xs bg-blue-500/10 text-blue-400 px-2 py-0.5 rounded">担当部署のみ</span>
+                      )}
+                      <span className="text-xs text-zinc-500">{role.memberCount}人</span>
+                    </div>
+                    {!role.builtin && (
+                      <div className="flex items-center gap-3">
+                        <button
+                          onClick={() => openEdit(role)}
+                          className="text-zinc-400 hover:text-white text-sm transition-colors"
+                        >
+                          編集
+                        </button>
+                        <button
+                          onClick={() => handleDelete(role)}
+                          className="text-red-400 hover:text-red-300 text-sm transition-colors"
+                        >
+                          削除
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  {role.description && (
+                    <p className="mt-1 text-sm text-zinc-400">{role.description}</p>
+                  )}
+                  <div className="mt-2 flex flex-wrap gap-1.5">
+                    {role.capabilities.length === 0 ? (
+                      <span className="text-xs text-zinc-500">閲覧のみ</span>
+                    ) : (
+                      role.capabilities.map((capability) => (
+                        <span key={capability} className="text-xs bg-zinc-800 text-zinc-300 px-2 py-0.5 rounded">
+                          {CAPABILITY_LABELS[capability]}
+                        </span>
+                      ))
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
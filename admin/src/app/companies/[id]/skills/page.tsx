@@ -0,0 +1,196 @@
+'use client'
+
+import { useCallback, useEffect, useState, use } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { useAuth } from '@/lib/auth-context'
+import { companiesApi, skillsApi, Company, Skill, SkillUsageSummary, DepartmentUsageSummary } from '@/lib/api'
+
+export default function SkillsPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params)
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const [company, setCompany] = useState<Company | null>(null)
+  const [skills, setSkills] = useState<Skill[]>([])
+  const [usage, setUsage] = useState<Map<string, SkillUsageSummary>>(new Map())
+  const [departmentUsage, setDepartmentUsage] = useState<DepartmentUsageSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Search runs on submit; `query` is the last submitted value
+  const [searchInput, setSearchInput] = useState('')
+  const [query, setQuery] = useState('')
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login')
+    }
+  }, [authLoading, user, router])
+
+  const loadData = useCallback(async () => {
+    try {
+      const [companyRes, skillsRes, usageRes] = await Promise.all([
+        companiesApi.get(id),
+        skillsApi.list(id, { q: query }),
+        skillsApi.usage(id),
+      ])
+      setCompany(companyRes.data)
+      setSkills(skillsRes.data)
+      setUsage(new Map(usageRes.data.skills.map(s => [s.skillPath, s])))
+      setDepartmentUsage(usageRes.data.departments)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load skills')
+    } finally {
+      setLoading(false)
+    }
+  }, [id, query])
+
+  useEffect(() => {
+    if (user) {
+      // eslint-disable-next-line react-hooks/set-state-in-effect
+      loadData()
+    }
+  }, [user, loadData])
+
+  // Group by department; company-wide skills first
+  const groups = new Map<string, Skill[]>()
+  for (const skill of skills) {
+    const label = skill.folder === '' ? '全社' : skill.departmentName ?? skill.folder
+    groups.set(label, [...(groups.get(label) ?? []), skill])
+  }
+
+  if (authLoading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950">
+        <div className="text-zinc-400">読み込み中...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-950">
+      {/* Header */}
+      <header className="border-b border-zinc-800 bg-zinc-900/50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 gap-4">
+            <Link href={`/companies/${id}`} className="text-zinc-400 hover:text-white transition-colors">
+              ← 会社詳細に戻る
+            </Link>
+            <h1 className="text-xl font-bold text-white">
+              {company?.name} - スキル一覧
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400">
+            {error}
+            <button onClick={() => setError(null)} className="ml-2 underline">閉じる</button>
+          </div>
+        )}
+
+        {/* Search */}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            setQuery(searchInput.trim())
+          }}
+          className="flex items-center gap-2 mb-6"
+        >
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="スキル名・説明・本文で検索"
+            className="flex-1 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white font-medium rounded-lg transition-colors"
+          >
+            検索
+          </button>
+          <div className="ml-2 text-sm text-zinc-500">{skills.length}件</div>
+        </form>
+
+        {/* Usage this month per department */}
+        {departmentUsage.length > 0 && (
+          <div className="mb-8 bg-zinc-900/50 border border-zinc-800 rounded-xl overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-zinc-800/50 text-zinc-400">
+                <tr>
+                  <th className="text-left font-medium px-4 py-3">部署（今月の利用）</th>
+                  <th className="text-right font-medium px-4 py-3">実行回数</th>
+                  <th className="text-right font-medium px-4 py-3">利用者数</th>
+                  <th className="text-right font-medium px-4 py-3">スキル数</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-800">
+                {departmentUsage.map((row) => (
+                  <tr key={row.folder}>
+                    <td className="px-4 py-3 text-white">{row.folder === '' ? '全社' : row.departmentName ?? row.folder}</td>
+                    <td className="px-4 py-3 text-right text-zinc-300">{row.uses}</td>
+                    <td className="px-4 py-3 text-right text-zinc-300">{row.users}</td>
+                    <td className="px-4 py-3 text-right text-zinc-300">{row.skills}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-12 text-zinc-400">読み込み中...</div>
+        ) : skills.length === 0 ? (
+          <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-8 text-center text-zinc-500">
+            {query ? '該当するスキルはありません' : 'スキルはまだありません'}
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {[...groups.entries()].map(([label, groupSkills]) => (
+              <section key={label}>
+                <h2 className="text-lg font-semibold text-white mb-3">{label}</h2>
+                <div className="grid gap-3 md:grid-cols-2">
+                  {groupSkills.map((skill) => (
+                    <div key={skill.path} className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-4">
+                      <div className="flex items-center gap-2">
+                        <span className="text-white font-medium">{skill.name}</span>
+                        {skill.isNurturing && (
+                          <span className="px-2 py-0.5 text-xs bg-amber-500/10 text-amber-400 rounded">育成中</span>
+                        )}
+                      </div>
+                      {skill.description && (
+                        <p className="mt-1 text-sm text-zinc-400">{skill.description}</p>
+                      )}
+                      {usage.has(skill.path) && <UsageLine summary={usage.get(skill.path)!} />}
+                      <div className="mt-3 flex flex-wrap gap-3 text-xs text-zinc-500">
+                        <span>ルール {skill.files.rules.length}</span>
+                        <span>参考資料 {skill.files.references.length}</span>
+                        <span>スクリプト {skill.files.scripts.length}</span>
+                        <span>ツール {skill.files.tools.length}</span>
+                      </div>
+                      <div className="mt-2 text-xs text-zinc-600 font-mono truncate" title={skill.path}>
+                        {skill.path}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
+
+function UsageLine({ summary }: { summary: SkillUsageSummary }) {
+  return (
+    <p className="mt-2 text-xs text-zinc-500">
+      今月{summary.uses}回・{summary.users}人が利用
+      {summary.errors > 0 && `（エラー ${summary.errors}回）`}
+    </p>
+  )
+}
@@ -60,7 +60,12 @@ export default function DashboardPage() {
               </span>
             </div>
             <div className="flex items-center gap-4">
-              <span className="text-sm text-zinc-400">{user.email}</span>
+              <Link href="/tokens" className="text-sm text-zinc-400 hover:text-white transition-colors">
+                アクセストークン
+              </Link>
+              <Link href="/profile" className="text-sm text-zinc-400 hover:text-white transition-colors">
+                {user.email}
+              </Link>
               <button
                 onClick={signOut}
                 className="text-sm text-zinc-400 hover:text-white transition-colors"
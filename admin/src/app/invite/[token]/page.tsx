@@ -4,13 +4,7 @@ import { useEffect, useState, use } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { useAuth } from '@/lib/auth-context'
-import { invitationsApi, authApi } from '@/lib/api'
-
-interface InvitationInfo {
-  companyName: string
-  role: string
-  expiresAt: string
-}
+import { invitationsApi, authApi, InvitationInfo } from '@/lib/api'
 
 export default function InvitePage({ params }: { params: Promise<{ token: string }> }) {
   const { token } = use(params)
@@ -37,6 +31,9 @@ export default function InvitePage({ params }: { params: Promise<{ token: string
     try {
       const res = await invitationsApi.validate(token)
       setInvitation(res.data)
+      // A link for one address can only be used with that address
+      if (res.data.email) setEmail(res.data.email)
+      if (res.data.name) setName(res.data.name)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Invalid invitation')
     } finally {
@@ -157,9 +154,25 @@ export default function InvitePage({ params }: { params: Promise<{ token: string
               <div>
                 <span className="text-zinc-500">役割</span>
                 <div className="text-white font-medium">
-                  {invitation?.role === 'admin' ? '管理者' : 'メンバー'}
+                  {invitation?.roleName ?? 'メンバー'}
                 </div>
               </div>
+              {invitation && invitation.departments.length > 0 && (
+                <div className="col-span-2">
+                  <span className="text-zinc-500">参加する部署</span>
+                  <div className="text-white font-medium">
+                    {invitation.departments.map(d => d.name).join('、')}
+                  </div>
+                </div>
+              )}
+              {(invitation?.email || invitation?.emailDomain) && (
+                <div className="col-span-2">
+                  <span className="text-zinc-500">招待の宛先</span>
+                  <div className="text-white font-medium">
+                    {invitation.email ?? `@${invitation.emailDomain} のメールアドレス`}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
 
@@ -201,8 +214,9 @@ export default function InvitePage({ params }: { params: Promise<{ token: string
                   type="email"
                   value={email}
                   onChange={(e) => setEmail(e.target.value)}
-                  className="w-full px-3 py-2 bg-zinc-700 border border-zinc-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder="user@example.com"
+                  className="w-full px-3 py-2 bg-zinc-700 border border-zinc-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 read-only:opacity-60"
+                  placeholder={invitation?.emailDomain ? `user@${invitation.emailDomain}` : 'user@example.com'}
+                  readOnly={!!invitation?.email}
                   required
                 />
               </div>
@@ -3,6 +3,7 @@
 import { useState, useEffect, Suspense } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { useAuth } from '@/lib/auth-context'
+import { authApi, type SsoProvider } from '@/lib/api'
 
 function LoginForm() {
   const router = useRouter()
@@ -15,15 +16,19 @@ function LoginForm() {
   const [password, setPassword] = useState('')
   const [name, setName] = useState('')
   const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(
+    searchParams.get('error') ? 'SSOログインに失敗しました。もう一度お試しください。' : null
+  )
+  const [ssoProviders, setSsoProviders] = useState<SsoProvider[]>([])
 
-  // Check if initial setup is complete (users exist)
+  // Check if initial setup is complete (users exist) and which SSO providers are enabled
   useEffect(() => {
     const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
     fetch(`${apiUrl}/api/config`)
       .then(res => res.json())
       .then(data => {
         setSetupComplete(data.data?.setupComplete ?? true)
+        setSsoProviders(data.data?.ssoProviders ?? [])
         if (data.data?.setupComplete === false) {
           setIsSignUp(true)
         }
@@ -57,6 +62,23 @@ function LoginForm() {
     }
   }
 
+  const handleSsoSignIn = async (providerId: string) => {
+    setError(null)
+    setLoading(true)
+
+    try {
+      const { url } = await authApi.signInWithSso(
+        providerId,
+        `${window.location.origin}${redirectTo}`,
+        `${window.location.origin}/login`
+      )
+      window.location.assign(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'SSO sign-in failed')
+      setLoading(false)
+    }
+  }
+
   return (
     <div className="w-full max-w-md">
       <div className="text-center mb-8">
@@ -135,6 +157,35 @@ function LoginForm() {
           </button>
         </form>
 
+        {!isSignUp && ssoProviders.length > 0 && (
+          <>
+            <div className="flex items-center gap-3 my-6">
+              <div className="flex-1 h-px bg-zinc-800" />
+              <span className="text-xs text-zinc-500">または</span>
+              <div className="flex-1 h-px bg-zinc-800" />
+            </div>
+            <div className="space-y-2">
+              {ssoProviders.map((provider) => (
+                <button
+                  key={provider.id}
+                  type="button"
+                  onClick={() => handleSsoSignIn(provider.id)}
+                  disabled={loading}
+                  className="w-full py-3 px-4 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 border border-zinc-700 text-white font-medium rounded-lg transition-colors"
+                >
+                  {provider.name} でログイン{ssoProviders.length > 1 && ` (${provider.type.toUpperCase()})`}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
+        {!isSignUp && setupComplete !== false && (
+          <p className="mt-4 text-center text-xs text-zinc-500">
+            パスワードを忘れた場合は、会社の管理者に再設定リンクの発行を依頼してください。
+          </p>
+        )}
+
         {setupComplete === false && (
           <div className="mt-6 text-center">
             <button
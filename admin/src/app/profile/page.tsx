@@ -0,0 +1,248 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { useAuth } from '@/lib/auth-context'
+import { meApi } from '@/lib/api'
+
+export default function ProfilePage() {
+  const router = useRouter()
+  const { user, loading: authLoading, refresh } = useAuth()
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  // Profile form state (null until edited: shows the saved value)
+  const [nameDraft, setName] = useState<string | null>(null)
+  const [imageDraft, setImage] = useState<string | null>(null)
+  const [savingProfile, setSavingProfile] = useState(false)
+
+  // Password form state
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [revokeOtherSessions, setRevokeOtherSessions] = useState(true)
+  const [savingPassword, setSavingPassword] = useState(false)
+
+  // Email form state
+  const [newEmail, setNewEmail] = useState('')
+  const [savingEmail, setSavingEmail] = useState(false)
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login')
+    }
+  }, [authLoading, user, router])
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSavingProfile(true)
+    setError(null)
+    setNotice(null)
+    try {
+      await meApi.update({ name: name.trim(), image: image.trim() || null })
+      await refresh()
+      setName(null)
+      setImage(null)
+      setNotice('プロフィールを保存しました。デスクトップアプリでは次の同期からコミットの作成者名に反映されます。')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update profile')
+    } finally {
+      setSavingProfile(false)
+    }
+  }
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSavingPassword(true)
+    setError(null)
+    setNotice(null)
+    try {
+      await meApi.changePassword(currentPassword, newPassword, revokeOtherSessions)
+      setCurrentPassword('')
+      setNewPassword('')
+      setNotice('パスワードを変更しました。')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change password')
+    } finally {
+      setSavingPassword(false)
+    }
+  }
+
+  const handleChangeEmail = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSavingEmail(true)
+    setError(null)
+    setNotice(null)
+    try {
+      await meApi.changeEmail(newEmail.trim())
+      setNotice('確認メールを送信しました。メール内のリンクを開くとメールアドレスが変更されます。')
+      setNewEmail('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change email')
+    } finally {
+      setSavingEmail(false)
+    }
+  }
+
+  const name = nameDraft ?? user?.name ?? ''
+  const image = imageDraft ?? user?.image ?? ''
+
+  if (authLoading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950">
+        <div className="text-zinc-400">読み込み中...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-950">
+      {/* Header */}
+      <header className="border-b border-zinc-800 bg-zinc-900/50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 gap-4">
+            <Link href="/dashboard" className="text-zinc-400 hover:text-white transition-colors">
+              ← 戻る
+            </Link>
+            <h1 className="text-xl font-bold text-white">プロフィール</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400">
+            {error}
+            <button onClick={() => setError(null)} className="ml-2 underline">閉じる</button>
+          </div>
+        )}
+        {notice && (
+          <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-lg text-green-400">
+            {notice}
+          </div>
+        )}
+
+        {/* Profile */}
+        <form onSubmit={handleSaveProfile} className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-6">
+          <h2 className="text-lg font-semibold text-white mb-4">基本情報</h2>
+          <div className="flex items-start gap-6">
+            <div className="w-16 h-16 shrink-0 rounded-full bg-zinc-800 overflow-hidden flex items-center justify-center text-xl text-zinc-300">
+              {image.trim() ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={image.trim()} alt="" className="w-full h-full object-cover" />
+              ) : (
+                (name || user.email).charAt(0)
+              )}
+            </div>
+            <div className="flex-1 space-y-4">
+              <div>
+                <label className="block text-sm text-zinc-400 mb-1">表示名 *</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                  maxLength={100}
+                  className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="mt-1 text-xs text-zinc-500">コミットの作成者名にも使われます。</p>
+              </div>
+              <div>
+                <label className="block text-sm text-zinc-400 mb-1">アバター画像のURL</label>
+                <input
+                  type="url"
+                  value={image}
+                  onChange={(e) => setImage(e.target.value)}
+                  placeholder="https://"
+                  className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          </div>
+          <div className="flex justify-end mt-4">
+            <button
+              type="submit"
+              disabled={savingProfile || !name.trim()}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-blue-600/50 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              {savingProfile ? '保存中...' : '保存'}
+            </button>
+          </div>
+        </form>
+
+        {/* Email */}
+        <form onSubmit={handleChangeEmail} className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-6">
+          <h2 className="text-lg font-semibold text-white mb-1">メールアドレス</h2>
+          <p className="text-sm text-zinc-400 mb-4">
+            現在: {user.email}
+            {!user.emailVerified && <span className="ml-2 text-xs text-amber-400">未確認</span>}
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="email"
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              required
+              placeholder="新しいメールアドレス"
+              className="flex-1 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={savingEmail || !newEmail.trim()}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-blue-600/50 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              {savingEmail ? '送信中...' : '確認メールを送信'}
+            </button>
+          </div>
+        </form>
+
+        {/* Password */}
+        <form onSubmit={handleChangePassword} className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-6">
+          <h2 className="text-lg font-semibold text-white mb-4">パスワード</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-zinc-400 mb-1">現在のパスワード</label>
+              <input
+                type="password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                required
+                autoComplete="current-password"
+                className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-zinc-400 mb-1">新しいパスワード（8文字以上）</label>
+              <input
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                required
+                minLength={8}
+                autoComplete="new-password"
+                className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 mt-4 text-sm text-zinc-300">
+            <input
+              type="checkbox"
+              checked={revokeOtherSessions}
+              onChange={(e) => setRevokeOtherSessions(e.target.checked)}
+            />
+            他の端末からログアウトする
+          </label>
+          <div className="flex justify-end mt-4">
+            <button
+              type="submit"
+              disabled={savingPassword || !currentPassword || newPassword.length < 8}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-blue-600/50 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              {savingPassword ? '変更中...' : 'パスワードを変更'}
+            </button>
+          </div>
+        </form>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+'use client'
+
+import { useCallback, useEffect, useState, use } from 'react'
+import Link from 'next/link'
+import { passwordResetsApi } from '@/lib/api'
+
+interface ResetInfo {
+  email: string
+  name: string | null
+  expiresAt: string
+}
+
+export default function ResetPasswordPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params)
+  const [reset, setReset] = useState<ResetInfo | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState(false)
+
+  const [password, setPassword] = useState('')
+  const [passwordConfirm, setPasswordConfirm] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const validateReset = useCallback(async () => {
+    try {
+      const res = await passwordResetsApi.validate(token)
+      setReset(res.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid password reset link')
+    } finally {
+      setLoading(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    validateReset()
+  }, [validateReset])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (password !== passwordConfirm) {
+      setError('パスワードが一致しません')
+      return
+    }
+    setSaving(true)
+    setError(null)
+    try {
+      await passwordResetsApi.reset(token, password)
+      setSuccess(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset password')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950">
+        <div className="text-zinc-400">読み込み中...</div>
+      </div>
+    )
+  }
+
+  if (error && !reset) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950">
+        <div className="max-w-md w-full mx-4">
+          <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-8 text-center">
+            <h1 className="text-xl font-bold text-white mb-2">無効なリンク</h1>
+            <p className="text-zinc-400 mb-6">{error}</p>
+            <p className="text-sm text-zinc-500 mb-6">管理者に新しいパスワード再設定リンクの発行を依頼してください。</p>
+            <Link
+              href="/login"
+              className="inline-block px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white font-medium rounded-lg transition-colors"
+            >
+              ログインページへ
+            </Link>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (success) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950">
+        <div className="max-w-md w-full mx-4">
+          <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-8 text-center">
+            <h1 className="text-xl font-bold text-white mb-2">パスワードを再設定しました</h1>
+            <p className="text-zinc-400 mb-6">
+              すべての端末からログアウトし、アクセストークンも無効にしました。新しいパスワードでログインしてください。
+            </p>
+            <Link
+              href="/login"
+              className="inline-block px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white font-medium rounded-lg transition-colors"
+            >
+              ログインページへ
+            </Link>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-zinc-950">
+      <div className="max-w-md w-full mx-4">
+        <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-8">
+          <div className="text-center mb-6">
+            <h1 className="text-xl font-bold text-white mb-2">パスワードの再設定</h1>
+            <p className="text-zinc-400">
+              <span className="text-white">{reset?.name || reset?.email}</span> の新しいパスワードを設定します。
+            </p>
+            {reset && (
+              <p className="text-xs text-zinc-500 mt-2">
+                有効期限: {new Date(reset.expiresAt).toLocaleString('ja-JP')}
+              </p>
+            )}
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg mb-4">
+              <p className="text-sm text-red-400">{error}</p>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm text-zinc-400 mb-1">新しいパスワード</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-3 py-2 bg-zinc-700 border border-zinc-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="8文字以上"
+                minLength={8}
+                autoComplete="new-password"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-zinc-400 mb-1">新しいパスワード（確認）</label>
+              <input
+                type="password"
+                value={passwordConfirm}
+                onChange={(e) => setPasswordConfirm(e.target.value)}
+                className="w-full px-3 py-2 bg-zinc-700 border border-zinc-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                minLength={8}
+                autoComplete="new-password"
+                required
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full px-6 py-3 bg-blue-600 hover:bg-blue-500 disabled:bg-blue-600/50 text-white font-medium rounded-lg transition-colors"
+            >
+              {saving ? '設定中...' : 'パスワードを設定'}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
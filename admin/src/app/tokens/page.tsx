@@ -0,0 +1,278 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { useAuth } from '@/lib/auth-context'
+import { accessTokensApi, AccessToken, AccessTokenScope } from '@/lib/api'
+
+const SCOPE_LABELS: Record<AccessTokenScope, string> = {
+  'repo:read': 'リポジトリの取得（clone / fetch）',
+  'repo:write': 'リポジトリへのプッシュ',
+  'api:read': 'APIの読み取り',
+  'api:write': 'APIの書き込み',
+}
+
+const SCOPES = Object.keys(SCOPE_LABELS) as AccessTokenScope[]
+
+export default function AccessTokensPage() {
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const [tokens, setTokens] = useState<AccessToken[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Create form state
+  const [showForm, setShowForm] = useState(false)
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<AccessTokenScope[]>(['repo:read'])
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90)
+  const [creating, setCreating] = useState(false)
+
+  // The new token, shown once right after creation
+  const [newToken, setNewToken] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login')
+    }
+  }, [authLoading, user, router])
+
+  const loadTokens = useCallback(async () => {
+    try {
+      const res = await accessTokensApi.list()
+      setTokens(res.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tokens')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (user) {
+      // eslint-disable-next-line react-hooks/set-state-in-effect
+      loadTokens()
+    }
+  }, [user, loadTokens])
+
+  const toggleScope = (scope: AccessTokenScope) => {
+    setScopes(scopes.includes(scope) ? scopes.filter(s => s !== scope) : [...scopes, scope])
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreating(true)
+    setError(null)
+    try {
+      const res = await accessTokensApi.create(name.trim(), scopes, expiresInDays)
+      setNewToken(res.data.token)
+      setCopied(false)
+      setShowForm(false)
+      setName('')
+      setScopes(['repo:read'])
+      setExpiresInDays(90)
+      loadTokens()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create token')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (token: AccessToken) => {
+    if (!confirm(`トークン「${token.name}」を無効にしますか？このトークンを使うスクリプトは動かなくなります。`)) return
+    try {
+      await accessTokensApi.revoke(token.id)
+      loadTokens()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke token')
+    }
+  }
+
+  const copyToken = async () => {
+    if (!newToken) return
+    try {
+      await navigator.clipboard.writeText(newToken)
+      setCopied(true)
+    } catch {
+      window.prompt('トークンをコピーしてください:', newToken)
+    }
+  }
+
+  if (authLoading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-950">
+        <div className="text-zinc-400">読み込み中...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-950">
+      {/* Header */}
+      <header className="border-b border-zinc-800 bg-zinc-900/50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 gap-4">
+            <Link href="/dashboard" className="text-zinc-400 hover:text-white transition-colors">
+              ← 戻る
+            </Link>
+            <h1 className="text-xl font-bold text-white">アクセストークン</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400">
+            {error}
+            <button onClick={() => setError(null)} className="ml-2 underline">閉じる</button>
+          </div>
+        )}
+
+        {newToken && (
+          <div className="mb-6 p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
+            <p className="text-sm text-green-400 mb-2">
+              トークンを作成しました。この画面を離れると二度と表示されないため、今すぐコピーしてください。
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 px-3 py-2 bg-zinc-900 rounded-lg text-white text-sm font-mono break-all">{newToken}</code>
+              <button
+                onClick={copyToken}
+                className={`px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
+                  copied ? 'bg-green-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600 text-white'
+                }`}
+              >
+                {copied ? 'コピー済み' : 'コピー'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-6">
+          <div className="flex items-start justify-between gap-6">
+            <p className="text-zinc-400 text-sm">
+              CIやスクリプトからリポジトリやAPIを使うためのトークンです。Gitではパスワードとして、APIでは
+              <code className="mx-1 text-zinc-300">Authorization: Bearer</code>ヘッダーで送信します。
+            </p>
+            <button
+              onClick={() => setShowForm(true)}
+              className="shrink-0 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              トークンを作成
+            </button>
+          </div>
+
+          {/* Create Form */}
+          {showForm && (
+            <form onSubmit={handleCreate} className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-6">
+              <h2 className="text-lg font-semibold text-white mb-4">トークンを作成</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-zinc-400 mb-1">名前 *</label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    required
+                    maxLength={100}
+                    className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="CI"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm text-zinc-400 mb-1">有効期限</label>
+                  <select
+                    value={expiresInDays ?? ''}
+                    onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+                    className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value={30}>30日</option>
+                    <option value={90}>90日</option>
+                    <option value={365}>1年</option>
+                    <option value="">無期限</option>
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-4">
+                {SCOPES.map((scope) => (
+                  <label key={scope} className="flex items-center gap-2 text-sm text-zinc-300">
+                    <input
+                      type="checkbox"
+                      checked={scopes.includes(scope)}
+                      onChange={() => toggleScope(scope)}
+                    />
+                    {SCOPE_LABELS[scope]}
+                  </label>
+                ))}
+              </div>
+              <div className="flex justify-end gap-2 mt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowForm(false)}
+                  className="px-4 py-2 bg-zinc-700 hover:bg-zinc-600 text-white text-sm font-medium rounded-lg transition-colors"
+                >
+                  キャンセル
+                </button>
+                <button
+                  type="submit"
+                  disabled={creating || !name.trim() || scopes.length === 0}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-blue-600/50 text-white text-sm font-medium rounded-lg transition-colors"
+                >
+                  {creating ? '作成中...' : '作成'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {/* Token List */}
+          {loading ? (
+            <div className="text-center py-12 text-zinc-400">読み込み中...</div>
+          ) : tokens.length === 0 ? (
+            <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-12 text-center text-zinc-500">
+              トークンはありません
+            </div>
+          ) : (
+            <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl divide-y divide-zinc-800">
+              {tokens.map((token) => {
+                const expired = token.expiresAt !== null && new Date(token.expiresAt) <= new Date()
+                return (
+                  <div key={token.id} className={`p-4 ${expired ? 'opacity-60' : ''}`}>
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <span className="text-white font-medium">{token.name}</span>
+                        <span className="text-xs text-zinc-500 font-mono">{token.tokenPrefix}…</span>
+                        {expired && (
+                          <span className="text-xs bg-red-500/10 text-red-400 px-2 py-0.5 rounded">期限切れ</span>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => handleRevoke(token)}
+                        className="text-red-400 hover:text-red-300 text-sm transition-colors"
+                      >
+                        無効にする
+                      </button>
+                    </div>
+                    <div className="mt-2 flex flex-wrap gap-1.5">
+                      {token.scopes.map((scope) => (
+                        <span key={scope} className="text-xs bg-zinc-800 text-zinc-300 px-2 py-0.5 rounded">
+                          {SCOPE_LABELS[scope]}
+                        </span>
+                      ))}
+                    </div>
+                    <div className="text-xs text-zinc-500 mt-2">
+                      作成: {new Date(token.createdAt).toLocaleDateString('ja-JP')} /
+                      期限: {token.expiresAt ? new Date(token.expiresAt).toLocaleDateString('ja-JP') : '無期限'} /
+                      最終使用: {token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString('ja-JP') : '未使用'}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
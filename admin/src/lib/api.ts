@@ -46,6 +46,13 @@ export const authApi = {
       headers: invitationToken ? { 'X-Invitation-Token': invitationToken } : {},
     }),
 
+  // Starts an SSO sign-in; the browser is then sent to the returned IdP URL
+  signInWithSso: (providerId: string, callbackURL: string, errorCallbackURL: string) =>
+    apiClient<{ url: string; redirect: boolean }>('/api/auth/sign-in/sso', {
+      method: 'POST',
+      body: { providerId, callbackURL, errorCallbackURL },
+    }),
+
   signOut: () =>
     apiClient('/api/auth/sign-out', { method: 'POST', body: {} }),
 
@@ -53,17 +60,44 @@ export const authApi = {
     apiClient<{ user: User | null }>('/api/auth/get-session'),
 }
 
+// SSO providers configured on the server (GET /api/config)
+export interface SsoProvider {
+  id: string
+  type: 'oidc' | 'saml'
+  name: string
+}
+
 // User types
 export interface User {
   id: string
   email: string
   name: string | null
-  createdAt: string
+  image: string | null
+  emailVerified: boolean
 }
 
 // Me API
 export const meApi = {
   getMe: () => apiClient<{ success: boolean; data: User }>('/api/me'),
+
+  update: (profile: { name?: string; image?: string | null }) =>
+    apiClient<{ success: boolean; data: User }>('/api/me', {
+      method: 'PATCH',
+      body: profile,
+    }),
+
+  changePassword: (currentPassword: string, newPassword: string, revokeOtherSessions: boolean) =>
+    apiClient('/api/me/password', {
+      method: 'POST',
+      body: { currentPassword, newPassword, revokeOtherSessions },
+    }),
+
+  // The address changes once the link mailed to it is opened
+  changeEmail: (newEmail: string) =>
+    apiClient('/api/me/email', {
+      method: 'POST',
+      body: { newEmail },
+    }),
 }
 
 // Company types
@@ -73,16 +107,29 @@ export interface Company {
   slug: string
   ownerId: string
   repoPath: string | null
+  readIsolation: number // 0 | 1 (SQLite boolean)
+  departmentRetentionDays: number | null // days archived departments are kept (null = until restored)
+  largeFileQuotaGb: number | null // large file store quota (null = server default)
   createdAt: string
   updatedAt: string
   role?: string
 }
 
+export interface LargeFileUsage {
+  usedBytes: number
+  objectCount: number
+  quotaBytes: number
+  quotaGb: number | null
+  defaultQuotaGb: number
+  maxQuotaGb: number
+}
+
 export interface Member {
   id: string
   userId: string
   companyId: string
   role: string
+  scopeDepartmentId: string | null
   email: string | null
   name: string | null
   createdAt: string
@@ -111,10 +158,36 @@ export const companiesApi = {
       body: { email, role },
     }),
 
+  updateMemberRole: (companyId: string, userId: string, role: string, departmentId?: string) =>
+    apiClient<{ success: boolean; data: { userId: string; role: string; scopeDepartmentId: string | null } }>(
+      `/api/companies/${companyId}/members/${userId}`,
+      { method: 'PATCH', body: { role, departmentId } }
+    ),
+
   removeMember: (companyId: string, userId: string) =>
     apiClient(`/api/companies/${companyId}/members/${userId}`, {
       method: 'DELETE',
     }),
+
+  getLargeFiles: (id: string) =>
+    apiClient<{ success: boolean; data: LargeFileUsage }>(`/api/companies/${id}/large-files`),
+
+  updateSettings: (id: string, settings: { readIsolation?: boolean; departmentRetentionDays?: number | null; largeFileQuotaGb?: number | null }) =>
+    apiClient<{ success: boolean; data: Company }>(`/api/companies/${id}/settings`, {
+      method: 'PATCH',
+      body: settings,
+    }),
+
+  transferOwnership: (id: string, userId: string, confirm: string) =>
+    apiClient<{ success: boolean; data: { companyId: string; ownerId: string } }>(
+      `/api/companies/${id}/transfer-ownership`,
+      { method: 'POST', body: { userId, confirm } }
+    ),
+
+  leave: (id: string) =>
+    apiClient(`/api/companies/${id}/leave`, {
+      method: 'POST',
+    }),
 }
 
 // SSH Keys API
@@ -141,6 +214,34 @@ export const sshKeysApi = {
     apiClient(`/api/users/me/ssh-keys/${id}`, { method: 'DELETE' }),
 }
 
+// Personal Access Tokens API
+export type AccessTokenScope = 'repo:read' | 'repo:write' | 'api:read' | 'api:write'
+
+export interface AccessToken {
+  id: string
+  name: string
+  tokenPrefix: string
+  scopes: AccessTokenScope[]
+  expiresAt: string | null
+  lastUsedAt: string | null
+  createdAt: string
+}
+
+export const accessTokensApi = {
+  list: () =>
+    apiClient<{ success: boolean; data: AccessToken[] }>('/api/users/me/tokens'),
+
+  // The response is the only time the token itself is returned
+  create: (name: string, scopes: AccessTokenScope[], expiresInDays: number | null) =>
+    apiClient<{ success: boolean; data: AccessToken & { token: string } }>('/api/users/me/tokens', {
+      method: 'POST',
+      body: { name, scopes, expiresInDays },
+    }),
+
+  revoke: (id: string) =>
+    apiClient(`/api/users/me/tokens/${id}`, { method: 'DELETE' }),
+}
+
 // Invitation types
 export interface Invitation {
   id: string
@@ -148,6 +249,12 @@ export interface Invitation {
   companyName: string
   token: string
   role: string
+  email: string | null
+  emailDomain: string | null
+  maxUses: number
+  useCount: number
+  departmentIds: string[]
+  checkoutFolders: string[]
   createdBy: string
   createdByName: string | null
   createdByEmail: string | null
@@ -161,15 +268,48 @@ export interface Invitation {
   isUsed: boolean
 }
 
+export interface InvitationInfo {
+  companyName: string
+  role: string
+  roleName: string | null
+  email: string | null
+  emailDomain: string | null
+  name: string | null
+  departments: Array<{ name: string; folder: string }>
+  expiresAt: string
+}
+
+export interface InvitationImportResult {
+  created: Array<{ row: number; email: string; name: string | null; token: string; expiresAt: string }>
+  errors: Array<{ row: number; email: string | null; error: string }>
+}
+
+export interface InvitationOptions {
+  role?: string
+  expiresInDays?: number
+  email?: string | null
+  emailDomain?: string | null
+  maxUses?: number
+  departmentIds?: string[]
+  checkoutFolders?: string[]
+}
+
 // Invitations API
 export const invitationsApi = {
   list: (companyId: string) =>
     apiClient<{ success: boolean; data: Invitation[] }>(`/api/companies/${companyId}/invitations`),
 
-  create: (companyId: string, role: string = 'member', expiresInDays: number = 7) =>
+  create: (companyId: string, options: InvitationOptions = {}) =>
     apiClient<{ success: boolean; data: Invitation }>(`/api/companies/${companyId}/invitations`, {
       method: 'POST',
-      body: { role, expiresInDays },
+      body: { role: 'member', expiresInDays: 7, ...options },
+    }),
+
+  // One email-bound link per CSV row (email, name, role, departments)
+  import: (companyId: string, csv: string, expiresInDays: number = 7) =>
+    apiClient<{ success: boolean; data: InvitationImportResult }>(`/api/companies/${companyId}/invitations/import`, {
+      method: 'POST',
+      body: { csv, expiresInDays },
     }),
 
   delete: (companyId: string, invitationId: string) =>
@@ -178,7 +318,7 @@ export const invitationsApi = {
     }),
 
   validate: (token: string) =>
-    apiClient<{ success: boolean; data: { companyName: string; role: string; expiresAt: string } }>(`/api/invitations/${token}`),
+    apiClient<{ success: boolean; data: InvitationInfo }>(`/api/invitations/${token}`),
 
   accept: (token: string) =>
     apiClient<{ success: boolean; data: { companyId: string; companyName: string; role: string } }>(`/api/invitations/${token}/accept`, {
@@ -186,6 +326,290 @@ export const invitationsApi = {
     }),
 }
 
+// Password Resets API
+export interface PasswordReset {
+  id: string
+  token: string
+  userId: string
+  email: string
+  expiresAt: string
+  emailed: boolean
+  createdAt: string
+}
+
+export const passwordResetsApi = {
+  // The response is the only time the token itself is returned
+  create: (companyId: string, userId: string, expiresInHours: number = 24) =>
+    apiClient<{ success: boolean; data: PasswordReset }>(`/api/companies/${companyId}/members/${userId}/password-resets`, {
+      method: 'POST',
+      body: { expiresInHours },
+    }),
+
+  validate: (token: string) =>
+    apiClient<{ success: boolean; data: { email: string; name: string | null; expiresAt: string } }>(`/api/password-resets/${token}`),
+
+  reset: (token: string, newPassword: string) =>
+    apiClient(`/api/password-resets/${token}`, {
+      method: 'POST',
+      body: { newPassword },
+    }),
+}
+
+// Role types
+export type Capability =
+  | 'manage_settings'
+  | 'manage_members'
+  | 'manage_roles'
+  | 'invite'
+  | 'manage_departments'
+  | 'manage_permissions'
+  | 'view_audit'
+  | 'push'
+  | 'delete_repo'
+
+export type RoleScope = 'company' | 'department'
+
+export interface Role {
+  id: string
+  companyId: string | null
+  name: string
+  description: string | null
+  capabilities: Capability[]
+  scope: RoleScope
+  builtin: boolean
+  memberCount: number
+}
+
+export interface RoleInput {
+  name: string
+  description?: string | null
+  capabilities: Capability[]
+  scope: RoleScope
+}
+
+// Roles API
+export const rolesApi = {
+  list: (companyId: string) =>
+    apiClient<{ success: boolean; data: Role[] }>(`/api/companies/${companyId}/roles`),
+
+  create: (companyId: string, data: RoleInput) =>
+    apiClient<{ success: boolean; data: Role }>(`/api/companies/${companyId}/roles`, {
+      method: 'POST',
+      body: data,
+    }),
+
+  update: (companyId: string, roleId: string, data: Partial<RoleInput>) =>
+    apiClient<{ success: boolean; data: Role }>(`/api/companies/${companyId}/roles/${roleId}`, {
+      method: 'PUT',
+      body: data,
+    }),
+
+  delete: (companyId: string, roleId: string) =>
+    apiClient(`/api/companies/${companyId}/roles/${roleId}`, {
+      method: 'DELETE',
+    }),
+}
+
+// Permission types
+export interface Permission {
+  id: string
+  userId: string
+  companyId: string
+  path: string
+  canRead: boolean
+  canWrite: boolean
+  email?: string | null
+  name?: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreatePermissionInput {
+  userId: string
+  path: string
+  canRead: boolean
+  canWrite: boolean
+}
+
+// Permissions API
+export const permissionsApi = {
+  list: (companyId: string) =>
+    apiClient<{ success: boolean; data: Permission[] }>(`/api/companies/${companyId}/permissions`),
+
+  create: (companyId: string, data: CreatePermissionInput) =>
+    apiClient<{ success: boolean; data: Permission }>(`/api/companies/${companyId}/permissions`, {
+      method: 'POST',
+      body: data,
+    }),
+
+  update: (companyId: string, permissionId: string, data: { canRead?: boolean; canWrite?: boolean }) =>
+    apiClient<{ success: boolean; data: Permission }>(`/api/companies/${companyId}/permissions/${permissionId}`, {
+      method: 'PUT',
+      body: data,
+    }),
+
+  delete: (companyId: string, permissionId: string) =>
+    apiClient(`/api/companies/${companyId}/permissions/${permissionId}`, {
+      method: 'DELETE',
+    }),
+}
+
+// Audit log types
+export interface AuditEvent {
+  id: string
+  companyId: string
+  actorId: string | null
+  actorEmail: string | null
+  actorName: string | null
+  action: string
+  targetType: string | null
+  targetId: string | null
+  details: Record<string, unknown> | null
+  createdAt: string
+}
+
+export interface AuditQuery {
+  action?: string
+  actorId?: string
+  from?: string
+  to?: string
+  limit?: number
+  offset?: number
+}
+
+// Audit API
+export const auditApi = {
+  list: (companyId: string, query: AuditQuery = {}) => {
+    const params = new URLSearchParams()
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== '') params.set(key, String(value))
+    }
+    return apiClient<{ success: boolean; data: { events: AuditEvent[]; total: number; limit: number; offset: number } }>(
+      `/api/companies/${companyId}/audit?${params}`
+    )
+  },
+}
+
+// Skill types
+export interface SkillTool {
+  name: string
+  displayName: string
+  hasPackageJson: boolean
+  startCommand?: string
+}
+
+export interface Skill {
+  path: string
+  folder: string
+  departmentName: string | null
+  name: string
+  description: string
+  status: string | null
+  isNurturing: boolean
+  files: {
+    rules: string[]
+    references: string[]
+    scripts: string[]
+    tools: SkillTool[]
+  }
+}
+
+export interface SkillUsageSummary {
+  skillPath: string
+  folder: string
+  uses: number
+  users: number
+  errors: number
+  avgDurationMs: number
+  avgToolCalls: number
+  lastUsedAt: string
+}
+
+export interface DepartmentUsageSummary {
+  folder: string
+  departmentName: string | null
+  uses: number
+  users: number
+  skills: number
+}
+
+// Repository browser API (read-only; only paths the caller can read)
+export interface RepoTreeEntry {
+  name: string
+  path: string
+  type: 'tree' | 'blob' | 'commit'
+  mode: string
+  size: number | null
+}
+
+export interface RepoCommit {
+  sha: string
+  parents: string[]
+  authorName: string
+  authorEmail: string
+  authoredAt: string
+  subject: string
+}
+
+export interface RepoCommitDiff {
+  commit: RepoCommit & { message: string }
+  files: Array<{ path: string; status: string }>
+  patch: string
+  truncated: boolean
+}
+
+function repoQuery(query: Record<string, string | number | undefined>): string {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') params.set(key, String(value))
+  }
+  return params.toString()
+}
+
+export const repoApi = {
+  tree: (companyId: string, path: string = '', ref?: string) =>
+    apiClient<{ success: boolean; data: { ref: string; commit: string; path: string; entries: RepoTreeEntry[] } }>(
+      `/api/companies/${companyId}/repo/tree?${repoQuery({ path, ref })}`
+    ),
+
+  // For <img src> / links; the response is the raw file
+  blobUrl: (companyId: string, path: string, ref?: string) =>
+    `/api/companies/${companyId}/repo/blob?${repoQuery({ path, ref })}`,
+
+  blobText: async (companyId: string, path: string, ref?: string) => {
+    const res = await fetch(repoApi.blobUrl(companyId, path, ref), { credentials: 'include' })
+    if (!res.ok) {
+      const error = await res.json().catch(() => ({ error: 'Unknown error' }))
+      throw new Error(error.error || 'Request failed')
+    }
+    return { text: await res.text(), contentType: res.headers.get('Content-Type') ?? '' }
+  },
+
+  commits: (companyId: string, query: { path?: string; ref?: string; skip?: number; limit?: number } = {}) =>
+    apiClient<{ success: boolean; data: { ref: string; path: string; commits: RepoCommit[]; nextSkip: number | null } }>(
+      `/api/companies/${companyId}/repo/commits?${repoQuery(query)}`
+    ),
+
+  commit: (companyId: string, sha: string) =>
+    apiClient<{ success: boolean; data: RepoCommitDiff }>(`/api/companies/${companyId}/repo/commits/${sha}`),
+}
+
+// Skills API
+export const skillsApi = {
+  list: (companyId: string, query: { q?: string; folder?: string } = {}) => {
+    const params = new URLSearchParams()
+    if (query.q) params.set('q', query.q)
+    if (query.folder !== undefined) params.set('folder', query.folder)
+    return apiClient<{ success: boolean; data: Skill[] }>(`/api/companies/${companyId}/skills?${params}`)
+  },
+
+  usage: (companyId: string) =>
+    apiClient<{
+      success: boolean
+      data: { from: string; to: string; skills: SkillUsageSummary[]; departments: DepartmentUsageSummary[] }
+    }>(`/api/companies/${companyId}/skills/usage`),
+}
+
 // Department types
 export interface Department {
   id: string
@@ -199,9 +623,19 @@ export interface Department {
   description: string | null
   sortOrder: number
   isActive: boolean
+  archivedAt: string | null
+  archivedBy: string | null
+  archivedFrom: string | null
   createdAt: string
   updatedAt: string
   createdBy: string | null
+  members?: DepartmentMember[]
+}
+
+export interface DepartmentMember {
+  userId: string
+  isLead: boolean
+  createdAt: string
 }
 
 export interface DepartmentWithChildren extends Department {
@@ -235,6 +669,28 @@ export interface ReorderDepartmentItem {
   sortOrder: number
 }
 
+export interface MoveDepartmentInput {
+  folder?: string
+  parentId?: string | null
+}
+
+export interface SkillReference {
+  path: string
+  line: number
+  text: string
+}
+
+export interface DepartmentMove {
+  id: string
+  departmentId: string
+  fromPath: string
+  toPath: string
+  commit: string | null
+  skillReferences: SkillReference[]
+  movedBy: string | null
+  createdAt: string
+}
+
 // Departments API
 export const departmentsApi = {
   list: (companyId: string, flat: boolean = false) =>
@@ -257,10 +713,39 @@ export const departmentsApi = {
       body: data,
     }),
 
+  // Archives the department and its subdepartments (see restore)
   delete: (companyId: string, departmentId: string) =>
-    apiClient<{ success: boolean; deletedFiles?: number; deletedFolders?: number }>(`/api/companies/${companyId}/departments/${departmentId}`, {
-      method: 'DELETE',
-    }),
+    apiClient<{ success: boolean; archivedFiles: number; archivedFolders: number; archivedDepartments: string[] }>(
+      `/api/companies/${companyId}/departments/${departmentId}`,
+      {
+        method: 'DELETE',
+      }
+    ),
+
+  archived: (companyId: string) =>
+    apiClient<{ success: boolean; data: Department[] }>(`/api/companies/${companyId}/departments/archived`),
+
+  restore: (companyId: string, departmentId: string) =>
+    apiClient<{ success: boolean; data: Department; restoredDepartments: string[] }>(
+      `/api/companies/${companyId}/departments/${departmentId}/restore`,
+      {
+        method: 'POST',
+      }
+    ),
+
+  move: (companyId: string, departmentId: string, data: MoveDepartmentInput) =>
+    apiClient<{ success: boolean; data: { department: Department; move: DepartmentMove | null } }>(
+      `/api/companies/${companyId}/departments/${departmentId}/move`,
+      {
+        method: 'POST',
+        body: data,
+      }
+    ),
+
+  moves: (companyId: string, since?: string) =>
+    apiClient<{ success: boolean; data: DepartmentMove[] }>(
+      `/api/companies/${companyId}/departments/moves${since ? `?since=${encodeURIComponent(since)}` : ''}`
+    ),
 
   reorder: (companyId: string, items: ReorderDepartmentItem[]) =>
     apiClient<{ success: boolean }>(`/api/companies/${companyId}/departments/reorder`, {
@@ -277,4 +762,15 @@ export const departmentsApi = {
     apiClient<{ success: boolean; added: number; removed: number }>(`/api/companies/${companyId}/departments/sync`, {
       method: 'POST',
     }),
+
+  assignMember: (companyId: string, departmentId: string, userId: string, isLead: boolean) =>
+    apiClient<{ success: boolean; data: DepartmentMember }>(
+      `/api/companies/${companyId}/departments/${departmentId}/members/${userId}`,
+      { method: 'PUT', body: { isLead } }
+    ),
+
+  unassignMember: (companyId: string, departmentId: string, userId: string) =>
+    apiClient<{ success: boolean }>(`/api/companies/${companyId}/departments/${departmentId}/members/${userId}`, {
+      method: 'DELETE',
+    }),
 }
@@ -0,0 +1,204 @@
+import path from 'path'
+
+// ============================================================================
+// Background auto-sync (opt-in)
+// ============================================================================
+//
+// Runs the regular git:sync for the open company on an interval, and shortly
+// after local edits settle (fed by the fs:watch watcher). It never waits in
+// line behind another sync: a tick that finds one running is skipped. While
+// the editor has unsaved changes it pauses. Anything that needs the user's
+// decision (deleted files, nested repositories) is left to a manual sync —
+// the background run stops before changing anything and reports it.
+
+export interface AutoSyncSettings {
+  enabled: boolean
+  intervalMinutes: number
+  syncOnChange: boolean // sync once local edits settle
+}
+
+export interface AutoSyncStatus {
+  enabled: boolean
+  state: 'idle' | 'syncing' | 'paused'
+  lastSyncAt: string | null
+  lastError: string | null
+  nextSyncAt: string | null
+}
+
+export interface AutoSyncResult {
+  success: boolean
+  error?: string
+}
+
+export const DEFAULT_AUTO_SYNC_SETTINGS: AutoSyncSettings = {
+  enabled: false,
+  intervalMinutes: 15,
+  syncOnChange: true,
+}
+
+export const MIN_INTERVAL_MINUTES = 5
+export const MAX_INTERVAL_MINUTES = 24 * 60
+
+const CHANGE_SETTLE_MS = 30 * 1000
+// Events the sync itself causes (pulled files) arrive shortly after it ends
+const SELF_CHANGE_GRACE_MS = 3 * 1000
+const IGNORED_CHANGE = /(^|[\\/])(\.git|\.backups|\.workspace|node_modules)([\\/]|$)/
+
+export function normalizeAutoSyncSettings(input: Partial<AutoSyncSettings> | undefined): AutoSyncSettings {
+  const interval = Math.round(Number(input?.intervalMinutes))
+  return {
+    enabled: input?.enabled === true,
+    intervalMinutes: Number.isFinite(interval)
+      ? Math.min(Math.max(interval, MIN_INTERVAL_MINUTES), MAX_INTERVAL_MINUTES)
+      : DEFAULT_AUTO_SYNC_SETTINGS.intervalMinutes,
+    syncOnChange: input?.syncOnChange ?? DEFAULT_AUTO_SYNC_SETTINGS.syncOnChange,
+  }
+}
+
+export function createAutoSync(options: {
+  getSettings: () => AutoSyncSettings
+  isSyncing: (repoPath: string) => boolean
+  runSync: (repoPath: string, companyId: string) => Promise<AutoSyncResult>
+  onStatus: (status: AutoSyncStatus) => void
+}) {
+  let target: { repoPath: string; companyId: string } | null = null
+  let editorDirty = false
+  let running = false
+  let changePending = false
+  let lastSyncEndedAt = 0
+  let intervalTimer: ReturnType<typeof setInterval> | null = null
+  let settleTimer: ReturnType<typeof setTimeout> | null = null
+  let nextIntervalAt: number | null = null
+  let lastSyncAt: string | null = null
+  let lastError: string | null = null
+
+  function getStatus(): AutoSyncStatus {
+    const { enabled } = options.getSettings()
+    return {
+      enabled,
+      state: running ? 'syncing' : enabled && editorDirty ? 'paused' : 'idle',
+      lastSyncAt,
+      lastError,
+      nextSyncAt: enabled && target && nextIntervalAt ? new Date(nextIntervalAt).toISOString() : null,
+    }
+  }
+
+  function emit() {
+    options.onStatus(getStatus())
+  }
+
+  function clearSettleTimer() {
+    if (settleTimer) clearTimeout(settleTimer)
+    settleTimer = null
+  }
+
+  async function run() {
+    const settings = options.getSettings()
+    if (!settings.enabled || !target || running || editorDirty) return
+    // A manual sync is already running; its result is recorded on its own
+    if (options.isSyncing(target.repoPath)) return
+
+    const { repoPath, companyId } = target
+    running = true
+    changePending = false
+    clearSettleTimer()
+    emit()
+    try {
+      recordResult(await options.runSync(repoPath, companyId))
+    } catch (error) {
+      recordResult({ success: false, error: error instanceof Error ? error.message : String(error) })
+    } finally {
+      running = false
+      lastSyncEndedAt = Date.now()
+      emit()
+    }
+  }
+
+  function scheduleInterval() {
+    if (intervalTimer) clearInterval(intervalTimer)
+    intervalTimer = null
+    nextIntervalAt = null
+    const settings = options.getSettings()
+    if (!settings.enabled || !target) return
+
+    const intervalMs = settings.intervalMinutes * 60 * 1000
+    nextIntervalAt = Date.now() + intervalMs
+    intervalTimer = setInterval(() => {
+      nextIntervalAt = Date.now() + intervalMs
+      void run()
+    }, intervalMs)
+  }
+
+  function scheduleChangeSync() {
+    clearSettleTimer()
+    if (editorDirty) return
+    settleTimer = setTimeout(() => {
+      settleTimer = null
+      void run()
+    }, CHANGE_SETTLE_MS)
+  }
+
+  /** Result of any sync of the target (background or manual) for the status */
+  function recordResult(result: AutoSyncResult) {
+    if (result.success) {
+      lastSyncAt = new Date().toISOString()
+      lastError = null
+    } else {
+      lastError = result.error || '同期に失敗しました'
+    }
+    emit()
+  }
+
+  return {
+    getStatus,
+    recordResult,
+
+    /** The open company checkout, or null when none is open */
+    setTarget(repoPath: string | null, companyId: string | null) {
+      const next = repoPath && companyId ? { repoPath: path.resolve(repoPath), companyId } : null
+      if (next?.repoPath === target?.repoPath && next?.companyId === target?.companyId) return
+      target = next
+      changePending = false
+      clearSettleTimer()
+      lastSyncAt = null
+      lastError = null
+      scheduleInterval()
+      emit()
+    },
+
+    /** Settings changed: restart the interval */
+    reschedule() {
+      if (!options.getSettings().enabled) {
+        changePending = false
+        clearSettleTimer()
+      }
+      scheduleInterval()
+      emit()
+    },
+
+    /** A file below `watchedRoot` changed on disk */
+    notifyChange(watchedRoot: string, changedPath: string) {
+      const settings = options.getSettings()
+      if (!settings.enabled || !settings.syncOnChange || !target) return
+      if (path.resolve(watchedRoot) !== target.repoPath || IGNORED_CHANGE.test(changedPath)) return
+      if (running || Date.now() - lastSyncEndedAt < SELF_CHANGE_GRACE_MS) return
+      changePending = true
+      scheduleChangeSync()
+    },
+
+    /** The editor has unsaved changes: hold syncs until they are saved */
+    setEditorDirty(dirty: boolean) {
+      if (dirty === editorDirty) return
+      editorDirty = dirty
+      if (dirty) clearSettleTimer()
+      else if (changePending) scheduleChangeSync()
+      emit()
+    },
+
+    stop() {
+      if (intervalTimer) clearInterval(intervalTimer)
+      intervalTimer = null
+      clearSettleTimer()
+    },
+  }
+}
@@ -14,6 +14,7 @@ import {
 import { createAnthropic } from '@ai-sdk/anthropic'
 import { claudeCode } from 'ai-sdk-provider-claude-code'
 import { createFileSystemTools, createSkillTools } from './chat-tools'
+import { findSlashCommandSkill, toRepoSkillPath, type SkillUsageEvent } from './skill-usage'
 import crypto from 'crypto'
 import fs from 'fs'
 import net from 'net'
@@ -33,6 +34,8 @@ export interface ChatServerConfig {
     toolUseId: string,
     appSessionId?: string,
   ) => Promise<{ approved: boolean }>
+  // Called once per chat turn that ran a skill (no-op unless the user opted in)
+  recordSkillUsage?: (event: Omit<SkillUsageEvent, 'id' | 'occurredAt'>) => void
 }
 
 // ============================================================================
@@ -187,6 +190,16 @@ function spawnClaudeCodeProcess(opts: { command: string; args: string[]; cwd?: s
   return child
 }
 
+// Text of the latest user message (where a /skill command would be)
+function getLatestUserText(messages: UIMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') {
+      return messages[i].parts.map(part => (part.type === 'text' ? part.text : '')).join('')
+    }
+  }
+  return ''
+}
+
 async function findAvailablePort(start: number, end: number): Promise<number> {
   for (let port = start; port < end; port++) {
     const available = await new Promise<boolean>((resolve) => {
@@ -267,6 +280,7 @@ export async function startChatServer(config: ChatServerConfig) {
       referenceFiles,
       appSessionId,
       claudeSessionId: bodyClaudeSessionId,
+      companyId,
     }: {
       messages: UIMessage[]
       systemPrompt?: string
@@ -279,8 +293,32 @@ export async function startChatServer(config: ChatServerConfig) {
       referenceFiles?: string[]
       appSessionId?: string
       claudeSessionId?: string
+      companyId?: string
     } = body
 
+    // Skill usage analytics: which skill (if any) this turn runs
+    const startedAt = Date.now()
+    let toolCallCount = 0
+    let recordUsage: ((outcome: 'success' | 'error') => void) | null = null
+    if (config.recordSkillUsage && companyId && workingDirectory) {
+      const slashSkill = skillInfo?.skillFolderPath ? null : findSlashCommandSkill(getLatestUserText(messages), workingDirectory)
+      const skillDir = skillInfo?.skillFolderPath ?? slashSkill
+      const skillPath = skillDir ? toRepoSkillPath(skillDir) : null
+      if (skillPath) {
+        recordUsage = (outcome) => {
+          config.recordSkillUsage!({
+            companyId,
+            skillPath,
+            source: slashSkill ? 'slash' : 'skill',
+            durationMs: Date.now() - startedAt,
+            toolCalls: toolCallCount,
+            outcome,
+          })
+          recordUsage = null // once per turn
+        }
+      }
+    }
+
     const authMode = config.getAuthMode()
 
     // Claude Code CLI mode: minimal context only (working directory + language)
@@ -605,6 +643,7 @@ export async function startChatServer(config: ChatServerConfig) {
       ...(tools ? { tools, stopWhen: stepCountIs(10) } : {}),
       onStepFinish: ({ finishReason, usage, toolCalls, providerMetadata }) => {
         console.log(`[chat-server] Step finished: reason=${finishReason}, tokens=${usage.totalTokens}, tools=${toolCalls.length}`)
+        toolCallCount += toolCalls.length
         // Update per-session usage
         const sid = appSessionId || '__default__'
         const su = getSessionUsage(sid)
@@ -652,8 +691,12 @@ export async function startChatServer(config: ChatServerConfig) {
           }
         }
       },
+      onFinish: ({ finishReason }) => {
+        recordUsage?.(finishReason === 'error' ? 'error' : 'success')
+      },
       onError: ({ error }) => {
         console.error('[chat-server] Stream error:', error)
+        recordUsage?.('error')
       },
     })
 
@@ -0,0 +1,431 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { Readable, Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { ReadableStream as WebReadableStream } from 'stream/web'
+import type { SimpleGit } from 'simple-git'
+
+// ============================================================================
+// Large files (Git LFS pointers and the server's large file store)
+// ============================================================================
+//
+// Files above LARGE_FILE_THRESHOLD are not committed. Their content goes to
+// the server through the Git LFS batch API (<remote>/info/lfs) and the index
+// gets a Git LFS pointer instead, marked assume-unchanged so `git add` leaves
+// it alone; .gitattributes lists the paths like `git lfs track` would. No
+// git-lfs binary is needed. After a pull, pointers in the working tree are
+// replaced with their content ("hydrated").
+//
+// .git/acb-large-files/ holds the manifest of hydrated files (to tell local
+// edits apart) and, while a pull runs, the hydrated files themselves: git
+// refuses to check out over a file that differs from the index, so they are
+// moved aside and pointers put in their place first.
+
+export const LARGE_FILE_THRESHOLD = 100 * 1024 * 1024 // 100MB
+
+export interface LargeFilePointer {
+  oid: string // SHA-256 of the content
+  size: number
+}
+
+export interface LargeFileRemote {
+  url: string // <remote>/info/lfs
+  authorization: string
+}
+
+interface ManifestEntry extends LargeFilePointer {
+  mtimeMs: number
+}
+
+type Manifest = Record<string, ManifestEntry>
+
+interface BatchAction {
+  href: string
+  header?: Record<string, string>
+}
+
+interface BatchObject extends LargeFilePointer {
+  actions?: Partial<Record<'upload' | 'download', BatchAction>>
+  error?: { code: number; message: string }
+}
+
+const POINTER_VERSION = 'version https://git-lfs.github.com/spec/v1'
+const MAX_POINTER_BYTES = 1024
+const STORE_DIR = 'acb-large-files'
+const LFS_CONTENT_TYPE = 'application/vnd.git-lfs+json'
+
+function storeDir(repoPath: string): string {
+  return path.join(repoPath, '.git', STORE_DIR)
+}
+
+function stashedObjectPath(repoPath: string, oid: string): string {
+  return path.join(storeDir(repoPath), 'objects', oid)
+}
+
+// ============================================================================
+// Pointers
+// ============================================================================
+
+export function formatPointer({ oid, size }: LargeFilePointer): string {
+  return `${POINTER_VERSION}\noid sha256:${oid}\nsize ${size}\n`
+}
+
+export function parsePointer(content: Buffer | string): LargeFilePointer | null {
+  if (content.length > MAX_POINTER_BYTES) return null
+  const text = content.toString()
+  if (!text.startsWith(POINTER_VERSION)) return null
+  const oid = text.match(/^oid sha256:([0-9a-f]{64})$/m)?.[1]
+  const size = text.match(/^size (\d+)$/m)?.[1]
+  return oid && size ? { oid, size: Number(size) } : null
+}
+
+/** The pointer a working tree file holds, or null for real content */
+async function readPointerFile(filePath: string): Promise<LargeFilePointer | null> {
+  const stat = await fs.promises.stat(filePath)
+  if (!stat.isFile() || stat.size > MAX_POINTER_BYTES) return null
+  return parsePointer(await fs.promises.readFile(filePath))
+}
+
+async function hashFile(filePath: string): Promise<LargeFilePointer> {
+  const hash = crypto.createHash('sha256')
+  let size = 0
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer)
+    size += (chunk as Buffer).length
+  }
+  return { oid: hash.digest('hex'), size }
+}
+
+// ============================================================================
+// Manifest and .gitattributes
+// ============================================================================
+
+function readManifest(repoPath: string): Manifest {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(storeDir(repoPath), 'manifest.json'), 'utf-8')) as Manifest
+  } catch {
+    return {}
+  }
+}
+
+function writeManifest(repoPath: string, manifest: Manifest): void {
+  fs.mkdirSync(storeDir(repoPath), { recursive: true })
+  fs.writeFileSync(path.join(storeDir(repoPath), 'manifest.json'), JSON.stringify(manifest, null, 2))
+}
+
+// A path as an exact gitattributes pattern, escaped the way `git lfs track` does
+function attributesPattern(relativePath: string): string {
+  return '/' + relativePath
+    .replace(/[\\*?[\]!#]/g, char => `\\${char}`)
+    .replace(/ /g, '[[:space:]]')
+}
+
+function trackInAttributes(repoPath: string, paths: string[]): void {
+  const attributesPath = path.join(repoPath, '.gitattributes')
+  const existing = fs.existsSync(attributesPath) ? fs.readFileSync(attributesPath, 'utf-8') : ''
+  const lines = new Set(existing.split(/\r?\n/))
+  const additions = paths
+    .map(p => `${attributesPattern(p)} filter=lfs diff=lfs merge=lfs -text`)
+    .filter(line => !lines.has(line))
+  if (additions.length === 0) return
+  const separator = existing === '' || existing.endsWith('\n') ? '' : '\n'
+  fs.appendFileSync(attributesPath, separator + additions.join('\n') + '\n')
+}
+
+/** Paths git treats as large files (.gitattributes filter=lfs), relative to the repo */
+async function listTrackedLargeFiles(git: SimpleGit): Promise<string[]> {
+  const output = await git.raw(['ls-files', '-z', '--', ':(attr:filter=lfs)'])
+  return output.split('\0').filter(Boolean)
+}
+
+// ============================================================================
+// Git LFS batch API
+// ============================================================================
+
+export function largeFileRemote(remoteUrl: string, token: string): LargeFileRemote {
+  return {
+    url: `${remoteUrl.replace(/\/+$/, '')}/info/lfs`,
+    authorization: `Basic ${Buffer.from(`token:${token}`).toString('base64')}`,
+  }
+}
+
+async function batch(
+  remote: LargeFileRemote,
+  operation: 'upload' | 'download',
+  objects: LargeFilePointer[],
+  signal?: AbortSignal
+): Promise<BatchObject[]> {
+  const response = await fetch(`${remote.url}/objects/batch`, {
+    method: 'POST',
+    headers: {
+      Authorization: remote.authorization,
+      Accept: LFS_CONTENT_TYPE,
+      'Content-Type': LFS_CONTENT_TYPE,
+    },
+    body: JSON.stringify({ operation, transfers: ['basic'], objects }),
+    signal,
+  })
+  const data = await response.json().catch(() => null) as { objects?: BatchObject[]; message?: string } | null
+  if (!response.ok || !data?.objects) {
+    throw new Error(data?.message || `Large file ${operation} failed (${response.status})`)
+  }
+  return data.objects
+}
+
+async function uploadObject(
+  action: BatchAction,
+  filePath: string,
+  size: number,
+  signal?: AbortSignal
+): Promise<void> {
+  const response = await fetch(action.href, {
+    method: 'PUT',
+    headers: { ...action.header, 'Content-Type': 'application/octet-stream', 'Content-Length': String(size) },
+    body: Readable.toWeb(fs.createReadStream(filePath)) as ReadableStream<Uint8Array>,
+    duplex: 'half',
+    signal,
+  } as RequestInit)
+  if (!response.ok) {
+    const data = await response.json().catch(() => null) as { message?: string } | null
+    throw new Error(data?.message || `Upload failed (${response.status})`)
+  }
+}
+
+// Download into a temporary file and move it into place once the content
+// matches the pointer
+async function downloadObject(
+  action: BatchAction,
+  pointer: LargeFilePointer,
+  destination: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const response = await fetch(action.href, { headers: action.header, signal })
+  if (!response.ok || !response.body) throw new Error(`Download failed (${response.status})`)
+
+  const tmpPath = `${destination}.acb-download`
+  const hash = crypto.createHash('sha256')
+  let size = 0
+  try {
+    await pipeline(
+      Readable.fromWeb(response.body as WebReadableStream<Uint8Array>),
+      new Transform({
+        transform(chunk: Buffer, _encoding, done) {
+          hash.update(chunk)
+          size += chunk.length
+          done(null, chunk)
+        },
+      }),
+      fs.createWriteStream(tmpPath),
+    )
+    if (size !== pointer.size || hash.digest('hex') !== pointer.oid) {
+      throw new Error('Downloaded content does not match its pointer')
+    }
+    await fs.promises.rename(tmpPath, destination)
+  } catch (error) {
+    await fs.promises.rm(tmpPath, { force: true })
+    throw error
+  }
+}
+
+// ============================================================================
+// Sync steps
+// ============================================================================
+
+/**
+ * Upload new and changed large files and stage pointers for them. Large
+ * files deleted locally are handed back to git so the deletion is staged.
+ * Returns the files that could not be uploaded (excluded from this commit).
+ */
+export async function storeLargeFiles(options: {
+  git: SimpleGit
+  repoPath: string
+  remote: LargeFileRemote | null
+  found: string[] // files above the threshold, relative to the repo
+  include?: (file: string) => boolean // only these are synced (selective sync)
+  onFile?: (file: string) => void
+  signal?: AbortSignal
+}): Promise<{ stored: string[]; failed: string[] }> {
+  const { git, repoPath, remote, found, include = () => true, onFile, signal } = options
+  const manifest = readManifest(repoPath)
+  const tracked = new Set(await listTrackedLargeFiles(git))
+  const candidates = [...new Set([...tracked, ...found])].filter(include)
+
+  const changed: Array<LargeFilePointer & { file: string; mtimeMs: number }> = []
+  for (const file of candidates) {
+    if (signal?.aborted) break
+    const fullPath = path.join(repoPath, file)
+    const stat = await fs.promises.stat(fullPath).catch(() => null)
+    if (!stat) {
+      if (tracked.has(file)) await git.raw(['update-index', '--no-assume-unchanged', '--', file]).catch(() => {})
+      delete manifest[file]
+      continue
+    }
+    const entry = manifest[file]
+    if (entry && entry.size === stat.size && entry.mtimeMs === stat.mtimeMs) continue
+    // Not hydrated yet: the pointer from the index is still in place
+    if (tracked.has(file) && await readPointerFile(fullPath)) continue
+
+    onFile?.(file)
+    changed.push({ file, mtimeMs: stat.mtimeMs, ...await hashFile(fullPath) })
+  }
+
+  const stored: string[] = []
+  const failed: string[] = []
+  if (changed.length === 0 || signal?.aborted) {
+    writeManifest(repoPath, manifest)
+    return { stored, failed: changed.map(c => c.file) }
+  }
+
+  let results: BatchObject[] = []
+  try {
+    if (!remote) throw new Error('No remote for large files')
+    results = await batch(remote, 'upload', changed.map(({ oid, size }) => ({ oid, size })), signal)
+  } catch (error) {
+    console.warn('Large files: Upload request failed:', error)
+  }
+
+  const newlyTracked: string[] = []
+  const tmpDir = path.join(storeDir(repoPath), 'tmp')
+  fs.mkdirSync(tmpDir, { recursive: true })
+  for (const item of changed) {
+    const result = results.find(r => r.oid === item.oid)
+    try {
+      if (!result || result.error) throw new Error(result?.error?.message || 'Not accepted by the server')
+      if (result.actions?.upload) {
+        onFile?.(item.file)
+        await uploadObject(result.actions.upload, path.join(repoPath, item.file), item.size, signal)
+      }
+
+      // Stage the pointer; the working tree keeps the content
+      const pointerPath = path.join(tmpDir, `${item.oid}.pointer`)
+      fs.writeFileSync(pointerPath, formatPointer(item))
+      const blob = (await git.raw(['hash-object', '-w', '--no-filters', pointerPath])).trim()
+      fs.rmSync(pointerPath, { force: true })
+      await git.raw(['update-index', '--add', '--cacheinfo', `100644,${blob},${item.file}`])
+      await git.raw(['update-index', '--assume-unchanged', '--', item.file])
+
+      manifest[item.file] = { oid: item.oid, size: item.size, mtimeMs: item.mtimeMs }
+      if (!tracked.has(item.file)) newlyTracked.push(item.file)
+      stored.push(item.file)
+    } catch (error) {
+      console.warn(`Large files: Could not upload ${item.file}:`, error)
+      failed.push(item.file)
+    }
+  }
+
+  trackInAttributes(repoPath, newlyTracked)
+  writeManifest(repoPath, manifest)
+  return { stored, failed }
+}
+
+/**
+ * Before a pull: move hydrated large files aside and put their pointers in
+ * place, so git can check out new versions. hydrateLargeFiles() brings them
+ * back.
+ */
+export async function stashLargeFiles(git: SimpleGit, repoPath: string): Promise<void> {
+  const manifest = readManifest(repoPath)
+  const stashed: string[] = []
+  for (const [file, entry] of Object.entries(manifest)) {
+    const fullPath = path.join(repoPath, file)
+    const stat = await fs.promises.stat(fullPath).catch(() => null)
+    // Changed since it was stored: leave it to the next sync
+    if (!stat || stat.size !== entry.size || stat.mtimeMs !== entry.mtimeMs) continue
+
+    const stashedPath = stashedObjectPath(repoPath, entry.oid)
+    await fs.promises.mkdir(path.dirname(stashedPath), { recursive: true })
+    if (fs.existsSync(stashedPath)) await fs.promises.rm(fullPath)
+    else await fs.promises.rename(fullPath, stashedPath)
+    await fs.promises.writeFile(fullPath, formatPointer(entry))
+    stashed.push(file)
+  }
+
+  // The pointers match the index again, but not its stat data; git would
+  // still call them local changes
+  if (stashed.length > 0) {
+    await git.raw(['update-index', '--no-assume-unchanged', '--', ...stashed])
+    await git.raw(['update-index', '-q', '--refresh']).catch(() => {})
+  }
+}
+
+/**
+ * Replace pointers in the working tree with their content: from the files
+ * stashed before the pull, else downloaded (when a remote is given). Returns
+ * the files still holding a pointer.
+ */
+export async function hydrateLargeFiles(options: {
+  git: SimpleGit
+  repoPath: string
+  remote: LargeFileRemote | null
+  onFile?: (file: string) => void
+  signal?: AbortSignal
+}): Promise<string[]> {
+  const { git, repoPath, remote, onFile, signal } = options
+  const manifest = readManifest(repoPath)
+  const pending: Array<LargeFilePointer & { file: string }> = []
+
+  for (const file of await listTrackedLargeFiles(git)) {
+    const fullPath = path.join(repoPath, file)
+    const pointer = await readPointerFile(fullPath).catch(() => null)
+    if (!pointer) {
+      // Hydrated (or deleted); keep git from comparing it with the pointer
+      if (fs.existsSync(fullPath)) await git.raw(['update-index', '--assume-unchanged', '--', file]).catch(() => {})
+      continue
+    }
+
+    const stashed = stashedObjectPath(repoPath, pointer.oid)
+    if (fs.existsSync(stashed)) {
+      await fs.promises.rename(stashed, fullPath)
+      await finishHydration(git, repoPath, manifest, file, pointer)
+    } else {
+      pending.push({ file, ...pointer })
+    }
+  }
+
+  const missing: string[] = []
+  if (pending.length > 0 && remote && !signal?.aborted) {
+    let results: BatchObject[] = []
+    try {
+      results = await batch(remote, 'download', pending.map(({ oid, size }) => ({ oid, size })), signal)
+    } catch (error) {
+      console.warn('Large files: Download request failed:', error)
+    }
+    for (const item of pending) {
+      const action = results.find(r => r.oid === item.oid)?.actions?.download
+      if (!action || signal?.aborted) {
+        missing.push(item.file)
+        continue
+      }
+      try {
+        onFile?.(item.file)
+        await downloadObject(action, item, path.join(repoPath, item.file), signal)
+        await finishHydration(git, repoPath, manifest, item.file, item)
+      } catch (error) {
+        console.warn(`Large files: Could not download ${item.file}:`, error)
+        missing.push(item.file)
+      }
+    }
+  } else {
+    missing.push(...pending.map(p => p.file))
+  }
+
+  writeManifest(repoPath, manifest)
+  // Stashed files nobody points to anymore were uploaded before the pull
+  if (missing.length === 0 || remote) {
+    fs.rmSync(path.join(storeDir(repoPath), 'objects'), { recursive: true, force: true })
+  }
+  return missing
+}
+
+async function finishHydration(
+  git: SimpleGit,
+  repoPath: string,
+  manifest: Manifest,
+  file: string,
+  pointer: LargeFilePointer
+): Promise<void> {
+  const stat = await fs.promises.stat(path.join(repoPath, file))
+  manifest[file] = { ...pointer, mtimeMs: stat.mtimeMs }
+  await git.raw(['update-index', '--assume-unchanged', '--', file])
+}
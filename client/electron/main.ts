@@ -1,4 +1,4 @@
-import { app, BrowserWindow, ipcMain, dialog, shell, net as electronNet, protocol, nativeImage } from 'electron'
+import { app, BrowserWindow, ipcMain, dialog, shell, net as electronNet, protocol, nativeImage, session as electronSession } from 'electron'
 import path from 'path'
 import fs from 'fs'
 import os from 'os'
@@ -11,6 +11,34 @@ import { createAnthropic } from '@ai-sdk/anthropic'
 import { claudeCode } from 'ai-sdk-provider-claude-code'
 import { streamText, generateText } from 'ai'
 import { startChatServer, type ChatServerConfig } from './chat-server'
+import { createSkillUsageReporter } from './skill-usage'
+import { createProgressReporter, type SyncProgress } from './sync-progress'
+import {
+  LARGE_FILE_THRESHOLD,
+  largeFileRemote,
+  storeLargeFiles,
+  stashLargeFiles,
+  hydrateLargeFiles,
+  parsePointer,
+  type LargeFileRemote,
+} from './large-files'
+import {
+  createAutoSync,
+  normalizeAutoSyncSettings,
+  type AutoSyncSettings,
+} from './auto-sync'
+import {
+  countConflicts,
+  isMergeableText,
+  listPendingMerges,
+  mergeLines,
+  readPendingMerge,
+  removePendingMerge,
+  savePendingMerge,
+  serverSideText,
+  splitLines,
+  type PendingMergeSummary,
+} from './sync-merge'
 import simpleGit, { SimpleGit } from 'simple-git'
 import { resolveGitBinary, resolveGitDir } from 'dugite'
 import chokidar, { FSWatcher } from 'chokidar'
@@ -74,6 +102,8 @@ interface AppConfig {
   permissionMode?: 'bypassPermissions' | 'default'
   serverUrl?: string
   docbaseCookie?: string
+  shareSkillUsage?: boolean // opt-in skill usage analytics
+  autoSync?: AutoSyncSettings // opt-in background sync
 }
 
 // ============================================================================
@@ -392,6 +422,9 @@ function createWindow() {
 // Chat server info (shared between app.whenReady and IPC handler)
 let chatServerInfo: { port: number; authToken: string } | null = null
 
+// Skill usage uploader (created once userData is available)
+let skillUsageReporter: ReturnType<typeof createSkillUsageReporter> | null = null
+
 // Register custom protocol for serving local files (images etc.)
 // Must be called before app.whenReady()
 protocol.registerSchemesAsPrivileged([
@@ -416,6 +449,13 @@ app.whenReady().then(async () => {
     }
     return electronNet.fetch('file://' + resolved)
   })
+  skillUsageReporter = createSkillUsageReporter({
+    queuePath: path.join(app.getPath('userData'), 'skill-usage-queue.json'),
+    isEnabled: () => loadConfig().shareSkillUsage === true,
+    getServerUrl: getServerApiUrl,
+    getCookies: () => authCookies,
+  })
+
   // Start embedded Hono chat server
   try {
     const serverConfig: ChatServerConfig = {
@@ -450,6 +490,7 @@ app.whenReady().then(async () => {
           }, 60_000)
         })
       },
+      recordSkillUsage: (event) => skillUsageReporter?.record(event),
     }
     const result = await startChatServer(serverConfig)
     chatServerInfo = { port: result.port, authToken: result.authToken }
@@ -488,6 +529,11 @@ app.on('activate', () => {
 app.on('before-quit', () => {
   fileWatchers.forEach((watcher) => watcher.close())
   fileWatchers.clear()
+  autoSync.stop()
+
+  // Best-effort upload; anything left stays queued on disk for next launch
+  skillUsageReporter?.stop()
+  void skillUsageReporter?.flush()
 
   // Kill running skill tools so dev servers don't outlive the app.
   // Windows has no process groups/POSIX signals — kill the tree via taskkill.
@@ -552,11 +598,16 @@ const TREE_SKIP_DIRS = new Set(['node_modules', '.git', '.backups', '__pycache__
  * Excludes the root repo itself, common heavy/irrelevant dirs, and stops descending into a nested repo
  * once found (so deeply-nested external repos are reported only at their topmost level).
  */
-async function findNestedGitRepos(rootPath: string): Promise<string[]> {
+async function findNestedGitRepos(
+  rootPath: string,
+  options: { onDirectory?: (relativePath: string) => void; signal?: AbortSignal } = {}
+): Promise<string[]> {
   const SKIP_DIRS = new Set(['node_modules', '.backups', '.next', '.nuxt', 'dist', '__pycache__', '.venv', 'venv', '.workspace'])
   const results: string[] = []
 
   async function walk(dir: string, relativePath: string): Promise<void> {
+    if (options.signal?.aborted) return
+    options.onDirectory?.(relativePath)
     if (relativePath !== '') {
       const dotGitPath = path.join(dir, '.git')
       try {
@@ -847,6 +898,7 @@ ipcMain.handle('fs:watch', async (_, rootPath: string) => {
       }, 200)
     }
 
+    watcher.on('all', (_event, changePath) => autoSync.notifyChange(safePath, changePath))
     watcher.on('add', (filePath) => queueChange('add', filePath))
     watcher.on('addDir', (dirPath) => queueChange('addDir', dirPath))
     watcher.on('unlink', (filePath) => queueChange('unlink', filePath))
@@ -1017,6 +1069,17 @@ ipcMain.handle('config:setPermissionMode', (_, mode: 'bypassPermissions' | 'defa
   return true
 })
 
+ipcMain.handle('config:getShareSkillUsage', () => {
+  return loadConfig().shareSkillUsage === true
+})
+
+ipcMain.handle('config:setShareSkillUsage', (_, enabled: boolean) => {
+  const config = loadConfig()
+  config.shareSkillUsage = enabled
+  saveConfig(config)
+  return true
+})
+
 // Server URL configuration
 ipcMain.handle('config:getServerUrl', () => {
   const config = loadConfig()
@@ -1334,6 +1397,122 @@ ipcMain.handle('auth:signIn', async (_, email: string, password: string) => {
   }
 })
 
+// SSO providers the server offers (shown as buttons on the login screen)
+ipcMain.handle('auth:getSsoProviders', async () => {
+  try {
+    const response = await fetch(`${getServerApiUrl()}/api/config`, {
+      signal: AbortSignal.timeout(10000),
+    })
+    if (!response.ok) {
+      return { success: false, providers: [] }
+    }
+    const data = await response.json()
+    return { success: true, providers: data.data?.ssoProviders ?? [] }
+  } catch (error) {
+    console.error('Get SSO providers error:', error)
+    return { success: false, providers: [] }
+  }
+})
+
+// Copy a Set-Cookie header from a main-process fetch into an Electron session
+function setCookieInSession(ses: Electron.Session, url: string, header: string): Promise<void> {
+  const [pair, ...attributes] = header.split(';').map(part => part.trim())
+  const separator = pair.indexOf('=')
+  const details: Electron.CookiesSetDetails = {
+    url,
+    name: pair.slice(0, separator),
+    value: pair.slice(separator + 1),
+  }
+  for (const attribute of attributes) {
+    const [key, value] = attribute.split('=')
+    switch (key.toLowerCase()) {
+      case 'path': details.path = value; break
+      case 'secure': details.secure = true; break
+      case 'httponly': details.httpOnly = true; break
+      case 'max-age': details.expirationDate = Date.now() / 1000 + Number(value); break
+      case 'samesite': details.sameSite = value?.toLowerCase() === 'none' ? 'no_restriction' : value?.toLowerCase() === 'strict' ? 'strict' : 'lax'; break
+    }
+  }
+  return ses.cookies.set(details)
+}
+
+// SSO sign-in: the IdP's login page opens in its own window with a throwaway
+// cookie jar. The server starts the flow (its state cookie is copied into that
+// jar), and once the IdP redirects back and the server lands the window on
+// callbackURL, the session cookie is taken from the jar.
+ipcMain.handle('auth:signInWithSso', async (_, providerId: string) => {
+  const serverUrl = getServerApiUrl()
+  const callbackURL = `${serverUrl}/`
+  try {
+    const response = await fetch(`${serverUrl}/api/auth/sign-in/sso`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Origin': 'app://',
+      },
+      body: JSON.stringify({ providerId, callbackURL, errorCallbackURL: callbackURL }),
+    })
+
+    const { json, nonJsonError } = await parseJsonResponseSafe(response)
+    if (nonJsonError) {
+      return { success: false, error: nonJsonError }
+    }
+
+    const data = json as Record<string, unknown> | null
+    if (!response.ok || typeof data?.url !== 'string') {
+      return { success: false, error: extractResponseMessageFromJson(data) || 'SSO sign in failed' }
+    }
+
+    const ssoSession = electronSession.fromPartition(`sso-${Date.now()}`)
+    for (const cookie of response.headers.getSetCookie()) {
+      await setCookieInSession(ssoSession, serverUrl, cookie)
+    }
+
+    const result = await new Promise<{ success: boolean; cookies?: string[]; error?: string }>((resolve) => {
+      let settled = false
+      const authWindow = new BrowserWindow({
+        width: 520,
+        height: 720,
+        parent: mainWindow ?? undefined,
+        webPreferences: {
+          session: ssoSession,
+          nodeIntegration: false,
+          contextIsolation: true,
+        },
+      })
+
+      authWindow.webContents.on('did-navigate', async (_event, url) => {
+        const landed = new URL(url)
+        if (settled || `${landed.origin}${landed.pathname}` !== callbackURL) return
+        settled = true
+        const error = landed.searchParams.get('error')
+        if (error) {
+          resolve({ success: false, error: landed.searchParams.get('error_description') || error })
+        } else {
+          const cookies = await ssoSession.cookies.get({ url: serverUrl })
+          resolve({ success: true, cookies: cookies.map(cookie => `${cookie.name}=${cookie.value}`) })
+        }
+        authWindow.close()
+      })
+
+      authWindow.on('closed', () => {
+        if (!settled) resolve({ success: false, error: 'SSO sign in was cancelled' })
+      })
+
+      authWindow.loadURL(data.url as string)
+    })
+
+    if (!result.success || !result.cookies) {
+      return { success: false, error: result.error || 'SSO sign in failed' }
+    }
+    authCookies = result.cookies
+    return { success: true }
+  } catch (error) {
+    console.error('SSO sign in error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
 ipcMain.handle('auth:signOut', async () => {
   try {
     await fetch(`${getServerApiUrl()}/api/auth/sign-out`, {
@@ -1379,6 +1558,79 @@ ipcMain.handle('auth:getSession', async () => {
   }
 })
 
+// Profile API handlers
+ipcMain.handle('api:updateProfile', async (_, updates: { name?: string; image?: string | null }) => {
+  try {
+    const response = await fetch(`${getServerApiUrl()}/api/me`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        'Cookie': authCookies.join('; '),
+      },
+      body: JSON.stringify(updates),
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to update profile' }
+    }
+    return data
+  } catch (error) {
+    console.error('Update profile error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('api:changePassword', async (_, currentPassword: string, newPassword: string, revokeOtherSessions: boolean) => {
+  try {
+    const response = await fetch(`${getServerApiUrl()}/api/me/password`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Cookie': authCookies.join('; '),
+      },
+      body: JSON.stringify({ currentPassword, newPassword, revokeOtherSessions }),
+    })
+
+    // Revoking other sessions issues a new session cookie for this one
+    const cookies = response.headers.getSetCookie()
+    if (response.ok && cookies.length > 0) {
+      authCookies = cookies
+    }
+
+    const data = await response.json()
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to change password' }
+    }
+    return data
+  } catch (error) {
+    console.error('Change password error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('api:changeEmail', async (_, newEmail: string) => {
+  try {
+    const response = await fetch(`${getServerApiUrl()}/api/me/email`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Cookie': authCookies.join('; '),
+      },
+      body: JSON.stringify({ newEmail }),
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to change email' }
+    }
+    return data
+  } catch (error) {
+    console.error('Change email error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
 // Companies API handlers
 ipcMain.handle('api:getCompanies', async () => {
   try {
@@ -1440,6 +1692,121 @@ ipcMain.handle('api:getCompany', async (_, companyId: string) => {
   }
 })
 
+ipcMain.handle('api:getCompanyMembers', async (_, companyId: string) => {
+  try {
+    const response = await fetch(`${getServerApiUrl()}/api/companies/${companyId}/members`, {
+      headers: {
+        'Cookie': authCookies.join('; '),
+      },
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to fetch members' }
+    }
+    return data
+  } catch (error) {
+    console.error('Get company members error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+// Preview the server repository without a local checkout (e.g. folders
+// excluded by sparse checkout). The server only returns readable paths.
+ipcMain.handle('api:repoTree', async (_, companyId: string, folderPath: string, ref?: string) => {
+  try {
+    const params = new URLSearchParams({ path: folderPath })
+    if (ref) params.set('ref', ref)
+    const response = await fetch(`${getServerApiUrl()}/api/companies/${companyId}/repo/tree?${params}`, {
+      headers: {
+        'Cookie': authCookies.join('; '),
+      },
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to list folder' }
+    }
+    return data
+  } catch (error) {
+    console.error('Repo tree error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('api:repoReadFile', async (_, companyId: string, filePath: string, ref?: string) => {
+  try {
+    const params = new URLSearchParams({ path: filePath })
+    if (ref) params.set('ref', ref)
+    const response = await fetch(`${getServerApiUrl()}/api/companies/${companyId}/repo/blob?${params}`, {
+      headers: {
+        'Cookie': authCookies.join('; '),
+      },
+    })
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      return { success: false, error: data.error || 'Failed to read file' }
+    }
+
+    // Text is decoded here; anything else goes to the renderer as base64
+    const contentType = response.headers.get('Content-Type') || 'application/octet-stream'
+    const buffer = Buffer.from(await response.arrayBuffer())
+    const isText = contentType.startsWith('text/') || contentType.startsWith('application/json')
+    return {
+      success: true,
+      contentType,
+      encoding: isText ? 'utf-8' : 'base64',
+      content: buffer.toString(isText ? 'utf-8' : 'base64'),
+    }
+  } catch (error) {
+    console.error('Repo read file error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('api:transferOwnership', async (_, companyId: string, userId: string, confirm: string) => {
+  try {
+    const response = await fetch(`${getServerApiUrl()}/api/companies/${companyId}/transfer-ownership`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Cookie': authCookies.join('; '),
+      },
+      body: JSON.stringify({ userId, confirm }),
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to transfer ownership' }
+    }
+    return data
+  } catch (error) {
+    console.error('Transfer ownership error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('api:leaveCompany', async (_, companyId: string) => {
+  try {
+    const response = await fetch(`${getServerApiUrl()}/api/companies/${companyId}/leave`, {
+      method: 'POST',
+      headers: {
+        'Cookie': authCookies.join('; '),
+      },
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to leave company' }
+    }
+    return data
+  } catch (error) {
+    console.error('Leave company error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
 ipcMain.handle('api:getDepartments', async (_, companyId: string) => {
   try {
     const response = await fetch(`${getServerApiUrl()}/api/companies/${companyId}/departments`, {
@@ -1459,6 +1826,26 @@ ipcMain.handle('api:getDepartments', async (_, companyId: string) => {
   }
 })
 
+// Skill usage this month, per skill (paths relative to the company root)
+ipcMain.handle('api:getSkillUsage', async (_, companyId: string) => {
+  try {
+    const response = await fetch(`${getServerApiUrl()}/api/companies/${companyId}/skills/usage`, {
+      headers: {
+        'Cookie': authCookies.join('; '),
+      },
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      return { success: false, error: data.error || 'Failed to fetch skill usage' }
+    }
+    return data
+  } catch (error) {
+    console.error('Get skill usage error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
 // ============================================================================
 // Git HTTPS authentication via GIT_ASKPASS
 // ============================================================================
@@ -1558,14 +1945,21 @@ function getResolvedGit() {
 }
 
 // Create a simpleGit instance with HTTPS token authentication
-function createGit(repoPath: string): SimpleGit {
+function createGit(
+  repoPath: string,
+  options: {
+    abort?: AbortSignal // kills running git processes when aborted
+    onStderr?: (chunk: string) => void // e.g. --progress output
+  } = {}
+): SimpleGit {
   const { binary: gitBinary, envOverrides } = getResolvedGit()
   const askPassPath = getGitAskPassPath()
   const sessionToken = extractSessionToken(authCookies)
 
-  return simpleGit(repoPath, {
+  const git = simpleGit(repoPath, {
     binary: gitBinary,
     unsafe: { allowUnsafeCustomBinary: true },
+    ...(options.abort ? { abort: options.abort } : {}),
     // Kill any git process that produces no output for 5 minutes. Without
     // this, a git process waiting on input that will never come (there is no
     // terminal) hangs `await` forever and freezes sync with it. Network
@@ -1575,6 +1969,12 @@ function createGit(repoPath: string): SimpleGit {
       'core.hooksPath=/dev/null',
       'credential.helper=',
       'core.quotePath=false',
+      // Large files are handled by large-files.ts; a git-lfs installed on the
+      // machine must not filter them too
+      'filter.lfs.clean=',
+      'filter.lfs.smudge=',
+      'filter.lfs.process=',
+      'filter.lfs.required=false',
       // Old clients (e.g. Apple Git 2.39, still reachable via the system git
       // fallback) have a broken chunked HTTP push — it fails even against
       // github.com over HTTP/1.1. Buffer pushes up to 500MB so git never
@@ -1600,6 +2000,21 @@ function createGit(repoPath: string): SimpleGit {
       GIT_SEQUENCE_EDITOR: 'true',
       ...envOverrides,
     })
+
+  if (options.onStderr) {
+    const onStderr = options.onStderr
+    git.outputHandler((_command, _stdout, stderr) => {
+      stderr.on('data', (chunk: Buffer) => onStderr(chunk.toString()))
+    })
+  }
+  return git
+}
+
+// The large file store of a repo's origin, authenticated like git itself
+async function getLargeFileRemote(git: SimpleGit): Promise<LargeFileRemote | null> {
+  const remoteUrl = (await git.remote(['get-url', 'origin']).catch(() => ''))?.trim()
+  if (!remoteUrl || !remoteUrl.startsWith('http')) return null
+  return largeFileRemote(remoteUrl, extractSessionToken(authCookies))
 }
 
 // Report which git binary is in use (bundled dugite git vs system fallback),
@@ -1902,23 +2317,130 @@ ipcMain.handle('git:grep', async (_, repoPath: string, query: string, folderPath
 // Sync lock per repository to prevent concurrent syncs
 const syncLocks = new Map<string, Promise<unknown>>()
 
-ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commitMessage: string) => {
+// Running syncs that can be cancelled, by repository
+const syncCancellations = new Map<string, { controller: AbortController; onCancel: () => void }>()
+
+// Build a per-file result when the pre-receive hook rejected the push for
+// folders the user cannot write. The hook prints a [PERMISSION_DENIED] block
+// with one "  - <path>" line per file; git prefixes hook output with "remote: ".
+// Other blocks (e.g. SECRET_DETECTED) can appear in the same output, so only
+// lines inside the PERMISSION_DENIED block are collected.
+function permissionDeniedResult(errorMsg: string) {
+  if (!errorMsg.includes('PERMISSION_DENIED')) return null
+
+  const deniedFiles: string[] = []
+  let inBlock = false
+  let separators = 0
+  for (const rawLine of errorMsg.split('\n')) {
+    const line = rawLine.replace(/^remote:\s*/, '').trim()
+    if (line.includes('[PERMISSION_DENIED]')) {
+      inBlock = true
+      separators = 0
+      continue
+    }
+    if (!inBlock) continue
+    if (line.startsWith('====')) {
+      // First separator closes the heading, second one ends the block
+      if (++separators === 2) inBlock = false
+      continue
+    }
+    if (line.startsWith('- ')) deniedFiles.push(line.slice(2))
+  }
+
+  return {
+    success: false,
+    error: '書き込み権限のないフォルダへの変更が含まれているため、同期できませんでした。\n該当ファイルの変更を元に戻してから再度同期してください。',
+    errorType: 'permission_denied' as const,
+    permissionDenied: true,
+    deniedFiles
+  }
+}
+
+interface SyncOptions {
+  // Started by auto-sync: never asks the user anything. Syncs that need a
+  // decision (deleted files, nested repositories) stop before any change.
+  background?: boolean
+  // Commit only these changes (paths relative to the repo, as listed by
+  // git:preview). Other local changes stay uncommitted and are kept through
+  // the pull with an autostash.
+  paths?: string[]
+}
+
+// Unstage the staged changes that were not selected; they stay in the
+// working tree. A rename goes with its new path.
+async function unstageUnselected(git: SimpleGit, repoPath: string, isSelected: (file: string) => boolean): Promise<void> {
+  const fields = (await git.raw(['diff', '--cached', '--name-status', '-z', '-M'])).split('\0').filter(Boolean)
+  const unselected: string[] = []
+  for (let i = 0; i < fields.length;) {
+    const code = fields[i]
+    if (code.startsWith('R') || code.startsWith('C')) {
+      const [from, to] = [fields[i + 1], fields[i + 2]]
+      if (!isSelected(to)) unselected.push(to, ...(code.startsWith('R') ? [from] : []))
+      i += 3
+    } else {
+      if (!isSelected(fields[i + 1])) unselected.push(fields[i + 1])
+      i += 2
+    }
+  }
+  if (unselected.length === 0) return
+
+  // Through a file: the list can exceed the command line limit on Windows
+  const listPath = path.join(repoPath, '.git', 'acb-unselected-paths')
+  fs.writeFileSync(listPath, unselected.map(f => `:(literal)${f}`).join('\0'))
+  try {
+    await git.raw(['reset', '-q', '--pathspec-from-file', listPath, '--pathspec-file-nul'])
+  } finally {
+    fs.rmSync(listPath, { force: true })
+  }
+}
+
+const needsManualSync = (reason: string) => ({
+  success: false,
+  error: `${reason}のため自動同期を保留しました。内容を確認して手動で同期してください。`,
+  errorType: 'needs_confirmation' as const,
+})
+
+async function syncRepository(repoPath: string, companyId: string, commitMessage: string, options: SyncOptions = {}) {
   // Serialize syncs per repository. Register our run BEFORE waiting on the
   // previous one — the old code awaited first and registered later, so two
   // clicks queued behind the same sync woke together and ran concurrently
   // (WP-3.1).
-  const previous = syncLocks.get(repoPath)
+  const lockKey = path.resolve(repoPath)
+  const previous = syncLocks.get(lockKey)
 
   const syncPromise = (async () => {
   if (previous) {
     console.log('Git sync: Already syncing, waiting for previous sync to complete...')
     try { await previous } catch { /* previous sync errors belong to its caller */ }
   }
+  // Progress goes to the renderer. Cancelling only takes effect outside
+  // the rebase: network transfers (fetch, push) are killed, scans stop, and
+  // a rebase always runs to the end so it is never left half-applied.
+  const progress = createProgressReporter({ repoPath: lockKey, background: options.background === true }, (event: SyncProgress) => {
+    if (mainWindow && !mainWindow.isDestroyed()) mainWindow.webContents.send('git:syncProgress', event)
+  })
+  const cancellation = { controller: new AbortController(), onCancel: () => progress.cancelRequested() }
+  const cancelSignal = cancellation.controller.signal
+  syncCancellations.set(lockKey, cancellation)
+  const cancelledResult = (committed: boolean) => ({
+    success: false,
+    cancelled: true,
+    errorType: 'cancelled' as const,
+    error: committed
+      ? '同期をキャンセルしました。コミット済みの変更は次回の同期でアップロードされます。'
+      : '同期をキャンセルしました。'
+  })
+
   try {
-    const git: SimpleGit = createGit(repoPath)
+    progress.phase('prepare')
+    const git: SimpleGit = createGit(repoPath, { onStderr: progress.gitOutput })
+    // Transfers that a cancel may kill
+    const netGit: SimpleGit = createGit(repoPath, { abort: cancelSignal, onStderr: progress.gitOutput })
     const backupsDir = path.join(repoPath, '.backups')
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 23)
     const backupPath = path.join(backupsDir, timestamp)
+    const selectedPaths = options.paths ? new Set(options.paths) : null
+    const isSelected = (file: string) => !selectedPaths || selectedPaths.has(file)
 
     // Recover from stale rebase/merge state (e.g., app crashed mid-sync).
     // A rebase in progress is signalled by the rebase-merge / rebase-apply
@@ -1975,11 +2497,13 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
     const pendingPushFile = path.join(gitDir, 'PENDING_PUSH')
     if (fs.existsSync(pendingPushFile)) {
       console.log('Git sync: Found pending push, retrying...')
+      progress.phase('push')
       try {
-        await git.push('origin', 'main', ['--set-upstream', '--progress'])
+        await netGit.push('origin', 'main', ['--set-upstream', '--progress'])
         fs.unlinkSync(pendingPushFile)
         console.log('Git sync: Pending push succeeded')
       } catch (retryError) {
+        if (cancelSignal.aborted) return cancelledResult(true)
         console.warn('Git sync: Pending push retry failed, will try again later:', retryError)
         // Continue with normal sync flow — push will be attempted again at the end
       }
@@ -2064,17 +2588,19 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
       gitignoreContent = seed
     }
 
-    // Detect large files (>100MB) and add to .gitignore — async to avoid blocking UI
-    const LARGE_FILE_THRESHOLD = 100 * 1024 * 1024 // 100MB
-    const ignoredLargeFiles: string[] = []
+    // Detect large files (>100MB); they go to the large file store instead of
+    // git (see large-files.ts) — async to avoid blocking UI
+    const largeFiles: string[] = []
 
     async function scanForLargeFiles(dir: string, baseDir: string): Promise<void> {
       try {
         const items = await fs.promises.readdir(dir)
 
         for (const item of items) {
+          if (cancelSignal.aborted) return
           const fullPath = path.join(dir, item)
           const relativePath = path.relative(baseDir, fullPath)
+          progress.file(relativePath)
 
           // Skip directories that are always ignored
           if (item === '.git' || item === '.backups' || item === 'node_modules') continue
@@ -2086,7 +2612,7 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
             if (stat.isDirectory()) {
               await scanForLargeFiles(fullPath, baseDir)
             } else if (stat.isFile() && stat.size > LARGE_FILE_THRESHOLD) {
-              ignoredLargeFiles.push(relativePath)
+              largeFiles.push(relativePath.split(path.sep).join('/'))
             }
           } catch {
             // Skip files we can't access
@@ -2097,15 +2623,9 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
       }
     }
 
+    progress.phase('scan')
     await scanForLargeFiles(repoPath, repoPath)
-
-    // Add large files to .gitignore
-    if (ignoredLargeFiles.length > 0) {
-      const largeFilesSection = '\n# Auto-ignored: Large files (>100MB)\n' +
-        ignoredLargeFiles.map(f => f).join('\n') + '\n'
-      await fs.promises.appendFile(gitignorePath, largeFilesSection)
-      console.log(`Git sync: Ignored ${ignoredLargeFiles.length} large file(s):`, ignoredLargeFiles)
-    }
+    if (cancelSignal.aborted) return cancelledResult(false)
 
     // Detect nested Git repositories (e.g. user ran `git init` in a subfolder,
     // or copied in a cloned repo). Left alone, `git add` would record them as
@@ -2116,11 +2636,16 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
     // deleted" warning even though nothing was gone from disk.
     const newlyExcludedNestedRepos: string[] = []
     try {
-      const nestedRepos = await findNestedGitRepos(repoPath)
+      progress.phase('nested')
+      const nestedRepos = await findNestedGitRepos(repoPath, { onDirectory: progress.file, signal: cancelSignal })
+      if (cancelSignal.aborted) return cancelledResult(false)
       if (nestedRepos.length > 0) {
         const currentGitignore = fs.existsSync(gitignorePath) ? fs.readFileSync(gitignorePath, 'utf-8') : ''
         const existingPatterns = new Set(currentGitignore.split('\n').map(l => l.trim()))
         const newRepos = nestedRepos.filter(repo => !existingPatterns.has(`/${repo}/`))
+        if (options.background && newRepos.length > 0) {
+          return needsManualSync(`別のGitリポジトリ（${newRepos.join(', ')}）が見つかった`)
+        }
         const win = mainWindow && !mainWindow.isDestroyed() ? mainWindow : null
 
         for (const repo of newRepos) {
@@ -2200,12 +2725,57 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
 
     // 1. Fetch from origin
     console.log('Git sync: Fetching from origin...')
+    progress.phase('fetch')
     try {
-      await git.fetch(['--progress', 'origin'])
+      await netGit.fetch(['--progress', 'origin'])
     } catch (fetchError) {
+      if (cancelSignal.aborted) return cancelledResult(false)
       console.warn('Git sync: Fetch failed (may be offline):', fetchError)
     }
 
+    // 1.2. The server swaps the history a member sees when an admin turns
+    //      read isolation on or off (filtered per-user view vs. the full
+    //      company repo). Rebasing onto an unrelated history would re-push
+    //      every local file — including folders the member can no longer
+    //      read — so stop and ask for a fresh setup instead.
+    const localHead = (await git.raw(['rev-parse', '--verify', '--quiet', 'HEAD']).catch(() => '')).trim()
+    const remoteHead = (await git.raw(['rev-parse', '--verify', '--quiet', 'origin/main']).catch(() => '')).trim()
+    if (localHead && remoteHead) {
+      const mergeBase = (await git.raw(['merge-base', 'HEAD', 'origin/main']).catch(() => '')).trim()
+      if (!mergeBase) {
+        console.warn('Git sync: origin/main shares no history with HEAD (server history was replaced)')
+        return {
+          success: false,
+          errorType: 'history_replaced',
+          error: 'サーバー側で閲覧できるフォルダの設定が変更されたため、このフォルダはそのまま同期できません。\n変更したファイルを別の場所にバックアップしてから、会社フォルダのセットアップをやり直してください。'
+        }
+      }
+    }
+
+    // 1.3. Follow department folders an admin moved since the last sync:
+    //      rewrite local path references now, move leftovers after the pull.
+    //      Without a marker (first sync) there is nothing to catch up on.
+    let departmentMoves: DepartmentMoveInfo[] = []
+    if (companyId) {
+      const movesSince = readDepartmentMovesMarker(repoPath)
+      if (!movesSince) {
+        writeDepartmentMovesMarker(repoPath, new Date().toISOString())
+      } else {
+        try {
+          departmentMoves = await fetchDepartmentMoves(companyId, movesSince)
+          if (departmentMoves.length > 0) {
+            applyDepartmentMovesToLocalConfig(repoPath, departmentMoves)
+            // Files added locally below a moved folder follow the rename
+            // during the rebase instead of stopping it with a conflict
+            await git.addConfig('merge.directoryRenames', 'true', false, 'local')
+          }
+        } catch (movesError) {
+          console.warn('Git sync: Could not apply department moves:', movesError)
+          departmentMoves = []
+        }
+      }
+    }
+
     // 1.5. Reconcile sparse checkout to the user's persisted exclusions.
     //       The cone is always (all root dirs − excluded), so newly created
     //       folders appear automatically while excluded ones stay excluded
@@ -2234,14 +2804,38 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
 
     let restoredFolders: string[] = []
 
+    // Large files: upload new and changed ones and stage their pointers.
+    // Files that fail to upload stay out of this commit and are retried on
+    // the next sync.
+    progress.phase('upload')
+    const largeFileRemote = await getLargeFileRemote(git)
+    const { failed: unsyncedLargeFiles } = await storeLargeFiles({
+      git,
+      repoPath,
+      remote: largeFileRemote,
+      found: largeFiles,
+      include: isSelected,
+      onFile: file => progress.file(file),
+      signal: cancelSignal,
+    })
+    if (cancelSignal.aborted) return cancelledResult(false)
+    if (unsyncedLargeFiles.length > 0) {
+      console.warn(`Git sync: ${unsyncedLargeFiles.length} large file(s) not uploaded:`, unsyncedLargeFiles)
+    }
+
     // 2. Check for deleted files before staging. Deletions staged by the
     //    consented nested-repo exclusion above are intentional — keep them
     //    out of the warning dialog (and never "restore" them).
     const preAddStatus = await git.status()
     const deletedFiles = preAddStatus.deleted.filter(
-      f => !newlyExcludedNestedRepos.some(repo => f === repo || f.startsWith(`${repo}/`))
+      f => isSelected(f) && !newlyExcludedNestedRepos.some(repo => f === repo || f.startsWith(`${repo}/`))
     )
 
+    // Deleting files for every member is always the user's call
+    if (deletedFiles.length > 0 && options.background) {
+      return needsManualSync(`${deletedFiles.length}個のファイルが削除されている`)
+    }
+
     // If files were deleted locally, warn the user before syncing
     if (deletedFiles.length > 0 && mainWindow && !mainWindow.isDestroyed()) {
       const fileList = deletedFiles.length <= 10
@@ -2270,11 +2864,18 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
       }
     }
 
-    // Add all files and commit
-    await git.raw(['add', '--sparse', '.'])
+    // Last point to stop before anything is committed
+    if (cancelSignal.aborted) return cancelledResult(false)
+
+    // Add all files (or the selected ones) and commit
+    progress.phase('commit')
+    await git.raw(['add', '--sparse', '.', ...unsyncedLargeFiles.map(f => `:(exclude,literal)${f}`)])
+    if (selectedPaths) await unstageUnselected(git, repoPath, isSelected)
     const status = await git.status()
 
-    const hasLocalChanges = status.staged.length > 0 || status.files.length > 0
+    const hasLocalChanges = selectedPaths
+      ? (await git.raw(['diff', '--cached', '--name-only'])).trim() !== ''
+      : status.staged.length > 0 || status.files.length > 0
 
     if (hasLocalChanges) {
       // Use custom message if provided (not the default fallback), otherwise generate with AI
@@ -2289,9 +2890,12 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
     const localHash = (await git.revparse(['HEAD'])).trim()
     console.log(`Git sync: Local commit hash: ${localHash}`)
 
-    // 4. Pull with rebase
+    // 4. Pull with rebase (not cancellable — see above)
+    progress.phase('rebase', false)
     let hadConflicts = false
-    const conflictFiles: string[] = []
+    const conflictFiles: string[] = [] // backed up, server version taken
+    const mergedFiles: string[] = [] // merged line by line without conflicts
+    const pendingMerges: PendingMergeSummary[] = [] // overlapping hunks for the merge editor
 
     // Windows: another process (running skill tool, editor, AV scan) holding
     // a file makes rebase fail with a transient lock error that clears
@@ -2302,10 +2906,20 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
       return /permission denied|unable to unlink|unlink of file|unable to create .+\.lock|index\.lock|sharing violation|resource busy/i.test(msg)
     }
 
+    // git will not check out a new version of a large file over its content;
+    // put the pointers back first (hydrated again after the pull)
+    const incomingCommits = Number((await git.raw(['rev-list', '--count', 'HEAD..origin/main']).catch(() => '0')).trim())
+    if (incomingCommits > 0) {
+      await stashLargeFiles(git, repoPath).catch(e => console.warn('Git sync: Could not stash large files:', e))
+    }
+
+    // Unselected changes are stashed around the rebase and put back after it
+    const autostash = selectedPaths ? ['--autostash'] : []
+
     try {
       console.log('Git sync: Pulling with rebase...')
       try {
-        await git.pull('origin', 'main', ['--rebase', '--progress'])
+        await git.pull('origin', 'main', ['--rebase', '--progress', ...autostash])
       } catch (firstPullError) {
         if (!isWindowsLockError(firstPullError)) throw firstPullError
         const maxRetries = 2
@@ -2314,7 +2928,7 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
           await git.rebase(['--abort']).catch(() => { /* no rebase in progress */ })
           await new Promise((resolve) => setTimeout(resolve, 800))
           try {
-            await git.pull('origin', 'main', ['--rebase', '--progress'])
+            await git.pull('origin', 'main', ['--rebase', '--progress', ...autostash])
             break
           } catch (retryError) {
             if (attempt >= maxRetries || !isWindowsLockError(retryError)) throw retryError
@@ -2328,35 +2942,32 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
       } else {
         console.log('Git sync: Pull stopped mid-rebase, resolving conflicts...')
 
+        // Contents of a blob as a binary-safe Buffer (git.show returns a
+        // string, which corrupts binary files); null if it does not exist
+        const readBlob = (spec: string) => new Promise<Buffer | null>((resolve) => {
+          const { binary: gitBinary } = getResolvedGit()
+          const chunks: Buffer[] = []
+          const proc = require('child_process').spawn(gitBinary, ['cat-file', '-p', spec], {
+            cwd: repoPath,
+            stdio: ['ignore', 'pipe', 'ignore'],
+            ...(process.getuid ? { uid: process.getuid() } : {}),
+          })
+          proc.stdout.on('data', (chunk: Buffer) => chunks.push(chunk))
+          proc.on('close', (code: number) => resolve(code === 0 ? Buffer.concat(chunks) : null))
+          proc.on('error', () => resolve(null))
+        })
+
         // Back up the local version of the given files (extracted from
-        // localHash, binary-safe) into the timestamped backup folder.
+        // localHash) into the timestamped backup folder.
         const backupConflictFiles = async (files: string[]) => {
           fs.mkdirSync(backupPath, { recursive: true })
           for (const file of files) {
-            try {
-              const destPath = path.join(backupPath, file)
-              fs.mkdirSync(path.dirname(destPath), { recursive: true })
-              // Use git cat-file to extract as binary-safe Buffer
-              // (git.show returns string, which corrupts binary files)
-              const { binary: gitBinary } = getResolvedGit()
-              const content = await new Promise<Buffer>((resolve, reject) => {
-                const chunks: Buffer[] = []
-                const proc = require('child_process').spawn(gitBinary, ['cat-file', '-p', `${localHash}:${file}`], {
-                  cwd: repoPath,
-                  stdio: ['ignore', 'pipe', 'ignore'],
-                  ...(process.getuid ? { uid: process.getuid() } : {}),
-                })
-                proc.stdout.on('data', (chunk: Buffer) => chunks.push(chunk))
-                proc.on('close', (code: number) => {
-                  if (code === 0) resolve(Buffer.concat(chunks))
-                  else reject(new Error(`git cat-file exited with ${code}`))
-                })
-                proc.on('error', reject)
-              })
-              fs.writeFileSync(destPath, content)
-            } catch {
-              // File might not exist in localHash (e.g., new file on server side only)
-            }
+            // File might not exist in localHash (e.g., new file on server side only)
+            const content = await readBlob(`${localHash}:${file}`)
+            if (!content) continue
+            const destPath = path.join(backupPath, file)
+            fs.mkdirSync(path.dirname(destPath), { recursive: true })
+            fs.writeFileSync(destPath, content)
           }
           // Cumulative metadata — overwritten each round with the full list
           fs.writeFileSync(
@@ -2370,9 +2981,48 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
           )
         }
 
+        // Merge text files line by line (stage 1 = base, 2 = server / --ours
+        // during a rebase, 3 = local). Returns the files that could not be
+        // merged: binaries, large file pointers, delete/modify conflicts, and
+        // files that already went to the merge editor in an earlier round of
+        // this sync.
+        const mergeConflictedFiles = async (files: string[]): Promise<string[]> => {
+          const unmerged: string[] = []
+          for (const file of files) {
+            const [base, server, local] = await Promise.all([1, 2, 3].map(stage => readBlob(`:${stage}:${file}`)))
+            if (
+              !server || !local ||
+              parsePointer(server) || parsePointer(local) ||
+              pendingMerges.some(merge => merge.path === file) ||
+              ![base, server, local].every(content => !content || isMergeableText(content))
+            ) {
+              unmerged.push(file)
+              continue
+            }
+
+            // Without a base (added on both sides) every line is a change
+            const chunks = mergeLines(
+              splitLines(base?.toString('utf8') ?? ''),
+              splitLines(server.toString('utf8')),
+              splitLines(local.toString('utf8'))
+            )
+            // Conflicting hunks keep the server lines until they are resolved
+            const written = serverSideText(chunks)
+            fs.writeFileSync(path.join(repoPath, file), written)
+            await git.add([file])
+            if (countConflicts(chunks) === 0) {
+              if (!mergedFiles.includes(file)) mergedFiles.push(file)
+            } else {
+              pendingMerges.push(savePendingMerge(repoPath, { path: file, chunks, written, local: local.toString('utf8') }))
+            }
+          }
+          return unmerged
+        }
+
         // A rebase replays commits one by one and pauses on every pick that
-        // conflicts, so resolution has to be a loop: back up local, take the
-        // server version, continue — until the rebase finishes. The old code
+        // conflicts, so resolution has to be a loop: merge, back up local and
+        // take the server version of what cannot be merged, continue — until
+        // the rebase finishes. The old code
         // handled a single round and then fell back to `rebase --skip`,
         // which silently dropped a commit whenever a second pick conflicted.
         const MAX_ROUNDS = 200 // hard stop against a livelock
@@ -2391,15 +3041,19 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
           if (statusNow.conflicted.length > 0) {
             hadConflicts = true
             console.log(`Git sync: Conflict detected in ${statusNow.conflicted.length} files (round ${round})`)
-            const newConflicts = statusNow.conflicted.filter(f => !conflictFiles.includes(f))
-            conflictFiles.push(...newConflicts)
-
-            // a. Backup local versions, b. take the server version
-            // (--ours = upstream during a rebase), c. mark resolved
-            await backupConflictFiles(newConflicts)
-            console.log('Git sync: Resolving conflicts with server version...')
-            await git.checkout(['--ours', '--', ...statusNow.conflicted])
-            await git.add(statusNow.conflicted)
+            const unmerged = await mergeConflictedFiles(statusNow.conflicted)
+
+            if (unmerged.length > 0) {
+              const newConflicts = unmerged.filter(f => !conflictFiles.includes(f))
+              conflictFiles.push(...newConflicts)
+
+              // a. Backup local versions, b. take the server version
+              // (--ours = upstream during a rebase), c. mark resolved
+              await backupConflictFiles(newConflicts)
+              console.log('Git sync: Resolving unmergeable conflicts with server version...')
+              await git.checkout(['--ours', '--', ...unmerged])
+              await git.add(unmerged)
+            }
           }
 
           try {
@@ -2432,6 +3086,29 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
       }
     }
 
+    // Putting the unselected changes back can conflict with what was pulled.
+    // As with committed changes the server version wins: the local version is
+    // backed up and the autostash dropped (the rest of it is already applied).
+    if (selectedPaths && !rebaseInProgress()) {
+      const stashConflicts = (await git.status()).conflicted
+      if (stashConflicts.length > 0) {
+        hadConflicts = true
+        console.log(`Git sync: Unselected changes conflict with the server in ${stashConflicts.length} files`)
+        for (const file of stashConflicts) {
+          const destPath = path.join(backupPath, file)
+          fs.mkdirSync(path.dirname(destPath), { recursive: true })
+          await git.checkout(['--theirs', '--', file]).then(
+            () => fs.copyFileSync(path.join(repoPath, file), destPath),
+            () => { /* deleted locally */ }
+          )
+          await git.checkout(['--ours', '--', file]).catch(() => fs.rmSync(path.join(repoPath, file), { force: true }))
+          if (!conflictFiles.includes(file)) conflictFiles.push(file)
+        }
+        await git.raw(['reset', '-q', '--', ...stashConflicts.map(f => `:(literal)${f}`)])
+        await git.raw(['stash', 'drop']).catch(() => { /* already applied */ })
+      }
+    }
+
     // 4.5. Protect department folders (restore if deleted locally)
     //       Runs AFTER pull so that renames from the server are already applied.
     if (companyId) {
@@ -2482,7 +3159,7 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
 
           // If any folders were restored, stage and commit them
           if (restoredFolders.length > 0) {
-            await git.raw(['add', '--sparse', '.'])
+            await git.raw(['add', '--sparse', '--', ...restoredFolders.map(f => `:(literal)${f}`)])
             const restoreStatus = await git.status()
             if (restoreStatus.staged.length > 0) {
               await git.commit(`Restore department folders: ${restoredFolders.join(', ')}`)
@@ -2494,28 +3171,65 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
       }
     }
 
+    // 4.6. Carry local-only files of moved department folders over
+    if (departmentMoves.length > 0) {
+      try {
+        const trackedRootFolders = (await git.raw(['ls-tree', '-d', '-z', '--name-only', 'HEAD'])).split('\0').filter(Boolean)
+        relocateMovedFolderContents(repoPath, departmentMoves, trackedRootFolders)
+        writeDepartmentMovesMarker(repoPath, departmentMoves[departmentMoves.length - 1].createdAt)
+      } catch (relocateError) {
+        console.warn('Git sync: Could not move local files of moved departments:', relocateError)
+      }
+    }
+
+    // 4.7. Put the content of large files in place of their pointers:
+    //      files set aside before the pull, else downloaded
+    progress.phase('download')
+    const notDownloaded = await hydrateLargeFiles({
+      git,
+      repoPath,
+      remote: largeFileRemote,
+      onFile: file => progress.file(file),
+      signal: cancelSignal,
+    }).catch(hydrateError => {
+      console.warn('Git sync: Could not download large files:', hydrateError)
+      return [] as string[]
+    })
+    unsyncedLargeFiles.push(...notDownloaded)
+
     // 5. Push (only if we have local changes to push)
     if (!hasLocalChanges && !hadConflicts) {
       // No local changes and no conflicts — just pulled remote changes
       let successMessage = restoredFolders.length > 0
         ? `部署フォルダを復元しました: ${restoredFolders.join(', ')}`
         : '同期が完了しました'
-      if (ignoredLargeFiles.length > 0) {
-        successMessage += `（${ignoredLargeFiles.length}個の大容量ファイルを同期対象外にしました）`
+      if (unsyncedLargeFiles.length > 0) {
+        successMessage += `（${unsyncedLargeFiles.length}個の大容量ファイルを同期できませんでした。次回の同期で再試行します）`
       }
       return {
         success: true,
         message: successMessage,
         restoredFolders,
-        ignoredLargeFiles,
+        unsyncedLargeFiles,
         excludedNestedRepos: newlyExcludedNestedRepos
       }
     }
 
+    // Cancelled during the rebase: keep the commits for the next sync
+    if (cancelSignal.aborted) {
+      fs.writeFileSync(pendingPushFile, new Date().toISOString())
+      return cancelledResult(true)
+    }
+
     try {
       console.log('Git sync: Pushing to origin...')
-      await git.push('origin', 'main', ['--set-upstream', '--progress'])
+      progress.phase('push')
+      await netGit.push('origin', 'main', ['--set-upstream', '--progress'])
     } catch (pushError) {
+      if (cancelSignal.aborted) {
+        fs.writeFileSync(pendingPushFile, new Date().toISOString())
+        return cancelledResult(true)
+      }
       // Check if push was rejected due to secret detection
       const pushErrorMsg = pushError instanceof Error ? pushError.message : String(pushError)
       if (pushErrorMsg.includes('SECRET_DETECTED')) {
@@ -2534,12 +3248,18 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
           secretDetected: true
         }
       }
+      const deniedResult = permissionDeniedResult(pushErrorMsg)
+      if (deniedResult) return deniedResult
 
       console.error('Git sync: Push to main failed:', pushErrorMsg)
       // Try master branch if main fails
       try {
-        await git.push('origin', 'master', ['--set-upstream', '--progress'])
+        await netGit.push('origin', 'master', ['--set-upstream', '--progress'])
       } catch (masterPushError) {
+        if (cancelSignal.aborted) {
+          fs.writeFileSync(pendingPushFile, new Date().toISOString())
+          return cancelledResult(true)
+        }
         // Check secret detection on master push too
         const masterErrorMsg = masterPushError instanceof Error ? masterPushError.message : String(masterPushError)
         if (masterErrorMsg.includes('SECRET_DETECTED')) {
@@ -2556,9 +3276,10 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
             secretDetected: true
           }
         }
+        const masterDeniedResult = permissionDeniedResult(masterErrorMsg)
+        if (masterDeniedResult) return masterDeniedResult
         console.error('Git sync: Push to master also failed:', masterErrorMsg)
         // Record pending push for retry on next sync
-        const pendingPushFile = path.join(repoPath, '.git', 'PENDING_PUSH')
         fs.writeFileSync(pendingPushFile, new Date().toISOString())
         return {
           success: false,
@@ -2567,9 +3288,11 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
           pushFailed: true,
           hadConflicts,
           conflictFiles,
-          backupPath: hadConflicts ? backupPath : undefined,
+          mergedFiles,
+          pendingMerges,
+          backupPath: conflictFiles.length > 0 ? backupPath : undefined,
           restoredFolders,
-          ignoredLargeFiles,
+          unsyncedLargeFiles,
           excludedNestedRepos: newlyExcludedNestedRepos
         }
       }
@@ -2582,28 +3305,40 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
 
     // Success
     if (hadConflicts) {
+      const notes: string[] = []
+      if (mergedFiles.length > 0) {
+        notes.push(`${mergedFiles.length}ファイルの変更をサーバーの変更と自動でマージしました`)
+      }
+      if (pendingMerges.length > 0) {
+        notes.push(`${pendingMerges.length}ファイルで同じ箇所が変更されています。マージエディタで解決してください`)
+      }
+      if (conflictFiles.length > 0) {
+        notes.push(`${conflictFiles.length}ファイルが競合したためサーバー版で上書きしました`)
+      }
       return {
         success: true,
-        message: `同期完了。${conflictFiles.length}ファイルが競合したためサーバー版で上書きしました。その他の変更は正常に反映されました。`,
+        message: `同期完了。${notes.join('。')}。その他の変更は正常に反映されました。`,
         hadConflicts: true,
         conflictFiles,
-        backupPath,
+        mergedFiles,
+        pendingMerges,
+        backupPath: conflictFiles.length > 0 ? backupPath : undefined,
         restoredFolders,
-        ignoredLargeFiles,
+        unsyncedLargeFiles,
         excludedNestedRepos: newlyExcludedNestedRepos
       }
     }
 
     let successMessage = '同期が完了しました'
-    if (ignoredLargeFiles.length > 0) {
-      successMessage += `（${ignoredLargeFiles.length}個の大容量ファイルを同期対象外にしました）`
+    if (unsyncedLargeFiles.length > 0) {
+      successMessage += `（${unsyncedLargeFiles.length}個の大容量ファイルを同期できませんでした。次回の同期で再試行します）`
     }
 
     return {
       success: true,
       message: successMessage,
       restoredFolders,
-      ignoredLargeFiles,
+      unsyncedLargeFiles,
       excludedNestedRepos: newlyExcludedNestedRepos
     }
   } catch (error) {
@@ -2621,19 +3356,123 @@ ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commit
       errorType = 'locked'
     }
     return { success: false, error: errorMsg, errorType }
+  } finally {
+    // Large files set aside for a pull that did not get to hydration
+    await hydrateLargeFiles({ git: createGit(repoPath), repoPath, remote: null })
+      .catch(e => console.warn('Git sync: Could not restore large files:', e))
+    progress.dispose()
+    if (syncCancellations.get(lockKey) === cancellation) syncCancellations.delete(lockKey)
   }
   })()
 
-  syncLocks.set(repoPath, syncPromise)
+  syncLocks.set(lockKey, syncPromise)
   try {
     return await syncPromise
   } finally {
-    if (syncLocks.get(repoPath) === syncPromise) {
-      syncLocks.delete(repoPath)
+    if (syncLocks.get(lockKey) === syncPromise) {
+      syncLocks.delete(lockKey)
     }
   }
+}
+
+ipcMain.handle('git:sync', async (_, repoPath: string, companyId: string, commitMessage: string, paths?: string[]) => {
+  const result = await syncRepository(repoPath, companyId, commitMessage, {
+    paths: Array.isArray(paths) ? paths.filter(p => typeof p === 'string') : undefined,
+  })
+  if (result.success) autoSync.recordResult(result)
+  return result
+})
+
+ipcMain.handle('git:cancelSync', (_, repoPath: string) => {
+  const cancellation = syncCancellations.get(path.resolve(repoPath))
+  if (!cancellation) return { success: false, error: '実行中の同期がありません' }
+  if (!cancellation.controller.signal.aborted) {
+    console.log('Git sync: Cancel requested')
+    cancellation.controller.abort()
+    cancellation.onCancel()
+  }
+  return { success: true }
+})
+
+const autoSync = createAutoSync({
+  getSettings: () => normalizeAutoSyncSettings(loadConfig().autoSync),
+  isSyncing: (repoPath) => syncLocks.has(path.resolve(repoPath)),
+  runSync: async (repoPath, companyId) => {
+    console.log('Auto-sync: Syncing in the background...')
+    const result = await syncRepository(repoPath, companyId, 'Sync from AI Company Builder', { background: true })
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('autoSync:synced', result)
+    }
+    return result
+  },
+  onStatus: (status) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('autoSync:status', status)
+    }
+  },
+})
+
+ipcMain.handle('config:getAutoSync', () => {
+  return normalizeAutoSyncSettings(loadConfig().autoSync)
 })
 
+ipcMain.handle('config:setAutoSync', (_, settings: Partial<AutoSyncSettings>) => {
+  const config = loadConfig()
+  config.autoSync = normalizeAutoSyncSettings({ ...normalizeAutoSyncSettings(config.autoSync), ...settings })
+  saveConfig(config)
+  autoSync.reschedule()
+  return config.autoSync
+})
+
+ipcMain.handle('autoSync:getStatus', () => autoSync.getStatus())
+
+// The company checkout the window has open (null when none)
+ipcMain.handle('autoSync:setTarget', (_, repoPath: string | null, companyId: string | null) => {
+  autoSync.setTarget(repoPath ? validatePath(repoPath) : null, companyId)
+  return autoSync.getStatus()
+})
+
+ipcMain.handle('autoSync:setEditorDirty', (_, dirty: boolean) => {
+  autoSync.setEditorDirty(dirty === true)
+})
+
+// Top-level folders of departments the user is not assigned to. Empty when
+// the user has no assignment, so they keep a full checkout.
+async function getUnassignedDepartmentFolders(companyId: string, userId: string): Promise<string[]> {
+  const response = await fetch(`${getServerApiUrl()}/api/companies/${companyId}/departments`, {
+    headers: authCookies.length > 0 ? { 'Cookie': authCookies.join('; ') } : {},
+  })
+  if (!response.ok) return []
+  const result = await response.json() as {
+    data?: Array<{ folder: string; members?: Array<{ userId: string }> }>
+  }
+  const departments = result.data ?? []
+  const rootFolder = (folder: string) => folder.split('/')[0]
+
+  const assigned = new Set(departments
+    .filter(d => d.members?.some(m => m.userId === userId))
+    .map(d => rootFolder(d.folder)))
+  if (assigned.size === 0) return []
+
+  return [...new Set(departments.map(d => rootFolder(d.folder)))].filter(folder => !assigned.has(folder))
+}
+
+// Root folders outside the first-checkout folders named by the invitation the
+// user joined with. Empty when the invitation named none. Dotfolders are
+// never excluded (see listAllRootDirs).
+async function getInvitationExcludedFolders(git: SimpleGit, companyId: string): Promise<string[]> {
+  const response = await fetch(`${getServerApiUrl()}/api/companies/${companyId}`, {
+    headers: authCookies.length > 0 ? { 'Cookie': authCookies.join('; ') } : {},
+  })
+  if (!response.ok) return []
+  const result = await response.json() as { data?: { checkoutFolders?: string[] } }
+  const wanted = new Set(result.data?.checkoutFolders ?? [])
+  if (wanted.size === 0) return []
+
+  const allDirs = await listAllRootDirs(git)
+  return allDirs.filter(folder => !folder.startsWith('.') && !wanted.has(folder))
+}
+
 // Setup Git remote for a company
 ipcMain.handle('git:setupCompanyRemote', async (_, repoPath: string, companyId: string, selectedPaths?: string[]) => {
   try {
@@ -2659,6 +3498,7 @@ ipcMain.handle('git:setupCompanyRemote', async (_, repoPath: string, companyId:
     }
 
     // Configure git user from authenticated session (local to this repo)
+    let userId: string | null = null
     try {
       const meResponse = await fetch(`${getServerApiUrl()}/api/me`, {
         headers: authCookies.length > 0 ? { 'Cookie': authCookies.join('; ') } : {},
@@ -2666,6 +3506,7 @@ ipcMain.handle('git:setupCompanyRemote', async (_, repoPath: string, companyId:
       if (meResponse.ok) {
         const meData = await meResponse.json()
         if (meData.success && meData.data) {
+          userId = meData.data.id
           await git.addConfig('user.email', meData.data.email, false)
           await git.addConfig('user.name', meData.data.name || meData.data.email, false)
           console.log(`Git setup: Configured user as ${meData.data.email}`)
@@ -2714,10 +3555,13 @@ ipcMain.handle('git:setupCompanyRemote', async (_, repoPath: string, companyId:
 
       // Check if we have local commits
       const localLog = await git.log().catch(() => null)
-      if (!localLog || localLog.total === 0) {
+      const isFirstCheckout = !localLog || localLog.total === 0
+      if (isFirstCheckout) {
         // No local commits — checkout the remote branch
         await git.checkout(['-b', remoteBranch, `origin/${remoteBranch}`])
         console.log(`Git setup: Checked out origin/${remoteBranch}`)
+        // The checkout already has every department move made so far
+        writeDepartmentMovesMarker(repoPath, new Date().toISOString())
       } else {
         // Local commits exist — set up tracking and pull
         const status = await git.status()
@@ -2744,6 +3588,33 @@ ipcMain.handle('git:setupCompanyRemote', async (_, repoPath: string, companyId:
         } catch (sparseError) {
           console.warn('Git setup: Sparse checkout failed, keeping full checkout:', sparseError)
         }
+      } else if (isFirstCheckout && userId && !fs.existsSync(sparseConfigPath(repoPath))) {
+        // Nothing selected: default to the folders named by the invitation,
+        // else to the departments the user is assigned to (stored as the usual
+        // exclusion list, so it can be changed later)
+        try {
+          let excluded = await getInvitationExcludedFolders(git, companyId)
+          if (excluded.length === 0) {
+            excluded = await getUnassignedDepartmentFolders(companyId, userId)
+          }
+          if (excluded.length > 0) {
+            await applySparseSelection(git, repoPath, excluded)
+            console.log(`Git setup: Sparse checkout excludes: ${excluded.join(', ')}`)
+          }
+        } catch (sparseError) {
+          console.warn('Git setup: Default sparse checkout failed, keeping full checkout:', sparseError)
+        }
+      }
+
+      // Download large files (the checkout has their pointers); the next sync
+      // retries any that fail
+      const notDownloaded = await hydrateLargeFiles({ git, repoPath, remote: await getLargeFileRemote(git) })
+        .catch(hydrateError => {
+          console.warn('Git setup: Could not download large files:', hydrateError)
+          return [] as string[]
+        })
+      if (notDownloaded.length > 0) {
+        console.warn(`Git setup: ${notDownloaded.length} large file(s) not downloaded:`, notDownloaded)
       }
 
       return {
@@ -2831,6 +3702,119 @@ function writeSparseConfig(repoPath: string, cfg: SparseConfig): void {
   fs.writeFileSync(p, JSON.stringify(cfg, null, 2))
 }
 
+// ---- Department folder moves ----
+//
+// When an admin moves a department, the server renames the folder in the
+// repo and logs the move (GET /departments/moves). The pull carries tracked
+// files over; what only exists on this machine — sparse exclusions, private
+// skill lines in .gitignore and ignored files left in the old folder — is
+// rewritten here. The marker in .git/ holds the time of the last move applied.
+
+interface DepartmentMoveInfo {
+  fromPath: string
+  toPath: string
+  createdAt: string
+}
+
+function departmentMovesMarkerPath(repoPath: string): string {
+  return path.join(repoPath, '.git', 'acb-department-moves.json')
+}
+
+function readDepartmentMovesMarker(repoPath: string): string | null {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(departmentMovesMarkerPath(repoPath), 'utf-8'))
+    return typeof parsed.since === 'string' ? parsed.since : null
+  } catch {
+    return null
+  }
+}
+
+function writeDepartmentMovesMarker(repoPath: string, since: string): void {
+  const p = departmentMovesMarkerPath(repoPath)
+  fs.mkdirSync(path.dirname(p), { recursive: true })
+  fs.writeFileSync(p, JSON.stringify({ since }, null, 2))
+}
+
+async function fetchDepartmentMoves(companyId: string, since: string): Promise<DepartmentMoveInfo[]> {
+  const response = await fetch(
+    `${getServerApiUrl()}/api/companies/${companyId}/departments/moves?since=${encodeURIComponent(since)}`,
+    { headers: authCookies.length > 0 ? { 'Cookie': authCookies.join('; ') } : {} }
+  )
+  if (!response.ok) throw new Error(`Failed to fetch department moves (${response.status})`)
+  const result = await response.json()
+  return (Array.isArray(result.data) ? result.data : []).filter((move: DepartmentMoveInfo) =>
+    [move.fromPath, move.toPath].every(folder =>
+      typeof folder === 'string' && folder !== '' && !folder.includes('..') && !folder.includes('/') && !path.isAbsolute(folder)))
+}
+
+// `relPath` rewritten from below `from` to below `to`; null if outside `from`
+function movedRelativePath(relPath: string, from: string, to: string): string | null {
+  if (relPath === from) return to
+  if (relPath.startsWith(`${from}/`)) return `${to}${relPath.slice(from.length)}`
+  return null
+}
+
+// Rewrite sparse exclusions and root .gitignore entries (private skills,
+// e.g. "営業部/.claude/skills/foo") that point below a moved folder
+function applyDepartmentMovesToLocalConfig(repoPath: string, moves: DepartmentMoveInfo[]): void {
+  const sparseConfig = readSparseConfig(repoPath)
+  let excluded = sparseConfig.excluded
+  for (const move of moves) {
+    excluded = excluded.map(folder => movedRelativePath(folder, move.fromPath, move.toPath) ?? folder)
+  }
+  if (excluded.some((folder, i) => folder !== sparseConfig.excluded[i])) {
+    writeSparseConfig(repoPath, { excluded: [...new Set(excluded)] })
+  }
+
+  const gitignorePath = path.join(repoPath, '.gitignore')
+  if (!fs.existsSync(gitignorePath)) return
+  const content = fs.readFileSync(gitignorePath, 'utf-8')
+  const lines = content.split('\n').map((line) => {
+    const match = line.match(/^(!?\/?)(.+)$/)
+    if (!match || line.startsWith('#')) return line
+    let entry = match[2]
+    for (const move of moves) {
+      entry = movedRelativePath(entry, move.fromPath, move.toPath) ?? entry
+    }
+    return `${match[1]}${entry}`
+  })
+  const updated = lines.join('\n')
+  if (updated !== content) {
+    fs.writeFileSync(gitignorePath, updated)
+    invalidateGitignoreCache(repoPath)
+    invalidateSkillsCache(repoPath)
+  }
+}
+
+// After the pull, move files the rename left behind (ignored or untracked)
+// into the new folder. Files that already exist there are kept in place.
+function relocateMovedFolderContents(repoPath: string, moves: DepartmentMoveInfo[], trackedRootFolders: string[]): void {
+  const relocate = (fromDir: string, toDir: string): void => {
+    for (const entry of fs.readdirSync(fromDir, { withFileTypes: true })) {
+      const source = path.join(fromDir, entry.name)
+      const target = path.join(toDir, entry.name)
+      if (entry.isDirectory()) {
+        relocate(source, target)
+        if (fs.readdirSync(source).length === 0) fs.rmdirSync(source)
+      } else if (!fs.existsSync(target)) {
+        fs.mkdirSync(toDir, { recursive: true })
+        fs.renameSync(source, target)
+      }
+    }
+  }
+
+  for (const move of moves) {
+    // The old name may belong to another department again by now
+    if (trackedRootFolders.includes(move.fromPath)) continue
+    const fromDir = path.join(repoPath, move.fromPath)
+    if (!fs.existsSync(fromDir)) continue
+    relocate(fromDir, path.join(repoPath, move.toPath))
+    if (fs.readdirSync(fromDir).length === 0) fs.rmdirSync(fromDir)
+    console.log(`Git sync: Moved local files from ${move.fromPath} to ${move.toPath}`)
+  }
+  invalidateSkillsCache(repoPath)
+}
+
 // List ALL root-level directories in the tree, INCLUDING dotfolders. Cone-mode
 // `sparse-checkout set` removes every top-level directory not in its argument
 // list, so the cone MUST include dotfolders like .claude (skills!), .agents,
@@ -2990,6 +3974,96 @@ ipcMain.handle('git:listRemoteDirectories', async (_, repoPath: string) => {
   }
 })
 
+// Merges with overlapping hunks left by git:sync, oldest first
+ipcMain.handle('git:listPendingMerges', async (_, repoPath: string) => {
+  try {
+    return { success: true, merges: listPendingMerges(validatePath(repoPath)) }
+  } catch (error) {
+    console.error('List pending merges error:', error)
+    return { success: false, merges: [], error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('git:getPendingMerge', async (_, repoPath: string, mergeId: string) => {
+  try {
+    const merge = readPendingMerge(validatePath(repoPath), mergeId)
+    if (!merge) {
+      return { success: false, error: 'マージが見つかりません' }
+    }
+    return { success: true, merge }
+  } catch (error) {
+    console.error('Get pending merge error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+// Write the merge editor's result to the file. The next sync uploads it
+// like any other local change.
+ipcMain.handle('git:resolvePendingMerge', async (_, repoPath: string, mergeId: string, content: string) => {
+  try {
+    const safeRepoPath = validatePath(repoPath)
+    const merge = readPendingMerge(safeRepoPath, mergeId)
+    if (!merge) {
+      return { success: false, error: 'マージが見つかりません' }
+    }
+    const filePath = path.resolve(safeRepoPath, merge.path)
+    if (!filePath.startsWith(safeRepoPath + path.sep)) {
+      return { success: false, error: 'Invalid file path' }
+    }
+
+    // Never overwrite edits made after the sync (including a later sync)
+    const current = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null
+    if (current !== merge.written) {
+      return {
+        success: false,
+        error: '同期後にファイルが変更されたため保存できません。変更内容を確認し、このマージは破棄してください。'
+      }
+    }
+
+    fs.writeFileSync(filePath, content)
+    removePendingMerge(safeRepoPath, mergeId)
+    return { success: true }
+  } catch (error) {
+    console.error('Resolve pending merge error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+// Keep the file as it is; the local version goes to a backup instead
+ipcMain.handle('git:discardPendingMerge', async (_, repoPath: string, mergeId: string) => {
+  try {
+    const safeRepoPath = validatePath(repoPath)
+    const merge = readPendingMerge(safeRepoPath, mergeId)
+    if (!merge) {
+      return { success: false, error: 'マージが見つかりません' }
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 23)
+    const backupPath = path.join(safeRepoPath, '.backups', timestamp)
+    const destPath = path.resolve(backupPath, merge.path)
+    if (!destPath.startsWith(backupPath + path.sep)) {
+      return { success: false, error: 'Invalid file path' }
+    }
+    fs.mkdirSync(path.dirname(destPath), { recursive: true })
+    fs.writeFileSync(destPath, merge.local)
+    fs.writeFileSync(
+      path.join(backupPath, '_metadata.json'),
+      JSON.stringify({
+        timestamp: new Date().toISOString(),
+        reason: 'conflict',
+        conflictFiles: [merge.path],
+        message: 'Discarded merge'
+      }, null, 2)
+    )
+
+    removePendingMerge(safeRepoPath, mergeId)
+    return { success: true, backupPath }
+  } catch (error) {
+    console.error('Discard pending merge error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
 // Get backup history
 ipcMain.handle('backup:list', async (_, repoPath: string) => {
   try {
@@ -3140,6 +4214,8 @@ ipcMain.handle('git:pushToServer', async (_, repoPath: string) => {
         secretDetected: true
       }
     }
+    const deniedResult = permissionDeniedResult(errorMsg)
+    if (deniedResult) return deniedResult
     return { success: false, error: errorMsg }
   }
 })
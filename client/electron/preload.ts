@@ -24,17 +24,37 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('auth:signUp', email, password, name),
   signIn: (email: string, password: string) =>
     ipcRenderer.invoke('auth:signIn', email, password),
+  getSsoProviders: () => ipcRenderer.invoke('auth:getSsoProviders'),
+  signInWithSso: (providerId: string) => ipcRenderer.invoke('auth:signInWithSso', providerId),
   signOut: () => ipcRenderer.invoke('auth:signOut'),
   getSession: () => ipcRenderer.invoke('auth:getSession'),
 
+  // Profile API
+  updateProfile: (updates: { name?: string; image?: string | null }) =>
+    ipcRenderer.invoke('api:updateProfile', updates),
+  changePassword: (currentPassword: string, newPassword: string, revokeOtherSessions: boolean) =>
+    ipcRenderer.invoke('api:changePassword', currentPassword, newPassword, revokeOtherSessions),
+  changeEmail: (newEmail: string) => ipcRenderer.invoke('api:changeEmail', newEmail),
+
   // Companies API
   getCompanies: () => ipcRenderer.invoke('api:getCompanies'),
   createCompany: (name: string) => ipcRenderer.invoke('api:createCompany', name),
   getCompany: (companyId: string) => ipcRenderer.invoke('api:getCompany', companyId),
+  getCompanyMembers: (companyId: string) => ipcRenderer.invoke('api:getCompanyMembers', companyId),
+  transferOwnership: (companyId: string, userId: string, confirm: string) =>
+    ipcRenderer.invoke('api:transferOwnership', companyId, userId, confirm),
+  repoTree: (companyId: string, folderPath: string, ref?: string) =>
+    ipcRenderer.invoke('api:repoTree', companyId, folderPath, ref),
+  repoReadFile: (companyId: string, filePath: string, ref?: string) =>
+    ipcRenderer.invoke('api:repoReadFile', companyId, filePath, ref),
+  leaveCompany: (companyId: string) => ipcRenderer.invoke('api:leaveCompany', companyId),
 
   // Departments API
   getDepartments: (companyId: string) => ipcRenderer.invoke('api:getDepartments', companyId),
 
+  // Skill usage analytics
+  getSkillUsage: (companyId: string) => ipcRenderer.invoke('api:getSkillUsage', companyId),
+
   // File system operations
   selectDirectory: () => ipcRenderer.invoke('dialog:selectDirectory'),
   registerAllowedRoot: (path: string) => ipcRenderer.invoke('fs:registerAllowedRoot', path),
@@ -74,8 +94,14 @@ contextBridge.exposeInMainWorld('electronAPI', {
   gitIsRepo: (repoPath: string) => ipcRenderer.invoke('git:isRepo', repoPath),
   gitAddRemote: (repoPath: string, remoteName: string, remoteUrl: string) =>
     ipcRenderer.invoke('git:addRemote', repoPath, remoteName, remoteUrl),
-  gitSync: (repoPath: string, companyId: string, commitMessage: string) =>
-    ipcRenderer.invoke('git:sync', repoPath, companyId, commitMessage),
+  gitSync: (repoPath: string, companyId: string, commitMessage: string, paths?: string[]) =>
+    ipcRenderer.invoke('git:sync', repoPath, companyId, commitMessage, paths),
+  gitCancelSync: (repoPath: string) => ipcRenderer.invoke('git:cancelSync', repoPath),
+  onSyncProgress: (callback: (progress: SyncProgress) => void) => {
+    const handler = (_: unknown, progress: SyncProgress) => callback(progress)
+    ipcRenderer.on('git:syncProgress', handler)
+    return () => ipcRenderer.removeListener('git:syncProgress', handler)
+  },
   gitPreview: (repoPath: string) =>
     ipcRenderer.invoke('git:preview', repoPath),
   gitGenerateSummary: (repoPath: string) =>
@@ -121,6 +147,16 @@ contextBridge.exposeInMainWorld('electronAPI', {
   gitBinaryStatus: () =>
     ipcRenderer.invoke('git:getBinaryStatus'),
 
+  // Merges left by sync (overlapping hunks)
+  gitListPendingMerges: (repoPath: string) =>
+    ipcRenderer.invoke('git:listPendingMerges', repoPath),
+  gitGetPendingMerge: (repoPath: string, mergeId: string) =>
+    ipcRenderer.invoke('git:getPendingMerge', repoPath, mergeId),
+  gitResolvePendingMerge: (repoPath: string, mergeId: string, content: string) =>
+    ipcRenderer.invoke('git:resolvePendingMerge', repoPath, mergeId, content),
+  gitDiscardPendingMerge: (repoPath: string, mergeId: string) =>
+    ipcRenderer.invoke('git:discardPendingMerge', repoPath, mergeId),
+
   // Backup operations
   backupList: (repoPath: string) =>
     ipcRenderer.invoke('backup:list', repoPath),
@@ -166,6 +202,26 @@ contextBridge.exposeInMainWorld('electronAPI', {
   getPermissionMode: () => ipcRenderer.invoke('config:getPermissionMode'),
   setPermissionMode: (mode: 'bypassPermissions' | 'default') =>
     ipcRenderer.invoke('config:setPermissionMode', mode),
+  getShareSkillUsage: () => ipcRenderer.invoke('config:getShareSkillUsage'),
+  setShareSkillUsage: (enabled: boolean) => ipcRenderer.invoke('config:setShareSkillUsage', enabled),
+  getAutoSyncSettings: () => ipcRenderer.invoke('config:getAutoSync'),
+  setAutoSyncSettings: (settings: Partial<AutoSyncSettings>) => ipcRenderer.invoke('config:setAutoSync', settings),
+
+  // Background auto-sync
+  autoSyncGetStatus: () => ipcRenderer.invoke('autoSync:getStatus'),
+  autoSyncSetTarget: (repoPath: string | null, companyId: string | null) =>
+    ipcRenderer.invoke('autoSync:setTarget', repoPath, companyId),
+  autoSyncSetEditorDirty: (dirty: boolean) => ipcRenderer.invoke('autoSync:setEditorDirty', dirty),
+  onAutoSyncStatus: (callback: (status: AutoSyncStatus) => void) => {
+    const handler = (_: unknown, status: AutoSyncStatus) => callback(status)
+    ipcRenderer.on('autoSync:status', handler)
+    return () => ipcRenderer.removeListener('autoSync:status', handler)
+  },
+  onAutoSynced: (callback: (result: GitResult) => void) => {
+    const handler = (_: unknown, result: GitResult) => callback(result)
+    ipcRenderer.on('autoSync:synced', handler)
+    return () => ipcRenderer.removeListener('autoSync:synced', handler)
+  },
 
   // Server URL config
   getServerUrl: () => ipcRenderer.invoke('config:getServerUrl'),
@@ -265,13 +321,68 @@ interface GitResult {
   remoteUrl?: string
   pushFailed?: boolean
   // Sync-specific fields
+  cancelled?: boolean
   hadConflicts?: boolean
-  conflictFiles?: string[]
+  conflictFiles?: string[] // backed up, server version taken
+  mergedFiles?: string[] // merged line by line without conflicts
+  pendingMerges?: PendingMergeSummary[] // overlapping hunks, resolved in the merge editor
   backupPath?: string
   restoredFolders?: string[]
-  ignoredLargeFiles?: string[]
+  unsyncedLargeFiles?: string[] // above 100MB, not uploaded or downloaded this time
   // Nested repos auto-detected and added to .gitignore during this sync
   excludedNestedRepos?: string[]
+  // Push rejected by the server for folders the user cannot write
+  permissionDenied?: boolean
+  deniedFiles?: string[]
+}
+
+type MergeChunk =
+  | { type: 'stable'; lines: string[] }
+  | { type: 'conflict'; base: string[]; server: string[]; local: string[] }
+
+interface PendingMergeSummary {
+  id: string
+  path: string
+  createdAt: string
+  conflicts: number
+}
+
+interface PendingMerge {
+  id: string
+  path: string
+  createdAt: string
+  chunks: MergeChunk[]
+  written: string
+  local: string
+}
+
+interface AutoSyncSettings {
+  enabled: boolean
+  intervalMinutes: number
+  syncOnChange: boolean
+}
+
+interface AutoSyncStatus {
+  enabled: boolean
+  state: 'idle' | 'syncing' | 'paused'
+  lastSyncAt: string | null
+  lastError: string | null
+  nextSyncAt: string | null
+}
+
+interface SyncProgress {
+  repoPath: string
+  background: boolean
+  phase: 'prepare' | 'scan' | 'nested' | 'upload' | 'fetch' | 'commit' | 'rebase' | 'push' | 'download'
+  stage?: string
+  percent?: number
+  processed?: number
+  total?: number
+  bytes?: number
+  rate?: string
+  file?: string
+  cancellable: boolean
+  cancelRequested: boolean
 }
 
 interface GitRepoResult {
@@ -310,11 +421,23 @@ interface AuthResult {
   error?: string
 }
 
+interface SsoProvider {
+  id: string
+  type: 'oidc' | 'saml'
+  name: string
+}
+
 interface SessionResult {
   success: boolean
   user: AuthUser | null
 }
 
+interface ProfileResult {
+  success: boolean
+  data?: AuthUser
+  error?: string
+}
+
 interface CompaniesResult {
   success: boolean
   data?: Array<{
@@ -345,6 +468,43 @@ interface CompanyResult {
   error?: string
 }
 
+interface CompanyMembersResult {
+  success: boolean
+  data?: Array<{
+    id: string
+    userId: string
+    role: string
+    email: string | null
+    name: string | null
+  }>
+  error?: string
+}
+
+interface RepoTreeResult {
+  success: boolean
+  data?: {
+    ref: string
+    commit: string
+    path: string
+    entries: Array<{
+      name: string
+      path: string
+      type: 'tree' | 'blob' | 'commit'
+      mode: string
+      size: number | null
+    }>
+  }
+  error?: string
+}
+
+interface RepoFileResult {
+  success: boolean
+  contentType?: string
+  encoding?: 'utf-8' | 'base64'
+  content?: string
+  error?: string
+}
+
 interface DepartmentInfo {
   id: string
   companyId: string
@@ -367,6 +527,28 @@ interface DepartmentsResult {
   error?: string
 }
 
+interface SkillUsageSummary {
+  skillPath: string
+  folder: string
+  uses: number
+  users: number
+  errors: number
+  avgDurationMs: number
+  avgToolCalls: number
+  lastUsedAt: string
+}
+
+interface SkillUsageResult {
+  success: boolean
+  data?: {
+    from: string
+    to: string
+    skills: SkillUsageSummary[]
+    departments: Array<{ folder: string; departmentName: string | null; uses: number; users: number; skills: number }>
+  }
+  error?: string
+}
+
 interface ToolInfo {
   name: string
   displayName: string
@@ -425,17 +607,32 @@ declare global {
       // Authentication
       signUp: (email: string, password: string, name?: string) => Promise<AuthResult>
       signIn: (email: string, password: string) => Promise<AuthResult>
+      getSsoProviders: () => Promise<{ success: boolean; providers: SsoProvider[] }>
+      signInWithSso: (providerId: string) => Promise<{ success: boolean; error?: string }>
       signOut: () => Promise<{ success: boolean; error?: string }>
       getSession: () => Promise<SessionResult>
 
+      // Profile API
+      updateProfile: (updates: { name?: string; image?: string | null }) => Promise<ProfileResult>
+      changePassword: (currentPassword: string, newPassword: string, revokeOtherSessions: boolean) => Promise<{ success: boolean; error?: string }>
+      changeEmail: (newEmail: string) => Promise<{ success: boolean; error?: string }>
+
       // Companies API
       getCompanies: () => Promise<CompaniesResult>
       createCompany: (name: string) => Promise<CompanyResult>
       getCompany: (companyId: string) => Promise<CompanyResult>
+      getCompanyMembers: (companyId: string) => Promise<CompanyMembersResult>
+      transferOwnership: (companyId: string, userId: string, confirm: string) => Promise<{ success: boolean; error?: string }>
+      repoTree: (companyId: string, folderPath: string, ref?: string) => Promise<RepoTreeResult>
+      repoReadFile: (companyId: string, filePath: string, ref?: string) => Promise<RepoFileResult>
+      leaveCompany: (companyId: string) => Promise<{ success: boolean; error?: string }>
 
       // Departments API
       getDepartments: (companyId: string) => Promise<DepartmentsResult>
 
+      // Skill usage analytics
+      getSkillUsage: (companyId: string) => Promise<SkillUsageResult>
+
       // File system
       selectDirectory: () => Promise<string | null>
       registerAllowedRoot: (path: string) => Promise<{ success: boolean }>
@@ -497,6 +694,17 @@ declare global {
       }>
       getPermissionMode: () => Promise<'bypassPermissions' | 'default'>
       setPermissionMode: (mode: 'bypassPermissions' | 'default') => Promise<boolean>
+      getShareSkillUsage: () => Promise<boolean>
+      setShareSkillUsage: (enabled: boolean) => Promise<boolean>
+      getAutoSyncSettings: () => Promise<AutoSyncSettings>
+      setAutoSyncSettings: (settings: Partial<AutoSyncSettings>) => Promise<AutoSyncSettings>
+
+      // Background auto-sync
+      autoSyncGetStatus: () => Promise<AutoSyncStatus>
+      autoSyncSetTarget: (repoPath: string | null, companyId: string | null) => Promise<AutoSyncStatus>
+      autoSyncSetEditorDirty: (dirty: boolean) => Promise<void>
+      onAutoSyncStatus: (callback: (status: AutoSyncStatus) => void) => () => void
+      onAutoSynced: (callback: (result: GitResult) => void) => () => void
 
       // Server URL config
       getServerUrl: () => Promise<string | null>
@@ -518,7 +726,9 @@ declare global {
       gitInit: (repoPath: string) => Promise<GitResult>
       gitIsRepo: (repoPath: string) => Promise<GitRepoResult>
       gitAddRemote: (repoPath: string, remoteName: string, remoteUrl: string) => Promise<GitResult>
-      gitSync: (repoPath: string, companyId: string, commitMessage: string) => Promise<GitResult>
+      gitSync: (repoPath: string, companyId: string, commitMessage: string, paths?: string[]) => Promise<GitResult>
+      gitCancelSync: (repoPath: string) => Promise<{ success: boolean; error?: string }>
+      onSyncProgress: (callback: (progress: SyncProgress) => void) => () => void
       gitPreview: (repoPath: string) => Promise<{
         success: boolean
         hasChanges: boolean
@@ -588,6 +798,12 @@ declare global {
       sparseSetExclusions: (repoPath: string, excluded: string[]) => Promise<{ success: boolean; enabled?: boolean; excluded?: string[]; error?: string }>
       gitBinaryStatus: () => Promise<{ bundled: boolean; binary: string }>
 
+      // Merges left by sync
+      gitListPendingMerges: (repoPath: string) => Promise<{ success: boolean; merges: PendingMergeSummary[]; error?: string }>
+      gitGetPendingMerge: (repoPath: string, mergeId: string) => Promise<{ success: boolean; merge?: PendingMerge; error?: string }>
+      gitResolvePendingMerge: (repoPath: string, mergeId: string, content: string) => Promise<{ success: boolean; error?: string }>
+      gitDiscardPendingMerge: (repoPath: string, mergeId: string) => Promise<{ success: boolean; backupPath?: string; error?: string }>
+
       // Backup
       backupList: (repoPath: string) => Promise<BackupListResult>
       backupRestore: (repoPath: string, backupId: string, filePath: string) => Promise<BackupRestoreResult>
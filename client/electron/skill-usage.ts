@@ -0,0 +1,162 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+
+// ============================================================================
+// Skill usage analytics (opt-in)
+// ============================================================================
+//
+// The chat server reports one event per /api/chat turn that ran a skill. Events
+// are queued on disk and uploaded in batches to
+// POST /api/companies/:id/skills/usage, so nothing is lost while offline.
+
+export interface SkillUsageEvent {
+  id: string
+  companyId: string
+  skillPath: string // relative to the company repo root, e.g. "営業部/.claude/skills/proposal"
+  source: 'slash' | 'skill'
+  durationMs: number
+  toolCalls: number
+  outcome: 'success' | 'error'
+  occurredAt: string
+}
+
+const FLUSH_INTERVAL_MS = 5 * 60 * 1000
+const FLUSH_THRESHOLD = 50
+const MAX_BATCH = 500 // server limit per request
+const MAX_QUEUED = 5000 // drop the oldest beyond this
+
+/** Nearest ancestor (or self) containing .git, i.e. the company checkout root */
+function findRepoRoot(dir: string): string | null {
+  let current = path.resolve(dir)
+  for (;;) {
+    if (fs.existsSync(path.join(current, '.git'))) return current
+    const parent = path.dirname(current)
+    if (parent === current) return null
+    current = parent
+  }
+}
+
+/** Skill directory as a repo-relative POSIX path, or null if outside a checkout */
+export function toRepoSkillPath(skillDir: string): string | null {
+  const root = findRepoRoot(skillDir)
+  if (!root) return null
+  const relative = path.relative(root, skillDir).split(path.sep).join('/')
+  return /(^|\/)\.claude\/skills\/[^/]+$/.test(relative) ? relative : null
+}
+
+/**
+ * Resolve a leading `/command` to the skill Claude Code will run: the nearest
+ * `.claude/skills/<command>/SKILL.md` from the working directory up to the
+ * checkout root (department skills shadow company-wide ones).
+ */
+export function findSlashCommandSkill(text: string, workingDirectory: string): string | null {
+  const match = text.trimStart().match(/^\/([\w.-]+)(?:\s|$)/)
+  if (!match) return null
+
+  const root = findRepoRoot(workingDirectory)
+  if (!root) return null
+
+  let current = path.resolve(workingDirectory)
+  for (;;) {
+    const skillDir = path.join(current, '.claude', 'skills', match[1])
+    if (fs.existsSync(path.join(skillDir, 'SKILL.md'))) return skillDir
+    if (current === root) return null
+    current = path.dirname(current)
+  }
+}
+
+export function createSkillUsageReporter(options: {
+  queuePath: string
+  isEnabled: () => boolean
+  getServerUrl: () => string
+  getCookies: () => string[]
+}) {
+  let queue: SkillUsageEvent[] = []
+  try {
+    if (fs.existsSync(options.queuePath)) {
+      queue = JSON.parse(fs.readFileSync(options.queuePath, 'utf-8'))
+    }
+  } catch {
+    queue = []
+  }
+  let flushing = false
+
+  function persist() {
+    try {
+      fs.writeFileSync(options.queuePath, JSON.stringify(queue))
+    } catch (error) {
+      console.error('[skill-usage] Failed to save queue:', error)
+    }
+  }
+
+  function record(event: Omit<SkillUsageEvent, 'id' | 'occurredAt'>) {
+    if (!options.isEnabled()) return
+    queue.push({ ...event, id: crypto.randomUUID(), occurredAt: new Date().toISOString() })
+    if (queue.length > MAX_QUEUED) queue = queue.slice(-MAX_QUEUED)
+    persist()
+    if (queue.length >= FLUSH_THRESHOLD) void flush()
+  }
+
+  async function flush() {
+    if (flushing || queue.length === 0) return
+    // Opting out discards anything not yet uploaded
+    if (!options.isEnabled()) {
+      queue = []
+      persist()
+      return
+    }
+    const serverUrl = options.getServerUrl()
+    const cookies = options.getCookies()
+    if (!serverUrl || cookies.length === 0) return
+
+    flushing = true
+    try {
+      const companyIds = [...new Set(queue.map(e => e.companyId))]
+      for (const companyId of companyIds) {
+        const batch = queue.filter(e => e.companyId === companyId).slice(0, MAX_BATCH)
+        const response = await fetch(`${serverUrl}/api/companies/${companyId}/skills/usage`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Cookie': cookies.join('; '),
+          },
+          body: JSON.stringify({
+            events: batch.map(e => ({
+              id: e.id,
+              skillPath: e.skillPath,
+              source: e.source,
+              durationMs: e.durationMs,
+              toolCalls: e.toolCalls,
+              outcome: e.outcome,
+              occurredAt: e.occurredAt,
+            })),
+          }),
+        })
+        // Keep the batch for the next attempt unless the server took it or
+        // will never take it (validation error / no longer a member)
+        if (response.ok || response.status === 400 || response.status === 404) {
+          const sent = new Set(batch.map(e => e.id))
+          queue = queue.filter(e => !sent.has(e.id))
+          persist()
+        }
+        if (!response.ok) {
+          console.warn(`[skill-usage] Upload for ${companyId} failed: ${response.status}`)
+        }
+      }
+    } catch (error) {
+      console.warn('[skill-usage] Upload failed, will retry:', error)
+    } finally {
+      flushing = false
+    }
+  }
+
+  const timer = setInterval(() => void flush(), FLUSH_INTERVAL_MS)
+  timer.unref?.()
+
+  return {
+    record,
+    flush,
+    stop: () => clearInterval(timer),
+  }
+}
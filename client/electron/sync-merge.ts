@@ -0,0 +1,230 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+
+// ============================================================================
+// Three-way merge of text files that conflict during sync
+// ============================================================================
+//
+// When the rebase in git:sync stops on a conflicted file, the base, server
+// (stage 2, "ours" during a rebase) and local (stage 3) versions are merged
+// line by line. Changes that do not overlap are combined automatically; hunks
+// that both sides changed are kept as conflicts: the file gets the server
+// lines for now and the hunks are stored below .git/acb-merges/ until the
+// user resolves them in the merge editor. Binary and oversized files are not
+// merged (the caller backs them up and takes the server version).
+
+export type MergeChunk =
+  | { type: 'stable'; lines: string[] }
+  | { type: 'conflict'; base: string[]; server: string[]; local: string[] }
+
+export interface PendingMerge {
+  id: string
+  path: string // relative to the repo root
+  createdAt: string
+  chunks: MergeChunk[]
+  written: string // file content written by the sync (server side of each conflict)
+  local: string // the local version, kept for a backup when the merge is discarded
+}
+
+export interface PendingMergeSummary {
+  id: string
+  path: string
+  createdAt: string
+  conflicts: number
+}
+
+const MAX_MERGE_BYTES = 1024 * 1024
+const MAX_EDITS = 4000 // diffs larger than this are one conflict
+const MERGES_DIR = 'acb-merges'
+
+/** Text that can be merged line by line: valid UTF-8 without NUL bytes, not too large */
+export function isMergeableText(content: Buffer): boolean {
+  if (content.length > MAX_MERGE_BYTES || content.includes(0)) return false
+  return Buffer.from(content.toString('utf8'), 'utf8').equals(content)
+}
+
+/** Lines with their terminators, so joining them gives the text back unchanged */
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? []
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i])
+}
+
+// For each line of `a`, the index of the matching line of `b` in a shortest
+// edit script (Myers), or -1 if it was removed. Null if the files differ in
+// more than MAX_EDITS lines.
+function matchLines(a: string[], b: string[]): number[] | null {
+  const matches = new Array<number>(a.length).fill(-1)
+
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches[start] = start
+    start++
+  }
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+    matches[endA] = endB
+  }
+
+  const n = endA - start
+  const m = endB - start
+  const limit = Math.min(n + m, MAX_EDITS)
+  const offset = limit + 1
+  const v = new Int32Array(2 * limit + 3)
+  const trace: Int32Array[] = [] // v[-d..d] after each step d
+
+  for (let d = 0; d <= limit; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[start + x] === b[start + y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x < n || y < m) continue
+
+      // Walk the snakes back to the start, recording matched lines
+      for (let step = d; step > 0; step--) {
+        const prev = trace[step - 1]
+        const at = (key: number) => prev[key + step - 1]
+        const key = x - y
+        const down = key === -step || (key !== step && at(key - 1) < at(key + 1))
+        const prevKey = down ? key + 1 : key - 1
+        const prevX = at(prevKey)
+        const snakeX = down ? prevX : prevX + 1
+        while (x > snakeX) {
+          x--
+          y--
+          matches[start + x] = start + y
+        }
+        x = prevX
+        y = prevX - prevKey
+      }
+      while (x > 0) {
+        x--
+        y--
+        matches[start + x] = start + y
+      }
+      return matches
+    }
+    trace.push(v.slice(offset - d, offset + d + 1))
+  }
+  return null
+}
+
+/** Merge the server and local changes to base into stable and conflicting chunks */
+export function mergeLines(base: string[], server: string[], local: string[]): MergeChunk[] {
+  if (sameLines(server, local) || sameLines(base, local)) return [{ type: 'stable', lines: server }]
+  if (sameLines(base, server)) return [{ type: 'stable', lines: local }]
+
+  const toServer = matchLines(base, server)
+  const toLocal = matchLines(base, local)
+  if (!toServer || !toLocal) return [{ type: 'conflict', base, server, local }]
+
+  const chunks: MergeChunk[] = []
+  const pushStable = (lines: string[]) => {
+    if (lines.length === 0) return
+    const last = chunks[chunks.length - 1]
+    if (last?.type === 'stable') last.lines.push(...lines)
+    else chunks.push({ type: 'stable', lines: [...lines] })
+  }
+
+  let o = 0
+  let s = 0
+  let l = 0
+  for (;;) {
+    // Next base line that both sides kept
+    let next = o
+    while (next < base.length && (toServer[next] < 0 || toLocal[next] < 0)) next++
+    const serverEnd = next < base.length ? toServer[next] : server.length
+    const localEnd = next < base.length ? toLocal[next] : local.length
+
+    const baseLines = base.slice(o, next)
+    const serverLines = server.slice(s, serverEnd)
+    const localLines = local.slice(l, localEnd)
+    if (sameLines(serverLines, baseLines) || sameLines(serverLines, localLines)) pushStable(localLines)
+    else if (sameLines(localLines, baseLines)) pushStable(serverLines)
+    else chunks.push({ type: 'conflict', base: baseLines, server: serverLines, local: localLines })
+
+    if (next >= base.length) break
+    pushStable([base[next]])
+    o = next + 1
+    s = serverEnd + 1
+    l = localEnd + 1
+  }
+  return chunks
+}
+
+export function countConflicts(chunks: MergeChunk[]): number {
+  return chunks.filter(chunk => chunk.type === 'conflict').length
+}
+
+/** Text of the chunks, taking the server side of every conflict */
+export function serverSideText(chunks: MergeChunk[]): string {
+  return chunks.map(chunk => (chunk.type === 'stable' ? chunk.lines : chunk.server).join('')).join('')
+}
+
+// ============================================================================
+// Pending merges (.git/acb-merges/<id>.json)
+// ============================================================================
+
+function mergesDir(repoPath: string): string {
+  return path.join(repoPath, '.git', MERGES_DIR)
+}
+
+function mergeFile(repoPath: string, id: string): string | null {
+  return /^[\w-]+$/.test(id) ? path.join(mergesDir(repoPath), `${id}.json`) : null
+}
+
+/** Store a merge with conflicts; replaces an earlier pending merge of the same file */
+export function savePendingMerge(repoPath: string, merge: Omit<PendingMerge, 'id' | 'createdAt'>): PendingMergeSummary {
+  for (const existing of listPendingMerges(repoPath)) {
+    if (existing.path === merge.path) removePendingMerge(repoPath, existing.id)
+  }
+  const record: PendingMerge = {
+    id: `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`,
+    createdAt: new Date().toISOString(),
+    ...merge,
+  }
+  fs.mkdirSync(mergesDir(repoPath), { recursive: true })
+  fs.writeFileSync(mergeFile(repoPath, record.id)!, JSON.stringify(record))
+  return { id: record.id, path: record.path, createdAt: record.createdAt, conflicts: countConflicts(record.chunks) }
+}
+
+export function readPendingMerge(repoPath: string, id: string): PendingMerge | null {
+  const file = mergeFile(repoPath, id)
+  if (!file || !fs.existsSync(file)) return null
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as PendingMerge
+  } catch {
+    return null
+  }
+}
+
+/** Pending merges, oldest first */
+export function listPendingMerges(repoPath: string): PendingMergeSummary[] {
+  const dir = mergesDir(repoPath)
+  if (!fs.existsSync(dir)) return []
+  const merges: PendingMergeSummary[] = []
+  for (const name of fs.readdirSync(dir)) {
+    if (!name.endsWith('.json')) continue
+    const merge = readPendingMerge(repoPath, name.slice(0, -'.json'.length))
+    if (!merge) continue
+    merges.push({ id: merge.id, path: merge.path, createdAt: merge.createdAt, conflicts: countConflicts(merge.chunks) })
+  }
+  return merges.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+export function removePendingMerge(repoPath: string, id: string): void {
+  const file = mergeFile(repoPath, id)
+  if (file) fs.rmSync(file, { force: true })
+}
@@ -0,0 +1,118 @@
+// ============================================================================
+// Progress of git:sync, streamed to the renderer
+// ============================================================================
+//
+// git:sync reports the phase it is in, the object and byte counts git prints
+// with --progress during fetch, pull and push, and the file being looked at
+// during the scans. Events are throttled; a phase change is sent right away.
+
+export type SyncPhase =
+  | 'prepare' // stale state recovery, remote and .gitignore checks
+  | 'scan' // large files
+  | 'nested' // nested Git repositories
+  | 'upload' // large files to the large file store
+  | 'fetch'
+  | 'commit'
+  | 'rebase' // pull --rebase and conflict resolution
+  | 'push'
+  | 'download' // large files changed by others
+
+export interface SyncProgress {
+  repoPath: string
+  background: boolean
+  phase: SyncPhase
+  stage?: string // git's label, e.g. "Receiving objects"
+  percent?: number
+  processed?: number
+  total?: number
+  bytes?: number // transferred so far
+  rate?: string // as printed by git, e.g. "2.00 MiB/s"
+  file?: string // current file of a scan, relative to the repo
+  cancellable: boolean // false while a rebase must run to the end
+  cancelRequested: boolean
+}
+
+const THROTTLE_MS = 100
+
+const UNITS: Record<string, number> = {
+  bytes: 1,
+  KiB: 1024,
+  MiB: 1024 ** 2,
+  GiB: 1024 ** 3,
+  TiB: 1024 ** 4,
+}
+
+// "Writing objects:  45% (100/222), 12.30 MiB | 2.00 MiB/s" (optionally
+// prefixed with "remote: "); "Counting objects: 12, done." has no percentage
+const PROGRESS_LINE = /^(?:remote:\s*)?([A-Za-z][A-Za-z ]*?):\s+(?:(\d+)%\s+\((\d+)\/(\d+)\)|(\d+))(?:,\s*([\d.]+)\s*(bytes|KiB|MiB|GiB|TiB))?(?:\s*\|\s*([\d.]+\s*\S+\/s))?/
+
+/** The last progress line in a chunk of git's stderr */
+export function parseGitProgress(chunk: string): Pick<SyncProgress, 'stage' | 'percent' | 'processed' | 'total' | 'bytes' | 'rate'> | null {
+  const lines = chunk.split(/[\r\n]+/).map(line => line.trim()).filter(Boolean)
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const match = lines[i].match(PROGRESS_LINE)
+    if (!match) continue
+    const [, stage, percent, processed, total, count, size, unit, rate] = match
+    return {
+      stage,
+      percent: percent !== undefined ? Number(percent) : undefined,
+      processed: Number(processed ?? count),
+      total: total !== undefined ? Number(total) : undefined,
+      bytes: size !== undefined ? Math.round(Number(size) * UNITS[unit]) : undefined,
+      rate: rate?.replace(/\s+/g, ' '),
+    }
+  }
+  return null
+}
+
+export function createProgressReporter(
+  base: { repoPath: string; background: boolean },
+  send: (progress: SyncProgress) => void
+) {
+  let current: SyncProgress = { ...base, phase: 'prepare', cancellable: true, cancelRequested: false }
+  let lastSentAt = 0
+  let pending: ReturnType<typeof setTimeout> | null = null
+
+  function flush() {
+    if (pending) clearTimeout(pending)
+    pending = null
+    lastSentAt = Date.now()
+    send(current)
+  }
+
+  function update(changes: Partial<SyncProgress>) {
+    current = { ...current, ...changes }
+    const wait = THROTTLE_MS - (Date.now() - lastSentAt)
+    if (wait <= 0) flush()
+    else if (!pending) pending = setTimeout(flush, wait)
+  }
+
+  return {
+    /** Enter a phase; counters of the previous phase are cleared */
+    phase(phase: SyncPhase, cancellable = true) {
+      current = {
+        ...base,
+        phase,
+        cancellable,
+        cancelRequested: current.cancelRequested,
+      }
+      flush()
+    },
+    /** A chunk of git's stderr */
+    gitOutput(chunk: string) {
+      const parsed = parseGitProgress(chunk)
+      if (parsed) update(parsed)
+    },
+    file(file: string) {
+      update({ file })
+    },
+    cancelRequested() {
+      current = { ...current, cancelRequested: true }
+      flush()
+    },
+    dispose() {
+      if (pending) clearTimeout(pending)
+      pending = null
+    },
+  }
+}
@@ -14,6 +14,8 @@ import {
   Check,
   GitBranch,
   CheckCircle,
+  Crown,
+  DoorOpen,
 } from '@phosphor-icons/react'
 
 interface ServerCompany {
@@ -27,7 +29,14 @@ interface ServerCompany {
   updatedAt: string
 }
 
-type ViewMode = 'list' | 'create' | 'clone' | 'openExisting' | 'setup'
+interface CompanyMember {
+  userId: string
+  role: string
+  email: string | null
+  name: string | null
+}
+
+type ViewMode = 'list' | 'create' | 'clone' | 'openExisting' | 'setup' | 'transfer'
 type SetupStep = 'folder' | 'git' | 'done'
 
 export function CompanySelector() {
@@ -51,6 +60,12 @@ export function CompanySelector() {
   const [setupStep, setSetupStep] = useState<SetupStep>('folder')
   const [setupError, setSetupError] = useState<string | null>(null)
 
+  // For ownership transfer
+  const [members, setMembers] = useState<CompanyMember[]>([])
+  const [transferUserId, setTransferUserId] = useState('')
+  const [transferConfirm, setTransferConfirm] = useState('')
+  const [isTransferring, setIsTransferring] = useState(false)
+
   useEffect(() => {
     loadCompanies()
   }, [])
@@ -95,6 +110,52 @@ export function CompanySelector() {
     }
   }
 
+  async function handleLeaveCompany(company: ServerCompany) {
+    if (!confirm(`「${company.name}」から退出しますか？再度参加するには招待が必要です。`)) return
+
+    setError(null)
+    const result = await window.electronAPI.leaveCompany(company.id)
+    if (result.success) {
+      setCompanies(companies.filter(c => c.id !== company.id))
+    } else {
+      setError(result.error || 'Failed to leave company')
+    }
+  }
+
+  async function handleOpenTransfer(company: ServerCompany) {
+    setSelectedCompany(company)
+    setTransferUserId('')
+    setTransferConfirm('')
+    setMembers([])
+    setError(null)
+    setViewMode('transfer')
+
+    const result = await window.electronAPI.getCompanyMembers(company.id)
+    if (result.success && result.data) {
+      setMembers(result.data.filter(m => m.userId !== user?.id))
+    } else {
+      setError(result.error || 'Failed to load members')
+    }
+  }
+
+  async function handleTransferOwnership() {
+    if (!selectedCompany || !transferUserId) return
+
+    setIsTransferring(true)
+    setError(null)
+    try {
+      const result = await window.electronAPI.transferOwnership(selectedCompany.id, transferUserId, transferConfirm)
+      if (result.success) {
+        setViewMode('list')
+        await loadCompanies()
+      } else {
+        setError(result.error || 'Failed to transfer ownership')
+      }
+    } finally {
+      setIsTransferring(false)
+    }
+  }
+
   async function handleSelectDirectory() {
     const path = await window.electronAPI.selectDirectory()
     if (path) {
@@ -284,27 +345,45 @@ export function CompanySelector() {
 
             <div className="space-y-3">
               {companies.map((company) => (
-                <button
-                  key={company.id}
-                  onClick={() => {
-                    setSelectedCompany(company)
-                    setViewMode('clone')
-                  }}
-                  className="w-full flex items-center justify-between p-4 rounded-lg border border-border hover:border-accent/50 transition-colors text-left"
-                >
-                  <div className="flex items-center gap-3">
-                    <div className="w-10 h-10 rounded-lg bg-accent/10 flex items-center justify-center">
-                      <Buildings size={20} className="text-accent" weight="duotone" />
-                    </div>
-                    <div>
-                      <div className="font-medium text-text-primary">{company.name}</div>
-                      <div className="text-sm text-text-secondary">
-                        {company.role === 'owner' ? 'オーナー' : 'メンバー'}
+                <div key={company.id} className="flex items-center gap-2">
+                  <button
+                    onClick={() => {
+                      setSelectedCompany(company)
+                      setViewMode('clone')
+                    }}
+                    className="flex-1 flex items-center justify-between p-4 rounded-lg border border-border hover:border-accent/50 transition-colors text-left"
+                  >
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-10 rounded-lg bg-accent/10 flex items-center justify-center">
+                        <Buildings size={20} className="text-accent" weight="duotone" />
+                      </div>
+                      <div>
+                        <div className="font-medium text-text-primary">{company.name}</div>
+                        <div className="text-sm text-text-secondary">
+                          {company.role === 'owner' ? 'オーナー' : 'メンバー'}
+                        </div>
                       </div>
                     </div>
-                  </div>
-                  <ArrowRight size={20} className="text-text-secondary" />
-                </button>
+                    <ArrowRight size={20} className="text-text-secondary" />
+                  </button>
+                  {company.role === 'owner' ? (
+                    <button
+                      onClick={() => handleOpenTransfer(company)}
+                      title="オーナー権限を移譲"
+                      className="p-3 rounded-lg text-text-secondary hover:text-text-primary hover:bg-sidebar-bg transition-colors"
+                    >
+                      <Crown size={18} />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleLeaveCompany(company)}
+                      title="会社から退出"
+                      className="p-3 rounded-lg text-text-secondary hover:text-red-400 hover:bg-sidebar-bg transition-colors"
+                    >
+                      <DoorOpen size={18} />
+                    </button>
+                  )}
+                </div>
               ))}
 
               {companies.length === 0 && (
@@ -391,6 +470,80 @@ export function CompanySelector() {
           </div>
         )}
 
+        {viewMode === 'transfer' && selectedCompany && (
+          <div className="space-y-6">
+            <div className="text-center">
+              <Crown size={64} className="mx-auto mb-4 text-accent" weight="duotone" />
+              <h1 className="text-2xl font-bold text-text-primary mb-2">
+                オーナー権限を移譲
+              </h1>
+              <p className="text-text-secondary">
+                移譲すると、あなたは「{selectedCompany.name}」の管理者になります
+              </p>
+            </div>
+
+            {error && (
+              <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm text-text-secondary mb-2">
+                新しいオーナー
+              </label>
+              <select
+                value={transferUserId}
+                onChange={(e) => setTransferUserId(e.target.value)}
+                className="w-full bg-sidebar-bg border border-border rounded-lg px-4 py-3 text-text-primary focus:outline-none focus:border-accent"
+              >
+                <option value="">メンバーを選択</option>
+                {members.map((member) => (
+                  <option key={member.userId} value={member.userId}>
+                    {member.name || member.email || member.userId}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm text-text-secondary mb-2">
+                確認のため会社名を入力してください
+              </label>
+              <input
+                type="text"
+                value={transferConfirm}
+                onChange={(e) => setTransferConfirm(e.target.value)}
+                placeholder={selectedCompany.name}
+                className="w-full bg-sidebar-bg border border-border rounded-lg px-4 py-3 text-text-primary placeholder-text-secondary focus:outline-none focus:border-accent"
+              />
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  setViewMode('list')
+                  setError(null)
+                }}
+                className="flex-1 flex items-center justify-center gap-2 bg-sidebar-bg hover:bg-activitybar-bg text-text-primary rounded-lg px-4 py-3 transition-colors"
+              >
+                戻る
+              </button>
+              <button
+                onClick={handleTransferOwnership}
+                disabled={!transferUserId || transferConfirm !== selectedCompany.name || isTransferring}
+                className="flex-1 flex items-center justify-center gap-2 bg-red-600 hover:bg-red-500 disabled:bg-red-600/50 disabled:cursor-not-allowed text-white rounded-lg px-4 py-3 transition-colors"
+              >
+                {isTransferring ? (
+                  <SpinnerGap size={20} className="animate-spin" />
+                ) : (
+                  '移譲'
+                )}
+              </button>
+            </div>
+          </div>
+        )}
+
         {viewMode === 'clone' && selectedCompany && (
           <div className="space-y-6">
             <div className="text-center">
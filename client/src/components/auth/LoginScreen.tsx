@@ -8,21 +8,42 @@ import {
   SpinnerGap,
   WarningCircle,
   ArrowSquareOut,
+  IdentificationBadge,
 } from '@phosphor-icons/react'
 
+interface SsoProvider {
+  id: string
+  type: 'oidc' | 'saml'
+  name: string
+}
+
 export function LoginScreen() {
-  const { signIn, isLoading } = useAuthStore()
+  const { signIn, signInWithSso, isLoading } = useAuthStore()
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [error, setError] = useState<string | null>(null)
   const [signupUrl, setSignupUrl] = useState('')
+  const [ssoProviders, setSsoProviders] = useState<SsoProvider[]>([])
 
   useEffect(() => {
     window.electronAPI.getServerUrl().then((url) => {
       if (url) setSignupUrl(url)
     })
+    window.electronAPI.getSsoProviders().then((result) => {
+      setSsoProviders(result.providers)
+    })
   }, [])
 
+  async function handleSsoSignIn(providerId: string) {
+    setError(null)
+
+    const result = await signInWithSso(providerId)
+
+    if (!result.success) {
+      setError(result.error || 'SSOログインに失敗しました')
+    }
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault()
     setError(null)
@@ -115,6 +136,23 @@ export function LoginScreen() {
           </button>
         </form>
 
+        {ssoProviders.length > 0 && (
+          <div className="mt-4 space-y-2">
+            {ssoProviders.map((provider) => (
+              <button
+                key={provider.id}
+                type="button"
+                onClick={() => handleSsoSignIn(provider.id)}
+                disabled={isLoading}
+                className="w-full flex items-center justify-center gap-2 bg-sidebar-bg hover:bg-activitybar-bg disabled:opacity-50 disabled:cursor-not-allowed border border-border text-text-primary rounded-lg px-4 py-3 transition-colors text-sm"
+              >
+                <IdentificationBadge size={18} />
+                {provider.name} でログイン{ssoProviders.length > 1 && ` (${provider.type.toUpperCase()})`}
+              </button>
+            ))}
+          </div>
+        )}
+
         <div className="mt-6 pt-6 border-t border-border">
           <p className="text-center text-sm text-text-secondary mb-3">
             アカウントをお持ちでない方
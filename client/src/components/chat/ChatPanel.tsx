@@ -1593,6 +1593,7 @@ function ChatPanelChat({ isActive, departmentPath, activeDepartment, serverInfo,
 
   // Refs for dynamic body params
   const workingDirRef = useRef(departmentPath || currentCompany?.rootPath)
+  const companyIdRef = useRef(currentCompany?.id)
   const activeDepartmentRef = useRef(activeDepartment)
   const aiModelRef = useRef(aiModel)
   const aiEffortRef = useRef(aiEffort)
@@ -1601,6 +1602,10 @@ function ChatPanelChat({ isActive, departmentPath, activeDepartment, serverInfo,
     workingDirRef.current = departmentPath || currentCompany?.rootPath
   }, [departmentPath, currentCompany?.rootPath])
 
+  useEffect(() => {
+    companyIdRef.current = currentCompany?.id
+  }, [currentCompany?.id])
+
   useEffect(() => {
     activeDepartmentRef.current = activeDepartment
   }, [activeDepartment])
@@ -1655,6 +1660,7 @@ function ChatPanelChat({ isActive, departmentPath, activeDepartment, serverInfo,
       body: () => {
         const body: Record<string, unknown> = {
           workingDirectory: workingDirRef.current,
+          companyId: companyIdRef.current,
           activeDepartment: activeDepartmentRef.current || undefined,
           modelId: aiModelRef.current,
           effort: aiEffortRef.current,
@@ -3107,12 +3113,14 @@ function AuthSettings({ authMode: initialAuthMode, claudeCodeAvailable, claudeCo
   const [saving, setSaving] = useState(false)
   const [showApiKey, setShowApiKey] = useState(false)
   const [permissionMode, setPermissionMode] = useState<'bypassPermissions' | 'default'>('bypassPermissions')
+  const [shareSkillUsage, setShareSkillUsage] = useState(false)
 
   const keyLoadedRef = useRef(false)
   if (!keyLoadedRef.current) {
     keyLoadedRef.current = true
     loadCurrentKey()
     loadPermissionMode()
+    loadShareSkillUsage()
   }
 
   async function loadCurrentKey() {
@@ -3127,6 +3135,10 @@ function AuthSettings({ authMode: initialAuthMode, claudeCodeAvailable, claudeCo
     setPermissionMode(mode)
   }
 
+  async function loadShareSkillUsage() {
+    setShareSkillUsage(await window.electronAPI.getShareSkillUsage())
+  }
+
   async function handleSave() {
     setSaving(true)
     try {
@@ -3135,6 +3147,7 @@ function AuthSettings({ authMode: initialAuthMode, claudeCodeAvailable, claudeCo
         await window.electronAPI.setApiKey(apiKey)
       }
       await window.electronAPI.setPermissionMode(permissionMode)
+      await window.electronAPI.setShareSkillUsage(shareSkillUsage)
     } finally {
       setSaving(false)
       onClose()
@@ -3333,6 +3346,31 @@ function AuthSettings({ authMode: initialAuthMode, claudeCodeAvailable, claudeCo
             </div>
           </div>
         )}
+
+        {/* Skill usage analytics (opt-in) */}
+        <div className="space-y-3 pt-2">
+          <label className="block text-xs font-medium tracking-wide uppercase text-ink-muted">
+            {t('chatSettings.analytics')}
+          </label>
+          <button
+            onClick={() => setShareSkillUsage(!shareSkillUsage)}
+            className={`w-full text-left p-3 rounded-lg border transition-all duration-200 ${
+              shareSkillUsage
+                ? 'border-accent/50 bg-accent/10'
+                : 'border-white/[0.06] bg-surface-elevated hover:border-white/[0.1]'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-ink">{t('chatSettings.shareSkillUsage')}</div>
+                <div className="text-xs text-ink-muted mt-0.5">{t('chatSettings.shareSkillUsageDesc')}</div>
+              </div>
+              {shareSkillUsage && (
+                <Check size={16} weight="bold" className="text-accent flex-shrink-0" />
+              )}
+            </div>
+          </button>
+        </div>
       </div>
 
       {/* Footer */}
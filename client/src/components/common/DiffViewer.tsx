@@ -296,9 +296,9 @@ export function DiffViewer(props: DiffViewerProps) {
   )
 }
 
-// --- Split line row ---
+// --- Split line row (exported for use in MergeEditor) ---
 
-function SplitLine({ lineNo, content, type }: {
+export function SplitLine({ lineNo, content, type }: {
   lineNo?: number
   content: string
   type: 'add' | 'remove' | 'context' | 'empty'
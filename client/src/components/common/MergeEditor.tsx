@@ -0,0 +1,334 @@
+import { useState, useEffect, useMemo } from 'react'
+import { SpinnerGap, X, GitMerge } from '@phosphor-icons/react'
+import { SplitLine } from './DiffViewer'
+
+// --- Types ---
+
+type MergeChunk =
+  | { type: 'stable'; lines: string[] }
+  | { type: 'conflict'; base: string[]; server: string[]; local: string[] }
+
+interface PendingMergeSummary {
+  id: string
+  path: string
+  createdAt: string
+  conflicts: number
+}
+
+type Choice = 'server' | 'local' | 'both' | 'edit'
+
+interface Resolution {
+  choice: Choice | null
+  text: string // used for 'edit'
+}
+
+interface MergeEditorProps {
+  isOpen: boolean
+  onClose: () => void
+  rootPath: string
+  merges: PendingMergeSummary[]
+  onChanged: () => void // a merge was resolved or discarded
+}
+
+const CONTEXT_LINES = 3
+
+const CHOICES: Array<{ value: Choice; label: string }> = [
+  { value: 'server', label: 'サーバー版' },
+  { value: 'local', label: '自分の版' },
+  { value: 'both', label: '両方' },
+  { value: 'edit', label: '編集' },
+]
+
+// --- Helpers ---
+
+function displayLine(line: string): string {
+  return line.replace(/\r?\n$/, '')
+}
+
+function chosenText(chunk: Extract<MergeChunk, { type: 'conflict' }>, resolution: Resolution): string {
+  switch (resolution.choice) {
+    case 'server': return chunk.server.join('')
+    case 'local': return chunk.local.join('')
+    case 'both': return chunk.server.join('') + chunk.local.join('')
+    default: return resolution.text
+  }
+}
+
+// --- Component ---
+
+/**
+ * Resolves hunks that the server and the local copy both changed during
+ * sync. Non-overlapping changes were already merged; the file currently
+ * holds the server side of each hunk listed here.
+ */
+export function MergeEditor({ isOpen, onClose, rootPath, merges, onChanged }: MergeEditorProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [chunks, setChunks] = useState<MergeChunk[]>([])
+  const [resolutions, setResolutions] = useState<Resolution[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const selected = merges.find(merge => merge.id === selectedId) ?? merges[0] ?? null
+  const selectedMergeId = selected?.id
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose() }
+    document.addEventListener('keydown', handleKey)
+    return () => document.removeEventListener('keydown', handleKey)
+  }, [isOpen, onClose])
+
+  useEffect(() => {
+    if (isOpen && merges.length === 0) onClose()
+  }, [isOpen, merges.length, onClose])
+
+  useEffect(() => {
+    if (!isOpen || !selectedMergeId) return
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+
+    window.electronAPI.gitGetPendingMerge(rootPath, selectedMergeId)
+      .then(result => {
+        if (cancelled) return
+        if (result.success && result.merge) {
+          const loaded = result.merge.chunks
+          setChunks(loaded)
+          setResolutions(loaded.filter(chunk => chunk.type === 'conflict').map(() => ({ choice: null, text: '' })))
+        } else {
+          setError(result.error || 'マージの読み込みに失敗しました')
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => { cancelled = true }
+  }, [isOpen, rootPath, selectedMergeId])
+
+  const conflicts = useMemo(
+    () => chunks.filter((chunk): chunk is Extract<MergeChunk, { type: 'conflict' }> => chunk.type === 'conflict'),
+    [chunks]
+  )
+  const allResolved = resolutions.length > 0 && resolutions.every(resolution => resolution.choice !== null)
+
+  const setResolution = (index: number, choice: Choice) => {
+    setResolutions(prev => prev.map((resolution, i) => {
+      if (i !== index) return resolution
+      // Editing starts from what was chosen before (server side by default)
+      const text = choice === 'edit' && resolution.choice !== 'edit'
+        ? chosenText(conflicts[index], resolution.choice ? resolution : { choice: 'server', text: '' })
+        : resolution.text
+      return { choice, text }
+    }))
+  }
+
+  const handleSave = async () => {
+    if (!selected || !allResolved) return
+    let conflictIndex = 0
+    const content = chunks.map(chunk => (
+      chunk.type === 'stable' ? chunk.lines.join('') : chosenText(chunk, resolutions[conflictIndex++])
+    )).join('')
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      const result = await window.electronAPI.gitResolvePendingMerge(rootPath, selected.id, content)
+      if (result.success) {
+        setSelectedId(null)
+        onChanged()
+      } else {
+        setError(result.error || '保存に失敗しました')
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDiscard = async () => {
+    if (!selected) return
+    if (!confirm(`${selected.path} の自分の変更を破棄し、サーバー版のままにしますか？\n自分の版はバックアップに保存されます。`)) return
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      const result = await window.electronAPI.gitDiscardPendingMerge(rootPath, selected.id)
+      if (result.success) {
+        setSelectedId(null)
+        onChanged()
+      } else {
+        setError(result.error || '破棄に失敗しました')
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!isOpen || !selected) return null
+
+  let conflictIndex = 0
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div
+        className="w-[95vw] max-w-[1400px] h-[85vh] flex flex-col bg-sidebar-bg border border-border rounded-xl shadow-2xl overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-2.5 border-b border-border bg-activitybar-bg/50">
+          <h3 className="flex items-center gap-2 text-sm font-medium text-text-primary truncate">
+            <GitMerge size={16} />
+            競合の解決: {selected.path}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-activitybar-bg text-text-secondary transition-colors"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        {/* File tabs */}
+        {merges.length > 1 && (
+          <div className="flex gap-1 px-4 py-1.5 border-b border-border overflow-x-auto">
+            {merges.map(merge => (
+              <button
+                key={merge.id}
+                onClick={() => setSelectedId(merge.id)}
+                className={`px-2 py-1 rounded text-[11px] whitespace-nowrap transition-colors ${
+                  merge.id === selected.id
+                    ? 'bg-activitybar-bg text-text-primary'
+                    : 'text-text-secondary hover:bg-activitybar-bg/50'
+                }`}
+                title={merge.path}
+              >
+                {merge.path.split('/').pop()}（{merge.conflicts}）
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Chunks */}
+        <div className="flex-1 overflow-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 py-8 text-sm text-text-secondary">
+              <SpinnerGap size={16} className="animate-spin" />
+              読み込み中...
+            </div>
+          ) : (
+            chunks.map((chunk, i) => {
+              if (chunk.type === 'stable') {
+                // Only a few lines of context around each conflict
+                const lines = chunk.lines.map(displayLine)
+                const head = i === 0 ? [] : lines.slice(0, CONTEXT_LINES)
+                const tail = i === chunks.length - 1 ? [] : lines.slice(Math.max(head.length, lines.length - CONTEXT_LINES))
+                const hidden = lines.length - head.length - tail.length
+                return (
+                  <div key={i} className="text-[11px] font-mono leading-[1.7]">
+                    {head.map((line, j) => <SplitLine key={`h${j}`} content={line} type="context" />)}
+                    {hidden > 0 && (
+                      <div className="px-3 py-0.5 text-text-secondary/60 bg-activitybar-bg/30 select-none">
+                        … {hidden}行 …
+                      </div>
+                    )}
+                    {tail.map((line, j) => <SplitLine key={`t${j}`} content={line} type="context" />)}
+                  </div>
+                )
+              }
+
+              const index = conflictIndex++
+              const resolution = resolutions[index] ?? { choice: null, text: '' }
+              const rows = Math.max(chunk.server.length, chunk.local.length)
+              return (
+                <div key={i} className="my-2 mx-2 border border-amber-500/40 rounded-lg overflow-hidden">
+                  <div className="flex items-center justify-between px-3 py-1.5 bg-amber-500/10 border-b border-amber-500/30">
+                    <span className="text-[11px] font-medium text-amber-400">競合 {index + 1}/{conflicts.length}</span>
+                    <div className="flex gap-1">
+                      {CHOICES.map(({ value, label }) => (
+                        <button
+                          key={value}
+                          onClick={() => setResolution(index, value)}
+                          className={`px-2 py-0.5 rounded text-[11px] transition-colors ${
+                            resolution.choice === value
+                              ? 'bg-amber-500/30 text-text-primary'
+                              : 'text-text-secondary hover:bg-activitybar-bg'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {resolution.choice === 'edit' ? (
+                    <textarea
+                      value={resolution.text}
+                      onChange={e => {
+                        const text = e.target.value
+                        setResolutions(prev => prev.map((r, j) => (j === index ? { ...r, text } : r)))
+                      }}
+                      rows={Math.min(Math.max(rows, 3), 20)}
+                      className="w-full p-2 bg-transparent text-[11px] font-mono leading-[1.7] text-text-primary focus:outline-none resize-y"
+                    />
+                  ) : (
+                    <div className="flex text-[11px] font-mono leading-[1.7]">
+                      <div className={`w-1/2 border-r border-border ${resolution.choice === 'local' ? 'opacity-40' : ''}`}>
+                        <div className="px-3 py-1 text-text-secondary bg-red-500/5 border-b border-border font-medium">
+                          サーバー版
+                        </div>
+                        {Array.from({ length: rows }, (_, j) => (
+                          chunk.server[j] !== undefined
+                            ? <SplitLine key={j} content={displayLine(chunk.server[j])} type="remove" />
+                            : <SplitLine key={j} content="" type="empty" />
+                        ))}
+                      </div>
+                      <div className={`w-1/2 ${resolution.choice === 'server' ? 'opacity-40' : ''}`}>
+                        <div className="px-3 py-1 text-text-secondary bg-green-500/5 border-b border-border font-medium">
+                          自分の版
+                        </div>
+                        {Array.from({ length: rows }, (_, j) => (
+                          chunk.local[j] !== undefined
+                            ? <SplitLine key={j} content={displayLine(chunk.local[j])} type="add" />
+                            : <SplitLine key={j} content="" type="empty" />
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )
+            })
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-3 px-4 py-2.5 border-t border-border bg-activitybar-bg/50">
+          <p className="text-[11px] text-text-secondary truncate">
+            {error
+              ? <span className="text-red-400">{error}</span>
+              : '各競合で採用する内容を選んでください。保存した内容は次回の同期でアップロードされます。'}
+          </p>
+          <div className="flex gap-2 flex-shrink-0">
+            <button
+              onClick={handleDiscard}
+              disabled={isSaving}
+              className="px-3 py-1.5 rounded text-xs text-text-secondary hover:bg-activitybar-bg transition-colors disabled:opacity-50"
+            >
+              自分の変更を破棄
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || isLoading || !allResolved}
+              className="px-3 py-1.5 rounded text-xs bg-amber-500/20 text-amber-400 hover:bg-amber-500/30 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? '保存中...' : '保存'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
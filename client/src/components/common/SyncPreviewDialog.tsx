@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react'
 import { CaretDown, CaretRight, Plus, PencilSimple, Minus, X, SpinnerGap, Sparkle, ArrowCounterClockwise, CloudArrowUp } from '@phosphor-icons/react'
 import { DiffModal } from './DiffViewer'
+import type { SyncProgress } from '../../hooks/useSyncProgress'
 
 interface SyncPreviewDialogProps {
   isOpen: boolean
@@ -12,12 +13,84 @@ interface SyncPreviewDialogProps {
   onRequestSummary?: () => void
   rootPath: string
   onRevertFile?: (filePath: string, fileStatus: 'added' | 'modified' | 'deleted') => Promise<void>
-  onSync?: (commitMessage?: string) => void
+  // paths: only these changes are committed (undefined = all)
+  onSync?: (commitMessage?: string, paths?: string[]) => void
   isSyncing?: boolean
+  syncProgress?: SyncProgress | null
+  onCancelSync?: () => void
 }
 
 const COLLAPSE_THRESHOLD = 20
 
+const PHASE_LABELS: Record<SyncProgress['phase'], string> = {
+  prepare: '準備中',
+  scan: '大容量ファイルを確認中',
+  nested: '外部リポジトリを確認中',
+  upload: '大容量ファイルを送信中',
+  fetch: 'サーバーから取得中',
+  commit: '変更を記録中',
+  rebase: 'サーバーの変更を反映中',
+  push: 'サーバーへ送信中',
+  download: '大容量ファイルを取得中',
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`
+}
+
+/** Phase, transfer and cancel button of a running sync */
+export function SyncProgressPanel({
+  progress,
+  onCancel,
+}: {
+  progress: SyncProgress | null
+  onCancel?: () => void
+}) {
+  const phase = progress?.phase ?? 'prepare'
+  const details = [
+    progress?.stage,
+    progress?.total !== undefined ? `${progress.processed ?? 0}/${progress.total}` : progress?.processed !== undefined ? `${progress.processed}` : null,
+    progress?.bytes !== undefined ? formatBytes(progress.bytes) : null,
+    progress?.rate,
+  ].filter(Boolean).join(' · ')
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 text-xs text-text-primary">
+          <SpinnerGap size={12} className="animate-spin" />
+          {PHASE_LABELS[phase]}
+        </span>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            disabled={!progress?.cancellable || progress.cancelRequested}
+            className="px-2 py-0.5 rounded text-[11px] text-text-secondary hover:text-red-500 hover:bg-activitybar-bg disabled:opacity-50 disabled:hover:text-text-secondary transition-colors"
+            title={progress && !progress.cancellable && !progress.cancelRequested ? 'サーバーの変更の反映中はキャンセルできません' : undefined}
+          >
+            {progress?.cancelRequested ? 'キャンセル待ち...' : 'キャンセル'}
+          </button>
+        )}
+      </div>
+      <div className="h-1 rounded-full bg-activitybar-bg overflow-hidden">
+        {progress?.percent !== undefined ? (
+          <div className="h-full bg-accent transition-[width] duration-200" style={{ width: `${progress.percent}%` }} />
+        ) : (
+          <div className="h-full w-1/3 bg-accent/60 animate-pulse" />
+        )}
+      </div>
+      {(details || progress?.file) && (
+        <p className="text-[10px] text-text-secondary truncate" title={progress?.file}>
+          {details || progress?.file}
+        </p>
+      )}
+    </div>
+  )
+}
+
 function FileSection({
   label,
   files,
@@ -27,6 +100,8 @@ function FileSection({
   fileStatus,
   onRevert,
   revertingFiles,
+  isSelected,
+  onToggle,
 }: {
   label: string
   files: string[]
@@ -36,6 +111,8 @@ function FileSection({
   fileStatus: 'added' | 'modified' | 'deleted'
   onRevert?: (filePath: string, fileStatus: 'added' | 'modified' | 'deleted') => void
   revertingFiles: Set<string>
+  isSelected?: (file: string) => boolean
+  onToggle?: (files: string[], selected: boolean) => void
 }) {
   const [expanded, setExpanded] = useState(files.length <= COLLAPSE_THRESHOLD)
   const [diffFile, setDiffFile] = useState<string | null>(null)
@@ -43,17 +120,32 @@ function FileSection({
   if (files.length === 0) return null
 
   const prefix = rootPath.endsWith('/') ? rootPath : rootPath + '/'
+  const selectedCount = isSelected ? files.filter(isSelected).length : files.length
 
   return (
     <div>
-      <button
-        onClick={() => setExpanded(!expanded)}
-        className="w-full flex items-center gap-2 py-1.5 px-2 text-xs font-medium text-text-secondary hover:bg-activitybar-bg rounded transition-colors"
-      >
-        {expanded ? <CaretDown size={12} /> : <CaretRight size={12} />}
-        <span className={colorClass}>{label}</span>
-        <span className="text-text-secondary">({files.length}件)</span>
-      </button>
+      <div className="flex items-center gap-1">
+        {onToggle && (
+          <input
+            type="checkbox"
+            checked={selectedCount === files.length}
+            ref={(el) => { if (el) el.indeterminate = selectedCount > 0 && selectedCount < files.length }}
+            onChange={(e) => onToggle(files, e.target.checked)}
+            className="ml-2 accent-accent cursor-pointer"
+            title={`${label}をすべて選択`}
+          />
+        )}
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex-1 flex items-center gap-2 py-1.5 px-2 text-xs font-medium text-text-secondary hover:bg-activitybar-bg rounded transition-colors"
+        >
+          {expanded ? <CaretDown size={12} /> : <CaretRight size={12} />}
+          <span className={colorClass}>{label}</span>
+          <span className="text-text-secondary">
+            ({selectedCount < files.length ? `${selectedCount}/${files.length}` : files.length}件)
+          </span>
+        </button>
+      </div>
       {expanded && (
         <div className="ml-2 pl-2 border-l border-border">
           {files.map((file) => {
@@ -65,6 +157,16 @@ function FileSection({
                   className="flex items-center gap-1.5 py-0.5 px-2 text-xs text-text-secondary hover:bg-activitybar-bg/50 rounded cursor-pointer"
                   onClick={() => setDiffFile(file)}
                 >
+                  {onToggle && (
+                    <input
+                      type="checkbox"
+                      checked={isSelected ? isSelected(file) : true}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={(e) => onToggle([file], e.target.checked)}
+                      className="accent-accent cursor-pointer flex-shrink-0"
+                      title="この変更を同期する"
+                    />
+                  )}
                   <Icon size={10} weight="bold" className={colorClass} />
                   <span className="truncate flex-1" title={file}>
                     {displayPath}
@@ -117,10 +219,14 @@ export function SyncPreviewDialog({
   onRevertFile,
   onSync,
   isSyncing,
+  syncProgress,
+  onCancelSync,
 }: SyncPreviewDialogProps) {
   const [revertingFiles, setRevertingFiles] = useState<Set<string>>(new Set())
   const [commitMessage, setCommitMessage] = useState('')
   const [commitBoxExpanded, setCommitBoxExpanded] = useState(false)
+  // Unchecked files (kept local); new changes start checked
+  const [unselectedFiles, setUnselectedFiles] = useState<Set<string>>(new Set())
 
   useEffect(() => {
     if (!isOpen) return
@@ -150,6 +256,28 @@ export function SyncPreviewDialog({
   }
   const filteredTotalCount = filteredChanges.added.length + filteredChanges.modified.length + filteredChanges.deleted.length
 
+  // Selective sync: review files always go along
+  const isSelected = (file: string) => !unselectedFiles.has(file)
+  const selectedFiles = [...filteredChanges.added, ...filteredChanges.modified, ...filteredChanges.deleted].filter(isSelected)
+  const isPartial = selectedFiles.length < filteredTotalCount
+  const handleToggle = (files: string[], selected: boolean) => {
+    setUnselectedFiles(prev => {
+      const next = new Set(prev)
+      for (const file of files) {
+        if (selected) next.delete(file)
+        else next.add(file)
+      }
+      return next
+    })
+  }
+  const handleSync = () => {
+    if (!onSync) return
+    const reviewFiles = [...changes.added, ...changes.modified, ...changes.deleted].filter(isReviewFile)
+    onSync(commitMessage.trim() || undefined, isPartial ? [...selectedFiles, ...reviewFiles] : undefined)
+    setCommitMessage('')
+    setCommitBoxExpanded(false)
+  }
+
   const handleRevert = async (filePath: string, fileStatus: 'added' | 'modified' | 'deleted') => {
     if (!onRevertFile) return
     const displayName = filePath.split('/').pop() || filePath
@@ -222,6 +350,8 @@ export function SyncPreviewDialog({
             fileStatus="added"
             onRevert={onRevertFile ? handleRevert : undefined}
             revertingFiles={revertingFiles}
+            isSelected={isSelected}
+            onToggle={onSync ? handleToggle : undefined}
           />
           <FileSection
             label="変更"
@@ -232,6 +362,8 @@ export function SyncPreviewDialog({
             fileStatus="modified"
             onRevert={onRevertFile ? handleRevert : undefined}
             revertingFiles={revertingFiles}
+            isSelected={isSelected}
+            onToggle={onSync ? handleToggle : undefined}
           />
           <FileSection
             label="削除"
@@ -242,11 +374,20 @@ export function SyncPreviewDialog({
             fileStatus="deleted"
             onRevert={onRevertFile ? handleRevert : undefined}
             revertingFiles={revertingFiles}
+            isSelected={isSelected}
+            onToggle={onSync ? handleToggle : undefined}
           />
         </div>
 
+        {/* Sync progress */}
+        {isSyncing && (
+          <div className="mt-3 px-3 py-2 rounded-md border border-border">
+            <SyncProgressPanel progress={syncProgress ?? null} onCancel={onCancelSync} />
+          </div>
+        )}
+
         {/* Commit message & Sync */}
-        {onSync && (filteredTotalCount > 0 || reviewFileCount > 0) && (
+        {onSync && !isSyncing && (filteredTotalCount > 0 || reviewFileCount > 0) && (
           <div className="mt-3 space-y-2">
             <textarea
               value={commitMessage}
@@ -254,9 +395,7 @@ export function SyncPreviewDialog({
               onKeyDown={(e) => {
                 if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && !isSyncing) {
                   e.preventDefault()
-                  onSync(commitMessage.trim() || undefined)
-                  setCommitMessage('')
-                  setCommitBoxExpanded(false)
+                  handleSync()
                 }
               }}
               placeholder="作業メモを入力（空欄ならAIが自動生成）"
@@ -267,22 +406,22 @@ export function SyncPreviewDialog({
               disabled={isSyncing}
             />
             <p className="text-[10px] text-text-secondary/50 text-left">Enter で改行・⌘+Enterで同期</p>
+            {isPartial && (
+              <p className="text-[11px] text-text-secondary">
+                チェックを外した{filteredTotalCount - selectedFiles.length}件の変更はこのPCに残り、次回以降に同期できます。他のメンバーの変更は取得されます。
+              </p>
+            )}
             <button
-              onClick={() => { onSync(commitMessage.trim() || undefined); setCommitMessage(''); setCommitBoxExpanded(false) }}
+              onClick={handleSync}
               disabled={isSyncing}
               className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium rounded-md bg-accent text-white hover:bg-accent/90 disabled:opacity-50 transition-colors"
             >
-              {isSyncing ? (
-                <>
-                  <SpinnerGap size={14} className="animate-spin" />
-                  同期中...
-                </>
-              ) : (
-                <>
-                  <CloudArrowUp size={14} />
-                  この内容で同期
-                </>
-              )}
+              <CloudArrowUp size={14} />
+              {!isPartial
+                ? 'この内容で同期'
+                : selectedFiles.length > 0
+                  ? `選択した${selectedFiles.length}件を同期`
+                  : 'サーバーの変更のみ取得'}
             </button>
           </div>
         )}
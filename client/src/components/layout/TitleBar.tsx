@@ -1,7 +1,51 @@
 import { useState } from 'react'
 import { useAppStore } from '../../stores/appStore'
 import { useAuthStore } from '../../stores/authStore'
-import { Buildings, SignOut, CaretDown } from '@phosphor-icons/react'
+import { useAutoSyncStatus } from '../../hooks/useAutoSync'
+import { Buildings, SignOut, CaretDown, ArrowsClockwise, Warning, PauseCircle } from '@phosphor-icons/react'
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })
+}
+
+/** Last background sync and its error; nothing while auto-sync is off */
+export function AutoSyncIndicator({ className = '' }: { className?: string }) {
+  const status = useAutoSyncStatus()
+  if (!status?.enabled) return null
+
+  const detail = [
+    status.lastSyncAt ? `最終同期: ${new Date(status.lastSyncAt).toLocaleString('ja-JP')}` : 'まだ同期していません',
+    status.nextSyncAt ? `次回: ${formatTime(status.nextSyncAt)}` : null,
+    status.lastError ? `エラー: ${status.lastError}` : null,
+  ].filter(Boolean).join('\n')
+
+  if (status.state === 'syncing') {
+    return (
+      <span className={`flex items-center gap-1 text-xs ${className}`} title={detail}>
+        <ArrowsClockwise size={12} className="animate-spin" />
+        自動同期中...
+      </span>
+    )
+  }
+
+  if (status.lastError) {
+    return (
+      <span className={`flex items-center gap-1 text-xs text-red-400 ${className}`} title={detail}>
+        <Warning size={12} />
+        自動同期エラー
+      </span>
+    )
+  }
+
+  return (
+    <span className={`flex items-center gap-1 text-xs ${className}`} title={detail}>
+      {status.state === 'paused' ? <PauseCircle size={12} /> : <ArrowsClockwise size={12} />}
+      {status.state === 'paused'
+        ? '未保存の変更があるため一時停止中'
+        : status.lastSyncAt ? `${formatTime(status.lastSyncAt)} に同期` : '自動同期オン'}
+    </span>
+  )
+}
 
 export function TitleBar() {
   const { currentCompany, setCurrentCompany } = useAppStore()
@@ -28,6 +72,7 @@ export function TitleBar() {
       <div className="flex items-center gap-2 text-text-secondary text-sm">
         <Buildings size={16} className="text-accent" />
         {currentCompany?.name || 'AI Company Builder'}
+        <AutoSyncIndicator className="no-drag" />
       </div>
 
       <div className="relative no-drag">
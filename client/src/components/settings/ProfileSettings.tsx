@@ -0,0 +1,219 @@
+import { useState } from 'react'
+import { Check, SpinnerGap } from '@phosphor-icons/react'
+import { useAuthStore } from '../../stores/authStore'
+
+// Profile tab of the settings panel: display name, avatar, email and password
+export function ProfileSettings() {
+  const { user, setUser } = useAuthStore()
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  // null until edited: shows the saved value
+  const [nameDraft, setName] = useState<string | null>(null)
+  const [imageDraft, setImage] = useState<string | null>(null)
+  const [savingProfile, setSavingProfile] = useState(false)
+
+  const [newEmail, setNewEmail] = useState('')
+  const [savingEmail, setSavingEmail] = useState(false)
+
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [revokeOtherSessions, setRevokeOtherSessions] = useState(true)
+  const [savingPassword, setSavingPassword] = useState(false)
+
+  if (!user) {
+    return null
+  }
+
+  const name = nameDraft ?? user.name ?? ''
+  const image = imageDraft ?? user.image ?? ''
+
+  const saveProfile = async () => {
+    setSavingProfile(true)
+    setError(null)
+    setNotice(null)
+    try {
+      const result = await window.electronAPI.updateProfile({ name: name.trim(), image: image.trim() || null })
+      if (result.success && result.data) {
+        setUser(result.data)
+        setName(null)
+        setImage(null)
+        setNotice('プロフィールを保存しました。次の同期からコミットの作成者名に反映されます。')
+      } else {
+        setError(result.error || '保存に失敗しました')
+      }
+    } finally {
+      setSavingProfile(false)
+    }
+  }
+
+  const changeEmail = async () => {
+    setSavingEmail(true)
+    setError(null)
+    setNotice(null)
+    try {
+      const result = await window.electronAPI.changeEmail(newEmail.trim())
+      if (result.success) {
+        setNewEmail('')
+        setNotice('確認メールを送信しました。メール内のリンクを開くとメールアドレスが変更されます。')
+      } else {
+        setError(result.error || '送信に失敗しました')
+      }
+    } finally {
+      setSavingEmail(false)
+    }
+  }
+
+  const changePassword = async () => {
+    setSavingPassword(true)
+    setError(null)
+    setNotice(null)
+    try {
+      const result = await window.electronAPI.changePassword(currentPassword, newPassword, revokeOtherSessions)
+      if (result.success) {
+        setCurrentPassword('')
+        setNewPassword('')
+        setNotice('パスワードを変更しました。')
+      } else {
+        setError(result.error || '変更に失敗しました')
+      }
+    } finally {
+      setSavingPassword(false)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-zinc-100 placeholder-zinc-600 focus:outline-none focus:border-zinc-500'
+  const buttonClass = 'flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-amber-600 hover:bg-amber-500 text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed'
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="text-sm text-red-400 bg-red-950/30 border border-red-900/40 rounded-lg p-3">{error}</div>
+      )}
+      {notice && (
+        <div className="flex items-center gap-2 text-sm text-emerald-400 bg-emerald-950/30 border border-emerald-900/40 rounded-lg p-3">
+          <Check size={16} className="flex-shrink-0" />
+          {notice}
+        </div>
+      )}
+
+      {/* Name & avatar */}
+      <div>
+        <h3 className="text-sm font-medium text-zinc-400 mb-4">基本情報</h3>
+        <div className="flex items-start gap-4">
+          <div className="w-12 h-12 shrink-0 rounded-full bg-zinc-800 overflow-hidden flex items-center justify-center text-lg text-zinc-300">
+            {image.trim() ? (
+              <img src={image.trim()} alt="" className="w-full h-full object-cover" />
+            ) : (
+              (name || user.email).charAt(0)
+            )}
+          </div>
+          <div className="flex-1 space-y-3">
+            <div className="flex items-center gap-3">
+              <label className="w-24 text-sm text-zinc-300 shrink-0">表示名</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                className={inputClass}
+              />
+            </div>
+            <div className="flex items-center gap-3">
+              <label className="w-24 text-sm text-zinc-300 shrink-0">アバター画像</label>
+              <input
+                type="url"
+                value={image}
+                onChange={(e) => setImage(e.target.value)}
+                placeholder="https://"
+                className={inputClass}
+              />
+            </div>
+          </div>
+        </div>
+        <div className="flex justify-end mt-3">
+          <button
+            onClick={saveProfile}
+            disabled={savingProfile || !name.trim()}
+            className={buttonClass}
+          >
+            {savingProfile && <SpinnerGap size={14} className="animate-spin" />}
+            保存
+          </button>
+        </div>
+      </div>
+
+      {/* Email */}
+      <div>
+        <h3 className="text-sm font-medium text-zinc-400 mb-1">メールアドレス</h3>
+        <p className="text-xs text-zinc-500 mb-3">
+          現在: {user.email}
+          {!user.emailVerified && <span className="ml-2 text-amber-400">未確認</span>}
+        </p>
+        <div className="flex items-center gap-3">
+          <input
+            type="email"
+            value={newEmail}
+            onChange={(e) => setNewEmail(e.target.value)}
+            placeholder="新しいメールアドレス"
+            className={inputClass}
+          />
+          <button
+            onClick={changeEmail}
+            disabled={savingEmail || !newEmail.trim()}
+            className={`${buttonClass} shrink-0`}
+          >
+            {savingEmail && <SpinnerGap size={14} className="animate-spin" />}
+            確認メールを送信
+          </button>
+        </div>
+      </div>
+
+      {/* Password */}
+      <div>
+        <h3 className="text-sm font-medium text-zinc-400 mb-4">パスワード</h3>
+        <div className="space-y-3">
+          <div className="flex items-center gap-3">
+            <label className="w-24 text-sm text-zinc-300 shrink-0">現在</label>
+            <input
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              autoComplete="current-password"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="w-24 text-sm text-zinc-300 shrink-0">新しいパスワード</label>
+            <input
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              placeholder="8文字以上"
+              autoComplete="new-password"
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between mt-3">
+          <label className="flex items-center gap-2 text-sm text-zinc-400">
+            <input
+              type="checkbox"
+              checked={revokeOtherSessions}
+              onChange={(e) => setRevokeOtherSessions(e.target.checked)}
+            />
+            他の端末からログアウトする
+          </label>
+          <button
+            onClick={changePassword}
+            disabled={savingPassword || !currentPassword || newPassword.length < 8}
+            className={buttonClass}
+          >
+            {savingPassword && <SpinnerGap size={14} className="animate-spin" />}
+            パスワードを変更
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback } from 'react'
-import { X, Eye, EyeSlash, Plus, Trash, Code, Key, FloppyDisk, Check, FileText, Cloud, CloudArrowDown, ArrowCounterClockwise, SpinnerGap, FolderSimple } from '@phosphor-icons/react'
+import { X, Eye, EyeSlash, Plus, Trash, Code, Key, FloppyDisk, Check, FileText, Cloud, CloudArrowDown, ArrowCounterClockwise, SpinnerGap, FolderSimple, UserCircle } from '@phosphor-icons/react'
 import { useAppStore } from '../../stores/appStore'
 import { useSparseCheckout } from '../../hooks/useSparseCheckout'
 import { useDepartments } from '../../hooks/useDepartments'
+import { ProfileSettings } from './ProfileSettings'
 
 // Common API key definitions
 const COMMON_API_KEYS = [
@@ -16,7 +17,15 @@ interface SettingsPanelProps {
   onClose: () => void
 }
 
-type TabType = 'apikeys' | 'sync' | 'gitignore' | 'advanced'
+type TabType = 'apikeys' | 'sync' | 'gitignore' | 'advanced' | 'profile'
+
+const AUTO_SYNC_INTERVALS = [5, 15, 30, 60, 180]
+
+interface AutoSyncSettings {
+  enabled: boolean
+  intervalMinutes: number
+  syncOnChange: boolean
+}
 
 export function SettingsPanel({ onClose }: SettingsPanelProps) {
   const { currentCompany } = useAppStore()
@@ -35,12 +44,26 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
   const [saving, setSaving] = useState(false)
   const [saved, setSaved] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [autoSync, setAutoSync] = useState<AutoSyncSettings | null>(null)
 
   // Check which git binary is in use (warn when on the system git fallback)
   useEffect(() => {
     window.electronAPI.gitBinaryStatus().then(setGitBinaryStatus).catch(() => {})
   }, [])
 
+  useEffect(() => {
+    window.electronAPI.getAutoSyncSettings().then(setAutoSync).catch(() => {})
+  }, [])
+
+  // Auto-sync settings apply immediately
+  const updateAutoSync = async (changes: Partial<AutoSyncSettings>) => {
+    try {
+      setAutoSync(await window.electronAPI.setAutoSyncSettings(changes))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '自動同期の設定を保存できませんでした')
+    }
+  }
+
   // Load .env and .gitignore files on mount
   useEffect(() => {
     if (!currentCompany?.rootPath) return
@@ -240,7 +263,7 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
           <button
             onClick={() => setActiveTab('apikeys')}
             className={`
-              flex items-center gap-2 px-6 py-3 text-sm font-medium
+              flex items-center gap-2 px-4 py-3 text-sm font-medium
               border-b-2 transition-colors
               ${activeTab === 'apikeys'
                 ? 'border-amber-500 text-zinc-100'
@@ -254,7 +277,7 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
           <button
             onClick={() => setActiveTab('sync')}
             className={`
-              flex items-center gap-2 px-6 py-3 text-sm font-medium
+              flex items-center gap-2 px-4 py-3 text-sm font-medium
               border-b-2 transition-colors
               ${activeTab === 'sync'
                 ? 'border-amber-500 text-zinc-100'
@@ -268,7 +291,7 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
           <button
             onClick={() => setActiveTab('gitignore')}
             className={`
-              flex items-center gap-2 px-6 py-3 text-sm font-medium
+              flex items-center gap-2 px-4 py-3 text-sm font-medium
               border-b-2 transition-colors
               ${activeTab === 'gitignore'
                 ? 'border-amber-500 text-zinc-100'
@@ -282,7 +305,7 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
           <button
             onClick={() => setActiveTab('advanced')}
             className={`
-              flex items-center gap-2 px-6 py-3 text-sm font-medium
+              flex items-center gap-2 px-4 py-3 text-sm font-medium
               border-b-2 transition-colors
               ${activeTab === 'advanced'
                 ? 'border-amber-500 text-zinc-100'
@@ -293,11 +316,27 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
             <Code size={16} />
             詳細設定
           </button>
+          <button
+            onClick={() => setActiveTab('profile')}
+            className={`
+              flex items-center gap-2 px-4 py-3 text-sm font-medium
+              border-b-2 transition-colors
+              ${activeTab === 'profile'
+                ? 'border-amber-500 text-zinc-100'
+                : 'border-transparent text-zinc-500 hover:text-zinc-300'
+              }
+            `}
+          >
+            <UserCircle size={16} />
+            プロフィール
+          </button>
         </div>
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-6">
-          {loading ? (
+          {activeTab === 'profile' ? (
+            <ProfileSettings />
+          ) : loading ? (
             <div className="flex items-center justify-center py-12">
               <div className="text-zinc-500">読み込み中...</div>
             </div>
@@ -399,6 +438,55 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
           ) : activeTab === 'sync' ? (
             /* Sync Folders Tab */
             <div className="space-y-6">
+              {autoSync && (
+                <div className="space-y-3">
+                  <h3 className="text-sm font-medium text-zinc-400">自動同期</h3>
+                  <label className="flex items-center justify-between gap-3 p-3 bg-zinc-800/50 rounded-lg cursor-pointer">
+                    <div>
+                      <p className="text-sm text-zinc-200">バックグラウンドで自動同期する</p>
+                      <p className="text-xs text-zinc-500 mt-0.5">
+                        ファイルの削除や外部Gitリポジトリなど確認が必要な変更があるときは同期せず、手動での同期を促します
+                      </p>
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={autoSync.enabled}
+                      onChange={(e) => updateAutoSync({ enabled: e.target.checked })}
+                      className="w-4 h-4 accent-amber-500 flex-shrink-0"
+                    />
+                  </label>
+                  {autoSync.enabled && (
+                    <>
+                      <div className="flex items-center justify-between gap-3 px-3">
+                        <span className="text-sm text-zinc-300">同期の間隔</span>
+                        <select
+                          value={autoSync.intervalMinutes}
+                          onChange={(e) => updateAutoSync({ intervalMinutes: Number(e.target.value) })}
+                          className="px-2 py-1 bg-zinc-800 border border-zinc-700 rounded text-sm text-zinc-200"
+                        >
+                          {[...new Set([...AUTO_SYNC_INTERVALS, autoSync.intervalMinutes])].sort((a, b) => a - b).map(minutes => (
+                            <option key={minutes} value={minutes}>
+                              {minutes < 60 ? `${minutes}分` : `${minutes / 60}時間`}ごと
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <label className="flex items-center justify-between gap-3 px-3 cursor-pointer">
+                        <span className="text-sm text-zinc-300">
+                          ファイルの変更が落ち着いたら同期する
+                          <span className="block text-xs text-zinc-500">エディタに未保存の変更がある間は待機します</span>
+                        </span>
+                        <input
+                          type="checkbox"
+                          checked={autoSync.syncOnChange}
+                          onChange={(e) => updateAutoSync({ syncOnChange: e.target.checked })}
+                          className="w-4 h-4 accent-amber-500 flex-shrink-0"
+                        />
+                      </label>
+                    </>
+                  )}
+                </div>
+              )}
               {gitBinaryStatus && !gitBinaryStatus.bundled && (
                 <div className="text-xs bg-amber-950/40 border border-amber-800/40 rounded-lg p-3 space-y-1">
                   <p className="text-amber-400 font-medium">
@@ -535,8 +623,8 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
                 <ul className="list-disc list-inside space-y-1 ml-2">
                   <li><code className="px-1 py-0.5 bg-zinc-700 rounded">.backups/</code> - バックアップフォルダ</li>
                   <li><code className="px-1 py-0.5 bg-zinc-700 rounded">.env</code> / <code className="px-1 py-0.5 bg-zinc-700 rounded">.env.*</code> - APIキー等の秘密情報（同期されず、このPCにのみ保存）</li>
-                  <li><code className="px-1 py-0.5 bg-zinc-700 rounded">100MB以上のファイル</code> - 大容量ファイル</li>
                 </ul>
+                <p>100MB以上のファイルは.gitignoreに追加されず、大容量ファイルストア経由で同期されます。</p>
                 <p className="mt-2"><strong>書き方:</strong></p>
                 <ul className="list-disc list-inside space-y-1 ml-2">
                   <li><code className="px-1 py-0.5 bg-zinc-700 rounded">*.log</code> - すべての.logファイル</li>
@@ -569,8 +657,8 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
           )}
         </div>
 
-        {/* Footer (hidden for sync tab — actions are inline) */}
-        {activeTab !== 'sync' && (
+        {/* Footer (hidden for sync and profile tabs — actions are inline) */}
+        {activeTab !== 'sync' && activeTab !== 'profile' && (
         <div className="flex items-center justify-between px-6 py-4 border-t border-zinc-800 bg-zinc-900/50">
           {error ? (
             <div className="text-sm text-red-400">{error}</div>
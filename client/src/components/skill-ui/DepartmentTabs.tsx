@@ -101,6 +101,7 @@ export const DepartmentTabs = memo(function DepartmentTabs({ departments, select
           <button
             key={dept.id}
             onClick={() => onSelect(dept.id)}
+            title={dept.isLead ? t('departments.lead') : dept.isAssigned ? t('departments.assigned') : undefined}
             className={`
               group relative flex items-center gap-2.5 px-4 py-2.5 rounded-xl
               font-medium text-sm whitespace-nowrap
@@ -125,6 +126,9 @@ export const DepartmentTabs = memo(function DepartmentTabs({ departments, select
               className={`transition-transform group-hover:scale-110 ${isUnsynced && !isSelected ? 'opacity-50' : ''}`}
             />
             <span>{dept.name}</span>
+            {dept.isAssigned && (
+              <span className={`w-1.5 h-1.5 rounded-full bg-current ${dept.isLead ? '' : 'opacity-50'}`} />
+            )}
             {isUnsynced && (
               <Cloud size={12} className={isSelected ? 'text-white/60' : 'text-gray-400 dark:text-zinc-600'} />
             )}
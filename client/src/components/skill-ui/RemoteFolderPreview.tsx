@@ -0,0 +1,231 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { X, Cloud, FolderSimple, File, CaretLeft, SpinnerGap } from '@phosphor-icons/react'
+
+interface RemoteEntry {
+  name: string
+  path: string
+  type: 'tree' | 'blob' | 'commit'
+  size: number | null
+}
+
+type Preview =
+  | { kind: 'text'; path: string; text: string }
+  | { kind: 'image'; path: string; src: string }
+  | { kind: 'unsupported'; path: string; reason: string }
+
+interface RemoteFolderPreviewProps {
+  isOpen: boolean
+  onClose: () => void
+  companyId: string
+  /** Folder not downloaded locally (excluded by sparse checkout) */
+  folder: string
+  title: string
+}
+
+// Larger files are not fetched just to be shown in the panel
+const MAX_PREVIEW_SIZE = 1024 * 1024
+
+function formatSize(size: number): string {
+  if (size < 1024) return `${size} B`
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`
+  return `${(size / 1024 / 1024).toFixed(1)} MB`
+}
+
+// Browse a folder on the server without downloading it. The server only
+// lists and returns what the member can read.
+export function RemoteFolderPreview({ isOpen, onClose, companyId, folder, title }: RemoteFolderPreviewProps) {
+  const [path, setPath] = useState(folder)
+  const [entries, setEntries] = useState<RemoteEntry[]>([])
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Only the latest request may update the panel
+  const requestIdRef = useRef(0)
+
+  const loadFolder = useCallback(async (folderPath: string) => {
+    const requestId = ++requestIdRef.current
+    setPath(folderPath)
+    setPreview(null)
+    setLoading(true)
+    setError(null)
+    try {
+      const result = await window.electronAPI.repoTree(companyId, folderPath)
+      if (requestId !== requestIdRef.current) return
+      if (result.success && result.data) {
+        const sorted = [...result.data.entries].sort((a, b) =>
+          a.type === b.type ? a.name.localeCompare(b.name, 'ja') : a.type === 'tree' ? -1 : 1)
+        setEntries(sorted)
+      } else {
+        setEntries([])
+        setError(result.error || 'フォルダを読み込めませんでした')
+      }
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return
+      setEntries([])
+      setError(err instanceof Error ? err.message : 'フォルダを読み込めませんでした')
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false)
+    }
+  }, [companyId])
+
+  const openFile = useCallback(async (entry: RemoteEntry) => {
+    const requestId = ++requestIdRef.current
+    if (entry.size !== null && entry.size > MAX_PREVIEW_SIZE) {
+      setPreview({ kind: 'unsupported', path: entry.path, reason: `ファイルが大きいためプレビューできません（${formatSize(entry.size)}）` })
+      return
+    }
+    setLoading(true)
+    setError(null)
+    try {
+      const result = await window.electronAPI.repoReadFile(companyId, entry.path)
+      if (requestId !== requestIdRef.current) return
+      if (!result.success || result.content === undefined) {
+        setError(result.error || 'ファイルを読み込めませんでした')
+      } else if (result.encoding === 'utf-8') {
+        setPreview({ kind: 'text', path: entry.path, text: result.content })
+      } else if (result.contentType?.startsWith('image/')) {
+        setPreview({ kind: 'image', path: entry.path, src: `data:${result.contentType};base64,${result.content}` })
+      } else {
+        setPreview({ kind: 'unsupported', path: entry.path, reason: 'このファイル形式はプレビューできません' })
+      }
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return
+      setError(err instanceof Error ? err.message : 'ファイルを読み込めませんでした')
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false)
+    }
+  }, [companyId])
+
+  useEffect(() => {
+    if (isOpen && folder) {
+      loadFolder(folder)
+    }
+  }, [isOpen, folder, loadFolder])
+
+  if (!isOpen) return null
+
+  const parentPath = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : null
+  const canGoUp = preview !== null || error !== null || (parentPath !== null && path !== folder)
+
+  const handleBack = () => {
+    if (preview) {
+      requestIdRef.current++
+      setPreview(null)
+      setError(null)
+      setLoading(false)
+    } else if (error) {
+      loadFolder(path)
+    } else if (parentPath !== null) {
+      loadFolder(parentPath)
+    }
+  }
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/30 z-40 transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Slide Over Panel */}
+      <div className="fixed inset-y-0 right-0 z-50 w-full max-w-2xl">
+        <div className="h-full flex flex-col bg-white dark:bg-zinc-900 shadow-2xl animate-in slide-in-from-right duration-300">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-zinc-800">
+            <div className="flex items-center gap-3 min-w-0">
+              <Cloud size={24} className="text-indigo-500 flex-shrink-0" />
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white truncate">
+                {title}
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-zinc-800 text-gray-500 dark:text-zinc-400 transition-colors"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          {/* Current location */}
+          <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-200 dark:border-zinc-800 bg-gray-50 dark:bg-zinc-900 text-sm">
+            <button
+              onClick={handleBack}
+              disabled={!canGoUp}
+              className="p-1 rounded hover:bg-gray-200 dark:hover:bg-zinc-800 text-gray-500 dark:text-zinc-400 disabled:opacity-30 disabled:cursor-not-allowed"
+              title="戻る"
+            >
+              <CaretLeft size={16} />
+            </button>
+            <span className="text-gray-700 dark:text-zinc-300 truncate">
+              {preview?.path ?? path}
+            </span>
+          </div>
+
+          {/* Content */}
+          <div className="flex-1 overflow-auto">
+            {loading ? (
+              <div className="flex items-center justify-center h-32 text-gray-500 dark:text-zinc-400 gap-2">
+                <SpinnerGap size={18} className="animate-spin" />
+                読み込み中...
+              </div>
+            ) : error ? (
+              <div className="p-6 text-red-500">
+                {error}
+              </div>
+            ) : preview?.kind === 'text' ? (
+              <pre className="p-4 text-xs leading-relaxed text-gray-800 dark:text-zinc-200 whitespace-pre-wrap break-words font-mono">
+                {preview.text}
+              </pre>
+            ) : preview?.kind === 'image' ? (
+              <div className="p-4">
+                <img src={preview.src} alt={preview.path} className="max-w-full" />
+              </div>
+            ) : preview?.kind === 'unsupported' ? (
+              <div className="p-6 text-sm text-gray-500 dark:text-zinc-400">
+                {preview.reason}
+              </div>
+            ) : entries.length === 0 ? (
+              <div className="flex items-center justify-center h-32 text-gray-500 dark:text-zinc-400">
+                ファイルはありません
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-100 dark:divide-zinc-800">
+                {entries.map((entry) => (
+                  <button
+                    key={entry.path}
+                    onClick={() => (entry.type === 'tree' ? loadFolder(entry.path) : openFile(entry))}
+                    disabled={entry.type === 'commit'}
+                    className="w-full flex items-center gap-2 px-4 py-2 text-left text-sm hover:bg-gray-50 dark:hover:bg-zinc-800/50 disabled:opacity-50 disabled:cursor-default"
+                  >
+                    {entry.type === 'tree' ? (
+                      <FolderSimple size={16} className="text-gray-400 dark:text-zinc-500 flex-shrink-0" />
+                    ) : (
+                      <File size={16} className="text-gray-400 dark:text-zinc-500 flex-shrink-0" />
+                    )}
+                    <span className="flex-1 text-gray-700 dark:text-zinc-300 truncate">
+                      {entry.name}
+                    </span>
+                    {entry.type === 'blob' && entry.size !== null && (
+                      <span className="text-xs text-gray-400 dark:text-zinc-500">
+                        {formatSize(entry.size)}
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="px-6 py-4 border-t border-gray-200 dark:border-zinc-800 bg-gray-50 dark:bg-zinc-900">
+            <p className="text-xs text-gray-500 dark:text-zinc-400">
+              サーバー上の最新の内容を表示しています（読み取り専用）。
+              編集するには部署をダウンロードしてください。
+            </p>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -1,16 +1,20 @@
 import { memo } from 'react'
+import { useTranslation } from 'react-i18next'
 import { Lightning, FileText, Gear } from '@phosphor-icons/react'
 import type { Skill } from '../../types'
+import type { SkillUsageStats } from '../../hooks/useSkillUsage'
 
 interface SkillCardProps {
   skill: Skill
   color: string
   isSelected: boolean
+  usage?: SkillUsageStats
   onSelect: () => void
   onExecute: () => void
 }
 
-export const SkillCard = memo(function SkillCard({ skill, color, isSelected, onSelect, onExecute }: SkillCardProps) {
+export const SkillCard = memo(function SkillCard({ skill, color, isSelected, usage, onSelect, onExecute }: SkillCardProps) {
+  const { t } = useTranslation()
   return (
     <div
       onClick={onSelect}
@@ -51,6 +55,13 @@ export const SkillCard = memo(function SkillCard({ skill, color, isSelected, onS
         {skill.description}
       </p>
 
+      {/* Usage this month (from members sharing usage) */}
+      {usage && (
+        <p className="-mt-2 mb-4 text-xs text-gray-400 dark:text-zinc-600">
+          {t('skills.usage', { uses: usage.uses, users: usage.users })}
+        </p>
+      )}
+
       {/* Action buttons */}
       <div className="flex items-center gap-2">
         <button
@@ -1,6 +1,6 @@
 import { useState, useMemo, useCallback, useEffect, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
-import { CloudArrowUp, GearSix, House, Lightning, FolderSimple, SignOut, Sun, Moon, Globe, SpinnerGap, FolderOpen, X, ClockCounterClockwise, ListChecks, GitCommit, MagnifyingGlass, Cloud, DownloadSimple, Info, ChatCircle, CaretLeft } from '@phosphor-icons/react'
+import { CloudArrowUp, GearSix, House, Lightning, FolderSimple, SignOut, Sun, Moon, Globe, SpinnerGap, FolderOpen, X, ClockCounterClockwise, ListChecks, GitCommit, GitMerge, MagnifyingGlass, Cloud, DownloadSimple, Eye, Info, ChatCircle, CaretLeft } from '@phosphor-icons/react'
 import { DepartmentTabs } from './DepartmentTabs'
 import { SkillGrid } from './SkillGrid'
 import { SkillDetailPanel } from './SkillDetailPanel'
@@ -14,15 +14,20 @@ import { ResizeHandle } from './ResizeHandle'
 import { ChatPanel } from '../chat/ChatPanel'
 import { SettingsPanel } from '../settings'
 import { BackupHistorySlideOver } from './BackupHistorySlideOver'
+import { RemoteFolderPreview } from './RemoteFolderPreview'
 import { CommitHistoryPanel, invalidateCommitCache, prefetchCommits } from './CommitHistoryPanel'
 import { SearchPanel } from './SearchPanel'
 import { FileSearchModal } from './FileSearchModal'
-import { SyncPreviewDialog } from '../common/SyncPreviewDialog'
-import type { Skill, SkillTool } from '../../types'
+import { SyncPreviewDialog, SyncProgressPanel } from '../common/SyncPreviewDialog'
+import { useSyncProgress } from '../../hooks/useSyncProgress'
+import { MergeEditor } from '../common/MergeEditor'
+import { AutoSyncIndicator } from '../layout/TitleBar'
+import type { DepartmentConfig, Skill, SkillTool } from '../../types'
 import { useAppStore } from '../../stores/appStore'
 import { useSkills } from '../../hooks/useSkills'
 import { useSparseCheckout } from '../../hooks/useSparseCheckout'
 import { useDepartments } from '../../hooks/useDepartments'
+import { useSkillUsage, type SkillUsageStats } from '../../hooks/useSkillUsage'
 import type { SlashCommandItem } from '../chat/SlashCommandDropdown'
 import { isPerfCutEnabled, perfMark } from '../../lib/perfDiagnostics'
 import { isChatInputRecentlyActive } from '../../lib/chatInputActivity'
@@ -73,6 +78,13 @@ function safeWriteEditorState(companyId: string, state: PersistedEditorState): v
   }
 }
 
+// Tab to open when the user hasn't picked one: the department they lead,
+// else the first one they're assigned to, else company-wide
+function getDefaultTabId(departments: DepartmentConfig[]): string {
+  const own = departments.find(d => d.isLead) ?? departments.find(d => d.isAssigned)
+  return own?.id ?? COMPANY_TAB_ID
+}
+
 export function SkillCentricLayout() {
   const { t } = useTranslation()
   // Use individual selectors to prevent unnecessary re-renders
@@ -91,6 +103,7 @@ export function SkillCentricLayout() {
   const sparseCheckout = useSparseCheckout({ rootPath: currentCompany?.rootPath || '' })
 
   const [isDownloading, setIsDownloading] = useState(false)
+  const [showRemotePreview, setShowRemotePreview] = useState(false)
 
   const toggleLanguage = useCallback(() => {
     setLanguage(language === 'ja' ? 'en' : 'ja')
@@ -112,11 +125,16 @@ export function SkillCentricLayout() {
     if (savedTabKey) localStorage.setItem(savedTabKey, id)
   }
 
-  // If restored tab is a department ID that doesn't exist (yet), fallback to company-wide
+  // Once departments load: without a saved tab, open the user's own department
+  // (not persisted, so a later assignment change still applies). A restored
+  // tab whose department no longer exists falls back the same way.
   const prevDeptCountRef = useRef(0)
   if (departments.length > 0 && prevDeptCountRef.current === 0) {
-    if (selectedDeptId !== COMPANY_TAB_ID && !departments.find(d => d.id === selectedDeptId)) {
-      setSelectedDeptIdWithSave(COMPANY_TAB_ID)
+    const hasSavedTab = savedTabKey !== null && localStorage.getItem(savedTabKey) !== null
+    if (!hasSavedTab) {
+      setSelectedDeptId(getDefaultTabId(departments))
+    } else if (selectedDeptId !== COMPANY_TAB_ID && !departments.find(d => d.id === selectedDeptId)) {
+      setSelectedDeptIdWithSave(getDefaultTabId(departments))
     }
   }
   prevDeptCountRef.current = departments.length
@@ -222,12 +240,41 @@ export function SkillCentricLayout() {
 
   // Sync state
   const [isSyncing, setIsSyncing] = useState(false)
+  const syncProgress = useSyncProgress(isSyncing)
   const [syncNotification, setSyncNotification] = useState<{
     type: 'success' | 'warning' | 'error'
     message: string
     backupPath?: string
+    files?: string[]
+    hasPendingMerges?: boolean
   } | null>(null)
 
+  // Merges with overlapping hunks left by sync
+  const [pendingMerges, setPendingMerges] = useState<Array<{ id: string; path: string; createdAt: string; conflicts: number }>>([])
+  const [showMergeEditor, setShowMergeEditor] = useState(false)
+
+  const loadPendingMerges = useCallback(async () => {
+    if (!currentCompany?.rootPath) {
+      setPendingMerges([])
+      return
+    }
+    const result = await window.electronAPI.gitListPendingMerges(currentCompany.rootPath)
+    setPendingMerges(result.success ? result.merges : [])
+  }, [currentCompany?.rootPath])
+
+  useEffect(() => {
+    loadPendingMerges()
+  }, [loadPendingMerges])
+
+  // Background auto-sync follows the open company
+  useEffect(() => {
+    window.electronAPI.autoSyncSetTarget(currentCompany?.rootPath ?? null, currentCompany?.id ?? null)
+  }, [currentCompany?.rootPath, currentCompany?.id])
+
+  useEffect(() => {
+    return () => { window.electronAPI.autoSyncSetTarget(null, null) }
+  }, [])
+
   // Preview state
   const [showPreview, setShowPreview] = useState(false)
   const [isLoadingPreview, setIsLoadingPreview] = useState(false)
@@ -299,6 +346,22 @@ export function SkillCentricLayout() {
     departmentId: isCompanyWide ? '' : COMPANY_TAB_ID, // Skip when already viewing company tab (avoid duplicate)
     departmentName: '全社',
   })
+
+  // This month's usage per skill (server paths are relative to the company root)
+  const { usageByPath } = useSkillUsage(currentCompany?.id)
+  const usageBySkillId = useMemo(() => {
+    const map = new Map<string, SkillUsageStats>()
+    const rootPath = currentCompany?.rootPath ? normalizePathSeparators(currentCompany.rootPath) : ''
+    if (!rootPath) return map
+    for (const skill of skills) {
+      const skillPath = skill.skillPath ? normalizePathSeparators(skill.skillPath) : ''
+      if (!skillPath.startsWith(`${rootPath}/`)) continue
+      const usage = usageByPath.get(skillPath.slice(rootPath.length + 1))
+      if (usage) map.set(skill.id, usage)
+    }
+    return map
+  }, [skills, usageByPath, currentCompany?.rootPath])
+
   const handleDownloadDepartment = useCallback(async () => {
     if (!selectedDept?.folder) return
     setIsDownloading(true)
@@ -748,7 +811,7 @@ ${promptContent}
     }
   }, [currentCompany?.rootPath])
 
-  const handleSync = useCallback(async (customCommitMessage?: string) => {
+  const handleSync = useCallback(async (customCommitMessage?: string, paths?: string[]) => {
     if (!currentCompany?.rootPath || !currentCompany?.id) return
 
     setIsSyncing(true)
@@ -758,7 +821,8 @@ ${promptContent}
       const result = await window.electronAPI.gitSync(
         currentCompany.rootPath,
         currentCompany.id,
-        customCommitMessage || 'Sync from AI Company Builder'
+        customCommitMessage || 'Sync from AI Company Builder',
+        paths
       )
 
       if (result.success) {
@@ -766,22 +830,24 @@ ${promptContent}
         await refreshDepartments()
         refreshSkills()
         invalidateCommitCache()
+        await loadPendingMerges()
 
         if (result.hadConflicts) {
           setSyncNotification({
             type: 'warning',
             message: result.message || `${result.conflictFiles?.length || 0}ファイルが競合しました。サーバー版で上書きしました。`,
-            backupPath: result.backupPath
+            backupPath: result.backupPath,
+            hasPendingMerges: (result.pendingMerges?.length ?? 0) > 0
           })
         } else if (result.restoredFolders && result.restoredFolders.length > 0) {
           setSyncNotification({
             type: 'warning',
             message: `部署フォルダを復元しました: ${result.restoredFolders.join(', ')}`
           })
-        } else if (result.ignoredLargeFiles && result.ignoredLargeFiles.length > 0) {
+        } else if (result.unsyncedLargeFiles && result.unsyncedLargeFiles.length > 0) {
           setSyncNotification({
             type: 'warning',
-            message: `${result.ignoredLargeFiles.length}個の大容量ファイル（100MB以上）を同期対象外にしました: ${result.ignoredLargeFiles.slice(0, 3).join(', ')}${result.ignoredLargeFiles.length > 3 ? '...' : ''}`
+            message: `${result.unsyncedLargeFiles.length}個の大容量ファイル（100MB以上）を同期できませんでした。次回の同期で再試行します: ${result.unsyncedLargeFiles.slice(0, 3).join(', ')}${result.unsyncedLargeFiles.length > 3 ? '...' : ''}`
           })
         } else if (result.excludedNestedRepos && result.excludedNestedRepos.length > 0) {
           setSyncNotification({
@@ -794,17 +860,23 @@ ${promptContent}
             message: result.message || '同期が完了しました'
           })
         }
+      } else if (result.cancelled) {
+        setSyncNotification({
+          type: 'warning',
+          message: result.error || '同期をキャンセルしました。'
+        })
       } else {
         setSyncNotification({
           type: 'error',
-          message: result.error || '同期に失敗しました'
+          message: result.error || '同期に失敗しました',
+          files: result.permissionDenied ? result.deniedFiles : undefined
         })
       }
 
       // Auto-hide success notification after 3 seconds (unless there were warnings)
       const hasWarnings = result.hadConflicts ||
         (result.restoredFolders && result.restoredFolders.length > 0) ||
-        (result.ignoredLargeFiles && result.ignoredLargeFiles.length > 0) ||
+        (result.unsyncedLargeFiles && result.unsyncedLargeFiles.length > 0) ||
         (result.excludedNestedRepos && result.excludedNestedRepos.length > 0)
       if (result.success && !hasWarnings) {
         setTimeout(() => setSyncNotification(null), 3000)
@@ -818,7 +890,34 @@ ${promptContent}
     } finally {
       setIsSyncing(false)
     }
-  }, [currentCompany, refreshDepartments, refreshSkills])
+  }, [currentCompany, refreshDepartments, refreshSkills, loadPendingMerges])
+
+  const handleCancelSync = useCallback(() => {
+    if (!currentCompany?.rootPath) return
+    window.electronAPI.gitCancelSync(currentCompany.rootPath).catch(error => {
+      console.error('Cancel sync failed:', error)
+    })
+  }, [currentCompany?.rootPath])
+
+  // Background syncs: refresh like a manual sync. Failures are shown by the
+  // auto-sync indicator; only warnings that need action get a notification.
+  useEffect(() => {
+    return window.electronAPI.onAutoSynced(async (result) => {
+      if (!result.success) return
+      await refreshDepartments()
+      refreshSkills()
+      invalidateCommitCache()
+      await loadPendingMerges()
+      if (result.hadConflicts) {
+        setSyncNotification({
+          type: 'warning',
+          message: result.message || `${result.conflictFiles?.length || 0}ファイルが競合しました。サーバー版で上書きしました。`,
+          backupPath: result.backupPath,
+          hasPendingMerges: (result.pendingMerges?.length ?? 0) > 0
+        })
+      }
+    })
+  }, [refreshDepartments, refreshSkills, loadPendingMerges])
 
   const handleRevertFile = useCallback(async (filePath: string, fileStatus: 'added' | 'modified' | 'deleted') => {
     if (!currentCompany?.rootPath) return
@@ -873,6 +972,7 @@ ${promptContent}
               <ListChecks size={18} />
             )}
           </button>
+          <AutoSyncIndicator className="px-1 text-gray-400 dark:text-zinc-500" />
           <button
             onClick={() => handleSync()}
             disabled={isSyncing || !currentCompany}
@@ -885,6 +985,18 @@ ${promptContent}
               <CloudArrowUp size={18} />
             )}
           </button>
+          {pendingMerges.length > 0 && (
+            <button
+              onClick={() => setShowMergeEditor(true)}
+              className="relative p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-zinc-800 text-amber-500 hover:text-amber-600 transition-colors"
+              title="競合の解決"
+            >
+              <GitMerge size={18} />
+              <span className="absolute -top-0.5 -right-0.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-amber-500 text-white text-[9px] leading-[14px] text-center">
+                {pendingMerges.length}
+              </span>
+            </button>
+          )}
           <div className="w-px h-4 bg-gray-200 dark:bg-zinc-700" />
           <button
             onClick={() => setShowBackupHistory(true)}
@@ -996,6 +1108,15 @@ ${promptContent}
                 )}
                 {isDownloading ? 'ダウンロード中...' : 'ダウンロードして同期を開始'}
               </button>
+              <div className="mt-4">
+                <button
+                  onClick={() => setShowRemotePreview(true)}
+                  className="inline-flex items-center gap-1.5 text-sm text-gray-500 dark:text-zinc-400 hover:text-gray-700 dark:hover:text-zinc-200 hover:underline"
+                >
+                  <Eye size={16} />
+                  ダウンロードせずに中身を見る
+                </button>
+              </div>
             </div>
           </div>
         ) : (
@@ -1097,6 +1218,7 @@ ${promptContent}
                     onAddSkill={handleAddSkill}
                     onCopySkill={!isCompanyWide ? () => setShowCopySkillModal(true) : undefined}
                     isLoading={isLoadingSkills}
+                    usageBySkillId={usageBySkillId}
                   />
                 </div>
                 {selectedSkillId && selectedSkill && (
@@ -1219,6 +1341,26 @@ ${promptContent}
         rootPath={currentCompany?.rootPath || ''}
       />
 
+      {/* Preview of a department folder that is not downloaded */}
+      {currentCompany && selectedDept && (
+        <RemoteFolderPreview
+          isOpen={showRemotePreview && isSelectedDeptUnsynced}
+          onClose={() => setShowRemotePreview(false)}
+          companyId={currentCompany.id}
+          folder={selectedDept.folder}
+          title={selectedDept.name}
+        />
+      )}
+
+      {/* Merge Editor (overlapping changes left by sync) */}
+      <MergeEditor
+        isOpen={showMergeEditor}
+        onClose={() => setShowMergeEditor(false)}
+        rootPath={currentCompany?.rootPath || ''}
+        merges={pendingMerges}
+        onChanged={loadPendingMerges}
+      />
+
       {/* Tool Viewer */}
       {activeTool && (
         <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-8">
@@ -1244,12 +1386,21 @@ ${promptContent}
           isLoadingSummary={isLoadingSummary}
           onRequestSummary={handleRequestSummary}
           rootPath={currentCompany?.rootPath || ''}
-          onSync={(commitMessage) => { setShowPreview(false); handleSync(commitMessage) }}
+          onSync={async (commitMessage, paths) => { await handleSync(commitMessage, paths); setShowPreview(false) }}
           isSyncing={isSyncing}
+          syncProgress={syncProgress}
+          onCancelSync={handleCancelSync}
           onRevertFile={handleRevertFile}
         />
       )}
 
+      {/* Sync progress (when the preview dialog is not showing it) */}
+      {isSyncing && !(previewData && showPreview) && (
+        <div className="fixed bottom-4 right-4 z-50 w-80 p-3 rounded-lg border border-border bg-sidebar-bg shadow-xl">
+          <SyncProgressPanel progress={syncProgress} onCancel={handleCancelSync} />
+        </div>
+      )}
+
       {/* Sync Notification */}
       {syncNotification && (
         <div className="fixed bottom-4 right-4 z-50 max-w-md animate-in slide-in-from-bottom-2">
@@ -1264,7 +1415,26 @@ ${promptContent}
           `}>
             <div className="flex items-start gap-3">
               <div className="flex-1">
-                <p className="text-sm font-medium">{syncNotification.message}</p>
+                <p className="text-sm font-medium whitespace-pre-line">{syncNotification.message}</p>
+                {syncNotification.files && syncNotification.files.length > 0 && (
+                  <ul className="mt-2 max-h-40 overflow-y-auto text-xs font-mono space-y-0.5">
+                    {syncNotification.files.map(file => (
+                      <li key={file} className="truncate" title={file}>{file}</li>
+                    ))}
+                  </ul>
+                )}
+                {syncNotification.hasPendingMerges && (
+                  <button
+                    onClick={() => {
+                      setShowMergeEditor(true)
+                      setSyncNotification(null)
+                    }}
+                    className="mt-2 flex items-center gap-1 text-xs hover:underline"
+                  >
+                    <GitMerge size={14} />
+                    マージエディタを開く
+                  </button>
+                )}
                 {syncNotification.backupPath && (
                   <div className="mt-2 flex items-center gap-3">
                     <button
@@ -3,6 +3,7 @@ import { useTranslation } from 'react-i18next'
 import { Plus, CircleNotch, Lightning, CaretRight, Flask, Globe, Copy } from '@phosphor-icons/react'
 import { SkillCard } from './SkillCard'
 import type { Skill } from '../../types'
+import type { SkillUsageStats } from '../../hooks/useSkillUsage'
 
 interface SkillGridProps {
   skills: Skill[]
@@ -13,6 +14,7 @@ interface SkillGridProps {
   onAddSkill: () => void
   onCopySkill?: () => void
   isLoading?: boolean
+  usageBySkillId?: Map<string, SkillUsageStats>
 }
 
 /** Group skills by their `group` field, preserving order of first appearance */
@@ -39,6 +41,7 @@ export function SkillGrid({
   onAddSkill,
   onCopySkill,
   isLoading = false,
+  usageBySkillId,
 }: SkillGridProps) {
   const { t } = useTranslation()
   const [isPrivateExpanded, setIsPrivateExpanded] = useState(false)
@@ -158,6 +161,7 @@ export function SkillGrid({
                       skill={skill}
                       color={color}
                       isSelected={selectedSkillId === skill.id}
+                      usage={usageBySkillId?.get(skill.id)}
                       onSelect={() => onSelectSkill(skill.id)}
                       onExecute={() => onExecuteSkill(skill.id)}
                     />
@@ -176,6 +180,7 @@ export function SkillGrid({
               skill={skill}
               color={color}
               isSelected={selectedSkillId === skill.id}
+              usage={usageBySkillId?.get(skill.id)}
               onSelect={() => onSelectSkill(skill.id)}
               onExecute={() => onExecuteSkill(skill.id)}
             />
@@ -290,6 +295,7 @@ export function SkillGrid({
                             skill={skill}
                             color={color}
                             isSelected={selectedSkillId === skill.id}
+                            usage={usageBySkillId?.get(skill.id)}
                             onSelect={() => onSelectSkill(skill.id)}
                             onExecute={() => onExecuteSkill(skill.id)}
                           />
@@ -307,6 +313,7 @@ export function SkillGrid({
                     skill={skill}
                     color={color}
                     isSelected={selectedSkillId === skill.id}
+                    usage={usageBySkillId?.get(skill.id)}
                     onSelect={() => onSelectSkill(skill.id)}
                     onExecute={() => onExecuteSkill(skill.id)}
                   />
@@ -373,6 +373,18 @@ export function TabbedEditorPanel({
   const activeFile = activeFilePath ? fileContents.get(activeFilePath) : null
   const hasChanges = activeFile ? activeFile.content !== activeFile.originalContent : false
 
+  // Background auto-sync holds off while any open file has unsaved edits
+  const hasUnsavedFiles = useMemo(
+    () => [...fileContents.values()].some(file => file.content !== file.originalContent),
+    [fileContents]
+  )
+  useEffect(() => {
+    window.electronAPI.autoSyncSetEditorDirty(hasUnsavedFiles)
+  }, [hasUnsavedFiles])
+  useEffect(() => {
+    return () => { window.electronAPI.autoSyncSetEditorDirty(false) }
+  }, [])
+
   // Markdown view mode: persisted across files and app restarts
   const [mdViewMode, setMdViewMode] = useState<'preview' | 'editor'>(() => {
     const saved = localStorage.getItem('mdViewMode')
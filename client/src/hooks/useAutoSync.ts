@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react'
+
+export interface AutoSyncStatus {
+  enabled: boolean
+  state: 'idle' | 'syncing' | 'paused'
+  lastSyncAt: string | null
+  lastError: string | null
+  nextSyncAt: string | null
+}
+
+/** Background auto-sync status, updated by the main process */
+export function useAutoSyncStatus(): AutoSyncStatus | null {
+  const [status, setStatus] = useState<AutoSyncStatus | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    window.electronAPI.autoSyncGetStatus()
+      .then(initial => { if (!cancelled) setStatus(initial) })
+      .catch(() => { /* the next status event fills it in */ })
+    const unsubscribe = window.electronAPI.onAutoSyncStatus(setStatus)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [])
+
+  return status
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react'
+import { useAuthStore } from '../stores/authStore'
 import type { DepartmentConfig } from '../types'
 
 interface DepartmentFromAPI {
@@ -13,8 +14,10 @@ interface DepartmentFromAPI {
   description: string | null
   sortOrder: number
   isActive: boolean
+  archivedAt?: string | null
   createdAt: string
   updatedAt: string
+  members?: Array<{ userId: string; isLead: boolean }>
 }
 
 interface UseDepartmentsResult {
@@ -28,6 +31,7 @@ export function useDepartments(companyId: string | undefined): UseDepartmentsRes
   const [departments, setDepartments] = useState<DepartmentConfig[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const userId = useAuthStore(state => state.user?.id)
 
   const fetchDepartments = useCallback(async () => {
     if (!companyId) {
@@ -45,16 +49,21 @@ export function useDepartments(companyId: string | undefined): UseDepartmentsRes
       if (result.success && result.data) {
         // Convert API response to DepartmentConfig format
         const deptConfigs: DepartmentConfig[] = result.data
-          .filter((d: DepartmentFromAPI) => d.isActive)
+          .filter((d: DepartmentFromAPI) => d.isActive && !d.archivedAt)
           .sort((a: DepartmentFromAPI, b: DepartmentFromAPI) => a.sortOrder - b.sortOrder)
-          .map((d: DepartmentFromAPI) => ({
-            id: d.id,
-            name: d.name,
-            folder: d.folder,
-            icon: d.icon,
-            color: d.color,
-            description: d.description || '',
-          }))
+          .map((d: DepartmentFromAPI) => {
+            const assignment = d.members?.find(m => m.userId === userId)
+            return {
+              id: d.id,
+              name: d.name,
+              folder: d.folder,
+              icon: d.icon,
+              color: d.color,
+              description: d.description || '',
+              isAssigned: Boolean(assignment),
+              isLead: assignment?.isLead ?? false,
+            }
+          })
 
         setDepartments(deptConfigs)
       } else {
@@ -68,7 +77,7 @@ export function useDepartments(companyId: string | undefined): UseDepartmentsRes
     } finally {
       setIsLoading(false)
     }
-  }, [companyId])
+  }, [companyId, userId])
 
   useEffect(() => {
     fetchDepartments()
@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react'
+
+export interface SkillUsageStats {
+  uses: number
+  users: number
+}
+
+interface UseSkillUsageResult {
+  /** This month's usage keyed by skill path relative to the company root */
+  usageByPath: Map<string, SkillUsageStats>
+  refresh: () => Promise<void>
+}
+
+/** Company-wide skill usage (from members who opted in to sharing) */
+export function useSkillUsage(companyId: string | undefined): UseSkillUsageResult {
+  const [usageByPath, setUsageByPath] = useState<Map<string, SkillUsageStats>>(new Map())
+
+  const fetchUsage = useCallback(async () => {
+    if (!companyId) {
+      setUsageByPath(new Map())
+      return
+    }
+
+    try {
+      const result = await window.electronAPI.getSkillUsage(companyId)
+      if (result.success && result.data) {
+        setUsageByPath(new Map(result.data.skills.map(s => [s.skillPath, { uses: s.uses, users: s.users }])))
+      }
+    } catch (err) {
+      // Usage counts are decorative; keep the last known values
+      console.error('Error fetching skill usage:', err)
+    }
+  }, [companyId])
+
+  useEffect(() => {
+    fetchUsage()
+  }, [fetchUsage])
+
+  return { usageByPath, refresh: fetchUsage }
+}
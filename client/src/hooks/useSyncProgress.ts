@@ -0,0 +1,33 @@
+import { useState, useEffect } from 'react'
+
+export interface SyncProgress {
+  repoPath: string
+  background: boolean
+  phase: 'prepare' | 'scan' | 'nested' | 'upload' | 'fetch' | 'commit' | 'rebase' | 'push' | 'download'
+  stage?: string
+  percent?: number
+  processed?: number
+  total?: number
+  bytes?: number
+  rate?: string
+  file?: string
+  cancellable: boolean
+  cancelRequested: boolean
+}
+
+/** Progress of the manual sync while `active`; background syncs are ignored */
+export function useSyncProgress(active: boolean): SyncProgress | null {
+  const [progress, setProgress] = useState<SyncProgress | null>(null)
+
+  useEffect(() => {
+    if (!active) {
+      setProgress(null)
+      return
+    }
+    return window.electronAPI.onSyncProgress(event => {
+      if (!event.background) setProgress(event)
+    })
+  }, [active])
+
+  return progress
+}
@@ -20,6 +20,7 @@ interface AuthState {
 
   // Auth methods
   signIn: (email: string, password: string) => Promise<{ success: boolean; error?: string }>
+  signInWithSso: (providerId: string) => Promise<{ success: boolean; error?: string }>
   signUp: (email: string, password: string, name?: string) => Promise<{ success: boolean; error?: string }>
   signOut: () => Promise<void>
   checkSession: () => Promise<void>
@@ -54,6 +55,25 @@ export const useAuthStore = create<AuthState>((set) => ({
     }
   },
 
+  signInWithSso: async (providerId) => {
+    set({ isLoading: true })
+    try {
+      const result = await window.electronAPI.signInWithSso(providerId)
+      if (result.success) {
+        const session = await window.electronAPI.getSession()
+        if (session.success && session.user) {
+          set({ user: session.user })
+        }
+        return { success: true }
+      }
+      return { success: false, error: result.error }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    } finally {
+      set({ isLoading: false })
+    }
+  },
+
   signUp: async (email, password, name) => {
     set({ isLoading: true })
     try {
@@ -44,6 +44,10 @@ export interface DepartmentConfig {
   icon: string
   color: string
   description: string
+  /** The signed-in user is assigned to this department */
+  isAssigned?: boolean
+  /** The signed-in user leads this department */
+  isLead?: boolean
 }
 
 // Tool (Web app) in a SKILL
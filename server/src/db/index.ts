@@ -27,6 +27,9 @@ export function initDatabase() {
       slug TEXT NOT NULL UNIQUE,
       owner_id TEXT NOT NULL,
       repo_path TEXT,
+      read_isolation INTEGER NOT NULL DEFAULT 0,
+      department_retention_days INTEGER,
+      large_file_quota_gb INTEGER, -- NULL = server default (lib/large-files.ts)
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL
     );
@@ -36,6 +39,8 @@ export function initDatabase() {
       user_id TEXT NOT NULL,
       company_id TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
       role TEXT NOT NULL DEFAULT 'member',
+      scope_department_id TEXT REFERENCES departments(id) ON DELETE SET NULL,
+      checkout_folders TEXT, -- JSON array: folders for the first checkout (from the invitation)
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
       UNIQUE(user_id, company_id)
@@ -57,8 +62,16 @@ export function initDatabase() {
       company_id TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
       token TEXT NOT NULL UNIQUE,
       role TEXT NOT NULL DEFAULT 'member',
+      -- Optional restrictions: only this address, or only addresses at this domain
+      email TEXT,
+      email_domain TEXT,
+      name TEXT, -- invitee's name from a roster import, suggested at signup
+      max_uses INTEGER NOT NULL DEFAULT 1,
+      use_count INTEGER NOT NULL DEFAULT 0,
+      department_ids TEXT, -- JSON array: departments joined on accept
+      checkout_folders TEXT, -- JSON array: folders for the first checkout
       created_by TEXT NOT NULL,
-      used_by TEXT,
+      used_by TEXT, -- most recent use
       used_at TEXT,
       expires_at TEXT NOT NULL,
       created_at TEXT NOT NULL
@@ -80,6 +93,12 @@ export function initDatabase() {
       sort_order INTEGER NOT NULL DEFAULT 0,
       is_active INTEGER NOT NULL DEFAULT 1,
 
+      -- Archived (deleted) departments keep their row; folder then points
+      -- below .archive/ and archived_from holds the folder to restore to
+      archived_at TEXT,
+      archived_by TEXT,
+      archived_from TEXT,
+
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
       created_by TEXT,
@@ -88,6 +107,159 @@ export function initDatabase() {
       UNIQUE(company_id, parent_id, name)
     );
 
+    CREATE TABLE IF NOT EXISTS permissions (
+      id TEXT PRIMARY KEY,
+      company_id TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL,
+      path TEXT NOT NULL,
+      can_read INTEGER NOT NULL DEFAULT 1,
+      can_write INTEGER NOT NULL DEFAULT 0,
+      created_by TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      UNIQUE(company_id, user_id, path)
+    );
+
+    -- Department assignments: a member can belong to several departments,
+    -- optionally as its lead
+    CREATE TABLE IF NOT EXISTS department_members (
+      department_id TEXT NOT NULL REFERENCES departments(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL,
+      company_id TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+      is_lead INTEGER NOT NULL DEFAULT 0,
+      created_by TEXT,
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (department_id, user_id)
+    );
+
+    -- Custom roles (built-in roles are defined in lib/roles.ts).
+    -- memberships.role holds either a built-in role id or roles.id.
+    CREATE TABLE IF NOT EXISTS roles (
+      id TEXT PRIMARY KEY,
+      company_id TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      description TEXT,
+      capabilities TEXT NOT NULL, -- JSON array of capabilities
+      scope TEXT NOT NULL DEFAULT 'company', -- 'company' | 'department'
+      created_by TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      UNIQUE(company_id, name)
+    );
+
+    -- Audit log: who changed what (append-only)
+    CREATE TABLE IF NOT EXISTS audit_events (
+      id TEXT PRIMARY KEY,
+      company_id TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+      actor_id TEXT,
+      action TEXT NOT NULL,
+      target_type TEXT,
+      target_id TEXT,
+      details TEXT,
+      created_at TEXT NOT NULL
+    );
+
+    -- Skill catalog: every .claude/skills/*/SKILL.md on main, rebuilt after
+    -- pushes (lib/skill-index.ts). Derived data, safe to drop.
+    CREATE TABLE IF NOT EXISTS skills (
+      company_id TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+      path TEXT NOT NULL,
+      folder TEXT NOT NULL,
+      name TEXT NOT NULL,
+      description TEXT NOT NULL DEFAULT '',
+      status TEXT,
+      content TEXT NOT NULL DEFAULT '',
+      files TEXT NOT NULL,
+      PRIMARY KEY (company_id, path)
+    );
+
+    CREATE TABLE IF NOT EXISTS skill_index_state (
+      company_id TEXT PRIMARY KEY REFERENCES companies(id) ON DELETE CASCADE,
+      commit_sha TEXT NOT NULL,
+      indexed_at TEXT NOT NULL
+    );
+
+    -- Skill usage reported by desktop clients that opted in. id is generated
+    -- client-side so a retried upload doesn't count twice.
+    CREATE TABLE IF NOT EXISTS skill_usage_events (
+      id TEXT PRIMARY KEY,
+      company_id TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL,
+      skill_path TEXT NOT NULL,
+      folder TEXT NOT NULL,
+      source TEXT NOT NULL,
+      duration_ms INTEGER NOT NULL,
+      tool_calls INTEGER NOT NULL,
+      outcome TEXT NOT NULL,
+      occurred_at TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    -- Change notifications for department members (lib/notifications.ts)
+    CREATE TABLE IF NOT EXISTS notifications (
+      id TEXT PRIMARY KEY,
+      company_id TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL,
+      department_id TEXT,
+      actor_id TEXT,
+      kind TEXT NOT NULL, -- audit action of the change, e.g. 'git.push'
+      paths TEXT NOT NULL, -- JSON array of changed paths in the department
+      created_at TEXT NOT NULL,
+      read_at TEXT
+    );
+
+    -- Personal access tokens for Git and API access (lib/access-tokens.ts).
+    -- Only the SHA-256 hash of a token is stored.
+    CREATE TABLE IF NOT EXISTS access_tokens (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      token_prefix TEXT NOT NULL,
+      scopes TEXT NOT NULL, -- JSON array of AccessTokenScope
+      expires_at TEXT,
+      last_used_at TEXT,
+      created_at TEXT NOT NULL
+    );
+
+    -- One-time password reset links issued by an admin (routes/password-resets.ts).
+    -- Only the SHA-256 hash of a token is stored.
+    CREATE TABLE IF NOT EXISTS password_resets (
+      id TEXT PRIMARY KEY,
+      company_id TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      created_by TEXT NOT NULL,
+      used_at TEXT,
+      expires_at TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    -- Department folder renames, replayed by desktop clients on their next
+    -- sync (lib/department-moves.ts)
+    CREATE TABLE IF NOT EXISTS department_moves (
+      id TEXT PRIMARY KEY,
+      company_id TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+      department_id TEXT NOT NULL,
+      from_path TEXT NOT NULL,
+      to_path TEXT NOT NULL,
+      commit_sha TEXT, -- NULL when the folder was not in the repository
+      skill_references TEXT NOT NULL DEFAULT '[]', -- JSON: SKILL.md lines still mentioning from_path
+      moved_by TEXT,
+      created_at TEXT NOT NULL
+    );
+
+    -- Objects of the large file store (Git LFS), one per company and content
+    -- hash; the files live below LARGE_FILES_DIR (lib/large-files.ts)
+    CREATE TABLE IF NOT EXISTS large_files (
+      company_id TEXT NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+      oid TEXT NOT NULL, -- SHA-256 of the content
+      size INTEGER NOT NULL,
+      uploaded_by TEXT,
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (company_id, oid)
+    );
+
     -- Indexes
     CREATE INDEX IF NOT EXISTS idx_memberships_user_id ON memberships(user_id);
     CREATE INDEX IF NOT EXISTS idx_memberships_company_id ON memberships(company_id);
@@ -98,11 +270,50 @@ export function initDatabase() {
     CREATE INDEX IF NOT EXISTS idx_departments_company_id ON departments(company_id);
     CREATE INDEX IF NOT EXISTS idx_departments_parent_id ON departments(parent_id);
     CREATE UNIQUE INDEX IF NOT EXISTS idx_departments_company_folder ON departments(company_id, folder);
+    CREATE INDEX IF NOT EXISTS idx_department_members_company_user ON department_members(company_id, user_id);
+    CREATE INDEX IF NOT EXISTS idx_roles_company_id ON roles(company_id);
+    CREATE INDEX IF NOT EXISTS idx_permissions_company_id ON permissions(company_id);
+    CREATE INDEX IF NOT EXISTS idx_permissions_user_id ON permissions(user_id);
+    CREATE INDEX IF NOT EXISTS idx_audit_events_company_created ON audit_events(company_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_skill_usage_company_occurred ON skill_usage_events(company_id, occurred_at);
+    CREATE INDEX IF NOT EXISTS idx_notifications_user_company ON notifications(user_id, company_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_access_tokens_user_id ON access_tokens(user_id);
+    CREATE INDEX IF NOT EXISTS idx_password_resets_user_id ON password_resets(user_id);
+    CREATE INDEX IF NOT EXISTS idx_department_moves_company_created ON department_moves(company_id, created_at);
   `)
 
+  // Columns added after the first release (CREATE TABLE IF NOT EXISTS leaves
+  // existing tables untouched)
+  addColumnIfMissing('companies', 'read_isolation', 'INTEGER NOT NULL DEFAULT 0')
+  addColumnIfMissing('companies', 'department_retention_days', 'INTEGER')
+  addColumnIfMissing('companies', 'large_file_quota_gb', 'INTEGER')
+  addColumnIfMissing('departments', 'archived_at', 'TEXT')
+  addColumnIfMissing('departments', 'archived_by', 'TEXT')
+  addColumnIfMissing('departments', 'archived_from', 'TEXT')
+  addColumnIfMissing('memberships', 'scope_department_id', 'TEXT REFERENCES departments(id) ON DELETE SET NULL')
+  addColumnIfMissing('memberships', 'checkout_folders', 'TEXT')
+  addColumnIfMissing('invitations', 'email', 'TEXT')
+  addColumnIfMissing('invitations', 'email_domain', 'TEXT')
+  addColumnIfMissing('invitations', 'name', 'TEXT')
+  addColumnIfMissing('invitations', 'max_uses', 'INTEGER NOT NULL DEFAULT 1')
+  addColumnIfMissing('invitations', 'department_ids', 'TEXT')
+  addColumnIfMissing('invitations', 'checkout_folders', 'TEXT')
+  if (addColumnIfMissing('invitations', 'use_count', 'INTEGER NOT NULL DEFAULT 0')) {
+    // Links used before use counts existed were single-use
+    sqlite.exec('UPDATE invitations SET use_count = 1 WHERE used_by IS NOT NULL')
+  }
+
   console.log('Application database initialized at:', dbPath)
 }
 
+// Returns whether the column was added
+function addColumnIfMissing(table: string, column: string, definition: string): boolean {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>
+  if (columns.some(c => c.name === column)) return false
+  sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+  return true
+}
+
 // Helper functions for common operations
 export function generateId(): string {
   return crypto.randomUUID()
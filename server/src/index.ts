@@ -6,16 +6,27 @@ import { cors } from 'hono/cors'
 import { logger } from 'hono/logger'
 import Database from 'better-sqlite3'
 import path from 'path'
-import { auth } from './lib/auth'
-import { db, initDatabase } from './db'
+import { auth, enabledSsoProviders } from './lib/auth'
+import { initDatabase } from './db'
+import { findUsableInvitation } from './lib/invitations'
 import { meRoute } from './routes/me'
 import { sshKeysRoute } from './routes/ssh-keys'
+import { accessTokensRoute } from './routes/access-tokens'
 import { companiesRoute } from './routes/companies'
 import { departmentsRoute } from './routes/departments'
+import { permissionsRoute } from './routes/permissions'
+import { auditRoute } from './routes/audit'
+import { rolesRoute } from './routes/roles'
+import { notificationsRoute } from './routes/notifications'
+import { skillsRoute } from './routes/skills'
+import { repoRoute } from './routes/repo'
 import { syncRoute } from './routes/sync'
 import { gitRoute, configureAllBareRepos } from './routes/git'
 import { gitHttpRoute } from './routes/git-http'
 import { invitationsRoute } from './routes/invitations'
+import { passwordResetsRoute } from './routes/password-resets'
+import { purgeExpiredDepartments } from './lib/department-archive'
+import { configureAllViewRepos } from './lib/repo-views'
 
 // Initialize database
 initDatabase()
@@ -26,6 +37,27 @@ initDatabase()
   const { total, failed } = configureAllBareRepos()
   console.log(`Configured ${total - failed}/${total} bare repositories${failed > 0 ? ` (${failed} failed)` : ''}`)
 }
+{
+  const { total, failed } = configureAllViewRepos()
+  if (total > 0) {
+    console.log(`Configured ${total - failed}/${total} repository views${failed > 0 ? ` (${failed} failed)` : ''}`)
+  }
+}
+
+// Remove archived departments past their company's retention period, on
+// startup and then hourly
+{
+  const purgeArchivedDepartments = () => {
+    try {
+      const purged = purgeExpiredDepartments()
+      if (purged > 0) console.log(`Purged ${purged} archived department(s)`)
+    } catch (error) {
+      console.error('Failed to purge archived departments:', error)
+    }
+  }
+  purgeArchivedDepartments()
+  setInterval(purgeArchivedDepartments, 60 * 60 * 1000).unref()
+}
 
 // Clean up expired sessions on startup
 const dataDir = process.env.DATA_DIR || path.join(process.cwd(), 'data')
@@ -76,6 +108,18 @@ authDb.exec(`
     createdAt TEXT NOT NULL DEFAULT (datetime('now')),
     updatedAt TEXT NOT NULL DEFAULT (datetime('now'))
   );
+  -- SSO plugin: providers are configured through env vars (lib/sso.ts), but
+  -- the plugin still looks here for providers it does not know
+  CREATE TABLE IF NOT EXISTS ssoProvider (
+    id TEXT PRIMARY KEY,
+    issuer TEXT NOT NULL,
+    oidcConfig TEXT,
+    samlConfig TEXT,
+    userId TEXT REFERENCES user(id) ON DELETE CASCADE,
+    providerId TEXT NOT NULL UNIQUE,
+    organizationId TEXT,
+    domain TEXT NOT NULL
+  );
 `)
 
 const deleted = authDb.prepare('DELETE FROM session WHERE expiresAt < ?').run(new Date().toISOString())
@@ -115,6 +159,7 @@ app.get('/api/config', (c) => {
       name: 'AI Company Builder',
       version: '1.0.0',
       setupComplete: result.count > 0,
+      ssoProviders: enabledSsoProviders,
     },
   })
 })
@@ -128,15 +173,15 @@ app.on(['GET', 'POST'], '/api/auth/**', async (c) => {
     authDbConn.close()
 
     if (result.count > 0) {
-      // Allow signup only with valid invitation token
+      // Allow signup only with a usable invitation token that allows this email
       const invitationToken = c.req.header('X-Invitation-Token')
       if (invitationToken) {
-        const invitation = db.prepare(
-          "SELECT id FROM invitations WHERE token = ? AND used_by IS NULL AND expires_at > datetime('now')"
-        ).get(invitationToken)
-        if (invitation) {
+        const body = await c.req.raw.clone().json().catch(() => ({})) as { email?: unknown }
+        const found = findUsableInvitation(invitationToken, typeof body.email === 'string' ? body.email : '')
+        if ('invitation' in found) {
           return auth.handler(c.req.raw)
         }
+        return c.json({ error: found.error }, 403)
       }
       return c.json({ error: 'Signup is disabled. Please use an invitation link.' }, 403)
     }
@@ -148,12 +193,20 @@ app.on(['GET', 'POST'], '/api/auth/**', async (c) => {
 // Routes
 app.route('/api/me', meRoute)
 app.route('/api/users/me/ssh-keys', sshKeysRoute)
+app.route('/api/users/me/tokens', accessTokensRoute)
 app.route('/api/companies', companiesRoute)
 app.route('/api/companies/:companyId/departments', departmentsRoute)
+app.route('/api/companies/:companyId/permissions', permissionsRoute)
+app.route('/api/companies/:companyId/audit', auditRoute)
+app.route('/api/companies/:companyId/roles', rolesRoute)
+app.route('/api/companies/:companyId/notifications', notificationsRoute)
+app.route('/api/companies/:companyId/skills', skillsRoute)
+app.route('/api/companies/:companyId/repo', repoRoute)
 app.route('/api/sync', syncRoute)
 app.route('/api/git', gitRoute)
 app.route('/api/git-http', gitHttpRoute)
 app.route('/api', invitationsRoute)
+app.route('/api', passwordResetsRoute)
 
 // Start server
 const port = Number(process.env.PORT) || 3001
@@ -0,0 +1,81 @@
+import { createHash, randomBytes } from 'crypto'
+import { db, now } from '../db'
+import type { AccessToken, AccessTokenScope } from '../../shared/types'
+
+// Personal access tokens (access_tokens table).
+//
+// Scripts and CI jobs use them instead of a login session: as the password of
+// /api/git-http Basic auth, or as `Authorization: Bearer <token>` for the REST
+// API. Only a SHA-256 hash is stored, so a token is shown once at creation.
+
+export const ACCESS_TOKEN_SCOPES: AccessTokenScope[] = ['repo:read', 'repo:write', 'api:read', 'api:write']
+
+// Lets the auth code tell a token from a session token at a glance
+export const ACCESS_TOKEN_PREFIX = 'acb_pat_'
+
+// Shown in listings so users can tell their tokens apart
+const DISPLAY_PREFIX_LENGTH = ACCESS_TOKEN_PREFIX.length + 4
+
+export function isAccessToken(token: string): boolean {
+  return token.startsWith(ACCESS_TOKEN_PREFIX)
+}
+
+export function hashAccessToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export function generateAccessToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `${ACCESS_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+  return { token, tokenHash: hashAccessToken(token), tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH) }
+}
+
+export function toAccessToken(row: Record<string, unknown>): AccessToken {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    tokenPrefix: row.token_prefix as string,
+    scopes: JSON.parse(row.scopes as string) as AccessTokenScope[],
+    expiresAt: (row.expires_at as string | null) ?? null,
+    lastUsedAt: (row.last_used_at as string | null) ?? null,
+    createdAt: row.created_at as string,
+  }
+}
+
+// The user a token belongs to, if it exists, has not expired and grants
+// `scope`. Records the use, so stale tokens can be spotted and revoked.
+export function verifyAccessToken(token: string, scope: AccessTokenScope): { userId: string; tokenId: string } | null {
+  if (!isAccessToken(token)) return null
+
+  const row = db.prepare(`
+    SELECT id, user_id, scopes, expires_at FROM access_tokens WHERE token_hash = ?
+  `).get(hashAccessToken(token)) as { id: string; user_id: string; scopes: string; expires_at: string | null } | undefined
+  if (!row) return null
+
+  const timestamp = now()
+  if (row.expires_at && row.expires_at <= timestamp) return null
+
+  const scopes = JSON.parse(row.scopes) as AccessTokenScope[]
+  if (!scopes.includes(scope)) return null
+
+  db.prepare('UPDATE access_tokens SET last_used_at = ? WHERE id = ?').run(timestamp, row.id)
+  return { userId: row.user_id, tokenId: row.id }
+}
+
+// Revoke every token of a user (e.g. after a password reset, when a leaked
+// token must not outlive the old password). Returns how many were revoked.
+export function revokeAccessTokens(userId: string): number {
+  return db.prepare('DELETE FROM access_tokens WHERE user_id = ?').run(userId).changes
+}
+
+// REST requests need api:read to read and api:write for everything else
+export function apiScopeForMethod(method: string): AccessTokenScope {
+  return method === 'GET' || method === 'HEAD' ? 'api:read' : 'api:write'
+}
+
+// The bearer token of a request, if it is a personal access token
+export function getBearerAccessToken(request: Request): string | null {
+  const header = request.headers.get('Authorization')
+  if (!header?.startsWith('Bearer ')) return null
+  const token = header.slice(7).trim()
+  return isAccessToken(token) ? token : null
+}
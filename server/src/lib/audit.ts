@@ -0,0 +1,63 @@
+import { db, generateId, now } from '../db'
+
+// Company audit log (audit_events table). Events are append-only and
+// written after the change succeeded.
+
+export type AuditAction =
+  | 'department.create'
+  | 'department.update'
+  | 'department.delete'
+  | 'department.move'
+  | 'department.archive'
+  | 'department.restore'
+  | 'department.assign'
+  | 'department.unassign'
+  | 'member.add'
+  | 'member.remove'
+  | 'member.role'
+  | 'member.leave'
+  | 'role.create'
+  | 'role.update'
+  | 'role.delete'
+  | 'invitation.create'
+  | 'invitation.accept'
+  | 'password_reset.create'
+  | 'password_reset.complete'
+  | 'permission.grant'
+  | 'permission.update'
+  | 'permission.revoke'
+  | 'company.settings'
+  | 'company.transfer'
+  | 'git.push'
+  | 'file.upload'
+
+export interface AuditEventInput {
+  companyId: string
+  actorId: string | null
+  action: AuditAction
+  targetType?: string
+  targetId?: string
+  details?: Record<string, unknown>
+}
+
+// Never throws: a failed audit write must not undo or fail the change that
+// already happened, so it is only logged.
+export function recordAuditEvent(event: AuditEventInput): void {
+  try {
+    db.prepare(`
+      INSERT INTO audit_events (id, company_id, actor_id, action, target_type, target_id, details, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      generateId(),
+      event.companyId,
+      event.actorId,
+      event.action,
+      event.targetType ?? null,
+      event.targetId ?? null,
+      event.details ? JSON.stringify(event.details) : null,
+      now()
+    )
+  } catch (error) {
+    console.error(`[audit] Failed to record ${event.action} for company ${event.companyId}:`, error)
+  }
+}
@@ -1,7 +1,12 @@
 import { betterAuth } from 'better-auth'
+import { createAuthMiddleware } from 'better-auth/api'
+import { sso } from '@better-auth/sso'
 import Database from 'better-sqlite3'
 import path from 'path'
 import fs from 'fs'
+import { apiScopeForMethod, getBearerAccessToken, verifyAccessToken } from './access-tokens'
+import { sendMail } from './mail'
+import { buildSsoProviders, listSsoProviders, provisionSsoUser, resolveOidcEndpoints } from './sso'
 
 // Ensure data directory exists
 const dataDir = process.env.DATA_DIR || path.join(process.cwd(), 'data')
@@ -11,12 +16,64 @@ if (!fs.existsSync(dataDir)) {
 
 const dbPath = path.join(dataDir, 'auth.sqlite')
 
+// Redirects to and from an identity provider need the public address; without
+// PUBLIC_URL Better Auth falls back to BETTER_AUTH_URL or the request's own URL
+const authBaseURL = process.env.PUBLIC_URL ? `${process.env.PUBLIC_URL.replace(/\/$/, '')}/api/auth` : undefined
+
+const ssoProviders = buildSsoProviders(authBaseURL)
+
+/** SSO providers configured on this server (for the sign-in screens) */
+export const enabledSsoProviders = listSsoProviders(ssoProviders)
+
 export const auth = betterAuth({
   database: new Database(dbPath),
+  baseURL: authBaseURL,
   emailAndPassword: {
     enabled: true,
     minPasswordLength: 8,
   },
+  user: {
+    // Email changes go through a link sent to the new address (and, for an
+    // already verified address, a confirmation sent to the old one first)
+    changeEmail: {
+      enabled: true,
+      sendChangeEmailConfirmation: async ({ user, newEmail, url }) => {
+        await sendMail({
+          to: user.email,
+          subject: 'メールアドレス変更の確認',
+          text: `メールアドレスを ${newEmail} に変更するには、次のリンクを開いてください。\n\n${url}\n\n心当たりがない場合は、このメールを無視してください。`,
+        })
+      },
+    },
+  },
+  emailVerification: {
+    sendVerificationEmail: async ({ user, url }) => {
+      await sendMail({
+        to: user.email,
+        subject: 'メールアドレスの確認',
+        text: `次のリンクを開いて、メールアドレス ${user.email} を確認してください。\n\n${url}`,
+      })
+    },
+  },
+  plugins: [
+    sso({
+      defaultSSO: ssoProviders,
+      // An SSO sign-in attaches to an existing account with the same email only
+      // when the IdP asserts that email as verified (email_verified); otherwise
+      // anyone able to set their own IdP email could take over that account
+      trustEmailVerified: true,
+      // Providers come from env vars only; users cannot register their own
+      providersLimit: 0,
+      provisionUser: ({ user, userInfo }) => provisionSsoUser(user.id, userInfo.groups),
+    }),
+  ],
+  hooks: {
+    before: createAuthMiddleware(async (ctx) => {
+      if (ctx.path === '/sign-in/sso' || ctx.path.startsWith('/sso/callback')) {
+        await resolveOidcEndpoints(ssoProviders)
+      }
+    }),
+  },
   session: {
     expiresIn: 60 * 60 * 24 * 7, // 7 days
     updateAge: 60 * 60 * 24, // 1 day
@@ -75,8 +132,31 @@ export function getUsersByIds(userIds: string[]): Map<string, { email: string; n
   return result
 }
 
-// Helper to get user from session
+/** Look up a single user in auth.sqlite */
+export function getUserById(userId: string): AuthUser | null {
+  const row = authDb.prepare(
+    'SELECT id, email, name, image, emailVerified FROM user WHERE id = ?'
+  ).get(userId) as { id: string; email: string; name: string | null; image: string | null; emailVerified: number } | undefined
+  if (!row) return null
+
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name ?? null,
+    image: row.image ?? null,
+    emailVerified: !!row.emailVerified,
+  }
+}
+
+// Helper to get user from session, or from a personal access token sent as
+// `Authorization: Bearer <token>` (api:read for GET, api:write otherwise)
 export async function getUserFromRequest(request: Request): Promise<AuthUser | null> {
+  const accessToken = getBearerAccessToken(request)
+  if (accessToken) {
+    const verified = verifyAccessToken(accessToken, apiScopeForMethod(request.method))
+    return verified ? getUserById(verified.userId) : null
+  }
+
   const session = await auth.api.getSession({
     headers: request.headers,
   })
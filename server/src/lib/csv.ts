@@ -0,0 +1,62 @@
+// CSV in the RFC 4180 dialect spreadsheets produce: comma-separated, fields
+// optionally double-quoted ("" inside quotes is a literal quote), CRLF or LF
+// line endings. Used for the member roster import/export.
+
+// Parse CSV text into rows of fields. A leading byte order mark (Excel adds
+// one to UTF-8 files) is ignored, and blank lines are skipped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0] !== '') rows.push(row)
+    row = []
+    field = ''
+  }
+
+  for (; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          quoted = false
+        }
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) endRow()
+
+  return rows
+}
+
+// Values that spreadsheets would evaluate as formulas are prefixed with a
+// quote so a name such as "=HYPERLINK(...)" stays plain text
+function escapeField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+// Serialize rows as CSV with CRLF line endings. Starts with a byte order
+// mark so Excel opens Japanese names as UTF-8.
+export function toCsv(rows: string[][]): string {
+  return '\uFEFF' + rows.map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n'
+}
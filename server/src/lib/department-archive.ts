@@ -0,0 +1,217 @@
+import { join } from 'path'
+import { db, now } from '../db'
+import { recordAuditEvent } from './audit'
+import { rewritePathReferences } from './department-moves'
+import { applyFolderChanges, ARCHIVE_FOLDER, SYSTEM_AUTHOR, type CommitAuthor, type FolderChange } from './repo-folders'
+import { scheduleSkillIndex } from './skill-index'
+
+// Archived departments (departments.archived_at).
+//
+// Deleting a department archives it together with its subdepartments: the
+// rows stay, and their folders move below .archive/ on main in one commit
+// (path references follow, like on a rename). A restore moves them back.
+// Once a company's retention period (companies.department_retention_days)
+// has passed, archived folders and rows are removed for good; without a
+// retention period they are kept.
+
+const DATA_DIR = process.env.DATA_DIR || join(process.cwd(), 'data')
+const REPOS_DIR = process.env.REPOS_DIR || join(DATA_DIR, 'repos')
+
+export const MAX_RETENTION_DAYS = 3650
+
+interface DepartmentRow {
+  id: string
+  parent_id: string | null
+  name: string
+  folder: string
+  archived_at: string | null
+  archived_from: string | null
+}
+
+export type ArchiveResult =
+  | { commit: string | null; departments: DepartmentRow[] }
+  | { error: string; status: 400 | 404 | 409 }
+
+function getBareRepoPath(companyId: string): string {
+  const sanitizedId = companyId.replace(/[^a-zA-Z0-9_-]/g, '')
+  return join(REPOS_DIR, `${sanitizedId}.git`)
+}
+
+// Name below .archive/ — the folder plus the archive time, so a folder can
+// be archived again after it was restored or recreated
+function archiveName(folder: string, timestamp: string): string {
+  return `${folder}.${timestamp.replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z')}`
+}
+
+// The department and everything below it, parents first
+function loadSubtree(companyId: string, departmentId: string): DepartmentRow[] {
+  return db.prepare(`
+    WITH RECURSIVE subtree(id, depth) AS (
+      SELECT id, 0 FROM departments WHERE id = ? AND company_id = ?
+      UNION ALL
+      SELECT d.id, s.depth + 1 FROM departments d JOIN subtree s ON d.parent_id = s.id
+    )
+    SELECT d.id, d.parent_id, d.name, d.folder, d.archived_at, d.archived_from
+    FROM subtree s JOIN departments d ON d.id = s.id
+    ORDER BY s.depth
+  `).all(departmentId, companyId) as DepartmentRow[]
+}
+
+// Archive an active department and its active subdepartments
+export function archiveDepartment(
+  companyId: string,
+  departmentId: string,
+  author: CommitAuthor,
+  archivedBy: string
+): ArchiveResult {
+  const departments = loadSubtree(companyId, departmentId).filter(dept => !dept.archived_at)
+  if (departments.length === 0) {
+    return { error: 'Department not found', status: 404 }
+  }
+
+  const timestamp = now()
+  const targets = departments.map(dept => ({ dept, name: archiveName(dept.folder, timestamp) }))
+  const result = applyFolderChanges(
+    getBareRepoPath(companyId),
+    targets.map(({ dept, name }): FolderChange => ({ type: 'archive', folder: dept.folder, name })),
+    `Archive department: ${departments[0].name} (${departments[0].folder})`,
+    author
+  )
+  if ('error' in result) {
+    return result
+  }
+
+  db.transaction(() => {
+    const update = db.prepare(`
+      UPDATE departments
+      SET archived_at = ?, archived_by = ?, archived_from = folder, folder = ?, updated_at = ?
+      WHERE id = ?
+    `)
+    for (const { dept, name } of targets) {
+      const archivedPath = `${ARCHIVE_FOLDER}/${name}`
+      update.run(timestamp, archivedBy, archivedPath, timestamp, dept.id)
+      rewritePathReferences(companyId, dept.folder, archivedPath, timestamp)
+    }
+  })()
+  if (result.commit) scheduleSkillIndex(companyId)
+
+  return { commit: result.commit, departments }
+}
+
+// Restore an archived department and the subdepartments archived with it
+export function restoreDepartment(companyId: string, departmentId: string, author: CommitAuthor): ArchiveResult {
+  const [root, ...below] = loadSubtree(companyId, departmentId)
+  if (!root?.archived_at || !root.archived_from) {
+    return { error: 'Department is not archived', status: 404 }
+  }
+
+  if (root.parent_id) {
+    const parent = db.prepare('SELECT archived_at FROM departments WHERE id = ?').get(root.parent_id) as
+      { archived_at: string | null }
+    if (parent.archived_at) {
+      return { error: 'Restore the parent department first', status: 400 }
+    }
+  }
+
+  const departments = [root, ...below.filter(dept => dept.archived_at === root.archived_at && dept.archived_from)]
+  const findActive = db.prepare(`
+    SELECT 1 FROM departments WHERE company_id = ? AND folder = ? AND archived_at IS NULL
+  `)
+  for (const dept of departments) {
+    if (findActive.get(companyId, dept.archived_from)) {
+      return { error: `A department already uses the folder ${dept.archived_from}`, status: 409 }
+    }
+  }
+
+  const result = applyFolderChanges(
+    getBareRepoPath(companyId),
+    departments.map((dept): FolderChange => ({
+      type: 'unarchive',
+      name: dept.folder.slice(ARCHIVE_FOLDER.length + 1),
+      folder: dept.archived_from!,
+    })),
+    `Restore department: ${root.name} (${root.archived_from})`,
+    author
+  )
+  if ('error' in result) {
+    return result
+  }
+
+  const timestamp = now()
+  db.transaction(() => {
+    const update = db.prepare(`
+      UPDATE departments
+      SET folder = archived_from, archived_at = NULL, archived_by = NULL, archived_from = NULL, updated_at = ?
+      WHERE id = ?
+    `)
+    for (const dept of departments) {
+      update.run(timestamp, dept.id)
+      rewritePathReferences(companyId, dept.folder, dept.archived_from!, timestamp)
+    }
+  })()
+  if (result.commit) scheduleSkillIndex(companyId)
+
+  return { commit: result.commit, departments }
+}
+
+// Remove archived departments whose retention period has passed, for one
+// company or all companies. Returns the number of departments removed.
+export function purgeExpiredDepartments(companyId?: string): number {
+  const companies = db.prepare(`
+    SELECT id, department_retention_days FROM companies
+    WHERE department_retention_days IS NOT NULL ${companyId ? 'AND id = ?' : ''}
+  `).all(...(companyId ? [companyId] : [])) as Array<{ id: string; department_retention_days: number }>
+
+  let purged = 0
+  for (const company of companies) {
+    const cutoff = new Date(Date.now() - company.department_retention_days * 24 * 60 * 60 * 1000).toISOString()
+    const expired = db.prepare(`
+      SELECT id, parent_id, name, folder, archived_at, archived_from FROM departments
+      WHERE company_id = ? AND archived_at IS NOT NULL AND archived_at <= ?
+    `).all(company.id, cutoff) as DepartmentRow[]
+    if (expired.length === 0) continue
+
+    try {
+      const result = applyFolderChanges(
+        getBareRepoPath(company.id),
+        expired.map((dept): FolderChange => ({ type: 'purge', name: dept.folder.slice(ARCHIVE_FOLDER.length + 1) })),
+        `Purge archived departments: ${expired.map(dept => dept.archived_from).join(', ')}`,
+        SYSTEM_AUTHOR
+      )
+      // A missing repository has nothing left to purge
+      if ('error' in result && result.status !== 404) {
+        console.warn(`[department-archive] Could not purge departments of ${company.id}: ${result.error}`)
+        continue
+      }
+
+      db.transaction(() => {
+        const rules = db.prepare('SELECT id, path FROM permissions WHERE company_id = ?').all(company.id) as
+          Array<{ id: string; path: string }>
+        const deleteRule = db.prepare('DELETE FROM permissions WHERE id = ?')
+        const deleteDepartment = db.prepare('DELETE FROM departments WHERE id = ?')
+        for (const dept of expired) {
+          for (const rule of rules) {
+            if (rule.path === dept.folder || rule.path.startsWith(`${dept.folder}/`)) deleteRule.run(rule.id)
+          }
+          deleteDepartment.run(dept.id)
+        }
+      })()
+    } catch (error) {
+      console.error(`[department-archive] Failed to purge departments of ${company.id}:`, error)
+      continue
+    }
+
+    for (const dept of expired) {
+      recordAuditEvent({
+        companyId: company.id,
+        actorId: null,
+        action: 'department.delete',
+        targetType: 'department',
+        targetId: dept.id,
+        details: { name: dept.name, folder: dept.archived_from, archivedAt: dept.archived_at },
+      })
+    }
+    purged += expired.length
+  }
+  return purged
+}
@@ -0,0 +1,126 @@
+import { db, generateId, now } from '../db'
+import { parseJsonList } from './invitations'
+import type { DepartmentMove, SkillReference } from '../../shared/types'
+
+// Department folder moves (department_moves).
+//
+// When a department's folder is renamed, references to the old path are
+// rewritten on the server right away (folder permissions, first-checkout
+// folders of memberships and invitations). References that only exist on
+// members' machines — sparse checkout exclusions and private skill entries
+// in .gitignore — are rewritten by the desktop app from this log on its next
+// sync (GET /departments/moves).
+
+interface MoveRow {
+  id: string
+  department_id: string
+  from_path: string
+  to_path: string
+  commit_sha: string | null
+  skill_references: string
+  moved_by: string | null
+  created_at: string
+}
+
+function toDepartmentMove(row: MoveRow): DepartmentMove {
+  let skillReferences: SkillReference[] = []
+  try {
+    skillReferences = JSON.parse(row.skill_references)
+  } catch {
+    // Keep the move usable without its references
+  }
+  return {
+    id: row.id,
+    departmentId: row.department_id,
+    fromPath: row.from_path,
+    toPath: row.to_path,
+    commit: row.commit_sha,
+    skillReferences,
+    movedBy: row.moved_by,
+    createdAt: row.created_at,
+  }
+}
+
+// `path` rewritten from below `from` to below `to`; null if it is outside `from`
+export function movePath(path: string, from: string, to: string): string | null {
+  if (path === from) return to
+  if (path.startsWith(`${from}/`)) return `${to}${path.slice(from.length)}`
+  return null
+}
+
+// Point server-side references below `from` at `to`: folder permissions and
+// the first-checkout folders of memberships and invitations. Runs inside the
+// caller's transaction.
+export function rewritePathReferences(companyId: string, from: string, to: string, timestamp: string): void {
+  // Folder permissions follow the folder (a rule already on the new path
+  // for the same member is replaced)
+  const rules = db.prepare(`
+    SELECT id, path FROM permissions WHERE company_id = ?
+  `).all(companyId) as Array<{ id: string; path: string }>
+  const updateRule = db.prepare('UPDATE OR REPLACE permissions SET path = ?, updated_at = ? WHERE id = ?')
+  for (const rule of rules) {
+    const path = movePath(rule.path, from, to)
+    if (path) updateRule.run(path, timestamp, rule.id)
+  }
+
+  for (const table of ['memberships', 'invitations'] as const) {
+    const rows = db.prepare(`
+      SELECT id, checkout_folders FROM ${table} WHERE company_id = ? AND checkout_folders IS NOT NULL
+    `).all(companyId) as Array<{ id: string; checkout_folders: string }>
+    const update = db.prepare(`UPDATE ${table} SET checkout_folders = ? WHERE id = ?`)
+    for (const row of rows) {
+      const folders = parseJsonList(row.checkout_folders)
+      if (!folders.includes(from)) continue
+      const moved = folders.map(folder => (folder === from ? to : folder))
+      update.run(JSON.stringify([...new Set(moved)]), row.id)
+    }
+  }
+}
+
+export function recordDepartmentMove(input: {
+  companyId: string
+  departmentId: string
+  fromPath: string
+  toPath: string
+  commit: string | null
+  skillReferences: SkillReference[]
+  movedBy: string
+}): DepartmentMove {
+  const id = generateId()
+  const timestamp = now()
+
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO department_moves (
+        id, company_id, department_id, from_path, to_path, commit_sha, skill_references, moved_by, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id,
+      input.companyId,
+      input.departmentId,
+      input.fromPath,
+      input.toPath,
+      input.commit,
+      JSON.stringify(input.skillReferences),
+      input.movedBy,
+      timestamp
+    )
+
+    rewritePathReferences(input.companyId, input.fromPath, input.toPath, timestamp)
+  })()
+
+  return toDepartmentMove(db.prepare('SELECT * FROM department_moves WHERE id = ?').get(id) as MoveRow)
+}
+
+// Moves of a company in the order they happened, optionally only those
+// recorded after `since` (ISO timestamp)
+export function listDepartmentMoves(companyId: string, since?: string): DepartmentMove[] {
+  const rows = since
+    ? db.prepare(`
+        SELECT * FROM department_moves WHERE company_id = ? AND created_at > ? ORDER BY created_at ASC
+      `).all(companyId, since)
+    : db.prepare(`
+        SELECT * FROM department_moves WHERE company_id = ? ORDER BY created_at ASC
+      `).all(companyId)
+  return (rows as MoveRow[]).map(toDepartmentMove)
+}
@@ -0,0 +1,68 @@
+import { db } from '../db'
+
+// Invitation links (invitations table). A link can be addressed to one email
+// address or one email domain, and used up to max_uses times. It is checked
+// both when signing up with it (index.ts) and when accepting it.
+//
+// The address is not verified at sign-up, so the email and domain only guard
+// against typos and a link forwarded by mistake; they are not an access
+// control. Whoever holds the link can join.
+
+export type InvitationCheck =
+  | { invitation: Record<string, unknown> }
+  | { error: string; status: 403 | 404 | 410 }
+
+export function parseJsonList(value: unknown): string[] {
+  if (typeof value !== 'string') return []
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+// Whether an email address satisfies the link's email or domain restriction
+function isEmailAllowed(invitation: Record<string, unknown>, email: string): boolean {
+  const address = email.trim().toLowerCase()
+  if (invitation.email && address !== invitation.email) return false
+  if (invitation.email_domain && address.split('@')[1] !== invitation.email_domain) return false
+  return true
+}
+
+// Look up a usable invitation by token: 404 when unknown, 410 when used up or
+// expired, 403 when an email is given that the link does not allow
+export function findUsableInvitation(token: string, email?: string): InvitationCheck {
+  const invitation = db.prepare(`
+    SELECT i.*, c.name as company_name
+    FROM invitations i
+    JOIN companies c ON i.company_id = c.id
+    WHERE i.token = ?
+  `).get(token) as Record<string, unknown> | undefined
+
+  if (!invitation) {
+    return { error: 'Invalid invitation link', status: 404 }
+  }
+
+  if ((invitation.use_count as number) >= (invitation.max_uses as number)) {
+    return {
+      error: invitation.max_uses === 1 ? 'This invitation has already been used' : 'This invitation has reached its usage limit',
+      status: 410,
+    }
+  }
+
+  if (new Date(invitation.expires_at as string) < new Date()) {
+    return { error: 'This invitation has expired', status: 410 }
+  }
+
+  if (email !== undefined && !isEmailAllowed(invitation, email)) {
+    return {
+      error: invitation.email
+        ? 'This invitation is for a different email address'
+        : `This invitation is only for @${invitation.email_domain} email addresses`,
+      status: 403,
+    }
+  }
+
+  return { invitation }
+}
@@ -0,0 +1,216 @@
+import { execFileSync } from 'child_process'
+import { createHash, randomUUID } from 'crypto'
+import { createWriteStream, existsSync, mkdirSync, renameSync, rmSync } from 'fs'
+import { join } from 'path'
+import { Readable, Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { ReadableStream as WebReadableStream } from 'stream/web'
+import { db, now } from '../db'
+import { isPrivilegedRole, loadPermissionRules, resolvePathAccess } from './permissions'
+import { getRepoPath } from './repo-browser'
+import { isReadIsolationEnabled } from './repo-views'
+
+// Large file store (Git LFS objects).
+//
+// Files above the client's size threshold are not committed: the repository
+// holds a small Git LFS pointer (oid = SHA-256 of the content, and size) and
+// the content is uploaded here through the LFS batch API in git-http.ts. The
+// store is content-addressed per company:
+//
+//   large-files/<companyId>/<oid[0:2]>/<oid[2:4]>/<oid>
+//
+// Every stored object counts against the company's quota
+// (companies.large_file_quota_gb, or the server default). Objects are kept
+// when the pointers to them go away, since older commits still refer to them.
+//
+// Downloads follow folder permissions: when folders are restricted (or read
+// isolation is on), a member only gets objects that a pointer on main refers
+// to from a path they can read, or that they uploaded themselves. Any other
+// object answers like a missing one.
+
+const DATA_DIR = process.env.DATA_DIR || join(process.cwd(), 'data')
+export const LARGE_FILES_DIR = process.env.LARGE_FILES_DIR || join(DATA_DIR, 'large-files')
+
+const GB = 1024 ** 3
+
+function positiveIntEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isInteger(value) && value > 0 ? value : fallback
+}
+
+// Quota of companies without their own setting, and the most a company may set
+export const DEFAULT_QUOTA_GB = positiveIntEnv('LARGE_FILE_QUOTA_GB', 10)
+export const MAX_QUOTA_GB = Math.max(positiveIntEnv('LARGE_FILE_MAX_QUOTA_GB', DEFAULT_QUOTA_GB), DEFAULT_QUOTA_GB)
+
+const OID_PATTERN = /^[0-9a-f]{64}$/
+
+export interface LargeFileUsage {
+  usedBytes: number
+  objectCount: number
+  quotaBytes: number
+  quotaGb: number | null // the company's own setting (null = server default)
+  defaultQuotaGb: number
+  maxQuotaGb: number
+}
+
+export type StoreResult =
+  | { stored: boolean } // false: the object was already there
+  | { error: string; status: 400 | 409 | 413 | 507 }
+
+export function isValidOid(oid: string): boolean {
+  return OID_PATTERN.test(oid)
+}
+
+function sanitizeCompanyId(companyId: string): string {
+  return companyId.replace(/[^a-zA-Z0-9_-]/g, '')
+}
+
+export function largeFilePath(companyId: string, oid: string): string {
+  return join(LARGE_FILES_DIR, sanitizeCompanyId(companyId), oid.slice(0, 2), oid.slice(2, 4), oid)
+}
+
+/** Size of a stored object, or null when it is not in the store */
+export function getLargeFileSize(companyId: string, oid: string): number | null {
+  const row = db.prepare(
+    'SELECT size FROM large_files WHERE company_id = ? AND oid = ?'
+  ).get(companyId, oid) as { size: number } | undefined
+  if (!row || !existsSync(largeFilePath(companyId, oid))) return null
+  return row.size
+}
+
+export function getLargeFileUsage(companyId: string): LargeFileUsage {
+  const usage = db.prepare(
+    'SELECT COALESCE(SUM(size), 0) AS used, COUNT(*) AS count FROM large_files WHERE company_id = ?'
+  ).get(companyId) as { used: number; count: number }
+  const company = db.prepare(
+    'SELECT large_file_quota_gb FROM companies WHERE id = ?'
+  ).get(companyId) as { large_file_quota_gb: number | null } | undefined
+  const quotaGb = company?.large_file_quota_gb ?? null
+
+  return {
+    usedBytes: usage.used,
+    objectCount: usage.count,
+    quotaBytes: (quotaGb ?? DEFAULT_QUOTA_GB) * GB,
+    quotaGb,
+    defaultQuotaGb: DEFAULT_QUOTA_GB,
+    maxQuotaGb: MAX_QUOTA_GB,
+  }
+}
+
+/**
+ * The objects of `oids` that a member may download. Pointers are searched on
+ * the tip of main, which is what a member's checkout (or view repo) holds.
+ */
+export function filterReadableLargeFiles(companyId: string, userId: string, role: string, oids: string[]): Set<string> {
+  const rules = loadPermissionRules(companyId)
+  if (isPrivilegedRole(role) || (rules.length === 0 && !isReadIsolationEnabled(companyId))) {
+    return new Set(oids)
+  }
+
+  const readable = new Set<string>()
+  const wanted = oids.filter(isValidOid)
+  if (wanted.length === 0) return readable
+
+  const ownUploads = db.prepare(`
+    SELECT oid FROM large_files WHERE company_id = ? AND uploaded_by = ? AND oid IN (${wanted.map(() => '?').join(', ')})
+  `).all(companyId, userId, ...wanted) as Array<{ oid: string }>
+  for (const { oid } of ownUploads) readable.add(oid)
+
+  const repoPath = getRepoPath(companyId)
+  if (!repoPath) return readable
+
+  // "refs/heads/main:<path>\0oid sha256:<oid>" per matching pointer
+  let matches = ''
+  try {
+    matches = execFileSync('git', [
+      '-C', repoPath, '-c', 'core.quotepath=false', 'grep', '-I', '-z', '-F', '-o',
+      ...wanted.flatMap(oid => ['-e', `oid sha256:${oid}`]),
+      'refs/heads/main', '--',
+    ], { stdio: 'pipe', maxBuffer: 64 * 1024 * 1024 }).toString()
+  } catch {
+    // No match (exit code 1) or no main branch yet
+  }
+
+  for (const record of matches.split('\n')) {
+    const [name, match] = record.split('\0')
+    if (!name || !match) continue
+    const path = name.slice('refs/heads/main:'.length)
+    const oid = match.slice('oid sha256:'.length)
+    if (resolvePathAccess(rules, userId, role, path).canRead) readable.add(oid)
+  }
+  return readable
+}
+
+/**
+ * Stream an upload into the store. The content must hash to `oid` and be
+ * exactly `size` bytes; it is only added if it fits the company's quota.
+ */
+export async function storeLargeFile(
+  companyId: string,
+  oid: string,
+  size: number,
+  body: ReadableStream<Uint8Array> | null,
+  uploadedBy: string,
+): Promise<StoreResult> {
+  if (!isValidOid(oid)) return { error: 'Invalid object id', status: 400 }
+  if (!Number.isSafeInteger(size) || size < 0) return { error: 'Invalid object size', status: 400 }
+  if (getLargeFileSize(companyId, oid) !== null) return { stored: false }
+
+  const { usedBytes, quotaBytes } = getLargeFileUsage(companyId)
+  if (usedBytes + size > quotaBytes) return { error: 'Large file storage quota exceeded', status: 507 }
+  if (!body) return { error: 'Missing object content', status: 400 }
+
+  const tmpDir = join(LARGE_FILES_DIR, 'tmp')
+  mkdirSync(tmpDir, { recursive: true })
+  const tmpPath = join(tmpDir, randomUUID())
+
+  const hash = createHash('sha256')
+  let received = 0
+  try {
+    await pipeline(
+      Readable.fromWeb(body as WebReadableStream<Uint8Array>),
+      new Transform({
+        transform(chunk: Buffer, _encoding, done) {
+          received += chunk.length
+          if (received > size) {
+            done(new Error('Object is larger than announced'))
+            return
+          }
+          hash.update(chunk)
+          done(null, chunk)
+        },
+      }),
+      createWriteStream(tmpPath),
+    )
+  } catch (error) {
+    rmSync(tmpPath, { force: true })
+    if (received > size) return { error: 'Object is larger than announced', status: 413 }
+    throw error
+  }
+
+  if (received !== size || hash.digest('hex') !== oid) {
+    rmSync(tmpPath, { force: true })
+    return { error: 'Object content does not match its id and size', status: 409 }
+  }
+
+  // Check the quota again in one transaction: other uploads may have
+  // finished while this one streamed
+  const finalPath = largeFilePath(companyId, oid)
+  const added = db.transaction(() => {
+    const { usedBytes: usedNow, quotaBytes: quotaNow } = getLargeFileUsage(companyId)
+    if (usedNow + size > quotaNow) return false
+    db.prepare(`
+      INSERT OR REPLACE INTO large_files (company_id, oid, size, uploaded_by, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(companyId, oid, size, uploadedBy, now())
+    mkdirSync(join(finalPath, '..'), { recursive: true })
+    renameSync(tmpPath, finalPath)
+    return true
+  })()
+
+  if (!added) {
+    rmSync(tmpPath, { force: true })
+    return { error: 'Large file storage quota exceeded', status: 507 }
+  }
+  return { stored: true }
+}
@@ -0,0 +1,80 @@
+// Outgoing mail (verification and password reset links).
+//
+// The server has no mail service of its own. With SMTP_URL set, messages go
+// out through that SMTP server; with MAIL_WEBHOOK_URL set, every message is
+// POSTed there as JSON ({ to, subject, text }) for a relay to deliver.
+// Without either, only the recipient and subject are logged: bodies carry
+// verification and reset links, which must not end up in log storage.
+// MAIL_LOG_BODY=1 logs the full message for local development.
+
+import { parseSmtpUrl, sendSmtp } from './smtp'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>
+}
+
+// Set by tests to capture messages instead of delivering them
+let transportOverride: MailTransport | null = null
+
+export function setMailTransport(transport: MailTransport | null): void {
+  transportOverride = transport
+}
+
+function defaultSender(): string {
+  const host = process.env.PUBLIC_URL ? new URL(process.env.PUBLIC_URL).hostname : 'localhost'
+  return `AI Company Builder <noreply@${host}>`
+}
+
+// Resolved per message rather than at import time
+function getTransport(): MailTransport | null {
+  if (transportOverride) return transportOverride
+
+  const smtpUrl = process.env.SMTP_URL
+  if (smtpUrl) {
+    const config = parseSmtpUrl(smtpUrl, process.env.MAIL_FROM || defaultSender())
+    return { send: (message) => sendSmtp(config, message) }
+  }
+
+  const webhookUrl = process.env.MAIL_WEBHOOK_URL
+  if (webhookUrl) {
+    return {
+      send: async (message) => {
+        const response = await fetch(webhookUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(message),
+        })
+        if (!response.ok) {
+          throw new Error(`Mail webhook responded with ${response.status}`)
+        }
+      },
+    }
+  }
+
+  return null
+}
+
+/** Whether messages actually leave the server (rather than only being logged) */
+export function isMailConfigured(): boolean {
+  return getTransport() !== null
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const transport = getTransport()
+  if (!transport) {
+    if (process.env.MAIL_LOG_BODY === '1') {
+      console.log(`[mail] No mail transport configured; message to ${message.to}:\n${message.subject}\n\n${message.text}`)
+    } else {
+      console.log(`[mail] No mail transport configured; not sent to ${message.to}: ${message.subject}`)
+    }
+    return
+  }
+
+  await transport.send(message)
+}
@@ -0,0 +1,94 @@
+import { db, generateId, now } from '../db'
+import type { AuditAction } from './audit'
+import { loadPermissionRules, resolvePathAccess } from './permissions'
+
+// Change notifications (notifications table).
+//
+// A change to a department's folder notifies the members assigned to that
+// department and the leads of its parent departments. Recipients only hear
+// about paths they can read, and never about their own changes.
+
+// Keeps a huge push from storing thousands of paths per notification
+const MAX_PATHS_PER_NOTIFICATION = 100
+
+export interface ChangeNotificationInput {
+  companyId: string
+  actorId: string
+  kind: AuditAction
+  paths: string[] // repository paths, e.g. "営業部/提案書.md"
+}
+
+interface DepartmentRow {
+  id: string
+  parent_id: string | null
+  folder: string
+}
+
+// True if `path` is `folder` itself or somewhere below it
+function isInFolder(path: string, folder: string): boolean {
+  return path === folder || path.startsWith(`${folder}/`)
+}
+
+// Never throws: notifications are written after the change succeeded and a
+// failure must not turn a successful push into an error.
+export function notifyDepartmentMembers(input: ChangeNotificationInput): void {
+  if (input.paths.length === 0) return
+
+  try {
+    const departments = db.prepare(`
+      SELECT id, parent_id, folder FROM departments WHERE company_id = ?
+    `).all(input.companyId) as DepartmentRow[]
+    const byId = new Map(departments.map(dept => [dept.id, dept]))
+
+    const assignments = db.prepare(`
+      SELECT dm.department_id, dm.user_id, dm.is_lead, m.role
+      FROM department_members dm
+      JOIN memberships m ON m.user_id = dm.user_id AND m.company_id = dm.company_id
+      WHERE dm.company_id = ?
+    `).all(input.companyId) as Array<{ department_id: string; user_id: string; is_lead: number; role: string }>
+
+    const rules = loadPermissionRules(input.companyId)
+    const insert = db.prepare(`
+      INSERT INTO notifications (id, company_id, user_id, department_id, actor_id, kind, paths, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    const timestamp = now()
+
+    for (const dept of departments) {
+      const deptPaths = input.paths.filter(path => isInFolder(path, dept.folder))
+      if (deptPaths.length === 0) continue
+
+      // The department itself, then its ancestors (whose leads are notified too)
+      const ancestors = new Set<string>()
+      for (let parent = dept.parent_id; parent && !ancestors.has(parent); parent = byId.get(parent)?.parent_id ?? null) {
+        ancestors.add(parent)
+      }
+
+      const recipients = new Map<string, string>() // userId -> role
+      for (const assignment of assignments) {
+        const applies = assignment.department_id === dept.id
+          || (assignment.is_lead && ancestors.has(assignment.department_id))
+        if (applies && assignment.user_id !== input.actorId) {
+          recipients.set(assignment.user_id, assignment.role)
+        }
+      }
+
+      for (const [userId, role] of recipients) {
+        const readable = deptPaths.filter(path => resolvePathAccess(rules, userId, role, path).canRead)
+        if (readable.length === 0) continue
+        insert.run(
+          generateId(),
+          input.companyId,
+          userId,
+          dept.id,
+          input.actorId,
+          input.kind,
+          JSON.stringify(readable.slice(0, MAX_PATHS_PER_NOTIFICATION)),
+          timestamp
+        )
+      }
+    }
+  } catch (error) {
+    console.error(`[notifications] Failed to notify about ${input.kind} in company ${input.companyId}:`, error)
+  }
+}
@@ -0,0 +1,142 @@
+import { renameSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { db } from '../db'
+import { getUsersByIds } from './auth'
+import { hasFullFolderAccess } from './roles'
+
+// Path-based access rules (permissions table).
+//
+// A folder that has at least one rule becomes restricted: only members with a
+// rule on that folder (or on a deeper path) can see or change it. Folders
+// without any rule stay open to every member, so existing companies behave
+// exactly as before until an admin adds the first rule.
+// Roles that manage folder permissions company-wide (owners, admins) always
+// have full access.
+
+export interface PathAccess {
+  canRead: boolean
+  canWrite: boolean
+}
+
+export interface PermissionRule {
+  userId: string
+  path: string
+  canRead: boolean
+  canWrite: boolean
+}
+
+const FULL_ACCESS: PathAccess = { canRead: true, canWrite: true }
+const NO_ACCESS: PathAccess = { canRead: false, canWrite: false }
+
+// Normalize a repository path to "a/b/c" form. Returns null for paths that
+// escape the repository root or are otherwise unusable as a rule.
+export function normalizePermissionPath(input: string): string | null {
+  const segments = input
+    .trim()
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter(segment => segment.length > 0)
+
+  if (segments.length === 0) return null
+  if (segments.some(segment => segment === '.' || segment === '..')) return null
+  if (segments[0] === '.git') return null
+
+  return segments.join('/')
+}
+
+// True if `path` is `prefix` itself or somewhere below it
+function isUnderPath(path: string, prefix: string): boolean {
+  return path === prefix || path.startsWith(`${prefix}/`)
+}
+
+// role is a membership role id (built-in or custom)
+export function isPrivilegedRole(role: string | undefined): boolean {
+  return hasFullFolderAccess(role)
+}
+
+// Load all rules for a company (one query, evaluate many paths in memory)
+export function loadPermissionRules(companyId: string): PermissionRule[] {
+  const rows = db.prepare(`
+    SELECT user_id, path, can_read, can_write FROM permissions WHERE company_id = ?
+  `).all(companyId) as Array<{ user_id: string; path: string; can_read: number; can_write: number }>
+
+  return rows.map(row => ({
+    userId: row.user_id,
+    path: row.path,
+    canRead: Boolean(row.can_read),
+    canWrite: Boolean(row.can_write),
+  }))
+}
+
+// Resolve access for one path against a preloaded rule set.
+// The deepest restricted folder containing the path decides: the user needs a
+// rule at least that deep, and their deepest matching rule wins.
+export function resolvePathAccess(
+  rules: PermissionRule[],
+  userId: string,
+  role: string | undefined,
+  path: string
+): PathAccess {
+  if (isPrivilegedRole(role)) return FULL_ACCESS
+
+  let restrictedDepth = -1
+  let userRule: PermissionRule | null = null
+
+  for (const rule of rules) {
+    if (!isUnderPath(path, rule.path)) continue
+    const depth = rule.path.split('/').length
+    if (depth > restrictedDepth) restrictedDepth = depth
+    if (rule.userId === userId && (!userRule || depth > userRule.path.split('/').length)) {
+      userRule = rule
+    }
+  }
+
+  if (restrictedDepth === -1) return FULL_ACCESS
+  if (!userRule || userRule.path.split('/').length < restrictedDepth) return NO_ACCESS
+
+  return { canRead: userRule.canRead, canWrite: userRule.canWrite }
+}
+
+// Convenience wrapper for single-path checks
+export function getPathAccess(companyId: string, userId: string, path: string): PathAccess {
+  const membership = db.prepare(`
+    SELECT role FROM memberships WHERE user_id = ? AND company_id = ?
+  `).get(userId, companyId) as { role: string } | undefined
+
+  if (!membership) return NO_ACCESS
+
+  return resolvePathAccess(loadPermissionRules(companyId), userId, membership.role, path)
+}
+
+// File read by the pre-receive hook (templates/pre-receive-hook.sh)
+export const HOOK_PERMISSIONS_FILE = 'acb-permissions'
+
+// Export the company's rules into the bare repository so the pre-receive hook
+// can check the pushing user (REMOTE_USER = email) without database access.
+// One rule per line: "<email>\t<rw|r-|-->\t<path>"; path "*" marks a member
+// with full access. Written right before each receive-pack so it is never
+// stale.
+export function writeHookPermissionsFile(companyId: string, repoPath: string): void {
+  const members = db.prepare(`
+    SELECT user_id, role FROM memberships WHERE company_id = ?
+  `).all(companyId) as Array<{ user_id: string; role: string }>
+  const rules = loadPermissionRules(companyId)
+  const usersMap = getUsersByIds([...new Set([...members.map(m => m.user_id), ...rules.map(r => r.userId)])])
+
+  const lines = ['# Generated by AI Company Builder before each push. Do not edit.']
+  for (const member of members) {
+    const email = usersMap.get(member.user_id)?.email
+    if (email && isPrivilegedRole(member.role)) lines.push(`${email}\trw\t*`)
+  }
+  for (const rule of rules) {
+    const email = usersMap.get(rule.userId)?.email
+    // Rules of users that no longer resolve still restrict the folder
+    const access = `${rule.canRead ? 'r' : '-'}${rule.canWrite ? 'w' : '-'}`
+    lines.push(`${email ?? '-'}\t${access}\t${rule.path}`)
+  }
+
+  const target = join(repoPath, HOOK_PERMISSIONS_FILE)
+  const tmp = `${target}.${process.pid}.${Date.now()}.tmp`
+  writeFileSync(tmp, lines.join('\n') + '\n')
+  renameSync(tmp, target)
+}
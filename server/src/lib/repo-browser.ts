@@ -0,0 +1,245 @@
+import { execFileSync } from 'child_process'
+import { existsSync } from 'fs'
+import { extname, join } from 'path'
+import { isPrivilegedRole, resolvePathAccess, type PermissionRule } from './permissions'
+
+// Read-only access to a company's bare repository for the repo browser
+// (routes/repo.ts): trees, blobs, history and commit diffs, all filtered by
+// the caller's folder permissions the same way repo views filter trees
+// (lib/repo-views.ts). Nothing here needs a working directory.
+
+const DATA_DIR = process.env.DATA_DIR || join(process.cwd(), 'data')
+const REPOS_DIR = process.env.REPOS_DIR || join(DATA_DIR, 'repos')
+
+// `git hash-object -t tree /dev/null`: what a root commit is diffed against
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904'
+
+export const MAX_BLOB_SIZE = 20 * 1024 * 1024
+const MAX_PATCH_SIZE = 1024 * 1024
+const MAX_DIFF_FILES = 500
+
+export interface TreeEntry {
+  name: string
+  path: string
+  type: 'tree' | 'blob' | 'commit'
+  mode: string
+  size: number | null
+}
+
+export interface CommitSummary {
+  sha: string
+  parents: string[]
+  authorName: string
+  authorEmail: string
+  authoredAt: string
+  subject: string
+}
+
+export interface CommitDiff {
+  commit: CommitSummary & { message: string }
+  files: Array<{ path: string; status: string }>
+  patch: string
+  truncated: boolean
+}
+
+// What one member may see. Directories stay visible while anything below them
+// is readable, so a rule on "a/b" lets its holder browse through "a".
+export interface ReadFilter {
+  canReadFile(path: string): boolean
+  canSeeDir(path: string): boolean
+}
+
+function git(repoPath: string, args: string[], options: { maxBuffer?: number } = {}): Buffer {
+  return execFileSync('git', ['-C', repoPath, '--literal-pathspecs', '-c', 'core.quotepath=false', ...args], {
+    stdio: 'pipe',
+    maxBuffer: options.maxBuffer ?? 64 * 1024 * 1024,
+  })
+}
+
+export function getRepoPath(companyId: string): string | null {
+  const sanitizedId = companyId.replace(/[^a-zA-Z0-9_-]/g, '')
+  const repoPath = join(REPOS_DIR, `${sanitizedId}.git`)
+  return existsSync(repoPath) ? repoPath : null
+}
+
+export function createReadFilter(rules: PermissionRule[], userId: string, role: string): ReadFilter {
+  const privileged = isPrivilegedRole(role)
+  const canRead = (path: string) => privileged || resolvePathAccess(rules, userId, role, path).canRead
+  return {
+    canReadFile: canRead,
+    canSeeDir: (path: string) => {
+      if (path === '' || canRead(path)) return true
+      return rules.some(rule => rule.userId === userId && rule.canRead && rule.path.startsWith(`${path}/`))
+    },
+  }
+}
+
+// Branch, tag or commit id. Anything that could be read as an option or a
+// revision range is refused before it reaches git.
+export function isValidRef(ref: string): boolean {
+  return /^[\w./-]+$/.test(ref) && !ref.startsWith('-') && !ref.includes('..') && ref.length <= 255
+}
+
+export function resolveCommit(repoPath: string, ref: string): string | null {
+  try {
+    return git(repoPath, ['rev-parse', '--verify', '--quiet', '--end-of-options', `${ref}^{commit}`]).toString().trim() || null
+  } catch {
+    return null
+  }
+}
+
+// Entries of the tree at `path` ("" = root), or null if it is not a directory
+export function listTree(repoPath: string, commit: string, path: string, filter: ReadFilter): TreeEntry[] | null {
+  let raw: string
+  try {
+    raw = git(repoPath, ['ls-tree', '-z', '--long', path ? `${commit}:${path}` : commit]).toString()
+  } catch {
+    return null
+  }
+
+  const entries: TreeEntry[] = []
+  for (const line of raw.split('\0')) {
+    const match = line.match(/^(\d+) (\w+) [0-9a-f]+\s+(-|\d+)\t(.*)$/s)
+    if (!match) continue
+    const [, mode, type, size, name] = match
+    const entryPath = path ? `${path}/${name}` : name
+    const visible = type === 'tree' ? filter.canSeeDir(entryPath) : filter.canReadFile(entryPath)
+    if (!visible) continue
+    entries.push({
+      name,
+      path: entryPath,
+      type: type as TreeEntry['type'],
+      mode,
+      size: size === '-' ? null : Number(size),
+    })
+  }
+
+  // Folders first, then by name
+  return entries.sort((a, b) => (a.type === 'tree' ? 0 : 1) - (b.type === 'tree' ? 0 : 1) || a.name.localeCompare(b.name))
+}
+
+export function getBlobSize(repoPath: string, commit: string, path: string): number | null {
+  try {
+    const type = git(repoPath, ['cat-file', '-t', `${commit}:${path}`]).toString().trim()
+    if (type !== 'blob') return null
+    return Number(git(repoPath, ['cat-file', '-s', `${commit}:${path}`]).toString().trim())
+  } catch {
+    return null
+  }
+}
+
+export function readBlob(repoPath: string, commit: string, path: string): Buffer {
+  return git(repoPath, ['cat-file', 'blob', `${commit}:${path}`], { maxBuffer: MAX_BLOB_SIZE + 1024 })
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.md': 'text/markdown; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.csv': 'text/csv; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.yaml': 'text/yaml; charset=utf-8',
+  '.yml': 'text/yaml; charset=utf-8',
+  // Served as source: the browser must never render repository HTML
+  '.html': 'text/plain; charset=utf-8',
+  '.htm': 'text/plain; charset=utf-8',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.zip': 'application/zip',
+}
+
+// By extension; otherwise text if the start of the file has no NUL byte
+export function getContentType(path: string, content: Buffer): string {
+  const known = CONTENT_TYPES[extname(path).toLowerCase()]
+  if (known) return known
+  return content.subarray(0, 8000).includes(0) ? 'application/octet-stream' : 'text/plain; charset=utf-8'
+}
+
+function parseSummary(header: string): CommitSummary {
+  const [sha, parents, authorName, authorEmail, authoredAt, subject] = header.split('\x1f')
+  return {
+    sha,
+    parents: parents ? parents.split(' ') : [],
+    authorName,
+    authorEmail,
+    authoredAt,
+    subject: subject ?? '',
+  }
+}
+
+const SUMMARY_FORMAT = '%H%x1f%P%x1f%an%x1f%ae%x1f%aI%x1f%s'
+
+// History from `commit`, optionally limited to `path`. Commits that changed
+// nothing the caller can read are left out; `scanned` is how many commits
+// git returned, for paging with `skip`.
+export function listCommits(
+  repoPath: string,
+  commit: string,
+  path: string,
+  filter: ReadFilter,
+  skip: number,
+  limit: number
+): { commits: CommitSummary[]; scanned: number } {
+  const args = [
+    'log', '-z', '--name-only', '--diff-merges=first-parent', `--format=%x1e${SUMMARY_FORMAT}`,
+    `--skip=${skip}`, `--max-count=${limit}`, commit,
+  ]
+  if (path) args.push('--', path)
+  const raw = git(repoPath, args).toString()
+
+  const commits: CommitSummary[] = []
+  let scanned = 0
+  for (const record of raw.split('\x1e').filter(Boolean)) {
+    scanned++
+    const [header, ...files] = record.split('\0')
+    const changed = files.map(file => file.replace(/^\n/, '')).filter(Boolean)
+    // Commits without changes (empty or clean merges) only show at the root
+    const visible = changed.length === 0 ? !path : changed.some(file => filter.canReadFile(file))
+    if (visible) commits.push(parseSummary(header))
+  }
+  return { commits, scanned }
+}
+
+// Changes of one commit against its first parent, limited to readable files.
+// Null when the commit does not exist or changed nothing the caller can read.
+export function getCommitDiff(repoPath: string, sha: string, filter: ReadFilter): CommitDiff | null {
+  let meta: string
+  try {
+    meta = git(repoPath, ['show', '-s', `--format=${SUMMARY_FORMAT}%x1f%B`, sha]).toString()
+  } catch {
+    return null
+  }
+  const summary = parseSummary(meta)
+  const message = meta.split('\x1f').slice(6).join('\x1f').trimEnd()
+  const base = summary.parents[0] ?? EMPTY_TREE
+
+  const statusOutput = git(repoPath, ['diff-tree', '-r', '-z', '--no-renames', '--name-status', base, sha]).toString()
+  const tokens = statusOutput.split('\0').filter(Boolean)
+  const changed: Array<{ path: string; status: string }> = []
+  for (let i = 0; i + 1 < tokens.length; i += 2) {
+    changed.push({ status: tokens[i], path: tokens[i + 1] })
+  }
+
+  const files = changed.filter(file => filter.canReadFile(file.path))
+  if (files.length === 0 && changed.length > 0) return null
+
+  const shown = files.slice(0, MAX_DIFF_FILES)
+  let patch = ''
+  let truncated = shown.length < files.length
+  if (shown.length > 0) {
+    const output = git(repoPath, [
+      'diff', '--no-color', '--no-ext-diff', '--no-renames', base, sha, '--', ...shown.map(file => file.path),
+    ], { maxBuffer: 256 * 1024 * 1024 })
+    truncated ||= output.length > MAX_PATCH_SIZE
+    patch = output.subarray(0, MAX_PATCH_SIZE).toString('utf-8')
+  }
+
+  return { commit: { ...summary, message }, files, patch, truncated }
+}
@@ -0,0 +1,275 @@
+import { execFileSync } from 'child_process'
+import { existsSync } from 'fs'
+import type { SkillReference } from '../../shared/types'
+
+// Top-level (department) folders of a company's bare repository.
+//
+// Changes are written with plumbing (hash-object, mktree, commit-tree) and
+// published with a compare-and-swap on refs/heads/main, so the server needs
+// no working copy. When a push or another admin moves main in between, the
+// change is re-applied on the new tip; conflicts and git failures are
+// returned to the caller instead of being swallowed.
+
+const MAIN_REF = 'refs/heads/main'
+const ZERO_SHA = '0000000000000000000000000000000000000000'
+const MAX_ATTEMPTS = 3
+const MAX_SKILL_REFERENCES = 200
+
+const SKILL_MD_PATTERN = /(?:^|\/)\.claude\/skills\/[^/]+\/SKILL\.md$/
+
+// Root folder that holds the folders of archived departments
+export const ARCHIVE_FOLDER = '.archive'
+
+// Every department folder starts with a .gitkeep and a .personal workspace
+// whose .gitignore keeps everything else in it local
+const PERSONAL_GITIGNORE = '# Personal workspace — not synced\n*\n!.gitignore\n'
+
+export interface CommitAuthor {
+  name: string
+  email: string
+}
+
+// Identity for commits the server creates itself (same as repo views)
+export const SYSTEM_AUTHOR: CommitAuthor = {
+  name: 'AI Company Builder',
+  email: 'system@ai-company-builder.local',
+}
+
+export type FolderChange =
+  | { type: 'create'; folder: string }
+  | { type: 'rename'; from: string; to: string }
+  | { type: 'delete'; folder: string }
+  | { type: 'file'; name: string; content: string } // root-level file, e.g. .gitattributes
+  | { type: 'archive'; folder: string; name: string } // root folder -> .archive/<name>
+  | { type: 'unarchive'; name: string; folder: string } // .archive/<name> -> root folder
+  | { type: 'purge'; name: string } // remove .archive/<name>
+
+// commit is null when there was nothing to change
+export type FolderChangeResult =
+  | { commit: string | null }
+  | { error: string; status: 404 | 409 }
+
+function git(repoPath: string, args: string[], options: { input?: string; env?: NodeJS.ProcessEnv } = {}): string {
+  return execFileSync('git', ['-C', repoPath, ...args], {
+    stdio: 'pipe',
+    input: options.input,
+    env: options.env ?? process.env,
+    maxBuffer: 256 * 1024 * 1024,
+  }).toString()
+}
+
+function resolveMain(repoPath: string): string | null {
+  try {
+    return git(repoPath, ['rev-parse', '--verify', '--quiet', `${MAIN_REF}^{commit}`]).trim() || null
+  } catch {
+    return null
+  }
+}
+
+// A tree (or the root tree of a commit) as ls-tree lines keyed by name
+// (empty for an unborn main)
+function readTreeEntries(repoPath: string, treeish: string | null): Map<string, string> {
+  const entries = new Map<string, string>()
+  if (!treeish) return entries
+  for (const line of git(repoPath, ['ls-tree', '-z', treeish]).split('\0')) {
+    const tab = line.indexOf('\t')
+    if (tab !== -1) entries.set(line.slice(tab + 1), line)
+  }
+  return entries
+}
+
+// The same ls-tree line under another name
+function renameEntry(entry: string, name: string): string {
+  return `${entry.slice(0, entry.indexOf('\t'))}\t${name}`
+}
+
+// Object id of a tree entry, if it is a tree
+function treeId(entry: string | undefined): string | null {
+  if (!entry) return null
+  const [, type, id] = entry.slice(0, entry.indexOf('\t')).split(' ')
+  return type === 'tree' ? id : null
+}
+
+function writeBlob(repoPath: string, content: string): string {
+  return git(repoPath, ['hash-object', '-w', '--stdin'], { input: content }).trim()
+}
+
+function writeTree(repoPath: string, entries: string[]): string {
+  const input = entries.length > 0 ? `${entries.join('\0')}\0` : ''
+  return git(repoPath, ['mktree', '-z'], { input }).trim()
+}
+
+function createFolderTree(repoPath: string): string {
+  const personal = writeTree(repoPath, [`100644 blob ${writeBlob(repoPath, PERSONAL_GITIGNORE)}\t.gitignore`])
+  return writeTree(repoPath, [
+    `100644 blob ${writeBlob(repoPath, '')}\t.gitkeep`,
+    `040000 tree ${personal}\t.personal`,
+  ])
+}
+
+// Non-hidden top-level folders on main
+export function listRootFolders(repoPath: string): string[] {
+  if (!existsSync(repoPath)) {
+    throw new Error('Repository not found')
+  }
+  return [...readTreeEntries(repoPath, resolveMain(repoPath))]
+    .filter(([name, line]) => !name.startsWith('.') && line.split(' ')[1] === 'tree')
+    .map(([name]) => name)
+}
+
+// Files and subfolders below a folder on main, hidden entries excluded.
+// Null if the folder does not exist.
+export function countFolderContents(repoPath: string, folder: string): { files: number; folders: number } | null {
+  const head = existsSync(repoPath) ? resolveMain(repoPath) : null
+  if (!head) return null
+
+  let raw: string
+  try {
+    raw = git(repoPath, ['ls-tree', '-r', '-t', '-z', `${head}:${folder}`])
+  } catch {
+    return null
+  }
+
+  let files = 0
+  let folders = 0
+  for (const line of raw.split('\0')) {
+    const tab = line.indexOf('\t')
+    if (tab === -1) continue
+    if (line.slice(tab + 1).split('/').some(segment => segment.startsWith('.'))) continue
+    if (line.split(' ')[1] === 'tree') folders++
+    else files++
+  }
+  return { files, folders }
+}
+
+// Apply the changes to the root tree of main as one commit. Renaming or
+// deleting a folder that does not exist is a no-op; creating a folder or
+// renaming onto a name that is already taken is a conflict.
+export function applyFolderChanges(
+  repoPath: string,
+  changes: FolderChange[],
+  message: string,
+  author: CommitAuthor
+): FolderChangeResult {
+  if (!existsSync(repoPath)) {
+    return { error: 'Repository not found', status: 404 }
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    const head = resolveMain(repoPath)
+    const entries = readTreeEntries(repoPath, head)
+    let changed = false
+
+    // Entries of .archive, read on first use
+    let archive: Map<string, string> | null = null
+    const archiveEntries = () => (archive ??= readTreeEntries(repoPath, treeId(entries.get(ARCHIVE_FOLDER))))
+
+    for (const change of changes) {
+      if (change.type === 'create') {
+        if (entries.has(change.folder)) {
+          return { error: 'A folder with this name already exists', status: 409 }
+        }
+        entries.set(change.folder, `040000 tree ${createFolderTree(repoPath)}\t${change.folder}`)
+        changed = true
+      } else if (change.type === 'rename') {
+        if (entries.has(change.to)) {
+          return { error: 'A folder with this name already exists', status: 409 }
+        }
+        const entry = entries.get(change.from)
+        if (!entry) continue
+        entries.delete(change.from)
+        entries.set(change.to, renameEntry(entry, change.to))
+        changed = true
+      } else if (change.type === 'delete') {
+        changed = entries.delete(change.folder) || changed
+      } else if (change.type === 'file') {
+        entries.set(change.name, `100644 blob ${writeBlob(repoPath, change.content)}\t${change.name}`)
+        changed = true
+      } else if (change.type === 'archive') {
+        const entry = entries.get(change.folder)
+        if (!entry) continue
+        if (archiveEntries().has(change.name)) {
+          return { error: 'An archived folder with this name already exists', status: 409 }
+        }
+        entries.delete(change.folder)
+        archiveEntries().set(change.name, renameEntry(entry, change.name))
+        changed = true
+      } else if (change.type === 'unarchive') {
+        if (entries.has(change.folder)) {
+          return { error: 'A folder with this name already exists', status: 409 }
+        }
+        // Without an archived copy (purged by hand) the folder starts empty
+        const entry = archiveEntries().get(change.name)
+        archiveEntries().delete(change.name)
+        entries.set(change.folder, entry
+          ? renameEntry(entry, change.folder)
+          : `040000 tree ${createFolderTree(repoPath)}\t${change.folder}`)
+        changed = true
+      } else {
+        changed = archiveEntries().delete(change.name) || changed
+      }
+    }
+
+    if (!changed) {
+      return { commit: null }
+    }
+
+    if (archive !== null) {
+      const archived: Map<string, string> = archive
+      if (archived.size === 0) entries.delete(ARCHIVE_FOLDER)
+      else entries.set(ARCHIVE_FOLDER, `040000 tree ${writeTree(repoPath, [...archived.values()])}\t${ARCHIVE_FOLDER}`)
+    }
+
+    const tree = writeTree(repoPath, [...entries.values()])
+    const commit = git(repoPath, ['commit-tree', tree, ...(head ? ['-p', head] : []), '-F', '-'], {
+      input: `${message}\n`,
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: author.name,
+        GIT_AUTHOR_EMAIL: author.email,
+        GIT_COMMITTER_NAME: author.name,
+        GIT_COMMITTER_EMAIL: author.email,
+      },
+    }).trim()
+
+    try {
+      // Only succeeds if main still points at the commit the tree was built on
+      git(repoPath, ['update-ref', MAIN_REF, commit, head ?? ZERO_SHA])
+      return { commit }
+    } catch (error) {
+      // Anything other than a moved main is a real failure
+      if (resolveMain(repoPath) === head) throw error
+      if (attempt >= MAX_ATTEMPTS) {
+        return { error: 'Repository changed during the update, please retry', status: 409 }
+      }
+    }
+  }
+}
+
+// SKILL.md lines on `commit` that still refer to paths below `folder` (e.g.
+// after it was renamed). A longer folder name ending in the same characters
+// ("営業法務/" for "法務/") is not a reference.
+export function findSkillReferences(repoPath: string, commit: string, folder: string): SkillReference[] {
+  let raw: string
+  try {
+    raw = git(repoPath, [
+      '-c', 'core.quotepath=false', 'grep', '-z', '-n', '-I', '-F', '-e', `${folder}/`, commit, '--', '*SKILL.md',
+    ])
+  } catch {
+    // Exit status 1: no matches
+    return []
+  }
+
+  const escaped = folder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const reference = new RegExp(`(?:^|[^\\w\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FFF.-])${escaped}/`)
+  const references: SkillReference[] = []
+  for (const record of raw.split('\n')) {
+    const [location, line, ...rest] = record.split('\0')
+    const path = location.slice(commit.length + 1)
+    const text = rest.join('\0')
+    if (!SKILL_MD_PATTERN.test(path) || !reference.test(text)) continue
+    references.push({ path, line: Number(line), text: text.trim() })
+    if (references.length >= MAX_SKILL_REFERENCES) break
+  }
+  return references
+}
@@ -0,0 +1,553 @@
+import { spawn } from 'child_process'
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs'
+import { join, resolve } from 'path'
+import { tmpdir } from 'os'
+import { db } from '../db'
+import { configureBareRepo } from '../routes/git'
+import { isPrivilegedRole, loadPermissionRules, resolvePathAccess, type PermissionRule } from './permissions'
+
+// Server-side read isolation (companies.read_isolation).
+//
+// Sparse checkout only hides folders locally: every clone of the company repo
+// still contains every blob. With read isolation on, members fetch from and
+// push to a per-user "view" repository instead, which only contains the
+// folders they can read:
+//
+//   repo-views/<companyId>/<userId>.git
+//
+// The view's main branch is derived from the company repo's main branch:
+// each new commit is rewritten with the unreadable folders removed from its
+// tree, and commits that only touched hidden folders are dropped. A new view
+// starts from a single snapshot of the current tip, not the full history.
+// The view must never share the company object store (alternates):
+// upload-pack serves any object by id, so hidden blobs would leak.
+//
+// Commits pushed to the view are replayed onto the company repo as the same
+// per-file changes, so hidden folders stay untouched. If main moved on since
+// the view was derived, the replayed commits are merged with it rather than
+// written over it. Owners and admins keep using the company repo directly.
+//
+// All git work here runs in child processes without blocking the event loop,
+// and one company's syncs run one at a time (they share its main branch).
+
+const DATA_DIR = process.env.DATA_DIR || join(process.cwd(), 'data')
+const REPOS_DIR = process.env.REPOS_DIR || join(DATA_DIR, 'repos')
+export const VIEWS_DIR = process.env.REPO_VIEWS_DIR || join(DATA_DIR, 'repo-views')
+
+// Sync bookkeeping, stored inside each view repo
+const VIEW_STATE_FILE = 'acb-view-state.json'
+// "<realCommit>\t<company repo path>" for the pre-receive hook, which rejects
+// pushes to files changed on the company repo since (templates/pre-receive-hook.sh)
+const VIEW_BASE_FILE = 'acb-view-base'
+
+const ZERO_SHA = '0000000000000000000000000000000000000000'
+
+// Identity for commits the server creates itself (same as department seeding)
+const SYSTEM_IDENTITY: GitIdentity = {
+  name: 'AI Company Builder',
+  email: 'system@ai-company-builder.local',
+  date: '',
+}
+
+const SNAPSHOT_MESSAGE = '閲覧できるフォルダの最新状態\n'
+const REFRESH_MESSAGE = '閲覧権限の変更と他のメンバーの変更を反映\n'
+const HIDDEN_CHANGE_MESSAGE = '閲覧権限のないフォルダを含む変更\n'
+const MERGE_MESSAGE = '他のメンバーの変更とマージ\n'
+
+interface GitIdentity {
+  name: string
+  email: string
+  date: string // "@<unix> <tz>", empty = now
+}
+
+interface CommitMeta {
+  author: GitIdentity
+  committer: GitIdentity
+  message: string
+}
+
+interface ViewState {
+  // Company repo commit the view was last derived from
+  realCommit: string
+  // View commit that corresponds to realCommit
+  viewCommit: string
+}
+
+interface FilterContext {
+  repoPath: string
+  userId: string
+  role: string
+  rules: PermissionRule[]
+  // Memoized filtered trees, keyed by "<path prefix>\0<tree id>"
+  memo: Map<string, string | null>
+}
+
+interface GitOptions {
+  input?: string
+  env?: NodeJS.ProcessEnv
+}
+
+interface GitResult {
+  code: number | null
+  stdout: string
+  stderr: string
+}
+
+function runGit(repoPath: string, args: string[], options: GitOptions = {}): Promise<GitResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', ['-C', repoPath, ...args], {
+      stdio: ['pipe', 'pipe', 'pipe'],
+      env: options.env ?? process.env,
+    })
+    const stdout: Buffer[] = []
+    let stderr = ''
+    child.stdout.on('data', (chunk: Buffer) => { stdout.push(chunk) })
+    child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString() })
+    child.on('error', reject)
+    child.on('close', (code) => resolve({ code, stdout: Buffer.concat(stdout).toString(), stderr }))
+    // git may exit without reading its input (e.g. on a bad argument)
+    child.stdin.on('error', () => {})
+    child.stdin.end(options.input)
+  })
+}
+
+async function git(repoPath: string, args: string[], options: GitOptions = {}): Promise<string> {
+  const result = await runGit(repoPath, args, options)
+  if (result.code !== 0) {
+    throw new Error(`git ${args[0]} exited with code ${result.code}: ${result.stderr.trim()}`)
+  }
+  return result.stdout
+}
+
+// Tasks of one company run in order, each after the previous one settles
+const companyQueues = new Map<string, Promise<void>>()
+
+function runSerialized<T>(companyId: string, task: () => Promise<T>): Promise<T> {
+  const previous = companyQueues.get(companyId) ?? Promise.resolve()
+  const result = previous.then(task)
+  const settled = result.then(() => {}, () => {})
+  companyQueues.set(companyId, settled)
+  void settled.then(() => {
+    if (companyQueues.get(companyId) === settled) companyQueues.delete(companyId)
+  })
+  return result
+}
+
+function sanitizeId(raw: string): string {
+  return raw.replace(/[^a-zA-Z0-9_-]/g, '')
+}
+
+function getCompanyRepoPath(companyId: string): string {
+  return join(REPOS_DIR, `${sanitizeId(companyId)}.git`)
+}
+
+// Repository name relative to VIEWS_DIR (git http-backend PATH_INFO)
+export function getViewRepoName(companyId: string, userId: string): string {
+  return `${sanitizeId(companyId)}/${sanitizeId(userId)}.git`
+}
+
+export function getViewRepoPath(companyId: string, userId: string): string {
+  return join(VIEWS_DIR, getViewRepoName(companyId, userId))
+}
+
+// Ref in the company repo that pins the user's view tip (keeps the rewritten
+// objects reachable for gc). Hidden from clients by git-http.
+function getViewRef(userId: string): string {
+  return `refs/acb-views/${sanitizeId(userId)}`
+}
+
+async function resolveRef(repoPath: string, ref: string): Promise<string | null> {
+  try {
+    return (await git(repoPath, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`])).trim() || null
+  } catch {
+    return null
+  }
+}
+
+async function isAncestor(repoPath: string, ancestor: string, descendant: string): Promise<boolean> {
+  const result = await runGit(repoPath, ['merge-base', '--is-ancestor', ancestor, descendant])
+  return result.code === 0
+}
+
+async function treeOf(repoPath: string, commit: string): Promise<string> {
+  return (await git(repoPath, ['rev-parse', `${commit}^{tree}`])).trim()
+}
+
+export function isReadIsolationEnabled(companyId: string): boolean {
+  const company = db.prepare('SELECT read_isolation FROM companies WHERE id = ?').get(companyId) as
+    { read_isolation: number } | undefined
+  return Boolean(company?.read_isolation)
+}
+
+// Whether this user's git traffic goes through a view repo
+export async function usesRepoView(companyId: string, userId: string): Promise<boolean> {
+  if (!isReadIsolationEnabled(companyId)) return false
+
+  const membership = db.prepare(`
+    SELECT role FROM memberships WHERE user_id = ? AND company_id = ?
+  `).get(userId, companyId) as { role: string } | undefined
+  if (!membership || isPrivilegedRole(membership.role)) return false
+
+  // Nothing to filter until the company repo has a first commit
+  return (await resolveRef(getCompanyRepoPath(companyId), 'refs/heads/main')) !== null
+}
+
+// ============================================================================
+// Tree filtering
+// ============================================================================
+
+function createFilterContext(companyId: string, userId: string): FilterContext {
+  const membership = db.prepare(`
+    SELECT role FROM memberships WHERE user_id = ? AND company_id = ?
+  `).get(userId, companyId) as { role: string } | undefined
+
+  return {
+    repoPath: getCompanyRepoPath(companyId),
+    userId,
+    role: membership?.role ?? 'member',
+    rules: loadPermissionRules(companyId),
+    memo: new Map(),
+  }
+}
+
+// Returns the filtered tree id, or null when nothing in the tree is readable.
+// Only directories that lie on the way to a rule are walked; every other
+// entry is kept or dropped as a whole.
+async function filterTree(ctx: FilterContext, treeId: string, prefix: string): Promise<string | null> {
+  const key = `${prefix}\0${treeId}`
+  const cached = ctx.memo.get(key)
+  if (cached !== undefined) return cached
+
+  const entries = (await git(ctx.repoPath, ['ls-tree', '-z', treeId])).split('\0').filter(Boolean)
+  const kept: string[] = []
+  let changed = false
+
+  for (const entry of entries) {
+    const match = entry.match(/^(\d+) (\w+) ([0-9a-f]+)\t(.*)$/s)
+    if (!match) continue
+    const [, mode, type, id, name] = match
+    const path = prefix ? `${prefix}/${name}` : name
+
+    let filteredId: string | null = id
+    if (type === 'tree' && ctx.rules.some(rule => rule.path.startsWith(`${path}/`))) {
+      filteredId = await filterTree(ctx, id, path)
+    } else if (!resolvePathAccess(ctx.rules, ctx.userId, ctx.role, path).canRead) {
+      filteredId = null
+    }
+
+    if (filteredId !== id) changed = true
+    if (filteredId) kept.push(`${mode} ${type} ${filteredId}\t${name}`)
+  }
+
+  let result: string | null = treeId
+  if (kept.length === 0) result = null
+  else if (changed) result = await writeTree(ctx.repoPath, kept)
+
+  ctx.memo.set(key, result)
+  return result
+}
+
+async function writeTree(repoPath: string, entries: string[]): Promise<string> {
+  const input = entries.length > 0 ? `${entries.join('\0')}\0` : ''
+  return (await git(repoPath, ['mktree', '-z'], { input })).trim()
+}
+
+async function filteredTreeOf(ctx: FilterContext, commit: string): Promise<string> {
+  return (await filterTree(ctx, await treeOf(ctx.repoPath, commit), '')) ?? writeTree(ctx.repoPath, [])
+}
+
+// ============================================================================
+// Commits
+// ============================================================================
+
+function parseIdentity(line: string): GitIdentity | null {
+  const match = line.match(/^(.*) <(.*)> (\d+) ([+-]\d{4})$/)
+  if (!match) return null
+  return { name: match[1], email: match[2], date: `@${match[3]} ${match[4]}` }
+}
+
+async function readCommitMeta(repoPath: string, commit: string): Promise<CommitMeta> {
+  const raw = await git(repoPath, ['cat-file', 'commit', commit])
+  const separator = raw.indexOf('\n\n')
+  const headers = (separator === -1 ? raw : raw.slice(0, separator)).split('\n')
+
+  let author = SYSTEM_IDENTITY
+  let committer = SYSTEM_IDENTITY
+  for (const header of headers) {
+    if (header.startsWith('author ')) author = parseIdentity(header.slice(7)) ?? author
+    else if (header.startsWith('committer ')) committer = parseIdentity(header.slice(10)) ?? committer
+  }
+
+  return { author, committer, message: separator === -1 ? '' : raw.slice(separator + 2) }
+}
+
+async function createCommit(repoPath: string, tree: string, parents: string[], meta: CommitMeta): Promise<string> {
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    GIT_AUTHOR_NAME: meta.author.name,
+    GIT_AUTHOR_EMAIL: meta.author.email,
+    GIT_COMMITTER_NAME: meta.committer.name,
+    GIT_COMMITTER_EMAIL: meta.committer.email,
+  }
+  if (meta.author.date) env.GIT_AUTHOR_DATE = meta.author.date
+  if (meta.committer.date) env.GIT_COMMITTER_DATE = meta.committer.date
+
+  const args = ['commit-tree', tree, ...parents.flatMap(parent => ['-p', parent]), '-F', '-']
+  return (await git(repoPath, args, { input: meta.message, env })).trim()
+}
+
+function systemCommitMeta(message: string): CommitMeta {
+  return { author: SYSTEM_IDENTITY, committer: SYSTEM_IDENTITY, message }
+}
+
+async function listFirstParentCommits(repoPath: string, from: string, to: string): Promise<string[]> {
+  return (await git(repoPath, ['rev-list', '--reverse', '--first-parent', `${from}..${to}`]))
+    .split('\n')
+    .filter(Boolean)
+}
+
+async function changedPaths(repoPath: string, from: string, to: string): Promise<string[]> {
+  return (await git(repoPath, ['diff-tree', '-r', '-z', '--name-only', '--no-renames', from, to]))
+    .split('\0')
+    .filter(Boolean)
+}
+
+// ============================================================================
+// View state
+// ============================================================================
+
+function readViewState(viewPath: string): ViewState | null {
+  try {
+    const state = JSON.parse(readFileSync(join(viewPath, VIEW_STATE_FILE), 'utf-8')) as Partial<ViewState>
+    if (typeof state.realCommit !== 'string' || typeof state.viewCommit !== 'string') return null
+    return { realCommit: state.realCommit, viewCommit: state.viewCommit }
+  } catch {
+    return null
+  }
+}
+
+function writeFileAtomic(target: string, content: string): void {
+  const tmp = `${target}.${process.pid}.${Date.now()}.tmp`
+  writeFileSync(tmp, content)
+  renameSync(tmp, target)
+}
+
+function writeViewState(ctx: FilterContext, viewPath: string, state: ViewState): void {
+  writeFileAtomic(join(viewPath, VIEW_STATE_FILE), JSON.stringify(state) + '\n')
+  writeFileAtomic(join(viewPath, VIEW_BASE_FILE), `${state.realCommit}\t${resolve(ctx.repoPath)}\n`)
+}
+
+async function ensureViewRepo(viewPath: string): Promise<void> {
+  if (existsSync(viewPath)) return
+  mkdirSync(viewPath, { recursive: true })
+  await git(viewPath, ['init', '--bare', '--initial-branch=main', '.'])
+  // Same protections and pre-receive checks as the company repo
+  configureBareRepo(viewPath)
+}
+
+// Bring every existing view up to the current standard configuration (see
+// configureAllBareRepos for company repos).
+export function configureAllViewRepos(): { total: number; failed: number } {
+  let total = 0
+  let failed = 0
+  if (!existsSync(VIEWS_DIR)) return { total, failed }
+  for (const company of readdirSync(VIEWS_DIR)) {
+    const companyDir = join(VIEWS_DIR, company)
+    let names: string[]
+    try {
+      names = readdirSync(companyDir)
+    } catch {
+      continue
+    }
+    for (const name of names) {
+      if (!name.endsWith('.git')) continue
+      total++
+      try {
+        configureBareRepo(join(companyDir, name))
+      } catch (error) {
+        failed++
+        console.error(`Failed to configure repository view ${company}/${name}:`, error)
+      }
+    }
+  }
+  return { total, failed }
+}
+
+// ============================================================================
+// Push replay: view -> company repo
+// ============================================================================
+
+// Apply one pushed view commit onto `base` as per-file changes. Paths the
+// user cannot write are skipped (the pre-receive hook of the view already
+// rejects them; this only matters if rules changed mid-push).
+async function replayCommit(ctx: FilterContext, base: string, viewParent: string, viewCommit: string): Promise<string> {
+  const fields = (await git(ctx.repoPath, ['diff-tree', '-r', '-z', '--no-renames', viewParent, viewCommit]))
+    .split('\0')
+  const updates: string[] = []
+
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    const [, , newMode, , newId, status] = fields[i].match(/^:(\d+) (\d+) ([0-9a-f]+) ([0-9a-f]+) (\w)/) ?? []
+    const path = fields[i + 1]
+    if (!status) continue
+
+    if (!resolvePathAccess(ctx.rules, ctx.userId, ctx.role, path).canWrite) {
+      console.warn(`[repo-views] Skipping change to ${path} by ${ctx.userId}: no write permission`)
+      continue
+    }
+    updates.push(status === 'D' ? `0 ${ZERO_SHA}\t${path}` : `${newMode} ${newId}\t${path}`)
+  }
+
+  if (updates.length === 0) return base
+
+  const indexFile = join(tmpdir(), `acb-view-${process.pid}-${Date.now()}.index`)
+  const env = { ...process.env, GIT_INDEX_FILE: indexFile }
+  try {
+    await git(ctx.repoPath, ['read-tree', base], { env })
+    await git(ctx.repoPath, ['update-index', '-z', '--index-info'], { input: `${updates.join('\0')}\0`, env })
+    const tree = (await git(ctx.repoPath, ['write-tree'], { env })).trim()
+    if (tree === await treeOf(ctx.repoPath, base)) return base
+    return createCommit(ctx.repoPath, tree, [base], await readCommitMeta(ctx.repoPath, viewCommit))
+  } finally {
+    rmSync(indexFile, { force: true })
+  }
+}
+
+// Merge the replayed commits into main when main moved on since the view's
+// base. The pre-receive hook of the view rejects pushes to files changed on
+// main since then, so a conflict only comes from a push that landed in
+// between; the merge then keeps both versions with conflict markers, and
+// nobody's change is written over.
+async function mergeIntoMain(ctx: FilterContext, realTip: string, replayed: string): Promise<string> {
+  if (await isAncestor(ctx.repoPath, realTip, replayed)) return replayed
+  if (await isAncestor(ctx.repoPath, replayed, realTip)) return realTip
+
+  const result = await runGit(ctx.repoPath, ['-c', 'core.quotePath=false', 'merge-tree', '--write-tree', '--name-only', '--no-messages', realTip, replayed])
+  if (result.code !== 0 && result.code !== 1) {
+    throw new Error(`git merge-tree exited with code ${result.code}: ${result.stderr.trim()}`)
+  }
+  const [tree, ...conflicts] = result.stdout.split('\n').filter(Boolean)
+
+  const meta = await readCommitMeta(ctx.repoPath, replayed)
+  meta.message = MERGE_MESSAGE
+  if (conflicts.length > 0) {
+    console.warn(`[repo-views] Merged a push by ${ctx.userId} with conflicts in: ${conflicts.join(', ')}`)
+    meta.message += `\n競合（両方の変更を残しています）:\n${conflicts.map(path => `  ${path}\n`).join('')}`
+  }
+  return createCommit(ctx.repoPath, tree, [realTip, replayed], meta)
+}
+
+// Replay commits pushed to the view since the last sync onto the company
+// repo's main branch. Returns the updated state.
+async function replayPushedCommits(ctx: FilterContext, viewPath: string, state: ViewState, pushedTip: string): Promise<ViewState> {
+  const viewRef = getViewRef(ctx.userId)
+  await git(ctx.repoPath, ['fetch', '--quiet', '--no-tags', viewPath, `+refs/heads/main:${viewRef}`])
+
+  // denyNonFastForwards makes this unreachable; re-deriving resets the view
+  if (!await isAncestor(ctx.repoPath, state.viewCommit, pushedTip)) return state
+
+  // On top of the commit the view was derived from, so the per-file changes
+  // apply to exactly the versions the member saw
+  let replayed = state.realCommit
+  let parent = state.viewCommit
+  for (const commit of await listFirstParentCommits(ctx.repoPath, state.viewCommit, pushedTip)) {
+    replayed = await replayCommit(ctx, replayed, parent, commit)
+    parent = commit
+  }
+
+  // Retry when something else moves main between reading and updating it
+  for (let attempt = 1; ; attempt++) {
+    const realTip = await resolveRef(ctx.repoPath, 'refs/heads/main') ?? state.realCommit
+    const merged = await mergeIntoMain(ctx, realTip, replayed)
+
+    try {
+      await git(ctx.repoPath, ['update-ref', 'refs/heads/main', merged, realTip])
+      return { realCommit: merged, viewCommit: pushedTip }
+    } catch (error) {
+      if (attempt >= 3) throw error
+    }
+  }
+}
+
+// ============================================================================
+// Sync: company repo -> view
+// ============================================================================
+
+// Bring the user's view up to date with the company repo (replaying anything
+// they pushed first). Called before every fetch/push and after every push.
+export function syncUserView(companyId: string, userId: string): Promise<string> {
+  return runSerialized(companyId, () => syncUserViewNow(companyId, userId))
+}
+
+async function syncUserViewNow(companyId: string, userId: string): Promise<string> {
+  const viewPath = getViewRepoPath(companyId, userId)
+  await ensureViewRepo(viewPath)
+
+  const ctx = createFilterContext(companyId, userId)
+  const viewRef = getViewRef(userId)
+  let state = readViewState(viewPath)
+
+  if (state) {
+    const pushedTip = await resolveRef(viewPath, 'refs/heads/main')
+    if (pushedTip && pushedTip !== state.viewCommit) {
+      state = await replayPushedCommits(ctx, viewPath, state, pushedTip)
+      writeViewState(ctx, viewPath, state)
+    }
+  }
+
+  const realTip = await resolveRef(ctx.repoPath, 'refs/heads/main')
+  if (!realTip) return viewPath
+
+  let viewTip: string
+  if (!state || !await resolveRef(ctx.repoPath, state.viewCommit) || !await resolveRef(ctx.repoPath, state.realCommit)) {
+    viewTip = await createCommit(ctx.repoPath, await filteredTreeOf(ctx, realTip), [], systemCommitMeta(SNAPSHOT_MESSAGE))
+  } else {
+    viewTip = state.viewCommit
+    if (state.realCommit !== realTip) {
+      for (const commit of await listFirstParentCommits(ctx.repoPath, state.realCommit, realTip)) {
+        const tree = await filteredTreeOf(ctx, commit)
+        if (tree === await treeOf(ctx.repoPath, viewTip)) continue
+
+        // Keep the original message unless it may describe hidden changes
+        const parent = await resolveRef(ctx.repoPath, `${commit}^`)
+        const touchesHidden = parent !== null && (await changedPaths(ctx.repoPath, parent, commit))
+          .some(path => !resolvePathAccess(ctx.rules, ctx.userId, ctx.role, path).canRead)
+        const meta = await readCommitMeta(ctx.repoPath, commit)
+        if (touchesHidden) meta.message = HIDDEN_CHANGE_MESSAGE
+
+        viewTip = await createCommit(ctx.repoPath, tree, [viewTip], meta)
+      }
+    }
+
+    // Rules changed, or commits were skipped by a push replay
+    const tipTree = await filteredTreeOf(ctx, realTip)
+    if (tipTree !== await treeOf(ctx.repoPath, viewTip)) {
+      viewTip = await createCommit(ctx.repoPath, tipTree, [viewTip], systemCommitMeta(REFRESH_MESSAGE))
+    }
+  }
+
+  if (state?.realCommit === realTip && state.viewCommit === viewTip &&
+      await resolveRef(viewPath, 'refs/heads/main') === viewTip) {
+    return viewPath
+  }
+
+  // Transfer only the rewritten history: the view gets nothing else
+  await git(ctx.repoPath, ['update-ref', viewRef, viewTip])
+  await git(viewPath, ['fetch', '--quiet', '--no-tags', ctx.repoPath, `+${viewRef}:refs/heads/main`])
+  writeViewState(ctx, viewPath, { realCommit: realTip, viewCommit: viewTip })
+
+  return viewPath
+}
+
+// Drop a user's view (member removed from the company). Queued behind any
+// sync of the company that is still running.
+export function removeUserView(companyId: string, userId: string): Promise<void> {
+  return runSerialized(companyId, async () => {
+    rmSync(getViewRepoPath(companyId, userId), { recursive: true, force: true })
+    const repoPath = getCompanyRepoPath(companyId)
+    if (existsSync(repoPath)) {
+      await git(repoPath, ['update-ref', '-d', getViewRef(userId)])
+    }
+  }).catch((error) => {
+    console.error(`[repo-views] Failed to remove view of ${userId}:`, error)
+  })
+}
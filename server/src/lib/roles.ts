@@ -0,0 +1,194 @@
+import { db } from '../db'
+import type { Capability, RoleScope } from '../../shared/types'
+
+// Capability-based roles. memberships.role holds a role id: one of the
+// built-in roles below or a company's custom role (roles table).
+// Every route checks what a member may do with authorize().
+
+export const CAPABILITIES: Capability[] = [
+  'manage_settings',
+  'manage_members',
+  'manage_roles',
+  'invite',
+  'manage_departments',
+  'manage_permissions',
+  'view_audit',
+  'push',
+  'delete_repo',
+]
+
+// A department-scoped role only gets these within its department's subtree;
+// its other capabilities apply company-wide
+const SCOPED_CAPABILITIES: Capability[] = ['manage_departments', 'manage_permissions']
+
+export interface Role {
+  id: string
+  companyId: string | null // null = built-in
+  name: string
+  description: string | null
+  capabilities: Capability[]
+  scope: RoleScope
+  builtin: boolean
+}
+
+export const BUILTIN_ROLES: Role[] = [
+  {
+    id: 'owner',
+    companyId: null,
+    name: 'オーナー',
+    description: '会社のすべての操作',
+    capabilities: CAPABILITIES,
+    scope: 'company',
+    builtin: true,
+  },
+  {
+    id: 'admin',
+    companyId: null,
+    name: '管理者',
+    description: 'ロール編集とリポジトリ削除以外の管理操作',
+    capabilities: CAPABILITIES.filter(cap => cap !== 'manage_roles' && cap !== 'delete_repo'),
+    scope: 'company',
+    builtin: true,
+  },
+  {
+    id: 'member',
+    companyId: null,
+    name: 'メンバー',
+    description: '閲覧と変更のプッシュ',
+    capabilities: ['push'],
+    scope: 'company',
+    builtin: true,
+  },
+  {
+    id: 'department_lead',
+    companyId: null,
+    name: '部署リーダー',
+    description: '担当部署とその配下の部署・フォルダ権限の管理',
+    capabilities: ['manage_departments', 'manage_permissions', 'push'],
+    scope: 'department',
+    builtin: true,
+  },
+]
+
+// Custom roles are looked up for every checked path, so they are cached in
+// memory; the role routes invalidate the cache after each change
+let customRoleCache: Map<string, Role> | null = null
+
+export function invalidateRoleCache(): void {
+  customRoleCache = null
+}
+
+export function toRole(row: Record<string, unknown>): Role {
+  return {
+    id: row.id as string,
+    companyId: (row.company_id as string | null) ?? null,
+    name: row.name as string,
+    description: (row.description as string | null) ?? null,
+    capabilities: JSON.parse(row.capabilities as string),
+    scope: row.scope as RoleScope,
+    builtin: false,
+  }
+}
+
+export function getRole(roleId: string | undefined): Role | undefined {
+  if (!roleId) return undefined
+  const builtin = BUILTIN_ROLES.find(role => role.id === roleId)
+  if (builtin) return builtin
+  if (!customRoleCache) {
+    const rows = db.prepare('SELECT * FROM roles').all() as Record<string, unknown>[]
+    customRoleCache = new Map(rows.map(row => [row.id as string, toRole(row)]))
+  }
+  return customRoleCache.get(roleId)
+}
+
+// Roles that can be assigned in a company: built-ins plus its own custom roles
+export function getCompanyRole(companyId: string, roleId: unknown): Role | undefined {
+  if (typeof roleId !== 'string') return undefined
+  const role = getRole(roleId)
+  return role && (role.companyId === null || role.companyId === companyId) ? role : undefined
+}
+
+export function listCompanyRoles(companyId: string): Role[] {
+  const rows = db.prepare(`
+    SELECT * FROM roles WHERE company_id = ? ORDER BY created_at ASC
+  `).all(companyId) as Record<string, unknown>[]
+  return [...BUILTIN_ROLES, ...rows.map(toRole)]
+}
+
+export interface Membership {
+  userId: string
+  companyId: string
+  role: string
+  scopeDepartmentId: string | null
+}
+
+export function getMembership(userId: string, companyId: string): Membership | undefined {
+  const row = db.prepare(`
+    SELECT role, scope_department_id FROM memberships WHERE user_id = ? AND company_id = ?
+  `).get(userId, companyId) as { role: string; scope_department_id: string | null } | undefined
+
+  if (!row) return undefined
+  return { userId, companyId, role: row.role, scopeDepartmentId: row.scope_department_id }
+}
+
+// Departments in the subtree rooted at departmentId (itself included)
+function getDepartmentSubtree(companyId: string, departmentId: string): Array<{ id: string; folder: string }> {
+  return db.prepare(`
+    WITH RECURSIVE subtree(id, folder) AS (
+      SELECT id, folder FROM departments WHERE id = ? AND company_id = ?
+      UNION
+      SELECT d.id, d.folder FROM departments d JOIN subtree s ON d.parent_id = s.id
+    )
+    SELECT id, folder FROM subtree
+  `).all(departmentId, companyId) as Array<{ id: string; folder: string }>
+}
+
+// What a department-scoped capability is being used on
+export interface AuthorizeTarget {
+  departmentId?: string
+  path?: string // repo path (normalized), e.g. for folder permissions
+}
+
+/**
+ * Whether a member may use a capability. Capabilities of department-scoped
+ * roles that are scoped (see SCOPED_CAPABILITIES) need a target inside the
+ * member's department subtree; without a target they mean "company-wide" and
+ * are denied.
+ */
+export function authorize(membership: Membership, capability: Capability, target?: AuthorizeTarget): boolean {
+  const role = getRole(membership.role)
+  if (!role || !role.capabilities.includes(capability)) return false
+  if (role.scope === 'company' || !SCOPED_CAPABILITIES.includes(capability)) return true
+
+  if (!membership.scopeDepartmentId || (!target?.departmentId && target?.path === undefined)) return false
+  const subtree = getDepartmentSubtree(membership.companyId, membership.scopeDepartmentId)
+
+  if (target.departmentId && !subtree.some(dept => dept.id === target.departmentId)) return false
+  const path = target.path
+  if (path !== undefined && !subtree.some(dept => path === dept.folder || path.startsWith(`${dept.folder}/`))) {
+    return false
+  }
+  return true
+}
+
+// Whether the member's role has the capability at all (in any scope), e.g. to
+// show a scoped list instead of rejecting the request
+export function hasCapability(membership: Membership, capability: Capability): boolean {
+  return Boolean(getRole(membership.role)?.capabilities.includes(capability))
+}
+
+// A member may only hand out roles whose capabilities they hold themselves
+export function canAssignRole(membership: Membership, role: Role): boolean {
+  const own = getRole(membership.role)
+  if (!own) return false
+  if (own.scope === 'department' && role.scope === 'company') {
+    return role.capabilities.every(cap => own.capabilities.includes(cap) && !SCOPED_CAPABILITIES.includes(cap))
+  }
+  return role.capabilities.every(cap => own.capabilities.includes(cap))
+}
+
+// Company-wide folder permission managers see and write every folder
+export function hasFullFolderAccess(roleId: string | undefined): boolean {
+  const role = getRole(roleId)
+  return Boolean(role && role.scope === 'company' && role.capabilities.includes('manage_permissions'))
+}
@@ -0,0 +1,225 @@
+import { execFileSync } from 'child_process'
+import { existsSync } from 'fs'
+import { join, posix } from 'path'
+import { db, now } from '../db'
+import { ARCHIVE_FOLDER } from './repo-folders'
+
+// Server-side skill catalog (skills table).
+//
+// The desktop app discovers skills by walking the local checkout, so a member
+// with a sparse checkout never sees skills in folders they haven't
+// downloaded. This indexes every `.claude/skills/<name>/SKILL.md` on the
+// company repo's main branch instead, with the same file layout the desktop
+// scanner reports (rules/, references/, scripts/, tools/).
+
+const DATA_DIR = process.env.DATA_DIR || join(process.cwd(), 'data')
+const REPOS_DIR = process.env.REPOS_DIR || join(DATA_DIR, 'repos')
+
+const SKILL_MD_PATTERN = /^(?:(.+)\/)?\.claude\/skills\/([^/]+)\/SKILL\.md$/
+
+export interface SkillTool {
+  name: string
+  displayName: string
+  hasPackageJson: boolean
+  startCommand?: string
+}
+
+export interface SkillFiles {
+  rules: string[]
+  references: string[]
+  scripts: string[]
+  tools: SkillTool[]
+}
+
+export interface IndexedSkill {
+  path: string // skill directory, e.g. "営業部/.claude/skills/proposal"
+  folder: string // top-level folder ("" = company-wide)
+  name: string
+  description: string
+  status: string | null
+  files: SkillFiles
+}
+
+function getBareRepoPath(companyId: string): string {
+  const sanitizedId = companyId.replace(/[^a-zA-Z0-9_-]/g, '')
+  return join(REPOS_DIR, `${sanitizedId}.git`)
+}
+
+// Same fields as parseSkillFrontmatter in the desktop app
+export function parseSkillFrontmatter(content: string): { name?: string; description?: string; status?: string } {
+  const frontmatterMatch = content.replace(/\r\n/g, '\n').match(/^---\n([\s\S]*?)\n---/)
+  if (!frontmatterMatch) return {}
+
+  const frontmatter = frontmatterMatch[1]
+  const result: { name?: string; description?: string; status?: string } = {}
+
+  const nameMatch = frontmatter.match(/^name:\s*(.+)$/m)
+  if (nameMatch) result.name = nameMatch[1].trim()
+
+  const descMatch = frontmatter.match(/^description:\s*(.+)$/m)
+  if (descMatch) result.description = descMatch[1].trim()
+
+  const statusMatch = frontmatter.match(/^status:\s*(.+)$/m)
+  if (statusMatch) result.status = statusMatch[1].trim()
+
+  return result
+}
+
+// Read many blobs with one `git cat-file --batch` process
+function readBlobs(repoPath: string, commit: string, paths: string[]): Map<string, string> {
+  const contents = new Map<string, string>()
+  if (paths.length === 0) return contents
+
+  const output = execFileSync('git', ['-C', repoPath, 'cat-file', '--batch'], {
+    stdio: 'pipe',
+    input: paths.map(p => `${commit}:${p}`).join('\n') + '\n',
+    maxBuffer: 256 * 1024 * 1024,
+  })
+
+  let offset = 0
+  for (const path of paths) {
+    const headerEnd = output.indexOf(0x0a, offset)
+    if (headerEnd === -1) break
+    const header = output.subarray(offset, headerEnd).toString()
+    offset = headerEnd + 1
+
+    const match = header.match(/^[0-9a-f]+ (\w+) (\d+)$/)
+    if (!match) continue // "<object> missing"
+    const size = Number(match[2])
+    if (match[1] === 'blob') contents.set(path, output.subarray(offset, offset + size).toString('utf-8'))
+    offset += size + 1
+  }
+
+  return contents
+}
+
+// Build the catalog for one commit from a full file listing
+function buildSkills(repoPath: string, commit: string, allPaths: string[]): Array<IndexedSkill & { content: string }> {
+  const skillDirs = allPaths
+    .map(path => path.match(SKILL_MD_PATTERN))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => ({ dir: posix.dirname(match[0]), parent: match[1] ?? '', dirName: match[2] }))
+    .filter(skill => !skill.dirName.startsWith('.'))
+    // Skills of archived departments are not offered
+    .filter(skill => !skill.dir.startsWith(`${ARCHIVE_FOLDER}/`))
+
+  // Direct children of each skill's subfolders
+  const filesByDir = new Map<string, string[]>()
+  const toolDirsByDir = new Map<string, Set<string>>()
+  for (const path of allPaths) {
+    const dir = posix.dirname(path)
+    const list = filesByDir.get(dir) ?? []
+    list.push(posix.basename(path))
+    filesByDir.set(dir, list)
+
+    const toolMatch = path.match(/^(.*\/\.claude\/skills\/[^/]+\/tools|\.claude\/skills\/[^/]+\/tools)\/([^/]+)\//)
+    if (toolMatch) {
+      const tools = toolDirsByDir.get(toolMatch[1]) ?? new Set<string>()
+      tools.add(toolMatch[2])
+      toolDirsByDir.set(toolMatch[1], tools)
+    }
+  }
+
+  const toolPackagePaths: string[] = []
+  for (const skill of skillDirs) {
+    for (const tool of toolDirsByDir.get(`${skill.dir}/tools`) ?? []) {
+      const packagePath = `${skill.dir}/tools/${tool}/package.json`
+      if (filesByDir.get(posix.dirname(packagePath))?.includes('package.json')) toolPackagePaths.push(packagePath)
+    }
+  }
+
+  const blobs = readBlobs(repoPath, commit, [...skillDirs.map(s => `${s.dir}/SKILL.md`), ...toolPackagePaths])
+
+  return skillDirs.map(skill => {
+    const content = blobs.get(`${skill.dir}/SKILL.md`) ?? ''
+    const frontmatter = parseSkillFrontmatter(content)
+    const childFiles = (sub: string) => (filesByDir.get(`${skill.dir}/${sub}`) ?? []).filter(f => !f.startsWith('.'))
+
+    const tools: SkillTool[] = []
+    for (const toolName of toolDirsByDir.get(`${skill.dir}/tools`) ?? []) {
+      if (toolName.startsWith('.') || toolName === 'node_modules') continue
+      const packageJson = blobs.get(`${skill.dir}/tools/${toolName}/package.json`)
+      const tool: SkillTool = { name: toolName, displayName: toolName, hasPackageJson: packageJson !== undefined }
+      if (packageJson !== undefined) {
+        try {
+          const pkg = JSON.parse(packageJson)
+          tool.displayName = pkg.name || toolName
+          if (pkg.scripts?.dev) tool.startCommand = 'dev'
+          else if (pkg.scripts?.start) tool.startCommand = 'start'
+        } catch {
+          // Ignore package.json parse errors
+        }
+      }
+      tools.push(tool)
+    }
+
+    return {
+      path: skill.dir,
+      folder: skill.parent.split('/')[0] ?? '',
+      name: frontmatter.name || skill.dirName,
+      description: frontmatter.description || '',
+      status: frontmatter.status ?? null,
+      content,
+      files: {
+        rules: childFiles('rules').filter(f => f.endsWith('.md')),
+        references: childFiles('references'),
+        scripts: childFiles('scripts'),
+        tools,
+      },
+    }
+  })
+}
+
+// Re-index a company's skills if main moved since the last run. Cheap when
+// nothing changed (one rev-parse), so readers call it before every query.
+export function indexCompanySkills(companyId: string): void {
+  const repoPath = getBareRepoPath(companyId)
+  if (!existsSync(repoPath)) return
+
+  let head: string
+  try {
+    head = execFileSync('git', ['-C', repoPath, 'rev-parse', '--verify', '--quiet', 'refs/heads/main^{commit}'], {
+      stdio: 'pipe',
+    }).toString().trim()
+  } catch {
+    return // Empty repository
+  }
+
+  const state = db.prepare('SELECT commit_sha FROM skill_index_state WHERE company_id = ?').get(companyId) as
+    { commit_sha: string } | undefined
+  if (state?.commit_sha === head) return
+
+  const allPaths = execFileSync('git', ['-C', repoPath, 'ls-tree', '-r', '-z', '--name-only', head], {
+    stdio: 'pipe',
+    maxBuffer: 256 * 1024 * 1024,
+  }).toString().split('\0').filter(Boolean)
+
+  const skills = buildSkills(repoPath, head, allPaths)
+
+  const insert = db.prepare(`
+    INSERT INTO skills (company_id, path, folder, name, description, status, content, files)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+  db.transaction(() => {
+    db.prepare('DELETE FROM skills WHERE company_id = ?').run(companyId)
+    for (const skill of skills) {
+      insert.run(companyId, skill.path, skill.folder, skill.name, skill.description, skill.status,
+        skill.content, JSON.stringify(skill.files))
+    }
+    db.prepare(`
+      INSERT INTO skill_index_state (company_id, commit_sha, indexed_at) VALUES (?, ?, ?)
+      ON CONFLICT(company_id) DO UPDATE SET commit_sha = excluded.commit_sha, indexed_at = excluded.indexed_at
+    `).run(companyId, head, now())
+  })()
+}
+
+// Index after a push without holding up the push response
+export function scheduleSkillIndex(companyId: string): void {
+  setImmediate(() => {
+    try {
+      indexCompanySkills(companyId)
+    } catch (error) {
+      console.error(`[skill-index] Failed to index skills for ${companyId}:`, error)
+    }
+  })
+}
@@ -0,0 +1,264 @@
+// Single sign-on through the company's identity provider (Better Auth's SSO
+// plugin; see lib/auth.ts).
+//
+// Providers come from env vars rather than the ssoProvider table, so there is
+// nothing to register at runtime:
+//   OIDC: SSO_OIDC_ISSUER, SSO_OIDC_CLIENT_ID, SSO_OIDC_CLIENT_SECRET
+//         (optional SSO_OIDC_DISCOVERY_URL, SSO_OIDC_SCOPES)
+//   SAML: SSO_SAML_ENTRY_POINT, SSO_SAML_ISSUER, SSO_SAML_CERT (needs PUBLIC_URL
+//         for the assertion consumer URL)
+//
+// Every SSO sign-in provisions the user just in time: they join SSO_COMPANY
+// (id or slug) with SSO_ROLE if not yet a member, and their IdP groups
+// (SSO_GROUPS_CLAIM, default "groups") are mapped to departments through
+// SSO_GROUP_DEPARTMENTS ("group=folder,group=folder"). Departments named in
+// that mapping are managed by the IdP: users are added and removed to match.
+
+import type { OIDCConfig, SAMLConfig } from '@better-auth/sso'
+import { db, generateId, now } from '../db'
+import { recordAuditEvent } from './audit'
+import { getCompanyRole } from './roles'
+
+export const OIDC_PROVIDER_ID = 'oidc'
+export const SAML_PROVIDER_ID = 'saml'
+
+const DEFAULT_ROLE = 'member'
+
+export interface SsoProviderConfig {
+  providerId: string
+  domain: string
+  oidcConfig?: OIDCConfig
+  samlConfig?: SAMLConfig
+}
+
+/** What the sign-in screens need to show a button */
+export interface SsoProviderInfo {
+  id: string
+  type: 'oidc' | 'saml'
+  name: string
+}
+
+function groupsClaim(): string {
+  return process.env.SSO_GROUPS_CLAIM || 'groups'
+}
+
+// Built once at startup by lib/auth.ts. authBaseURL is Better Auth's base URL
+// (…/api/auth) when known; SAML cannot work without it.
+export function buildSsoProviders(authBaseURL: string | undefined): SsoProviderConfig[] {
+  const providers: SsoProviderConfig[] = []
+  const domain = process.env.SSO_DOMAIN || ''
+
+  const issuer = process.env.SSO_OIDC_ISSUER?.replace(/\/$/, '')
+  if (issuer) {
+    const clientId = process.env.SSO_OIDC_CLIENT_ID
+    const clientSecret = process.env.SSO_OIDC_CLIENT_SECRET
+    if (!clientId || !clientSecret) {
+      console.error('[sso] SSO_OIDC_ISSUER is set but SSO_OIDC_CLIENT_ID or SSO_OIDC_CLIENT_SECRET is missing; OIDC sign-in is disabled')
+    } else {
+      // Unset keys are left out entirely: the plugin spreads this config over
+      // the discovered endpoints, so an undefined value would hide them
+      const oidcConfig: OIDCConfig = {
+        issuer,
+        clientId,
+        clientSecret,
+        discoveryEndpoint: process.env.SSO_OIDC_DISCOVERY_URL || `${issuer}/.well-known/openid-configuration`,
+        pkce: true,
+        mapping: { extraFields: { groups: groupsClaim() } },
+      }
+      if (process.env.SSO_OIDC_SCOPES) {
+        oidcConfig.scopes = process.env.SSO_OIDC_SCOPES.split(/[\s,]+/).filter(Boolean)
+      }
+      providers.push({ providerId: OIDC_PROVIDER_ID, domain, oidcConfig })
+    }
+  }
+
+  const entryPoint = process.env.SSO_SAML_ENTRY_POINT
+  if (entryPoint) {
+    const samlIssuer = process.env.SSO_SAML_ISSUER
+    const cert = process.env.SSO_SAML_CERT
+    if (!samlIssuer || !cert) {
+      console.error('[sso] SSO_SAML_ENTRY_POINT is set but SSO_SAML_ISSUER or SSO_SAML_CERT is missing; SAML sign-in is disabled')
+    } else if (!authBaseURL) {
+      console.error('[sso] SAML sign-in needs PUBLIC_URL for its assertion consumer URL; SAML sign-in is disabled')
+    } else {
+      const entityID = `${authBaseURL}/sso/saml2/sp/metadata?providerId=${SAML_PROVIDER_ID}`
+      providers.push({
+        providerId: SAML_PROVIDER_ID,
+        domain,
+        samlConfig: {
+          issuer: samlIssuer,
+          entryPoint,
+          cert,
+          callbackUrl: `${authBaseURL}/sso/saml2/sp/acs/${SAML_PROVIDER_ID}`,
+          audience: entityID,
+          spMetadata: { entityID },
+          mapping: { extraFields: { groups: groupsClaim() } },
+        },
+      })
+    }
+  }
+
+  return providers
+}
+
+export function listSsoProviders(providers: SsoProviderConfig[]): SsoProviderInfo[] {
+  const name = process.env.SSO_PROVIDER_NAME || 'SSO'
+  return providers.map(provider => ({
+    id: provider.providerId,
+    type: provider.oidcConfig ? 'oidc' : 'saml',
+    name,
+  }))
+}
+
+// The plugin reads the token and userinfo endpoints from discovery on every
+// callback, but never jwks_uri, which it needs to verify ID tokens. Discovery
+// is fetched once and its endpoints filled into the configs in place.
+let discovery: Promise<void> | null = null
+
+export function resolveOidcEndpoints(providers: SsoProviderConfig[]): Promise<void> {
+  const pending = providers
+    .map(provider => provider.oidcConfig)
+    .filter((config): config is OIDCConfig => !!config && !config.jwksEndpoint)
+  if (pending.length === 0) return Promise.resolve()
+
+  discovery ??= Promise.all(pending.map(async (config) => {
+    const response = await fetch(config.discoveryEndpoint)
+    if (!response.ok) {
+      throw new Error(`OIDC discovery responded with ${response.status}`)
+    }
+    const document = await response.json() as Record<string, unknown>
+    const endpoint = (key: string) => typeof document[key] === 'string' ? document[key] as string : undefined
+    config.authorizationEndpoint ??= endpoint('authorization_endpoint')
+    config.tokenEndpoint ??= endpoint('token_endpoint')
+    config.userInfoEndpoint ??= endpoint('userinfo_endpoint')
+    config.jwksEndpoint ??= endpoint('jwks_uri')
+  })).then(() => {}, (error) => {
+    // Let the next sign-in try again
+    discovery = null
+    console.error('[sso] Failed to fetch OIDC discovery document:', error)
+  })
+  return discovery
+}
+
+function parseGroupDepartments(): Map<string, string[]> {
+  const mapping = new Map<string, string[]>()
+  for (const entry of (process.env.SSO_GROUP_DEPARTMENTS || '').split(',')) {
+    const separator = entry.lastIndexOf('=')
+    if (separator <= 0) continue
+    const group = entry.slice(0, separator).trim()
+    const folder = entry.slice(separator + 1).trim()
+    if (!group || !folder) continue
+    mapping.set(group, [...(mapping.get(group) ?? []), folder])
+  }
+  return mapping
+}
+
+// Groups arrive as an array (OIDC claims, multi-valued SAML attributes) or a
+// single string
+function toGroups(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((group): group is string => typeof group === 'string')
+  if (typeof value === 'string' && value) return [value]
+  return []
+}
+
+// Called by the SSO plugin after every successful SSO sign-in
+export function provisionSsoUser(userId: string, groupsValue: unknown): void {
+  const companyRef = process.env.SSO_COMPANY
+  if (!companyRef) return
+
+  const company = db.prepare(`
+    SELECT id FROM companies WHERE id = ? OR slug = ?
+  `).get(companyRef, companyRef) as { id: string } | undefined
+  if (!company) {
+    console.error(`[sso] SSO_COMPANY "${companyRef}" does not match any company; skipping provisioning`)
+    return
+  }
+  const companyId = company.id
+  const timestamp = now()
+
+  const existing = db.prepare(`
+    SELECT id FROM memberships WHERE user_id = ? AND company_id = ?
+  `).get(userId, companyId)
+
+  // Only a new member gets the configured role; a role changed by an admin
+  // afterwards is kept
+  if (!existing) {
+    const configured = getCompanyRole(companyId, process.env.SSO_ROLE || DEFAULT_ROLE)
+    const role = configured && configured.id !== 'owner' && configured.scope === 'company'
+      ? configured.id
+      : DEFAULT_ROLE
+    if (process.env.SSO_ROLE && role !== process.env.SSO_ROLE) {
+      console.error(`[sso] SSO_ROLE "${process.env.SSO_ROLE}" is not a company-wide role of this company; using "${DEFAULT_ROLE}"`)
+    }
+
+    db.prepare(`
+      INSERT INTO memberships (id, user_id, company_id, role, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(generateId(), userId, companyId, role, timestamp, timestamp)
+
+    recordAuditEvent({
+      companyId,
+      actorId: null,
+      action: 'member.add',
+      targetType: 'user',
+      targetId: userId,
+      details: { role, source: 'sso' },
+    })
+  }
+
+  const mapping = parseGroupDepartments()
+  if (mapping.size === 0) return
+
+  const groups = new Set(toGroups(groupsValue))
+  const wanted = new Set<string>()
+  const managed = new Set<string>()
+  for (const [group, folders] of mapping) {
+    for (const folder of folders) {
+      managed.add(folder)
+      if (groups.has(group)) wanted.add(folder)
+    }
+  }
+
+  const findDepartment = db.prepare(`
+    SELECT id, name FROM departments WHERE company_id = ? AND folder = ?
+  `)
+  const findAssignment = db.prepare(`
+    SELECT 1 FROM department_members WHERE department_id = ? AND user_id = ?
+  `)
+
+  for (const folder of managed) {
+    const department = findDepartment.get(companyId, folder) as { id: string; name: string } | undefined
+    if (!department) {
+      console.error(`[sso] SSO_GROUP_DEPARTMENTS names unknown department folder "${folder}"`)
+      continue
+    }
+
+    const assigned = !!findAssignment.get(department.id, userId)
+    if (wanted.has(folder) && !assigned) {
+      db.prepare(`
+        INSERT INTO department_members (department_id, user_id, company_id, is_lead, created_by, created_at)
+        VALUES (?, ?, ?, 0, NULL, ?)
+      `).run(department.id, userId, companyId, timestamp)
+      recordAuditEvent({
+        companyId,
+        actorId: null,
+        action: 'department.assign',
+        targetType: 'department',
+        targetId: department.id,
+        details: { name: department.name, userId, isLead: false, source: 'sso' },
+      })
+    } else if (!wanted.has(folder) && assigned) {
+      db.prepare(`
+        DELETE FROM department_members WHERE department_id = ? AND user_id = ?
+      `).run(department.id, userId)
+      recordAuditEvent({
+        companyId,
+        actorId: null,
+        action: 'department.unassign',
+        targetType: 'department',
+        targetId: department.id,
+        details: { name: department.name, userId, source: 'sso' },
+      })
+    }
+  }
+}
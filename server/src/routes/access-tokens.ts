@@ -0,0 +1,125 @@
+import { Hono } from 'hono'
+import { db, generateId, now } from '../db'
+import { getUserFromRequest } from '../lib/auth'
+import { ACCESS_TOKEN_SCOPES, generateAccessToken, getBearerAccessToken, toAccessToken } from '../lib/access-tokens'
+import type { AccessTokenScope } from '../../shared/types'
+
+export const accessTokensRoute = new Hono()
+
+const MAX_TOKENS_PER_USER = 20
+const MAX_EXPIRES_IN_DAYS = 365
+
+// Tokens are managed from a login session only: a leaked token must not be
+// able to mint new tokens or outlive its own revocation
+function isTokenRequest(request: Request): boolean {
+  return getBearerAccessToken(request) !== null
+}
+
+// List the user's personal access tokens (never the tokens themselves)
+accessTokensRoute.get('/', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  if (isTokenRequest(c.req.raw)) {
+    return c.json({ error: 'Access tokens cannot manage access tokens' }, 403)
+  }
+
+  const rows = db.prepare(`
+    SELECT * FROM access_tokens WHERE user_id = ? ORDER BY created_at DESC
+  `).all(user.id) as Record<string, unknown>[]
+
+  return c.json({
+    success: true,
+    data: rows.map(toAccessToken),
+  })
+})
+
+// Create a personal access token
+// Body: { name, scopes: AccessTokenScope[], expiresInDays?: number } (no expiry when omitted)
+// The token is only returned here; the server keeps its hash.
+accessTokensRoute.post('/', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  if (isTokenRequest(c.req.raw)) {
+    return c.json({ error: 'Access tokens cannot manage access tokens' }, 403)
+  }
+
+  const body = await c.req.json().catch(() => ({}))
+  const { name, scopes, expiresInDays } = body
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > 100) {
+    return c.json({ error: 'name is required (max 100 characters)' }, 400)
+  }
+
+  if (
+    !Array.isArray(scopes) ||
+    scopes.length === 0 ||
+    scopes.some(scope => !ACCESS_TOKEN_SCOPES.includes(scope as AccessTokenScope))
+  ) {
+    return c.json({ error: `scopes must be a non-empty array of: ${ACCESS_TOKEN_SCOPES.join(', ')}` }, 400)
+  }
+
+  if (
+    expiresInDays !== undefined && expiresInDays !== null &&
+    (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRES_IN_DAYS)
+  ) {
+    return c.json({ error: `expiresInDays must be an integer between 1 and ${MAX_EXPIRES_IN_DAYS}` }, 400)
+  }
+
+  const tokenCount = db.prepare(`
+    SELECT COUNT(*) as count FROM access_tokens WHERE user_id = ?
+  `).get(user.id) as { count: number }
+
+  if (tokenCount.count >= MAX_TOKENS_PER_USER) {
+    return c.json({ error: `Maximum of ${MAX_TOKENS_PER_USER} access tokens allowed per user` }, 400)
+  }
+
+  const id = generateId()
+  const timestamp = now()
+  const expiresAt = expiresInDays
+    ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+    : null
+  const { token, tokenHash, tokenPrefix } = generateAccessToken()
+
+  db.prepare(`
+    INSERT INTO access_tokens (id, user_id, name, token_hash, token_prefix, scopes, expires_at, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(id, user.id, name.trim(), tokenHash, tokenPrefix, JSON.stringify([...new Set(scopes)]), expiresAt, timestamp)
+
+  const row = db.prepare('SELECT * FROM access_tokens WHERE id = ?').get(id) as Record<string, unknown>
+
+  return c.json({
+    success: true,
+    data: { ...toAccessToken(row), token },
+  }, 201)
+})
+
+// Revoke a personal access token
+accessTokensRoute.delete('/:id', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  if (isTokenRequest(c.req.raw)) {
+    return c.json({ error: 'Access tokens cannot manage access tokens' }, 403)
+  }
+
+  const result = db.prepare(`
+    DELETE FROM access_tokens WHERE id = ? AND user_id = ?
+  `).run(c.req.param('id'), user.id)
+
+  if (result.changes === 0) {
+    return c.json({ error: 'Token not found' }, 404)
+  }
+
+  return c.json({
+    success: true,
+    message: 'Token revoked',
+  })
+})
@@ -0,0 +1,124 @@
+import { Hono } from 'hono'
+import { db } from '../db'
+import { getUserFromRequest, getUsersByIds } from '../lib/auth'
+import { authorize, getMembership } from '../lib/roles'
+
+export const auditRoute = new Hono()
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+// Helper: Convert an audit_events row to the API shape
+function toAuditEvent(row: Record<string, unknown>) {
+  let details: unknown = null
+  if (typeof row.details === 'string') {
+    try {
+      details = JSON.parse(row.details)
+    } catch {
+      details = row.details
+    }
+  }
+
+  return {
+    id: row.id as string,
+    companyId: row.company_id as string,
+    actorId: (row.actor_id as string | null) ?? null,
+    action: row.action as string,
+    targetType: (row.target_type as string | null) ?? null,
+    targetId: (row.target_id as string | null) ?? null,
+    details,
+    createdAt: row.created_at as string,
+  }
+}
+
+function parseDate(value: string | undefined): string | null | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+// GET /api/companies/:companyId/audit - Paginated audit log (view_audit)
+// Filters: action ("department" matches every department.* action), actorId,
+// from/to (ISO 8601, inclusive). Paging: limit (max 200), offset.
+auditRoute.get('/', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  if (!companyId) {
+    return c.json({ error: 'Company ID is required' }, 400)
+  }
+
+  const membership = getMembership(user.id, companyId)
+
+  if (!membership || !authorize(membership, 'view_audit')) {
+    return c.json({ error: 'Your role cannot view the audit log' }, 403)
+  }
+
+  const limit = c.req.query('limit') ? Number(c.req.query('limit')) : DEFAULT_LIMIT
+  const offset = c.req.query('offset') ? Number(c.req.query('offset')) : 0
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return c.json({ error: `limit must be an integer between 1 and ${MAX_LIMIT}` }, 400)
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return c.json({ error: 'offset must be a non-negative integer' }, 400)
+  }
+
+  const from = parseDate(c.req.query('from'))
+  const to = parseDate(c.req.query('to'))
+  if (from === null || to === null) {
+    return c.json({ error: 'from and to must be ISO 8601 dates' }, 400)
+  }
+
+  const conditions = ['company_id = ?']
+  const values: unknown[] = [companyId]
+
+  const action = c.req.query('action')
+  if (action) {
+    conditions.push('(action = ? OR action LIKE ?)')
+    values.push(action, `${action.replace(/[%_]/g, '')}.%`)
+  }
+  const actorId = c.req.query('actorId')
+  if (actorId) {
+    conditions.push('actor_id = ?')
+    values.push(actorId)
+  }
+  if (from) {
+    conditions.push('created_at >= ?')
+    values.push(from)
+  }
+  if (to) {
+    conditions.push('created_at <= ?')
+    values.push(to)
+  }
+
+  const where = conditions.join(' AND ')
+  const { total } = db.prepare(`
+    SELECT COUNT(*) as total FROM audit_events WHERE ${where}
+  `).get(...values) as { total: number }
+
+  const rows = db.prepare(`
+    SELECT * FROM audit_events WHERE ${where}
+    ORDER BY created_at DESC, rowid DESC
+    LIMIT ? OFFSET ?
+  `).all(...values, limit, offset) as Record<string, unknown>[]
+
+  // Enrich with actor info from auth.sqlite
+  const events = rows.map(toAuditEvent)
+  const usersMap = getUsersByIds([...new Set(events.map(e => e.actorId).filter((id): id is string => !!id))])
+
+  return c.json({
+    success: true,
+    data: {
+      events: events.map(event => {
+        const actor = event.actorId ? usersMap.get(event.actorId) : undefined
+        return { ...event, actorEmail: actor?.email ?? null, actorName: actor?.name ?? null }
+      }),
+      total,
+      limit,
+      offset,
+    },
+  })
+})
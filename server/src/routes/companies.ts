@@ -2,8 +2,16 @@ import { Hono } from 'hono'
 import { db, generateId, now } from '../db'
 import { getUserFromRequest, getUsersByIds } from '../lib/auth'
 import { configureBareRepo } from './git'
+import { applyFolderChanges, SYSTEM_AUTHOR } from '../lib/repo-folders'
+import { MAX_RETENTION_DAYS } from '../lib/department-archive'
+import { MAX_QUOTA_GB, getLargeFileUsage } from '../lib/large-files'
+import { removeUserView } from '../lib/repo-views'
+import { recordAuditEvent } from '../lib/audit'
+import { toCsv } from '../lib/csv'
+import { parseJsonList } from '../lib/invitations'
+import { authorize, canAssignRole, getCompanyRole, getMembership, type Membership, type Role } from '../lib/roles'
 import { execFileSync } from 'child_process'
-import { existsSync, mkdirSync, writeFileSync } from 'fs'
+import { existsSync, mkdirSync } from 'fs'
 import { join } from 'path'
 
 export const companiesRoute = new Hono()
@@ -63,10 +71,62 @@ function toCamelCase(obj: Record<string, unknown>): Record<string, unknown> {
   return result
 }
 
+// Helper: Validate a role given to a member. Department-scoped roles need the
+// department the member will manage; nobody can hand out capabilities they
+// don't have themselves. The owner role only changes hands through
+// transfer-ownership, so the company always has exactly one owner.
+function checkRoleAssignment(
+  actor: Membership,
+  roleId: unknown,
+  departmentId: unknown
+): { error: string; status: 400 | 403 } | { role: Role; scopeDepartmentId: string | null } {
+  if (roleId === 'owner') {
+    return { error: 'The owner role cannot be assigned', status: 400 }
+  }
+
+  const role = getCompanyRole(actor.companyId, roleId)
+  if (!role) {
+    return { error: 'Invalid role', status: 400 }
+  }
+
+  if (!canAssignRole(actor, role)) {
+    return { error: 'Cannot assign a role with capabilities you do not have', status: 403 }
+  }
+
+  if (role.scope === 'company') {
+    return { role, scopeDepartmentId: null }
+  }
+
+  const department = typeof departmentId === 'string' && db.prepare(`
+    SELECT id FROM departments WHERE id = ? AND company_id = ?
+  `).get(departmentId, actor.companyId)
+  if (!department) {
+    return { error: 'departmentId of an existing department is required for this role', status: 400 }
+  }
+  return { role, scopeDepartmentId: departmentId as string }
+}
+
+// Helper: Remove a user's membership along with their path permissions and
+// department assignments, which only make sense for current members
+function removeMembership(companyId: string, userId: string): void {
+  db.transaction(() => {
+    db.prepare(`
+      DELETE FROM memberships WHERE user_id = ? AND company_id = ?
+    `).run(userId, companyId)
+    db.prepare(`
+      DELETE FROM permissions WHERE user_id = ? AND company_id = ?
+    `).run(userId, companyId)
+    db.prepare(`
+      DELETE FROM department_members WHERE user_id = ? AND company_id = ?
+    `).run(userId, companyId)
+  })()
+
+  void removeUserView(companyId, userId)
+}
+
 // Base directory for Git repositories
 const DATA_DIR = process.env.DATA_DIR || join(process.cwd(), 'data')
 const REPOS_DIR = process.env.REPOS_DIR || join(DATA_DIR, 'repos')
-const WORKDIR_DIR = join(DATA_DIR, 'workdirs') // Must match departments.ts so GETs reuse the same clone
 
 // Helper: Create slug from name
 function createSlug(name: string): string {
@@ -113,51 +173,26 @@ function createCompanyRepo(companyId: string): string {
 }
 
 // Helper: Seed default department folders into the company repo, so the
-// filesystem (source of truth) matches the DB rows created by
+// repository (source of truth) matches the DB rows created by
 // initializeDefaultDepartments. Without this, GET /departments returns an
-// empty list (it only returns DB rows whose folder exists on disk).
-function seedDepartmentFolders(companyId: string, bareRepoPath: string): void {
-  const sanitizedId = companyId.replace(/[^a-zA-Z0-9_-]/g, '')
-  const workDir = join(WORKDIR_DIR, sanitizedId)
-
-  if (!existsSync(WORKDIR_DIR)) {
-    mkdirSync(WORKDIR_DIR, { recursive: true })
-  }
-  if (!existsSync(workDir)) {
-    execFileSync('git', ['clone', bareRepoPath, workDir], { stdio: 'pipe' })
-  }
-  // The bare repo is empty here; pin the unborn branch to main regardless of
-  // the host git's init.defaultBranch
-  execFileSync('git', ['-C', workDir, 'checkout', '-B', 'main'], { stdio: 'pipe' })
-
-  // Normalize line endings to LF on every platform: scripts inside shared
-  // skills break under Git Bash on Windows when checked out as CRLF.
-  // (text=auto only applies to files git detects as text — binaries are safe.)
-  writeFileSync(
-    join(workDir, '.gitattributes'),
-    '# AI Company Builder: テキストファイルの改行コードを全OSでLFに統一\n* text=auto eol=lf\n'
-  )
-
-  // Same folder layout as the create-department endpoint in departments.ts
-  for (const dept of DEFAULT_DEPARTMENTS) {
-    const folderPath = join(workDir, dept.folder)
-    mkdirSync(folderPath, { recursive: true })
-    writeFileSync(join(folderPath, '.gitkeep'), '')
-
-    const personalDir = join(folderPath, '.personal')
-    mkdirSync(personalDir, { recursive: true })
-    writeFileSync(join(personalDir, '.gitignore'), '# Personal workspace — not synced\n*\n!.gitignore\n')
-  }
-
-  execFileSync('git', ['-C', workDir, 'add', '-A'], { stdio: 'pipe' })
-  // Explicit identity: seeding must not depend on host-level git config
-  execFileSync('git', [
-    '-C', workDir,
-    '-c', 'user.name=AI Company Builder',
-    '-c', 'user.email=system@ai-company-builder.local',
-    'commit', '-m', 'Initialize default department folders',
-  ], { stdio: 'pipe' })
-  execFileSync('git', ['-C', workDir, 'push', 'origin', 'main'], { stdio: 'pipe' })
+// empty list (it only returns DB rows whose folder exists on main).
+function seedDepartmentFolders(bareRepoPath: string): void {
+  const result = applyFolderChanges(bareRepoPath, [
+    // Normalize line endings to LF on every platform: scripts inside shared
+    // skills break under Git Bash on Windows when checked out as CRLF.
+    // (text=auto only applies to files git detects as text — binaries are safe.)
+    {
+      type: 'file',
+      name: '.gitattributes',
+      content: '# AI Company Builder: テキストファイルの改行コードを全OSでLFに統一\n* text=auto eol=lf\n',
+    },
+    // Same folder layout as the create-department endpoint in departments.ts
+    ...DEFAULT_DEPARTMENTS.map(dept => ({ type: 'create' as const, folder: dept.folder })),
+  ], 'Initialize default department folders', SYSTEM_AUTHOR)
+
+  if ('error' in result) {
+    throw new Error(result.error)
+  }
 }
 
 // List companies for the current user
@@ -194,7 +229,7 @@ companiesRoute.get('/:id', async (c) => {
   // Check if user has access to this company
   const membership = db.prepare(`
     SELECT * FROM memberships WHERE user_id = ? AND company_id = ?
-  `).get(user.id, companyId)
+  `).get(user.id, companyId) as { role: string; checkout_folders: string | null } | undefined
 
   if (!membership) {
     return c.json({ error: 'Company not found or access denied' }, 404)
@@ -206,7 +241,106 @@ companiesRoute.get('/:id', async (c) => {
     success: true,
     data: {
       ...toCamelCase(company),
-      role: (membership as { role: string }).role,
+      role: membership.role,
+      // Folders to check out first, when the invitation named them
+      checkoutFolders: parseJsonList(membership.checkout_folders),
+    },
+  })
+})
+
+// Large file store usage and quota (any member)
+companiesRoute.get('/:id/large-files', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('id')
+  if (!getMembership(user.id, companyId)) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  return c.json({ success: true, data: getLargeFileUsage(companyId) })
+})
+
+// Update company settings (owner/admin)
+companiesRoute.patch('/:id/settings', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('id')
+
+  const userMembership = getMembership(user.id, companyId)
+
+  if (!userMembership || !authorize(userMembership, 'manage_settings')) {
+    return c.json({ error: 'Your role cannot change company settings' }, 403)
+  }
+
+  const body = await c.req.json()
+  const { readIsolation, departmentRetentionDays, largeFileQuotaGb } = body
+
+  if (readIsolation === undefined && departmentRetentionDays === undefined && largeFileQuotaGb === undefined) {
+    return c.json({ error: 'No settings to update' }, 400)
+  }
+
+  if (readIsolation !== undefined && typeof readIsolation !== 'boolean') {
+    return c.json({ error: 'readIsolation must be a boolean' }, 400)
+  }
+
+  // Days archived departments are kept before they are removed for good
+  // (null = keep until restored)
+  if (departmentRetentionDays !== undefined && departmentRetentionDays !== null &&
+      (!Number.isInteger(departmentRetentionDays) || departmentRetentionDays < 1 ||
+        departmentRetentionDays > MAX_RETENTION_DAYS)) {
+    return c.json({ error: `departmentRetentionDays must be null or a whole number from 1 to ${MAX_RETENTION_DAYS}` }, 400)
+  }
+
+  // Large file store quota (null = server default); the server sets the most
+  // a company may use
+  if (largeFileQuotaGb !== undefined && largeFileQuotaGb !== null &&
+      (!Number.isInteger(largeFileQuotaGb) || largeFileQuotaGb < 1 || largeFileQuotaGb > MAX_QUOTA_GB)) {
+    return c.json({ error: `largeFileQuotaGb must be null or a whole number from 1 to ${MAX_QUOTA_GB}` }, 400)
+  }
+
+  // Read isolation: members fetch a filtered per-user view of the repo
+  // instead of the full history (lib/repo-views.ts). Switching it either way
+  // replaces the history members see, so their clients must set up again.
+  if (readIsolation !== undefined) {
+    db.prepare(`
+      UPDATE companies SET read_isolation = ?, updated_at = ? WHERE id = ?
+    `).run(readIsolation ? 1 : 0, now(), companyId)
+  }
+
+  if (departmentRetentionDays !== undefined) {
+    db.prepare(`
+      UPDATE companies SET department_retention_days = ?, updated_at = ? WHERE id = ?
+    `).run(departmentRetentionDays, now(), companyId)
+  }
+
+  if (largeFileQuotaGb !== undefined) {
+    db.prepare(`
+      UPDATE companies SET large_file_quota_gb = ?, updated_at = ? WHERE id = ?
+    `).run(largeFileQuotaGb, now(), companyId)
+  }
+
+  recordAuditEvent({
+    companyId,
+    actorId: user.id,
+    action: 'company.settings',
+    targetType: 'company',
+    targetId: companyId,
+    details: { readIsolation, departmentRetentionDays, largeFileQuotaGb },
+  })
+
+  const company = db.prepare('SELECT * FROM companies WHERE id = ?').get(companyId) as Record<string, unknown>
+
+  return c.json({
+    success: true,
+    data: {
+      ...toCamelCase(company),
+      role: userMembership.role,
     },
   })
 })
@@ -262,7 +396,7 @@ companiesRoute.post('/', async (c) => {
   // Seed the matching folders into the repo (filesystem = source of truth)
   if (repoPath) {
     try {
-      seedDepartmentFolders(id, repoPath)
+      seedDepartmentFolders(repoPath)
     } catch (e) {
       console.error('Failed to seed department folders:', e)
       // Continue - folders can be created later via the departments API
@@ -300,16 +434,45 @@ companiesRoute.get('/:id/members', async (c) => {
 
   // For now, allow any member to view the member list
   const members = db.prepare(`
-    SELECT m.id, m.user_id, m.company_id, m.role, m.created_at
+    SELECT m.id, m.user_id, m.company_id, m.role, m.scope_department_id, m.created_at
     FROM memberships m
     WHERE m.company_id = ?
     ORDER BY m.created_at ASC
-  `).all(companyId) as Array<{ id: string; user_id: string; company_id: string; role: string; created_at: string }>
+  `).all(companyId) as Array<{
+    id: string
+    user_id: string
+    company_id: string
+    role: string
+    scope_department_id: string | null
+    created_at: string
+  }>
 
   // Enrich with user info from auth.sqlite
   const userIds = members.map(m => m.user_id)
   const usersMap = getUsersByIds(userIds)
 
+  // ?format=csv: the roster in the columns the invitation import reads
+  // (email, name, role, departments separated by ";")
+  if (c.req.query('format') === 'csv') {
+    const assignments = db.prepare(`
+      SELECT dm.user_id, d.folder
+      FROM department_members dm
+      JOIN departments d ON d.id = dm.department_id
+      WHERE dm.company_id = ?
+      ORDER BY d.folder
+    `).all(companyId) as Array<{ user_id: string; folder: string }>
+
+    const rows = members.map(m => {
+      const userInfo = usersMap.get(m.user_id)
+      const folders = assignments.filter(a => a.user_id === m.user_id).map(a => a.folder)
+      return [userInfo?.email ?? '', userInfo?.name ?? '', m.role, folders.join(';')]
+    })
+
+    c.header('Content-Type', 'text/csv; charset=utf-8')
+    c.header('Content-Disposition', 'attachment; filename="members.csv"')
+    return c.body(toCsv([['email', 'name', 'role', 'departments'], ...rows]))
+  }
+
   return c.json({
     success: true,
     data: members.map(m => {
@@ -319,6 +482,7 @@ companiesRoute.get('/:id/members', async (c) => {
         userId: m.user_id,
         companyId: m.company_id,
         role: m.role,
+        scopeDepartmentId: m.scope_department_id,
         createdAt: m.created_at,
         email: userInfo?.email ?? null,
         name: userInfo?.name ?? null,
@@ -336,13 +500,10 @@ companiesRoute.post('/:id/members', async (c) => {
 
   const companyId = c.req.param('id')
 
-  // Check if user is admin/owner of this company
-  const userMembership = db.prepare(`
-    SELECT role FROM memberships WHERE user_id = ? AND company_id = ?
-  `).get(user.id, companyId) as { role: string } | undefined
+  const userMembership = getMembership(user.id, companyId)
 
-  if (!userMembership || !['owner', 'admin'].includes(userMembership.role)) {
-    return c.json({ error: 'Only owners and admins can invite members' }, 403)
+  if (!userMembership || !authorize(userMembership, 'manage_members')) {
+    return c.json({ error: 'Your role cannot add members' }, 403)
   }
 
   const body = await c.req.json()
@@ -352,8 +513,9 @@ companiesRoute.post('/:id/members', async (c) => {
     return c.json({ error: 'userId is required' }, 400)
   }
 
-  if (!['owner', 'admin', 'member'].includes(role)) {
-    return c.json({ error: 'Invalid role' }, 400)
+  const roleCheck = checkRoleAssignment(userMembership, role, body.departmentId)
+  if ('error' in roleCheck) {
+    return c.json({ error: roleCheck.error }, roleCheck.status)
   }
 
   // Check if already a member
@@ -369,16 +531,86 @@ companiesRoute.post('/:id/members', async (c) => {
   const timestamp = now()
 
   db.prepare(`
-    INSERT INTO memberships (id, user_id, company_id, role, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?)
-  `).run(id, userId, companyId, role, timestamp, timestamp)
+    INSERT INTO memberships (id, user_id, company_id, role, scope_department_id, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(id, userId, companyId, role, roleCheck.scopeDepartmentId, timestamp, timestamp)
+
+  recordAuditEvent({
+    companyId,
+    actorId: user.id,
+    action: 'member.add',
+    targetType: 'user',
+    targetId: userId,
+    details: { role, scopeDepartmentId: roleCheck.scopeDepartmentId },
+  })
 
   return c.json({
     success: true,
-    data: { id, userId, companyId, role, createdAt: timestamp },
+    data: { id, userId, companyId, role, scopeDepartmentId: roleCheck.scopeDepartmentId, createdAt: timestamp },
   }, 201)
 })
 
+// Change a member's role (owner/admin or any role with manage_members)
+// Body: { role, departmentId? } - departmentId is required for department-scoped roles
+companiesRoute.patch('/:id/members/:userId', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('id')
+  const targetUserId = c.req.param('userId')
+
+  const userMembership = getMembership(user.id, companyId)
+
+  if (!userMembership || !authorize(userMembership, 'manage_members')) {
+    return c.json({ error: 'Your role cannot change member roles' }, 403)
+  }
+
+  const targetMembership = getMembership(targetUserId, companyId)
+  if (!targetMembership) {
+    return c.json({ error: 'Member not found' }, 404)
+  }
+
+  if (targetMembership.role === 'owner') {
+    return c.json({ error: "The owner's role cannot be changed" }, 403)
+  }
+
+  const currentRole = getCompanyRole(companyId, targetMembership.role)
+  if (currentRole && !canAssignRole(userMembership, currentRole)) {
+    return c.json({ error: 'Cannot change the role of a member with a more privileged role' }, 403)
+  }
+
+  const body = await c.req.json().catch(() => ({}))
+
+  const roleCheck = checkRoleAssignment(userMembership, body.role, body.departmentId)
+  if ('error' in roleCheck) {
+    return c.json({ error: roleCheck.error }, roleCheck.status)
+  }
+
+  db.prepare(`
+    UPDATE memberships SET role = ?, scope_department_id = ?, updated_at = ? WHERE user_id = ? AND company_id = ?
+  `).run(body.role, roleCheck.scopeDepartmentId, now(), targetUserId, companyId)
+
+  recordAuditEvent({
+    companyId,
+    actorId: user.id,
+    action: 'member.role',
+    targetType: 'user',
+    targetId: targetUserId,
+    details: {
+      from: targetMembership.role,
+      to: body.role,
+      scopeDepartmentId: roleCheck.scopeDepartmentId,
+    },
+  })
+
+  return c.json({
+    success: true,
+    data: { userId: targetUserId, companyId, role: body.role, scopeDepartmentId: roleCheck.scopeDepartmentId },
+  })
+})
+
 // Remove a member from company
 companiesRoute.delete('/:id/members/:userId', async (c) => {
   const user = await getUserFromRequest(c.req.raw)
@@ -389,30 +621,145 @@ companiesRoute.delete('/:id/members/:userId', async (c) => {
   const companyId = c.req.param('id')
   const targetUserId = c.req.param('userId')
 
-  // Check if user is admin/owner of this company
-  const userMembership = db.prepare(`
-    SELECT role FROM memberships WHERE user_id = ? AND company_id = ?
-  `).get(user.id, companyId) as { role: string } | undefined
+  const userMembership = getMembership(user.id, companyId)
 
-  if (!userMembership || !['owner', 'admin'].includes(userMembership.role)) {
-    return c.json({ error: 'Only owners and admins can remove members' }, 403)
+  if (!userMembership || !authorize(userMembership, 'manage_members')) {
+    return c.json({ error: 'Your role cannot remove members' }, 403)
   }
 
   // Cannot remove the owner
-  const targetMembership = db.prepare(`
-    SELECT role FROM memberships WHERE user_id = ? AND company_id = ?
-  `).get(targetUserId, companyId) as { role: string } | undefined
+  const targetMembership = getMembership(targetUserId, companyId)
 
   if (targetMembership?.role === 'owner') {
     return c.json({ error: 'Cannot remove the owner' }, 403)
   }
 
-  db.prepare(`
-    DELETE FROM memberships WHERE user_id = ? AND company_id = ?
-  `).run(targetUserId, companyId)
+  // Nor anyone holding capabilities the caller lacks
+  const targetRole = getCompanyRole(companyId, targetMembership?.role)
+  if (targetRole && !canAssignRole(userMembership, targetRole)) {
+    return c.json({ error: 'Cannot remove a member with a more privileged role' }, 403)
+  }
+
+  removeMembership(companyId, targetUserId)
+
+  if (targetMembership) {
+    recordAuditEvent({
+      companyId,
+      actorId: user.id,
+      action: 'member.remove',
+      targetType: 'user',
+      targetId: targetUserId,
+      details: { role: targetMembership.role },
+    })
+  }
 
   return c.json({
     success: true,
     message: 'Member removed',
   })
 })
+
+// Transfer ownership to another member (current owner only)
+// Body: { userId, confirm } where confirm must be the company name.
+// The previous owner stays on as an admin, so the company always has exactly
+// one owner.
+companiesRoute.post('/:id/transfer-ownership', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('id')
+
+  const userMembership = getMembership(user.id, companyId)
+  if (!userMembership) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  const company = db.prepare('SELECT * FROM companies WHERE id = ?').get(companyId) as Record<string, unknown>
+  if (userMembership.role !== 'owner' || company.owner_id !== user.id) {
+    return c.json({ error: 'Only the owner can transfer ownership' }, 403)
+  }
+
+  const body = await c.req.json().catch(() => ({}))
+  const { userId: targetUserId, confirm } = body
+
+  if (typeof targetUserId !== 'string' || !targetUserId) {
+    return c.json({ error: 'userId is required' }, 400)
+  }
+
+  if (confirm !== company.name) {
+    return c.json({ error: 'confirm must match the company name' }, 400)
+  }
+
+  if (targetUserId === user.id) {
+    return c.json({ error: 'You already own this company' }, 400)
+  }
+
+  if (!getMembership(targetUserId, companyId)) {
+    return c.json({ error: 'Member not found' }, 404)
+  }
+
+  const timestamp = now()
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE companies SET owner_id = ?, updated_at = ? WHERE id = ?
+    `).run(targetUserId, timestamp, companyId)
+    db.prepare(`
+      UPDATE memberships SET role = 'owner', scope_department_id = NULL, updated_at = ? WHERE user_id = ? AND company_id = ?
+    `).run(timestamp, targetUserId, companyId)
+    db.prepare(`
+      UPDATE memberships SET role = 'admin', scope_department_id = NULL, updated_at = ? WHERE user_id = ? AND company_id = ?
+    `).run(timestamp, user.id, companyId)
+  })()
+
+  recordAuditEvent({
+    companyId,
+    actorId: user.id,
+    action: 'company.transfer',
+    targetType: 'user',
+    targetId: targetUserId,
+    details: { from: user.id, to: targetUserId },
+  })
+
+  return c.json({
+    success: true,
+    data: { companyId, ownerId: targetUserId, previousOwnerRole: 'admin' },
+  })
+})
+
+// Leave a company (any member except the owner)
+companiesRoute.post('/:id/leave', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('id')
+
+  const userMembership = getMembership(user.id, companyId)
+  if (!userMembership) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  // The owner has to hand the company over first so it is never ownerless
+  if (userMembership.role === 'owner') {
+    return c.json({ error: 'Transfer ownership before leaving the company' }, 409)
+  }
+
+  removeMembership(companyId, user.id)
+
+  recordAuditEvent({
+    companyId,
+    actorId: user.id,
+    action: 'member.leave',
+    targetType: 'user',
+    targetId: user.id,
+    details: { role: userMembership.role },
+  })
+
+  return c.json({
+    success: true,
+    message: 'Left the company',
+  })
+})
@@ -1,14 +1,29 @@
 import { Hono } from 'hono'
-import { execFileSync } from 'child_process'
-import { existsSync, mkdirSync, readdirSync, rmSync, statSync, writeFileSync } from 'fs'
 import { join } from 'path'
 import { db, generateId, now } from '../db'
-import { getUserFromRequest } from '../lib/auth'
+import { getUserFromRequest, type AuthUser } from '../lib/auth'
+import { recordAuditEvent } from '../lib/audit'
+import { archiveDepartment, restoreDepartment } from '../lib/department-archive'
+import { listDepartmentMoves, recordDepartmentMove } from '../lib/department-moves'
+import { loadPermissionRules, resolvePathAccess } from '../lib/permissions'
+import {
+  applyFolderChanges,
+  countFolderContents,
+  findSkillReferences,
+  listRootFolders,
+  type CommitAuthor,
+} from '../lib/repo-folders'
+import { usesRepoView } from '../lib/repo-views'
+import { authorize, getMembership, hasCapability, type Membership } from '../lib/roles'
+import { scheduleSkillIndex } from '../lib/skill-index'
 import type {
   Department,
+  DepartmentMember,
+  DepartmentMove,
   DepartmentWithChildren,
   CreateDepartmentInput,
   UpdateDepartmentInput,
+  MoveDepartmentInput,
   ReorderDepartmentItem,
 } from '../../shared/types'
 
@@ -17,12 +32,6 @@ export const departmentsRoute = new Hono()
 // Directory paths
 const DATA_DIR = process.env.DATA_DIR || join(process.cwd(), 'data')
 const REPOS_DIR = process.env.REPOS_DIR || join(DATA_DIR, 'repos')
-const WORKDIR_DIR = join(DATA_DIR, 'workdirs') // Working directories for file operations
-
-// Ensure directories exist
-if (!existsSync(WORKDIR_DIR)) {
-  mkdirSync(WORKDIR_DIR, { recursive: true })
-}
 
 // Helper: Convert snake_case to camelCase
 function toCamelCase(obj: Record<string, unknown>): Record<string, unknown> {
@@ -38,18 +47,6 @@ function toCamelCase(obj: Record<string, unknown>): Record<string, unknown> {
   return result
 }
 
-// Helper: Get user membership
-function getUserMembership(userId: string, companyId: string): { role: string } | undefined {
-  return db.prepare(`
-    SELECT role FROM memberships WHERE user_id = ? AND company_id = ?
-  `).get(userId, companyId) as { role: string } | undefined
-}
-
-// Helper: Check if user can edit departments
-function canEditDepartments(role: string): boolean {
-  return role === 'owner' || role === 'admin'
-}
-
 // Helper: Validate folder name (ASCII + Japanese allowed)
 export function isValidFolderName(folder: string): boolean {
   return /^[\w\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FFF][\w\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FFF._-]*$/.test(folder)
@@ -61,121 +58,90 @@ function getBareRepoPath(companyId: string): string {
   return join(REPOS_DIR, `${sanitizedId}.git`)
 }
 
-// Helper: Get or create working directory for a company
-function getWorkingDir(companyId: string): string {
-  const sanitizedId = companyId.replace(/[^a-zA-Z0-9_-]/g, '')
-  const workDir = join(WORKDIR_DIR, sanitizedId)
-  const bareRepo = getBareRepoPath(companyId)
-
-  if (!existsSync(bareRepo)) {
-    throw new Error('Repository not found')
-  }
-
-  if (!existsSync(workDir)) {
-    // Clone from bare repo
-    execFileSync('git', ['clone', bareRepo, workDir], { stdio: 'pipe' })
-  } else {
-    // Ensure remote URL points to correct bare repo path (fixes server migration issues)
-    try {
-      const currentUrl = execFileSync('git', ['-C', workDir, 'remote', 'get-url', 'origin'], { stdio: 'pipe' }).toString().trim()
-      if (currentUrl !== bareRepo) {
-        execFileSync('git', ['-C', workDir, 'remote', 'set-url', 'origin', bareRepo], { stdio: 'pipe' })
-      }
-    } catch {
-      // Ignore - remote might not exist yet
-    }
-
-    // Pull latest changes
-    try {
-      execFileSync('git', ['-C', workDir, 'pull', 'origin', 'main'], { stdio: 'pipe' })
-    } catch {
-      try {
-        execFileSync('git', ['-C', workDir, 'pull', 'origin', 'master'], { stdio: 'pipe' })
-      } catch {
-        // Ignore pull errors (might be empty repo)
-      }
-    }
-  }
-
-  return workDir
+// Helper: Commit identity for folder changes made by a member
+function commitAuthor(user: AuthUser): CommitAuthor {
+  return { name: user.name || user.email, email: user.email }
 }
 
-// Helper: Commit and push changes
-function commitAndPush(workDir: string, message: string): void {
-  try {
-    execFileSync('git', ['-C', workDir, 'add', '-A'], { stdio: 'pipe' })
-    execFileSync('git', ['-C', workDir, 'commit', '-m', message, '--allow-empty'], { stdio: 'pipe' })
-    try {
-      execFileSync('git', ['-C', workDir, 'push', 'origin', 'HEAD'], { stdio: 'pipe' })
-    } catch {
-      // Ignore push errors (remote might not be available)
-    }
-  } catch (error) {
-    console.error('Git commit/push error:', error)
-    // Don't throw - commit might fail if nothing changed
+// Helper: Rename a department folder on main in one commit (history follows
+// the files) and record the old -> new mapping. SKILL.md lines that still
+// mention the old path are stored with the move, limited here to what the
+// member making the change can read.
+function moveDepartmentFolder(
+  companyId: string,
+  departmentId: string,
+  from: string,
+  to: string,
+  user: AuthUser,
+  membership: Membership
+): { move: DepartmentMove } | { error: string; status: 404 | 409 } {
+  const repoPath = getBareRepoPath(companyId)
+  const result = applyFolderChanges(
+    repoPath,
+    [{ type: 'rename', from, to }],
+    `Rename department: ${from} -> ${to}`,
+    commitAuthor(user)
+  )
+  if ('error' in result) {
+    return result
   }
-}
 
-// Helper: List folders from file system
-function listFoldersFromFileSystem(workDir: string): string[] {
-  if (!existsSync(workDir)) {
-    return []
-  }
+  const move = recordDepartmentMove({
+    companyId,
+    departmentId,
+    fromPath: from,
+    toPath: to,
+    commit: result.commit,
+    skillReferences: result.commit ? findSkillReferences(repoPath, result.commit, from) : [],
+    movedBy: user.id,
+  })
+  if (result.commit) scheduleSkillIndex(companyId)
 
-  try {
-    const items = readdirSync(workDir)
-    return items.filter(item => {
-      if (item.startsWith('.')) return false // Skip hidden files/folders
-      const itemPath = join(workDir, item)
-      return existsSync(itemPath) && statSync(itemPath).isDirectory()
-    })
-  } catch {
-    return []
-  }
+  const rules = loadPermissionRules(companyId)
+  const skillReferences = move.skillReferences.filter(reference =>
+    resolvePathAccess(rules, user.id, membership.role, reference.path).canRead)
+  return { move: { ...move, skillReferences } }
 }
 
-// Helper: Count files in a directory (recursive)
-function countFilesInDir(dirPath: string): { files: number; folders: number } {
-  let files = 0
-  let folders = 0
-
-  function count(path: string) {
-    if (!existsSync(path)) return
-    const items = readdirSync(path)
-    for (const item of items) {
-      if (item.startsWith('.')) continue
-      const itemPath = join(path, item)
-      if (statSync(itemPath).isDirectory()) {
-        folders++
-        count(itemPath)
-      } else {
-        files++
-      }
-    }
+// Helper: Department assignments of a company, keyed by department id
+function loadDepartmentMembers(companyId: string): Map<string, DepartmentMember[]> {
+  const rows = db.prepare(`
+    SELECT department_id, user_id, is_lead, created_at FROM department_members
+    WHERE company_id = ?
+    ORDER BY is_lead DESC, created_at ASC
+  `).all(companyId) as Array<{ department_id: string; user_id: string; is_lead: number; created_at: string }>
+
+  const result = new Map<string, DepartmentMember[]>()
+  for (const row of rows) {
+    const list = result.get(row.department_id) ?? []
+    list.push({ userId: row.user_id, isLead: Boolean(row.is_lead), createdAt: row.created_at })
+    result.set(row.department_id, list)
   }
-
-  count(dirPath)
-  return { files, folders }
+  return result
 }
 
 // Helper: Build department data from DB records only
 // Only returns departments that are registered in the DB (folders created via admin/API)
-// Filesystem folders that are not in the DB are ignored
+// Repository folders that are not in the DB are ignored
 function buildDepartmentList(companyId: string, folders: string[]): Department[] {
   // Get DB settings for this company
   const dbDepts = db.prepare(`
-    SELECT * FROM departments WHERE company_id = ? ORDER BY sort_order ASC
+    SELECT * FROM departments WHERE company_id = ? AND archived_at IS NULL ORDER BY sort_order ASC
   `).all(companyId) as Record<string, unknown>[]
 
-  const fsFolderSet = new Set(folders)
+  const repoFolderSet = new Set(folders)
+  const members = loadDepartmentMembers(companyId)
 
   const result: Department[] = []
 
   for (const dbDept of dbDepts) {
     const folder = dbDept.folder as string
-    // Only include if the folder actually exists on the filesystem
-    if (fsFolderSet.has(folder)) {
-      result.push(toCamelCase(dbDept) as unknown as Department)
+    // Only include if the folder actually exists on main
+    if (repoFolderSet.has(folder)) {
+      result.push({
+        ...toCamelCase(dbDept) as unknown as Department,
+        members: members.get(dbDept.id as string) ?? [],
+      })
     }
   }
 
@@ -197,18 +163,24 @@ departmentsRoute.get('/', async (c) => {
     return c.json({ error: 'Company ID is required' }, 400)
   }
 
-  const membership = getUserMembership(user.id, companyId)
+  const membership = getMembership(user.id, companyId)
   if (!membership) {
     return c.json({ error: 'Company not found or access denied' }, 404)
   }
 
   try {
-    // Get working directory and list folders
-    const workDir = getWorkingDir(companyId)
-    const folders = listFoldersFromFileSystem(workDir)
+    const folders = listRootFolders(getBareRepoPath(companyId))
 
     // Build department list (DB-registered departments only)
-    const departments = buildDepartmentList(companyId, folders)
+    let departments = buildDepartmentList(companyId, folders)
+
+    // With read isolation the member's repo has no hidden folders; listing
+    // them would make the client recreate them as empty folders
+    if (await usesRepoView(companyId, user.id)) {
+      const rules = loadPermissionRules(companyId)
+      departments = departments.filter(dept =>
+        resolvePathAccess(rules, user.id, membership.role, dept.folder).canRead)
+    }
 
     return c.json({
       success: true,
@@ -223,6 +195,78 @@ departmentsRoute.get('/', async (c) => {
   }
 })
 
+// GET /api/companies/:companyId/departments/moves - Folder renames, oldest first
+// Query: since (ISO timestamp; only moves recorded after it)
+// Used by the desktop app to rewrite local references to old paths.
+departmentsRoute.get('/moves', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  if (!companyId) {
+    return c.json({ error: 'Company ID is required' }, 400)
+  }
+
+  const membership = getMembership(user.id, companyId)
+  if (!membership) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  const since = c.req.query('since')
+  if (since !== undefined && Number.isNaN(Date.parse(since))) {
+    return c.json({ error: 'since must be an ISO timestamp' }, 400)
+  }
+
+  // Moves of folders the member cannot read are left out, like the folders
+  // themselves in the department list
+  const rules = loadPermissionRules(companyId)
+  const canRead = (path: string) => resolvePathAccess(rules, user.id, membership.role, path).canRead
+  const moves = listDepartmentMoves(companyId, since)
+    .filter(move => canRead(move.toPath))
+    .map(move => ({ ...move, skillReferences: move.skillReferences.filter(reference => canRead(reference.path)) }))
+
+  return c.json({
+    success: true,
+    data: moves,
+  })
+})
+
+// GET /api/companies/:companyId/departments/archived - Archived departments, newest first
+departmentsRoute.get('/archived', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  if (!companyId) {
+    return c.json({ error: 'Company ID is required' }, 400)
+  }
+
+  const membership = getMembership(user.id, companyId)
+  if (!membership) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  if (!hasCapability(membership, 'manage_departments')) {
+    return c.json({ error: 'Your role cannot manage departments' }, 403)
+  }
+
+  const departments = db.prepare(`
+    SELECT * FROM departments WHERE company_id = ? AND archived_at IS NOT NULL
+    ORDER BY archived_at DESC, sort_order ASC
+  `).all(companyId) as Record<string, unknown>[]
+
+  return c.json({
+    success: true,
+    data: departments
+      .filter(dept => authorize(membership, 'manage_departments', { departmentId: dept.id as string }))
+      .map(toCamelCase),
+  })
+})
+
 // GET /api/companies/:companyId/departments/:id - Get single department
 departmentsRoute.get('/:id', async (c) => {
   const user = await getUserFromRequest(c.req.raw)
@@ -236,7 +280,7 @@ departmentsRoute.get('/:id', async (c) => {
     return c.json({ error: 'Company ID and Department ID are required' }, 400)
   }
 
-  const membership = getUserMembership(user.id, companyId)
+  const membership = getMembership(user.id, companyId)
   if (!membership) {
     return c.json({ error: 'Company not found or access denied' }, 404)
   }
@@ -267,13 +311,13 @@ departmentsRoute.post('/', async (c) => {
     return c.json({ error: 'Company ID is required' }, 400)
   }
 
-  const membership = getUserMembership(user.id, companyId)
+  const membership = getMembership(user.id, companyId)
   if (!membership) {
     return c.json({ error: 'Company not found or access denied' }, 404)
   }
 
-  if (!canEditDepartments(membership.role)) {
-    return c.json({ error: 'Only owners and admins can create departments' }, 403)
+  if (!authorize(membership, 'manage_departments')) {
+    return c.json({ error: 'Your role cannot create departments' }, 403)
   }
 
   const body = await c.req.json() as CreateDepartmentInput
@@ -294,26 +338,17 @@ departmentsRoute.post('/', async (c) => {
   }
 
   try {
-    const workDir = getWorkingDir(companyId)
-    const folderPath = join(workDir, body.folder)
-
-    // Check if folder already exists
-    if (existsSync(folderPath)) {
-      return c.json({ error: 'A folder with this name already exists' }, 409)
+    // Create the folder (with .gitkeep and .personal workspace) on main
+    const result = applyFolderChanges(
+      getBareRepoPath(companyId),
+      [{ type: 'create', folder: body.folder }],
+      `Add department: ${body.name}`,
+      commitAuthor(user)
+    )
+    if ('error' in result) {
+      return c.json({ error: result.error }, result.status)
     }
 
-    // Create folder with .gitkeep and .personal workspace
-    mkdirSync(folderPath, { recursive: true })
-    writeFileSync(join(folderPath, '.gitkeep'), '')
-
-    // Create .personal directory (gitignored personal workspace)
-    const personalDir = join(folderPath, '.personal')
-    mkdirSync(personalDir, { recursive: true })
-    writeFileSync(join(personalDir, '.gitignore'), '# Personal workspace — not synced\n*\n!.gitignore\n')
-
-    // Commit and push
-    commitAndPush(workDir, `Add department: ${body.name}`)
-
     // Save to DB
     const id = generateId()
     const timestamp = now()
@@ -349,6 +384,15 @@ departmentsRoute.post('/', async (c) => {
 
     const department = db.prepare('SELECT * FROM departments WHERE id = ?').get(id) as Record<string, unknown>
 
+    recordAuditEvent({
+      companyId,
+      actorId: user.id,
+      action: 'department.create',
+      targetType: 'department',
+      targetId: id,
+      details: { name: body.name.trim(), folder: body.folder.trim() },
+    })
+
     return c.json({
       success: true,
       data: toCamelCase(department),
@@ -374,13 +418,13 @@ departmentsRoute.put('/:id', async (c) => {
     return c.json({ error: 'Company ID and Department ID are required' }, 400)
   }
 
-  const membership = getUserMembership(user.id, companyId)
+  const membership = getMembership(user.id, companyId)
   if (!membership) {
     return c.json({ error: 'Company not found or access denied' }, 404)
   }
 
-  if (!canEditDepartments(membership.role)) {
-    return c.json({ error: 'Only owners and admins can update departments' }, 403)
+  if (!hasCapability(membership, 'manage_departments')) {
+    return c.json({ error: 'Your role cannot update departments' }, 403)
   }
 
   const existing = db.prepare(`
@@ -391,31 +435,31 @@ departmentsRoute.put('/:id', async (c) => {
     return c.json({ error: 'Department not found' }, 404)
   }
 
-  const body = await c.req.json() as UpdateDepartmentInput
+  // Department leads only manage their own subtree
+  if (!authorize(membership, 'manage_departments', { departmentId: deptId })) {
+    return c.json({ error: 'You can only update departments you manage' }, 403)
+  }
 
-  try {
-    const workDir = getWorkingDir(companyId)
-    const oldFolder = existing.folder as string
-
-    // Handle folder rename if requested
-    if (body.folder !== undefined && body.folder !== oldFolder) {
-      if (!isValidFolderName(body.folder)) {
-        return c.json({
-          error: 'Invalid folder name. Use letters, numbers, Japanese characters, dots, hyphens, and underscores.',
-        }, 400)
-      }
+  if (existing.archived_at) {
+    return c.json({ error: 'Department is archived; restore it first' }, 409)
+  }
 
-      const oldPath = join(workDir, oldFolder)
-      const newPath = join(workDir, body.folder)
+  const body = await c.req.json() as UpdateDepartmentInput
 
-      if (existsSync(newPath)) {
-        return c.json({ error: 'A folder with this name already exists' }, 409)
-      }
+  const oldFolder = existing.folder as string
+  const renameFolder = body.folder !== undefined && body.folder !== oldFolder
+  if (renameFolder && !isValidFolderName(body.folder!)) {
+    return c.json({
+      error: 'Invalid folder name. Use letters, numbers, Japanese characters, dots, hyphens, and underscores.',
+    }, 400)
+  }
 
-      if (existsSync(oldPath)) {
-        // Use git mv for proper tracking
-        execFileSync('git', ['-C', workDir, 'mv', oldFolder, body.folder], { stdio: 'pipe' })
-        commitAndPush(workDir, `Rename department: ${oldFolder} -> ${body.folder}`)
+  try {
+    // Move the folder on main (only the DB record changes if it is missing)
+    if (renameFolder) {
+      const result = moveDepartmentFolder(companyId, deptId, oldFolder, body.folder!, user, membership)
+      if ('error' in result) {
+        return c.json({ error: result.error }, result.status)
       }
     }
 
@@ -464,6 +508,23 @@ departmentsRoute.put('/:id', async (c) => {
 
     const department = db.prepare('SELECT * FROM departments WHERE id = ?').get(deptId) as Record<string, unknown>
 
+    // Record what changed (old -> new) for the fields in the request
+    const before = toCamelCase(existing)
+    const changes: Record<string, { from: unknown; to: unknown }> = {}
+    for (const [key, value] of Object.entries(toCamelCase(department))) {
+      if (key in body && before[key] !== value) changes[key] = { from: before[key], to: value }
+    }
+    if (Object.keys(changes).length > 0) {
+      recordAuditEvent({
+        companyId,
+        actorId: user.id,
+        action: 'department.update',
+        targetType: 'department',
+        targetId: deptId,
+        details: { name: department.name, changes },
+      })
+    }
+
     return c.json({
       success: true,
       data: toCamelCase(department),
@@ -476,7 +537,142 @@ departmentsRoute.put('/:id', async (c) => {
   }
 })
 
-// DELETE /api/companies/:companyId/departments/:id - Delete department (deletes folder!)
+// POST /api/companies/:companyId/departments/:id/move - Rename the folder and/or change the parent
+// Body: { folder?: string, parentId?: string | null }
+// Returns the updated department and the recorded folder move (null when
+// only the parent changed), including SKILL.md lines that still mention the
+// old path.
+departmentsRoute.post('/:id/move', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  const deptId = c.req.param('id')
+  if (!companyId || !deptId) {
+    return c.json({ error: 'Company ID and Department ID are required' }, 400)
+  }
+
+  const membership = getMembership(user.id, companyId)
+  if (!membership) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  if (!hasCapability(membership, 'manage_departments')) {
+    return c.json({ error: 'Your role cannot move departments' }, 403)
+  }
+
+  const existing = db.prepare(`
+    SELECT * FROM departments WHERE id = ? AND company_id = ?
+  `).get(deptId, companyId) as Record<string, unknown> | undefined
+
+  if (!existing) {
+    return c.json({ error: 'Department not found' }, 404)
+  }
+
+  if (!authorize(membership, 'manage_departments', { departmentId: deptId })) {
+    return c.json({ error: 'You can only move departments you manage' }, 403)
+  }
+
+  if (existing.archived_at) {
+    return c.json({ error: 'Department is archived; restore it first' }, 409)
+  }
+
+  const body = await c.req.json().catch(() => ({})) as MoveDepartmentInput
+  const oldFolder = existing.folder as string
+  const oldParentId = existing.parent_id as string | null
+
+  if (body.folder !== undefined && (typeof body.folder !== 'string' || !isValidFolderName(body.folder))) {
+    return c.json({
+      error: 'Invalid folder name. Use letters, numbers, Japanese characters, dots, hyphens, and underscores.',
+    }, 400)
+  }
+  if (body.parentId !== undefined && body.parentId !== null && typeof body.parentId !== 'string') {
+    return c.json({ error: 'parentId must be a department ID or null' }, 400)
+  }
+
+  const newFolder = body.folder ?? oldFolder
+  const newParentId = body.parentId === undefined ? oldParentId : body.parentId
+  if (newFolder === oldFolder && newParentId === oldParentId) {
+    return c.json({ error: 'Nothing to move: folder and parent are unchanged' }, 400)
+  }
+
+  if (newParentId !== oldParentId) {
+    if (newParentId !== null) {
+      const parent = db.prepare(`
+        SELECT id FROM departments WHERE id = ? AND company_id = ? AND archived_at IS NULL
+      `).get(newParentId, companyId)
+      if (!parent) {
+        return c.json({ error: 'Parent department not found' }, 400)
+      }
+
+      // The new parent must not be the department itself or one of its descendants
+      const parents = db.prepare(`
+        SELECT id, parent_id FROM departments WHERE company_id = ?
+      `).all(companyId) as Array<{ id: string; parent_id: string | null }>
+      const parentOf = new Map(parents.map(row => [row.id, row.parent_id]))
+      for (let ancestor: string | null = newParentId; ancestor; ancestor = parentOf.get(ancestor) ?? null) {
+        if (ancestor === deptId) {
+          return c.json({ error: 'A department cannot be moved under itself' }, 400)
+        }
+      }
+    }
+
+    // Department leads can only move within the subtree they manage
+    const target = newParentId === null ? undefined : { departmentId: newParentId }
+    if (!authorize(membership, 'manage_departments', target)) {
+      return c.json({ error: 'You can only move departments under departments you manage' }, 403)
+    }
+  }
+
+  try {
+    let move: DepartmentMove | null = null
+    if (newFolder !== oldFolder) {
+      const result = moveDepartmentFolder(companyId, deptId, oldFolder, newFolder, user, membership)
+      if ('error' in result) {
+        return c.json({ error: result.error }, result.status)
+      }
+      move = result.move
+    }
+
+    db.prepare(`
+      UPDATE departments SET folder = ?, parent_id = ?, updated_at = ? WHERE id = ?
+    `).run(newFolder, newParentId, now(), deptId)
+
+    const department = db.prepare('SELECT * FROM departments WHERE id = ?').get(deptId) as Record<string, unknown>
+
+    recordAuditEvent({
+      companyId,
+      actorId: user.id,
+      action: 'department.move',
+      targetType: 'department',
+      targetId: deptId,
+      details: {
+        name: department.name,
+        folder: { from: oldFolder, to: newFolder },
+        parentId: { from: oldParentId, to: newParentId },
+        commit: move?.commit ?? null,
+        skillReferences: move?.skillReferences.length ?? 0,
+      },
+    })
+
+    return c.json({
+      success: true,
+      data: { department: toCamelCase(department), move },
+    })
+  } catch (error) {
+    console.error('Failed to move department:', error)
+    return c.json({
+      error: `Failed to move department: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    }, 500)
+  }
+})
+
+// DELETE /api/companies/:companyId/departments/:id - Archive department
+// The department and its subdepartments stay in the DB and their folders move
+// below .archive/ on main; POST /:id/restore brings them back until the
+// company's retention period has passed (lib/department-archive.ts).
 departmentsRoute.delete('/:id', async (c) => {
   const user = await getUserFromRequest(c.req.raw)
   if (!user) {
@@ -489,13 +685,13 @@ departmentsRoute.delete('/:id', async (c) => {
     return c.json({ error: 'Company ID and Department ID are required' }, 400)
   }
 
-  const membership = getUserMembership(user.id, companyId)
+  const membership = getMembership(user.id, companyId)
   if (!membership) {
     return c.json({ error: 'Company not found or access denied' }, 404)
   }
 
-  if (!canEditDepartments(membership.role)) {
-    return c.json({ error: 'Only owners and admins can delete departments' }, 403)
+  if (!hasCapability(membership, 'manage_departments')) {
+    return c.json({ error: 'Your role cannot delete departments' }, 403)
   }
 
   const existing = db.prepare(`
@@ -506,44 +702,116 @@ departmentsRoute.delete('/:id', async (c) => {
     return c.json({ error: 'Department not found' }, 404)
   }
 
+  // Department leads only manage their own subtree
+  if (!authorize(membership, 'manage_departments', { departmentId: deptId })) {
+    return c.json({ error: 'You can only delete departments you manage' }, 403)
+  }
+
+  if (existing.archived_at) {
+    return c.json({ error: 'Department is already archived' }, 409)
+  }
+
   const folder = existing.folder as string
 
   try {
-    const workDir = getWorkingDir(companyId)
-    const folderPath = join(workDir, folder)
+    // Count what will be archived
+    const counts = countFolderContents(getBareRepoPath(companyId), folder)
+    const archivedFiles = counts?.files ?? 0
+    const archivedFolders = counts?.folders ?? 0
+
+    const result = archiveDepartment(companyId, deptId, commitAuthor(user), user.id)
+    if ('error' in result) {
+      return c.json({ error: result.error }, result.status)
+    }
+    const archivedDepartments = result.departments.map(dept => dept.id)
+
+    recordAuditEvent({
+      companyId,
+      actorId: user.id,
+      action: 'department.archive',
+      targetType: 'department',
+      targetId: deptId,
+      details: { name: existing.name, folder, archivedFiles, subdepartments: archivedDepartments.length - 1 },
+    })
+
+    return c.json({
+      success: true,
+      message: archivedFiles > 0
+        ? `Department archived with ${archivedFiles} file(s) and ${archivedFolders} subfolder(s)`
+        : 'Department archived',
+      archivedFiles,
+      archivedFolders,
+      archivedDepartments,
+    })
+  } catch (error) {
+    console.error('Failed to archive department:', error)
+    return c.json({
+      error: `Failed to archive department: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    }, 500)
+  }
+})
+
+// POST /api/companies/:companyId/departments/:id/restore - Restore an archived department
+// Subdepartments archived together with it are restored as well.
+departmentsRoute.post('/:id/restore', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  const deptId = c.req.param('id')
+  if (!companyId || !deptId) {
+    return c.json({ error: 'Company ID and Department ID are required' }, 400)
+  }
+
+  const membership = getMembership(user.id, companyId)
+  if (!membership) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  if (!hasCapability(membership, 'manage_departments')) {
+    return c.json({ error: 'Your role cannot restore departments' }, 403)
+  }
 
-    let deletedFiles = 0
-    let deletedFolders = 0
+  const existing = db.prepare(`
+    SELECT * FROM departments WHERE id = ? AND company_id = ?
+  `).get(deptId, companyId) as Record<string, unknown> | undefined
 
-    if (existsSync(folderPath)) {
-      // Count what will be deleted
-      const counts = countFilesInDir(folderPath)
-      deletedFiles = counts.files
-      deletedFolders = counts.folders
+  if (!existing) {
+    return c.json({ error: 'Department not found' }, 404)
+  }
 
-      // Delete the folder
-      rmSync(folderPath, { recursive: true, force: true })
+  if (!authorize(membership, 'manage_departments', { departmentId: deptId })) {
+    return c.json({ error: 'You can only restore departments you manage' }, 403)
+  }
 
-      // Commit and push
-      execFileSync('git', ['-C', workDir, 'add', '-A'], { stdio: 'pipe' })
-      commitAndPush(workDir, `Delete department: ${existing.name} (${folder})`)
+  try {
+    const result = restoreDepartment(companyId, deptId, commitAuthor(user))
+    if ('error' in result) {
+      return c.json({ error: result.error }, result.status)
     }
 
-    // Remove from DB
-    db.prepare('DELETE FROM departments WHERE id = ?').run(deptId)
+    const department = db.prepare('SELECT * FROM departments WHERE id = ?').get(deptId) as Record<string, unknown>
+
+    recordAuditEvent({
+      companyId,
+      actorId: user.id,
+      action: 'department.restore',
+      targetType: 'department',
+      targetId: deptId,
+      details: { name: department.name, folder: department.folder, subdepartments: result.departments.length - 1 },
+    })
 
     return c.json({
       success: true,
-      message: deletedFiles > 0
-        ? `Department deleted with ${deletedFiles} file(s) and ${deletedFolders} subfolder(s)`
-        : 'Department deleted',
-      deletedFiles,
-      deletedFolders,
+      data: toCamelCase(department),
+      restoredDepartments: result.departments.map(dept => dept.id),
     })
   } catch (error) {
-    console.error('Failed to delete department:', error)
+    console.error('Failed to restore department:', error)
     return c.json({
-      error: `Failed to delete department: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: `Failed to restore department: ${error instanceof Error ? error.message : 'Unknown error'}`,
     }, 500)
   }
 })
@@ -561,7 +829,7 @@ departmentsRoute.get('/:id/stats', async (c) => {
     return c.json({ error: 'Company ID and Department ID are required' }, 400)
   }
 
-  const membership = getUserMembership(user.id, companyId)
+  const membership = getMembership(user.id, companyId)
   if (!membership) {
     return c.json({ error: 'Company not found or access denied' }, 404)
   }
@@ -575,18 +843,15 @@ departmentsRoute.get('/:id/stats', async (c) => {
   }
 
   try {
-    const workDir = getWorkingDir(companyId)
-    const folderPath = join(workDir, existing.folder as string)
+    const counts = countFolderContents(getBareRepoPath(companyId), existing.folder as string)
 
-    if (!existsSync(folderPath)) {
+    if (!counts) {
       return c.json({
         success: true,
         data: { files: 0, folders: 0, exists: false },
       })
     }
 
-    const counts = countFilesInDir(folderPath)
-
     return c.json({
       success: true,
       data: {
@@ -602,6 +867,137 @@ departmentsRoute.get('/:id/stats', async (c) => {
   }
 })
 
+// PUT /api/companies/:companyId/departments/:id/members/:userId - Assign a member
+// Body: { isLead?: boolean } (also updates the lead flag of an existing assignment)
+departmentsRoute.put('/:id/members/:userId', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  const deptId = c.req.param('id')
+  const targetUserId = c.req.param('userId')
+  if (!companyId || !deptId) {
+    return c.json({ error: 'Company ID and Department ID are required' }, 400)
+  }
+
+  const membership = getMembership(user.id, companyId)
+  if (!membership) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  if (!hasCapability(membership, 'manage_departments')) {
+    return c.json({ error: 'Your role cannot assign department members' }, 403)
+  }
+
+  const body = await c.req.json().catch(() => ({})) as { isLead?: unknown }
+  if (body.isLead !== undefined && typeof body.isLead !== 'boolean') {
+    return c.json({ error: 'isLead must be a boolean' }, 400)
+  }
+
+  const department = db.prepare(`
+    SELECT name FROM departments WHERE id = ? AND company_id = ?
+  `).get(deptId, companyId) as { name: string } | undefined
+
+  if (!department) {
+    return c.json({ error: 'Department not found' }, 404)
+  }
+
+  if (!authorize(membership, 'manage_departments', { departmentId: deptId })) {
+    return c.json({ error: 'You can only assign members to departments you manage' }, 403)
+  }
+
+  if (!getMembership(targetUserId, companyId)) {
+    return c.json({ error: 'User is not a member of this company' }, 404)
+  }
+
+  const isLead = body.isLead === true
+  const timestamp = now()
+
+  db.prepare(`
+    INSERT INTO department_members (department_id, user_id, company_id, is_lead, created_by, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(department_id, user_id) DO UPDATE SET is_lead = excluded.is_lead
+  `).run(deptId, targetUserId, companyId, isLead ? 1 : 0, user.id, timestamp)
+
+  recordAuditEvent({
+    companyId,
+    actorId: user.id,
+    action: 'department.assign',
+    targetType: 'department',
+    targetId: deptId,
+    details: { name: department.name, userId: targetUserId, isLead },
+  })
+
+  const row = db.prepare(`
+    SELECT user_id, is_lead, created_at FROM department_members WHERE department_id = ? AND user_id = ?
+  `).get(deptId, targetUserId) as { user_id: string; is_lead: number; created_at: string }
+
+  return c.json({
+    success: true,
+    data: { userId: row.user_id, isLead: Boolean(row.is_lead), createdAt: row.created_at },
+  })
+})
+
+// DELETE /api/companies/:companyId/departments/:id/members/:userId - Unassign a member
+departmentsRoute.delete('/:id/members/:userId', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  const deptId = c.req.param('id')
+  const targetUserId = c.req.param('userId')
+  if (!companyId || !deptId) {
+    return c.json({ error: 'Company ID and Department ID are required' }, 400)
+  }
+
+  const membership = getMembership(user.id, companyId)
+  if (!membership) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  if (!hasCapability(membership, 'manage_departments')) {
+    return c.json({ error: 'Your role cannot assign department members' }, 403)
+  }
+
+  const department = db.prepare(`
+    SELECT name FROM departments WHERE id = ? AND company_id = ?
+  `).get(deptId, companyId) as { name: string } | undefined
+
+  if (!department) {
+    return c.json({ error: 'Department not found' }, 404)
+  }
+
+  if (!authorize(membership, 'manage_departments', { departmentId: deptId })) {
+    return c.json({ error: 'You can only assign members to departments you manage' }, 403)
+  }
+
+  const result = db.prepare(`
+    DELETE FROM department_members WHERE department_id = ? AND user_id = ?
+  `).run(deptId, targetUserId)
+
+  if (result.changes === 0) {
+    return c.json({ error: 'User is not assigned to this department' }, 404)
+  }
+
+  recordAuditEvent({
+    companyId,
+    actorId: user.id,
+    action: 'department.unassign',
+    targetType: 'department',
+    targetId: deptId,
+    details: { name: department.name, userId: targetUserId },
+  })
+
+  return c.json({
+    success: true,
+    message: 'Member unassigned',
+  })
+})
+
 // POST /api/companies/:companyId/departments/reorder - Reorder departments
 departmentsRoute.post('/reorder', async (c) => {
   const user = await getUserFromRequest(c.req.raw)
@@ -614,13 +1010,13 @@ departmentsRoute.post('/reorder', async (c) => {
     return c.json({ error: 'Company ID is required' }, 400)
   }
 
-  const membership = getUserMembership(user.id, companyId)
+  const membership = getMembership(user.id, companyId)
   if (!membership) {
     return c.json({ error: 'Company not found or access denied' }, 404)
   }
 
-  if (!canEditDepartments(membership.role)) {
-    return c.json({ error: 'Only owners and admins can reorder departments' }, 403)
+  if (!hasCapability(membership, 'manage_departments')) {
+    return c.json({ error: 'Your role cannot reorder departments' }, 403)
   }
 
   const body = await c.req.json() as { items: ReorderDepartmentItem[] }
@@ -629,6 +1025,10 @@ departmentsRoute.post('/reorder', async (c) => {
     return c.json({ error: 'items array is required' }, 400)
   }
 
+  if (body.items.some(item => !authorize(membership, 'manage_departments', { departmentId: item.id }))) {
+    return c.json({ error: 'You can only reorder departments you manage' }, 403)
+  }
+
   const timestamp = now()
 
   const updateStmt = db.prepare(`
@@ -647,7 +1047,7 @@ departmentsRoute.post('/reorder', async (c) => {
   })
 })
 
-// POST /api/companies/:companyId/departments/sync - Sync DB with file system
+// POST /api/companies/:companyId/departments/sync - Sync DB with the repository folders
 departmentsRoute.post('/sync', async (c) => {
   const user = await getUserFromRequest(c.req.raw)
   if (!user) {
@@ -659,32 +1059,31 @@ departmentsRoute.post('/sync', async (c) => {
     return c.json({ error: 'Company ID is required' }, 400)
   }
 
-  const membership = getUserMembership(user.id, companyId)
+  const membership = getMembership(user.id, companyId)
   if (!membership) {
     return c.json({ error: 'Company not found or access denied' }, 404)
   }
 
-  if (!canEditDepartments(membership.role)) {
-    return c.json({ error: 'Only owners and admins can sync departments' }, 403)
+  if (!authorize(membership, 'manage_departments')) {
+    return c.json({ error: 'Your role cannot sync departments' }, 403)
   }
 
   try {
-    const workDir = getWorkingDir(companyId)
-    const folders = listFoldersFromFileSystem(workDir)
+    const folders = listRootFolders(getBareRepoPath(companyId))
 
-    // Get existing DB records
+    // Get existing DB records (archived departments are not in the root)
     const dbDepts = db.prepare(`
-      SELECT * FROM departments WHERE company_id = ?
+      SELECT * FROM departments WHERE company_id = ? AND archived_at IS NULL
     `).all(companyId) as Record<string, unknown>[]
 
     const dbFolders = new Set(dbDepts.map(d => d.folder as string))
-    const fsFolders = new Set(folders)
+    const repoFolders = new Set(folders)
 
     const timestamp = now()
     let added = 0
     let removed = 0
 
-    // Add folders that exist in FS but not in DB
+    // Add folders that exist in the repository but not in DB
     for (const folder of folders) {
       if (!dbFolders.has(folder)) {
         const id = generateId()
@@ -708,7 +1107,7 @@ departmentsRoute.post('/sync', async (c) => {
 
     // Remove DB records for folders that no longer exist
     for (const dept of dbDepts) {
-      if (!fsFolders.has(dept.folder as string)) {
+      if (!repoFolders.has(dept.folder as string)) {
         db.prepare('DELETE FROM departments WHERE id = ?').run(dept.id)
         removed++
       }
@@ -1,10 +1,25 @@
 import { Hono } from 'hono'
-import { spawn } from 'child_process'
-import { existsSync } from 'fs'
+import { execFileSync, spawn } from 'child_process'
+import { createReadStream, existsSync } from 'fs'
+import { Readable } from 'stream'
 import { join } from 'path'
 import Database from 'better-sqlite3'
 import { type AuthUser } from '../lib/auth'
-import { db } from '../db'
+import { isAccessToken, verifyAccessToken } from '../lib/access-tokens'
+import { writeHookPermissionsFile } from '../lib/permissions'
+import { recordAuditEvent } from '../lib/audit'
+import { notifyDepartmentMembers } from '../lib/notifications'
+import { authorize, getMembership, type Membership } from '../lib/roles'
+import { scheduleSkillIndex } from '../lib/skill-index'
+import { VIEWS_DIR, getViewRepoName, getViewRepoPath, syncUserView, usesRepoView } from '../lib/repo-views'
+import {
+  filterReadableLargeFiles,
+  getLargeFileSize,
+  getLargeFileUsage,
+  isValidOid,
+  largeFilePath,
+  storeLargeFile,
+} from '../lib/large-files'
 
 export const gitHttpRoute = new Hono()
 
@@ -16,14 +31,21 @@ const REPOS_DIR = process.env.REPOS_DIR || join(DATA_DIR, 'repos')
 const authDb = new Database(join(DATA_DIR, 'auth.sqlite'))
 
 // ============================================================================
-// Authentication: Extract user from Basic Auth header (session token as password)
+// Authentication: Extract user from Basic Auth header (session token or
+// personal access token as password)
 // ============================================================================
 
-function authenticateGitRequest(c: { req: { raw: Request; header: (name: string) => string | undefined } }): AuthUser | null {
+// Token scope an operation needs: pushes need repo:write, everything else repo:read
+type GitAccess = 'read' | 'write'
+
+function authenticateGitRequest(
+  c: { req: { raw: Request; header: (name: string) => string | undefined } },
+  access: GitAccess,
+): AuthUser | null {
   const authHeader = c.req.header('Authorization')
   if (!authHeader) return null
 
-  // Basic Auth: username is ignored, password is the session token
+  // Basic Auth: username is ignored, password is the token
   if (authHeader.startsWith('Basic ')) {
     const decoded = Buffer.from(authHeader.slice(6), 'base64').toString()
     const colonIndex = decoded.indexOf(':')
@@ -31,17 +53,25 @@ function authenticateGitRequest(c: { req: { raw: Request; header: (name: string)
 
     if (!token) return null
 
-    // Look up session directly in auth.sqlite
-    const session = authDb.prepare(
-      'SELECT userId FROM session WHERE token = ? AND expiresAt > ?'
-    ).get(token, new Date().toISOString()) as { userId: string } | undefined
-
-    if (!session) return null
+    let userId: string
+    if (isAccessToken(token)) {
+      const verified = verifyAccessToken(token, access === 'write' ? 'repo:write' : 'repo:read')
+      if (!verified) return null
+      userId = verified.userId
+    } else {
+      // Look up session directly in auth.sqlite
+      const session = authDb.prepare(
+        'SELECT userId FROM session WHERE token = ? AND expiresAt > ?'
+      ).get(token, new Date().toISOString()) as { userId: string } | undefined
+
+      if (!session) return null
+      userId = session.userId
+    }
 
     // Get user from auth.sqlite
     const user = authDb.prepare(
       'SELECT id, email, name, image, emailVerified FROM user WHERE id = ?'
-    ).get(session.userId) as { id: string; email: string; name: string | null; image: string | null; emailVerified: boolean } | undefined
+    ).get(userId) as { id: string; email: string; name: string | null; image: string | null; emailVerified: boolean } | undefined
 
     if (!user) return null
 
@@ -57,14 +87,6 @@ function authenticateGitRequest(c: { req: { raw: Request; header: (name: string)
   return null
 }
 
-// Check if user has access to the company
-function authorizeForCompany(userId: string, companyId: string): boolean {
-  const membership = db.prepare(
-    'SELECT role FROM memberships WHERE user_id = ? AND company_id = ?'
-  ).get(userId, companyId) as { role: string } | undefined
-  return !!membership
-}
-
 // Sanitize company ID to prevent path traversal
 function sanitizeCompanyId(raw: string): string {
   return raw.replace(/\.git$/, '').replace(/[^a-zA-Z0-9_-]/g, '')
@@ -79,12 +101,14 @@ async function handleGitCgi(
   user: AuthUser,
   pathInfo: string,
   method: string,
+  projectRoot: string = REPOS_DIR,
+  onSuccess?: () => void | Promise<void>,
 ): Promise<Response> {
   const queryString = new URL(c.req.raw.url).searchParams.toString()
 
   const cgiEnv: Record<string, string> = {
     ...process.env as Record<string, string>,
-    GIT_PROJECT_ROOT: REPOS_DIR,
+    GIT_PROJECT_ROOT: projectRoot,
     GIT_HTTP_EXPORT_ALL: '1',
     PATH_INFO: pathInfo,
     QUERY_STRING: queryString,
@@ -114,6 +138,8 @@ async function handleGitCgi(
     ['pack.threads', '1'],
     ['pack.deltaCacheSize', '128m'],
     ['core.bigFileThreshold', '16m'],
+    // Per-user view tips (lib/repo-views.ts) are internal to the server
+    ['transfer.hideRefs', 'refs/acb-views'],
   ]
   cgiEnv.GIT_CONFIG_COUNT = String(gitConfigs.length)
   gitConfigs.forEach(([key, value], i) => {
@@ -293,7 +319,7 @@ async function handleGitCgi(
       )
     }
 
-    cgi.on('close', (code) => {
+    const finishCgi = (code: number | null) => {
       cgiClosed = true
       cgiExitCode = code
       if (!resolved) {
@@ -316,6 +342,23 @@ async function handleGitCgi(
           bodyController.error(new Error(`git http-backend exited with code ${code}`))
         }
       }
+    }
+
+    cgi.on('close', (code) => {
+      if (code !== 0 || !onSuccess) {
+        finishCgi(code)
+        return
+      }
+      // Runs before the response completes, so the client only sees the
+      // push finish once the follow-up work is done
+      void (async () => {
+        try {
+          await onSuccess()
+        } catch (error) {
+          console.error(`[git-http] Post-${method} step failed for ${pathInfo}:`, error)
+        }
+        finishCgi(code)
+      })()
     })
 
     cgi.on('error', (err) => {
@@ -351,8 +394,11 @@ function extractCompanyId(repo: string): string {
 }
 
 // Middleware: authenticate and authorize
-function authAndAuthorize(c: { req: { raw: Request; header: (name: string) => string | undefined; param: (name: string) => string } }): { user: AuthUser; companyId: string } | Response {
-  const user = authenticateGitRequest(c)
+function authAndAuthorize(
+  c: { req: { raw: Request; header: (name: string) => string | undefined; param: (name: string) => string } },
+  access: GitAccess = 'read',
+): { user: AuthUser; companyId: string; membership: Membership } | Response {
+  const user = authenticateGitRequest(c, access)
   if (!user) {
     return new Response('Authentication required', {
       status: 401,
@@ -372,25 +418,116 @@ function authAndAuthorize(c: { req: { raw: Request; header: (name: string) => st
     return new Response('Repository not found', { status: 404 })
   }
 
-  if (!authorizeForCompany(user.id, companyId)) {
+  const membership = getMembership(user.id, companyId)
+  if (!membership) {
     return new Response('Forbidden', { status: 403 })
   }
 
-  return { user, companyId }
+  return { user, companyId, membership }
+}
+
+// Branch tips of a company repo, to tell which refs a push changed
+function readBranchHeads(repoPath: string): Map<string, string> {
+  const heads = new Map<string, string>()
+  try {
+    const output = execFileSync('git', [
+      '-C', repoPath, 'for-each-ref', '--format=%(refname) %(objectname)', 'refs/heads',
+    ], { stdio: 'pipe' }).toString()
+    for (const line of output.split('\n')) {
+      const [ref, sha] = line.split(' ')
+      if (ref && sha) heads.set(ref, sha)
+    }
+  } catch {
+    // Unreadable repo: every ref after the push counts as new
+  }
+  return heads
+}
+
+// git's well-known empty tree, to diff a newly created branch against
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904'
+
+// Files changed between two commits of a company repo
+function readChangedPaths(repoPath: string, from: string | null, to: string): string[] {
+  try {
+    return execFileSync('git', [
+      '-C', repoPath, 'diff-tree', '-r', '-z', '--name-only', '--no-renames', from ?? EMPTY_TREE, to,
+    ], { stdio: 'pipe' }).toString().split('\0').filter(Boolean)
+  } catch {
+    return []
+  }
+}
+
+function recordPush(companyId: string, user: AuthUser, repoPath: string, before: Map<string, string>, after: Map<string, string>) {
+  const refs = [...after]
+    .filter(([ref, sha]) => before.get(ref) !== sha)
+    .map(([ref, sha]) => ({ ref, from: before.get(ref) ?? null, to: sha }))
+  if (refs.length === 0) return
+
+  recordAuditEvent({
+    companyId,
+    actorId: user.id,
+    action: 'git.push',
+    targetType: 'repository',
+    targetId: companyId,
+    details: { refs },
+  })
+
+  // Members sync main, so only changes there are worth a notification
+  const main = refs.find(ref => ref.ref === 'refs/heads/main')
+  if (main) {
+    notifyDepartmentMembers({
+      companyId,
+      actorId: user.id,
+      kind: 'git.push',
+      paths: readChangedPaths(repoPath, main.from, main.to),
+    })
+  }
+}
+
+// Repository served to this user: the company repo, or their filtered view
+// when the company has read isolation on (see lib/repo-views.ts)
+interface GitTarget {
+  projectRoot: string
+  repoName: string
+  isView: boolean
+}
+
+async function resolveGitTarget(companyId: string, userId: string): Promise<GitTarget> {
+  if (await usesRepoView(companyId, userId)) {
+    return { projectRoot: VIEWS_DIR, repoName: getViewRepoName(companyId, userId), isView: true }
+  }
+  return { projectRoot: REPOS_DIR, repoName: `${companyId}.git`, isView: false }
 }
 
 // GET /:repo/info/refs
 gitHttpRoute.get('/:repo/info/refs', async (c) => {
-  const result = authAndAuthorize(c)
+  const service = c.req.query('service')
+  const result = authAndAuthorize(c, service === 'git-receive-pack' ? 'write' : 'read')
   if (result instanceof Response) return result
-  const { user, companyId } = result
+  const { user, companyId, membership } = result
 
-  const service = c.req.query('service')
   if (!service || !['git-upload-pack', 'git-receive-pack'].includes(service)) {
     return c.text('Invalid service', 400)
   }
 
-  return handleGitCgi(c, user, `/${companyId}.git/info/refs`, 'GET')
+  // Reject read-only roles before git starts negotiating the push
+  if (service === 'git-receive-pack' && !authorize(membership, 'push')) {
+    return c.text('Your role cannot push to this repository', 403)
+  }
+
+  // Every fetch and push starts here, so the view is refreshed once per
+  // operation (the POST that follows must see the refs advertised now)
+  const target = await resolveGitTarget(companyId, user.id)
+  if (target.isView) {
+    try {
+      await syncUserView(companyId, user.id)
+    } catch (error) {
+      console.error('[git-http] Failed to sync repository view:', error)
+      return c.text('Internal Server Error', 500)
+    }
+  }
+
+  return handleGitCgi(c, user, `/${target.repoName}/info/refs`, 'GET', target.projectRoot)
 })
 
 // POST /:repo/git-upload-pack
@@ -399,16 +536,49 @@ gitHttpRoute.post('/:repo/git-upload-pack', async (c) => {
   if (result instanceof Response) return result
   const { user, companyId } = result
 
-  return handleGitCgi(c, user, `/${companyId}.git/git-upload-pack`, 'POST')
+  const target = await resolveGitTarget(companyId, user.id)
+  return handleGitCgi(c, user, `/${target.repoName}/git-upload-pack`, 'POST', target.projectRoot)
 })
 
 // POST /:repo/git-receive-pack
 gitHttpRoute.post('/:repo/git-receive-pack', async (c) => {
-  const result = authAndAuthorize(c)
+  const result = authAndAuthorize(c, 'write')
   if (result instanceof Response) return result
-  const { user, companyId } = result
+  const { user, companyId, membership } = result
+
+  if (!authorize(membership, 'push')) {
+    return c.text('Your role cannot push to this repository', 403)
+  }
+
+  const target = await resolveGitTarget(companyId, user.id)
+  const repoPath = target.isView
+    ? getViewRepoPath(companyId, user.id)
+    : join(REPOS_DIR, `${companyId}.git`)
+
+  // Folder write permissions are enforced by the pre-receive hook, which
+  // matches REMOTE_USER against this snapshot of the company's rules
+  try {
+    writeHookPermissionsFile(companyId, repoPath)
+  } catch (error) {
+    console.error('[git-http] Failed to export permissions for pre-receive hook:', error)
+    return c.text('Internal Server Error', 500)
+  }
 
-  return handleGitCgi(c, user, `/${companyId}.git/git-receive-pack`, 'POST')
+  // Commits pushed to a view are replayed onto the company repo right away.
+  // The audit log records the resulting change of the company repo either way
+  // (a push rejected by the hook changes nothing and is not recorded).
+  const companyRepoPath = join(REPOS_DIR, `${companyId}.git`)
+  const headsBefore = readBranchHeads(companyRepoPath)
+  const onSuccess = async () => {
+    try {
+      if (target.isView) await syncUserView(companyId, user.id)
+    } finally {
+      recordPush(companyId, user, companyRepoPath, headsBefore, readBranchHeads(companyRepoPath))
+      scheduleSkillIndex(companyId)
+    }
+  }
+
+  return handleGitCgi(c, user, `/${target.repoName}/git-receive-pack`, 'POST', target.projectRoot, onSuccess)
 })
 
 // GET /:repo/HEAD
@@ -417,5 +587,130 @@ gitHttpRoute.get('/:repo/HEAD', async (c) => {
   if (result instanceof Response) return result
   const { user, companyId } = result
 
-  return handleGitCgi(c, user, `/${companyId}.git/HEAD`, 'GET')
+  const target = await resolveGitTarget(companyId, user.id)
+  return handleGitCgi(c, user, `/${target.repoName}/HEAD`, 'GET', target.projectRoot)
+})
+
+// ============================================================================
+// Git LFS: batch API and basic transfers for the large file store
+// (lib/large-files.ts). Clients find it at <remote>/info/lfs.
+// ============================================================================
+
+const LFS_CONTENT_TYPE = 'application/vnd.git-lfs+json'
+
+interface LfsObject {
+  oid: string
+  size: number
+}
+
+function lfsError(message: string, status: number): Response {
+  return new Response(JSON.stringify({ message }), {
+    status,
+    headers: { 'Content-Type': LFS_CONTENT_TYPE },
+  })
+}
+
+// Base URL of the LFS endpoints as the client reached them (see git.ts for
+// the remote URL itself)
+function lfsBaseUrl(c: { req: { url: string; header: (name: string) => string | undefined } }, repo: string): string {
+  const requestProto =
+    c.req.header('x-forwarded-proto') || new URL(c.req.url).protocol.replace(':', '')
+  const publicUrl =
+    process.env.PUBLIC_URL || `${requestProto}://${c.req.header('host') || 'localhost:3001'}`
+  return `${publicUrl}/api/git-http/${encodeURIComponent(repo)}/info/lfs`
+}
+
+// POST /:repo/info/lfs/objects/batch
+gitHttpRoute.post('/:repo/info/lfs/objects/batch', async (c) => {
+  const body = await c.req.json().catch(() => null) as { operation?: unknown; objects?: unknown } | null
+  const operation = body?.operation
+  if (operation !== 'upload' && operation !== 'download') {
+    return lfsError('operation must be upload or download', 422)
+  }
+
+  const result = authAndAuthorize(c, operation === 'upload' ? 'write' : 'read')
+  if (result instanceof Response) return result
+  const { user, companyId, membership } = result
+
+  if (operation === 'upload' && !authorize(membership, 'push')) {
+    return lfsError('Your role cannot push to this repository', 403)
+  }
+  if (!Array.isArray(body?.objects)) {
+    return lfsError('objects must be an array', 422)
+  }
+
+  const baseUrl = lfsBaseUrl(c, c.req.param('repo'))
+  // Uploads and downloads authenticate like the batch request itself
+  const header = { Authorization: c.req.header('Authorization') ?? '' }
+  const usage = getLargeFileUsage(companyId)
+  let reservedBytes = usage.usedBytes
+  const readable = operation === 'download'
+    ? filterReadableLargeFiles(companyId, user.id, membership.role, (body.objects as Array<Partial<LfsObject>>)
+      .map(object => object?.oid)
+      .filter((oid): oid is string => typeof oid === 'string'))
+    : null
+
+  const objects = (body.objects as Array<Partial<LfsObject>>).map(({ oid, size }) => {
+    if (typeof oid !== 'string' || !isValidOid(oid) || !Number.isSafeInteger(size) || (size as number) < 0) {
+      return { oid, size, error: { code: 422, message: 'Invalid object' } }
+    }
+    const objectSize = size as number
+    const storedSize = getLargeFileSize(companyId, oid)
+    const href = `${baseUrl}/objects/${oid}`
+
+    if (readable) {
+      // Objects outside the member's folders answer like missing ones
+      if (storedSize === null || !readable.has(oid)) return { oid, size: objectSize, error: { code: 404, message: 'Object not found' } }
+      return { oid, size: storedSize, authenticated: true, actions: { download: { href, header } } }
+    }
+
+    // Already stored: nothing to upload
+    if (storedSize !== null) return { oid, size: objectSize, authenticated: true }
+    if (reservedBytes + objectSize > usage.quotaBytes) {
+      return { oid, size: objectSize, error: { code: 507, message: 'Large file storage quota exceeded' } }
+    }
+    reservedBytes += objectSize
+    return { oid, size: objectSize, authenticated: true, actions: { upload: { href, header } } }
+  })
+
+  return new Response(JSON.stringify({ transfer: 'basic', objects, hash_algo: 'sha256' }), {
+    headers: { 'Content-Type': LFS_CONTENT_TYPE },
+  })
+})
+
+// PUT /:repo/info/lfs/objects/:oid
+gitHttpRoute.put('/:repo/info/lfs/objects/:oid', async (c) => {
+  const result = authAndAuthorize(c, 'write')
+  if (result instanceof Response) return result
+  const { user, companyId, membership } = result
+
+  if (!authorize(membership, 'push')) {
+    return lfsError('Your role cannot push to this repository', 403)
+  }
+
+  const size = Number(c.req.header('Content-Length'))
+  if (!Number.isSafeInteger(size)) {
+    return lfsError('Content-Length is required', 411)
+  }
+
+  const stored = await storeLargeFile(companyId, c.req.param('oid'), size, c.req.raw.body, user.id)
+  if ('error' in stored) return lfsError(stored.error, stored.status)
+  return new Response(null, { status: 200 })
+})
+
+// GET /:repo/info/lfs/objects/:oid
+gitHttpRoute.get('/:repo/info/lfs/objects/:oid', async (c) => {
+  const result = authAndAuthorize(c)
+  if (result instanceof Response) return result
+  const { user, companyId, membership } = result
+
+  const oid = c.req.param('oid')
+  const readable = isValidOid(oid) && filterReadableLargeFiles(companyId, user.id, membership.role, [oid]).has(oid)
+  const size = readable ? getLargeFileSize(companyId, oid) : null
+  if (size === null) return lfsError('Object not found', 404)
+
+  const stream = Readable.toWeb(createReadStream(largeFilePath(companyId, oid))) as ReadableStream<Uint8Array>
+  return new Response(stream, {
+    headers: { 'Content-Type': 'application/octet-stream', 'Content-Length': String(size) },
+  })
 })
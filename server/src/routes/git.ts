@@ -48,7 +48,8 @@ export function configureBareRepo(repoPath: string): void {
   // everyone else's work.
   execFileSync('git', ['-C', repoPath, 'config', 'receive.denyNonFastForwards', 'true'], { stdio: 'pipe' })
   execFileSync('git', ['-C', repoPath, 'config', 'receive.denyDeletes', 'true'], { stdio: 'pipe' })
-  // Pre-receive hook: secret / gitlink / Windows-incompatible path checks
+  // Pre-receive hook: secret / gitlink / Windows-incompatible path / folder permission
+  // checks, plus the conflict check of repository views
   installPreReceiveHook(repoPath)
 }
 
@@ -287,7 +288,7 @@ gitRoute.post('/repos/migrate-http', async (c) => {
   }
 })
 
-// Delete a repository (owner only)
+// Delete a repository (delete_repo: owner only unless a custom role has it)
 gitRoute.delete('/repos/:companyId', async (c) => {
   const user = await getUserFromRequest(c.req.raw)
   if (!user) {
@@ -297,14 +298,11 @@ gitRoute.delete('/repos/:companyId', async (c) => {
   const companyId = c.req.param('companyId')
   const sanitizedId = companyId.replace(/[^a-zA-Z0-9_-]/g, '')
 
-  // Check if user is owner of this company
-  const { db } = await import('../db')
-  const membership = db.prepare(
-    'SELECT role FROM memberships WHERE user_id = ? AND company_id = ?'
-  ).get(user.id, companyId) as { role: string } | undefined
+  const { authorize, getMembership } = await import('../lib/roles')
+  const membership = getMembership(user.id, companyId)
 
-  if (!membership || membership.role !== 'owner') {
-    return c.json({ error: 'Only the company owner can delete repositories' }, 403)
+  if (!membership || !authorize(membership, 'delete_repo')) {
+    return c.json({ error: 'Your role cannot delete repositories' }, 403)
   }
 
   const repoPath = join(REPOS_DIR, `${sanitizedId}.git`)
@@ -1,10 +1,22 @@
 import { Hono } from 'hono'
 import { db, generateId, now } from '../db'
 import { getUserFromRequest, getUsersByIds } from '../lib/auth'
+import { recordAuditEvent } from '../lib/audit'
+import { findUsableInvitation, parseJsonList } from '../lib/invitations'
+import { parseCsv } from '../lib/csv'
+import { ARCHIVE_FOLDER } from '../lib/repo-folders'
+import { authorize, canAssignRole, getCompanyRole, getMembership, getRole, listCompanyRoles } from '../lib/roles'
+import { isValidFolderName } from './departments'
 import { randomBytes } from 'crypto'
 
 export const invitationsRoute = new Hono()
 
+const MAX_USES = 1000
+const MAX_LIST_ENTRIES = 100
+const MAX_IMPORT_ROWS = 500
+const MAX_IMPORT_LENGTH = 512 * 1024
+const MAX_NAME_LENGTH = 100
+
 // Helper: Convert snake_case object to camelCase
 function toCamelCase(obj: Record<string, unknown>): Record<string, unknown> {
   const result: Record<string, unknown> = {}
@@ -20,6 +32,85 @@ function generateToken(): string {
   return randomBytes(32).toString('hex')
 }
 
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length <= MAX_LIST_ENTRIES && value.every(item => typeof item === 'string')
+}
+
+// Departments a link assigns, by id (deleted and archived departments are
+// skipped; restoring one makes the link assign it again)
+function getInvitationDepartments(invitation: Record<string, unknown>): Array<{ id: string; name: string; folder: string }> {
+  const ids = parseJsonList(invitation.department_ids)
+  if (ids.length === 0) return []
+  const placeholders = ids.map(() => '?').join(',')
+  return db.prepare(`
+    SELECT id, name, folder FROM departments
+    WHERE company_id = ? AND id IN (${placeholders}) AND archived_at IS NULL
+    ORDER BY folder
+  `).all(invitation.company_id, ...ids) as Array<{ id: string; name: string; folder: string }>
+}
+
+// Folders a link checks out first. Archiving a department rewrites them to
+// its place below .archive/, which is not checked out.
+function getInvitationCheckoutFolders(invitation: Record<string, unknown>): string[] {
+  return parseJsonList(invitation.checkout_folders)
+    .filter(folder => folder !== ARCHIVE_FOLDER && !folder.startsWith(`${ARCHIVE_FOLDER}/`))
+}
+
+interface NewInvitation {
+  companyId: string
+  createdBy: string
+  role: string
+  expiresInDays: number
+  email: string | null
+  emailDomain: string | null
+  name: string | null
+  maxUses: number
+  departmentIds: string[]
+  checkoutFolders: string[]
+  source?: string
+}
+
+// Insert a validated invitation and record it in the audit log
+function insertInvitation(invitation: NewInvitation): { id: string; token: string; expiresAt: string; createdAt: string } {
+  const id = generateId()
+  const token = generateToken()
+  const timestamp = now()
+  const expiresAt = new Date(Date.now() + invitation.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+
+  db.prepare(`
+    INSERT INTO invitations (
+      id, company_id, token, role, email, email_domain, name, max_uses, department_ids, checkout_folders,
+      created_by, expires_at, created_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id, invitation.companyId, token, invitation.role, invitation.email, invitation.emailDomain, invitation.name,
+    invitation.maxUses,
+    invitation.departmentIds.length > 0 ? JSON.stringify(invitation.departmentIds) : null,
+    invitation.checkoutFolders.length > 0 ? JSON.stringify(invitation.checkoutFolders) : null,
+    invitation.createdBy, expiresAt, timestamp
+  )
+
+  recordAuditEvent({
+    companyId: invitation.companyId,
+    actorId: invitation.createdBy,
+    action: 'invitation.create',
+    targetType: 'invitation',
+    targetId: id,
+    details: {
+      role: invitation.role,
+      expiresAt,
+      maxUses: invitation.maxUses,
+      email: invitation.email,
+      emailDomain: invitation.emailDomain,
+      departmentIds: invitation.departmentIds,
+      ...(invitation.source ? { source: invitation.source } : {}),
+    },
+  })
+
+  return { id, token, expiresAt, createdAt: timestamp }
+}
+
 // List invitations for a company
 invitationsRoute.get('/companies/:companyId/invitations', async (c) => {
   const user = await getUserFromRequest(c.req.raw)
@@ -29,13 +120,10 @@ invitationsRoute.get('/companies/:companyId/invitations', async (c) => {
 
   const companyId = c.req.param('companyId')
 
-  // Check if user is admin/owner of this company
-  const userMembership = db.prepare(`
-    SELECT role FROM memberships WHERE user_id = ? AND company_id = ?
-  `).get(user.id, companyId) as { role: string } | undefined
+  const userMembership = getMembership(user.id, companyId)
 
-  if (!userMembership || !['owner', 'admin'].includes(userMembership.role)) {
-    return c.json({ error: 'Only owners and admins can view invitations' }, 403)
+  if (!userMembership || !authorize(userMembership, 'invite')) {
+    return c.json({ error: 'Your role cannot view invitations' }, 403)
   }
 
   const invitations = db.prepare(`
@@ -59,8 +147,10 @@ invitationsRoute.get('/companies/:companyId/invitations', async (c) => {
       const usedByUser = inv.used_by ? usersMap.get(inv.used_by as string) : null
       return {
         ...toCamelCase(inv),
+        departmentIds: parseJsonList(inv.department_ids),
+        checkoutFolders: parseJsonList(inv.checkout_folders),
         isExpired: new Date(inv.expires_at as string) < new Date(),
-        isUsed: !!inv.used_by,
+        isUsed: (inv.use_count as number) >= (inv.max_uses as number),
         createdByName: createdByUser?.name ?? null,
         createdByEmail: createdByUser?.email ?? null,
         usedByName: usedByUser?.name ?? null,
@@ -79,13 +169,10 @@ invitationsRoute.post('/companies/:companyId/invitations', async (c) => {
 
   const companyId = c.req.param('companyId')
 
-  // Check if user is admin/owner of this company
-  const userMembership = db.prepare(`
-    SELECT role FROM memberships WHERE user_id = ? AND company_id = ?
-  `).get(user.id, companyId) as { role: string } | undefined
+  const userMembership = getMembership(user.id, companyId)
 
-  if (!userMembership || !['owner', 'admin'].includes(userMembership.role)) {
-    return c.json({ error: 'Only owners and admins can create invitations' }, 403)
+  if (!userMembership || !authorize(userMembership, 'invite')) {
+    return c.json({ error: 'Your role cannot create invitations' }, 403)
   }
 
   // Get company details
@@ -95,36 +182,209 @@ invitationsRoute.post('/companies/:companyId/invitations', async (c) => {
   }
 
   const body = await c.req.json().catch(() => ({}))
-  const { role = 'member', expiresInDays = 7 } = body
+  const {
+    role = 'member',
+    expiresInDays = 7,
+    email = null,
+    emailDomain = null,
+    maxUses = 1,
+    departmentIds = [],
+    checkoutFolders = [],
+  } = body
+
+  // Department-scoped roles need a single department to manage, so they are
+  // assigned after joining; ownership is never handed out by link
+  const invitedRole = getCompanyRole(companyId, role)
+  if (!invitedRole || invitedRole.id === 'owner' || invitedRole.scope === 'department') {
+    return c.json({ error: 'Invalid role' }, 400)
+  }
 
-  if (!['admin', 'member'].includes(role)) {
-    return c.json({ error: 'Invalid role. Must be "admin" or "member"' }, 400)
+  if (!canAssignRole(userMembership, invitedRole)) {
+    return c.json({ error: 'Cannot invite with a role that has capabilities you do not have' }, 403)
   }
 
-  const id = generateId()
-  const token = generateToken()
-  const timestamp = now()
-  const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+  if (email !== null && (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(email.trim()))) {
+    return c.json({ error: 'email must be an email address' }, 400)
+  }
+  if (emailDomain !== null && (typeof emailDomain !== 'string' || !/^@?[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(emailDomain.trim()))) {
+    return c.json({ error: 'emailDomain must be a domain such as example.com' }, 400)
+  }
+  if (email !== null && emailDomain !== null) {
+    return c.json({ error: 'Restrict an invitation to an email or to a domain, not both' }, 400)
+  }
+  if (typeof maxUses !== 'number' || !Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_USES) {
+    return c.json({ error: `maxUses must be an integer between 1 and ${MAX_USES}` }, 400)
+  }
+  if (email !== null && maxUses !== 1) {
+    return c.json({ error: 'An invitation for one email address can only be used once' }, 400)
+  }
+  if (!isStringList(departmentIds)) {
+    return c.json({ error: `departmentIds must be an array of at most ${MAX_LIST_ENTRIES} department IDs` }, 400)
+  }
+  if (!isStringList(checkoutFolders) || !checkoutFolders.every(isValidFolderName)) {
+    return c.json({ error: `checkoutFolders must be an array of at most ${MAX_LIST_ENTRIES} top-level folder names` }, 400)
+  }
 
-  db.prepare(`
-    INSERT INTO invitations (id, company_id, token, role, created_by, expires_at, created_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
-  `).run(id, companyId, token, role, user.id, expiresAt, timestamp)
+  // Joining a department through the link is an assignment, so the creator
+  // needs the same rights as for assigning members directly
+  const uniqueDepartmentIds = [...new Set(departmentIds)]
+  const findDepartment = db.prepare('SELECT id FROM departments WHERE id = ? AND company_id = ?')
+  for (const departmentId of uniqueDepartmentIds) {
+    if (!findDepartment.get(departmentId, companyId)) {
+      return c.json({ error: `Department not found: ${departmentId}` }, 400)
+    }
+    if (!authorize(userMembership, 'manage_departments', { departmentId })) {
+      return c.json({ error: 'Your role cannot assign members to these departments' }, 403)
+    }
+  }
+
+  const restrictedEmail = email !== null ? email.trim().toLowerCase() : null
+  const restrictedDomain = emailDomain !== null ? emailDomain.trim().toLowerCase().replace(/^@/, '') : null
+  const folders = [...new Set(checkoutFolders)]
+
+  const created = insertInvitation({
+    companyId,
+    createdBy: user.id,
+    role,
+    expiresInDays,
+    email: restrictedEmail,
+    emailDomain: restrictedDomain,
+    name: null,
+    maxUses,
+    departmentIds: uniqueDepartmentIds,
+    checkoutFolders: folders,
+  })
 
   return c.json({
     success: true,
     data: {
-      id,
-      token,
+      ...created,
       companyId,
       companyName: company.name,
       role,
-      expiresAt,
-      createdAt: timestamp,
+      email: restrictedEmail,
+      emailDomain: restrictedDomain,
+      maxUses,
+      useCount: 0,
+      departmentIds: uniqueDepartmentIds,
+      checkoutFolders: folders,
     },
   }, 201)
 })
 
+// Create one invitation link per row of a roster CSV (header row with an
+// email column; optional name, role and departments columns). Each link is
+// bound to its row's email address. Rows that cannot be invited are reported
+// back instead of failing the whole import.
+invitationsRoute.post('/companies/:companyId/invitations/import', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+
+  const userMembership = getMembership(user.id, companyId)
+
+  if (!userMembership || !authorize(userMembership, 'invite')) {
+    return c.json({ error: 'Your role cannot create invitations' }, 403)
+  }
+
+  const company = db.prepare('SELECT id FROM companies WHERE id = ?').get(companyId)
+  if (!company) {
+    return c.json({ error: 'Company not found' }, 404)
+  }
+
+  const body = await c.req.json().catch(() => ({}))
+  const { csv, expiresInDays = 7 } = body
+
+  if (typeof csv !== 'string' || !csv.trim()) {
+    return c.json({ error: 'csv must be the text of a CSV file' }, 400)
+  }
+  if (typeof expiresInDays !== 'number' || !Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > 365) {
+    return c.json({ error: 'expiresInDays must be an integer between 1 and 365' }, 400)
+  }
+  if (csv.length > MAX_IMPORT_LENGTH) {
+    return c.json({ error: 'CSV file is too large' }, 400)
+  }
+
+  const [header = [], ...rows] = parseCsv(csv)
+  const columns = header.map(column => column.trim().toLowerCase())
+  const column = (...names: string[]) => columns.findIndex(name => names.includes(name))
+  const emailColumn = column('email', 'メールアドレス')
+  const nameColumn = column('name', '名前')
+  const roleColumn = column('role', '役割')
+  const departmentsColumn = column('departments', 'department', '部署')
+
+  if (emailColumn === -1) {
+    return c.json({ error: 'CSV must start with a header row that has an email column' }, 400)
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return c.json({ error: `CSV can have at most ${MAX_IMPORT_ROWS} rows` }, 400)
+  }
+
+  const roles = listCompanyRoles(companyId)
+  const departments = db.prepare(`
+    SELECT id, name, folder FROM departments WHERE company_id = ?
+  `).all(companyId) as Array<{ id: string; name: string; folder: string }>
+  const memberIds = (db.prepare(`
+    SELECT user_id FROM memberships WHERE company_id = ?
+  `).all(companyId) as Array<{ user_id: string }>).map(row => row.user_id)
+  const memberEmails = new Set([...getUsersByIds(memberIds).values()].map(u => u.email.toLowerCase()))
+
+  const created: Array<{ row: number; email: string; name: string | null; token: string; expiresAt: string }> = []
+  const errors: Array<{ row: number; email: string | null; error: string }> = []
+  const seen = new Set<string>()
+
+  rows.forEach((fields, index) => {
+    // Spreadsheet row number: the header is row 1
+    const row = index + 2
+    const cell = (columnIndex: number) => columnIndex === -1 ? '' : (fields[columnIndex] ?? '').trim()
+    const email = cell(emailColumn).toLowerCase()
+    const fail = (error: string) => errors.push({ row, email: email || null, error })
+
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) return fail('Invalid email address')
+    if (seen.has(email)) return fail('Email appears more than once in the file')
+    seen.add(email)
+    if (memberEmails.has(email)) return fail('Already a member of this company')
+
+    // Roles are matched by id or by display name
+    const roleRef = cell(roleColumn) || 'member'
+    const role = roles.find(r => r.id === roleRef) ?? roles.find(r => r.name === roleRef)
+    if (!role || role.id === 'owner' || role.scope === 'department') return fail(`Invalid role: ${roleRef}`)
+    if (!canAssignRole(userMembership, role)) return fail(`Your role cannot invite with role: ${roleRef}`)
+
+    // Departments are separated by ";" and matched by folder or by name
+    const departmentIds: string[] = []
+    for (const ref of cell(departmentsColumn).split(';').map(d => d.trim()).filter(Boolean)) {
+      const department = departments.find(d => d.folder === ref) ?? departments.find(d => d.name === ref)
+      if (!department) return fail(`Department not found: ${ref}`)
+      if (!authorize(userMembership, 'manage_departments', { departmentId: department.id })) {
+        return fail(`Your role cannot assign members to department: ${ref}`)
+      }
+      if (!departmentIds.includes(department.id)) departmentIds.push(department.id)
+    }
+
+    const name = cell(nameColumn).slice(0, MAX_NAME_LENGTH) || null
+    const invitation = insertInvitation({
+      companyId,
+      createdBy: user.id,
+      role: role.id,
+      expiresInDays,
+      email,
+      emailDomain: null,
+      name,
+      maxUses: 1,
+      departmentIds,
+      checkoutFolders: [],
+      source: 'csv',
+    })
+    created.push({ row, email, name, token: invitation.token, expiresAt: invitation.expiresAt })
+  })
+
+  return c.json({ success: true, data: { created, errors } })
+})
+
 // Delete an invitation
 invitationsRoute.delete('/companies/:companyId/invitations/:invitationId', async (c) => {
   const user = await getUserFromRequest(c.req.raw)
@@ -135,13 +395,10 @@ invitationsRoute.delete('/companies/:companyId/invitations/:invitationId', async
   const companyId = c.req.param('companyId')
   const invitationId = c.req.param('invitationId')
 
-  // Check if user is admin/owner of this company
-  const userMembership = db.prepare(`
-    SELECT role FROM memberships WHERE user_id = ? AND company_id = ?
-  `).get(user.id, companyId) as { role: string } | undefined
+  const userMembership = getMembership(user.id, companyId)
 
-  if (!userMembership || !['owner', 'admin'].includes(userMembership.role)) {
-    return c.json({ error: 'Only owners and admins can delete invitations' }, 403)
+  if (!userMembership || !authorize(userMembership, 'invite')) {
+    return c.json({ error: 'Your role cannot delete invitations' }, 403)
   }
 
   // Check if invitation exists and belongs to this company
@@ -163,32 +420,22 @@ invitationsRoute.delete('/companies/:companyId/invitations/:invitationId', async
 
 // Validate an invitation token (public endpoint)
 invitationsRoute.get('/invitations/:token', async (c) => {
-  const token = c.req.param('token')
-
-  const invitation = db.prepare(`
-    SELECT i.*, c.name as company_name
-    FROM invitations i
-    JOIN companies c ON i.company_id = c.id
-    WHERE i.token = ?
-  `).get(token) as Record<string, unknown> | undefined
-
-  if (!invitation) {
-    return c.json({ error: 'Invalid invitation link' }, 404)
-  }
-
-  if (invitation.used_by) {
-    return c.json({ error: 'This invitation has already been used' }, 410)
-  }
-
-  if (new Date(invitation.expires_at as string) < new Date()) {
-    return c.json({ error: 'This invitation has expired' }, 410)
+  const found = findUsableInvitation(c.req.param('token'))
+  if ('error' in found) {
+    return c.json({ error: found.error }, found.status)
   }
 
+  const { invitation } = found
   return c.json({
     success: true,
     data: {
       companyName: invitation.company_name,
       role: invitation.role,
+      roleName: getRole(invitation.role as string)?.name ?? null,
+      email: invitation.email ?? null,
+      emailDomain: invitation.email_domain ?? null,
+      name: invitation.name ?? null,
+      departments: getInvitationDepartments(invitation).map(({ name, folder }) => ({ name, folder })),
       expiresAt: invitation.expires_at,
     },
   })
@@ -201,56 +448,78 @@ invitationsRoute.post('/invitations/:token/accept', async (c) => {
     return c.json({ error: 'Unauthorized. Please log in first.' }, 401)
   }
 
-  const token = c.req.param('token')
-
-  const invitation = db.prepare(`
-    SELECT i.*, c.name as company_name
-    FROM invitations i
-    JOIN companies c ON i.company_id = c.id
-    WHERE i.token = ?
-  `).get(token) as Record<string, unknown> | undefined
-
-  if (!invitation) {
-    return c.json({ error: 'Invalid invitation link' }, 404)
-  }
-
-  if (invitation.used_by) {
-    return c.json({ error: 'This invitation has already been used' }, 410)
+  const found = findUsableInvitation(c.req.param('token'), user.email)
+  if ('error' in found) {
+    return c.json({ error: found.error }, found.status)
   }
 
-  if (new Date(invitation.expires_at as string) < new Date()) {
-    return c.json({ error: 'This invitation has expired' }, 410)
-  }
+  const { invitation } = found
+  const companyId = invitation.company_id as string
 
   // Check if user is already a member
   const existingMembership = db.prepare(`
     SELECT id FROM memberships WHERE user_id = ? AND company_id = ?
-  `).get(user.id, invitation.company_id)
+  `).get(user.id, companyId)
 
   if (existingMembership) {
     return c.json({ error: 'You are already a member of this company' }, 409)
   }
 
-  // Add user as member
+  // Add user as member. A custom role deleted after the link was created
+  // falls back to a plain member.
   const membershipId = generateId()
   const timestamp = now()
+  const role = getRole(invitation.role as string) ? invitation.role as string : 'member'
+  const departments = getInvitationDepartments(invitation)
+  const checkoutFolders = getInvitationCheckoutFolders(invitation)
+
+  const accepted = db.transaction(() => {
+    // Count the use first so concurrent accepts cannot exceed the limit
+    const claimed = db.prepare(`
+      UPDATE invitations SET use_count = use_count + 1, used_by = ?, used_at = ?
+      WHERE id = ? AND use_count < max_uses
+    `).run(user.id, timestamp, invitation.id)
+    if (claimed.changes === 0) return false
+
+    db.prepare(`
+      INSERT INTO memberships (id, user_id, company_id, role, checkout_folders, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      membershipId, user.id, companyId, role,
+      checkoutFolders.length > 0 ? JSON.stringify(checkoutFolders) : null,
+      timestamp, timestamp
+    )
+
+    const assign = db.prepare(`
+      INSERT OR IGNORE INTO department_members (department_id, user_id, company_id, is_lead, created_by, created_at)
+      VALUES (?, ?, ?, 0, ?, ?)
+    `)
+    for (const department of departments) {
+      assign.run(department.id, user.id, companyId, invitation.created_by, timestamp)
+    }
+    return true
+  })()
+
+  if (!accepted) {
+    return c.json({ error: 'This invitation has reached its usage limit' }, 410)
+  }
 
-  db.prepare(`
-    INSERT INTO memberships (id, user_id, company_id, role, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?)
-  `).run(membershipId, user.id, invitation.company_id, invitation.role, timestamp, timestamp)
-
-  // Mark invitation as used
-  db.prepare(`
-    UPDATE invitations SET used_by = ?, used_at = ? WHERE id = ?
-  `).run(user.id, timestamp, invitation.id)
+  recordAuditEvent({
+    companyId,
+    actorId: user.id,
+    action: 'invitation.accept',
+    targetType: 'invitation',
+    targetId: invitation.id as string,
+    details: { role, departmentIds: departments.map(department => department.id) },
+  })
 
   return c.json({
     success: true,
     data: {
-      companyId: invitation.company_id,
+      companyId,
       companyName: invitation.company_name,
-      role: invitation.role,
+      role,
+      departments: departments.map(({ name, folder }) => ({ name, folder })),
     },
   })
 })
@@ -1,16 +1,46 @@
 import { Hono } from 'hono'
-import { auth, getUserFromRequest } from '../lib/auth'
+import { APIError } from 'better-auth/api'
+import { auth, getUserById, getUserFromRequest } from '../lib/auth'
+import { getBearerAccessToken } from '../lib/access-tokens'
 
 export const meRoute = new Hono()
 
+const MAX_NAME_LENGTH = 100
+const MAX_IMAGE_LENGTH = 256 * 1024 // data: URLs of small avatars
+const MIN_PASSWORD_LENGTH = 8 // matches emailAndPassword.minPasswordLength
+const MAX_PASSWORD_LENGTH = 128
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Avatars are either a link or a small inline image
+function isValidImage(image: string): boolean {
+  if (image.length > MAX_IMAGE_LENGTH) return false
+  return /^https?:\/\//.test(image) || /^data:image\/(png|jpeg|gif|webp);base64,/.test(image)
+}
+
+// Helper: Better Auth errors carry a status and a user-facing message
+function toAuthErrorResponse(error: unknown): { error: string; status: 400 | 409 | 500 } {
+  if (error instanceof APIError) {
+    return {
+      error: error.body?.message ?? error.message,
+      status: error.status === 'UNPROCESSABLE_ENTITY' ? 409 : 400,
+    }
+  }
+  console.error('[me] Auth request failed:', error)
+  return { error: 'Internal Server Error', status: 500 }
+}
+
 // Get current user info
+// Read from auth.sqlite rather than the (cached) session, so a profile edit
+// shows up right away — the desktop client sets the Git identity from here.
 meRoute.get('/', async (c) => {
-  const user = await getUserFromRequest(c.req.raw)
+  const sessionUser = await getUserFromRequest(c.req.raw)
 
-  if (!user) {
+  if (!sessionUser) {
     return c.json({ error: 'Unauthorized' }, 401)
   }
 
+  const user = getUserById(sessionUser.id) ?? sessionUser
+
   return c.json({
     success: true,
     data: {
@@ -24,6 +54,7 @@ meRoute.get('/', async (c) => {
 })
 
 // Update current user info
+// Body: { name?: string, image?: string | null }
 meRoute.patch('/', async (c) => {
   const user = await getUserFromRequest(c.req.raw)
 
@@ -31,18 +62,131 @@ meRoute.patch('/', async (c) => {
     return c.json({ error: 'Unauthorized' }, 401)
   }
 
-  const body = await c.req.json()
+  const body = await c.req.json().catch(() => ({}))
   const { name, image } = body
+  const updates: { name?: string; image?: string | null } = {}
 
-  // Update user via Better Auth API
-  // For now, just return the updated user concept
-  // TODO: Implement actual update when Better Auth supports it
+  if (name !== undefined) {
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+      return c.json({ error: `name must be 1-${MAX_NAME_LENGTH} characters` }, 400)
+    }
+    updates.name = name.trim()
+  }
+
+  if (image !== undefined) {
+    if (image !== null && (typeof image !== 'string' || !isValidImage(image))) {
+      return c.json({ error: 'image must be an http(s) URL or a PNG, JPEG, GIF or WebP data URL (max 256KB)' }, 400)
+    }
+    updates.image = image
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return c.json({ error: 'Nothing to update' }, 400)
+  }
+
+  const context = await auth.$context
+  await context.internalAdapter.updateUser(user.id, updates)
+
+  const updated = getUserById(user.id) ?? { ...user, ...updates }
 
   return c.json({
-    id: user.id,
-    email: user.email,
-    name: name ?? user.name,
-    image: image ?? user.image,
-    emailVerified: user.emailVerified,
+    success: true,
+    data: {
+      id: updated.id,
+      email: updated.email,
+      name: updated.name,
+      image: updated.image,
+      emailVerified: updated.emailVerified,
+    },
+  })
+})
+
+// Change password (login session only)
+// Body: { currentPassword, newPassword, revokeOtherSessions?: boolean }
+meRoute.post('/password', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  // Credentials are changed from a login session, never with an access token
+  if (getBearerAccessToken(c.req.raw)) {
+    return c.json({ error: 'Access tokens cannot change credentials' }, 403)
+  }
+
+  const body = await c.req.json().catch(() => ({}))
+  const { currentPassword, newPassword, revokeOtherSessions } = body
+
+  if (typeof currentPassword !== 'string' || !currentPassword) {
+    return c.json({ error: 'currentPassword is required' }, 400)
+  }
+
+  if (
+    typeof newPassword !== 'string' ||
+    newPassword.length < MIN_PASSWORD_LENGTH ||
+    newPassword.length > MAX_PASSWORD_LENGTH
+  ) {
+    return c.json({ error: `newPassword must be ${MIN_PASSWORD_LENGTH}-${MAX_PASSWORD_LENGTH} characters` }, 400)
+  }
+
+  if (revokeOtherSessions !== undefined && typeof revokeOtherSessions !== 'boolean') {
+    return c.json({ error: 'revokeOtherSessions must be a boolean' }, 400)
+  }
+
+  try {
+    const { headers } = await auth.api.changePassword({
+      body: { currentPassword, newPassword, revokeOtherSessions: revokeOtherSessions ?? false },
+      headers: c.req.raw.headers,
+      returnHeaders: true,
+    })
+    // Revoking other sessions replaces this one too: pass the new session cookie on
+    for (const cookie of headers.getSetCookie()) {
+      c.header('Set-Cookie', cookie, { append: true })
+    }
+  } catch (error) {
+    const { error: message, status } = toAuthErrorResponse(error)
+    return c.json({ error: message }, status)
+  }
+
+  return c.json({
+    success: true,
+    message: 'Password changed',
+  })
+})
+
+// Request an email change (login session only)
+// Body: { newEmail }. The address changes once the link mailed to it is opened.
+meRoute.post('/email', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  if (getBearerAccessToken(c.req.raw)) {
+    return c.json({ error: 'Access tokens cannot change credentials' }, 403)
+  }
+
+  const body = await c.req.json().catch(() => ({}))
+  const { newEmail } = body
+
+  if (typeof newEmail !== 'string' || !EMAIL_PATTERN.test(newEmail.trim())) {
+    return c.json({ error: 'newEmail must be a valid email address' }, 400)
+  }
+
+  try {
+    await auth.api.changeEmail({
+      body: { newEmail: newEmail.trim(), callbackURL: '/' },
+      headers: c.req.raw.headers,
+    })
+  } catch (error) {
+    const { error: message, status } = toAuthErrorResponse(error)
+    return c.json({ error: message }, status)
+  }
+
+  return c.json({
+    success: true,
+    message: 'Verification email sent',
   })
 })
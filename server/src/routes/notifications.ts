@@ -0,0 +1,117 @@
+import { Hono } from 'hono'
+import { db, now } from '../db'
+import { getUserFromRequest, getUsersByIds } from '../lib/auth'
+import { getMembership } from '../lib/roles'
+
+export const notificationsRoute = new Hono()
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+// Helper: Convert a notifications row to the API shape
+function toNotification(row: Record<string, unknown>) {
+  return {
+    id: row.id as string,
+    departmentId: (row.department_id as string | null) ?? null,
+    departmentName: (row.department_name as string | null) ?? null,
+    actorId: (row.actor_id as string | null) ?? null,
+    kind: row.kind as string,
+    paths: JSON.parse(row.paths as string) as string[],
+    createdAt: row.created_at as string,
+    readAt: (row.read_at as string | null) ?? null,
+  }
+}
+
+// GET /api/companies/:companyId/notifications - The user's change notifications
+// Query: unread=true for unread only, limit (max 200)
+notificationsRoute.get('/', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  if (!companyId) {
+    return c.json({ error: 'Company ID is required' }, 400)
+  }
+
+  if (!getMembership(user.id, companyId)) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  const limit = c.req.query('limit') ? Number(c.req.query('limit')) : DEFAULT_LIMIT
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return c.json({ error: `limit must be an integer between 1 and ${MAX_LIMIT}` }, 400)
+  }
+  const unreadOnly = c.req.query('unread') === 'true'
+
+  const rows = db.prepare(`
+    SELECT n.*, d.name as department_name
+    FROM notifications n
+    LEFT JOIN departments d ON d.id = n.department_id
+    WHERE n.user_id = ? AND n.company_id = ? ${unreadOnly ? 'AND n.read_at IS NULL' : ''}
+    ORDER BY n.created_at DESC, n.rowid DESC
+    LIMIT ?
+  `).all(user.id, companyId, limit) as Record<string, unknown>[]
+
+  const { unread } = db.prepare(`
+    SELECT COUNT(*) as unread FROM notifications WHERE user_id = ? AND company_id = ? AND read_at IS NULL
+  `).get(user.id, companyId) as { unread: number }
+
+  const notifications = rows.map(toNotification)
+  const usersMap = getUsersByIds([...new Set(notifications.map(n => n.actorId).filter((id): id is string => !!id))])
+
+  return c.json({
+    success: true,
+    data: {
+      notifications: notifications.map(notification => {
+        const actor = notification.actorId ? usersMap.get(notification.actorId) : undefined
+        return { ...notification, actorEmail: actor?.email ?? null, actorName: actor?.name ?? null }
+      }),
+      unread,
+    },
+  })
+})
+
+// POST /api/companies/:companyId/notifications/read - Mark notifications read
+// Body: { ids?: string[] } (all of the user's notifications when omitted)
+notificationsRoute.post('/read', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  if (!companyId) {
+    return c.json({ error: 'Company ID is required' }, 400)
+  }
+
+  if (!getMembership(user.id, companyId)) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  const body = await c.req.json().catch(() => ({})) as { ids?: unknown }
+  if (body.ids !== undefined && (!Array.isArray(body.ids) || body.ids.some(id => typeof id !== 'string'))) {
+    return c.json({ error: 'ids must be an array of strings' }, 400)
+  }
+
+  const timestamp = now()
+  const markRead = db.prepare(`
+    UPDATE notifications SET read_at = ?
+    WHERE user_id = ? AND company_id = ? AND read_at IS NULL ${body.ids ? 'AND id = ?' : ''}
+  `)
+
+  let updated = 0
+  if (body.ids) {
+    for (const id of body.ids as string[]) {
+      updated += markRead.run(timestamp, user.id, companyId, id).changes
+    }
+  } else {
+    updated = markRead.run(timestamp, user.id, companyId).changes
+  }
+
+  return c.json({
+    success: true,
+    data: { updated },
+  })
+})
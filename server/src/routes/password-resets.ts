@@ -0,0 +1,243 @@
+import { Hono } from 'hono'
+import { createHash, randomBytes } from 'crypto'
+import { db, generateId, now } from '../db'
+import { auth, getUserById, getUserFromRequest } from '../lib/auth'
+import { revokeAccessTokens } from '../lib/access-tokens'
+import { recordAuditEvent } from '../lib/audit'
+import { isMailConfigured, sendMail } from '../lib/mail'
+import { authorize, canAssignRole, getCompanyRole, getMembership } from '../lib/roles'
+
+export const passwordResetsRoute = new Hono()
+
+const DEFAULT_EXPIRES_IN_HOURS = 24
+const MAX_EXPIRES_IN_HOURS = 7 * 24
+const MIN_PASSWORD_LENGTH = 8 // matches emailAndPassword.minPasswordLength
+const MAX_PASSWORD_LENGTH = 128
+
+// Reset links are credentials, so only their hash is stored (like access tokens)
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// Look up a reset link by its token: 404 when unknown, 410 when used or expired
+function findReset(token: string):
+  | { reset: Record<string, unknown> }
+  | { error: string; status: 404 | 410 } {
+  const reset = db.prepare(`
+    SELECT * FROM password_resets WHERE token_hash = ?
+  `).get(hashToken(token)) as Record<string, unknown> | undefined
+
+  if (!reset) {
+    return { error: 'Invalid password reset link', status: 404 }
+  }
+  if (reset.used_at) {
+    return { error: 'This password reset link has already been used', status: 410 }
+  }
+  if (new Date(reset.expires_at as string) <= new Date()) {
+    return { error: 'This password reset link has expired', status: 410 }
+  }
+  return { reset }
+}
+
+// Issue a one-time password reset link for a member. The link is returned to
+// the admin to pass on; when outgoing mail is configured it is also mailed to
+// the member.
+// Body: { expiresInHours?: number } (1-168, default 24)
+passwordResetsRoute.post('/companies/:companyId/members/:userId/password-resets', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  const targetUserId = c.req.param('userId')
+
+  const userMembership = getMembership(user.id, companyId)
+
+  if (!userMembership || !authorize(userMembership, 'manage_members')) {
+    return c.json({ error: 'Your role cannot reset member passwords' }, 403)
+  }
+
+  if (targetUserId === user.id) {
+    return c.json({ error: 'Change your own password from your profile instead' }, 400)
+  }
+
+  const targetMembership = getMembership(targetUserId, companyId)
+  const targetUser = targetMembership ? getUserById(targetUserId) : null
+  if (!targetMembership || !targetUser) {
+    return c.json({ error: 'Member not found' }, 404)
+  }
+
+  // A reset hands over the whole account, so the caller must be able to manage
+  // the member in every company the member belongs to — not just this one
+  const targetCompanies = db.prepare(`
+    SELECT company_id, role FROM memberships WHERE user_id = ?
+  `).all(targetUserId) as Array<{ company_id: string; role: string }>
+
+  for (const { company_id: targetCompanyId, role } of targetCompanies) {
+    const callerMembership = getMembership(user.id, targetCompanyId)
+    const targetRole = getCompanyRole(targetCompanyId, role)
+    if (
+      !callerMembership ||
+      !authorize(callerMembership, 'manage_members') ||
+      role === 'owner' ||
+      (targetRole && !canAssignRole(callerMembership, targetRole))
+    ) {
+      return c.json({ error: 'Cannot reset the password of a member with privileges you do not have' }, 403)
+    }
+  }
+
+  const body = await c.req.json().catch(() => ({}))
+  const { expiresInHours = DEFAULT_EXPIRES_IN_HOURS } = body
+
+  if (
+    typeof expiresInHours !== 'number' ||
+    !Number.isInteger(expiresInHours) ||
+    expiresInHours < 1 ||
+    expiresInHours > MAX_EXPIRES_IN_HOURS
+  ) {
+    return c.json({ error: `expiresInHours must be an integer between 1 and ${MAX_EXPIRES_IN_HOURS}` }, 400)
+  }
+
+  const id = generateId()
+  const token = randomBytes(32).toString('hex')
+  const timestamp = now()
+  const expiresAt = new Date(Date.now() + expiresInHours * 60 * 60 * 1000).toISOString()
+
+  // Only the latest link works: issuing a new one retires the earlier ones
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE password_resets SET expires_at = ? WHERE user_id = ? AND used_at IS NULL AND expires_at > ?
+    `).run(timestamp, targetUserId, timestamp)
+    db.prepare(`
+      INSERT INTO password_resets (id, company_id, user_id, token_hash, created_by, expires_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(id, companyId, targetUserId, hashToken(token), user.id, expiresAt, timestamp)
+  })()
+
+  // Mail is a convenience on top of the link shown to the admin, so a delivery
+  // failure is reported rather than undoing the reset
+  let emailed = false
+  if (isMailConfigured()) {
+    const resetUrl = process.env.PUBLIC_URL ? `${process.env.PUBLIC_URL}/reset-password/${token}` : null
+    try {
+      await sendMail({
+        to: targetUser.email,
+        subject: 'パスワードの再設定',
+        text: resetUrl
+          ? `次のリンクを開いて、新しいパスワードを設定してください。\n\n${resetUrl}\n\nこのリンクは一度だけ使えます（有効期限: ${new Date(expiresAt).toLocaleString('ja-JP')}）。`
+          : `管理者がパスワード再設定用のコードを発行しました。\n\n${token}\n\n有効期限: ${new Date(expiresAt).toLocaleString('ja-JP')}`,
+      })
+      emailed = true
+    } catch (error) {
+      console.error('[password-resets] Failed to mail reset link:', error)
+    }
+  }
+
+  recordAuditEvent({
+    companyId,
+    actorId: user.id,
+    action: 'password_reset.create',
+    targetType: 'user',
+    targetId: targetUserId,
+    details: { expiresAt, emailed },
+  })
+
+  return c.json({
+    success: true,
+    data: {
+      id,
+      token,
+      userId: targetUserId,
+      email: targetUser.email,
+      expiresAt,
+      emailed,
+      createdAt: timestamp,
+    },
+  }, 201)
+})
+
+// Validate a password reset token (public endpoint)
+passwordResetsRoute.get('/password-resets/:token', async (c) => {
+  const found = findReset(c.req.param('token'))
+  if ('error' in found) {
+    return c.json({ error: found.error }, found.status)
+  }
+
+  const targetUser = getUserById(found.reset.user_id as string)
+  if (!targetUser) {
+    return c.json({ error: 'Invalid password reset link' }, 404)
+  }
+
+  return c.json({
+    success: true,
+    data: {
+      email: targetUser.email,
+      name: targetUser.name,
+      expiresAt: found.reset.expires_at,
+    },
+  })
+})
+
+// Set a new password with a reset token (public endpoint; the token is the credential)
+// Body: { newPassword }. Signs the member out everywhere.
+passwordResetsRoute.post('/password-resets/:token', async (c) => {
+  const body = await c.req.json().catch(() => ({}))
+  const { newPassword } = body
+
+  if (
+    typeof newPassword !== 'string' ||
+    newPassword.length < MIN_PASSWORD_LENGTH ||
+    newPassword.length > MAX_PASSWORD_LENGTH
+  ) {
+    return c.json({ error: `newPassword must be ${MIN_PASSWORD_LENGTH}-${MAX_PASSWORD_LENGTH} characters` }, 400)
+  }
+
+  const found = findReset(c.req.param('token'))
+  if ('error' in found) {
+    return c.json({ error: found.error }, found.status)
+  }
+
+  const { reset } = found
+  const userId = reset.user_id as string
+
+  // Claim the link before touching the password so it cannot be used twice
+  const claimed = db.prepare(`
+    UPDATE password_resets SET used_at = ? WHERE id = ? AND used_at IS NULL
+  `).run(now(), reset.id)
+  if (claimed.changes === 0) {
+    return c.json({ error: 'This password reset link has already been used' }, 410)
+  }
+
+  // Same steps as Better Auth's own reset-password endpoint
+  const context = await auth.$context
+  const hashedPassword = await context.password.hash(newPassword)
+  const accounts = await context.internalAdapter.findAccounts(userId)
+  if (accounts.some(account => account.providerId === 'credential')) {
+    await context.internalAdapter.updatePassword(userId, hashedPassword)
+  } else {
+    await context.internalAdapter.createAccount({
+      userId,
+      providerId: 'credential',
+      accountId: userId,
+      password: hashedPassword,
+    })
+  }
+  await context.internalAdapter.deleteSessions(userId)
+  // Personal access tokens sign in too, so they go with the sessions
+  const revokedAccessTokens = revokeAccessTokens(userId)
+
+  recordAuditEvent({
+    companyId: reset.company_id as string,
+    actorId: userId,
+    action: 'password_reset.complete',
+    targetType: 'user',
+    targetId: userId,
+    details: { revokedAccessTokens },
+  })
+
+  return c.json({
+    success: true,
+    message: 'Password has been reset',
+  })
+})
@@ -1,49 +1,246 @@
 import { Hono } from 'hono'
+import { db, generateId, now } from '../db'
+import { getUserFromRequest, getUsersByIds } from '../lib/auth'
+import { normalizePermissionPath } from '../lib/permissions'
+import { recordAuditEvent } from '../lib/audit'
+import { authorize, getMembership, hasCapability } from '../lib/roles'
+import type { Permission } from '../../shared/types'
 
 export const permissionsRoute = new Hono()
 
-// Get permissions for a user in a company
-permissionsRoute.get('/:userId', (c) => {
-  const userId = c.req.param('userId')
-  const companyId = c.req.query('companyId')
+// Helper: Convert a permissions row to the shared Permission shape
+function toPermission(row: Record<string, unknown>): Permission & { createdAt: string; updatedAt: string } {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    companyId: row.company_id as string,
+    path: row.path as string,
+    canRead: Boolean(row.can_read),
+    canWrite: Boolean(row.can_write),
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  }
+}
+
+// Helper: Normalize canRead/canWrite (write implies read)
+function normalizeFlags(canRead: unknown, canWrite: unknown): { canRead: boolean; canWrite: boolean } {
+  const write = canWrite === true
+  return { canRead: write || canRead !== false, canWrite: write }
+}
+
+// GET /api/companies/:companyId/permissions - List all path permissions
+permissionsRoute.get('/', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  if (!companyId) {
+    return c.json({ error: 'Company ID is required' }, 400)
+  }
+
+  const membership = getMembership(user.id, companyId)
+
+  if (!membership || !hasCapability(membership, 'manage_permissions')) {
+    return c.json({ error: 'Your role cannot view permissions' }, 403)
+  }
+
+  // Department leads see the rules inside their own subtree
+  const rows = (db.prepare(`
+    SELECT * FROM permissions WHERE company_id = ? ORDER BY path ASC, created_at ASC
+  `).all(companyId) as Record<string, unknown>[])
+    .filter(row => authorize(membership, 'manage_permissions', { path: row.path as string }))
+
+  const usersMap = getUsersByIds([...new Set(rows.map(row => row.user_id as string))])
 
-  // TODO: Implement with DB
   return c.json({
     success: true,
-    data: [
-      {
-        id: '1',
-        userId,
-        companyId,
-        path: '/*',
-        canRead: true,
-        canWrite: true,
-      },
-    ],
+    data: rows.map(row => {
+      const userInfo = usersMap.get(row.user_id as string)
+      return {
+        ...toPermission(row),
+        email: userInfo?.email ?? null,
+        name: userInfo?.name ?? null,
+      }
+    }),
   })
 })
 
-// Set permissions (admin only)
+// POST /api/companies/:companyId/permissions - Grant a member access to a path
 permissionsRoute.post('/', async (c) => {
-  const body = await c.req.json()
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  if (!companyId) {
+    return c.json({ error: 'Company ID is required' }, 400)
+  }
+
+  const membership = getMembership(user.id, companyId)
+
+  if (!membership || !hasCapability(membership, 'manage_permissions')) {
+    return c.json({ error: 'Your role cannot manage permissions' }, 403)
+  }
+
+  const body = await c.req.json().catch(() => ({}))
+  const { userId, canRead, canWrite } = body as { userId?: string; path?: string; canRead?: boolean; canWrite?: boolean }
+
+  if (!userId || typeof body.path !== 'string') {
+    return c.json({ error: 'userId and path are required' }, 400)
+  }
+
+  const path = normalizePermissionPath(body.path)
+  if (!path) {
+    return c.json({ error: 'Invalid path' }, 400)
+  }
+
+  if (!authorize(membership, 'manage_permissions', { path })) {
+    return c.json({ error: 'You can only manage permissions for folders you manage' }, 403)
+  }
+
+  if (!getMembership(userId, companyId)) {
+    return c.json({ error: 'User is not a member of this company' }, 400)
+  }
+
+  const existing = db.prepare(`
+    SELECT id FROM permissions WHERE company_id = ? AND user_id = ? AND path = ?
+  `).get(companyId, userId, path)
+
+  if (existing) {
+    return c.json({ error: 'A permission for this user and path already exists' }, 409)
+  }
+
+  const flags = normalizeFlags(canRead, canWrite)
+  const id = generateId()
+  const timestamp = now()
+
+  db.prepare(`
+    INSERT INTO permissions (id, company_id, user_id, path, can_read, can_write, created_by, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(id, companyId, userId, path, flags.canRead ? 1 : 0, flags.canWrite ? 1 : 0, user.id, timestamp, timestamp)
+
+  recordAuditEvent({
+    companyId,
+    actorId: user.id,
+    action: 'permission.grant',
+    targetType: 'user',
+    targetId: userId,
+    details: { path, ...flags },
+  })
+
+  const created = db.prepare('SELECT * FROM permissions WHERE id = ?').get(id) as Record<string, unknown>
 
-  // TODO: Implement with auth check
   return c.json({
     success: true,
-    data: {
-      id: Date.now().toString(),
-      ...body,
-    },
+    data: toPermission(created),
+  }, 201)
+})
+
+// PUT /api/companies/:companyId/permissions/:id - Change read/write flags
+permissionsRoute.put('/:id', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  if (!companyId) {
+    return c.json({ error: 'Company ID is required' }, 400)
+  }
+
+  const permissionId = c.req.param('id')
+  const membership = getMembership(user.id, companyId)
+
+  if (!membership || !hasCapability(membership, 'manage_permissions')) {
+    return c.json({ error: 'Your role cannot manage permissions' }, 403)
+  }
+
+  const existing = db.prepare(`
+    SELECT * FROM permissions WHERE id = ? AND company_id = ?
+  `).get(permissionId, companyId) as Record<string, unknown> | undefined
+
+  if (!existing) {
+    return c.json({ error: 'Permission not found' }, 404)
+  }
+
+  if (!authorize(membership, 'manage_permissions', { path: existing.path as string })) {
+    return c.json({ error: 'You can only manage permissions for folders you manage' }, 403)
+  }
+
+  const body = await c.req.json().catch(() => ({}))
+  const flags = normalizeFlags(
+    body.canRead ?? Boolean(existing.can_read),
+    body.canWrite ?? Boolean(existing.can_write)
+  )
+
+  db.prepare(`
+    UPDATE permissions SET can_read = ?, can_write = ?, updated_at = ? WHERE id = ?
+  `).run(flags.canRead ? 1 : 0, flags.canWrite ? 1 : 0, now(), permissionId)
+
+  const updated = db.prepare('SELECT * FROM permissions WHERE id = ?').get(permissionId) as Record<string, unknown>
+
+  recordAuditEvent({
+    companyId,
+    actorId: user.id,
+    action: 'permission.update',
+    targetType: 'user',
+    targetId: existing.user_id as string,
+    details: { path: existing.path, ...flags },
+  })
+
+  return c.json({
+    success: true,
+    data: toPermission(updated),
   })
 })
 
-// Delete permission
-permissionsRoute.delete('/:id', (c) => {
-  const id = c.req.param('id')
+// DELETE /api/companies/:companyId/permissions/:id - Revoke a permission
+permissionsRoute.delete('/:id', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  if (!companyId) {
+    return c.json({ error: 'Company ID is required' }, 400)
+  }
+
+  const permissionId = c.req.param('id')
+  const membership = getMembership(user.id, companyId)
+
+  if (!membership || !hasCapability(membership, 'manage_permissions')) {
+    return c.json({ error: 'Your role cannot manage permissions' }, 403)
+  }
+
+  const existing = db.prepare(`
+    SELECT user_id, path FROM permissions WHERE id = ? AND company_id = ?
+  `).get(permissionId, companyId) as { user_id: string; path: string } | undefined
+
+  if (!existing) {
+    return c.json({ error: 'Permission not found' }, 404)
+  }
+
+  if (!authorize(membership, 'manage_permissions', { path: existing.path })) {
+    return c.json({ error: 'You can only manage permissions for folders you manage' }, 403)
+  }
+
+  db.prepare('DELETE FROM permissions WHERE id = ?').run(permissionId)
+
+  recordAuditEvent({
+    companyId,
+    actorId: user.id,
+    action: 'permission.revoke',
+    targetType: 'user',
+    targetId: existing.user_id,
+    details: { path: existing.path },
+  })
 
-  // TODO: Implement
   return c.json({
     success: true,
-    data: { id },
+    message: 'Permission deleted',
   })
 })
@@ -0,0 +1,230 @@
+import { Hono, type Context } from 'hono'
+import { db } from '../db'
+import { getUserFromRequest } from '../lib/auth'
+import { loadPermissionRules, normalizePermissionPath } from '../lib/permissions'
+import {
+  MAX_BLOB_SIZE,
+  createReadFilter,
+  getBlobSize,
+  getCommitDiff,
+  getContentType,
+  getRepoPath,
+  isValidRef,
+  listCommits,
+  listTree,
+  readBlob,
+  resolveCommit,
+  type ReadFilter,
+} from '../lib/repo-browser'
+
+// Read-only browser over the company's bare repository (admin panel file
+// browser, desktop preview of folders outside the sparse checkout). Every
+// response only contains paths the caller can read.
+export const repoRoute = new Hono()
+
+const DEFAULT_COMMIT_LIMIT = 50
+const MAX_COMMIT_LIMIT = 200
+
+type RepoContext =
+  | { repoPath: string; filter: ReadFilter }
+  | { error: string; status: 404 }
+
+// Helper: Check membership and load the caller's read filter
+function openRepo(companyId: string, userId: string): RepoContext {
+  const membership = db.prepare(`
+    SELECT role FROM memberships WHERE user_id = ? AND company_id = ?
+  `).get(userId, companyId) as { role: string } | undefined
+  if (!membership) {
+    return { error: 'Company not found or access denied', status: 404 }
+  }
+
+  const repoPath = getRepoPath(companyId)
+  if (!repoPath) {
+    return { error: 'Repository not found', status: 404 }
+  }
+
+  return { repoPath, filter: createReadFilter(loadPermissionRules(companyId), userId, membership.role) }
+}
+
+// Helper: Parse the ref and path query parameters ("" = repository root)
+function parseLocation(c: Context): { ref: string; path: string } | { error: string } {
+  const ref = c.req.query('ref') || 'HEAD'
+  if (!isValidRef(ref)) {
+    return { error: 'Invalid ref' }
+  }
+  const rawPath = c.req.query('path') ?? ''
+  if (rawPath.trim() === '' || rawPath.trim() === '/') {
+    return { ref, path: '' }
+  }
+  const path = normalizePermissionPath(rawPath)
+  if (!path) {
+    return { error: 'Invalid path' }
+  }
+  return { ref, path }
+}
+
+// GET /api/companies/:companyId/repo/tree - Directory listing
+// Query: ref (branch, tag or commit; default HEAD), path (default root)
+repoRoute.get('/tree', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const repo = openRepo(c.req.param('companyId') ?? '', user.id)
+  if ('error' in repo) {
+    return c.json({ error: repo.error }, repo.status)
+  }
+
+  const location = parseLocation(c)
+  if ('error' in location) {
+    return c.json({ error: location.error }, 400)
+  }
+
+  const commit = resolveCommit(repo.repoPath, location.ref)
+  if (!commit) {
+    return c.json({ error: 'Ref not found' }, 404)
+  }
+
+  if (!repo.filter.canSeeDir(location.path)) {
+    return c.json({ error: 'You do not have read access to this path' }, 403)
+  }
+
+  const entries = listTree(repo.repoPath, commit, location.path, repo.filter)
+  if (!entries) {
+    return c.json({ error: 'Directory not found' }, 404)
+  }
+
+  return c.json({
+    success: true,
+    data: { ref: location.ref, commit, path: location.path, entries },
+  })
+})
+
+// GET /api/companies/:companyId/repo/blob - Raw file content
+// Query: ref (default HEAD), path (required)
+repoRoute.get('/blob', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const repo = openRepo(c.req.param('companyId') ?? '', user.id)
+  if ('error' in repo) {
+    return c.json({ error: repo.error }, repo.status)
+  }
+
+  const location = parseLocation(c)
+  if ('error' in location) {
+    return c.json({ error: location.error }, 400)
+  }
+  if (!location.path) {
+    return c.json({ error: 'path is required' }, 400)
+  }
+
+  const commit = resolveCommit(repo.repoPath, location.ref)
+  if (!commit) {
+    return c.json({ error: 'Ref not found' }, 404)
+  }
+
+  if (!repo.filter.canReadFile(location.path)) {
+    return c.json({ error: 'You do not have read access to this path' }, 403)
+  }
+
+  const size = getBlobSize(repo.repoPath, commit, location.path)
+  if (size === null) {
+    return c.json({ error: 'File not found' }, 404)
+  }
+  if (size > MAX_BLOB_SIZE) {
+    return c.json({ error: 'File is too large to preview' }, 413)
+  }
+
+  const content = readBlob(repo.repoPath, commit, location.path)
+  const fileName = location.path.split('/').pop()!
+
+  // Repository content is untrusted: never sniffed, never allowed to run
+  // scripts even when opened directly
+  c.header('Content-Type', getContentType(location.path, content))
+  c.header('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(fileName)}`)
+  c.header('X-Content-Type-Options', 'nosniff')
+  c.header('Content-Security-Policy', "default-src 'none'; img-src 'self' data:; style-src 'unsafe-inline'; sandbox")
+  c.header('Cache-Control', 'private, no-cache')
+  return c.body(new Uint8Array(content))
+})
+
+// GET /api/companies/:companyId/repo/commits - Commit log
+// Query: ref (default HEAD), path (only commits touching it), skip, limit
+// nextSkip is null once the history is exhausted.
+repoRoute.get('/commits', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const repo = openRepo(c.req.param('companyId') ?? '', user.id)
+  if ('error' in repo) {
+    return c.json({ error: repo.error }, repo.status)
+  }
+
+  const location = parseLocation(c)
+  if ('error' in location) {
+    return c.json({ error: location.error }, 400)
+  }
+
+  const skip = Number(c.req.query('skip') ?? 0)
+  const limit = Number(c.req.query('limit') ?? DEFAULT_COMMIT_LIMIT)
+  if (!Number.isInteger(skip) || skip < 0) {
+    return c.json({ error: 'skip must be a non-negative integer' }, 400)
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_COMMIT_LIMIT) {
+    return c.json({ error: `limit must be an integer between 1 and ${MAX_COMMIT_LIMIT}` }, 400)
+  }
+
+  const commit = resolveCommit(repo.repoPath, location.ref)
+  if (!commit) {
+    return c.json({ error: 'Ref not found' }, 404)
+  }
+
+  if (location.path && !repo.filter.canSeeDir(location.path) && !repo.filter.canReadFile(location.path)) {
+    return c.json({ error: 'You do not have read access to this path' }, 403)
+  }
+
+  const { commits, scanned } = listCommits(repo.repoPath, commit, location.path, repo.filter, skip, limit)
+
+  return c.json({
+    success: true,
+    data: {
+      ref: location.ref,
+      path: location.path,
+      commits,
+      nextSkip: scanned === limit ? skip + limit : null,
+    },
+  })
+})
+
+// GET /api/companies/:companyId/repo/commits/:sha - One commit with its diff
+// against the first parent (readable files only)
+repoRoute.get('/commits/:sha', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const repo = openRepo(c.req.param('companyId') ?? '', user.id)
+  if ('error' in repo) {
+    return c.json({ error: repo.error }, repo.status)
+  }
+
+  const sha = c.req.param('sha')
+  if (!/^[0-9a-f]{4,40}$/i.test(sha)) {
+    return c.json({ error: 'Invalid commit id' }, 400)
+  }
+
+  const commit = resolveCommit(repo.repoPath, sha)
+  const diff = commit ? getCommitDiff(repo.repoPath, commit, repo.filter) : null
+  if (!diff) {
+    return c.json({ error: 'Commit not found' }, 404)
+  }
+
+  return c.json({ success: true, data: diff })
+})
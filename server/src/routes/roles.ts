@@ -0,0 +1,274 @@
+import { Hono } from 'hono'
+import { db, generateId, now } from '../db'
+import { getUserFromRequest } from '../lib/auth'
+import { recordAuditEvent } from '../lib/audit'
+import {
+  BUILTIN_ROLES,
+  CAPABILITIES,
+  authorize,
+  getMembership,
+  invalidateRoleCache,
+  listCompanyRoles,
+  toRole,
+  type Role,
+} from '../lib/roles'
+import type { Capability, RoleScope } from '../../shared/types'
+
+export const rolesRoute = new Hono()
+
+const ROLE_SCOPES: RoleScope[] = ['company', 'department']
+const MAX_ROLE_NAME_LENGTH = 50
+
+interface RoleInput {
+  name: string
+  description: string | null
+  capabilities: Capability[]
+  scope: RoleScope
+}
+
+// Helper: Validate a role body; fields missing from `body` keep `existing`
+function validateRoleInput(body: Record<string, unknown>, existing?: Role): { error: string } | RoleInput {
+  const name = body.name === undefined && existing ? existing.name : body.name
+  if (typeof name !== 'string' || name.trim().length === 0 || name.trim().length > MAX_ROLE_NAME_LENGTH) {
+    return { error: `name must be 1-${MAX_ROLE_NAME_LENGTH} characters` }
+  }
+
+  const description = body.description === undefined ? existing?.description ?? null : body.description
+  if (description !== null && typeof description !== 'string') {
+    return { error: 'description must be a string' }
+  }
+
+  const capabilities = body.capabilities === undefined && existing ? existing.capabilities : body.capabilities
+  if (!Array.isArray(capabilities) || capabilities.some(cap => !CAPABILITIES.includes(cap as Capability))) {
+    return { error: `capabilities must be an array of: ${CAPABILITIES.join(', ')}` }
+  }
+
+  const scope = body.scope === undefined ? existing?.scope ?? 'company' : body.scope
+  if (!ROLE_SCOPES.includes(scope as RoleScope)) {
+    return { error: `scope must be one of: ${ROLE_SCOPES.join(', ')}` }
+  }
+
+  return {
+    name: name.trim(),
+    description: description?.trim() || null,
+    capabilities: [...new Set(capabilities as Capability[])],
+    scope: scope as RoleScope,
+  }
+}
+
+// Helper: Role name must be unique in the company, built-ins included
+function isRoleNameTaken(companyId: string, name: string, exceptId?: string): boolean {
+  return listCompanyRoles(companyId).some(role => role.name === name && role.id !== exceptId)
+}
+
+// GET /api/companies/:companyId/roles - Built-in and custom roles with member counts
+rolesRoute.get('/', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  if (!companyId) {
+    return c.json({ error: 'Company ID is required' }, 400)
+  }
+
+  if (!getMembership(user.id, companyId)) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  const counts = db.prepare(`
+    SELECT role, COUNT(*) as count FROM memberships WHERE company_id = ? GROUP BY role
+  `).all(companyId) as Array<{ role: string; count: number }>
+  const memberCounts = new Map(counts.map(row => [row.role, row.count]))
+
+  return c.json({
+    success: true,
+    data: listCompanyRoles(companyId).map(role => ({ ...role, memberCount: memberCounts.get(role.id) ?? 0 })),
+  })
+})
+
+// POST /api/companies/:companyId/roles - Create a custom role (manage_roles)
+// Body: { name, description?, capabilities: Capability[], scope?: 'company' | 'department' }
+rolesRoute.post('/', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  if (!companyId) {
+    return c.json({ error: 'Company ID is required' }, 400)
+  }
+
+  const membership = getMembership(user.id, companyId)
+  if (!membership || !authorize(membership, 'manage_roles')) {
+    return c.json({ error: 'Your role cannot manage roles' }, 403)
+  }
+
+  const body = await c.req.json().catch(() => ({}))
+  const input = validateRoleInput(body)
+  if ('error' in input) {
+    return c.json({ error: input.error }, 400)
+  }
+
+  if (isRoleNameTaken(companyId, input.name)) {
+    return c.json({ error: 'A role with this name already exists' }, 409)
+  }
+
+  const id = generateId()
+  const timestamp = now()
+
+  db.prepare(`
+    INSERT INTO roles (id, company_id, name, description, capabilities, scope, created_by, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(id, companyId, input.name, input.description, JSON.stringify(input.capabilities), input.scope, user.id, timestamp, timestamp)
+  invalidateRoleCache()
+
+  recordAuditEvent({
+    companyId,
+    actorId: user.id,
+    action: 'role.create',
+    targetType: 'role',
+    targetId: id,
+    details: { ...input },
+  })
+
+  const created = db.prepare('SELECT * FROM roles WHERE id = ?').get(id) as Record<string, unknown>
+
+  return c.json({
+    success: true,
+    data: { ...toRole(created), memberCount: 0 },
+  }, 201)
+})
+
+// PUT /api/companies/:companyId/roles/:roleId - Update a custom role (manage_roles)
+rolesRoute.put('/:roleId', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  if (!companyId) {
+    return c.json({ error: 'Company ID is required' }, 400)
+  }
+
+  const membership = getMembership(user.id, companyId)
+  if (!membership || !authorize(membership, 'manage_roles')) {
+    return c.json({ error: 'Your role cannot manage roles' }, 403)
+  }
+
+  const roleId = c.req.param('roleId')
+  if (BUILTIN_ROLES.some(role => role.id === roleId)) {
+    return c.json({ error: 'Built-in roles cannot be changed' }, 400)
+  }
+
+  const row = db.prepare(`
+    SELECT * FROM roles WHERE id = ? AND company_id = ?
+  `).get(roleId, companyId) as Record<string, unknown> | undefined
+
+  if (!row) {
+    return c.json({ error: 'Role not found' }, 404)
+  }
+
+  const existing = toRole(row)
+  const body = await c.req.json().catch(() => ({}))
+  const input = validateRoleInput(body, existing)
+  if ('error' in input) {
+    return c.json({ error: input.error }, 400)
+  }
+
+  if (isRoleNameTaken(companyId, input.name, roleId)) {
+    return c.json({ error: 'A role with this name already exists' }, 409)
+  }
+
+  // Members of a department-scoped role need a department; switching the
+  // scope of a role in use would leave them without one
+  const memberCount = (db.prepare(`
+    SELECT COUNT(*) as count FROM memberships WHERE company_id = ? AND role = ?
+  `).get(companyId, roleId) as { count: number }).count
+  if (input.scope !== existing.scope && memberCount > 0) {
+    return c.json({ error: 'Cannot change the scope of a role that is assigned to members' }, 409)
+  }
+
+  db.prepare(`
+    UPDATE roles SET name = ?, description = ?, capabilities = ?, scope = ?, updated_at = ? WHERE id = ?
+  `).run(input.name, input.description, JSON.stringify(input.capabilities), input.scope, now(), roleId)
+  invalidateRoleCache()
+
+  recordAuditEvent({
+    companyId,
+    actorId: user.id,
+    action: 'role.update',
+    targetType: 'role',
+    targetId: roleId,
+    details: {
+      name: input.name,
+      from: { capabilities: existing.capabilities, scope: existing.scope },
+      to: { capabilities: input.capabilities, scope: input.scope },
+    },
+  })
+
+  const updated = db.prepare('SELECT * FROM roles WHERE id = ?').get(roleId) as Record<string, unknown>
+
+  return c.json({
+    success: true,
+    data: { ...toRole(updated), memberCount },
+  })
+})
+
+// DELETE /api/companies/:companyId/roles/:roleId - Delete an unused custom role (manage_roles)
+rolesRoute.delete('/:roleId', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  if (!companyId) {
+    return c.json({ error: 'Company ID is required' }, 400)
+  }
+
+  const membership = getMembership(user.id, companyId)
+  if (!membership || !authorize(membership, 'manage_roles')) {
+    return c.json({ error: 'Your role cannot manage roles' }, 403)
+  }
+
+  const roleId = c.req.param('roleId')
+  if (BUILTIN_ROLES.some(role => role.id === roleId)) {
+    return c.json({ error: 'Built-in roles cannot be deleted' }, 400)
+  }
+
+  const existing = db.prepare(`
+    SELECT name FROM roles WHERE id = ? AND company_id = ?
+  `).get(roleId, companyId) as { name: string } | undefined
+
+  if (!existing) {
+    return c.json({ error: 'Role not found' }, 404)
+  }
+
+  const inUse = db.prepare(`
+    SELECT 1 FROM memberships WHERE company_id = ? AND role = ? LIMIT 1
+  `).get(companyId, roleId)
+  if (inUse) {
+    return c.json({ error: 'Reassign the members of this role before deleting it' }, 409)
+  }
+
+  db.prepare('DELETE FROM roles WHERE id = ?').run(roleId)
+  invalidateRoleCache()
+
+  recordAuditEvent({
+    companyId,
+    actorId: user.id,
+    action: 'role.delete',
+    targetType: 'role',
+    targetId: roleId,
+    details: { name: existing.name },
+  })
+
+  return c.json({
+    success: true,
+    message: 'Role deleted',
+  })
+})
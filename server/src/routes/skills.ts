@@ -0,0 +1,288 @@
+import { Hono } from 'hono'
+import { db, now } from '../db'
+import { getUserFromRequest } from '../lib/auth'
+import { loadPermissionRules, normalizePermissionPath, resolvePathAccess } from '../lib/permissions'
+import { indexCompanySkills } from '../lib/skill-index'
+
+export const skillsRoute = new Hono()
+
+const MAX_QUERY_TERMS = 10
+const MAX_USAGE_BATCH = 500
+
+const USAGE_SOURCES = ['slash', 'skill']
+const USAGE_OUTCOMES = ['success', 'error']
+const SKILL_DIR_PATTERN = /^(?:(.+)\/)?\.claude\/skills\/[^/]+$/
+
+interface UsageEventInput {
+  id: string
+  skillPath: string
+  source: string
+  durationMs: number
+  toolCalls: number
+  outcome: string
+  occurredAt: string
+}
+
+// Helper: Validate one reported usage event; returns the error message or the
+// normalized skillPath/occurredAt
+function validateUsageEvent(event: unknown): { error: string } | { skillPath: string; occurredAt: string } {
+  if (!event || typeof event !== 'object') return { error: 'Each event must be an object' }
+  const e = event as Partial<UsageEventInput>
+
+  if (typeof e.id !== 'string' || e.id.length === 0 || e.id.length > 64) {
+    return { error: 'id must be a string of at most 64 characters' }
+  }
+  const skillPath = typeof e.skillPath === 'string' ? normalizePermissionPath(e.skillPath) : null
+  if (!skillPath || !SKILL_DIR_PATTERN.test(skillPath)) {
+    return { error: 'skillPath must be a .claude/skills/<name> directory' }
+  }
+  if (!USAGE_SOURCES.includes(e.source as string)) {
+    return { error: `source must be one of: ${USAGE_SOURCES.join(', ')}` }
+  }
+  if (!USAGE_OUTCOMES.includes(e.outcome as string)) {
+    return { error: `outcome must be one of: ${USAGE_OUTCOMES.join(', ')}` }
+  }
+  if (!Number.isInteger(e.durationMs) || e.durationMs! < 0 || !Number.isInteger(e.toolCalls) || e.toolCalls! < 0) {
+    return { error: 'durationMs and toolCalls must be non-negative integers' }
+  }
+  const occurredAt = typeof e.occurredAt === 'string' ? new Date(e.occurredAt) : null
+  if (!occurredAt || isNaN(occurredAt.getTime())) {
+    return { error: 'occurredAt must be an ISO 8601 date' }
+  }
+
+  return { skillPath, occurredAt: occurredAt.toISOString() }
+}
+
+// Helper: First day of the current month (UTC), the default analytics window
+function startOfMonth(): string {
+  const date = new Date()
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)).toISOString()
+}
+
+// Helper: Convert a skills row to the API shape (SKILL.md body is only used for search)
+function toSkill(row: Record<string, unknown>, departmentName: string | null) {
+  return {
+    path: row.path as string,
+    folder: row.folder as string,
+    departmentName,
+    name: row.name as string,
+    description: row.description as string,
+    status: (row.status as string | null) ?? null,
+    isNurturing: row.status === 'nurturing',
+    files: JSON.parse(row.files as string),
+  }
+}
+
+// GET /api/companies/:companyId/skills - Skill catalog from the company repo
+// Query: q (space-separated terms, all must match name/description/SKILL.md),
+// folder (top-level folder, "" for company-wide skills).
+// Skills in folders the caller can't read are omitted.
+skillsRoute.get('/', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  if (!companyId) {
+    return c.json({ error: 'Company ID is required' }, 400)
+  }
+
+  const membership = db.prepare(`
+    SELECT role FROM memberships WHERE user_id = ? AND company_id = ?
+  `).get(user.id, companyId) as { role: string } | undefined
+
+  if (!membership) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  // Normally done after each push; catches up if that was missed
+  try {
+    indexCompanySkills(companyId)
+  } catch (error) {
+    console.error(`[skills] Failed to index skills for ${companyId}:`, error)
+  }
+
+  const terms = (c.req.query('q') ?? '').trim().split(/\s+/).filter(Boolean)
+  if (terms.length > MAX_QUERY_TERMS) {
+    return c.json({ error: `q must have at most ${MAX_QUERY_TERMS} terms` }, 400)
+  }
+
+  const conditions = ['company_id = ?']
+  const values: unknown[] = [companyId]
+
+  const folder = c.req.query('folder')
+  if (folder !== undefined) {
+    conditions.push('folder = ?')
+    values.push(folder)
+  }
+
+  for (const term of terms) {
+    const pattern = `%${term.replace(/[\\%_]/g, '\\$&')}%`
+    conditions.push(`(name LIKE ? ESCAPE '\\' OR description LIKE ? ESCAPE '\\' OR content LIKE ? ESCAPE '\\')`)
+    values.push(pattern, pattern, pattern)
+  }
+
+  // Name hits first, then description hits, then body-only hits
+  const nameHit = terms.map(() => `name LIKE ? ESCAPE '\\'`).join(' AND ') || '1'
+  const descriptionHit = terms.map(() => `description LIKE ? ESCAPE '\\'`).join(' AND ') || '1'
+  const rankValues = terms.map(term => `%${term.replace(/[\\%_]/g, '\\$&')}%`)
+
+  const rows = db.prepare(`
+    SELECT * FROM skills WHERE ${conditions.join(' AND ')}
+    ORDER BY (${nameHit}) DESC, (${descriptionHit}) DESC, folder, name
+  `).all(...values, ...rankValues, ...rankValues) as Record<string, unknown>[]
+
+  const rules = loadPermissionRules(companyId)
+  const departments = db.prepare(`
+    SELECT folder, name FROM departments WHERE company_id = ?
+  `).all(companyId) as { folder: string; name: string }[]
+  const departmentNames = new Map(departments.map(d => [d.folder, d.name]))
+
+  const skills = rows
+    .filter(row => resolvePathAccess(rules, user.id, membership.role, row.path as string).canRead)
+    .map(row => toSkill(row, departmentNames.get(row.folder as string) ?? null))
+
+  return c.json({ success: true, data: skills })
+})
+
+// POST /api/companies/:companyId/skills/usage - Report skill usage (batch)
+// Body: { events: [{ id, skillPath, source, durationMs, toolCalls, outcome, occurredAt }] }
+// Events already received (same id) are ignored, so clients can safely retry.
+skillsRoute.post('/usage', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  if (!companyId) {
+    return c.json({ error: 'Company ID is required' }, 400)
+  }
+
+  const membership = db.prepare(`
+    SELECT role FROM memberships WHERE user_id = ? AND company_id = ?
+  `).get(user.id, companyId) as { role: string } | undefined
+
+  if (!membership) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  const body = await c.req.json().catch(() => null) as { events?: unknown } | null
+  if (!body || !Array.isArray(body.events) || body.events.length === 0) {
+    return c.json({ error: 'events must be a non-empty array' }, 400)
+  }
+  if (body.events.length > MAX_USAGE_BATCH) {
+    return c.json({ error: `At most ${MAX_USAGE_BATCH} events per request` }, 400)
+  }
+
+  const rows: Array<UsageEventInput> = []
+  for (const event of body.events) {
+    const result = validateUsageEvent(event)
+    if ('error' in result) {
+      return c.json({ error: result.error }, 400)
+    }
+    rows.push({ ...(event as UsageEventInput), ...result })
+  }
+
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO skill_usage_events
+      (id, company_id, user_id, skill_path, folder, source, duration_ms, tool_calls, outcome, occurred_at, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+  const timestamp = now()
+  let accepted = 0
+  db.transaction(() => {
+    for (const row of rows) {
+      const folder = row.skillPath.startsWith('.claude/') ? '' : row.skillPath.split('/')[0]
+      accepted += insert.run(
+        row.id, companyId, user.id, row.skillPath, folder, row.source,
+        row.durationMs, row.toolCalls, row.outcome, row.occurredAt, timestamp,
+      ).changes
+    }
+  })()
+
+  return c.json({ success: true, data: { accepted } })
+})
+
+// GET /api/companies/:companyId/skills/usage - Usage per skill and per department
+// Query: from/to (ISO 8601, default: this month). Skills and departments the
+// caller can't read are omitted.
+skillsRoute.get('/usage', async (c) => {
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const companyId = c.req.param('companyId')
+  if (!companyId) {
+    return c.json({ error: 'Company ID is required' }, 400)
+  }
+
+  const membership = db.prepare(`
+    SELECT role FROM memberships WHERE user_id = ? AND company_id = ?
+  `).get(user.id, companyId) as { role: string } | undefined
+
+  if (!membership) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  const from = c.req.query('from') ? new Date(c.req.query('from')!) : new Date(startOfMonth())
+  const to = c.req.query('to') ? new Date(c.req.query('to')!) : new Date()
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return c.json({ error: 'from and to must be ISO 8601 dates' }, 400)
+  }
+  const range = [companyId, from.toISOString(), to.toISOString()]
+
+  const skillRows = db.prepare(`
+    SELECT skill_path, folder,
+      COUNT(*) as uses,
+      COUNT(DISTINCT user_id) as users,
+      SUM(outcome = 'error') as errors,
+      AVG(duration_ms) as avg_duration_ms,
+      AVG(tool_calls) as avg_tool_calls,
+      MAX(occurred_at) as last_used_at
+    FROM skill_usage_events
+    WHERE company_id = ? AND occurred_at >= ? AND occurred_at <= ?
+    GROUP BY skill_path
+    ORDER BY uses DESC, skill_path
+  `).all(...range) as Array<Record<string, unknown>>
+
+  const departmentRows = db.prepare(`
+    SELECT folder, COUNT(*) as uses, COUNT(DISTINCT user_id) as users, COUNT(DISTINCT skill_path) as skills
+    FROM skill_usage_events
+    WHERE company_id = ? AND occurred_at >= ? AND occurred_at <= ?
+    GROUP BY folder
+    ORDER BY uses DESC, folder
+  `).all(...range) as Array<{ folder: string; uses: number; users: number; skills: number }>
+
+  const rules = loadPermissionRules(companyId)
+  const canRead = (path: string) => path === '' || resolvePathAccess(rules, user.id, membership.role, path).canRead
+  const departments = db.prepare(`
+    SELECT folder, name FROM departments WHERE company_id = ?
+  `).all(companyId) as { folder: string; name: string }[]
+  const departmentNames = new Map(departments.map(d => [d.folder, d.name]))
+
+  return c.json({
+    success: true,
+    data: {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      skills: skillRows
+        .filter(row => canRead(row.skill_path as string))
+        .map(row => ({
+          skillPath: row.skill_path as string,
+          folder: row.folder as string,
+          uses: row.uses as number,
+          users: row.users as number,
+          errors: row.errors as number,
+          avgDurationMs: Math.round(row.avg_duration_ms as number),
+          avgToolCalls: Math.round((row.avg_tool_calls as number) * 10) / 10,
+          lastUsedAt: row.last_used_at as string,
+        })),
+      departments: departmentRows
+        .filter(row => canRead(row.folder))
+        .map(row => ({ ...row, departmentName: departmentNames.get(row.folder) ?? null })),
+    },
+  })
+})
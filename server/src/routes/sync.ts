@@ -1,43 +1,341 @@
 import { Hono } from 'hono'
+import { execFileSync, spawn } from 'child_process'
+import { existsSync, rmSync } from 'fs'
+import { join, posix } from 'path'
+import { tmpdir } from 'os'
+import { Readable } from 'stream'
+import { getUserFromRequest } from '../lib/auth'
+import { recordAuditEvent } from '../lib/audit'
+import { notifyDepartmentMembers } from '../lib/notifications'
+import { authorize, getMembership } from '../lib/roles'
+import { scheduleSkillIndex } from '../lib/skill-index'
+import {
+  loadPermissionRules,
+  normalizePermissionPath,
+  resolvePathAccess,
+  writeHookPermissionsFile,
+} from '../lib/permissions'
+import type { FileMetadata, SyncResponse } from '../../shared/types'
+
+// REST access to the company repo for clients that don't run Git (scripts,
+// mobile). Everything reads from and writes to the main branch of the bare
+// repo directly; the desktop app's Git history stays the source of truth.
 
 export const syncRoute = new Hono()
 
-// Request sync - returns list of files user has permission to access
+const DATA_DIR = process.env.DATA_DIR || join(process.cwd(), 'data')
+const REPOS_DIR = process.env.REPOS_DIR || join(DATA_DIR, 'repos')
+
+// Uploads are buffered in memory; larger files belong in a Git push
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024
+
+function getBareRepoPath(companyId: string): string {
+  const sanitizedId = companyId.replace(/[^a-zA-Z0-9_-]/g, '')
+  return join(REPOS_DIR, `${sanitizedId}.git`)
+}
+
+function git(repoPath: string, args: string[], options: { input?: string | Buffer; env?: NodeJS.ProcessEnv } = {}): string {
+  return execFileSync('git', ['-C', repoPath, ...args], {
+    stdio: 'pipe',
+    input: options.input,
+    env: options.env ?? process.env,
+    maxBuffer: 256 * 1024 * 1024,
+  }).toString()
+}
+
+function resolveMain(repoPath: string): string | null {
+  try {
+    return git(repoPath, ['rev-parse', '--verify', '--quiet', 'refs/heads/main^{commit}']).trim() || null
+  } catch {
+    return null
+  }
+}
+
+// Blob id of a file on main, or null if it doesn't exist
+function resolveBlob(repoPath: string, path: string): string | null {
+  try {
+    return git(repoPath, ['rev-parse', '--verify', '--quiet', `refs/heads/main:${path}`]).trim() || null
+  } catch {
+    return null
+  }
+}
+
+function toFileMetadata(path: string, hash: string, size?: number): FileMetadata {
+  return { path, name: posix.basename(path), isDirectory: false, size, hash }
+}
+
+// Every file on main: "<mode> blob <id> <size>\t<path>"
+function listAllFiles(repoPath: string, head: string): FileMetadata[] {
+  const files: FileMetadata[] = []
+  for (const entry of git(repoPath, ['ls-tree', '-r', '-l', '-z', head]).split('\0')) {
+    const match = entry.match(/^\d+ blob ([0-9a-f]+) +(\d+)\t(.*)$/s)
+    if (match) files.push(toFileMetadata(match[3], match[1], Number(match[2])))
+  }
+  return files
+}
+
+// Files changed between two commits: ":<old mode> <new mode> <old id> <new id> <status>\0<path>\0"
+function diffFiles(repoPath: string, base: string, head: string): { files: FileMetadata[]; deletedPaths: string[] } {
+  const files: FileMetadata[] = []
+  const deletedPaths: string[] = []
+  const fields = git(repoPath, ['diff-tree', '-r', '-z', '--no-renames', base, head]).split('\0')
+
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    const match = fields[i].match(/^:\d+ (\d+) [0-9a-f]+ ([0-9a-f]+) (\w)/)
+    if (!match) continue
+    const [, newMode, newId, status] = match
+    const path = fields[i + 1]
+    if (status === 'D') deletedPaths.push(path)
+    else if (newMode !== '160000') files.push(toFileMetadata(path, newId))
+  }
+
+  if (files.length > 0) {
+    // Sizes in one batch instead of one process per file
+    const sizes = git(repoPath, ['cat-file', '--batch-check=%(objectsize)'], {
+      input: files.map(f => f.hash).join('\n') + '\n',
+    }).trim().split('\n')
+    files.forEach((file, i) => { file.size = Number(sizes[i]) })
+  }
+
+  return { files, deletedPaths }
+}
+
+// Whether `id` names a commit in the repo
+function isCommit(repoPath: string, id: string): boolean {
+  try {
+    return git(repoPath, ['cat-file', '-t', id]).trim() === 'commit'
+  } catch {
+    return false
+  }
+}
+
+// POST /api/sync - Files changed since the sync that returned `cursor` (all
+// files without it). The response's cursor is the head of main it describes.
 syncRoute.post('/', async (c) => {
-  const body = await c.req.json()
-  const { companyId, lastSyncAt } = body
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
 
-  // TODO: Implement with permission filtering
-  // 1. Get user's permissions for the company
-  // 2. Filter files based on permissions
-  // 3. Return only files user has access to
+  const body = await c.req.json().catch(() => ({}))
+  const { companyId, cursor } = body
 
-  return c.json({
-    success: true,
-    data: {
-      files: [],
-      deletedPaths: [],
-      syncedAt: new Date(),
-    },
-  })
+  if (!companyId || typeof companyId !== 'string') {
+    return c.json({ error: 'companyId is required' }, 400)
+  }
+
+  if (cursor !== undefined && cursor !== null && (typeof cursor !== 'string' || !/^[0-9a-f]{40,64}$/.test(cursor))) {
+    return c.json({ error: 'cursor must be a value returned by a previous sync' }, 400)
+  }
+
+  const membership = getMembership(user.id, companyId)
+  if (!membership) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  const syncedAt = new Date()
+  const repoPath = getBareRepoPath(companyId)
+  const head = existsSync(repoPath) ? resolveMain(repoPath) : null
+  if (!head) {
+    const empty: SyncResponse = { files: [], deletedPaths: [], syncedAt, cursor: null }
+    return c.json({ success: true, data: empty })
+  }
+
+  // The cursor is the head the client last saw, so the delta covers exactly
+  // what reached main since, whatever the commit dates say. A cursor the repo
+  // does not have (e.g. from another company) cannot be diffed against.
+  if (cursor && !isCommit(repoPath, cursor)) {
+    return c.json({ error: 'Unknown sync cursor, sync again without it' }, 409)
+  }
+
+  const delta = cursor
+    ? diffFiles(repoPath, cursor, head)
+    : { files: listAllFiles(repoPath, head), deletedPaths: [] }
+
+  // Hidden folders: neither their files nor their deletions are reported
+  const rules = loadPermissionRules(companyId)
+  const canRead = (path: string) => resolvePathAccess(rules, user.id, membership.role, path).canRead
+
+  const data: SyncResponse = {
+    files: delta.files.filter(file => canRead(file.path)),
+    deletedPaths: delta.deletedPaths.filter(canRead),
+    syncedAt,
+    cursor: head,
+  }
+
+  return c.json({ success: true, data })
 })
 
-// Upload file
+// POST /api/sync/upload - Create or replace one file (multipart form:
+// companyId, path, file, optional message and baseHash). Commits to main as
+// the uploading user.
 syncRoute.post('/upload', async (c) => {
-  // TODO: Implement file upload with permission check
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  const form = await c.req.parseBody()
+  const companyId = typeof form.companyId === 'string' ? form.companyId : ''
+  const rawPath = typeof form.path === 'string' ? form.path : ''
+  const file = form.file
+  const message = typeof form.message === 'string' && form.message.trim() ? form.message.trim() : null
+  const baseHash = typeof form.baseHash === 'string' ? form.baseHash : null
+
+  if (!companyId || !rawPath || !(file instanceof File)) {
+    return c.json({ error: 'companyId, path and file are required' }, 400)
+  }
+
+  const path = normalizePermissionPath(rawPath)
+  if (!path) {
+    return c.json({ error: 'Invalid path' }, 400)
+  }
+
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return c.json({ error: `File exceeds ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` }, 413)
+  }
+
+  const membership = getMembership(user.id, companyId)
+  if (!membership) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  if (!authorize(membership, 'push')) {
+    return c.json({ error: 'Your role cannot push changes' }, 403)
+  }
+
+  const rules = loadPermissionRules(companyId)
+  if (!resolvePathAccess(rules, user.id, membership.role, path).canWrite) {
+    return c.json({ error: 'No write permission for this folder' }, 403)
+  }
+
+  const repoPath = getBareRepoPath(companyId)
+  const head = existsSync(repoPath) ? resolveMain(repoPath) : null
+  if (!head) {
+    return c.json({ error: 'Repository not initialized' }, 404)
+  }
+
+  // Optimistic concurrency: the client says which version it edited
+  // (empty string = expects a new file)
+  const currentHash = resolveBlob(repoPath, path)
+  if (baseHash !== null && baseHash !== (currentHash ?? '')) {
+    return c.json({ error: 'File was changed on the server', data: { hash: currentHash } }, 409)
+  }
+
+  const content = Buffer.from(await file.arrayBuffer())
+  const indexFile = join(tmpdir(), `acb-sync-${process.pid}-${Date.now()}.index`)
+  const indexEnv = { ...process.env, GIT_INDEX_FILE: indexFile }
+
+  let commit: string
+  let blob: string
+  try {
+    blob = git(repoPath, ['hash-object', '-w', '--stdin'], { input: content }).trim()
+    if (blob === currentHash) {
+      return c.json({ success: true, data: { ...toFileMetadata(path, blob, content.length), commit: head } })
+    }
+
+    git(repoPath, ['read-tree', head], { env: indexEnv })
+    git(repoPath, ['update-index', '--add', '--cacheinfo', `100644,${blob},${path}`], { env: indexEnv })
+    const tree = git(repoPath, ['write-tree'], { env: indexEnv }).trim()
+    commit = git(repoPath, ['commit-tree', tree, '-p', head, '-F', '-'], {
+      input: `${message ?? `Upload ${path}`}\n`,
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: user.name || user.email,
+        GIT_AUTHOR_EMAIL: user.email,
+        GIT_COMMITTER_NAME: user.name || user.email,
+        GIT_COMMITTER_EMAIL: user.email,
+      },
+    }).trim()
+  } catch (error) {
+    console.error('Failed to create upload commit:', error)
+    return c.json({ error: 'Failed to store file' }, 500)
+  } finally {
+    rmSync(indexFile, { force: true })
+  }
+
+  // Same checks as a Git push (secrets, Windows paths, permissions)
+  const hookPath = join(repoPath, 'hooks', 'pre-receive')
+  if (existsSync(hookPath)) {
+    try {
+      writeHookPermissionsFile(companyId, repoPath)
+      execFileSync(hookPath, [], {
+        cwd: repoPath,
+        stdio: 'pipe',
+        input: `${head} ${commit} refs/heads/main\n`,
+        env: { ...process.env, GIT_DIR: repoPath, REMOTE_USER: user.email },
+      })
+    } catch (error) {
+      const stderr = String((error as { stderr?: Buffer }).stderr ?? '')
+      return c.json({ error: 'Upload rejected by repository checks', details: stderr.trim() }, 422)
+    }
+  }
+
+  try {
+    git(repoPath, ['update-ref', 'refs/heads/main', commit, head])
+  } catch {
+    // Someone pushed in the meantime; the client retries against the new head
+    return c.json({ error: 'Repository changed during upload, please retry' }, 409)
+  }
+
+  recordAuditEvent({
+    companyId,
+    actorId: user.id,
+    action: 'file.upload',
+    targetType: 'file',
+    targetId: path,
+    details: { commit, hash: blob, size: content.length },
+  })
+  notifyDepartmentMembers({ companyId, actorId: user.id, kind: 'file.upload', paths: [path] })
+  if (path.includes('.claude/skills/')) scheduleSkillIndex(companyId)
+
   return c.json({
     success: true,
-    data: { message: 'Upload endpoint - not implemented yet' },
-  })
+    data: { ...toFileMetadata(path, blob, content.length), commit },
+  }, 201)
 })
 
-// Download file
+// GET /api/sync/download/:path?companyId= - Stream one file from main
+// (path is URL-encoded, including its slashes)
 syncRoute.get('/download/:path', async (c) => {
-  const path = c.req.param('path')
+  const user = await getUserFromRequest(c.req.raw)
+  if (!user) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
 
-  // TODO: Implement file download with permission check
-  return c.json({
-    success: true,
-    data: { path, message: 'Download endpoint - not implemented yet' },
+  const companyId = c.req.query('companyId')
+  const path = normalizePermissionPath(c.req.param('path'))
+  if (!companyId) {
+    return c.json({ error: 'companyId is required' }, 400)
+  }
+  if (!path) {
+    return c.json({ error: 'Invalid path' }, 400)
+  }
+
+  const membership = getMembership(user.id, companyId)
+  if (!membership) {
+    return c.json({ error: 'Company not found or access denied' }, 404)
+  }
+
+  // Hidden files answer exactly like missing ones
+  const rules = loadPermissionRules(companyId)
+  const repoPath = getBareRepoPath(companyId)
+  const blob = resolvePathAccess(rules, user.id, membership.role, path).canRead && existsSync(repoPath)
+    ? resolveBlob(repoPath, path)
+    : null
+  if (!blob || git(repoPath, ['cat-file', '-t', blob]).trim() !== 'blob') {
+    return c.json({ error: 'File not found' }, 404)
+  }
+
+  const size = git(repoPath, ['cat-file', '-s', blob]).trim()
+  const cat = spawn('git', ['-C', repoPath, 'cat-file', 'blob', blob], { stdio: ['ignore', 'pipe', 'ignore'] })
+
+  return new Response(Readable.toWeb(cat.stdout) as ReadableStream<Uint8Array>, {
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': size,
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(posix.basename(path))}`,
+      'X-File-Hash': blob,
+    },
   })
 })
@@ -1,11 +1,18 @@
 #!/bin/bash
 #
-# pre-receive hook: シークレット検知 + gitlink(サブモジュール参照)検知
+# pre-receive hook: シークレット検知 + gitlink(サブモジュール参照)検知 + フォルダ書き込み権限
 # - APIキー・秘密鍵等を検知し、ブロックする
 # - 新規に追加された gitlink (mode 160000) をブロックする。
 #   入れ子の .git をうっかりコミットすると他メンバーが空フォルダを掴むため。
 #   既存の gitlink には触れない（newmode 160000 の「追加/変更」のみ対象）ので、
 #   既に gitlink を含むリポジトリも通常の push は引き続き可能。
+# - 書き込み権限のないフォルダへの変更をブロックする。
+#   プッシュしたユーザーは REMOTE_USER（メールアドレス）で識別し、権限は
+#   サーバーが push 直前に書き出す acb-permissions ファイルから読む。
+#   REMOTE_USER が無い push（サーバー内部の操作）は対象外。
+# - 閲覧用リポジトリ（読み取り分離）では、前回の同期の後に他のメンバーが
+#   会社のリポジトリで変更したファイルへの変更をブロックする。
+#   同期の基点は acb-view-base ファイルから読む（server/src/lib/repo-views.ts）。
 #
 
 ZERO_SHA="0000000000000000000000000000000000000000"
@@ -30,6 +37,13 @@ found_gitlinks=0
 declare -a detected_gitlinks=()
 found_winpaths=0
 declare -a detected_winpaths=()
+found_denied=0
+declare -a detected_denied=()
+found_outdated=0
+declare -a detected_outdated=()
+
+PERMISSIONS_FILE="$(git rev-parse --git-dir 2>/dev/null)/acb-permissions"
+VIEW_BASE_FILE="$(git rev-parse --git-dir 2>/dev/null)/acb-view-base"
 
 while read old_sha new_sha refname; do
   # ブランチ削除は無視
@@ -86,6 +100,92 @@ while read old_sha new_sha refname; do
     done <<< "$new_gitlinks"
   fi
 
+  # --- プッシュされたコミットで変更されたパス（下の2つのチェックで使う） ---
+  # 差分全体ではなくプッシュされたコミットを1つずつ見る: 途中のコミットで変更して
+  # 後のコミットで元に戻しても、その内容は履歴に残るため対象にする。
+  # 新規ブランチは既存のどのブランチにも含まれないコミットが対象。
+  changed_paths=""
+  if { [ -n "$REMOTE_USER" ] && [ -f "$PERMISSIONS_FILE" ]; } || [ -f "$VIEW_BASE_FILE" ]; then
+    if [ "$old_sha" = "$ZERO_SHA" ]; then
+      pushed_commits=$(git rev-list "$new_sha" --not --all 2>/dev/null)
+    else
+      pushed_commits=$(git rev-list "$old_sha..$new_sha" 2>/dev/null)
+    fi
+    # マージコミットは第1親との差分を見る: 古い既存コミットをマージして
+    # 制限フォルダのファイルをその版に戻す変更も対象にする
+    changed_paths=$(for commit in $pushed_commits; do
+      git -c core.quotePath=false diff-tree -r -m --first-parent --root --name-only --no-commit-id "$commit" 2>/dev/null
+    done | sort -u)
+  fi
+
+  # --- フォルダ書き込み権限チェック ---
+  # 変更されたパスごとに、そのパスを含む最も深い「権限設定済みフォルダ」を探し、
+  # プッシュしたユーザーがそれ以上に深いルールで書き込み権限を持つか確認する
+  # （server/src/lib/permissions.ts の resolvePathAccess と同じ判定）。
+  if [ -n "$REMOTE_USER" ] && [ -f "$PERMISSIONS_FILE" ]; then
+    if [ -n "$changed_paths" ]; then
+      denied_paths=$(printf '%s\n' "$changed_paths" | awk -F'\t' -v user="$REMOTE_USER" '
+        FNR == NR {
+          if ($0 ~ /^#/ || NF < 3) next
+          if ($3 == "*") { if ($1 == user) privileged = 1; next }
+          n++; rule_path[n] = $3; rule_user[n] = $1; rule_access[n] = $2
+          next
+        }
+        privileged || $0 == "" { next }
+        {
+          restricted = -1; mine = -1; access = ""
+          for (i = 1; i <= n; i++) {
+            if ($0 != rule_path[i] && index($0, rule_path[i] "/") != 1) continue
+            depth = split(rule_path[i], parts, "/")
+            if (depth > restricted) restricted = depth
+            if (rule_user[i] == user && depth > mine) { mine = depth; access = rule_access[i] }
+          }
+          if (restricted == -1) next
+          if (mine < restricted || substr(access, 2, 1) != "w") print $0
+        }' "$PERMISSIONS_FILE" -)
+      if [ -n "$denied_paths" ]; then
+        while IFS= read -r dp; do
+          [ -z "$dp" ] && continue
+          already=0
+          for existing in "${detected_denied[@]}"; do
+            if [ "$existing" = "  - $dp" ]; then already=1; break; fi
+          done
+          if [ "$already" -eq 0 ]; then
+            detected_denied+=("  - $dp")
+            found_denied=1
+          fi
+        done <<< "$denied_paths"
+      fi
+    fi
+  fi
+
+  # --- 他のメンバーの変更との競合チェック（閲覧用リポジトリ） ---
+  # プッシュは会社のリポジトリに再適用される。前回の同期の後に他のメンバーが
+  # 変更したファイルを含むと、その変更を上書きしてしまうため拒否する。
+  # 再同期すればクライアントが先に取り込んでからプッシュし直す。
+  if [ -f "$VIEW_BASE_FILE" ] && [ -n "$changed_paths" ]; then
+    IFS=$'\t' read -r view_base company_repo < "$VIEW_BASE_FILE"
+    # 受信中のオブジェクト用の環境変数は会社のリポジトリには当てはまらないので外す
+    upstream_paths=$(env -u GIT_DIR -u GIT_OBJECT_DIRECTORY -u GIT_ALTERNATE_OBJECT_DIRECTORIES -u GIT_QUARANTINE_PATH \
+      git --git-dir="$company_repo" -c core.quotePath=false diff-tree -r --name-only --no-commit-id "$view_base" refs/heads/main 2>/dev/null)
+    if [ -n "$upstream_paths" ]; then
+      outdated_paths=$(printf '%s\n' "$changed_paths" | grep -Fx -f <(printf '%s\n' "$upstream_paths"))
+      if [ -n "$outdated_paths" ]; then
+        while IFS= read -r op; do
+          [ -z "$op" ] && continue
+          already=0
+          for existing in "${detected_outdated[@]}"; do
+            if [ "$existing" = "  - $op" ]; then already=1; break; fi
+          done
+          if [ "$already" -eq 0 ]; then
+            detected_outdated+=("  - $op")
+            found_outdated=1
+          fi
+        done <<< "$outdated_paths"
+      fi
+    fi
+  fi
+
   # 初回プッシュ（リポジトリが空）の場合は全ファイルを対象
   if [ "$old_sha" = "$ZERO_SHA" ]; then
     # 新規ブランチ: 全ファイルの内容をスキャン
@@ -224,4 +324,40 @@ if [ "$found_winpaths" -eq 1 ]; then
   rc=1
 fi
 
+if [ "$found_denied" -eq 1 ]; then
+  echo "" >&2
+  echo "========================================" >&2
+  echo "[PERMISSION_DENIED] 書き込み権限のないフォルダへの変更が検出されました" >&2
+  echo "========================================" >&2
+  echo "" >&2
+  echo "以下のファイルは、あなたに書き込み権限がないフォルダにあります:" >&2
+  for entry in "${detected_denied[@]}"; do
+    echo "$entry" >&2
+  done
+  echo "" >&2
+  echo "このプッシュはブロックされました。該当ファイルの変更を元に戻してから" >&2
+  echo "再度同期してください。編集が必要な場合は、会社の管理者に権限を依頼してください。" >&2
+  echo "========================================" >&2
+  echo "" >&2
+  rc=1
+fi
+
+if [ "$found_outdated" -eq 1 ]; then
+  echo "" >&2
+  echo "========================================" >&2
+  echo "[OUTDATED] 他のメンバーが同じファイルを変更しました" >&2
+  echo "========================================" >&2
+  echo "" >&2
+  echo "以下のファイルは、前回の同期の後に他のメンバーが変更しています:" >&2
+  for entry in "${detected_outdated[@]}"; do
+    echo "$entry" >&2
+  done
+  echo "" >&2
+  echo "相手の変更を上書きしないよう、このプッシュはブロックされました。" >&2
+  echo "もう一度同期すると、相手の変更を取り込んでからプッシュし直します。" >&2
+  echo "========================================" >&2
+  echo "" >&2
+  rc=1
+fi
+
 exit $rc
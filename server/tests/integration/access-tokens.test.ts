@@ -0,0 +1,136 @@
+/**
+ * Integration Test: personal access tokens.
+ *
+ * Tokens are shown once, stored hashed, and only grant their scopes until
+ * they expire or are revoked. /api/git-http accepts them as the Basic auth
+ * password.
+ */
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { execFileSync } from 'child_process'
+import { join } from 'path'
+import Database from 'better-sqlite3'
+
+const TEST_COMPANY_ID = 'company-access-tokens'
+
+const USER = { id: 'user-pat', email: 'ci@example.com', name: 'CI', image: null, emailVerified: true }
+
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn(),
+  getUsersByIds: vi.fn().mockReturnValue(new Map()),
+  auth: {
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null) },
+  },
+}))
+
+import { Hono } from 'hono'
+import { db, initDatabase } from '../../src/db'
+import { getUserFromRequest } from '../../src/lib/auth'
+import { hashAccessToken, verifyAccessToken } from '../../src/lib/access-tokens'
+import { configureBareRepo } from '../../src/routes/git'
+import { accessTokensRoute } from '../../src/routes/access-tokens'
+import { gitHttpRoute } from '../../src/routes/git-http'
+
+const app = new Hono()
+app.route('/api/users/me/tokens', accessTokensRoute)
+app.route('/api/git-http', gitHttpRoute)
+
+function jsonReq(method: string, path: string, body?: unknown, headers: Record<string, string> = {}) {
+  const init: RequestInit = { method, headers: { ...headers } }
+  if (body) {
+    init.body = JSON.stringify(body)
+    init.headers = { ...headers, 'Content-Type': 'application/json' }
+  }
+  return app.request(path, init)
+}
+
+async function createToken(body: Record<string, unknown>) {
+  const res = await jsonReq('POST', '/api/users/me/tokens', body)
+  expect(res.status).toBe(201)
+  return (await res.json() as { data: { id: string; token: string; tokenPrefix: string; scopes: string[] } }).data
+}
+
+function gitRefs(token: string, service: string) {
+  const basic = Buffer.from(`ci:${token}`).toString('base64')
+  return app.request(`/api/git-http/${TEST_COMPANY_ID}.git/info/refs?service=${service}`, {
+    headers: { Authorization: `Basic ${basic}` },
+  })
+}
+
+describe('Personal access tokens', () => {
+  beforeAll(() => {
+    initDatabase()
+    const timestamp = new Date().toISOString()
+
+    db.prepare(`
+      INSERT INTO companies (id, name, slug, owner_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(TEST_COMPANY_ID, 'Token Co', 'token-co', USER.id, timestamp, timestamp)
+    db.prepare(`
+      INSERT INTO memberships (id, user_id, company_id, role, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run('m-pat', USER.id, TEST_COMPANY_ID, 'owner', timestamp, timestamp)
+
+    // git-http resolves token owners in auth.sqlite
+    const authDb = new Database(join(process.env.DATA_DIR!, 'auth.sqlite'))
+    authDb.prepare(`
+      INSERT INTO user (id, email, name, emailVerified) VALUES (?, ?, ?, 1)
+    `).run(USER.id, USER.email, USER.name)
+    authDb.close()
+
+    const companyRepo = join(process.env.REPOS_DIR!, `${TEST_COMPANY_ID}.git`)
+    execFileSync('git', ['init', '--bare', '--initial-branch=main', companyRepo], { stdio: 'pipe' })
+    configureBareRepo(companyRepo)
+
+    vi.mocked(getUserFromRequest).mockResolvedValue(USER)
+  })
+
+  it('returns the token once and stores only its hash', async () => {
+    const created = await createToken({ name: 'CI', scopes: ['repo:read'] })
+    expect(created.token).toMatch(/^acb_pat_/)
+    expect(created.token.startsWith(created.tokenPrefix)).toBe(true)
+
+    const row = db.prepare('SELECT token_hash FROM access_tokens WHERE id = ?').get(created.id) as { token_hash: string }
+    expect(row.token_hash).toBe(hashAccessToken(created.token))
+
+    const list = await (await jsonReq('GET', '/api/users/me/tokens')).json() as { data: Array<Record<string, unknown>> }
+    expect(list.data.find(t => t.id === created.id)).not.toHaveProperty('token')
+  })
+
+  it('only grants the scopes of the token and records its use', async () => {
+    const created = await createToken({ name: 'Reader', scopes: ['repo:read', 'api:read'] })
+    expect(verifyAccessToken(created.token, 'api:write')).toBeNull()
+    expect(verifyAccessToken(created.token, 'api:read')).toEqual({ userId: USER.id, tokenId: created.id })
+
+    const row = db.prepare('SELECT last_used_at FROM access_tokens WHERE id = ?').get(created.id) as { last_used_at: string | null }
+    expect(row.last_used_at).not.toBeNull()
+  })
+
+  it('authenticates git-http with the token as Basic auth password', async () => {
+    const reader = await createToken({ name: 'Clone', scopes: ['repo:read'] })
+    expect((await gitRefs(reader.token, 'git-upload-pack')).status).toBe(200)
+    expect((await gitRefs(reader.token, 'git-receive-pack')).status).toBe(401)
+
+    const writer = await createToken({ name: 'Deploy', scopes: ['repo:read', 'repo:write'] })
+    expect((await gitRefs(writer.token, 'git-receive-pack')).status).toBe(200)
+  })
+
+  it('rejects expired and revoked tokens', async () => {
+    const expiring = await createToken({ name: 'Old', scopes: ['repo:read'], expiresInDays: 1 })
+    db.prepare('UPDATE access_tokens SET expires_at = ? WHERE id = ?').run('2000-01-01T00:00:00.000Z', expiring.id)
+    expect((await gitRefs(expiring.token, 'git-upload-pack')).status).toBe(401)
+
+    const revoked = await createToken({ name: 'Revoked', scopes: ['repo:read'] })
+    expect((await jsonReq('DELETE', `/api/users/me/tokens/${revoked.id}`)).status).toBe(200)
+    expect((await gitRefs(revoked.token, 'git-upload-pack')).status).toBe(401)
+    expect((await jsonReq('DELETE', `/api/users/me/tokens/${revoked.id}`)).status).toBe(404)
+  })
+
+  it('does not let a token manage tokens', async () => {
+    const created = await createToken({ name: 'Script', scopes: ['api:read', 'api:write'] })
+    const res = await jsonReq('POST', '/api/users/me/tokens', { name: 'Copy', scopes: ['api:write'] }, {
+      Authorization: `Bearer ${created.token}`,
+    })
+    expect(res.status).toBe(403)
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * Integration Test: Company audit log.
+ *
+ * Changes made through the API are recorded in audit_events, and owners can
+ * page through and filter them.
+ */
+import { describe, it, expect, vi, beforeAll } from 'vitest'
+
+const TEST_COMPANY_ID = 'company-audit-test'
+
+// Mock auth — authenticated as owner
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn().mockResolvedValue({
+    id: 'user-owner-audit',
+    email: 'owner@example.com',
+    name: 'Owner User',
+    image: null,
+    emailVerified: true,
+  }),
+  getUsersByIds: vi.fn().mockReturnValue(new Map([
+    ['user-owner-audit', { email: 'owner@example.com', name: 'Owner User' }],
+  ])),
+  auth: {
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null) },
+  },
+}))
+
+import { Hono } from 'hono'
+import { db, initDatabase } from '../../src/db'
+import { companiesRoute } from '../../src/routes/companies'
+import { permissionsRoute } from '../../src/routes/permissions'
+import { auditRoute } from '../../src/routes/audit'
+
+const app = new Hono()
+app.route('/api/companies', companiesRoute)
+app.route('/api/companies/:companyId/permissions', permissionsRoute)
+app.route('/api/companies/:companyId/audit', auditRoute)
+
+function jsonReq(method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method }
+  if (body) {
+    init.body = JSON.stringify(body)
+    init.headers = { 'Content-Type': 'application/json' }
+  }
+  return app.request(path, init)
+}
+
+interface AuditPage {
+  data: {
+    events: Array<{ action: string; targetId: string | null; actorEmail: string | null; details: Record<string, unknown> }>
+    total: number
+  }
+}
+
+const base = `/api/companies/${TEST_COMPANY_ID}/audit`
+
+beforeAll(async () => {
+  initDatabase()
+
+  const timestamp = new Date().toISOString()
+
+  db.prepare(`
+    INSERT INTO companies (id, name, slug, owner_id, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(TEST_COMPANY_ID, 'Audit Co', 'audit-co', 'user-owner-audit', timestamp, timestamp)
+
+  db.prepare(`
+    INSERT INTO memberships (id, user_id, company_id, role, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run('m-audit-owner', 'user-owner-audit', TEST_COMPANY_ID, 'owner', timestamp, timestamp)
+
+  await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/members`, { userId: 'user-audit-new', role: 'member' })
+  await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/permissions`, { userId: 'user-audit-new', path: '人事部' })
+  await jsonReq('DELETE', `/api/companies/${TEST_COMPANY_ID}/members/user-audit-new`)
+})
+
+describe('Audit log', () => {
+  it('records changes newest first, with the actor', async () => {
+    const res = await jsonReq('GET', base)
+    expect(res.status).toBe(200)
+
+    const json = await res.json() as AuditPage
+    expect(json.data.total).toBe(3)
+    expect(json.data.events.map(e => e.action)).toEqual(['member.remove', 'permission.grant', 'member.add'])
+    expect(json.data.events[0].actorEmail).toBe('owner@example.com')
+    expect(json.data.events[1].details).toEqual({ path: '人事部', canRead: true, canWrite: false })
+  })
+
+  it('filters by action category', async () => {
+    const res = await jsonReq('GET', `${base}?action=member`)
+    const json = await res.json() as AuditPage
+    expect(json.data.events.map(e => e.action)).toEqual(['member.remove', 'member.add'])
+  })
+
+  it('pages with limit and offset', async () => {
+    const res = await jsonReq('GET', `${base}?limit=1&offset=1`)
+    const json = await res.json() as AuditPage
+    expect(json.data.total).toBe(3)
+    expect(json.data.events.map(e => e.action)).toEqual(['permission.grant'])
+  })
+
+  it('filters by date range', async () => {
+    const res = await jsonReq('GET', `${base}?to=2000-01-01T00:00:00Z`)
+    const json = await res.json() as AuditPage
+    expect(json.data.events).toEqual([])
+  })
+})
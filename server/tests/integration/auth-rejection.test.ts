@@ -20,18 +20,36 @@ import { Hono } from 'hono'
 import { meRoute } from '../../src/routes/me'
 import { companiesRoute } from '../../src/routes/companies'
 import { departmentsRoute } from '../../src/routes/departments'
+import { permissionsRoute } from '../../src/routes/permissions'
+import { auditRoute } from '../../src/routes/audit'
+import { rolesRoute } from '../../src/routes/roles'
+import { notificationsRoute } from '../../src/routes/notifications'
+import { skillsRoute } from '../../src/routes/skills'
+import { repoRoute } from '../../src/routes/repo'
 import { gitRoute } from '../../src/routes/git'
 import { sshKeysRoute } from '../../src/routes/ssh-keys'
+import { accessTokensRoute } from '../../src/routes/access-tokens'
 import { invitationsRoute } from '../../src/routes/invitations'
+import { passwordResetsRoute } from '../../src/routes/password-resets'
+import { syncRoute } from '../../src/routes/sync'
 
 // Build test app with routes mounted (mirrors real app structure)
 const app = new Hono()
 app.route('/api/me', meRoute)
 app.route('/api/companies', companiesRoute)
 app.route('/api/companies/:companyId/departments', departmentsRoute)
+app.route('/api/companies/:companyId/permissions', permissionsRoute)
+app.route('/api/companies/:companyId/audit', auditRoute)
+app.route('/api/companies/:companyId/roles', rolesRoute)
+app.route('/api/companies/:companyId/notifications', notificationsRoute)
+app.route('/api/companies/:companyId/skills', skillsRoute)
+app.route('/api/companies/:companyId/repo', repoRoute)
 app.route('/api/git', gitRoute)
 app.route('/api/users/me/ssh-keys', sshKeysRoute)
+app.route('/api/users/me/tokens', accessTokensRoute)
 app.route('/api', invitationsRoute)
+app.route('/api', passwordResetsRoute)
+app.route('/api/sync', syncRoute)
 
 // Helper to make JSON requests
 function jsonReq(method: string, path: string, body?: unknown) {
@@ -55,6 +73,16 @@ describe('Auth rejection (401) — unauthenticated requests', () => {
       const res = await jsonReq('PATCH', '/api/me', { name: 'Hacker' })
       expect(res.status).toBe(401)
     })
+
+    it('POST /api/me/password', async () => {
+      const res = await jsonReq('POST', '/api/me/password', { currentPassword: 'x', newPassword: 'yyyyyyyy' })
+      expect(res.status).toBe(401)
+    })
+
+    it('POST /api/me/email', async () => {
+      const res = await jsonReq('POST', '/api/me/email', { newEmail: 'hacker@example.com' })
+      expect(res.status).toBe(401)
+    })
   })
 
   // --- /api/companies ---
@@ -84,10 +112,35 @@ describe('Auth rejection (401) — unauthenticated requests', () => {
       expect(res.status).toBe(401)
     })
 
+    it('PATCH /api/companies/:id/members/:userId', async () => {
+      const res = await jsonReq('PATCH', '/api/companies/fake-id/members/user1', { role: 'admin' })
+      expect(res.status).toBe(401)
+    })
+
     it('DELETE /api/companies/:id/members/:userId', async () => {
       const res = await jsonReq('DELETE', '/api/companies/fake-id/members/user1')
       expect(res.status).toBe(401)
     })
+
+    it('POST /api/companies/:id/transfer-ownership', async () => {
+      const res = await jsonReq('POST', '/api/companies/fake-id/transfer-ownership', { userId: 'user1', confirm: 'Fake' })
+      expect(res.status).toBe(401)
+    })
+
+    it('POST /api/companies/:id/leave', async () => {
+      const res = await jsonReq('POST', '/api/companies/fake-id/leave')
+      expect(res.status).toBe(401)
+    })
+
+    it('PATCH /api/companies/:id/settings', async () => {
+      const res = await jsonReq('PATCH', '/api/companies/fake-id/settings', { readIsolation: true })
+      expect(res.status).toBe(401)
+    })
+
+    it('GET /api/companies/:id/large-files', async () => {
+      const res = await jsonReq('GET', '/api/companies/fake-id/large-files')
+      expect(res.status).toBe(401)
+    })
   })
 
   // --- /api/companies/:companyId/departments ---
@@ -124,6 +177,26 @@ describe('Auth rejection (401) — unauthenticated requests', () => {
       expect(res.status).toBe(401)
     })
 
+    it('POST move', async () => {
+      const res = await jsonReq('POST', `${base}/dept-1/move`, { folder: 'moved' })
+      expect(res.status).toBe(401)
+    })
+
+    it('GET moves', async () => {
+      const res = await jsonReq('GET', `${base}/moves`)
+      expect(res.status).toBe(401)
+    })
+
+    it('GET archived', async () => {
+      const res = await jsonReq('GET', `${base}/archived`)
+      expect(res.status).toBe(401)
+    })
+
+    it('POST restore', async () => {
+      const res = await jsonReq('POST', `${base}/dept-1/restore`)
+      expect(res.status).toBe(401)
+    })
+
     it('POST reorder', async () => {
       const res = await jsonReq('POST', `${base}/reorder`, { items: [] })
       expect(res.status).toBe(401)
@@ -133,6 +206,41 @@ describe('Auth rejection (401) — unauthenticated requests', () => {
       const res = await jsonReq('POST', `${base}/sync`)
       expect(res.status).toBe(401)
     })
+
+    it('PUT member assignment', async () => {
+      const res = await jsonReq('PUT', `${base}/dept-1/members/user-1`, { isLead: true })
+      expect(res.status).toBe(401)
+    })
+
+    it('DELETE member assignment', async () => {
+      const res = await jsonReq('DELETE', `${base}/dept-1/members/user-1`)
+      expect(res.status).toBe(401)
+    })
+  })
+
+  // --- /api/companies/:companyId/permissions ---
+  describe('permissionsRoute', () => {
+    const base = '/api/companies/fake-id/permissions'
+
+    it('GET list', async () => {
+      const res = await jsonReq('GET', base)
+      expect(res.status).toBe(401)
+    })
+
+    it('POST create', async () => {
+      const res = await jsonReq('POST', base, { userId: 'u1', path: 'hr' })
+      expect(res.status).toBe(401)
+    })
+
+    it('PUT update', async () => {
+      const res = await jsonReq('PUT', `${base}/perm-1`, { canWrite: true })
+      expect(res.status).toBe(401)
+    })
+
+    it('DELETE', async () => {
+      const res = await jsonReq('DELETE', `${base}/perm-1`)
+      expect(res.status).toBe(401)
+    })
   })
 
   // --- /api/git ---
@@ -186,6 +294,24 @@ describe('Auth rejection (401) — unauthenticated requests', () => {
     })
   })
 
+  // --- /api/users/me/tokens ---
+  describe('accessTokensRoute', () => {
+    it('GET /api/users/me/tokens', async () => {
+      const res = await jsonReq('GET', '/api/users/me/tokens')
+      expect(res.status).toBe(401)
+    })
+
+    it('POST /api/users/me/tokens', async () => {
+      const res = await jsonReq('POST', '/api/users/me/tokens', { name: 'CI', scopes: ['repo:read'] })
+      expect(res.status).toBe(401)
+    })
+
+    it('DELETE /api/users/me/tokens/:id', async () => {
+      const res = await jsonReq('DELETE', '/api/users/me/tokens/token-1')
+      expect(res.status).toBe(401)
+    })
+  })
+
   // --- /api/invitations (protected endpoints) ---
   describe('invitationsRoute — protected', () => {
     it('GET /api/companies/:id/invitations', async () => {
@@ -198,6 +324,11 @@ describe('Auth rejection (401) — unauthenticated requests', () => {
       expect(res.status).toBe(401)
     })
 
+    it('POST /api/companies/:id/invitations/import', async () => {
+      const res = await jsonReq('POST', '/api/companies/fake-id/invitations/import', { csv: 'email\n' })
+      expect(res.status).toBe(401)
+    })
+
     it('DELETE /api/companies/:id/invitations/:invId', async () => {
       const res = await jsonReq('DELETE', '/api/companies/fake-id/invitations/inv-1')
       expect(res.status).toBe(401)
@@ -209,6 +340,121 @@ describe('Auth rejection (401) — unauthenticated requests', () => {
     })
   })
 
+  // --- /api/companies/:id/members/:userId/password-resets ---
+  describe('passwordResetsRoute — protected', () => {
+    it('POST /api/companies/:id/members/:userId/password-resets', async () => {
+      const res = await jsonReq('POST', '/api/companies/fake-id/members/user-1/password-resets')
+      expect(res.status).toBe(401)
+    })
+  })
+
+  // --- /api/companies/:companyId/audit ---
+  describe('auditRoute', () => {
+    it('GET /api/companies/:id/audit', async () => {
+      const res = await jsonReq('GET', '/api/companies/fake-id/audit')
+      expect(res.status).toBe(401)
+    })
+  })
+
+  // --- /api/companies/:companyId/roles ---
+  describe('rolesRoute', () => {
+    const base = '/api/companies/fake-id/roles'
+
+    it('GET list', async () => {
+      const res = await jsonReq('GET', base)
+      expect(res.status).toBe(401)
+    })
+
+    it('POST create', async () => {
+      const res = await jsonReq('POST', base, { name: 'Editor', capabilities: ['push'] })
+      expect(res.status).toBe(401)
+    })
+
+    it('PUT update', async () => {
+      const res = await jsonReq('PUT', `${base}/role-1`, { name: 'Editor' })
+      expect(res.status).toBe(401)
+    })
+
+    it('DELETE', async () => {
+      const res = await jsonReq('DELETE', `${base}/role-1`)
+      expect(res.status).toBe(401)
+    })
+  })
+
+  // --- /api/companies/:companyId/notifications ---
+  describe('notificationsRoute', () => {
+    const base = '/api/companies/fake-id/notifications'
+
+    it('GET list', async () => {
+      const res = await jsonReq('GET', base)
+      expect(res.status).toBe(401)
+    })
+
+    it('POST read', async () => {
+      const res = await jsonReq('POST', `${base}/read`, {})
+      expect(res.status).toBe(401)
+    })
+  })
+
+  // --- /api/companies/:companyId/skills ---
+  describe('skillsRoute', () => {
+    it('GET /api/companies/:id/skills', async () => {
+      const res = await jsonReq('GET', '/api/companies/fake-id/skills')
+      expect(res.status).toBe(401)
+    })
+
+    it('POST /api/companies/:id/skills/usage', async () => {
+      const res = await jsonReq('POST', '/api/companies/fake-id/skills/usage', { events: [] })
+      expect(res.status).toBe(401)
+    })
+
+    it('GET /api/companies/:id/skills/usage', async () => {
+      const res = await jsonReq('GET', '/api/companies/fake-id/skills/usage')
+      expect(res.status).toBe(401)
+    })
+  })
+
+  // --- /api/companies/:companyId/repo ---
+  describe('repoRoute', () => {
+    it('GET /api/companies/:id/repo/tree', async () => {
+      const res = await jsonReq('GET', '/api/companies/fake-id/repo/tree')
+      expect(res.status).toBe(401)
+    })
+
+    it('GET /api/companies/:id/repo/blob', async () => {
+      const res = await jsonReq('GET', '/api/companies/fake-id/repo/blob?path=README.md')
+      expect(res.status).toBe(401)
+    })
+
+    it('GET /api/companies/:id/repo/commits', async () => {
+      const res = await jsonReq('GET', '/api/companies/fake-id/repo/commits')
+      expect(res.status).toBe(401)
+    })
+
+    it('GET /api/companies/:id/repo/commits/:sha', async () => {
+      const res = await jsonReq('GET', '/api/companies/fake-id/repo/commits/abc123')
+      expect(res.status).toBe(401)
+    })
+  })
+
+  // --- /api/sync ---
+  describe('syncRoute', () => {
+    it('POST /api/sync', async () => {
+      const res = await jsonReq('POST', '/api/sync', { companyId: 'fake-id' })
+      expect(res.status).toBe(401)
+    })
+
+    it('POST /api/sync/upload', async () => {
+      const res = await app.request('/api/sync/upload', { method: 'POST', body: new FormData() })
+      expect(res.status).toBe(401)
+    })
+
+    it('GET /api/sync/download/:path', async () => {
+      const res = await jsonReq('GET', '/api/sync/download/README.md?companyId=fake-id')
+      expect(res.status).toBe(401)
+    })
+  })
+
   // --- Public endpoints (should NOT require auth) ---
   describe('public endpoints — should NOT return 401', () => {
     it('GET /api/invitations/:token (validate invitation)', async () => {
@@ -36,14 +36,22 @@ import { Hono } from 'hono'
 import { db, initDatabase } from '../../src/db'
 import { companiesRoute } from '../../src/routes/companies'
 import { departmentsRoute } from '../../src/routes/departments'
+import { permissionsRoute } from '../../src/routes/permissions'
+import { auditRoute } from '../../src/routes/audit'
+import { rolesRoute } from '../../src/routes/roles'
 import { gitRoute } from '../../src/routes/git'
 import { invitationsRoute } from '../../src/routes/invitations'
+import { passwordResetsRoute } from '../../src/routes/password-resets'
 
 const app = new Hono()
 app.route('/api/companies', companiesRoute)
 app.route('/api/companies/:companyId/departments', departmentsRoute)
+app.route('/api/companies/:companyId/permissions', permissionsRoute)
+app.route('/api/companies/:companyId/audit', auditRoute)
+app.route('/api/companies/:companyId/roles', rolesRoute)
 app.route('/api/git', gitRoute)
 app.route('/api', invitationsRoute)
+app.route('/api', passwordResetsRoute)
 
 function jsonReq(method: string, path: string, body?: unknown) {
   const init: RequestInit = { method }
@@ -115,6 +123,31 @@ describe('Authorization rejection (403) — member user without owner/admin role
       const res = await jsonReq('POST', `${base}/sync`)
       expect(res.status).toBe(403)
     })
+
+    it('POST move department → 403', async () => {
+      const res = await jsonReq('POST', `${base}/dept-1/move`, { folder: 'moved' })
+      expect(res.status).toBe(403)
+    })
+
+    it('POST restore department → 403', async () => {
+      const res = await jsonReq('POST', `${base}/dept-1/restore`)
+      expect(res.status).toBe(403)
+    })
+
+    it('GET archived departments → 403', async () => {
+      const res = await jsonReq('GET', `${base}/archived`)
+      expect(res.status).toBe(403)
+    })
+
+    it('PUT assign department member → 403', async () => {
+      const res = await jsonReq('PUT', `${base}/dept-1/members/${TEST_USER.id}`, { isLead: true })
+      expect(res.status).toBe(403)
+    })
+
+    it('DELETE unassign department member → 403', async () => {
+      const res = await jsonReq('DELETE', `${base}/dept-1/members/${TEST_USER.id}`)
+      expect(res.status).toBe(403)
+    })
   })
 
   // --- Company member management (owner/admin only) ---
@@ -126,10 +159,27 @@ describe('Authorization rejection (403) — member user without owner/admin role
       expect(res.status).toBe(403)
     })
 
+    it('PATCH member role → 403', async () => {
+      const res = await jsonReq('PATCH', `/api/companies/${TEST_COMPANY_ID}/members/other-user`, { role: 'admin' })
+      expect(res.status).toBe(403)
+    })
+
     it('DELETE remove member → 403', async () => {
       const res = await jsonReq('DELETE', `/api/companies/${TEST_COMPANY_ID}/members/other-user`)
       expect(res.status).toBe(403)
     })
+
+    it('POST transfer ownership → 403', async () => {
+      const res = await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/transfer-ownership`, {
+        userId: 'other-user', confirm: 'Test Company',
+      })
+      expect(res.status).toBe(403)
+    })
+
+    it('PATCH company settings → 403', async () => {
+      const res = await jsonReq('PATCH', `/api/companies/${TEST_COMPANY_ID}/settings`, { readIsolation: true })
+      expect(res.status).toBe(403)
+    })
   })
 
   // --- Invitation management (owner/admin only) ---
@@ -146,12 +196,82 @@ describe('Authorization rejection (403) — member user without owner/admin role
       expect(res.status).toBe(403)
     })
 
+    it('POST import invitations from CSV → 403', async () => {
+      const res = await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/invitations/import`, {
+        csv: 'email\nnew@example.com\n',
+      })
+      expect(res.status).toBe(403)
+    })
+
     it('DELETE invitation → 403', async () => {
       const res = await jsonReq('DELETE', `/api/companies/${TEST_COMPANY_ID}/invitations/inv-1`)
       expect(res.status).toBe(403)
     })
   })
 
+  // --- Password reset links (manage_members only) ---
+  describe('password resets', () => {
+    it('POST issue a reset link for the owner → 403', async () => {
+      const res = await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/members/user-owner/password-resets`)
+      expect(res.status).toBe(403)
+    })
+  })
+
+  // --- Path permission management (owner/admin only) ---
+  describe('path permission management', () => {
+    const base = `/api/companies/${TEST_COMPANY_ID}/permissions`
+
+    it('GET list permissions → 403', async () => {
+      const res = await jsonReq('GET', base)
+      expect(res.status).toBe(403)
+    })
+
+    it('POST grant permission → 403', async () => {
+      const res = await jsonReq('POST', base, {
+        userId: TEST_USER.id, path: 'sales', canRead: true, canWrite: true,
+      })
+      expect(res.status).toBe(403)
+    })
+
+    it('PUT update permission → 403', async () => {
+      const res = await jsonReq('PUT', `${base}/perm-1`, { canWrite: true })
+      expect(res.status).toBe(403)
+    })
+
+    it('DELETE permission → 403', async () => {
+      const res = await jsonReq('DELETE', `${base}/perm-1`)
+      expect(res.status).toBe(403)
+    })
+  })
+
+  // --- Role management (owner only) ---
+  describe('role management', () => {
+    const base = `/api/companies/${TEST_COMPANY_ID}/roles`
+
+    it('POST create role → 403', async () => {
+      const res = await jsonReq('POST', base, { name: 'Editor', capabilities: ['push'] })
+      expect(res.status).toBe(403)
+    })
+
+    it('PUT update role → 403', async () => {
+      const res = await jsonReq('PUT', `${base}/role-1`, { name: 'Editor' })
+      expect(res.status).toBe(403)
+    })
+
+    it('DELETE role → 403', async () => {
+      const res = await jsonReq('DELETE', `${base}/role-1`)
+      expect(res.status).toBe(403)
+    })
+  })
+
+  // --- Audit log (owner/admin only) ---
+  describe('audit log', () => {
+    it('GET audit events → 403', async () => {
+      const res = await jsonReq('GET', `/api/companies/${TEST_COMPANY_ID}/audit`)
+      expect(res.status).toBe(403)
+    })
+  })
+
   // --- Git repo deletion (owner only) ---
   describe('git repo deletion', () => {
     it('DELETE /api/git/repos/:companyId → 403 for member', async () => {
@@ -173,6 +293,11 @@ describe('Authorization rejection (403) — member user without owner/admin role
       expect(res.status).not.toBe(403)
     })
 
+    it('GET roles → 200 (not 403)', async () => {
+      const res = await jsonReq('GET', `/api/companies/${TEST_COMPANY_ID}/roles`)
+      expect(res.status).toBe(200)
+    })
+
     it('GET company members → 200 (not 403)', async () => {
       const res = await jsonReq('GET', `/api/companies/${TEST_COMPANY_ID}/members`)
       expect(res.status).not.toBe(403)
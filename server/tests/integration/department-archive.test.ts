@@ -0,0 +1,154 @@
+/**
+ * Integration Test: archiving and restoring departments.
+ *
+ * Deleting a department archives it with its subdepartments (rows kept,
+ * folders moved below .archive/), a restore brings everything back, and the
+ * company's retention period removes archives for good.
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { execFileSync } from 'child_process'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+
+const OWNER = { id: 'user-archive-owner', email: 'owner@example.com', name: 'Owner', image: null, emailVerified: true }
+
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn(),
+  getUsersByIds: vi.fn().mockReturnValue(new Map()),
+  auth: {
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null) },
+  },
+}))
+
+import { Hono } from 'hono'
+import { db, initDatabase } from '../../src/db'
+import { getUserFromRequest } from '../../src/lib/auth'
+import { purgeExpiredDepartments } from '../../src/lib/department-archive'
+import { companiesRoute } from '../../src/routes/companies'
+import { departmentsRoute } from '../../src/routes/departments'
+
+const app = new Hono()
+app.route('/api/companies', companiesRoute)
+app.route('/api/companies/:companyId/departments', departmentsRoute)
+
+function git(args: string[], cwd?: string): string {
+  return execFileSync('git', args, { stdio: 'pipe', ...(cwd ? { cwd } : {}) }).toString()
+}
+
+function jsonReq(method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method }
+  if (body) {
+    init.body = JSON.stringify(body)
+    init.headers = { 'Content-Type': 'application/json' }
+  }
+  return app.request(path, init)
+}
+
+describe('Department archive', () => {
+  let companyId: string
+  let repo: string
+  let workDir: string
+  let salesId: string
+  let teamId: string
+
+  function mainFiles(): string[] {
+    return git(['-C', repo, '-c', 'core.quotepath=false', 'ls-tree', '-r', '--name-only', 'main']).split('\n').filter(Boolean)
+  }
+
+  async function listFolders(): Promise<string[]> {
+    const res = await jsonReq('GET', `/api/companies/${companyId}/departments`)
+    return (await res.json() as { data: Array<{ folder: string }> }).data.map(d => d.folder)
+  }
+
+  beforeAll(async () => {
+    initDatabase()
+    vi.mocked(getUserFromRequest).mockResolvedValue(OWNER)
+
+    const res = await jsonReq('POST', '/api/companies', { name: 'Archive Co' })
+    companyId = (await res.json() as { data: { id: string } }).data.id
+    repo = join(process.env.REPOS_DIR!, `${companyId}.git`)
+    workDir = mkdtempSync(join(tmpdir(), 'acb-dept-archive-'))
+
+    const departments = (await (await jsonReq('GET', `/api/companies/${companyId}/departments`)).json() as {
+      data: Array<{ id: string; folder: string }>
+    }).data
+    salesId = departments.find(d => d.folder === '営業部')!.id
+
+    // 営業部 gets a subdepartment and a file
+    const team = await jsonReq('POST', `/api/companies/${companyId}/departments`, { name: '営業一課', folder: '営業一課' })
+    teamId = (await team.json() as { data: { id: string } }).data.id
+    await jsonReq('POST', `/api/companies/${companyId}/departments/${teamId}/move`, { parentId: salesId })
+
+    const clone = join(workDir, 'clone')
+    git(['clone', repo, clone])
+    writeFileSync(join(clone, '営業部', '顧客.md'), '# 顧客\n')
+    git(['add', '.'], clone)
+    git(['-c', 'user.name=Member', '-c', 'user.email=member@example.com', 'commit', '-m', 'Add customers'], clone)
+    git(['push', 'origin', 'main'], clone)
+
+    db.prepare(`
+      INSERT INTO permissions (id, company_id, user_id, path, can_read, can_write, created_at, updated_at)
+      VALUES ('perm-archive', ?, 'user-archive-member', '営業部/顧客.md', 1, 0, datetime('now'), datetime('now'))
+    `).run(companyId)
+  })
+
+  afterAll(() => {
+    rmSync(workDir, { recursive: true, force: true })
+  })
+
+  it('archives a department with its subdepartments instead of deleting them', async () => {
+    const res = await jsonReq('DELETE', `/api/companies/${companyId}/departments/${salesId}`)
+    expect(res.status).toBe(200)
+    const body = await res.json() as { archivedFiles: number; archivedDepartments: string[] }
+    expect(body.archivedFiles).toBe(1)
+    expect(body.archivedDepartments).toEqual([salesId, teamId])
+
+    expect(mainFiles().some(file => file.startsWith('営業部/') || file.startsWith('営業一課/'))).toBe(false)
+    expect(mainFiles().some(file => /^\.archive\/営業部\.[0-9TZ]+\/顧客\.md$/.test(file))).toBe(true)
+    expect(await listFolders()).not.toContain('営業部')
+
+    const archived = await jsonReq('GET', `/api/companies/${companyId}/departments/archived`)
+    const rows = (await archived.json() as { data: Array<{ id: string; archivedFrom: string; folder: string }> }).data
+    expect(rows.map(row => row.archivedFrom).sort()).toEqual(['営業一課', '営業部'])
+
+    const rule = db.prepare('SELECT path FROM permissions WHERE id = ?').get('perm-archive') as { path: string }
+    expect(rule.path).toBe(`${rows.find(row => row.id === salesId)!.folder}/顧客.md`)
+
+    // Archived departments cannot be edited or archived again
+    expect((await jsonReq('PUT', `/api/companies/${companyId}/departments/${salesId}`, { name: 'x' })).status).toBe(409)
+    expect((await jsonReq('DELETE', `/api/companies/${companyId}/departments/${salesId}`)).status).toBe(409)
+  })
+
+  it('restores the department and its subdepartments with their files', async () => {
+    expect((await jsonReq('POST', `/api/companies/${companyId}/departments/${teamId}/restore`)).status).toBe(400)
+
+    const res = await jsonReq('POST', `/api/companies/${companyId}/departments/${salesId}/restore`)
+    expect(res.status).toBe(200)
+    expect((await res.json() as { restoredDepartments: string[] }).restoredDepartments).toEqual([salesId, teamId])
+
+    expect(mainFiles()).toEqual(expect.arrayContaining(['営業部/顧客.md', '営業一課/.gitkeep']))
+    expect(mainFiles().some(file => file.startsWith('.archive/'))).toBe(false)
+    expect(await listFolders()).toEqual(expect.arrayContaining(['営業部', '営業一課']))
+
+    const rule = db.prepare('SELECT path FROM permissions WHERE id = ?').get('perm-archive') as { path: string }
+    expect(rule.path).toBe('営業部/顧客.md')
+  })
+
+  it('removes archives once the retention period has passed', async () => {
+    const settings = await jsonReq('PATCH', `/api/companies/${companyId}/settings`, { departmentRetentionDays: 30 })
+    expect(settings.status).toBe(200)
+    expect((await jsonReq('PATCH', `/api/companies/${companyId}/settings`, { departmentRetentionDays: 0 })).status).toBe(400)
+
+    await jsonReq('DELETE', `/api/companies/${companyId}/departments/${teamId}`)
+    expect(purgeExpiredDepartments(companyId)).toBe(0)
+
+    db.prepare(`UPDATE departments SET archived_at = '2000-01-01T00:00:00.000Z' WHERE id = ?`).run(teamId)
+    expect(purgeExpiredDepartments(companyId)).toBe(1)
+    expect(db.prepare('SELECT 1 FROM departments WHERE id = ?').get(teamId)).toBeUndefined()
+    expect(mainFiles().some(file => file.startsWith('.archive/'))).toBe(false)
+    expect(git(['-C', repo, 'log', '-1', '--format=%an|%s', 'main']).trim())
+      .toBe('AI Company Builder|Purge archived departments: 営業一課')
+  })
+})
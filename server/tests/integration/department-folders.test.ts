@@ -0,0 +1,137 @@
+/**
+ * Integration Test: department folders in the bare repository.
+ *
+ * Creating, renaming and deleting (archiving) departments commits straight to
+ * main of the company repo (no server working copy), on top of whatever
+ * members pushed, and reports conflicts instead of ignoring them.
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { execFileSync } from 'child_process'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+
+const OWNER = { id: 'user-folders-owner', email: 'owner@example.com', name: 'Owner', image: null, emailVerified: true }
+
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn(),
+  getUsersByIds: vi.fn().mockReturnValue(new Map()),
+  auth: {
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null) },
+  },
+}))
+
+import { Hono } from 'hono'
+import { initDatabase } from '../../src/db'
+import { getUserFromRequest } from '../../src/lib/auth'
+import { companiesRoute } from '../../src/routes/companies'
+import { departmentsRoute } from '../../src/routes/departments'
+
+const app = new Hono()
+app.route('/api/companies', companiesRoute)
+app.route('/api/companies/:companyId/departments', departmentsRoute)
+
+function git(args: string[], cwd?: string): string {
+  return execFileSync('git', args, { stdio: 'pipe', ...(cwd ? { cwd } : {}) }).toString()
+}
+
+function jsonReq(method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method }
+  if (body) {
+    init.body = JSON.stringify(body)
+    init.headers = { 'Content-Type': 'application/json' }
+  }
+  return app.request(path, init)
+}
+
+describe('Department folders', () => {
+  let companyId: string
+  let repo: string
+  let workDir: string
+
+  function mainFiles(): string[] {
+    return git(['-C', repo, '-c', 'core.quotepath=false', 'ls-tree', '-r', '--name-only', 'main']).split('\n').filter(Boolean)
+  }
+
+  async function createDepartment(name: string, folder: string) {
+    const res = await jsonReq('POST', `/api/companies/${companyId}/departments`, { name, folder })
+    return { status: res.status, body: await res.json() as { data?: { id: string }; error?: string } }
+  }
+
+  beforeAll(async () => {
+    initDatabase()
+    vi.mocked(getUserFromRequest).mockResolvedValue(OWNER)
+
+    const res = await jsonReq('POST', '/api/companies', { name: 'Folders Co' })
+    companyId = (await res.json() as { data: { id: string } }).data.id
+    repo = join(process.env.REPOS_DIR!, `${companyId}.git`)
+    workDir = mkdtempSync(join(tmpdir(), 'acb-dept-folders-'))
+  })
+
+  afterAll(() => {
+    rmSync(workDir, { recursive: true, force: true })
+  })
+
+  it('seeds the default departments into the new company repo', async () => {
+    expect(mainFiles()).toEqual(expect.arrayContaining([
+      '.gitattributes',
+      '営業部/.gitkeep',
+      '営業部/.personal/.gitignore',
+      '総務/.gitkeep',
+    ]))
+
+    const res = await jsonReq('GET', `/api/companies/${companyId}/departments`)
+    const departments = (await res.json() as { data: Array<{ folder: string }> }).data
+    expect(departments.map(d => d.folder)).toEqual(['営業部', '経理部', '人事部', 'コンテンツ', '開発部', '総務'])
+  })
+
+  it('creates, renames and deletes folders on top of pushed work', async () => {
+    const created = await createDepartment('法務部', 'legal')
+    expect(created.status).toBe(201)
+    expect(mainFiles()).toEqual(expect.arrayContaining(['legal/.gitkeep', 'legal/.personal/.gitignore']))
+    expect(git(['-C', repo, 'log', '-1', '--format=%an <%ae>|%s', 'main']).trim())
+      .toBe('Owner <owner@example.com>|Add department: 法務部')
+
+    expect((await createDepartment('法務部 2', 'legal')).status).toBe(409)
+
+    // A member pushes into the folder before it is renamed
+    const clone = join(workDir, 'clone')
+    git(['clone', repo, clone])
+    mkdirSync(join(clone, 'legal'), { recursive: true })
+    writeFileSync(join(clone, 'legal', '契約.md'), '# 契約\n')
+    git(['add', '.'], clone)
+    git(['-c', 'user.name=Member', '-c', 'user.email=member@example.com', 'commit', '-m', 'Add contract'], clone)
+    git(['push', 'origin', 'main'], clone)
+
+    const deptId = created.body.data!.id
+    const renamed = await jsonReq('PUT', `/api/companies/${companyId}/departments/${deptId}`, { folder: '法務' })
+    expect(renamed.status).toBe(200)
+    expect(mainFiles()).toContain('法務/契約.md')
+    expect(mainFiles().some(file => file.startsWith('legal/'))).toBe(false)
+    expect(git(['-C', repo, 'log', '--format=%s', 'main', '-3']).split('\n').slice(0, 2))
+      .toEqual(['Rename department: legal -> 法務', 'Add contract'])
+
+    // Renaming onto an existing folder is refused without touching main
+    const head = git(['-C', repo, 'rev-parse', 'main'])
+    const clash = await jsonReq('PUT', `/api/companies/${companyId}/departments/${deptId}`, { folder: '総務' })
+    expect(clash.status).toBe(409)
+    expect(git(['-C', repo, 'rev-parse', 'main'])).toBe(head)
+
+    const stats = await jsonReq('GET', `/api/companies/${companyId}/departments/${deptId}/stats`)
+    expect((await stats.json() as { data: unknown }).data).toEqual({ files: 1, folders: 0, exists: true })
+
+    const deleted = await jsonReq('DELETE', `/api/companies/${companyId}/departments/${deptId}`)
+    expect(deleted.status).toBe(200)
+    expect((await deleted.json() as { archivedFiles: number }).archivedFiles).toBe(1)
+    expect(mainFiles().some(file => file.startsWith('法務/'))).toBe(false)
+    expect(mainFiles().some(file => /^\.archive\/法務\.[0-9TZ]+\/契約\.md$/.test(file))).toBe(true)
+  })
+
+  it('reports a missing repository instead of creating a department', async () => {
+    rmSync(repo, { recursive: true, force: true })
+    const res = await createDepartment('広報部', 'pr')
+    expect(res.status).toBe(404)
+    expect(res.body.error).toBe('Repository not found')
+  })
+})
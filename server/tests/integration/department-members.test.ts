@@ -0,0 +1,192 @@
+/**
+ * Integration Test: department assignments and change notifications.
+ *
+ * Members can be assigned to departments (optionally as lead); changes to a
+ * department's folder notify its members, limited to paths they can read.
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { execFileSync } from 'child_process'
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+
+const TEST_COMPANY_ID = 'company-dept-members'
+
+const OWNER = { id: 'user-dm-owner', email: 'owner@example.com', name: 'Owner', image: null, emailVerified: true }
+const SALES_LEAD = { id: 'user-dm-sales-lead', email: 'lead@example.com', name: 'Lead', image: null, emailVerified: true }
+const SALES = { id: 'user-dm-sales', email: 'sales@example.com', name: 'Sales', image: null, emailVerified: true }
+const HR = { id: 'user-dm-hr', email: 'hr@example.com', name: 'HR', image: null, emailVerified: true }
+
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn(),
+  getUsersByIds: vi.fn().mockReturnValue(new Map([
+    ['user-dm-owner', { email: 'owner@example.com', name: 'Owner' }],
+    ['user-dm-sales-lead', { email: 'lead@example.com', name: 'Lead' }],
+    ['user-dm-sales', { email: 'sales@example.com', name: 'Sales' }],
+    ['user-dm-hr', { email: 'hr@example.com', name: 'HR' }],
+  ])),
+  auth: {
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null) },
+  },
+}))
+
+import { Hono } from 'hono'
+import { db, initDatabase } from '../../src/db'
+import { getUserFromRequest } from '../../src/lib/auth'
+import { configureBareRepo } from '../../src/routes/git'
+import { departmentsRoute } from '../../src/routes/departments'
+import { notificationsRoute } from '../../src/routes/notifications'
+import { syncRoute } from '../../src/routes/sync'
+
+const app = new Hono()
+app.route('/api/companies/:companyId/departments', departmentsRoute)
+app.route('/api/companies/:companyId/notifications', notificationsRoute)
+app.route('/api/sync', syncRoute)
+
+const base = `/api/companies/${TEST_COMPANY_ID}`
+
+function git(args: string[], cwd?: string): string {
+  return execFileSync('git', args, { stdio: 'pipe', ...(cwd ? { cwd } : {}) }).toString()
+}
+
+function actAs(user: typeof OWNER) {
+  vi.mocked(getUserFromRequest).mockResolvedValue(user)
+}
+
+function jsonReq(method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method }
+  if (body) {
+    init.body = JSON.stringify(body)
+    init.headers = { 'Content-Type': 'application/json' }
+  }
+  return app.request(path, init)
+}
+
+function upload(path: string, content: string) {
+  const form = new FormData()
+  form.set('companyId', TEST_COMPANY_ID)
+  form.set('path', path)
+  form.set('file', new File([content], 'upload.txt'))
+  return app.request('/api/sync/upload', { method: 'POST', body: form })
+}
+
+async function notificationsOf(user: typeof OWNER) {
+  actAs(user)
+  const res = await jsonReq('GET', `${base}/notifications`)
+  return (await res.json() as { data: { notifications: Array<{ id: string; paths: string[] }>; unread: number } }).data
+}
+
+describe('Department assignments', () => {
+  let workDir: string
+
+  beforeAll(() => {
+    initDatabase()
+    const timestamp = new Date().toISOString()
+
+    db.prepare(`
+      INSERT INTO companies (id, name, slug, owner_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(TEST_COMPANY_ID, 'Dept Members Co', 'dept-members-co', OWNER.id, timestamp, timestamp)
+
+    const insertDepartment = db.prepare(`
+      INSERT INTO departments (id, company_id, name, folder, sort_order, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `)
+    insertDepartment.run('d-dm-sales', TEST_COMPANY_ID, '営業部', '営業部', 0, timestamp, timestamp)
+    insertDepartment.run('d-dm-hr', TEST_COMPANY_ID, '人事部', '人事部', 1, timestamp, timestamp)
+
+    const insertMember = db.prepare(`
+      INSERT INTO memberships (id, user_id, company_id, role, scope_department_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `)
+    insertMember.run('m-dm-owner', OWNER.id, TEST_COMPANY_ID, 'owner', null, timestamp, timestamp)
+    insertMember.run('m-dm-lead', SALES_LEAD.id, TEST_COMPANY_ID, 'department_lead', 'd-dm-sales', timestamp, timestamp)
+    insertMember.run('m-dm-sales', SALES.id, TEST_COMPANY_ID, 'member', null, timestamp, timestamp)
+    insertMember.run('m-dm-hr', HR.id, TEST_COMPANY_ID, 'member', null, timestamp, timestamp)
+
+    // 営業部/契約 is readable by the lead only
+    db.prepare(`
+      INSERT INTO permissions (id, company_id, user_id, path, can_read, can_write, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 1, 1, ?, ?)
+    `).run('p-dm', TEST_COMPANY_ID, SALES_LEAD.id, '営業部/契約', timestamp, timestamp)
+
+    const companyRepo = join(process.env.REPOS_DIR!, `${TEST_COMPANY_ID}.git`)
+    git(['init', '--bare', '--initial-branch=main', companyRepo])
+    configureBareRepo(companyRepo)
+
+    workDir = mkdtempSync(join(tmpdir(), 'acb-dept-members-'))
+    const clone = join(workDir, 'clone')
+    git(['clone', companyRepo, clone])
+    mkdirSync(join(clone, '営業部'), { recursive: true })
+    mkdirSync(join(clone, '人事部'), { recursive: true })
+    writeFileSync(join(clone, '営業部/提案書.md'), 'proposal\n')
+    writeFileSync(join(clone, '人事部/規程.md'), 'rules\n')
+    git(['add', '.'], clone)
+    git(['-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-m', 'seed'], clone)
+    git(['push', 'origin', 'main'], clone)
+  })
+
+  afterAll(() => {
+    rmSync(workDir, { recursive: true, force: true })
+  })
+
+  it('assigns members and lists them with each department', async () => {
+    actAs(OWNER)
+    expect((await jsonReq('PUT', `${base}/departments/d-dm-sales/members/${SALES.id}`, {})).status).toBe(200)
+    expect((await jsonReq('PUT', `${base}/departments/d-dm-sales/members/${SALES_LEAD.id}`, { isLead: true })).status).toBe(200)
+    expect((await jsonReq('PUT', `${base}/departments/d-dm-hr/members/${HR.id}`, {})).status).toBe(200)
+
+    actAs(SALES)
+    const res = await jsonReq('GET', `${base}/departments`)
+    const departments = (await res.json() as { data: Array<{ id: string; members: Array<{ userId: string; isLead: boolean }> }> }).data
+    expect(departments.find(d => d.id === 'd-dm-sales')?.members).toEqual([
+      expect.objectContaining({ userId: SALES_LEAD.id, isLead: true }),
+      expect.objectContaining({ userId: SALES.id, isLead: false }),
+    ])
+  })
+
+  it('rejects users who are not company members', async () => {
+    actAs(OWNER)
+    const res = await jsonReq('PUT', `${base}/departments/d-dm-sales/members/user-stranger`, {})
+    expect(res.status).toBe(404)
+  })
+
+  it('lets a department lead role assign members only in their department', async () => {
+    actAs(SALES_LEAD)
+    expect((await jsonReq('PUT', `${base}/departments/d-dm-sales/members/${HR.id}`, {})).status).toBe(200)
+    expect((await jsonReq('PUT', `${base}/departments/d-dm-hr/members/${SALES.id}`, {})).status).toBe(403)
+    expect((await jsonReq('DELETE', `${base}/departments/d-dm-sales/members/${HR.id}`)).status).toBe(200)
+    expect((await jsonReq('DELETE', `${base}/departments/d-dm-sales/members/${HR.id}`)).status).toBe(404)
+  })
+
+  it('notifies the department members about changes to its folder', async () => {
+    actAs(OWNER)
+    expect((await upload('営業部/見積.md', 'quote\n')).status).toBe(201)
+
+    const sales = await notificationsOf(SALES)
+    expect(sales.unread).toBe(1)
+    expect(sales.notifications[0].paths).toEqual(['営業部/見積.md'])
+
+    expect((await notificationsOf(HR)).notifications).toEqual([])
+    expect((await notificationsOf(OWNER)).notifications).toEqual([])
+  })
+
+  it('does not notify about paths the member cannot read or their own changes', async () => {
+    actAs(OWNER)
+    expect((await upload('営業部/契約/A社.md', 'contract\n')).status).toBe(201)
+    expect((await notificationsOf(SALES)).unread).toBe(1)
+    expect((await notificationsOf(SALES_LEAD)).notifications[0].paths).toEqual(['営業部/契約/A社.md'])
+
+    actAs(SALES)
+    expect((await upload('営業部/議事録.md', 'minutes\n')).status).toBe(201)
+    expect((await notificationsOf(SALES)).unread).toBe(1)
+  })
+
+  it('marks notifications read', async () => {
+    actAs(SALES)
+    const res = await jsonReq('POST', `${base}/notifications/read`, {})
+    expect((await res.json() as { data: { updated: number } }).data.updated).toBe(1)
+    expect((await notificationsOf(SALES)).unread).toBe(0)
+  })
+})
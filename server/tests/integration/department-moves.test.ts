@@ -0,0 +1,156 @@
+/**
+ * Integration Test: moving departments.
+ *
+ * A move renames the folder in one commit (history is kept), rewrites
+ * server-side path references, is logged for the desktop sync and reports
+ * SKILL.md lines that still point at the old path.
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { execFileSync } from 'child_process'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+
+const OWNER = { id: 'user-moves-owner', email: 'owner@example.com', name: 'Owner', image: null, emailVerified: true }
+
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn(),
+  getUsersByIds: vi.fn().mockReturnValue(new Map()),
+  auth: {
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null) },
+  },
+}))
+
+import { Hono } from 'hono'
+import { db, initDatabase } from '../../src/db'
+import { getUserFromRequest } from '../../src/lib/auth'
+import { companiesRoute } from '../../src/routes/companies'
+import { departmentsRoute } from '../../src/routes/departments'
+import type { DepartmentMove } from '../../shared/types'
+
+const app = new Hono()
+app.route('/api/companies', companiesRoute)
+app.route('/api/companies/:companyId/departments', departmentsRoute)
+
+function git(args: string[], cwd?: string): string {
+  return execFileSync('git', args, { stdio: 'pipe', ...(cwd ? { cwd } : {}) }).toString()
+}
+
+function jsonReq(method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method }
+  if (body) {
+    init.body = JSON.stringify(body)
+    init.headers = { 'Content-Type': 'application/json' }
+  }
+  return app.request(path, init)
+}
+
+describe('Department moves', () => {
+  let companyId: string
+  let repo: string
+  let workDir: string
+  let legalId: string
+  let salesId: string
+
+  beforeAll(async () => {
+    initDatabase()
+    vi.mocked(getUserFromRequest).mockResolvedValue(OWNER)
+
+    const res = await jsonReq('POST', '/api/companies', { name: 'Moves Co' })
+    companyId = (await res.json() as { data: { id: string } }).data.id
+    repo = join(process.env.REPOS_DIR!, `${companyId}.git`)
+    workDir = mkdtempSync(join(tmpdir(), 'acb-dept-moves-'))
+
+    const created = await jsonReq('POST', `/api/companies/${companyId}/departments`, { name: '法務部', folder: '法務' })
+    legalId = (await created.json() as { data: { id: string } }).data.id
+
+    const list = await jsonReq('GET', `/api/companies/${companyId}/departments`)
+    const departments = (await list.json() as { data: Array<{ id: string; folder: string }> }).data
+    salesId = departments.find(d => d.folder === '営業部')!.id
+
+    // A member pushes a document and a skill that refers to it
+    const clone = join(workDir, 'clone')
+    git(['clone', repo, clone])
+    writeFileSync(join(clone, '法務', '契約.md'), '# 契約\n')
+    mkdirSync(join(clone, '.claude', 'skills', 'contract-check'), { recursive: true })
+    writeFileSync(join(clone, '.claude', 'skills', 'contract-check', 'SKILL.md'), [
+      '# 契約チェック',
+      '',
+      '雛形は 法務/契約.md を参照する。',
+      '営業法務/メモ.md は対象外。',
+      '',
+    ].join('\n'))
+    git(['add', '.'], clone)
+    git(['-c', 'user.name=Member', '-c', 'user.email=member@example.com', 'commit', '-m', 'Add contract skill'], clone)
+    git(['push', 'origin', 'main'], clone)
+
+    db.prepare(`
+      INSERT INTO permissions (id, company_id, user_id, path, can_read, can_write, created_at, updated_at)
+      VALUES ('perm-move', ?, 'user-moves-member', '法務/契約.md', 1, 0, datetime('now'), datetime('now'))
+    `).run(companyId)
+  })
+
+  afterAll(() => {
+    rmSync(workDir, { recursive: true, force: true })
+  })
+
+  it('renames the folder with its history and rewrites path references', async () => {
+    const res = await jsonReq('POST', `/api/companies/${companyId}/departments/${legalId}/move`, {
+      folder: '法務部',
+      parentId: salesId,
+    })
+    expect(res.status).toBe(200)
+    const { department, move } = (await res.json() as {
+      data: { department: { folder: string; parentId: string }; move: DepartmentMove }
+    }).data
+
+    expect(department).toMatchObject({ folder: '法務部', parentId: salesId })
+    expect(move).toMatchObject({ departmentId: legalId, fromPath: '法務', toPath: '法務部' })
+    expect(move.commit).toBe(git(['-C', repo, 'rev-parse', 'main']).trim())
+    expect(move.skillReferences).toEqual([{
+      path: '.claude/skills/contract-check/SKILL.md',
+      line: 3,
+      text: '雛形は 法務/契約.md を参照する。',
+    }])
+
+    const history = git(['-C', repo, '-c', 'core.quotepath=false', 'log', '--follow', '--format=%s', 'main', '--', '法務部/契約.md'])
+    expect(history.trim().split('\n')).toEqual(['Rename department: 法務 -> 法務部', 'Add contract skill'])
+
+    const rule = db.prepare('SELECT path FROM permissions WHERE id = ?').get('perm-move') as { path: string }
+    expect(rule.path).toBe('法務部/契約.md')
+  })
+
+  it('lists moves recorded after a timestamp', async () => {
+    const all = await jsonReq('GET', `/api/companies/${companyId}/departments/moves`)
+    const moves = (await all.json() as { data: DepartmentMove[] }).data
+    expect(moves.map(move => [move.fromPath, move.toPath])).toEqual([['法務', '法務部']])
+
+    const later = await jsonReq('GET', `/api/companies/${companyId}/departments/moves?since=${encodeURIComponent(moves[0].createdAt)}`)
+    expect((await later.json() as { data: DepartmentMove[] }).data).toEqual([])
+
+    const invalid = await jsonReq('GET', `/api/companies/${companyId}/departments/moves?since=yesterday`)
+    expect(invalid.status).toBe(400)
+  })
+
+  it('changes only the parent without touching the repository', async () => {
+    const head = git(['-C', repo, 'rev-parse', 'main'])
+    const res = await jsonReq('POST', `/api/companies/${companyId}/departments/${legalId}/move`, { parentId: null })
+    expect(res.status).toBe(200)
+    expect((await res.json() as { data: { move: unknown } }).data.move).toBeNull()
+    expect(git(['-C', repo, 'rev-parse', 'main'])).toBe(head)
+  })
+
+  it('refuses moves that would create a cycle or change nothing', async () => {
+    await jsonReq('POST', `/api/companies/${companyId}/departments/${legalId}/move`, { parentId: salesId })
+
+    const cycle = await jsonReq('POST', `/api/companies/${companyId}/departments/${salesId}/move`, { parentId: legalId })
+    expect(cycle.status).toBe(400)
+
+    const unchanged = await jsonReq('POST', `/api/companies/${companyId}/departments/${legalId}/move`, { folder: '法務部' })
+    expect(unchanged.status).toBe(400)
+
+    const clash = await jsonReq('POST', `/api/companies/${companyId}/departments/${legalId}/move`, { folder: '総務' })
+    expect(clash.status).toBe(409)
+  })
+})
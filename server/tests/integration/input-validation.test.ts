@@ -37,11 +37,27 @@ import { db, initDatabase } from '../../src/db'
 import { companiesRoute } from '../../src/routes/companies'
 import { departmentsRoute } from '../../src/routes/departments'
 import { invitationsRoute } from '../../src/routes/invitations'
+import { permissionsRoute } from '../../src/routes/permissions'
+import { auditRoute } from '../../src/routes/audit'
+import { rolesRoute } from '../../src/routes/roles'
+import { skillsRoute } from '../../src/routes/skills'
+import { accessTokensRoute } from '../../src/routes/access-tokens'
+import { meRoute } from '../../src/routes/me'
+import { passwordResetsRoute } from '../../src/routes/password-resets'
+import { syncRoute } from '../../src/routes/sync'
 
 const app = new Hono()
 app.route('/api/companies', companiesRoute)
 app.route('/api/companies/:companyId/departments', departmentsRoute)
+app.route('/api/companies/:companyId/permissions', permissionsRoute)
+app.route('/api/companies/:companyId/audit', auditRoute)
+app.route('/api/companies/:companyId/roles', rolesRoute)
+app.route('/api/companies/:companyId/skills', skillsRoute)
+app.route('/api/me', meRoute)
+app.route('/api/users/me/tokens', accessTokensRoute)
 app.route('/api', invitationsRoute)
+app.route('/api', passwordResetsRoute)
+app.route('/api/sync', syncRoute)
 
 function jsonReq(method: string, path: string, body?: unknown) {
   const init: RequestInit = { method }
@@ -147,11 +163,8 @@ describe('Input validation (400) — malformed inputs', () => {
   describe('PUT /api/companies/:id/departments/:id', () => {
     const base = `/api/companies/${TEST_COMPANY_ID}/departments`
 
-    it('new folder with path traversal → rejected (400 or 500)', async () => {
-      // Note: In the PUT handler, getWorkingDir() runs before isValidFolderName().
-      // In test env (no git repo), getWorkingDir throws → 500.
-      // In production (with git repo), isValidFolderName correctly returns 400.
-      // Either way, the traversal attempt never reaches the filesystem.
+    it('new folder with path traversal → 400', async () => {
+      // The folder name is validated before the repository is touched
       const timestamp = new Date().toISOString()
       db.prepare(`
         INSERT OR IGNORE INTO departments (id, company_id, name, folder, sort_order, is_active, created_at, updated_at)
@@ -159,8 +172,17 @@ describe('Input validation (400) — malformed inputs', () => {
       `).run('dept-rename-test', TEST_COMPANY_ID, 'Rename Test', 'rename-test', timestamp, timestamp)
 
       const res = await jsonReq('PUT', `${base}/dept-rename-test`, { folder: '../etc' })
-      // Must NOT succeed (200/201)
-      expect(res.status).toBeGreaterThanOrEqual(400)
+      expect(res.status).toBe(400)
+    })
+  })
+
+  // --- Department member assignment ---
+  describe('PUT /api/companies/:id/departments/:id/members/:userId', () => {
+    it('non-boolean isLead → 400', async () => {
+      const res = await jsonReq('PUT', `/api/companies/${TEST_COMPANY_ID}/departments/dept-rename-test/members/${TEST_USER.id}`, {
+        isLead: 'yes',
+      })
+      expect(res.status).toBe(400)
     })
   })
 
@@ -172,6 +194,48 @@ describe('Input validation (400) — malformed inputs', () => {
       })
       expect(res.status).toBe(400)
     })
+
+    it('both email and emailDomain → 400', async () => {
+      const res = await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/invitations`, {
+        email: 'new@example.com', emailDomain: 'example.com',
+      })
+      expect(res.status).toBe(400)
+    })
+
+    it('maxUses out of range → 400', async () => {
+      const res = await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/invitations`, {
+        maxUses: 0,
+      })
+      expect(res.status).toBe(400)
+    })
+
+    it('unknown department → 400', async () => {
+      const res = await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/invitations`, {
+        departmentIds: ['no-such-department'],
+      })
+      expect(res.status).toBe(400)
+    })
+
+    it('nested checkout folder → 400', async () => {
+      const res = await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/invitations`, {
+        checkoutFolders: ['../outside'],
+      })
+      expect(res.status).toBe(400)
+    })
+  })
+
+  describe('POST /api/companies/:id/invitations/import', () => {
+    it('missing csv → 400', async () => {
+      const res = await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/invitations/import`, {})
+      expect(res.status).toBe(400)
+    })
+
+    it('no email column → 400', async () => {
+      const res = await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/invitations/import`, {
+        csv: 'name,role\nTaro,member\n',
+      })
+      expect(res.status).toBe(400)
+    })
   })
 
   // --- Company member addition ---
@@ -191,6 +255,198 @@ describe('Input validation (400) — malformed inputs', () => {
     })
   })
 
+  describe('POST /api/companies/:id/transfer-ownership', () => {
+    it('missing userId → 400', async () => {
+      const res = await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/transfer-ownership`, {
+        confirm: 'Input Test Co',
+      })
+      expect(res.status).toBe(400)
+    })
+
+    it('confirm not matching the company name → 400', async () => {
+      const res = await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/transfer-ownership`, {
+        userId: 'u1', confirm: 'wrong name',
+      })
+      expect(res.status).toBe(400)
+    })
+  })
+
+  describe('POST /api/companies/:id/roles', () => {
+    const base = `/api/companies/${TEST_COMPANY_ID}/roles`
+
+    it('missing name → 400', async () => {
+      const res = await jsonReq('POST', base, { capabilities: ['push'] })
+      expect(res.status).toBe(400)
+    })
+
+    it('unknown capability → 400', async () => {
+      const res = await jsonReq('POST', base, { name: 'Editor', capabilities: ['launch_rockets'] })
+      expect(res.status).toBe(400)
+    })
+
+    it('invalid scope → 400', async () => {
+      const res = await jsonReq('POST', base, { name: 'Editor', capabilities: ['push'], scope: 'team' })
+      expect(res.status).toBe(400)
+    })
+
+    it('editing a built-in role → 400', async () => {
+      const res = await jsonReq('PUT', `${base}/admin`, { capabilities: ['push'] })
+      expect(res.status).toBe(400)
+    })
+  })
+
+  describe('PATCH /api/companies/:id/settings', () => {
+    it('non-boolean readIsolation → 400', async () => {
+      const res = await jsonReq('PATCH', `/api/companies/${TEST_COMPANY_ID}/settings`, { readIsolation: 'yes' })
+      expect(res.status).toBe(400)
+    })
+  })
+
+  describe('GET /api/companies/:id/audit', () => {
+    const base = `/api/companies/${TEST_COMPANY_ID}/audit`
+
+    it('limit above maximum → 400', async () => {
+      const res = await jsonReq('GET', `${base}?limit=1000`)
+      expect(res.status).toBe(400)
+    })
+
+    it('negative offset → 400', async () => {
+      const res = await jsonReq('GET', `${base}?offset=-1`)
+      expect(res.status).toBe(400)
+    })
+
+    it('invalid from date → 400', async () => {
+      const res = await jsonReq('GET', `${base}?from=yesterday`)
+      expect(res.status).toBe(400)
+    })
+  })
+
+  describe('POST /api/companies/:id/skills/usage', () => {
+    const base = `/api/companies/${TEST_COMPANY_ID}/skills/usage`
+    const event = {
+      id: 'evt-1',
+      skillPath: 'sales/.claude/skills/proposal',
+      source: 'slash',
+      durationMs: 1000,
+      toolCalls: 2,
+      outcome: 'success',
+      occurredAt: new Date().toISOString(),
+    }
+
+    it('empty events → 400', async () => {
+      const res = await jsonReq('POST', base, { events: [] })
+      expect(res.status).toBe(400)
+    })
+
+    it('skillPath outside .claude/skills → 400', async () => {
+      const res = await jsonReq('POST', base, { events: [{ ...event, skillPath: 'sales/secret.md' }] })
+      expect(res.status).toBe(400)
+    })
+
+    it('path traversal in skillPath → 400', async () => {
+      const res = await jsonReq('POST', base, { events: [{ ...event, skillPath: '../.claude/skills/x' }] })
+      expect(res.status).toBe(400)
+    })
+
+    it('unknown outcome → 400', async () => {
+      const res = await jsonReq('POST', base, { events: [{ ...event, outcome: 'maybe' }] })
+      expect(res.status).toBe(400)
+    })
+  })
+
+  // --- Path permission grant ---
+  describe('POST /api/companies/:id/permissions', () => {
+    const base = `/api/companies/${TEST_COMPANY_ID}/permissions`
+
+    it('missing path → 400', async () => {
+      const res = await jsonReq('POST', base, { userId: TEST_USER.id })
+      expect(res.status).toBe(400)
+    })
+
+    it('path with traversal "../" → 400', async () => {
+      const res = await jsonReq('POST', base, { userId: TEST_USER.id, path: 'hr/../../etc' })
+      expect(res.status).toBe(400)
+    })
+
+    it('path inside .git → 400', async () => {
+      const res = await jsonReq('POST', base, { userId: TEST_USER.id, path: '.git/hooks' })
+      expect(res.status).toBe(400)
+    })
+
+    it('user who is not a member → 400', async () => {
+      const res = await jsonReq('POST', base, { userId: 'outsider', path: 'hr' })
+      expect(res.status).toBe(400)
+    })
+  })
+
+  describe('/api/me', () => {
+    it('PATCH empty name → 400', async () => {
+      const res = await jsonReq('PATCH', '/api/me', { name: '   ' })
+      expect(res.status).toBe(400)
+    })
+
+    it('PATCH image that is not a URL → 400', async () => {
+      const res = await jsonReq('PATCH', '/api/me', { image: 'javascript:alert(1)' })
+      expect(res.status).toBe(400)
+    })
+
+    it('POST password shorter than 8 characters → 400', async () => {
+      const res = await jsonReq('POST', '/api/me/password', { currentPassword: 'current-pass', newPassword: 'short' })
+      expect(res.status).toBe(400)
+    })
+
+    it('POST invalid email → 400', async () => {
+      const res = await jsonReq('POST', '/api/me/email', { newEmail: 'not-an-email' })
+      expect(res.status).toBe(400)
+    })
+  })
+
+  describe('POST /api/users/me/tokens', () => {
+    it('missing name → 400', async () => {
+      const res = await jsonReq('POST', '/api/users/me/tokens', { scopes: ['repo:read'] })
+      expect(res.status).toBe(400)
+    })
+
+    it('unknown scope → 400', async () => {
+      const res = await jsonReq('POST', '/api/users/me/tokens', { name: 'CI', scopes: ['admin'] })
+      expect(res.status).toBe(400)
+    })
+
+    it('expiresInDays out of range → 400', async () => {
+      const res = await jsonReq('POST', '/api/users/me/tokens', { name: 'CI', scopes: ['repo:read'], expiresInDays: 0 })
+      expect(res.status).toBe(400)
+    })
+  })
+
+  describe('password resets', () => {
+    it('POST reset link for yourself → 400', async () => {
+      const res = await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/members/${TEST_USER.id}/password-resets`)
+      expect(res.status).toBe(400)
+    })
+
+    it('POST new password too short → 400', async () => {
+      const res = await jsonReq('POST', '/api/password-resets/some-token', { newPassword: 'short' })
+      expect(res.status).toBe(400)
+    })
+  })
+
+  describe('POST /api/sync', () => {
+    it('malformed JSON body → 400', async () => {
+      const res = await app.request('/api/sync', {
+        method: 'POST',
+        body: '{"companyId": ',
+        headers: { 'Content-Type': 'application/json' },
+      })
+      expect(res.status).toBe(400)
+    })
+
+    it('non-string cursor → 400', async () => {
+      const res = await jsonReq('POST', '/api/sync', { companyId: TEST_COMPANY_ID, cursor: 42 })
+      expect(res.status).toBe(400)
+    })
+  })
+
   // Note: git repo creation (POST /api/git/repos) validates companyId
   // via sanitization regex. This is covered by the static path-traversal tests.
+
 })
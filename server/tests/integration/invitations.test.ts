@@ -0,0 +1,171 @@
+/**
+ * Integration Test: invitation links with restrictions.
+ *
+ * A link can be limited to one email address or an email domain, used up to
+ * a cap, and can put the new member into departments and name the folders
+ * for their first checkout.
+ */
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+
+const TEST_COMPANY_ID = 'company-invites'
+
+const OWNER = { id: 'user-inv-owner', email: 'owner@ourco.jp', name: 'Owner', image: null, emailVerified: true }
+const RECRUITER = { id: 'user-inv-recruiter', email: 'recruiter@ourco.jp', name: 'Recruiter', image: null, emailVerified: true }
+
+function newcomer(n: number, domain = 'ourco.jp') {
+  return { id: `user-inv-new-${n}-${domain}`, email: `new${n}@${domain}`, name: `New ${n}`, image: null, emailVerified: true }
+}
+
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn(),
+  getUserById: vi.fn(),
+  getUsersByIds: vi.fn().mockReturnValue(new Map()),
+  auth: {
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null) },
+  },
+}))
+
+import { Hono } from 'hono'
+import { db, initDatabase } from '../../src/db'
+import { getUserFromRequest } from '../../src/lib/auth'
+import { companiesRoute } from '../../src/routes/companies'
+import { invitationsRoute } from '../../src/routes/invitations'
+import { rewritePathReferences } from '../../src/lib/department-moves'
+
+const app = new Hono()
+app.route('/api/companies', companiesRoute)
+app.route('/api', invitationsRoute)
+
+function actAs(user: typeof OWNER) {
+  vi.mocked(getUserFromRequest).mockResolvedValue(user)
+}
+
+function jsonReq(method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method }
+  if (body) {
+    init.body = JSON.stringify(body)
+    init.headers = { 'Content-Type': 'application/json' }
+  }
+  return app.request(path, init)
+}
+
+async function createInvitation(body: Record<string, unknown>): Promise<string> {
+  actAs(OWNER)
+  const res = await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/invitations`, body)
+  expect(res.status).toBe(201)
+  return (await res.json() as { data: { token: string } }).data.token
+}
+
+function accept(token: string, user: typeof OWNER) {
+  actAs(user)
+  return jsonReq('POST', `/api/invitations/${token}/accept`)
+}
+
+describe('Invitation restrictions', () => {
+  beforeAll(() => {
+    initDatabase()
+    const timestamp = new Date().toISOString()
+
+    db.prepare(`
+      INSERT INTO companies (id, name, slug, owner_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(TEST_COMPANY_ID, 'Invites Co', 'invites-co', OWNER.id, timestamp, timestamp)
+
+    const insertDepartment = db.prepare(`
+      INSERT INTO departments (id, company_id, name, folder, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+    insertDepartment.run('dept-inv-sales', TEST_COMPANY_ID, '営業部', 'sales', timestamp, timestamp)
+    insertDepartment.run('dept-inv-hr', TEST_COMPANY_ID, '人事部', 'hr', timestamp, timestamp)
+    insertDepartment.run('dept-inv-legal', TEST_COMPANY_ID, '法務部', 'legal', timestamp, timestamp)
+
+    // Invites and manages the sales department only
+    db.prepare(`
+      INSERT INTO roles (id, company_id, name, capabilities, scope, created_at, updated_at)
+      VALUES ('role-inv-sales-recruiter', ?, 'Sales recruiter', ?, 'department', ?, ?)
+    `).run(TEST_COMPANY_ID, JSON.stringify(['invite', 'manage_departments', 'push']), timestamp, timestamp)
+
+    const insertMember = db.prepare(`
+      INSERT INTO memberships (id, user_id, company_id, role, scope_department_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `)
+    insertMember.run('m-inv-owner', OWNER.id, TEST_COMPANY_ID, 'owner', null, timestamp, timestamp)
+    insertMember.run('m-inv-scoped', RECRUITER.id, TEST_COMPANY_ID, 'role-inv-sales-recruiter', 'dept-inv-sales', timestamp, timestamp)
+  })
+
+  it('caps a domain-restricted link and rejects other domains', async () => {
+    const token = await createInvitation({ emailDomain: '@OurCo.jp', maxUses: 2 })
+
+    expect((await accept(token, newcomer(1, 'example.com'))).status).toBe(403)
+    expect((await accept(token, newcomer(1))).status).toBe(200)
+    expect((await accept(token, newcomer(2))).status).toBe(200)
+
+    const third = await accept(token, newcomer(3))
+    expect(third.status).toBe(410)
+    expect((await jsonReq('GET', `/api/invitations/${token}`)).status).toBe(410)
+  })
+
+  it('binds a link to one email address', async () => {
+    const token = await createInvitation({ email: 'New4@ourco.jp' })
+
+    expect((await accept(token, newcomer(5))).status).toBe(403)
+    expect((await accept(token, newcomer(4))).status).toBe(200)
+  })
+
+  it('pre-assigns departments and the first checkout folders', async () => {
+    const token = await createInvitation({ departmentIds: ['dept-inv-sales'], checkoutFolders: ['sales', 'shared'] })
+
+    const check = await jsonReq('GET', `/api/invitations/${token}`)
+    const info = await check.json() as { data: { departments: Array<{ name: string }> } }
+    expect(info.data.departments.map(d => d.name)).toEqual(['営業部'])
+
+    const member = newcomer(6)
+    expect((await accept(token, member)).status).toBe(200)
+
+    const assigned = db.prepare(`
+      SELECT department_id FROM department_members WHERE user_id = ?
+    `).all(member.id) as Array<{ department_id: string }>
+    expect(assigned.map(row => row.department_id)).toEqual(['dept-inv-sales'])
+
+    actAs(member)
+    const company = await jsonReq('GET', `/api/companies/${TEST_COMPANY_ID}`)
+    expect((await company.json() as { data: { checkoutFolders: string[] } }).data.checkoutFolders).toEqual(['sales', 'shared'])
+  })
+
+  it('skips departments archived after the link was created', async () => {
+    const token = await createInvitation({ departmentIds: ['dept-inv-legal', 'dept-inv-sales'], checkoutFolders: ['legal', 'sales'] })
+
+    // What archiving does to the database (lib/department-archive.ts)
+    const timestamp = new Date().toISOString()
+    db.prepare(`
+      UPDATE departments SET archived_at = ?, archived_from = folder, folder = ? WHERE id = 'dept-inv-legal'
+    `).run(timestamp, '.archive/legal-1')
+    rewritePathReferences(TEST_COMPANY_ID, 'legal', '.archive/legal-1', timestamp)
+
+    const check = await jsonReq('GET', `/api/invitations/${token}`)
+    const info = await check.json() as { data: { departments: Array<{ name: string }> } }
+    expect(info.data.departments.map(d => d.name)).toEqual(['営業部'])
+
+    const member = newcomer(7)
+    expect((await accept(token, member)).status).toBe(200)
+
+    const assigned = db.prepare(`
+      SELECT department_id FROM department_members WHERE user_id = ?
+    `).all(member.id) as Array<{ department_id: string }>
+    expect(assigned.map(row => row.department_id)).toEqual(['dept-inv-sales'])
+
+    actAs(member)
+    const company = await jsonReq('GET', `/api/companies/${TEST_COMPANY_ID}`)
+    expect((await company.json() as { data: { checkoutFolders: string[] } }).data.checkoutFolders).toEqual(['sales'])
+  })
+
+  it('only lets the creator pre-assign departments they manage', async () => {
+    actAs(RECRUITER)
+    const outside = await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/invitations`, { departmentIds: ['dept-inv-hr'] })
+    expect(outside.status).toBe(403)
+
+    const inside = await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/invitations`, { departmentIds: ['dept-inv-sales'] })
+    expect(inside.status).toBe(201)
+  })
+})
@@ -0,0 +1,271 @@
+/**
+ * Integration Test: large file store (Git LFS batch API).
+ *
+ * Objects are uploaded and downloaded through /api/git-http/:repo/info/lfs
+ * with the same Basic auth as git, verified against their content hash, and
+ * only stored while the company stays within its quota.
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { createHash } from 'crypto'
+import { execFileSync } from 'child_process'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import Database from 'better-sqlite3'
+
+const TEST_COMPANY_ID = 'company-large-files'
+const FULL_COMPANY_ID = 'company-large-files-full'
+
+const USER = { id: 'user-lfs', email: 'lfs@example.com', name: 'LFS', image: null, emailVerified: true }
+const SESSION_TOKEN = 'session-token-lfs'
+// Member without access to 人事部
+const RESTRICTED = { id: 'user-lfs-restricted', email: 'restricted@example.com', name: 'Restricted' }
+const RESTRICTED_TOKEN = 'session-token-lfs-restricted'
+
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn(),
+  getUsersByIds: vi.fn().mockReturnValue(new Map()),
+  auth: {
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null) },
+  },
+}))
+
+import { Hono } from 'hono'
+import { db, initDatabase } from '../../src/db'
+import { getUserFromRequest } from '../../src/lib/auth'
+import { DEFAULT_QUOTA_GB, MAX_QUOTA_GB } from '../../src/lib/large-files'
+import { configureBareRepo } from '../../src/routes/git'
+import { companiesRoute } from '../../src/routes/companies'
+import { gitHttpRoute } from '../../src/routes/git-http'
+
+const app = new Hono()
+app.route('/api/companies', companiesRoute)
+app.route('/api/git-http', gitHttpRoute)
+
+const AUTH = `Basic ${Buffer.from(`lfs:${SESSION_TOKEN}`).toString('base64')}`
+const RESTRICTED_AUTH = `Basic ${Buffer.from(`lfs:${RESTRICTED_TOKEN}`).toString('base64')}`
+
+const CONTENT = Buffer.from('a very large video, for the purposes of this test\n')
+const OID = createHash('sha256').update(CONTENT).digest('hex')
+
+function lfsBase(companyId: string) {
+  return `/api/git-http/${companyId}.git/info/lfs`
+}
+
+function batch(companyId: string, operation: string, objects: Array<{ oid: string; size: number }>, auth = AUTH) {
+  return app.request(`${lfsBase(companyId)}/objects/batch`, {
+    method: 'POST',
+    headers: { Authorization: auth, 'Content-Type': 'application/vnd.git-lfs+json' },
+    body: JSON.stringify({ operation, transfers: ['basic'], objects }),
+  })
+}
+
+function upload(companyId: string, oid: string, content: Buffer) {
+  return app.request(`${lfsBase(companyId)}/objects/${oid}`, {
+    method: 'PUT',
+    headers: { Authorization: AUTH, 'Content-Length': String(content.length) },
+    body: content,
+  })
+}
+
+function pointer(oid: string, size: number) {
+  return `version https://git-lfs.github.com/spec/v1\noid sha256:${oid}\nsize ${size}\n`
+}
+
+interface BatchObject {
+  oid: string
+  size: number
+  actions?: Record<string, { href: string; header: Record<string, string> }>
+  error?: { code: number; message: string }
+}
+
+describe('Large file store', () => {
+  let workDir: string | null = null
+
+  beforeAll(() => {
+    initDatabase()
+    const timestamp = new Date().toISOString()
+
+    for (const companyId of [TEST_COMPANY_ID, FULL_COMPANY_ID]) {
+      db.prepare(`
+        INSERT INTO companies (id, name, slug, owner_id, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(companyId, companyId, companyId, USER.id, timestamp, timestamp)
+      db.prepare(`
+        INSERT INTO memberships (id, user_id, company_id, role, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(`m-${companyId}`, USER.id, companyId, 'owner', timestamp, timestamp)
+
+      const repoPath = join(process.env.REPOS_DIR!, `${companyId}.git`)
+      execFileSync('git', ['init', '--bare', '--initial-branch=main', repoPath], { stdio: 'pipe' })
+      configureBareRepo(repoPath)
+    }
+
+    // A company whose stored objects already fill the default quota
+    db.prepare(`
+      INSERT INTO large_files (company_id, oid, size, uploaded_by, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(FULL_COMPANY_ID, 'f'.repeat(64), DEFAULT_QUOTA_GB * 1024 ** 3, USER.id, timestamp)
+
+    const authDb = new Database(join(process.env.DATA_DIR!, 'auth.sqlite'))
+    authDb.prepare(`
+      INSERT INTO user (id, email, name, emailVerified) VALUES (?, ?, ?, 1)
+    `).run(USER.id, USER.email, USER.name)
+    authDb.prepare(`
+      INSERT INTO session (id, userId, token, expiresAt) VALUES (?, ?, ?, ?)
+    `).run('session-lfs', USER.id, SESSION_TOKEN, new Date(Date.now() + 3600_000).toISOString())
+    authDb.prepare(`
+      INSERT INTO user (id, email, name, emailVerified) VALUES (?, ?, ?, 1)
+    `).run(RESTRICTED.id, RESTRICTED.email, RESTRICTED.name)
+    authDb.prepare(`
+      INSERT INTO session (id, userId, token, expiresAt) VALUES (?, ?, ?, ?)
+    `).run('session-lfs-restricted', RESTRICTED.id, RESTRICTED_TOKEN, new Date(Date.now() + 3600_000).toISOString())
+    authDb.close()
+
+    vi.mocked(getUserFromRequest).mockResolvedValue(USER)
+  })
+
+  afterAll(() => {
+    if (workDir) rmSync(workDir, { recursive: true, force: true })
+  })
+
+  it('requires authentication', async () => {
+    const res = await app.request(`${lfsBase(TEST_COMPANY_ID)}/objects/batch`, {
+      method: 'POST',
+      body: JSON.stringify({ operation: 'download', objects: [] }),
+    })
+    expect(res.status).toBe(401)
+  })
+
+  it('asks for an upload of a new object, then stores it', async () => {
+    const res = await batch(TEST_COMPANY_ID, 'upload', [{ oid: OID, size: CONTENT.length }])
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toBe('application/vnd.git-lfs+json')
+    const { objects } = await res.json() as { objects: BatchObject[] }
+    expect(objects[0].actions?.upload.href).toMatch(new RegExp(`/info/lfs/objects/${OID}$`))
+    expect(objects[0].actions?.upload.header.Authorization).toBe(AUTH)
+
+    const put = await upload(TEST_COMPANY_ID, OID, CONTENT)
+    expect(put.status).toBe(200)
+
+    // Stored objects need no upload
+    const again = await batch(TEST_COMPANY_ID, 'upload', [{ oid: OID, size: CONTENT.length }])
+    const { objects: stored } = await again.json() as { objects: BatchObject[] }
+    expect(stored[0].actions).toBeUndefined()
+    expect(stored[0].error).toBeUndefined()
+  })
+
+  it('downloads a stored object', async () => {
+    const res = await batch(TEST_COMPANY_ID, 'download', [{ oid: OID, size: CONTENT.length }])
+    const { objects } = await res.json() as { objects: BatchObject[] }
+    const href = new URL(objects[0].actions!.download.href)
+
+    const get = await app.request(href.pathname, { headers: { Authorization: AUTH } })
+    expect(get.status).toBe(200)
+    expect(Buffer.from(await get.arrayBuffer()).equals(CONTENT)).toBe(true)
+  })
+
+  it('reports missing objects on download', async () => {
+    const res = await batch(TEST_COMPANY_ID, 'download', [{ oid: 'a'.repeat(64), size: 1 }])
+    const { objects } = await res.json() as { objects: BatchObject[] }
+    expect(objects[0].error?.code).toBe(404)
+  })
+
+  it('keeps objects per company', async () => {
+    const get = await app.request(`${lfsBase(FULL_COMPANY_ID)}/objects/${OID}`, { headers: { Authorization: AUTH } })
+    expect(get.status).toBe(404)
+  })
+
+  it('rejects content that does not match its id', async () => {
+    const other = Buffer.from('something else entirely, same length as the test file\n').subarray(0, CONTENT.length)
+    const oid = createHash('sha256').update(CONTENT).update('x').digest('hex')
+    const put = await upload(TEST_COMPANY_ID, oid, other)
+    expect(put.status).toBe(409)
+
+    const get = await app.request(`${lfsBase(TEST_COMPANY_ID)}/objects/${oid}`, { headers: { Authorization: AUTH } })
+    expect(get.status).toBe(404)
+  })
+
+  it('refuses uploads beyond the quota', async () => {
+    const res = await batch(FULL_COMPANY_ID, 'upload', [{ oid: OID, size: CONTENT.length }])
+    const { objects } = await res.json() as { objects: BatchObject[] }
+    expect(objects[0].error?.code).toBe(507)
+
+    const put = await upload(FULL_COMPANY_ID, OID, CONTENT)
+    expect(put.status).toBe(507)
+  })
+
+  it('reports usage and accepts a quota up to the server maximum', async () => {
+    const usage = await app.request(`/api/companies/${TEST_COMPANY_ID}/large-files`)
+    expect(usage.status).toBe(200)
+    const { data } = await usage.json() as { data: { usedBytes: number; objectCount: number; quotaBytes: number } }
+    expect(data.usedBytes).toBe(CONTENT.length)
+    expect(data.objectCount).toBe(1)
+    expect(data.quotaBytes).toBe(DEFAULT_QUOTA_GB * 1024 ** 3)
+
+    const tooLarge = await app.request(`/api/companies/${TEST_COMPANY_ID}/settings`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ largeFileQuotaGb: MAX_QUOTA_GB + 1 }),
+    })
+    expect(tooLarge.status).toBe(400)
+
+    const lowered = await app.request(`/api/companies/${TEST_COMPANY_ID}/settings`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ largeFileQuotaGb: 1 }),
+    })
+    expect(lowered.status).toBe(200)
+    const after = await app.request(`/api/companies/${TEST_COMPANY_ID}/large-files`)
+    const { data: updated } = await after.json() as { data: { quotaBytes: number; quotaGb: number | null } }
+    expect(updated.quotaGb).toBe(1)
+    expect(updated.quotaBytes).toBe(1024 ** 3)
+  })
+
+  it('only serves objects a restricted member can reach through a readable pointer', async () => {
+    const OPEN_CONTENT = Buffer.from('a sales deck everyone may watch\n')
+    const OPEN_OID = createHash('sha256').update(OPEN_CONTENT).digest('hex')
+    expect((await upload(TEST_COMPANY_ID, OPEN_OID, OPEN_CONTENT)).status).toBe(200)
+
+    const timestamp = new Date().toISOString()
+    db.prepare(`
+      INSERT INTO memberships (id, user_id, company_id, role, created_at, updated_at)
+      VALUES (?, ?, ?, 'member', ?, ?)
+    `).run('m-lfs-restricted', RESTRICTED.id, TEST_COMPANY_ID, timestamp, timestamp)
+    // 人事部 is restricted to another user
+    db.prepare(`
+      INSERT INTO permissions (id, company_id, user_id, path, can_read, can_write, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 1, 1, ?, ?)
+    `).run('p-lfs', TEST_COMPANY_ID, USER.id, '人事部', timestamp, timestamp)
+
+    // Pointers: the first object in 人事部, the second in 営業部
+    workDir = mkdtempSync(join(tmpdir(), 'acb-lfs-'))
+    const clone = join(workDir, 'clone')
+    execFileSync('git', ['clone', join(process.env.REPOS_DIR!, `${TEST_COMPANY_ID}.git`), clone], { stdio: 'pipe' })
+    mkdirSync(join(clone, '人事部'))
+    mkdirSync(join(clone, '営業部'))
+    writeFileSync(join(clone, '人事部/interview.mp4'), pointer(OID, CONTENT.length))
+    writeFileSync(join(clone, '営業部/deck.mp4'), pointer(OPEN_OID, OPEN_CONTENT.length))
+    execFileSync('git', ['add', '.'], { cwd: clone, stdio: 'pipe' })
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-m', 'pointers'], { cwd: clone, stdio: 'pipe' })
+    execFileSync('git', ['push', 'origin', 'HEAD:main'], { cwd: clone, stdio: 'pipe' })
+
+    const res = await batch(TEST_COMPANY_ID, 'download', [
+      { oid: OID, size: CONTENT.length },
+      { oid: OPEN_OID, size: OPEN_CONTENT.length },
+    ], RESTRICTED_AUTH)
+    const { objects } = await res.json() as { objects: BatchObject[] }
+    expect(objects[0].error?.code).toBe(404)
+    expect(objects[1].actions?.download).toBeDefined()
+
+    const hidden = await app.request(`${lfsBase(TEST_COMPANY_ID)}/objects/${OID}`, { headers: { Authorization: RESTRICTED_AUTH } })
+    expect(hidden.status).toBe(404)
+    const open = await app.request(`${lfsBase(TEST_COMPANY_ID)}/objects/${OPEN_OID}`, { headers: { Authorization: RESTRICTED_AUTH } })
+    expect(Buffer.from(await open.arrayBuffer()).equals(OPEN_CONTENT)).toBe(true)
+
+    // The owner still gets both
+    const owner = await app.request(`${lfsBase(TEST_COMPANY_ID)}/objects/${OID}`, { headers: { Authorization: AUTH } })
+    expect(owner.status).toBe(200)
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * Integration Test: self-service profile updates.
+ *
+ * PATCH /api/me persists the profile through Better Auth, GET /api/me reads
+ * it back from the auth DB (not the cached session), and credentials can only
+ * be changed from a login session.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const USER = { id: 'user-me', email: 'me@example.com', name: 'Before', image: null, emailVerified: true }
+
+const { updateUser, changePassword, changeEmail } = vi.hoisted(() => ({
+  updateUser: vi.fn(),
+  changePassword: vi.fn(),
+  changeEmail: vi.fn(),
+}))
+
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn().mockResolvedValue({
+    id: 'user-me', email: 'me@example.com', name: 'Before', image: null, emailVerified: true,
+  }),
+  getUserById: vi.fn(),
+  getUsersByIds: vi.fn().mockReturnValue(new Map()),
+  auth: {
+    $context: Promise.resolve({ internalAdapter: { updateUser } }),
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null), changePassword, changeEmail },
+  },
+}))
+
+import { Hono } from 'hono'
+import { APIError } from 'better-auth/api'
+import { getUserById } from '../../src/lib/auth'
+import { meRoute } from '../../src/routes/me'
+
+const app = new Hono()
+app.route('/api/me', meRoute)
+
+function jsonReq(method: string, path: string, body?: unknown, headers: Record<string, string> = {}) {
+  const init: RequestInit = { method, headers: { ...headers } }
+  if (body) {
+    init.body = JSON.stringify(body)
+    init.headers = { ...headers, 'Content-Type': 'application/json' }
+  }
+  return app.request(path, init)
+}
+
+describe('Profile updates', () => {
+  beforeEach(() => {
+    vi.mocked(getUserById).mockReturnValue(USER)
+    updateUser.mockReset()
+    changePassword.mockReset()
+    changeEmail.mockReset()
+  })
+
+  it('persists name and avatar changes', async () => {
+    vi.mocked(getUserById).mockReturnValue({ ...USER, name: 'After', image: 'https://example.com/a.png' })
+
+    const res = await jsonReq('PATCH', '/api/me', { name: '  After ', image: 'https://example.com/a.png' })
+    expect(res.status).toBe(200)
+    expect(updateUser).toHaveBeenCalledWith(USER.id, { name: 'After', image: 'https://example.com/a.png' })
+    expect((await res.json() as { data: { name: string } }).data.name).toBe('After')
+  })
+
+  it('returns the stored profile rather than the cached session', async () => {
+    vi.mocked(getUserById).mockReturnValue({ ...USER, name: 'Renamed' })
+
+    const res = await jsonReq('GET', '/api/me')
+    expect((await res.json() as { data: { name: string } }).data.name).toBe('Renamed')
+  })
+
+  it('reports a wrong current password as a 400', async () => {
+    changePassword.mockRejectedValue(new APIError('BAD_REQUEST', { message: 'Invalid password' }))
+
+    const res = await jsonReq('POST', '/api/me/password', { currentPassword: 'wrong-pass', newPassword: 'new-password' })
+    expect(res.status).toBe(400)
+    expect((await res.json() as { error: string }).error).toBe('Invalid password')
+  })
+
+  it('reports an email that is already taken as a 409', async () => {
+    changeEmail.mockRejectedValue(new APIError('UNPROCESSABLE_ENTITY', { message: 'User already exists' }))
+
+    const res = await jsonReq('POST', '/api/me/email', { newEmail: 'taken@example.com' })
+    expect(res.status).toBe(409)
+  })
+
+  it('does not change credentials with an access token', async () => {
+    const res = await jsonReq('POST', '/api/me/email', { newEmail: 'new@example.com' }, {
+      Authorization: 'Bearer acb_pat_example',
+    })
+    expect(res.status).toBe(403)
+    expect(changeEmail).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * Integration Test: member roster import and export as CSV.
+ *
+ * Importing creates one email-bound invitation link per row and reports the
+ * rows it could not process; the exported roster uses the same columns.
+ */
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+
+const TEST_COMPANY_ID = 'company-csv'
+
+const OWNER = { id: 'user-csv-owner', email: 'owner@ourco.jp', name: 'Owner', image: null, emailVerified: true }
+const MEMBER = { id: 'user-csv-member', email: 'hanako@ourco.jp', name: '山田, 花子', image: null, emailVerified: true }
+
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn(),
+  getUserById: vi.fn(),
+  getUsersByIds: vi.fn(),
+  auth: {
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null) },
+  },
+}))
+
+import { Hono } from 'hono'
+import { db, initDatabase } from '../../src/db'
+import { getUserFromRequest, getUsersByIds } from '../../src/lib/auth'
+import { companiesRoute } from '../../src/routes/companies'
+import { invitationsRoute } from '../../src/routes/invitations'
+
+const app = new Hono()
+app.route('/api/companies', companiesRoute)
+app.route('/api', invitationsRoute)
+
+function jsonReq(method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method }
+  if (body) {
+    init.body = JSON.stringify(body)
+    init.headers = { 'Content-Type': 'application/json' }
+  }
+  return app.request(path, init)
+}
+
+interface ImportResult {
+  created: Array<{ row: number; email: string; name: string | null; token: string }>
+  errors: Array<{ row: number; email: string | null; error: string }>
+}
+
+describe('Member CSV import and export', () => {
+  beforeAll(() => {
+    initDatabase()
+    const timestamp = new Date().toISOString()
+
+    db.prepare(`
+      INSERT INTO companies (id, name, slug, owner_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(TEST_COMPANY_ID, 'CSV Co', 'csv-co', OWNER.id, timestamp, timestamp)
+
+    const insertDepartment = db.prepare(`
+      INSERT INTO departments (id, company_id, name, folder, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+    insertDepartment.run('dept-csv-sales', TEST_COMPANY_ID, '営業部', 'sales', timestamp, timestamp)
+    insertDepartment.run('dept-csv-hr', TEST_COMPANY_ID, '人事部', 'hr', timestamp, timestamp)
+
+    const insertMember = db.prepare(`
+      INSERT INTO memberships (id, user_id, company_id, role, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+    insertMember.run('m-csv-owner', OWNER.id, TEST_COMPANY_ID, 'owner', timestamp, timestamp)
+    insertMember.run('m-csv-member', MEMBER.id, TEST_COMPANY_ID, 'member', timestamp, timestamp)
+
+    db.prepare(`
+      INSERT INTO department_members (department_id, user_id, company_id, is_lead, created_by, created_at)
+      VALUES (?, ?, ?, 0, ?, ?)
+    `).run('dept-csv-sales', MEMBER.id, TEST_COMPANY_ID, OWNER.id, timestamp)
+
+    vi.mocked(getUserFromRequest).mockResolvedValue(OWNER)
+    vi.mocked(getUsersByIds).mockReturnValue(new Map([
+      [OWNER.id, { email: OWNER.email, name: OWNER.name }],
+      [MEMBER.id, { email: MEMBER.email, name: MEMBER.name }],
+    ]))
+  })
+
+  it('creates an invitation per row and reports rows it could not process', async () => {
+    const csv = [
+      'Email,Name,Role,Departments',
+      'taro@ourco.jp,佐藤 太郎,member,sales;人事部',
+      'jiro@ourco.jp,"Suzuki, Jiro",管理者,',
+      'not-an-email,Nobody,member,',
+      'hanako@ourco.jp,山田 花子,member,',
+      'saburo@ourco.jp,Saburo,owner,',
+      'shiro@ourco.jp,Shiro,member,legal',
+      'TARO@ourco.jp,Taro again,member,',
+    ].join('\r\n')
+
+    const res = await jsonReq('POST', `/api/companies/${TEST_COMPANY_ID}/invitations/import`, { csv })
+    expect(res.status).toBe(200)
+    const { data } = await res.json() as { data: ImportResult }
+
+    expect(data.created.map(r => [r.row, r.email, r.name])).toEqual([
+      [2, 'taro@ourco.jp', '佐藤 太郎'],
+      [3, 'jiro@ourco.jp', 'Suzuki, Jiro'],
+    ])
+    expect(data.errors.map(r => r.row)).toEqual([4, 5, 6, 7, 8])
+    expect(data.errors.find(r => r.row === 5)?.error).toBe('Already a member of this company')
+
+    const taro = db.prepare(`
+      SELECT role, email, name, max_uses, department_ids FROM invitations WHERE token = ?
+    `).get(data.created[0].token) as Record<string, unknown>
+    expect(taro).toMatchObject({ role: 'member', email: 'taro@ourco.jp', name: '佐藤 太郎', max_uses: 1 })
+    expect(JSON.parse(taro.department_ids as string).sort()).toEqual(['dept-csv-hr', 'dept-csv-sales'])
+
+    const jiro = db.prepare('SELECT role FROM invitations WHERE token = ?').get(data.created[1].token) as { role: string }
+    expect(jiro.role).toBe('admin')
+  })
+
+  it('exports the roster in the columns the import reads', async () => {
+    const res = await app.request(`/api/companies/${TEST_COMPANY_ID}/members?format=csv`)
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toContain('text/csv')
+
+    const text = (await res.text()).replace(/^\uFEFF/, '')
+    expect(text.split('\r\n')).toEqual([
+      'email,name,role,departments',
+      'owner@ourco.jp,Owner,owner,',
+      'hanako@ourco.jp,"山田, 花子",member,sales',
+      '',
+    ])
+  })
+})
@@ -0,0 +1,124 @@
+/**
+ * Integration Test: ownership transfer and leaving a company.
+ *
+ * Only the owner can hand the company over (confirming with its name), the
+ * previous owner stays on as an admin, and the owner cannot leave — so a
+ * company always has exactly one owner.
+ */
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+
+const TEST_COMPANY_ID = 'company-ownership'
+const COMPANY_NAME = 'Ownership Co'
+
+const OWNER = { id: 'user-own-owner', email: 'owner@example.com', name: 'Owner', image: null, emailVerified: true }
+const ADMIN = { id: 'user-own-admin', email: 'admin@example.com', name: 'Admin', image: null, emailVerified: true }
+const MEMBER = { id: 'user-own-member', email: 'member@example.com', name: 'Member', image: null, emailVerified: true }
+
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn(),
+  getUsersByIds: vi.fn().mockReturnValue(new Map()),
+  auth: {
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null) },
+  },
+}))
+
+import { Hono } from 'hono'
+import { db, initDatabase } from '../../src/db'
+import { getUserFromRequest } from '../../src/lib/auth'
+import { companiesRoute } from '../../src/routes/companies'
+
+const app = new Hono()
+app.route('/api/companies', companiesRoute)
+
+const base = `/api/companies/${TEST_COMPANY_ID}`
+
+function actAs(user: typeof OWNER) {
+  vi.mocked(getUserFromRequest).mockResolvedValue(user)
+}
+
+function jsonReq(method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method }
+  if (body) {
+    init.body = JSON.stringify(body)
+    init.headers = { 'Content-Type': 'application/json' }
+  }
+  return app.request(path, init)
+}
+
+function roleOf(userId: string): string | undefined {
+  const row = db.prepare(`
+    SELECT role FROM memberships WHERE user_id = ? AND company_id = ?
+  `).get(userId, TEST_COMPANY_ID) as { role: string } | undefined
+  return row?.role
+}
+
+describe('Ownership transfer', () => {
+  beforeAll(() => {
+    initDatabase()
+    const timestamp = new Date().toISOString()
+
+    db.prepare(`
+      INSERT INTO companies (id, name, slug, owner_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(TEST_COMPANY_ID, COMPANY_NAME, 'ownership-co', OWNER.id, timestamp, timestamp)
+
+    const insertMember = db.prepare(`
+      INSERT INTO memberships (id, user_id, company_id, role, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+    insertMember.run('m-own-owner', OWNER.id, TEST_COMPANY_ID, 'owner', timestamp, timestamp)
+    insertMember.run('m-own-admin', ADMIN.id, TEST_COMPANY_ID, 'admin', timestamp, timestamp)
+    insertMember.run('m-own-member', MEMBER.id, TEST_COMPANY_ID, 'member', timestamp, timestamp)
+  })
+
+  it('does not let an admin transfer ownership', async () => {
+    actAs(ADMIN)
+    const res = await jsonReq('POST', `${base}/transfer-ownership`, { userId: ADMIN.id, confirm: COMPANY_NAME })
+    expect(res.status).toBe(403)
+  })
+
+  it('rejects a target who is not a member', async () => {
+    actAs(OWNER)
+    const res = await jsonReq('POST', `${base}/transfer-ownership`, { userId: 'user-stranger', confirm: COMPANY_NAME })
+    expect(res.status).toBe(404)
+  })
+
+  it('does not let the owner add a second owner', async () => {
+    actAs(OWNER)
+    const res = await jsonReq('POST', `${base}/members`, { userId: 'user-second-owner', role: 'owner' })
+    expect(res.status).toBe(400)
+    expect(roleOf('user-second-owner')).toBeUndefined()
+  })
+
+  it('does not let the owner leave', async () => {
+    actAs(OWNER)
+    expect((await jsonReq('POST', `${base}/leave`)).status).toBe(409)
+    expect(roleOf(OWNER.id)).toBe('owner')
+  })
+
+  it('transfers ownership and keeps the previous owner as an admin', async () => {
+    actAs(OWNER)
+    const res = await jsonReq('POST', `${base}/transfer-ownership`, { userId: MEMBER.id, confirm: COMPANY_NAME })
+    expect(res.status).toBe(200)
+
+    const company = db.prepare('SELECT owner_id FROM companies WHERE id = ?').get(TEST_COMPANY_ID) as { owner_id: string }
+    expect(company.owner_id).toBe(MEMBER.id)
+    expect(roleOf(MEMBER.id)).toBe('owner')
+    expect(roleOf(OWNER.id)).toBe('admin')
+
+    const events = db.prepare(`
+      SELECT action FROM audit_events WHERE company_id = ? AND action = 'company.transfer'
+    `).all(TEST_COMPANY_ID)
+    expect(events).toHaveLength(1)
+  })
+
+  it('lets the previous owner leave afterwards', async () => {
+    actAs(OWNER)
+    expect((await jsonReq('POST', `${base}/leave`)).status).toBe(200)
+    expect(roleOf(OWNER.id)).toBeUndefined()
+
+    // No longer a member
+    expect((await jsonReq('POST', `${base}/leave`)).status).toBe(404)
+  })
+})
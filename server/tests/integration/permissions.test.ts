@@ -0,0 +1,131 @@
+/**
+ * Integration Test: Path-based permissions.
+ *
+ * Owners/admins grant members access to folders. A folder with at least
+ * one rule is restricted to the members that hold a rule on it.
+ */
+import { describe, it, expect, vi, beforeAll } from 'vitest'
+
+const TEST_COMPANY_ID = 'company-permissions-test'
+
+// Mock auth — authenticated as owner
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn().mockResolvedValue({
+    id: 'user-owner-perm',
+    email: 'owner@example.com',
+    name: 'Owner User',
+    image: null,
+    emailVerified: true,
+  }),
+  getUsersByIds: vi.fn().mockReturnValue(new Map()),
+  auth: {
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null) },
+  },
+}))
+
+import { Hono } from 'hono'
+import { db, initDatabase } from '../../src/db'
+import { permissionsRoute } from '../../src/routes/permissions'
+import { getPathAccess } from '../../src/lib/permissions'
+
+const app = new Hono()
+app.route('/api/companies/:companyId/permissions', permissionsRoute)
+
+function jsonReq(method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method }
+  if (body) {
+    init.body = JSON.stringify(body)
+    init.headers = { 'Content-Type': 'application/json' }
+  }
+  return app.request(path, init)
+}
+
+const base = `/api/companies/${TEST_COMPANY_ID}/permissions`
+
+beforeAll(() => {
+  initDatabase()
+
+  const timestamp = new Date().toISOString()
+
+  db.prepare(`
+    INSERT INTO companies (id, name, slug, owner_id, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(TEST_COMPANY_ID, 'Permissions Co', 'permissions-co', 'user-owner-perm', timestamp, timestamp)
+
+  const insertMember = db.prepare(`
+    INSERT INTO memberships (id, user_id, company_id, role, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `)
+  insertMember.run('m-perm-owner', 'user-owner-perm', TEST_COMPANY_ID, 'owner', timestamp, timestamp)
+  insertMember.run('m-perm-hr', 'user-hr', TEST_COMPANY_ID, 'member', timestamp, timestamp)
+  insertMember.run('m-perm-sales', 'user-sales', TEST_COMPANY_ID, 'member', timestamp, timestamp)
+})
+
+describe('Path permissions', () => {
+  let hrRuleId = ''
+
+  it('folders without rules are open to every member', () => {
+    expect(getPathAccess(TEST_COMPANY_ID, 'user-sales', '人事部/給与/2024.xlsx'))
+      .toEqual({ canRead: true, canWrite: true })
+  })
+
+  it('POST grants access and normalizes the path', async () => {
+    const res = await jsonReq('POST', base, {
+      userId: 'user-hr', path: '/人事部/給与/', canRead: true, canWrite: true,
+    })
+    expect(res.status).toBe(201)
+
+    const json = await res.json() as { data: { id: string; path: string; canWrite: boolean } }
+    expect(json.data.path).toBe('人事部/給与')
+    expect(json.data.canWrite).toBe(true)
+    hrRuleId = json.data.id
+  })
+
+  it('POST duplicate user/path → 409', async () => {
+    const res = await jsonReq('POST', base, { userId: 'user-hr', path: '人事部/給与' })
+    expect(res.status).toBe(409)
+  })
+
+  it('restricted folder is hidden from members without a rule', () => {
+    expect(getPathAccess(TEST_COMPANY_ID, 'user-sales', '人事部/給与/2024.xlsx'))
+      .toEqual({ canRead: false, canWrite: false })
+    expect(getPathAccess(TEST_COMPANY_ID, 'user-hr', '人事部/給与/2024.xlsx'))
+      .toEqual({ canRead: true, canWrite: true })
+  })
+
+  it('sibling folders stay open', () => {
+    expect(getPathAccess(TEST_COMPANY_ID, 'user-sales', '人事部/採用/募集要項.md').canWrite).toBe(true)
+  })
+
+  it('owners always have full access', () => {
+    expect(getPathAccess(TEST_COMPANY_ID, 'user-owner-perm', '人事部/給与/2024.xlsx'))
+      .toEqual({ canRead: true, canWrite: true })
+  })
+
+  it('PUT downgrades to read-only', async () => {
+    const res = await jsonReq('PUT', `${base}/${hrRuleId}`, { canWrite: false })
+    expect(res.status).toBe(200)
+    expect(getPathAccess(TEST_COMPANY_ID, 'user-hr', '人事部/給与/2024.xlsx'))
+      .toEqual({ canRead: true, canWrite: false })
+  })
+
+  it('GET lists rules for the company', async () => {
+    const res = await jsonReq('GET', base)
+    expect(res.status).toBe(200)
+
+    const json = await res.json() as { data: Array<{ id: string }> }
+    expect(json.data.map(p => p.id)).toEqual([hrRuleId])
+  })
+
+  it('DELETE removes the rule and reopens the folder', async () => {
+    const res = await jsonReq('DELETE', `${base}/${hrRuleId}`)
+    expect(res.status).toBe(200)
+    expect(getPathAccess(TEST_COMPANY_ID, 'user-sales', '人事部/給与/2024.xlsx').canRead).toBe(true)
+  })
+
+  it('DELETE unknown rule → 404', async () => {
+    const res = await jsonReq('DELETE', `${base}/does-not-exist`)
+    expect(res.status).toBe(404)
+  })
+})
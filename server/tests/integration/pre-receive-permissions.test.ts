@@ -0,0 +1,169 @@
+/**
+ * Integration Test: the pre-receive hook enforces folder write permissions.
+ *
+ * git-http exports the company's rules into the bare repo before each
+ * receive-pack and passes the pusher as REMOTE_USER. A push that touches a
+ * folder the pusher cannot write must be rejected with a per-file
+ * [PERMISSION_DENIED] list, and must leave the remote ref untouched.
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { execFileSync } from 'child_process'
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+
+const TEST_COMPANY_ID = 'company-hook-permissions'
+
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn().mockResolvedValue(null),
+  getUsersByIds: vi.fn().mockReturnValue(new Map([
+    ['user-hook-owner', { email: 'owner@example.com', name: 'Owner' }],
+    ['user-hook-hr', { email: 'hr@example.com', name: 'HR' }],
+    ['user-hook-sales', { email: 'sales@example.com', name: 'Sales' }],
+  ])),
+  auth: {
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null) },
+  },
+}))
+
+import { db, initDatabase } from '../../src/db'
+import { configureBareRepo } from '../../src/routes/git'
+import { writeHookPermissionsFile } from '../../src/lib/permissions'
+
+function git(args: string[], cwd?: string, env?: Record<string, string>): string {
+  return execFileSync('git', args, {
+    stdio: 'pipe',
+    ...(cwd ? { cwd } : {}),
+    ...(env ? { env: { ...process.env, ...env } } : {}),
+  }).toString()
+}
+
+// Push as a given user; returns the hook's stderr on rejection
+function pushAs(email: string, clone: string): { ok: boolean; stderr: string } {
+  try {
+    git(['push', 'origin', 'main'], clone, { REMOTE_USER: email })
+    return { ok: true, stderr: '' }
+  } catch (error) {
+    return { ok: false, stderr: String((error as { stderr?: Buffer }).stderr ?? '') }
+  }
+}
+
+function commitFile(clone: string, path: string, content: string) {
+  mkdirSync(join(clone, path, '..'), { recursive: true })
+  writeFileSync(join(clone, path), content)
+  git(['add', '.'], clone)
+  git(['commit', '-m', `update ${path}`], clone)
+}
+
+describe('pre-receive hook: folder write permissions', () => {
+  let workDir: string
+  let bareRepo: string
+  let clone: string
+
+  beforeAll(() => {
+    initDatabase()
+    const timestamp = new Date().toISOString()
+
+    db.prepare(`
+      INSERT INTO companies (id, name, slug, owner_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(TEST_COMPANY_ID, 'Hook Co', 'hook-co', 'user-hook-owner', timestamp, timestamp)
+
+    const insertMember = db.prepare(`
+      INSERT INTO memberships (id, user_id, company_id, role, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+    insertMember.run('m-hook-owner', 'user-hook-owner', TEST_COMPANY_ID, 'owner', timestamp, timestamp)
+    insertMember.run('m-hook-hr', 'user-hook-hr', TEST_COMPANY_ID, 'member', timestamp, timestamp)
+    insertMember.run('m-hook-sales', 'user-hook-sales', TEST_COMPANY_ID, 'member', timestamp, timestamp)
+
+    // 人事部/給与 is writable by HR only
+    db.prepare(`
+      INSERT INTO permissions (id, company_id, user_id, path, can_read, can_write, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 1, 1, ?, ?)
+    `).run('p-hook-hr', TEST_COMPANY_ID, 'user-hook-hr', '人事部/給与', timestamp, timestamp)
+
+    workDir = mkdtempSync(join(tmpdir(), 'acb-hook-perm-'))
+    bareRepo = join(workDir, 'company.git')
+    git(['init', '--bare', '--initial-branch=main', bareRepo])
+    configureBareRepo(bareRepo)
+    writeHookPermissionsFile(TEST_COMPANY_ID, bareRepo)
+
+    clone = join(workDir, 'clone')
+    git(['clone', bareRepo, clone])
+    git(['config', 'user.name', 'test'], clone)
+    git(['config', 'user.email', 'test@example.com'], clone)
+    commitFile(clone, 'README.md', 'hello\n')
+    expect(pushAs('owner@example.com', clone).ok).toBe(true)
+  })
+
+  afterAll(() => {
+    rmSync(workDir, { recursive: true, force: true })
+  })
+
+  it('rejects a push into a restricted folder and lists the file', () => {
+    const before = git(['-C', bareRepo, 'rev-parse', 'main']).trim()
+    commitFile(clone, '人事部/給与/2024.csv', 'salary\n')
+
+    const result = pushAs('sales@example.com', clone)
+    expect(result.ok).toBe(false)
+    expect(result.stderr).toContain('[PERMISSION_DENIED]')
+    expect(result.stderr).toContain('- 人事部/給与/2024.csv')
+    expect(git(['-C', bareRepo, 'rev-parse', 'main']).trim()).toBe(before)
+  })
+
+  it('accepts the same push from a member with write permission', () => {
+    expect(pushAs('hr@example.com', clone).ok).toBe(true)
+  })
+
+  it('rejects a restricted change that a later commit of the same push reverts', () => {
+    const before = git(['-C', bareRepo, 'rev-parse', 'main']).trim()
+    commitFile(clone, '人事部/給与/2024.csv', 'tampered\n')
+    commitFile(clone, '人事部/給与/2024.csv', 'salary\n')
+    commitFile(clone, '営業部/memo.md', 'memo\n')
+
+    const result = pushAs('sales@example.com', clone)
+    expect(result.ok).toBe(false)
+    expect(result.stderr).toContain('- 人事部/給与/2024.csv')
+    expect(result.stderr).not.toContain('- 営業部/memo.md')
+    expect(git(['-C', bareRepo, 'rev-parse', 'main']).trim()).toBe(before)
+
+    git(['reset', '--hard', 'origin/main'], clone)
+  })
+
+  it('lets members push to unrestricted folders', () => {
+    commitFile(clone, '営業部/提案書.md', 'proposal\n')
+    expect(pushAs('sales@example.com', clone).ok).toBe(true)
+  })
+
+  it('lets owners push anywhere', () => {
+    commitFile(clone, '人事部/給与/2025.csv', 'salary\n')
+    expect(pushAs('owner@example.com', clone).ok).toBe(true)
+  })
+
+  it('skips the check for pushes without REMOTE_USER (server-side operations)', () => {
+    commitFile(clone, '人事部/給与/2026.csv', 'salary\n')
+    expect(() => git(['push', 'origin', 'main'], clone, { REMOTE_USER: '' })).not.toThrow()
+  })
+  it('rejects a merge that puts a restricted file back to an older version', () => {
+    const old = git(['rev-parse', 'HEAD'], clone).trim()
+    commitFile(clone, '人事部/給与/2024.csv', 'raised\n')
+    expect(pushAs('hr@example.com', clone).ok).toBe(true)
+    const before = git(['-C', bareRepo, 'rev-parse', 'main']).trim()
+
+    // Merge the old commit back in, taking its version of the salary file
+    writeFileSync(join(clone, '人事部/給与/2024.csv'), git(['show', `${old}:人事部/給与/2024.csv`], clone))
+    git(['add', '.'], clone)
+    const tree = git(['write-tree'], clone).trim()
+    const merge = git(['commit-tree', tree, '-p', 'HEAD', '-p', old, '-m', 'merge old'], clone).trim()
+    git(['reset', '--hard', merge], clone)
+
+    const result = pushAs('sales@example.com', clone)
+    expect(result.ok).toBe(false)
+    expect(result.stderr).toContain('- 人事部/給与/2024.csv')
+    expect(git(['-C', bareRepo, 'rev-parse', 'main']).trim()).toBe(before)
+
+    git(['reset', '--hard', 'origin/main'], clone)
+  })
+})
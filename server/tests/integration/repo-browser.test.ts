@@ -0,0 +1,167 @@
+/**
+ * Integration Test: read-only repository browser.
+ *
+ * Trees, blobs, history and commit diffs come straight from the bare repo and
+ * never include paths the caller cannot read.
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { execFileSync } from 'child_process'
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+
+const TEST_COMPANY_ID = 'company-repo-browser'
+
+const OWNER = { id: 'user-browse-owner', email: 'owner@example.com', name: 'Owner', image: null, emailVerified: true }
+const HR = { id: 'user-browse-hr', email: 'hr@example.com', name: 'HR', image: null, emailVerified: true }
+const SALES = { id: 'user-browse-sales', email: 'sales@example.com', name: 'Sales', image: null, emailVerified: true }
+
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn(),
+  getUsersByIds: vi.fn().mockReturnValue(new Map()),
+  auth: {
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null) },
+  },
+}))
+
+import { Hono } from 'hono'
+import { db, initDatabase } from '../../src/db'
+import { getUserFromRequest } from '../../src/lib/auth'
+import { repoRoute } from '../../src/routes/repo'
+
+const app = new Hono()
+app.route('/api/companies/:companyId/repo', repoRoute)
+
+const BASE = `/api/companies/${TEST_COMPANY_ID}/repo`
+
+function actAs(user: typeof OWNER) {
+  vi.mocked(getUserFromRequest).mockResolvedValue(user)
+}
+
+function git(args: string[], cwd?: string): string {
+  return execFileSync('git', args, { stdio: 'pipe', ...(cwd ? { cwd } : {}) }).toString()
+}
+
+function commitFile(clone: string, path: string, content: string | Buffer, message = `update ${path}`) {
+  mkdirSync(join(clone, path, '..'), { recursive: true })
+  writeFileSync(join(clone, path), content)
+  git(['add', '.'], clone)
+  git(['commit', '-m', message], clone)
+  return git(['rev-parse', 'HEAD'], clone).trim()
+}
+
+async function tree(path: string) {
+  const res = await app.request(`${BASE}/tree?path=${encodeURIComponent(path)}`)
+  const body = await res.json() as { data?: { entries: Array<{ name: string; type: string }> } }
+  return { status: res.status, names: body.data?.entries.map(e => e.name) ?? [] }
+}
+
+describe('Repository browser', () => {
+  let workDir: string
+  let salaryCommit: string
+  let firstCommit: string
+
+  beforeAll(() => {
+    initDatabase()
+    const timestamp = new Date().toISOString()
+
+    db.prepare(`
+      INSERT INTO companies (id, name, slug, owner_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(TEST_COMPANY_ID, 'Browse Co', 'browse-co', OWNER.id, timestamp, timestamp)
+
+    const insertMember = db.prepare(`
+      INSERT INTO memberships (id, user_id, company_id, role, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+    insertMember.run('m-browse-owner', OWNER.id, TEST_COMPANY_ID, 'owner', timestamp, timestamp)
+    insertMember.run('m-browse-hr', HR.id, TEST_COMPANY_ID, 'member', timestamp, timestamp)
+    insertMember.run('m-browse-sales', SALES.id, TEST_COMPANY_ID, 'member', timestamp, timestamp)
+
+    // Only HR may read the salary folder
+    db.prepare(`
+      INSERT INTO permissions (id, company_id, user_id, path, can_read, can_write, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 1, 1, ?, ?)
+    `).run('p-browse-hr', TEST_COMPANY_ID, HR.id, '人事部/給与', timestamp, timestamp)
+
+    const repo = join(process.env.REPOS_DIR!, `${TEST_COMPANY_ID}.git`)
+    git(['init', '--bare', '--initial-branch=main', repo])
+
+    workDir = mkdtempSync(join(tmpdir(), 'acb-repo-browser-'))
+    const clone = join(workDir, 'clone')
+    git(['clone', repo, clone])
+    git(['config', 'user.name', 'Owner'], clone)
+    git(['config', 'user.email', OWNER.email], clone)
+    firstCommit = commitFile(clone, '人事部/採用/募集要項.md', '# 募集要項\n')
+    salaryCommit = commitFile(clone, '人事部/給与/2024.csv', 'name,amount\n', 'Add salary table')
+    commitFile(clone, 'logo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]))
+    git(['push', 'origin', 'main'], clone)
+  })
+
+  afterAll(() => {
+    rmSync(workDir, { recursive: true, force: true })
+  })
+
+  it('lists trees without folders the caller cannot read', async () => {
+    actAs(SALES)
+    expect(await tree('')).toEqual({ status: 200, names: ['人事部', 'logo.png'] })
+    expect(await tree('人事部')).toEqual({ status: 200, names: ['採用'] })
+    expect((await tree('人事部/給与')).status).toBe(403)
+
+    actAs(HR)
+    expect((await tree('人事部')).names).toEqual(['採用', '給与'])
+    expect((await tree('人事部/給与')).names).toEqual(['2024.csv'])
+  })
+
+  it('serves blobs with a content type and refuses unreadable ones', async () => {
+    actAs(SALES)
+    const markdown = await app.request(`${BASE}/blob?path=${encodeURIComponent('人事部/採用/募集要項.md')}`)
+    expect(markdown.status).toBe(200)
+    expect(markdown.headers.get('Content-Type')).toBe('text/markdown; charset=utf-8')
+    expect(markdown.headers.get('X-Content-Type-Options')).toBe('nosniff')
+    expect(await markdown.text()).toBe('# 募集要項\n')
+
+    const image = await app.request(`${BASE}/blob?path=logo.png`)
+    expect(image.headers.get('Content-Type')).toBe('image/png')
+    expect(new Uint8Array(await image.arrayBuffer())).toEqual(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]))
+
+    const salary = await app.request(`${BASE}/blob?path=${encodeURIComponent('人事部/給与/2024.csv')}`)
+    expect(salary.status).toBe(403)
+  })
+
+  it('leaves commits that only touched hidden folders out of the log', async () => {
+    actAs(SALES)
+    const res = await app.request(`${BASE}/commits`)
+    const { data } = await res.json() as { data: { commits: Array<{ sha: string; subject: string }>; nextSkip: number | null } }
+    expect(data.commits.map(c => c.subject)).toEqual(['update logo.png', 'update 人事部/採用/募集要項.md'])
+    expect(data.nextSkip).toBeNull()
+
+    actAs(HR)
+    const hrLog = await app.request(`${BASE}/commits?path=${encodeURIComponent('人事部/給与')}`)
+    const hrData = await hrLog.json() as { data: { commits: Array<{ sha: string }> } }
+    expect(hrData.data.commits.map(c => c.sha)).toEqual([salaryCommit])
+  })
+
+  it('shows a commit diff only to callers who can read what it changed', async () => {
+    actAs(SALES)
+    expect((await app.request(`${BASE}/commits/${salaryCommit}`)).status).toBe(404)
+
+    const first = await app.request(`${BASE}/commits/${firstCommit}`)
+    const { data } = await first.json() as { data: { files: Array<{ path: string; status: string }>; patch: string } }
+    expect(data.files).toEqual([{ path: '人事部/採用/募集要項.md', status: 'A' }])
+    expect(data.patch).toContain('+# 募集要項')
+
+    actAs(HR)
+    const salary = await app.request(`${BASE}/commits/${salaryCommit}`)
+    expect(salary.status).toBe(200)
+  })
+
+  it('rejects refs and paths that could escape the repository', async () => {
+    actAs(OWNER)
+    expect((await app.request(`${BASE}/tree?ref=--output=/tmp/x`)).status).toBe(400)
+    expect((await app.request(`${BASE}/tree?ref=main..HEAD`)).status).toBe(400)
+    expect((await app.request(`${BASE}/blob?path=../secrets`)).status).toBe(400)
+    expect((await app.request(`${BASE}/tree?ref=no-such-branch`)).status).toBe(404)
+  })
+})
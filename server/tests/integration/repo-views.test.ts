@@ -0,0 +1,219 @@
+/**
+ * Integration Test: read isolation serves members a filtered view repo.
+ *
+ * The view must not contain any object from folders the member cannot read,
+ * and commits pushed to the view must land in the company repo without
+ * touching the hidden folders or anything other members changed meanwhile.
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { execFileSync } from 'child_process'
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+
+const TEST_COMPANY_ID = 'company-repo-views'
+
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn().mockResolvedValue(null),
+  getUsersByIds: vi.fn().mockReturnValue(new Map([
+    ['user-view-owner', { email: 'owner@example.com', name: 'Owner' }],
+    ['user-view-hr', { email: 'hr@example.com', name: 'HR' }],
+    ['user-view-sales', { email: 'sales@example.com', name: 'Sales' }],
+  ])),
+  auth: {
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null) },
+  },
+}))
+
+import { db, initDatabase } from '../../src/db'
+import { configureBareRepo } from '../../src/routes/git'
+import { writeHookPermissionsFile } from '../../src/lib/permissions'
+import { syncUserView, usesRepoView } from '../../src/lib/repo-views'
+
+function git(args: string[], cwd?: string, env?: Record<string, string>): string {
+  return execFileSync('git', args, {
+    stdio: 'pipe',
+    ...(cwd ? { cwd } : {}),
+    ...(env ? { env: { ...process.env, ...env } } : {}),
+  }).toString()
+}
+
+function commitFile(clone: string, path: string, content: string) {
+  mkdirSync(join(clone, path, '..'), { recursive: true })
+  writeFileSync(join(clone, path), content)
+  git(['add', '.'], clone)
+  git(['commit', '-m', `update ${path}`], clone)
+}
+
+function cloneOf(repo: string, dir: string): string {
+  git(['clone', repo, dir])
+  git(['config', 'user.name', 'test'], dir)
+  git(['config', 'user.email', 'test@example.com'], dir)
+  return dir
+}
+
+describe('read isolation: per-user view repos', () => {
+  let workDir: string
+  let companyRepo: string
+  let ownerClone: string
+  let salaryBlob: string
+
+  beforeAll(() => {
+    initDatabase()
+    const timestamp = new Date().toISOString()
+
+    db.prepare(`
+      INSERT INTO companies (id, name, slug, owner_id, read_isolation, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 1, ?, ?)
+    `).run(TEST_COMPANY_ID, 'Views Co', 'views-co', 'user-view-owner', timestamp, timestamp)
+
+    const insertMember = db.prepare(`
+      INSERT INTO memberships (id, user_id, company_id, role, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+    insertMember.run('m-view-owner', 'user-view-owner', TEST_COMPANY_ID, 'owner', timestamp, timestamp)
+    insertMember.run('m-view-hr', 'user-view-hr', TEST_COMPANY_ID, 'member', timestamp, timestamp)
+    insertMember.run('m-view-sales', 'user-view-sales', TEST_COMPANY_ID, 'member', timestamp, timestamp)
+
+    db.prepare(`
+      INSERT INTO permissions (id, company_id, user_id, path, can_read, can_write, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 1, 1, ?, ?)
+    `).run('p-view-hr', TEST_COMPANY_ID, 'user-view-hr', '人事部/給与', timestamp, timestamp)
+
+    companyRepo = join(process.env.REPOS_DIR!, `${TEST_COMPANY_ID}.git`)
+    git(['init', '--bare', '--initial-branch=main', companyRepo])
+    configureBareRepo(companyRepo)
+
+    workDir = mkdtempSync(join(tmpdir(), 'acb-repo-views-'))
+    ownerClone = cloneOf(companyRepo, join(workDir, 'owner'))
+    commitFile(ownerClone, '人事部/採用/募集要項.md', 'jobs\n')
+    commitFile(ownerClone, '人事部/給与/2024.csv', 'salary\n')
+    git(['push', 'origin', 'main'], ownerClone)
+    salaryBlob = git(['rev-parse', 'HEAD:人事部/給与/2024.csv'], ownerClone).trim()
+  })
+
+  afterAll(() => {
+    rmSync(workDir, { recursive: true, force: true })
+  })
+
+  it('routes members through a view, owners through the company repo', async () => {
+    expect(await usesRepoView(TEST_COMPANY_ID, 'user-view-sales')).toBe(true)
+    expect(await usesRepoView(TEST_COMPANY_ID, 'user-view-owner')).toBe(false)
+  })
+
+  it('withholds hidden folders and their blobs from the view', async () => {
+    const view = await syncUserView(TEST_COMPANY_ID, 'user-view-sales')
+
+    const paths = git(['-c', 'core.quotePath=false', '-C', view, 'ls-tree', '-r', '--name-only', 'main'])
+    expect(paths).toContain('人事部/採用/募集要項.md')
+    expect(paths).not.toContain('給与')
+    expect(() => git(['-C', view, 'cat-file', '-e', salaryBlob])).toThrow()
+  })
+
+  it('shows the folder to members with a read rule', async () => {
+    const view = await syncUserView(TEST_COMPANY_ID, 'user-view-hr')
+    expect(git(['-C', view, 'cat-file', '-p', salaryBlob])).toBe('salary\n')
+  })
+
+  it('does not add commits that only touched hidden folders', async () => {
+    const view = await syncUserView(TEST_COMPANY_ID, 'user-view-sales')
+    const before = git(['-C', view, 'rev-parse', 'main']).trim()
+
+    commitFile(ownerClone, '人事部/給与/2025.csv', 'salary\n')
+    git(['push', 'origin', 'main'], ownerClone)
+
+    await syncUserView(TEST_COMPANY_ID, 'user-view-sales')
+    expect(git(['-C', view, 'rev-parse', 'main']).trim()).toBe(before)
+  })
+
+  it('replays pushes to the view onto the company repo', async () => {
+    const view = await syncUserView(TEST_COMPANY_ID, 'user-view-sales')
+    writeHookPermissionsFile(TEST_COMPANY_ID, view)
+
+    const salesClone = cloneOf(view, join(workDir, 'sales'))
+    commitFile(salesClone, '営業部/提案書.md', 'proposal\n')
+    git(['push', 'origin', 'main'], salesClone, { REMOTE_USER: 'sales@example.com' })
+    await syncUserView(TEST_COMPANY_ID, 'user-view-sales')
+
+    git(['pull', '--rebase', 'origin', 'main'], ownerClone)
+    expect(readFileSync(join(ownerClone, '営業部/提案書.md'), 'utf-8')).toBe('proposal\n')
+    expect(readFileSync(join(ownerClone, '人事部/給与/2025.csv'), 'utf-8')).toBe('salary\n')
+    expect(git(['log', '-1', '--format=%s'], ownerClone).trim()).toBe('update 営業部/提案書.md')
+
+    // The member's clone stays a fast-forward of the view
+    git(['pull', '--ff-only', 'origin', 'main'], salesClone)
+  })
+
+  it('rejects pushes into hidden folders at the view', () => {
+    const salesClone = join(workDir, 'sales')
+    commitFile(salesClone, '人事部/給与/2026.csv', 'guess\n')
+
+    expect(() => git(['push', 'origin', 'main'], salesClone, { REMOTE_USER: 'sales@example.com' })).toThrow()
+    git(['reset', '--hard', 'origin/main'], salesClone)
+  })
+
+  it('rejects a push to a file another member changed since the last sync', async () => {
+    commitFile(ownerClone, '営業部/提案書.md', 'proposal by owner\n')
+    git(['push', 'origin', 'main'], ownerClone)
+
+    const salesClone = join(workDir, 'sales')
+    commitFile(salesClone, '営業部/提案書.md', 'proposal by sales\n')
+    expect(() => git(['push', 'origin', 'main'], salesClone, { REMOTE_USER: 'sales@example.com' }))
+      .toThrow(/OUTDATED[\s\S]*営業部\/提案書\.md/)
+    git(['reset', '--hard', 'origin/main'], salesClone)
+
+    await syncUserView(TEST_COMPANY_ID, 'user-view-sales')
+    git(['pull', '--ff-only', 'origin', 'main'], salesClone)
+    expect(readFileSync(join(salesClone, '営業部/提案書.md'), 'utf-8')).toBe('proposal by owner\n')
+  })
+
+  it('merges a push with other files changed since the last sync', async () => {
+    commitFile(ownerClone, '営業部/価格表.md', 'prices\n')
+    git(['push', 'origin', 'main'], ownerClone)
+
+    const salesClone = join(workDir, 'sales')
+    commitFile(salesClone, '営業部/提案書.md', 'proposal v2\n')
+    git(['push', 'origin', 'main'], salesClone, { REMOTE_USER: 'sales@example.com' })
+    await syncUserView(TEST_COMPANY_ID, 'user-view-sales')
+
+    git(['pull', '--rebase', 'origin', 'main'], ownerClone)
+    expect(readFileSync(join(ownerClone, '営業部/価格表.md'), 'utf-8')).toBe('prices\n')
+    expect(readFileSync(join(ownerClone, '営業部/提案書.md'), 'utf-8')).toBe('proposal v2\n')
+    expect(git(['log', '-1', '--format=%P'], ownerClone).trim().split(' ')).toHaveLength(2)
+
+    git(['pull', '--ff-only', 'origin', 'main'], salesClone)
+    expect(readFileSync(join(salesClone, '営業部/価格表.md'), 'utf-8')).toBe('prices\n')
+  })
+
+  it('keeps both versions when a push races a change to the same file', async () => {
+    const view = await syncUserView(TEST_COMPANY_ID, 'user-view-sales')
+    const salesClone = join(workDir, 'sales')
+    commitFile(salesClone, '営業部/価格表.md', 'prices by sales\n')
+
+    // The owner's push lands after the hook of the view has run
+    commitFile(ownerClone, '営業部/価格表.md', 'prices by owner\n')
+    git(['push', 'origin', 'main'], ownerClone)
+    const base = readFileSync(join(view, 'acb-view-base'))
+    rmSync(join(view, 'acb-view-base'))
+    git(['push', 'origin', 'main'], salesClone, { REMOTE_USER: 'sales@example.com' })
+    writeFileSync(join(view, 'acb-view-base'), base)
+    await syncUserView(TEST_COMPANY_ID, 'user-view-sales')
+
+    git(['pull', '--rebase', 'origin', 'main'], ownerClone)
+    const merged = readFileSync(join(ownerClone, '営業部/価格表.md'), 'utf-8')
+    expect(merged).toContain('prices by owner')
+    expect(merged).toContain('prices by sales')
+    git(['pull', '--ff-only', 'origin', 'main'], salesClone)
+  })
+
+  it('reveals a folder once read access is granted', async () => {
+    db.prepare(`
+      INSERT INTO permissions (id, company_id, user_id, path, can_read, can_write, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 1, 0, ?, ?)
+    `).run('p-view-sales', TEST_COMPANY_ID, 'user-view-sales', '人事部/給与', new Date().toISOString(), new Date().toISOString())
+
+    const view = await syncUserView(TEST_COMPANY_ID, 'user-view-sales')
+    expect(git(['-C', view, 'cat-file', '-p', salaryBlob])).toBe('salary\n')
+  })
+})
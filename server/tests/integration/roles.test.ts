@@ -0,0 +1,180 @@
+/**
+ * Integration Test: capability-based roles.
+ *
+ * Custom roles grant exactly the capabilities they list, nobody can hand out
+ * capabilities they don't hold, and a department lead manages only their own
+ * department.
+ */
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+
+const TEST_COMPANY_ID = 'company-roles'
+
+const OWNER = { id: 'user-roles-owner', email: 'owner@example.com', name: 'Owner', image: null, emailVerified: true }
+const ADMIN = { id: 'user-roles-admin', email: 'admin@example.com', name: 'Admin', image: null, emailVerified: true }
+const AUDITOR = { id: 'user-roles-auditor', email: 'auditor@example.com', name: 'Auditor', image: null, emailVerified: true }
+const LEAD = { id: 'user-roles-lead', email: 'lead@example.com', name: 'Lead', image: null, emailVerified: true }
+
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn(),
+  getUsersByIds: vi.fn().mockReturnValue(new Map()),
+  auth: {
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null) },
+  },
+}))
+
+import { Hono } from 'hono'
+import { db, initDatabase } from '../../src/db'
+import { getUserFromRequest } from '../../src/lib/auth'
+import { companiesRoute } from '../../src/routes/companies'
+import { departmentsRoute } from '../../src/routes/departments'
+import { permissionsRoute } from '../../src/routes/permissions'
+import { auditRoute } from '../../src/routes/audit'
+import { rolesRoute } from '../../src/routes/roles'
+import { syncRoute } from '../../src/routes/sync'
+
+const app = new Hono()
+app.route('/api/companies', companiesRoute)
+app.route('/api/companies/:companyId/departments', departmentsRoute)
+app.route('/api/companies/:companyId/permissions', permissionsRoute)
+app.route('/api/companies/:companyId/audit', auditRoute)
+app.route('/api/companies/:companyId/roles', rolesRoute)
+app.route('/api/sync', syncRoute)
+
+const companyBase = `/api/companies/${TEST_COMPANY_ID}`
+
+function actAs(user: typeof OWNER) {
+  vi.mocked(getUserFromRequest).mockResolvedValue(user)
+}
+
+function jsonReq(method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method }
+  if (body) {
+    init.body = JSON.stringify(body)
+    init.headers = { 'Content-Type': 'application/json' }
+  }
+  return app.request(path, init)
+}
+
+describe('Custom roles', () => {
+  let auditorRoleId: string
+
+  beforeAll(async () => {
+    initDatabase()
+    const timestamp = new Date().toISOString()
+
+    db.prepare(`
+      INSERT INTO companies (id, name, slug, owner_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(TEST_COMPANY_ID, 'Roles Co', 'roles-co', OWNER.id, timestamp, timestamp)
+
+    const insertMember = db.prepare(`
+      INSERT INTO memberships (id, user_id, company_id, role, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+    insertMember.run('m-roles-owner', OWNER.id, TEST_COMPANY_ID, 'owner', timestamp, timestamp)
+    insertMember.run('m-roles-admin', ADMIN.id, TEST_COMPANY_ID, 'admin', timestamp, timestamp)
+    insertMember.run('m-roles-auditor', AUDITOR.id, TEST_COMPANY_ID, 'member', timestamp, timestamp)
+    insertMember.run('m-roles-lead', LEAD.id, TEST_COMPANY_ID, 'member', timestamp, timestamp)
+
+    const insertDepartment = db.prepare(`
+      INSERT INTO departments (id, company_id, name, folder, sort_order, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `)
+    insertDepartment.run('d-roles-sales', TEST_COMPANY_ID, '営業部', 'sales', 0, timestamp, timestamp)
+    insertDepartment.run('d-roles-hr', TEST_COMPANY_ID, '人事部', 'hr', 1, timestamp, timestamp)
+
+    actAs(OWNER)
+    const res = await jsonReq('POST', `${companyBase}/roles`, { name: '監査担当', capabilities: ['view_audit'] })
+    auditorRoleId = (await res.json() as { data: { id: string } }).data.id
+  })
+
+  it('lists built-in and custom roles with member counts', async () => {
+    actAs(AUDITOR)
+    const res = await jsonReq('GET', `${companyBase}/roles`)
+    expect(res.status).toBe(200)
+
+    const roles = (await res.json() as { data: Array<{ id: string; builtin: boolean; memberCount: number }> }).data
+    expect(roles.map(r => r.id)).toEqual(['owner', 'admin', 'member', 'department_lead', auditorRoleId])
+    expect(roles.find(r => r.id === 'member')?.memberCount).toBe(2)
+  })
+
+  it('grants exactly the capabilities of the assigned role', async () => {
+    actAs(ADMIN)
+    const assign = await jsonReq('PATCH', `${companyBase}/members/${AUDITOR.id}`, { role: auditorRoleId })
+    expect(assign.status).toBe(200)
+
+    actAs(AUDITOR)
+    expect((await jsonReq('GET', `${companyBase}/audit`)).status).toBe(200)
+
+    // No push capability: uploads are rejected before touching the repo
+    const form = new FormData()
+    form.set('companyId', TEST_COMPANY_ID)
+    form.set('path', 'sales/notes.md')
+    form.set('file', new File(['notes\n'], 'notes.md'))
+    const upload = await app.request('/api/sync/upload', { method: 'POST', body: form })
+    expect(upload.status).toBe(403)
+  })
+
+  it('does not let members hand out capabilities they lack', async () => {
+    actAs(OWNER)
+    const res = await jsonReq('POST', `${companyBase}/roles`, { name: 'リポジトリ管理', capabilities: ['delete_repo'] })
+    const roleId = (await res.json() as { data: { id: string } }).data.id
+
+    actAs(ADMIN)
+    expect((await jsonReq('PATCH', `${companyBase}/members/${LEAD.id}`, { role: roleId })).status).toBe(403)
+    expect((await jsonReq('PATCH', `${companyBase}/members/${OWNER.id}`, { role: 'member' })).status).toBe(403)
+  })
+
+  it('refuses to delete a role that is still assigned', async () => {
+    actAs(OWNER)
+    const res = await jsonReq('DELETE', `${companyBase}/roles/${auditorRoleId}`)
+    expect(res.status).toBe(409)
+  })
+})
+
+describe('Department lead', () => {
+  beforeAll(async () => {
+    actAs(OWNER)
+    // Assigning the lead role needs the department it manages
+    expect((await jsonReq('PATCH', `${companyBase}/members/${LEAD.id}`, { role: 'department_lead' })).status).toBe(400)
+    const res = await jsonReq('PATCH', `${companyBase}/members/${LEAD.id}`, {
+      role: 'department_lead',
+      departmentId: 'd-roles-sales',
+    })
+    expect(res.status).toBe(200)
+
+    await jsonReq('POST', `${companyBase}/permissions`, { userId: ADMIN.id, path: 'hr', canRead: true })
+  })
+
+  it('manages folder permissions inside their department only', async () => {
+    actAs(LEAD)
+    const own = await jsonReq('POST', `${companyBase}/permissions`, { userId: AUDITOR.id, path: 'sales/見積', canRead: true })
+    expect(own.status).toBe(201)
+
+    const other = await jsonReq('POST', `${companyBase}/permissions`, { userId: AUDITOR.id, path: 'hr', canRead: true })
+    expect(other.status).toBe(403)
+
+    const list = await (await jsonReq('GET', `${companyBase}/permissions`)).json() as { data: Array<{ path: string }> }
+    expect(list.data.map(p => p.path)).toEqual(['sales/見積'])
+  })
+
+  it('reorders only departments in their subtree', async () => {
+    actAs(LEAD)
+    const own = await jsonReq('POST', `${companyBase}/departments/reorder`, {
+      items: [{ id: 'd-roles-sales', parentId: null, sortOrder: 0 }],
+    })
+    expect(own.status).toBe(200)
+
+    const other = await jsonReq('POST', `${companyBase}/departments/reorder`, {
+      items: [{ id: 'd-roles-hr', parentId: null, sortOrder: 0 }],
+    })
+    expect(other.status).toBe(403)
+  })
+
+  it('cannot create top-level departments or manage members', async () => {
+    actAs(LEAD)
+    expect((await jsonReq('POST', `${companyBase}/departments`, { name: '新部署', folder: 'new' })).status).toBe(403)
+    expect((await jsonReq('DELETE', `${companyBase}/members/${AUDITOR.id}`)).status).toBe(403)
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * Integration Test: skill usage analytics.
+ *
+ * Desktop clients upload usage events in batches; the server aggregates them
+ * per skill and per department, without double-counting retried uploads or
+ * showing skills from folders the caller can't read.
+ */
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+
+const TEST_COMPANY_ID = 'company-skill-usage'
+
+const OWNER = { id: 'user-usage-owner', email: 'owner@example.com', name: 'Owner', image: null, emailVerified: true }
+const SALES = { id: 'user-usage-sales', email: 'sales@example.com', name: 'Sales', image: null, emailVerified: true }
+
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn(),
+  getUsersByIds: vi.fn().mockReturnValue(new Map()),
+  auth: {
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null) },
+  },
+}))
+
+import { Hono } from 'hono'
+import { db, initDatabase } from '../../src/db'
+import { getUserFromRequest } from '../../src/lib/auth'
+import { skillsRoute } from '../../src/routes/skills'
+
+const app = new Hono()
+app.route('/api/companies/:companyId/skills', skillsRoute)
+
+const base = `/api/companies/${TEST_COMPANY_ID}/skills/usage`
+
+function actAs(user: typeof OWNER) {
+  vi.mocked(getUserFromRequest).mockResolvedValue(user)
+}
+
+function report(events: unknown[]) {
+  return app.request(base, {
+    method: 'POST',
+    body: JSON.stringify({ events }),
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+function usageEvent(id: string, skillPath: string, outcome = 'success') {
+  return { id, skillPath, source: 'slash', durationMs: 30_000, toolCalls: 4, outcome, occurredAt: new Date().toISOString() }
+}
+
+interface UsageSummary {
+  data: {
+    skills: Array<{ skillPath: string; uses: number; users: number; errors: number; avgDurationMs: number }>
+    departments: Array<{ folder: string; departmentName: string | null; uses: number; users: number; skills: number }>
+  }
+}
+
+describe('Skill usage analytics', () => {
+  beforeAll(async () => {
+    initDatabase()
+    const timestamp = new Date().toISOString()
+
+    db.prepare(`
+      INSERT INTO companies (id, name, slug, owner_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(TEST_COMPANY_ID, 'Usage Co', 'usage-co', OWNER.id, timestamp, timestamp)
+
+    const insertMember = db.prepare(`
+      INSERT INTO memberships (id, user_id, company_id, role, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+    insertMember.run('m-usage-owner', OWNER.id, TEST_COMPANY_ID, 'owner', timestamp, timestamp)
+    insertMember.run('m-usage-sales', SALES.id, TEST_COMPANY_ID, 'member', timestamp, timestamp)
+
+    db.prepare(`
+      INSERT INTO departments (id, company_id, name, folder, sort_order, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 0, ?, ?)
+    `).run('d-usage-sales', TEST_COMPANY_ID, '営業部', 'sales', timestamp, timestamp)
+
+    // 人事部 is restricted to the owner
+    db.prepare(`
+      INSERT INTO permissions (id, company_id, user_id, path, can_read, can_write, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 1, 1, ?, ?)
+    `).run('p-usage-hr', TEST_COMPANY_ID, OWNER.id, '人事部', timestamp, timestamp)
+
+    actAs(OWNER)
+    await report([
+      usageEvent('evt-owner-1', 'sales/.claude/skills/proposal'),
+      usageEvent('evt-owner-2', 'sales/.claude/skills/proposal', 'error'),
+      usageEvent('evt-owner-3', '人事部/.claude/skills/payroll'),
+    ])
+    actAs(SALES)
+    await report([
+      usageEvent('evt-sales-1', 'sales/.claude/skills/proposal'),
+      usageEvent('evt-sales-2', '.claude/skills/minutes'),
+    ])
+  })
+
+  it('aggregates uses and distinct users per skill', async () => {
+    actAs(OWNER)
+    const res = await app.request(base)
+    expect(res.status).toBe(200)
+
+    const json = await res.json() as UsageSummary
+    expect(json.data.skills[0]).toMatchObject({
+      skillPath: 'sales/.claude/skills/proposal',
+      uses: 3,
+      users: 2,
+      errors: 1,
+      avgDurationMs: 30_000,
+    })
+    expect(json.data.departments.find(d => d.folder === 'sales')).toMatchObject({
+      departmentName: '営業部',
+      uses: 3,
+      users: 2,
+      skills: 1,
+    })
+  })
+
+  it('ignores events that were already uploaded', async () => {
+    actAs(SALES)
+    const res = await report([usageEvent('evt-sales-1', 'sales/.claude/skills/proposal')])
+    expect(res.status).toBe(200)
+    expect((await res.json() as { data: { accepted: number } }).data.accepted).toBe(0)
+
+    const summary = await (await app.request(base)).json() as UsageSummary
+    expect(summary.data.skills.find(s => s.skillPath === 'sales/.claude/skills/proposal')?.uses).toBe(3)
+  })
+
+  it('hides skills and departments the caller cannot read', async () => {
+    actAs(SALES)
+    const json = await (await app.request(base)).json() as UsageSummary
+    expect(json.data.skills.map(s => s.skillPath)).not.toContain('人事部/.claude/skills/payroll')
+    expect(json.data.departments.map(d => d.folder)).not.toContain('人事部')
+    expect(json.data.departments.map(d => d.folder)).toContain('')
+  })
+
+  it('limits the window with from/to', async () => {
+    actAs(OWNER)
+    const json = await (await app.request(`${base}?to=2000-01-01T00:00:00Z`)).json() as UsageSummary
+    expect(json.data.skills).toEqual([])
+  })
+})
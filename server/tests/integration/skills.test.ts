@@ -0,0 +1,181 @@
+/**
+ * Integration Test: server-side skill catalog.
+ *
+ * Skills are indexed from the company repo's main branch (not from any
+ * checkout), searched by name/description/body, and hidden from members who
+ * can't read the folder they live in.
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { execFileSync } from 'child_process'
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+
+const TEST_COMPANY_ID = 'company-skills'
+
+const OWNER = { id: 'user-skills-owner', email: 'owner@example.com', name: 'Owner', image: null, emailVerified: true }
+const SALES = { id: 'user-skills-sales', email: 'sales@example.com', name: 'Sales', image: null, emailVerified: true }
+
+vi.mock('../../src/lib/auth', () => ({
+  getUserFromRequest: vi.fn(),
+  getUsersByIds: vi.fn().mockReturnValue(new Map()),
+  auth: {
+    handler: vi.fn().mockResolvedValue(new Response('', { status: 200 })),
+    api: { getSession: vi.fn().mockResolvedValue(null) },
+  },
+}))
+
+import { Hono } from 'hono'
+import { db, initDatabase } from '../../src/db'
+import { getUserFromRequest } from '../../src/lib/auth'
+import { skillsRoute } from '../../src/routes/skills'
+
+const app = new Hono()
+app.route('/api/companies/:companyId/skills', skillsRoute)
+
+function git(args: string[], cwd?: string): string {
+  return execFileSync('git', args, { stdio: 'pipe', ...(cwd ? { cwd } : {}) }).toString()
+}
+
+function writeFile(root: string, path: string, content: string) {
+  mkdirSync(join(root, path, '..'), { recursive: true })
+  writeFileSync(join(root, path), content)
+}
+
+interface SkillList {
+  data: Array<{
+    name: string
+    description: string
+    path: string
+    folder: string
+    departmentName: string | null
+    isNurturing: boolean
+    files: { rules: string[]; references: string[]; scripts: string[]; tools: Array<{ name: string; displayName: string; startCommand?: string }> }
+  }>
+}
+
+async function listSkills(user: typeof OWNER, query = ''): Promise<SkillList['data']> {
+  vi.mocked(getUserFromRequest).mockResolvedValue(user)
+  const res = await app.request(`/api/companies/${TEST_COMPANY_ID}/skills${query}`)
+  expect(res.status).toBe(200)
+  return ((await res.json()) as SkillList).data
+}
+
+describe('Skill catalog', () => {
+  let workDir: string
+  let clone: string
+
+  beforeAll(() => {
+    initDatabase()
+    const timestamp = new Date().toISOString()
+
+    db.prepare(`
+      INSERT INTO companies (id, name, slug, owner_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(TEST_COMPANY_ID, 'Skills Co', 'skills-co', OWNER.id, timestamp, timestamp)
+
+    const insertMember = db.prepare(`
+      INSERT INTO memberships (id, user_id, company_id, role, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+    insertMember.run('m-skills-owner', OWNER.id, TEST_COMPANY_ID, 'owner', timestamp, timestamp)
+    insertMember.run('m-skills-sales', SALES.id, TEST_COMPANY_ID, 'member', timestamp, timestamp)
+
+    db.prepare(`
+      INSERT INTO departments (id, company_id, name, folder, sort_order, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 0, ?, ?)
+    `).run('d-skills-sales', TEST_COMPANY_ID, '営業部', 'sales', timestamp, timestamp)
+
+    // 人事部 is restricted to someone else
+    db.prepare(`
+      INSERT INTO permissions (id, company_id, user_id, path, can_read, can_write, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 1, 1, ?, ?)
+    `).run('p-skills-hr', TEST_COMPANY_ID, OWNER.id, '人事部', timestamp, timestamp)
+
+    const companyRepo = join(process.env.REPOS_DIR!, `${TEST_COMPANY_ID}.git`)
+    git(['init', '--bare', '--initial-branch=main', companyRepo])
+
+    workDir = mkdtempSync(join(tmpdir(), 'acb-skills-'))
+    clone = join(workDir, 'clone')
+    git(['clone', companyRepo, clone])
+    git(['config', 'user.name', 'test'], clone)
+    git(['config', 'user.email', 'test@example.com'], clone)
+
+    writeFile(clone, 'sales/.claude/skills/proposal/SKILL.md',
+      '---\nname: 提案書作成\ndescription: 顧客向けの提案書を作る\nstatus: nurturing\n---\n\n見積もりテンプレートを使う\n')
+    writeFile(clone, 'sales/.claude/skills/proposal/rules/tone.md', 'tone\n')
+    writeFile(clone, 'sales/.claude/skills/proposal/rules/notes.txt', 'not a rule\n')
+    writeFile(clone, 'sales/.claude/skills/proposal/references/price.pdf', 'pdf\n')
+    writeFile(clone, 'sales/.claude/skills/proposal/scripts/build.sh', 'echo\n')
+    writeFile(clone, 'sales/.claude/skills/proposal/tools/viewer/package.json',
+      JSON.stringify({ name: 'proposal-viewer', scripts: { start: 'node .' } }))
+    writeFile(clone, 'sales/.claude/skills/proposal/tools/viewer/index.js', '\n')
+    writeFile(clone, '.claude/skills/minutes/SKILL.md', '# 議事録\n\n会議の要点をまとめる\n')
+    writeFile(clone, '人事部/.claude/skills/payroll/SKILL.md', '---\nname: 給与計算\ndescription: 月次の給与計算\n---\n')
+    git(['add', '.'], clone)
+    git(['commit', '-m', 'add skills'], clone)
+    git(['push', 'origin', 'main'], clone)
+  })
+
+  afterAll(() => {
+    rmSync(workDir, { recursive: true, force: true })
+  })
+
+  it('indexes frontmatter and skill files from the repo', async () => {
+    const skills = await listSkills(OWNER)
+    expect(skills.map(s => s.path).sort()).toEqual([
+      '.claude/skills/minutes',
+      'sales/.claude/skills/proposal',
+      '人事部/.claude/skills/payroll',
+    ])
+
+    const proposal = skills.find(s => s.path === 'sales/.claude/skills/proposal')!
+    expect(proposal).toMatchObject({
+      name: '提案書作成',
+      description: '顧客向けの提案書を作る',
+      folder: 'sales',
+      departmentName: '営業部',
+      isNurturing: true,
+    })
+    expect(proposal.files).toEqual({
+      rules: ['tone.md'],
+      references: ['price.pdf'],
+      scripts: ['build.sh'],
+      tools: [{ name: 'viewer', displayName: 'proposal-viewer', hasPackageJson: true, startCommand: 'start' }],
+    })
+
+    // No frontmatter: named after its directory
+    const minutes = skills.find(s => s.path === '.claude/skills/minutes')!
+    expect(minutes).toMatchObject({ name: 'minutes', folder: '', departmentName: null })
+  })
+
+  it('searches name, description and SKILL.md body', async () => {
+    expect((await listSkills(OWNER, '?q=' + encodeURIComponent('提案書'))).map(s => s.name)).toEqual(['提案書作成'])
+    expect((await listSkills(OWNER, '?q=' + encodeURIComponent('会議 要点'))).map(s => s.name)).toEqual(['minutes'])
+    expect(await listSkills(OWNER, '?q=' + encodeURIComponent('会議 給与'))).toEqual([])
+  })
+
+  it('filters by folder', async () => {
+    expect((await listSkills(OWNER, '?folder=')).map(s => s.name)).toEqual(['minutes'])
+  })
+
+  it('hides skills in folders the member cannot read', async () => {
+    const skills = await listSkills(SALES)
+    expect(skills.map(s => s.name).sort()).toEqual(['minutes', '提案書作成'])
+  })
+
+  it('picks up new pushes', async () => {
+    git(['rm', '-q', '-r', '.claude'], clone)
+    git(['commit', '-m', 'remove minutes'], clone)
+    git(['push', 'origin', 'main'], clone)
+
+    const skills = await listSkills(OWNER)
+    expect(skills.map(s => s.name)).not.toContain('minutes')
+  })
+
+  it('returns 404 for non-members', async () => {
+    vi.mocked(getUserFromRequest).mockResolvedValue({ ...SALES, id: 'user-skills-outsider' })
+    const res = await app.request(`/api/companies/${TEST_COMPANY_ID}/skills`)
+    expect(res.status).toBe(404)
+  })
+})
@@ -0,0 +1,267 @@
+/**
+ * Integration Test: OIDC single sign-on with just-in-time membership.
+ *
+ * Runs the real Better Auth handler against a local mock identity provider
+ * (discovery, token and JWKS endpoints; ID tokens signed with a throwaway RSA
+ * key). A first SSO sign-in adds the user to the configured company and role;
+ * every sign-in brings IdP-managed department assignments in line with the
+ * user's groups. An existing local account is only taken over when the IdP
+ * vouches for its email.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import http from 'http'
+import net from 'net'
+import path from 'path'
+import Database from 'better-sqlite3'
+import { createSign, generateKeyPairSync, randomBytes } from 'crypto'
+
+const TEST_COMPANY_ID = 'company-sso'
+const CLIENT_ID = 'acb-client'
+
+// --- Mock identity provider ---
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'test-key', alg: 'RS256', use: 'sig' }
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url')
+}
+
+function signIdToken(claims: Record<string, unknown>): string {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: jwk.kid }))
+  const payload = base64url(JSON.stringify(claims))
+  const signature = createSign('RSA-SHA256').update(`${header}.${payload}`).sign(privateKey)
+  return `${header}.${payload}.${base64url(signature)}`
+}
+
+interface IdpProfile {
+  sub: string
+  email: string
+  email_verified?: boolean
+  name: string
+  groups: string[]
+}
+
+// Authorization codes handed out by the IdP, with the claims they stand for
+const codes = new Map<string, IdpProfile>()
+
+const idp = http.createServer((req, res) => {
+  const url = new URL(req.url!, issuer)
+  res.setHeader('Content-Type', 'application/json')
+  if (url.pathname === '/.well-known/openid-configuration') {
+    res.end(JSON.stringify({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+    }))
+  } else if (url.pathname === '/jwks') {
+    res.end(JSON.stringify({ keys: [jwk] }))
+  } else if (url.pathname === '/token') {
+    let body = ''
+    req.on('data', (chunk) => { body += chunk })
+    req.on('end', () => {
+      const profile = codes.get(new URLSearchParams(body).get('code') ?? '')
+      if (!profile) {
+        res.statusCode = 400
+        res.end(JSON.stringify({ error: 'invalid_grant' }))
+        return
+      }
+      const issuedAt = Math.floor(Date.now() / 1000)
+      res.end(JSON.stringify({
+        access_token: randomBytes(16).toString('hex'),
+        token_type: 'Bearer',
+        expires_in: 3600,
+        id_token: signIdToken({ ...profile, iss: issuer, aud: CLIENT_ID, iat: issuedAt, exp: issuedAt + 300 }),
+      }))
+    })
+  } else {
+    res.statusCode = 404
+    res.end('{}')
+  }
+})
+
+await new Promise<void>((resolve) => idp.listen(0, '127.0.0.1', resolve))
+const issuer = `http://127.0.0.1:${(idp.address() as net.AddressInfo).port}`
+
+// --- Server configuration (read when lib/auth is first imported) ---
+
+process.env.AUTH_SECRET = 'test-secret-for-sso-integration-tests'
+process.env.SSO_OIDC_ISSUER = issuer
+process.env.SSO_OIDC_CLIENT_ID = CLIENT_ID
+process.env.SSO_OIDC_CLIENT_SECRET = 'acb-secret'
+process.env.SSO_COMPANY = 'sso-co'
+process.env.SSO_ROLE = 'admin'
+process.env.SSO_GROUP_DEPARTMENTS = 'eng=engineering,eng-leads=engineering,sales=sales'
+
+// tests/setup.ts only creates the user and session tables
+const authDb = new Database(path.join(process.env.DATA_DIR!, 'auth.sqlite'))
+authDb.exec(`
+  CREATE TABLE account (
+    id TEXT PRIMARY KEY, accountId TEXT NOT NULL, providerId TEXT NOT NULL, userId TEXT NOT NULL,
+    accessToken TEXT, refreshToken TEXT, idToken TEXT, accessTokenExpiresAt TEXT,
+    refreshTokenExpiresAt TEXT, scope TEXT, password TEXT, createdAt TEXT, updatedAt TEXT
+  );
+  CREATE TABLE verification (
+    id TEXT PRIMARY KEY, identifier TEXT NOT NULL, value TEXT NOT NULL, expiresAt TEXT NOT NULL,
+    createdAt TEXT, updatedAt TEXT
+  );
+`)
+authDb.close()
+
+const { auth } = await import('../../src/lib/auth')
+const { db, initDatabase } = await import('../../src/db')
+
+const APP = 'http://localhost:3001'
+
+// Drive the redirect flow the way a browser would: start sign-in, let the IdP
+// "authenticate" the user, then follow the redirect back to the callback
+async function signInWithSso(profile: IdpProfile): Promise<Response> {
+  const start = await auth.handler(new Request(`${APP}/api/auth/sign-in/sso`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Origin: APP },
+    body: JSON.stringify({ providerId: 'oidc', callbackURL: `${APP}/` }),
+  }))
+  expect(start.status).toBe(200)
+  const { url } = await start.json() as { url: string }
+  const cookies = start.headers.getSetCookie().map(cookie => cookie.split(';')[0]).join('; ')
+
+  const authorize = new URL(url)
+  expect(authorize.origin).toBe(issuer)
+  const code = randomBytes(8).toString('hex')
+  codes.set(code, profile)
+
+  const callback = new URL(authorize.searchParams.get('redirect_uri')!)
+  callback.searchParams.set('code', code)
+  callback.searchParams.set('state', authorize.searchParams.get('state')!)
+  return auth.handler(new Request(callback, { headers: { Cookie: cookies } }))
+}
+
+function findUserId(email: string): string {
+  const authDb = new Database(path.join(process.env.DATA_DIR!, 'auth.sqlite'), { readonly: true })
+  try {
+    return (authDb.prepare('SELECT id FROM user WHERE email = ?').get(email) as { id: string }).id
+  } finally {
+    authDb.close()
+  }
+}
+
+function departmentsOf(userId: string): string[] {
+  return (db.prepare(`
+    SELECT d.folder FROM department_members dm JOIN departments d ON d.id = dm.department_id
+    WHERE dm.user_id = ? ORDER BY d.folder
+  `).all(userId) as Array<{ folder: string }>).map(row => row.folder)
+}
+
+describe('SSO sign-in', () => {
+  beforeAll(() => {
+    initDatabase()
+    const timestamp = new Date().toISOString()
+
+    db.prepare(`
+      INSERT INTO companies (id, name, slug, owner_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(TEST_COMPANY_ID, 'SSO Co', 'sso-co', 'user-sso-owner', timestamp, timestamp)
+
+    const insertDepartment = db.prepare(`
+      INSERT INTO departments (id, company_id, name, folder, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+    insertDepartment.run('dept-sso-eng', TEST_COMPANY_ID, 'Engineering', 'engineering', timestamp, timestamp)
+    insertDepartment.run('dept-sso-sales', TEST_COMPANY_ID, 'Sales', 'sales', timestamp, timestamp)
+    insertDepartment.run('dept-sso-design', TEST_COMPANY_ID, 'Design', 'design', timestamp, timestamp)
+  })
+
+  afterAll(() => {
+    idp.close()
+  })
+
+  function ssoAccountsOf(userId: string): number {
+    const authDb = new Database(path.join(process.env.DATA_DIR!, 'auth.sqlite'), { readonly: true })
+    try {
+      return (authDb.prepare(`
+        SELECT COUNT(*) AS count FROM account WHERE userId = ? AND providerId = 'oidc'
+      `).get(userId) as { count: number }).count
+    } finally {
+      authDb.close()
+    }
+  }
+
+  it('signs in and provisions membership and departments from IdP groups', async () => {
+    const res = await signInWithSso({ sub: 'idp-alice', email: 'alice@example.com', name: 'Alice', groups: ['eng', 'other'] })
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe(`${APP}/`)
+    expect(res.headers.getSetCookie().some(cookie => cookie.startsWith('better-auth.session_token='))).toBe(true)
+
+    const userId = findUserId('alice@example.com')
+    const membership = db.prepare(`
+      SELECT role FROM memberships WHERE user_id = ? AND company_id = ?
+    `).get(userId, TEST_COMPANY_ID) as { role: string }
+    expect(membership.role).toBe('admin')
+    expect(departmentsOf(userId)).toEqual(['engineering'])
+
+    const audit = db.prepare(`
+      SELECT actor_id, details FROM audit_events WHERE action = 'member.add' AND target_id = ?
+    `).get(userId) as { actor_id: string | null; details: string }
+    expect(audit.actor_id).toBeNull()
+    expect(JSON.parse(audit.details).source).toBe('sso')
+  })
+
+  it('keeps the role and re-syncs only IdP-managed departments on later sign-ins', async () => {
+    const userId = findUserId('alice@example.com')
+    db.prepare(`UPDATE memberships SET role = 'member' WHERE user_id = ?`).run(userId)
+    // Assigned by hand in the app; design is not in the group mapping
+    db.prepare(`
+      INSERT INTO department_members (department_id, user_id, company_id, is_lead, created_by, created_at)
+      VALUES ('dept-sso-design', ?, ?, 0, 'user-sso-owner', ?)
+    `).run(userId, TEST_COMPANY_ID, new Date().toISOString())
+
+    const res = await signInWithSso({ sub: 'idp-alice', email: 'alice@example.com', name: 'Alice', groups: ['sales'] })
+    expect(res.status).toBe(302)
+
+    const membership = db.prepare(`
+      SELECT role FROM memberships WHERE user_id = ? AND company_id = ?
+    `).get(userId, TEST_COMPANY_ID) as { role: string }
+    expect(membership.role).toBe('member')
+    expect(departmentsOf(userId)).toEqual(['design', 'sales'])
+  })
+
+  it('rejects a callback whose code the IdP does not recognise', async () => {
+    const start = await auth.handler(new Request(`${APP}/api/auth/sign-in/sso`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Origin: APP },
+      body: JSON.stringify({ providerId: 'oidc', callbackURL: `${APP}/` }),
+    }))
+    const { url } = await start.json() as { url: string }
+    const authorize = new URL(url)
+    const callback = new URL(authorize.searchParams.get('redirect_uri')!)
+    callback.searchParams.set('code', 'not-a-code')
+    callback.searchParams.set('state', authorize.searchParams.get('state')!)
+
+    const res = await auth.handler(new Request(callback, {
+      headers: { Cookie: start.headers.getSetCookie().map(cookie => cookie.split(';')[0]).join('; ') },
+    }))
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toContain('error=')
+    expect(res.headers.getSetCookie().some(cookie => cookie.startsWith('better-auth.session_token='))).toBe(false)
+  })
+  it('links an existing account only when the IdP has verified the email', async () => {
+    const authDb = new Database(path.join(process.env.DATA_DIR!, 'auth.sqlite'))
+    const timestamp = new Date().toISOString()
+    authDb.prepare(`
+      INSERT INTO user (id, email, name, emailVerified, createdAt, updatedAt) VALUES (?, ?, ?, 1, ?, ?)
+    `).run('user-sso-local', 'carol@example.com', 'Carol', timestamp, timestamp)
+    authDb.close()
+
+    const unverified = await signInWithSso({ sub: 'idp-mallory', email: 'carol@example.com', email_verified: false, name: 'Mallory', groups: [] })
+    expect(unverified.status).toBe(302)
+    expect(unverified.headers.get('Location')).toContain('error=')
+    expect(unverified.headers.getSetCookie().some(cookie => cookie.startsWith('better-auth.session_token='))).toBe(false)
+    expect(ssoAccountsOf('user-sso-local')).toBe(0)
+
+    const verified = await signInWithSso({ sub: 'idp-carol', email: 'carol@example.com', email_verified: true, name: 'Carol', groups: [] })
+    expect(verified.status).toBe(302)
+    expect(verified.headers.get('Location')).toBe(`${APP}/`)
+    expect(ssoAccountsOf('user-sso-local')).toBe(1)
+  })
+})
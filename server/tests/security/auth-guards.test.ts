@@ -16,13 +16,15 @@ const ROUTES_DIR = join(__dirname, '../../src/routes')
 const PUBLIC_ENDPOINT_EXCEPTIONS: Record<string, string[]> = {
   // invitations.ts: GET /invitations/:token is public (token validation)
   'invitations.ts': ['invitationsRoute.get(\'/invitations/:token\''],
+  // password-resets.ts: the reset token itself is the credential
+  'password-resets.ts': [
+    'passwordResetsRoute.get(\'/password-resets/:token\'',
+    'passwordResetsRoute.post(\'/password-resets/:token\'',
+  ],
 }
 
 // Route files where ALL endpoints are expected to be unauthenticated (stub/TODO)
-const FULLY_PUBLIC_ROUTES = [
-  'sync.ts', // TODO: Not yet implemented, all endpoints are stubs
-  'permissions.ts', // Dead code: route unmounted from index.ts (C-2 fix), file pending deletion
-]
+const FULLY_PUBLIC_ROUTES: string[] = []
 
 function getRouteFiles(): { name: string; content: string }[] {
   return readdirSync(ROUTES_DIR)
@@ -2,7 +2,8 @@
  * Security Test: Authorization checks (role-based access control)
  *
  * Destructive operations (DELETE, POST for mutations) must verify
- * the user's role (owner/admin) in addition to authentication.
+ * the user's role capabilities (lib/roles.ts authorize) in addition to
+ * authentication.
  */
 import { describe, it, expect } from 'vitest'
 import { readFileSync } from 'fs'
@@ -11,7 +12,7 @@ import { join } from 'path'
 const ROUTES_DIR = join(__dirname, '../../src/routes')
 
 describe('Role-based authorization', () => {
-  it('DELETE /repos/:companyId must require owner role', () => {
+  it('DELETE /repos/:companyId must require the delete_repo capability', () => {
     const content = readFileSync(join(ROUTES_DIR, 'git.ts'), 'utf-8')
 
     // Find the DELETE handler
@@ -21,14 +22,13 @@ describe('Role-based authorization', () => {
     // Extract the handler body (rough: next 40 lines)
     const handlerBody = content.slice(deleteIndex, deleteIndex + 2000)
 
-    // Must check role
-    expect(handlerBody).toMatch(/membership.*role/)
-    expect(handlerBody).toMatch(/owner/)
+    // Must check the capability (owner only among built-in roles)
+    expect(handlerBody).toMatch(/authorize\(membership, 'delete_repo'\)/)
     // Must return 403 for non-owners
     expect(handlerBody).toMatch(/403/)
   })
 
-  it('department mutations must check owner/admin role', () => {
+  it('department mutations must check the manage_departments capability', () => {
     const content = readFileSync(join(ROUTES_DIR, 'departments.ts'), 'utf-8')
 
     // POST (create), PUT (update), DELETE must check role
@@ -38,6 +38,8 @@ describe('Role-based authorization', () => {
       { method: 'delete', pattern: "departmentsRoute.delete('/:id'," },
       { method: 'post', pattern: "departmentsRoute.post('/reorder'," },
       { method: 'post', pattern: "departmentsRoute.post('/sync'," },
+      { method: 'post', pattern: "departmentsRoute.post('/:id/move'," },
+      { method: 'post', pattern: "departmentsRoute.post('/:id/restore'," },
     ]
 
     for (const { method, pattern } of mutationMethods) {
@@ -47,12 +49,13 @@ describe('Role-based authorization', () => {
       const handlerBody = content.slice(idx, idx + 1500)
       expect(
         handlerBody,
-        `${pattern} must call canEditDepartments or check role`
-      ).toMatch(/canEditDepartments|membership\.role/)
+        `${pattern} must check the manage_departments capability`
+      ).toMatch(/authorize\(membership, 'manage_departments'/)
+      expect(handlerBody, `${pattern} must return 403`).toMatch(/403/)
     }
   })
 
-  it('company member management must check owner/admin role', () => {
+  it('company member management must check the manage_members capability', () => {
     const content = readFileSync(join(ROUTES_DIR, 'companies.ts'), 'utf-8')
 
     // POST /:id/members (invite) and DELETE /:id/members/:userId (remove) must check role
@@ -65,16 +68,16 @@ describe('Role-based authorization', () => {
     const postBody = content.slice(postMembers, postMembers + 1500)
     const deleteBody = content.slice(deleteMembers, deleteMembers + 1500)
 
-    // Both must check for owner/admin
-    expect(postBody).toMatch(/owner.*admin|admin.*owner/)
-    expect(deleteBody).toMatch(/owner.*admin|admin.*owner/)
+    // Both must check the capability
+    expect(postBody).toMatch(/authorize\(userMembership, 'manage_members'\)/)
+    expect(deleteBody).toMatch(/authorize\(userMembership, 'manage_members'\)/)
 
     // Both must return 403
     expect(postBody).toMatch(/403/)
     expect(deleteBody).toMatch(/403/)
   })
 
-  it('invitation management must check owner/admin role', () => {
+  it('invitation management must check the invite capability', () => {
     const content = readFileSync(join(ROUTES_DIR, 'invitations.ts'), 'utf-8')
 
     // List, create, and delete invitations must check role
@@ -89,7 +92,7 @@ describe('Role-based authorization', () => {
       expect(idx, `Handler must exist: ${handler}`).toBeGreaterThan(-1)
 
       const body = content.slice(idx, idx + 1500)
-      expect(body, `${handler} must check owner/admin role`).toMatch(/owner.*admin|admin.*owner/)
+      expect(body, `${handler} must check the invite capability`).toMatch(/authorize\(userMembership, 'invite'\)/)
       expect(body, `${handler} must return 403 for unauthorized`).toMatch(/403/)
     }
   })
@@ -97,11 +100,11 @@ describe('Role-based authorization', () => {
   it('git-http must verify company membership', () => {
     const content = readFileSync(join(ROUTES_DIR, 'git-http.ts'), 'utf-8')
 
-    // Must have authorizeForCompany function
-    expect(content).toMatch(/authorizeForCompany/)
-    // Must check memberships table
-    expect(content).toMatch(/memberships/)
+    // Must look up the membership
+    expect(content).toMatch(/getMembership\(user\.id, companyId\)/)
     // Must return 403 for non-members
     expect(content).toMatch(/Forbidden.*403|403.*Forbidden/)
+    // Pushing needs the push capability
+    expect(content).toMatch(/authorize\(membership, 'push'\)/)
   })
 })
@@ -64,8 +64,8 @@ describe('Input validation', () => {
     expect(postIdx).toBeGreaterThan(-1)
 
     const body = content.slice(postIdx, postIdx + 1500)
-    // Must validate role is one of the allowed values
-    expect(body).toMatch(/admin.*member|includes\(role\)/)
+    // Must validate role is one of the company's roles
+    expect(body).toMatch(/getCompanyRole\(companyId, role\)/)
     expect(body).toMatch(/400/)
   })
 
@@ -77,7 +77,8 @@ describe('Input validation', () => {
 
     const body = content.slice(postIdx, postIdx + 1500)
     // Must validate role
-    expect(body).toMatch(/owner.*admin.*member|includes\(role\)/)
-    expect(body).toMatch(/Invalid role/)
+    expect(body).toMatch(/checkRoleAssignment\(userMembership, role/)
+    expect(content).toMatch(/getCompanyRole\(actor\.companyId, roleId\)/)
+    expect(content).toMatch(/Invalid role/)
   })
 })
@@ -26,10 +26,42 @@ export interface CompanyMember {
   id: string
   companyId: string
   userId: string
-  role: 'owner' | 'admin' | 'member'
+  role: string // built-in role id ('owner' | 'admin' | 'member' | 'department_lead') or custom role id
+  scopeDepartmentId: string | null // department managed by a department-scoped role
   joinedAt: Date
 }
 
+// Role Types
+export type Capability =
+  | 'manage_settings'
+  | 'manage_members'
+  | 'manage_roles'
+  | 'invite'
+  | 'manage_departments'
+  | 'manage_permissions'
+  | 'view_audit'
+  | 'push'
+  | 'delete_repo'
+
+export type RoleScope = 'company' | 'department'
+
+// Personal Access Token Types
+export type AccessTokenScope =
+  | 'repo:read' // clone and fetch over /api/git-http
+  | 'repo:write' // push over /api/git-http
+  | 'api:read' // GET requests to the REST API
+  | 'api:write' // other REST API requests
+
+export interface AccessToken {
+  id: string
+  name: string
+  tokenPrefix: string // first characters of the token, to tell tokens apart
+  scopes: AccessTokenScope[]
+  expiresAt: string | null
+  lastUsedAt: string | null
+  createdAt: string
+}
+
 // Permission Types
 export interface Permission {
   id: string
@@ -52,13 +84,14 @@ export interface FileMetadata {
 
 export interface SyncRequest {
   companyId: string
-  lastSyncAt?: Date
+  cursor?: string // from the previous SyncResponse
 }
 
 export interface SyncResponse {
   files: FileMetadata[]
   deletedPaths: string[]
   syncedAt: Date
+  cursor: string | null // head of main; null while the repo is empty
 }
 
 // Agent Types
@@ -93,9 +126,23 @@ export interface Department {
   sortOrder: number
   isActive: boolean
 
+  // Set while the department is archived (folder then points below .archive/)
+  archivedAt: string | null
+  archivedBy: string | null
+  archivedFrom: string | null
+
   createdAt: string
   updatedAt: string
   createdBy: string | null
+
+  members?: DepartmentMember[] // Included in the department list
+}
+
+// Assignment of a company member to a department
+export interface DepartmentMember {
+  userId: string
+  isLead: boolean
+  createdAt: string
 }
 
 export interface DepartmentWithChildren extends Department {
@@ -131,6 +178,31 @@ export interface ReorderDepartmentItem {
   sortOrder: number
 }
 
+export interface MoveDepartmentInput {
+  folder?: string
+  parentId?: string | null
+}
+
+// A SKILL.md line that still mentions a department's old folder
+export interface SkillReference {
+  path: string
+  line: number
+  text: string
+}
+
+// Folder rename recorded by a department move (desktop clients rewrite local
+// references from fromPath to toPath on their next sync)
+export interface DepartmentMove {
+  id: string
+  departmentId: string
+  fromPath: string
+  toPath: string
+  commit: string | null
+  skillReferences: SkillReference[]
+  movedBy: string | null
+  createdAt: string
+}
+
 // API Response Types
 export interface ApiResponse<T> {
   success: boolean